@@ -6,6 +6,7 @@ module.exports = {
 
     moduleNameMapper: {
         "axios": "axios/dist/node/axios.cjs",
+        "^libopus-wasm$": "<rootDir>/mocks/libopus-wasm.mock.js",
         "worker-url": "<rootDir>/mocks/worker-url.mock.js"
     }
 
@@ -0,0 +1,190 @@
+//
+//  WebCodecs.mock.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers, class-methods-use-this */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/restrict-plus-operands */
+
+
+// Minimal WebCodecs stand-ins. The "encoded" data are the first two bytes of the PCM data; the "decoded" data are at 48kHz.
+class AudioDataMock {
+    constructor(init) {
+        Object.assign(this, init);
+    }
+
+    copyTo(destination, options) {
+        const start = options.planeIndex * this.numberOfFrames;
+        destination.set(this.data.subarray(start, start + this.numberOfFrames));
+    }
+
+    close() {
+        this.closed = true;
+    }
+}
+
+class EncodedAudioChunkMock {
+    constructor(init) {
+        Object.assign(this, init);
+        this.byteLength = init.data.byteLength;
+    }
+
+    copyTo(destination) {
+        destination.set(this.data);
+    }
+}
+
+// The encoders and decoders created, so that they can be made to fail.
+const codecs = [];
+
+// The decoder configuration description that encoders report with their first output.
+let encoderDescription = null;
+
+class AudioEncoderMock {
+    static isConfigSupported(config) {
+        return Promise.resolve({ supported: config.codec === "opus", config });
+    }
+
+    constructor(init) {
+        this.output = init.output;
+        this.error = init.error;
+        this.state = "unconfigured";
+        this.timestamps = [];
+        codecs.push(this);
+    }
+
+    configure(config) {
+        this.config = config;
+        this.state = "configured";
+    }
+
+    encode(audioData) {
+        const metadata = this.timestamps.length === 0 && encoderDescription !== null
+            ? { decoderConfig: { codec: "opus", sampleRate: 48000, numberOfChannels: 2, description: encoderDescription } }
+            : undefined;
+        this.timestamps.push(audioData.timestamp);
+        this.output(new EncodedAudioChunkMock({
+            type: "key",
+            timestamp: audioData.timestamp,
+            data: new Uint8Array(audioData.data.buffer, 0, 2)
+        }), metadata);
+    }
+
+    flush() {
+        return Promise.resolve();
+    }
+
+    close() {
+        this.state = "closed";
+    }
+}
+
+// Decoder output that is held back until WebCodecsMock.completeDecoding() is called.
+let isDecodingDeferred = false;
+const deferredDecoderOutput = [];
+
+class AudioDecoderMock {
+    static isConfigSupported(config) {
+        return Promise.resolve({ supported: config.codec === "opus", config });
+    }
+
+    constructor(init) {
+        this.output = init.output;
+        this.error = init.error;
+        this.state = "unconfigured";
+        codecs.push(this);
+    }
+
+    configure(config) {
+        this.config = config;
+        this.state = "configured";
+    }
+
+    decode(chunk) {
+        const SOURCE_FRAMES = 480;
+        const data = new Float32Array(2 * SOURCE_FRAMES);
+        data.fill(chunk.data[0] / 100, 0, SOURCE_FRAMES);
+        data.fill(-chunk.data[0] / 100, SOURCE_FRAMES);
+        const audioData = new AudioDataMock({
+            format: "f32-planar",
+            sampleRate: 48000,
+            numberOfFrames: SOURCE_FRAMES,
+            numberOfChannels: 2,
+            timestamp: chunk.timestamp,
+            data
+        });
+        if (isDecodingDeferred) {
+            deferredDecoderOutput.push(() => {
+                this.output(audioData);
+            });
+        } else {
+            this.output(audioData);
+        }
+    }
+
+    close() {
+        this.state = "closed";
+    }
+}
+
+
+const WebCodecsMock = new class {
+
+    install() {
+        globalThis.AudioData = AudioDataMock;
+        globalThis.EncodedAudioChunk = EncodedAudioChunkMock;
+        globalThis.AudioEncoder = AudioEncoderMock;
+        globalThis.AudioDecoder = AudioDecoderMock;
+    }
+
+    uninstall() {
+        delete globalThis.AudioData;
+        delete globalThis.EncodedAudioChunk;
+        delete globalThis.AudioEncoder;
+        delete globalThis.AudioDecoder;
+        isDecodingDeferred = false;
+        deferredDecoderOutput.length = 0;
+        codecs.length = 0;
+        encoderDescription = null;
+    }
+
+    setEncoderDescription(description) {
+        encoderDescription = description;
+    }
+
+    failCodecs() {
+        // Per WebCodecs, an encoder or decoder is closed when an error occurs and its pending output is discarded.
+        deferredDecoderOutput.length = 0;
+        for (const codec of [...codecs]) {
+            if (codec.state !== "closed") {
+                codec.state = "closed";
+                codec.error(new Error("Codec failed"));
+            }
+        }
+    }
+
+    deferDecoding() {
+        isDecodingDeferred = true;
+    }
+
+    completeDecoding() {
+        while (deferredDecoderOutput.length > 0) {
+            deferredDecoderOutput.shift()();
+        }
+    }
+
+    dropDecoding() {
+        // Discards decoder output that has been held back, as if the decoder didn't output those frames.
+        deferredDecoderOutput.length = 0;
+    }
+
+}();
+
+export default WebCodecsMock;
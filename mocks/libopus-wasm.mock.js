@@ -0,0 +1,101 @@
+//
+//  libopus-wasm.mock.js
+//
+//  Mocks the libopus-wasm Node module, which Jest can't load because it is an ES module that uses import.meta.
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers, class-methods-use-this */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/explicit-module-boundary-types */
+
+
+// Minimal libopus stand-ins. The "encoded" data are the first two bytes of the PCM data; the "decoded" data are the first
+// byte of the encoded data multiplied by 100; concealed frames have the value 1; and a packet starting with 255 is corrupt.
+const LOOKAHEAD_MSECS = 6.5;
+
+let isLoadingFailed = false;
+
+class OpusEncoderHandleMock {
+    constructor(options) {
+        this.sampleRate = options.sampleRate;
+        this.channels = options.channels;
+        this.frameSize = options.frameSize;
+        this.isFreed = false;
+    }
+
+    encode(pcm) {
+        if (this.isFreed) {
+            throw new Error("Encoder has been freed");
+        }
+        return new Uint8Array(pcm.buffer, pcm.byteOffset, 2).slice();
+    }
+
+    getLookahead() {
+        return this.sampleRate * LOOKAHEAD_MSECS / 1000;
+    }
+
+    free() {
+        this.isFreed = true;
+    }
+}
+
+class OpusDecoderHandleMock {
+    constructor(options) {
+        this.sampleRate = options.sampleRate;
+        this.channels = options.channels;
+        this.isFreed = false;
+    }
+
+    decode(packet) {
+        if (this.isFreed) {
+            throw new Error("Decoder has been freed");
+        }
+        if (packet[0] === 255) {
+            throw new Error("libopus decode failed (-4): corrupted stream");
+        }
+        return new Int16Array(this.sampleRate / 100 * this.channels).fill(packet[0] * 100);
+    }
+
+    decodePacketLoss(frameSize) {
+        return new Int16Array(frameSize * this.channels).fill(1);
+    }
+
+    free() {
+        this.isFreed = true;
+    }
+}
+
+function loadLibopus() {
+    return isLoadingFailed
+        ? Promise.reject(new Error("WebAssembly is not available"))
+        : Promise.resolve({ version: "libopus mock" });
+}
+
+async function createEncoder(options) {
+    await loadLibopus();
+    return new OpusEncoderHandleMock(options);
+}
+
+async function createDecoder(options) {
+    await loadLibopus();
+    return new OpusDecoderHandleMock(options);
+}
+
+
+const LibopusWasmMock = new class {
+
+    failLoading(isFailed) {
+        isLoadingFailed = isFailed;
+    }
+
+}();
+
+export { loadLibopus, createEncoder, createDecoder };
+export default LibopusWasmMock;
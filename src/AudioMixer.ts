@@ -12,10 +12,16 @@
 //
 
 import AssignmentClient from "./domain/AssignmentClient";
+import AudioInjector, { AudioInjectorOptions } from "./domain/audio/AudioInjector";
+import type { AudioInputProcessing } from "./domain/audio/AudioInput";
 import AudioOutput from "./domain/audio/AudioOutput";
+import Sound, { SoundSource } from "./domain/audio/Sound";
 import AudioClient from "./domain/audio-client/AudioClient";
+import type { AudioStats } from "./domain/audio-client/AudioIOStats";
 import type { AudioPositionGetter, AudioOrientationGetter } from "./domain/audio-client/AudioClient";
+import type { AudioRecordingOptions } from "./domain/audio-client/AudioRecorder";
 import NodeType from "./domain/networking/NodeType";
+import ScriptAudioInjector from "./domain/script-engine/ScriptAudioInjector";
 import ContextManager from "./domain/shared/ContextManager";
 import Quat from "./domain/shared/Quat";
 import SignalEmitter, { Signal } from "./domain/shared/SignalEmitter";
@@ -58,11 +64,51 @@ import Vec3 from "./domain/shared/Vec3";
  *  @property {MediaStream|null} audioInput - The audio input stream from the user client to be sent to the audio mixer and
  *      played in-world. If <code>null</code> then no audio is played.
  *      <em>Write-only.</em>
+ *  @property {string} codec - The name of the audio codec negotiated with the audio mixer: <code>"opus"</code>,
+ *      <code>"zlib"</code>, or <code>"pcm"</code>. <code>""</code> if a codec hasn't been negotiated.
+ *      <em>Read-only.</em>
+ *      <p>Opus is offered to the audio mixer if the browser supports it via WebCodecs or WebAssembly; zlib provides lossless
+ *      compression.
+ *      The audio mixer selects the codec per its codec preferences.</p>
  *  @property {boolean} inputMuted=false - <code>true</code> to mute the <code>audioInput</code> so that it is not sent to the
  *      audio mixer, <code>false</code> to let it be sent.
  *      <p>When muted, processing of audio input is suspended. This halts hardware processing, reducing CPU/battery usage.</p>
+ *  @property {boolean} inputStereo=false - <code>true</code> to send stereo audio input to the audio mixer if the
+ *      <code>audioInput</code> stream has two or more channels, <code>false</code> to send mono audio input.
+ *      <p>To capture stereo audio, the <code>audioInput</code> stream should be obtained with a <code>channelCount</code> of
+ *      <code>2</code> and with <code>echoCancellation</code>, <code>noiseSuppression</code>, and
+ *      <code>autoGainControl</code> disabled, otherwise browsers may provide mono audio.</p>
+ *  @property {boolean} serverEcho=false - <code>true</code> to have the audio mixer echo the user client's audio input back to
+ *      the user client so that the user hears themself as others do, <code>false</code> to not.
+ *  @property {AudioInput.AudioInputProcessing} inputProcessing - The processing that the SDK applies to the
+ *      <code>audioInput</code> before sending it to the audio mixer. All options are <code>false</code> by default.
+ *      <p>When setting, options not specified are unchanged. The processing may be changed while the audio input is
+ *      running.</p>
+ *      <p>This processing is independent of the browser's <code>noiseSuppression</code> and <code>autoGainControl</code>
+ *      audio input constraints. If using this processing, you may want to disable those constraints when obtaining the
+ *      <code>audioInput</code> stream.</p>
+ *  @property {boolean} hasReverb - <code>true</code> if the audio zone that the user is in has reverb, <code>false</code> if
+ *      it doesn't.
+ *      <em>Read-only.</em>
+ *  @property {number} reverbTime - The reverb time of the audio zone that the user is in, in seconds. <code>0</code> if the
+ *      zone doesn't have reverb.
+ *      <em>Read-only.</em>
+ *  @property {number} wetLevel - The reverb wet level of the audio zone that the user is in, in dB. <code>0</code> if the
+ *      zone doesn't have reverb.
+ *      <em>Read-only.</em>
+ *  @property {boolean} reverbEnabled=true - <code>true</code> to apply the reverb of the audio zone that the user is in to
+ *      the <code>audioOutput</code>, <code>false</code> to not apply it.
+ *      <p>The reverb is generated by a Web Audio convolver, which increases CPU usage while the user is in a zone with
+ *      reverb.</p>
+ *  @property {AudioIOStats.AudioStats|null} stats - The most recent statistics on the audio streams between the user client and
+ *      the audio mixer. <code>null</code> if the audio mixer hasn't reported statistics.
+ *      <em>Read-only.</em>
+ *      <p>The audio mixer reports its statistics once per second. These can be used to diagnose audio problems such as packet
+ *      loss and jitter buffer starves.</p>
  *  @property {Signal<AudioMixer~mutedByMixer>} mutedByMixer - Triggered when the audio mixer has made the user client mute its
  *      audio input &mdash; either because the background noise is too loud or an admin has muted the user.
+ *  @property {Signal<AudioMixer~audioStatsUpdated>} audioStatsUpdated - Triggered when the audio mixer has reported
+ *      statistics on the audio streams.
  *  @property {AudioPositionGetter} positionGetter - The function the <code>AudioMixer</code> code should call in order to get
  *      the current position of the user client's audio.
  *      <em>Write-only.</em>
@@ -106,17 +152,21 @@ class AudioMixer extends AssignmentClient {
      */
 
 
+    #_contextID;
     #_audioClient;
     #_audioOutput;
 
     #_audioWorkletRelativePath = "";
 
     #_mutedByMixer = new SignalEmitter();
+    #_audioStatsUpdated = new SignalEmitter();
 
 
     constructor(contextID: number) {
         super(contextID, NodeType.AudioMixer);
 
+        this.#_contextID = contextID;
+
         // Context
         ContextManager.set(contextID, AudioOutput);
         ContextManager.set(contextID, AudioClient, contextID);
@@ -126,6 +176,9 @@ class AudioMixer extends AssignmentClient {
         this.#_audioClient.mutedByMixer.connect(() => {
             this.#_mutedByMixer.emit();
         });
+        this.#_audioClient.audioStatsUpdated.connect((stats: AudioStats) => {
+            this.#_audioStatsUpdated.emit(stats);
+        });
     }
 
 
@@ -146,6 +199,85 @@ class AudioMixer extends AssignmentClient {
         });
     }
 
+    get codec(): string {
+        return this.#_audioClient.getSelectedAudioFormat();
+    }
+
+    get stats(): AudioStats | null {
+        return this.#_audioClient.getStats().getStats();
+    }
+
+    get inputStereo(): boolean {
+        return this.#_audioClient.isStereoInput();
+    }
+
+    set inputStereo(inputStereo: boolean) {
+        if (typeof inputStereo !== "boolean") {
+            console.error("Tried to set an invalid AudioMixer.inputStereo value!");
+            return;
+        }
+        this.#_audioClient.setIsStereoInput(inputStereo);
+    }
+
+    get serverEcho(): boolean {
+        return this.#_audioClient.getServerEcho();
+    }
+
+    set serverEcho(serverEcho: boolean) {
+        if (typeof serverEcho !== "boolean") {
+            console.error("Tried to set an invalid AudioMixer.serverEcho value!");
+            return;
+        }
+        this.#_audioClient.setServerEcho(serverEcho);
+    }
+
+    get inputProcessing(): AudioInputProcessing {
+        return this.#_audioClient.getInputProcessing();
+    }
+
+    set inputProcessing(inputProcessing: Partial<AudioInputProcessing>) {
+        if (typeof inputProcessing !== "object" || inputProcessing === null
+                || inputProcessing.noiseGate !== undefined && typeof inputProcessing.noiseGate !== "boolean"
+                || inputProcessing.automaticGainControl !== undefined
+                    && typeof inputProcessing.automaticGainControl !== "boolean"
+                || inputProcessing.noiseSuppression !== undefined && typeof inputProcessing.noiseSuppression !== "boolean") {
+            console.error("Tried to set an invalid AudioMixer.inputProcessing value!");
+            return;
+        }
+        const processing = this.#_audioClient.getInputProcessing();
+        this.#_audioClient.setInputProcessing({
+            noiseGate: inputProcessing.noiseGate ?? processing.noiseGate,
+            automaticGainControl: inputProcessing.automaticGainControl ?? processing.automaticGainControl,
+            noiseSuppression: inputProcessing.noiseSuppression ?? processing.noiseSuppression
+        });
+    }
+
+    get hasReverb(): boolean {
+        return this.#_audioClient.getReceivedAudioStream().hasReverb();
+    }
+
+    get reverbTime(): number {
+        const receivedAudioStream = this.#_audioClient.getReceivedAudioStream();
+        return receivedAudioStream.hasReverb() ? receivedAudioStream.getReverbTime() : 0;
+    }
+
+    get wetLevel(): number {
+        const receivedAudioStream = this.#_audioClient.getReceivedAudioStream();
+        return receivedAudioStream.hasReverb() ? receivedAudioStream.getWetLevel() : 0;
+    }
+
+    get reverbEnabled(): boolean {
+        return this.#_audioClient.getReverbEnabled();
+    }
+
+    set reverbEnabled(reverbEnabled: boolean) {
+        if (typeof reverbEnabled !== "boolean") {
+            console.error("Tried to set an invalid AudioMixer.reverbEnabled value!");
+            return;
+        }
+        this.#_audioClient.setReverbEnabled(reverbEnabled);
+    }
+
     get inputMuted(): boolean {
         return this.#_audioClient.isMuted();
     }
@@ -234,6 +366,86 @@ class AudioMixer extends AssignmentClient {
         return this.#_audioOutput.pause();
     }
 
+    /*@sdkdoc
+     *  Plays a sound in the domain, or only in the user client's <code>audioOutput</code> if the <code>localOnly</code> option
+     *  is <code>true</code>.
+     *  <p>The sound is loaded and decoded, if necessary, before it starts playing. Sounds played in the domain are streamed to
+     *  the audio mixer while connected to it. Local-only sounds can be played only after the <code>audioOutput</code> has been
+     *  accessed.</p>
+     *  @param {SoundSource} source - The sound to play.
+     *  @param {AudioInjectorOptions} [options={}] - The options for playing the sound.
+     *  @returns {ScriptAudioInjector|null} An object for controlling the sound being played. <code>null</code> if the
+     *      <code>source</code> or <code>options</code> are invalid.
+     */
+    playSound(source: SoundSource, options: AudioInjectorOptions = {}): ScriptAudioInjector | null {
+        // C++  ScriptAudioInjector* AudioScriptingInterface::playSound(SharedSoundPointer sound,
+        //      const AudioInjectorOptions& injectorOptions)
+        if (!(typeof source === "string" || source instanceof ArrayBuffer || source instanceof Int16Array
+            || typeof AudioBuffer !== "undefined" && source instanceof AudioBuffer)) {
+            console.error("Tried to play an invalid AudioMixer.playSound() source!");
+            return null;
+        }
+        if (typeof options !== "object" || options === null) {
+            console.error("Tried to play a sound with invalid AudioMixer.playSound() options!");
+            return null;
+        }
+
+        const injector = new AudioInjector(this.#_contextID, new Sound(source), options);
+        injector.inject();
+        return new ScriptAudioInjector(injector);
+    }
+
+    /*@sdkdoc
+     *  Starts recording the audio received from the audio mixer and the user's audio input, locally in the user client. The
+     *  recording is stereo at 24kHz.
+     *  <p><em>Async</em></p>
+     *  @async
+     *  @param {AudioRecordingOptions} [options={}] - The recording options.
+     *  @returns {Promise<boolean>} <code>true</code> if recording was started, <code>false</code> if the <code>options</code>
+     *      are invalid, the format isn't supported, or audio is already being recorded.
+     */
+    async startRecording(options: AudioRecordingOptions = {}): Promise<boolean> {
+        // C++  void AudioScriptingInterface::startRecording(const QString& filename)
+        if (typeof options !== "object" || options === null
+                || options.includeInput !== undefined && typeof options.includeInput !== "boolean"
+                || options.includeOutput !== undefined && typeof options.includeOutput !== "boolean"
+                || options.format !== undefined && options.format !== "wav" && options.format !== "ogg") {
+            console.error("Tried to start recording with invalid AudioMixer.startRecording() options!");
+            return false;
+        }
+
+        if (this.#_audioClient.isRecording()) {
+            console.error("Tried to start recording while already recording!");
+            return false;
+        }
+
+        const started = await this.#_audioClient.startRecording({
+            includeInput: options.includeInput ?? true,
+            includeOutput: options.includeOutput ?? true,
+            format: options.format ?? "wav"
+        });
+        if (!started) {
+            console.error("Tried to start recording in a format that isn't supported or while already recording!");
+        }
+        return started;
+    }
+
+    /*@sdkdoc
+     *  Stops recording audio.
+     *  <p><em>Async</em></p>
+     *  @async
+     *  @returns {Promise<Blob|null>} The recording as a WAV or Ogg/Opus file, per the format specified when recording was
+     *      started. <code>null</code> if audio isn't being recorded.
+     */
+    async stopRecording(): Promise<Blob | null> {
+        // C++  void AudioScriptingInterface::stopRecording()
+        if (!this.#_audioClient.isRecording()) {
+            console.error("Tried to stop recording while not recording!");
+            return null;
+        }
+        return this.#_audioClient.stopRecording();
+    }
+
 
     /*@sdkdoc
      *  Triggered when the audio mixer has made the client mute its audio input &mdash; either because the background noise is
@@ -245,6 +457,17 @@ class AudioMixer extends AssignmentClient {
         return this.#_mutedByMixer.signal();
     }
 
+    /*@sdkdoc
+     *  Triggered when the audio mixer has reported statistics on the audio streams between the user client and the audio
+     *  mixer. This happens once per second while connected to the audio mixer.
+     *  @function AudioMixer~audioStatsUpdated
+     *  @param {AudioIOStats.AudioStats} stats - The statistics on the audio streams.
+     *  @returns {Signal}
+     */
+    get audioStatsUpdated(): Signal {
+        return this.#_audioStatsUpdated.signal();
+    }
+
 }
 
 export default AudioMixer;
@@ -17,8 +17,9 @@ import PacketScribe from "./domain/networking/packets/PacketScribe";
 import Node from "./domain/networking/Node";
 import NodeList from "./domain/networking/NodeList";
 import NodeType from "./domain/networking/NodeType";
-import Camera from "./domain/shared/Camera";
+import CameraManager from "./domain/shared/CameraManager";
 import ContextManager from "./domain/shared/ContextManager";
+import SpatialParentFinder from "./domain/shared/SpatialParentFinder";
 import AssignmentClient from "./domain/AssignmentClient";
 import AvatarManager from "./domain/AvatarManager";
 
@@ -26,7 +27,8 @@ import AvatarManager from "./domain/AvatarManager";
 /*@sdkdoc
  *  The <code>AvatarMixer</code> class provides the interface for working with avatar mixer assignment clients.
  *  <p>Prerequisite: A {@link DomainServer} object must be created in order to set up the domain context.</p>
- *  <p>Prerequisite: A {@link Camera} object must be created for this class to use.</p>
+ *  <p>Prerequisite: One or more {@link Camera} objects must be created for this class to use. Avatar queries cover the union
+ *  of the cameras' views.</p>
  *
  *  @class AvatarMixer
  *  @extends AssignmentClient
@@ -96,7 +98,7 @@ class AvatarMixer extends AssignmentClient {
 
 
     // Context.
-    #_camera: Camera;
+    #_cameraManager: CameraManager;
     #_nodeList: NodeList;
     #_avatarManager: AvatarManager;
 
@@ -111,9 +113,10 @@ class AvatarMixer extends AssignmentClient {
 
         // Context
         ContextManager.set(contextID, AvatarManager, contextID);
-        this.#_camera = ContextManager.get(contextID, Camera) as Camera;
+        this.#_cameraManager = ContextManager.get(contextID, CameraManager) as CameraManager;
         this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
         this.#_avatarManager = ContextManager.get(contextID, AvatarManager) as AvatarManager;
+        (ContextManager.get(contextID, SpatialParentFinder) as SpatialParentFinder).addParentTree(this.#_avatarManager);
 
         // C++  Application::Application()
         this.#_nodeList.nodeActivated.connect(this.#nodeActivated);
@@ -146,7 +149,7 @@ class AvatarMixer extends AssignmentClient {
         this.#_avatarManager.updateMyAvatar();
 
         // Get updated avatar data from other clients.
-        const viewIsDifferentEnough = this.#_camera.hasViewChanged;
+        const viewIsDifferentEnough = this.#_cameraManager.hasViewChanged;
         const now = Date.now();
         if (now > this.#_queryExpiry || viewIsDifferentEnough) {
             this.#queryAvatars();
@@ -162,7 +165,7 @@ class AvatarMixer extends AssignmentClient {
         // Interstitial mode isn't implemented.
 
         const avatarQueryDetails = {
-            conicalViews: [this.#_camera.conicalView]
+            conicalViews: this.#_cameraManager.conicalViews
         };
 
         const avatarPacket = PacketScribe.AvatarQuery.write(avatarQueryDetails);
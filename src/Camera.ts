@@ -12,14 +12,18 @@
 //
 
 import Camera from "./domain/shared/Camera";
+import CameraManager from "./domain/shared/CameraManager";
 import ContextManager from "./domain/shared/ContextManager";
 import Quat, { quat } from "./domain/shared/Quat";
 import Vec3, { vec3 } from "./domain/shared/Vec3";
 
 
 /*@sdkdoc
- *  The <code>Camera</code> class provides the interface for managing the client's camera view that the {@link AvatarMixer} and
+ *  The <code>Camera</code> class provides the interface for managing a client camera view that the {@link AvatarMixer} and
  *  {@link EntityServer} use.
+ *  <p>Multiple cameras may be created in a domain context, for example a main view, a mirror or security camera view, and a
+ *  minimap view. The avatar mixer and entity server queries then cover the union of all the cameras' views. Use
+ *  {@link Camera.remove|remove} to stop using a camera.</p>
  *  <p>Prerequisite: A {@link DomainServer} object must be created in order to set up the domain context.</p>
  *  @class Camera
  *  @param {number} contextID - The domain context to use. See {@link DomainServer|DomainServer.contextID}.
@@ -38,13 +42,19 @@ class CameraAPI {
     // C++  N/A
 
     // Context.
+    #_cameraManager: CameraManager;
+
     #_camera: Camera;  // Internal camera object.
 
 
     constructor(contextID: number) {
         // Context
-        ContextManager.set(contextID, Camera);
-        this.#_camera = ContextManager.get(contextID, Camera) as Camera;
+        if (!ContextManager.has(contextID, CameraManager)) {
+            ContextManager.set(contextID, CameraManager);
+        }
+        this.#_cameraManager = ContextManager.get(contextID, CameraManager) as CameraManager;
+
+        this.#_camera = this.#_cameraManager.addCamera();
     }
 
 
@@ -133,6 +143,20 @@ class CameraAPI {
         this.#_camera.update();
     }
 
+    /*@sdkdoc
+     *  Removes the camera from use by the {@link AvatarMixer} and {@link EntityServer}. The camera's view is no longer included
+     *  in their queries.
+     *  <p>The last camera in a domain context can't be removed because the queries must include at least one view.</p>
+     *  @method Camera.remove
+     */
+    remove(): void {
+        if (this.#_cameraManager.cameras.length === 1 && this.#_cameraManager.cameras[0] === this.#_camera) {
+            console.error("[Camera] Tried to remove the last camera!");
+            return;
+        }
+        this.#_cameraManager.removeCamera(this.#_camera);
+    }
+
 }
 
 export { CameraAPI as default };
@@ -21,6 +21,7 @@ import NodeList from "./domain/networking/NodeList";
 import NodeType from "./domain/networking/NodeType";
 import ContextManager from "./domain/shared/ContextManager";
 import SignalEmitter, { Signal } from "./domain/shared/SignalEmitter";
+import SpatialParentFinder from "./domain/shared/SpatialParentFinder";
 import Url from "./domain/shared/Url";
 import Uuid from "./domain/shared/Uuid";
 
@@ -171,6 +172,7 @@ class DomainServer {
         ContextManager.set(contextID, AddressManager);
         ContextManager.set(contextID, NodeList, contextID);
         ContextManager.set(contextID, MetaverseAPI);
+        ContextManager.set(contextID, SpatialParentFinder);
 
         this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
         this.#_accountManager = ContextManager.get(contextID, AccountManager) as AccountManager;
@@ -220,6 +222,7 @@ class DomainServer {
             NodeType.AudioMixer,
             NodeType.AvatarMixer,
             NodeType.EntityServer,
+            NodeType.EntityScriptServer,
             NodeType.MessagesMixer
         ]));
 
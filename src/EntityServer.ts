@@ -9,27 +9,51 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import EntityEditPacketSender from "./domain/entities/EntityEditPacketSender";
+import EntityItemProperties, { EntityEditProperties } from "./domain/entities/EntityItemProperties";
+import EntityTree from "./domain/entities/EntityTree";
+import { EntityType } from "./domain/entities/EntityTypes";
+import { EntityEraseDetails } from "./domain/networking/packets/EntityErase";
+import { EntityProperties } from "./domain/networking/packets/EntityData";
+import { OctreeStatsDetails } from "./domain/networking/packets/OctreeStats";
 import PacketScribe from "./domain/networking/packets/PacketScribe";
+import EntityScriptClient, { ScriptStatus } from "./domain/networking/EntityScriptClient";
+import EntityScriptServerLogClient from "./domain/networking/EntityScriptServerLogClient";
+import PacketType from "./domain/networking/udt/PacketHeaders";
 import Node from "./domain/networking/Node";
 import NodeList from "./domain/networking/NodeList";
 import NodeType, { NodeTypeValue } from "./domain/networking/NodeType";
 import OctreeConstants from "./domain/octree/OctreeConstants";
 import OctreePacketProcessor from "./domain/octree/OctreePacketProcessor";
 import OctreeQuery from "./domain/octree/OctreeQuery";
-import Camera from "./domain/shared/Camera";
+import { ConicalViewFrustum } from "./domain/shared/Camera";
+import CameraManager from "./domain/shared/CameraManager";
 import ContextManager from "./domain/shared/ContextManager";
+import GLMHelpers from "./domain/shared/GLMHelpers";
 import SignalEmitter, { Signal } from "./domain/shared/SignalEmitter";
+import SpatialParentFinder from "./domain/shared/SpatialParentFinder";
+import Uuid from "./domain/shared/Uuid";
+import Vec3, { vec3 } from "./domain/shared/Vec3";
 import AssignmentClient from "./domain/AssignmentClient";
+import LODManager from "./domain/LODManager";
+import LODSettingsInterface from "./domain/interfaces/LODSettingsInterface";
 
 
 /*@sdkdoc
  *  The <code>EntityServer</code> class provides the interface for working with entity server assignment clients.
  *  <p>For a list of entity types, see {@link EntityType}.</p>
  *  <p>For entity properties, see {@link EntityProperties}.</p>
+ *  <p>The entity server keeps a copy of the entities that it has been sent, merging changed entity data into the entities'
+ *  existing data and removing entities that have been deleted. These entities can be queried using methods such as
+ *  {@link EntityServer.getEntity|getEntity} and {@link EntityServer.findEntitiesInSphere|findEntitiesInSphere}.</p>
+ *  <p>Entities can be added, edited, and deleted using {@link EntityServer.addEntity|addEntity},
+ *  {@link EntityServer.editEntity|editEntity}, and {@link EntityServer.deleteEntity|deleteEntity}, subject to the user's
+ *  permissions in the domain. The entity server's responses update the entities that the user client knows about.</p>
  *  <p>Prerequisites:<p>
  *  <ul>
  *      <li>A {@link DomainServer} object must be created in order to set up the domain context.</li>
- *      <li>Prerequisite: A {@link Camera} object must be created for this class to use.</li>
+ *      <li>Prerequisite: One or more {@link Camera} objects must be created for this class to use. Entity queries cover
+ *          the union of the cameras' views.</li>
  *  </ul>
  *
  *  @class EntityServer
@@ -51,8 +75,25 @@ import AssignmentClient from "./domain/AssignmentClient";
  *
  *  @property {number} maxOctreePacketsPerSecond - The maximum number of octree packets per second that the user client is
  *      willing to handle.
+ *  @property {LODSettingsInterface} lodSettings - Properties and methods for controlling the level of detail of the entity
+ *      data that the entity server sends.
+ *      <em>Read-only.</em>
  *  @property {Signal<EntityServer~entityData>} entityData - Triggered when new or changed entity data is received from the
  *      entity server.
+ *  @property {Signal<EntityServer~entityErased>} entityErased - Triggered when the entity server reports that entities have
+ *      been deleted, and when all entities are cleared because the entity server has disconnected.
+ *  @property {Signal<EntityServer~initialLoadComplete>} initialLoadComplete - Triggered when the entity server's initial
+ *      load of entities has been received.
+ *  @property {Signal<EntityServer~statsReceived>} statsReceived - Triggered when statistics on the entity data sent are
+ *      received from the entity server.
+ *  @property {PacketScribe.OctreeStatsDetails|null} stats - The most recent statistics on the entity data sent by the entity
+ *      server, <code>null</code> if none have been received since connecting to the entity server.
+ *      <em>Read-only.</em>
+ *  @property {boolean} serverScriptLogEnabled=false - <code>true</code> to receive the output of the domain's server entity
+ *      scripts via the {@link EntityServer.serverScriptLog|serverScriptLog} signal, <code>false</code> to not receive it. The
+ *      output is only sent if the user has permission to create entities in the domain.
+ *  @property {Signal<EntityServer~serverScriptLog>} serverScriptLog - Triggered when server entity script log output is
+ *      received. <code>serverScriptLogEnabled</code> must be <code>true</code> for output to be received.
  */
 class EntityServer extends AssignmentClient {
 
@@ -91,37 +132,88 @@ class EntityServer extends AssignmentClient {
 
     static readonly #MIN_PERIOD_BETWEEN_QUERIES = 3000;
 
+    // C++  Application.cpp
+    static readonly #INITIAL_QUERY_RADIUS = 10.0;  // Priority radius for entities before the initial load is complete.
+    static readonly #MIN_LOD_ADJUST = -20;
+
+    // C++  EntityItemPropertiesDefaults.h
+    static readonly #ENTITY_ITEM_MAX_TMP_ENTITY_LIFETIME = 3600;  // seconds
+
 
     // Context
-    #_camera: Camera;
+    #_cameraManager: CameraManager;
     #_nodeList: NodeList;
+    #_lodManager: LODManager;
+
+    #_lodSettingsInterface: LODSettingsInterface;
 
     #_octreeQuery = new OctreeQuery(true);
     #_octreeProcessor;
+    #_entityEditSender;
+    #_entityScriptClient;
+    #_entityScriptServerLogClient;
     #_maxOctreePPS = OctreeConstants.DEFAULT_MAX_OCTREE_PPS;
     #_queryExpiry = 0;
-    #_physicsEnabled = true;
+    #_physicsEnabled = false;
     #_entityData = new SignalEmitter();
+    #_entityErased = new SignalEmitter();
+    #_initialLoadComplete = new SignalEmitter();
+    #_statsReceived = new SignalEmitter();
+    #_stats: OctreeStatsDetails | null = null;
+    #_entityTree = new EntityTree();
 
 
     constructor(contextID: number) {
         super(contextID, NodeType.EntityServer);
 
         // Context
-        this.#_camera = ContextManager.get(contextID, Camera) as Camera;
+        this.#_cameraManager = ContextManager.get(contextID, CameraManager) as CameraManager;
         this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+        ContextManager.set(contextID, LODManager);
+        this.#_lodManager = ContextManager.get(contextID, LODManager) as LODManager;
+        (ContextManager.get(contextID, SpatialParentFinder) as SpatialParentFinder).addParentTree(this.#_entityTree);
 
         ContextManager.set(contextID, OctreePacketProcessor, contextID);
         this.#_octreeProcessor = ContextManager.get(contextID, OctreePacketProcessor) as OctreePacketProcessor;
-        this.#_octreeProcessor.entityData.connect((data) => {
+        this.#_octreeProcessor.entityData.connect((data: EntityProperties[]) => {
+            this.#_entityTree.processEntityData(data);
             this.#_entityData.emit(data);
         });
+        this.#_octreeProcessor.entityErased.connect((data: EntityEraseDetails) => {
+            // Descendants of deleted entities are also deleted.
+            const entityIDs = [...data.entityIDs];
+            for (const entityID of this.#_entityTree.deleteEntities(data.entityIDs)) {
+                if (!entityIDs.some((id) => {
+                    return id.value() === entityID.value();
+                })) {
+                    entityIDs.push(entityID);
+                }
+            }
+            this.#_entityErased.emit(entityIDs);
+        });
+
+        this.#_octreeProcessor.octreeStats.connect((stats: OctreeStatsDetails) => {
+            this.#_stats = stats;
+            this.#_statsReceived.emit(stats);
+        });
+
+        ContextManager.set(contextID, EntityEditPacketSender, contextID);
+        this.#_entityEditSender = ContextManager.get(contextID, EntityEditPacketSender) as EntityEditPacketSender;
+
+        ContextManager.set(contextID, EntityScriptClient, contextID);
+        this.#_entityScriptClient = ContextManager.get(contextID, EntityScriptClient) as EntityScriptClient;
+        ContextManager.set(contextID, EntityScriptServerLogClient, contextID);
+        this.#_entityScriptServerLogClient
+            = ContextManager.get(contextID, EntityScriptServerLogClient) as EntityScriptServerLogClient;
 
         // C++  Application::Application()
         this.#_nodeList.nodeActivated.connect(this.#nodeActivated);
         this.#_nodeList.nodeKilled.connect(this.#nodeKilled);
 
         this.#_queryExpiry = Date.now();
+        this.#resetPhysicsReadyInformation();
+
+        this.#_lodSettingsInterface = new LODSettingsInterface(contextID);
     }
 
 
@@ -129,6 +221,28 @@ class EntityServer extends AssignmentClient {
         return this.#_maxOctreePPS;
     }
 
+    get lodSettings(): LODSettingsInterface {
+        return this.#_lodSettingsInterface;
+    }
+
+    get stats(): OctreeStatsDetails | null {
+        return this.#_stats;
+    }
+
+    get serverScriptLogEnabled(): boolean {
+        return this.#_entityScriptServerLogClient.isSubscribed();
+    }
+
+    set serverScriptLogEnabled(enabled: boolean) {
+        // C++  void EntityScriptServerLogClient::connectNotify(const QMetaMethod& signal)
+        //      void EntityScriptServerLogClient::disconnectNotify(const QMetaMethod& signal)
+        if (typeof enabled !== "boolean") {
+            console.error("[EntityServer] Tried to set invalid serverScriptLogEnabled value!", JSON.stringify(enabled));
+            return;
+        }
+        this.#_entityScriptServerLogClient.enableToEntityServerScriptLog(enabled);
+    }
+
     /*@sdkdoc
      *  Triggered when new or changed entity data is received from the entity server.
      *  @callback EntityServer~entityData
@@ -139,6 +253,299 @@ class EntityServer extends AssignmentClient {
         return this.#_entityData.signal();
     }
 
+    /*@sdkdoc
+     *  Triggered when the entity server reports that entities have been deleted, and when all entities are cleared because the
+     *  entity server has disconnected.
+     *  @callback EntityServer~entityErased
+     *  @param {Uuid[]} entityIDs - The IDs of the entities that have been deleted. Known descendants of the deleted entities
+     *      are included because they are deleted along with their ancestors.
+     */
+    get entityErased(): Signal {
+        return this.#_entityErased.signal();
+    }
+
+    /*@sdkdoc
+     *  Triggered when the entity server's initial load of entities has been received. This happens after connecting to the
+     *  entity server and after {@link EntityServer.requestInitialLoad|requestInitialLoad} is called.
+     *  <p>The initial load includes the entities near the cameras and in the cameras' views. Entity data continues to be
+     *  received after the initial load as the cameras move and entities change.</p>
+     *  @callback EntityServer~initialLoadComplete
+     */
+    get initialLoadComplete(): Signal {
+        return this.#_initialLoadComplete.signal();
+    }
+
+    /*@sdkdoc
+     *  Triggered when statistics on the entity data sent are received from the entity server. The entity server sends these
+     *  after sending each scene (set of entity data).
+     *  @callback EntityServer~statsReceived
+     *  @param {PacketScribe.OctreeStatsDetails} stats - The statistics on the entity data sent.
+     */
+    get statsReceived(): Signal {
+        return this.#_statsReceived.signal();
+    }
+
+    /*@sdkdoc
+     *  Triggered when server entity script log output is received.
+     *  @callback EntityServer~serverScriptLog
+     *  @param {string} logLines - One or more lines of log output, separated by <code>"\n"</code>.
+     */
+    get serverScriptLog(): Signal {
+        return this.#_entityScriptServerLogClient.receivedNewLogLines;
+    }
+
+
+    /*@sdkdoc
+     *  Gets the properties of an entity. The properties include the most recent values received for each property.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {EntityProperties|null} The properties of the entity if it is known, <code>null</code> if it isn't.
+     */
+    getEntity(entityID: Uuid): EntityProperties | null {
+        // C++  EntityItemProperties EntityScriptingInterface::getEntityProperties(const QUuid& entityID)
+        if (!(entityID instanceof Uuid)) {
+            console.error("[EntityServer] getEntity() called with an invalid entityID value!");
+            return null;
+        }
+        return this.#_entityTree.findEntityByID(entityID);
+    }
+
+    /*@sdkdoc
+     *  Gets the IDs of all the entities that the user client knows about.
+     *  @returns {Uuid[]} The IDs of all the entities.
+     */
+    getEntityIDs(): Uuid[] {
+        // C++  N/A
+        return this.#_entityTree.getEntityIDs();
+    }
+
+    /*@sdkdoc
+     *  Finds the entities whose axis-aligned query boxes intersect a sphere.
+     *  @param {vec3} center - The center of the sphere.
+     *  @param {number} radius - The radius of the sphere.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    findEntitiesInSphere(center: vec3, radius: number): Uuid[] {
+        // C++  QVector<QUuid> EntityScriptingInterface::findEntities(const glm::vec3& center, float radius)
+        if (!Vec3.valid(center) || typeof radius !== "number" || radius < 0) {
+            console.error("[EntityServer] findEntitiesInSphere() called with invalid parameter values!");
+            return [];
+        }
+        return this.#_entityTree.evalEntitiesInSphere(center, radius);
+    }
+
+    /*@sdkdoc
+     *  Finds the entities whose axis-aligned query boxes intersect an axis-aligned box.
+     *  @param {vec3} corner - The corner of the box with minimum x, y, and z values.
+     *  @param {vec3} dimensions - The dimensions of the box.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    findEntitiesInBox(corner: vec3, dimensions: vec3): Uuid[] {
+        // C++  QVector<QUuid> EntityScriptingInterface::findEntitiesInBox(const glm::vec3& corner,
+        //          const glm::vec3& dimensions)
+        if (!Vec3.valid(corner) || !Vec3.valid(dimensions)) {
+            console.error("[EntityServer] findEntitiesInBox() called with invalid parameter values!");
+            return [];
+        }
+        return this.#_entityTree.evalEntitiesInBox(corner, dimensions);
+    }
+
+    /*@sdkdoc
+     *  Finds the entities with a particular name whose axis-aligned query boxes intersect a sphere.
+     *  @param {string} name - The name of the entities to find.
+     *  @param {vec3} center - The center of the sphere.
+     *  @param {number} radius - The radius of the sphere.
+     *  @param {boolean} [caseSensitive=false] - <code>true</code> if the name match is case sensitive, <code>false</code> if
+     *      it isn't.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    findEntitiesByName(name: string, center: vec3, radius: number, caseSensitive = false): Uuid[] {
+        // C++  QVector<QUuid> EntityScriptingInterface::findEntitiesByName(const QString entityName,
+        //          const glm::vec3& center, float radius, bool caseSensitiveSearch)
+        if (typeof name !== "string" || !Vec3.valid(center) || typeof radius !== "number" || radius < 0
+                || typeof caseSensitive !== "boolean") {
+            console.error("[EntityServer] findEntitiesByName() called with invalid parameter values!");
+            return [];
+        }
+        return this.#_entityTree.evalEntitiesInSphereWithName(name, center, radius, caseSensitive);
+    }
+
+    /*@sdkdoc
+     *  Adds an entity. The entity server responds with the new entity's data, which is then available via
+     *  {@link EntityServer.getEntity|getEntity} and the {@link EntityServer.entityData|entityData} signal.
+     *  <p>The user must have permission to create entities in the domain or, for entities with a <code>lifetime</code>
+     *  greater than <code>0</code> and no greater than <code>3600</code> seconds, permission to create temporary entities.</p>
+     *  @param {EntityEditProperties} properties - The properties of the entity. The <code>entityType</code> property must be
+     *      specified and must be <code>Box</code>, <code>Sphere</code>, <code>Shape</code>, or <code>Model</code>.
+     *  @returns {Uuid|null} The ID of the new entity if the request was sent to the entity server, <code>null</code> if it
+     *      wasn't.
+     */
+    addEntity(properties: EntityEditProperties): Uuid | null {
+        // C++  QUuid EntityScriptingInterface::addEntityInternal(const EntityItemProperties& properties,
+        //          entity::HostType entityHostType)
+        if (typeof properties !== "object" || properties === null || typeof properties.entityType !== "number"
+                || properties.entityType <= EntityType.Unknown || properties.entityType >= EntityType.NUM_TYPES) {
+            console.error("[EntityServer] addEntity() called with invalid properties!");
+            return null;
+        }
+
+        if (!EntityItemProperties.canAddEntityType(properties.entityType)) {
+            console.error("[EntityServer] addEntity() - Entity type not supported:", EntityType[properties.entityType]);
+            return null;
+        }
+
+        const lifetime = properties.lifetime;
+        const isTemporary = lifetime !== undefined && lifetime > 0
+            && lifetime <= EntityServer.#ENTITY_ITEM_MAX_TMP_ENTITY_LIFETIME;
+        if (!this.#_nodeList.getThisNodeCanRez() && !(isTemporary && this.#_nodeList.getThisNodeCanRezTmp())) {
+            console.error("[EntityServer] addEntity() - No permission to create entities in this domain!");
+            return null;
+        }
+
+        if (properties.locked === true && !this.#_nodeList.getThisNodeCanAdjustLocks()) {
+            console.error("[EntityServer] addEntity() - No permission to create locked entities in this domain!");
+            return null;
+        }
+
+        if (!this.#canSendToEntityServer("addEntity")) {
+            return null;
+        }
+
+        const entityID = Uuid.createUuid();
+        this.#_entityEditSender.queueEditEntityMessage(PacketType.EntityAdd, entityID, properties.entityType, properties);
+        return entityID;
+    }
+
+    /*@sdkdoc
+     *  Edits an entity. Only the properties with values specified are changed. The entity server responds with the entity's
+     *  changed data, which is then available via {@link EntityServer.getEntity|getEntity} and the
+     *  {@link EntityServer.entityData|entityData} signal.
+     *  <p>The entity must be known to the user client. A locked entity can only be edited, and the <code>locked</code>
+     *  property can only be changed, if the user has permission to lock and unlock entities in the domain.</p>
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @param {EntityEditProperties} properties - The entity property values to change. The <code>entityType</code> property
+     *      is ignored.
+     *  @returns {boolean} <code>true</code> if the request was sent to the entity server, <code>false</code> if it wasn't.
+     */
+    editEntity(entityID: Uuid, properties: EntityEditProperties): boolean {
+        // C++  QUuid EntityScriptingInterface::editEntity(const QUuid& id, const EntityItemProperties& scriptSideProperties)
+        if (!(entityID instanceof Uuid) || typeof properties !== "object" || properties === null) {
+            console.error("[EntityServer] editEntity() called with invalid parameter values!");
+            return false;
+        }
+
+        const entity = this.#_entityTree.findEntityByID(entityID);
+        if (!entity) {
+            console.error("[EntityServer] editEntity() - Entity not found:", entityID.stringify());
+            return false;
+        }
+
+        const canAdjustLocks = this.#_nodeList.getThisNodeCanAdjustLocks();
+        if (entity.locked === true && !canAdjustLocks) {
+            console.error("[EntityServer] editEntity() - No permission to edit locked entities in this domain!");
+            return false;
+        }
+        if (properties.locked !== undefined && properties.locked !== entity.locked && !canAdjustLocks) {
+            console.error("[EntityServer] editEntity() - No permission to lock or unlock entities in this domain!");
+            return false;
+        }
+
+        if (!this.#canSendToEntityServer("editEntity")) {
+            return false;
+        }
+
+        this.#_entityEditSender.queueEditEntityMessage(PacketType.EntityEdit, entityID, entity.entityType, properties);
+        return true;
+    }
+
+    /*@sdkdoc
+     *  Deletes an entity. The entity server responds by reporting the entity as deleted via the
+     *  {@link EntityServer.entityErased|entityErased} signal.
+     *  <p>Locked entities cannot be deleted.</p>
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {boolean} <code>true</code> if the request was sent to the entity server, <code>false</code> if it wasn't.
+     */
+    deleteEntity(entityID: Uuid): boolean {
+        // C++  void EntityScriptingInterface::deleteEntity(const QUuid& id)
+        if (!(entityID instanceof Uuid)) {
+            console.error("[EntityServer] deleteEntity() called with an invalid entityID value!");
+            return false;
+        }
+
+        const entity = this.#_entityTree.findEntityByID(entityID);
+        if (entity && entity.locked === true) {
+            console.error("[EntityServer] deleteEntity() - Cannot delete a locked entity!");
+            return false;
+        }
+
+        if (!this.#canSendToEntityServer("deleteEntity")) {
+            return false;
+        }
+
+        // WEBRTC TODO: Address further C++ code - delete local (avatar) entities.
+        this.#_entityEditSender.queueEraseEntityMessage(entityID);
+        return true;
+    }
+
+    /*@sdkdoc
+     *  The status of an entity's server script.
+     *  @typedef {object} EntityServer.ServerScriptStatus
+     *  @property {boolean} responseReceived - <code>true</code> if a response was received from the entity script server,
+     *      <code>false</code> if it wasn't, e.g., because the domain doesn't have an entity script server running.
+     *  @property {boolean} isRunning - <code>true</code> if the entity's server script is running, <code>false</code> if it
+     *      isn't.
+     *  @property {string} status - The status of the entity's server script: <code>"pending"</code>,
+     *      <code>"loading"</code>, <code>"error_loading_script"</code>, <code>"error_running_script"</code>,
+     *      <code>"running"</code>, or <code>"unloaded"</code>. If the entity script server doesn't know about the entity's
+     *      server script, the status is <code>"error_loading_script"</code>. <code>""</code> if a response wasn't received.
+     *  @property {string} errorInfo - Information on the error if the script failed to load or run, <code>""</code> if there
+     *      was no error.
+     */
+
+    /*@sdkdoc
+     *  Gets the status of an entity's server script, i.e., the script specified by the entity's <code>serverScripts</code>
+     *  property, from the entity script server.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {Promise<EntityServer.ServerScriptStatus>} The status of the entity's server script.
+     */
+    getServerScriptStatus(entityID: Uuid): Promise<ScriptStatus> {
+        // C++  bool EntityScriptingInterface::getServerScriptStatus(const QUuid& entityID, const ScriptValue& callback)
+        return new Promise((resolve) => {
+            if (!(entityID instanceof Uuid)) {
+                console.error("[EntityServer] getServerScriptStatus() called with an invalid entityID value!");
+                resolve({ responseReceived: false, isRunning: false, status: "", errorInfo: "" });
+                return;
+            }
+            this.#_entityScriptClient.getEntityServerScriptStatus(entityID, resolve);
+        });
+    }
+
+    /*@sdkdoc
+     *  Reloads an entity's server script, i.e., the script specified by the entity's <code>serverScripts</code> property.
+     *  <p>The entity script server only reloads the script if the user has permission to create entities in the domain.</p>
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {boolean} <code>true</code> if the request was sent to the entity script server, <code>false</code> if it
+     *      wasn't.
+     */
+    reloadServerScript(entityID: Uuid): boolean {
+        // C++  bool EntityScriptingInterface::reloadServerScripts(const QUuid& entityID)
+        if (!(entityID instanceof Uuid)) {
+            console.error("[EntityServer] reloadServerScript() called with an invalid entityID value!");
+            return false;
+        }
+        return this.#_entityScriptClient.reloadServerScript(entityID);
+    }
+
+    /*@sdkdoc
+     *  Requests that the entity server resend all the entities near the cameras and in the cameras' views. The
+     *  {@link EntityServer.initialLoadComplete|initialLoadComplete} signal is triggered when they have been received.
+     */
+    requestInitialLoad(): void {
+        // C++  N/A
+        // Changing the connection ID makes the entity server restart its query results from scratch.
+        this.#_octreeQuery.incrementConnectionID();
+        this.#resetPhysicsReadyInformation();
+        this.#_queryExpiry = Date.now();
+    }
 
     /*@sdkdoc
      *  Game loop update method that should be called multiple times per second to keep the entity server up to date with user
@@ -147,32 +554,65 @@ class EntityServer extends AssignmentClient {
     update(): void {
         // C++  void Application::update(float deltaTime)
 
+        if (!this.#_physicsEnabled && this.#_octreeProcessor.isLoadSequenceComplete()) {
+            this.#_physicsEnabled = true;
+            // Switch to the normal query straight away.
+            this.#_queryExpiry = 0;
+            this.#_initialLoadComplete.emit();
+        }
+
         // Request updated entity data.
-        const viewIsDifferentEnough = this.#_camera.hasViewChanged;
+        const viewIsDifferentEnough = this.#_cameraManager.hasViewChanged;
+        const lodHasChanged = this.#_lodManager.hasLODChanged();  // Web SDK specific.
         const now = Date.now();
-        if (now > this.#_queryExpiry || viewIsDifferentEnough) {
+        if (now > this.#_queryExpiry || viewIsDifferentEnough || lodHasChanged) {
             this.#queryOctree(NodeType.EntityServer);
+            this.#_lodManager.clearLODChanged();
             this.#_queryExpiry = now + EntityServer.#MIN_PERIOD_BETWEEN_QUERIES;
         }
     }
 
 
+    #canSendToEntityServer(methodName: string): boolean {
+        const node = this.#_nodeList.soloNodeOfType(NodeType.EntityServer);
+        if (!node || !node.getActiveSocket()) {
+            console.error(`[EntityServer] ${methodName}() - Not connected to the entity server!`);
+            return false;
+        }
+        return true;
+    }
+
     // Sends an EntityQuery packet to the entity server.
     #queryOctree(serverType: NodeTypeValue): void {
         // C++ Application::queryOctree(NodeType_t serverType, PacketType packetType)
 
         const isModifiedQuery = !this.#_physicsEnabled;
         if (isModifiedQuery) {
+            if (!this.#_octreeProcessor.safeLandingIsActive()) {
+                // Don't send the octree query until safe landing has started.
+                return;
+            }
+
+            // Create modified views that are simple spheres around the cameras, plus the cameras' views as in Interface's
+            // interstitial mode.
+            const conicalViews = this.#_cameraManager.conicalViews;
+            const sphericalViews = conicalViews.map((conicalView): ConicalViewFrustum => {
+                return {
+                    position: conicalView.position,
+                    direction: GLMHelpers.IDENTITY_FORWARD,
+                    halfAngle: 0,
+                    farClip: EntityServer.#INITIAL_QUERY_RADIUS / 2,
+                    centerRadius: EntityServer.#INITIAL_QUERY_RADIUS
+                };
+            });
+            this.#_octreeQuery.setConicalViews([...sphericalViews, ...conicalViews]);
 
-            // WEBRTC TODO: Address further C++ code.
-            console.error("EntityServer octree query not implement for physics not enabled!");
-
-        } else {
-            this.#_octreeQuery.setConicalViews([this.#_camera.conicalView]);
-
-            // WEBRTC TODO: Get values from LODManager.
             this.#_octreeQuery.setOctreeSizeScale(OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE);
-            this.#_octreeQuery.setBoundaryLevelAdjust(0);
+            this.#_octreeQuery.setBoundaryLevelAdjust(EntityServer.#MIN_LOD_ADJUST);
+        } else {
+            this.#_octreeQuery.setConicalViews(this.#_cameraManager.conicalViews);
+            this.#_octreeQuery.setOctreeSizeScale(this.#_lodManager.getOctreeSizeScale());
+            this.#_octreeQuery.setBoundaryLevelAdjust(this.#_lodManager.getBoundaryLevelAdjust());
         }
         this.#_octreeQuery.setReportInitialCompletion(isModifiedQuery);
 
@@ -187,6 +627,13 @@ class EntityServer extends AssignmentClient {
     }
 
 
+    #resetPhysicsReadyInformation(): void {
+        // C++  void Application::resetPhysicsReadyInformation()
+        this.#_physicsEnabled = false;
+        this.#_octreeProcessor.startSafeLanding();
+    }
+
+
     // Slot.
     #nodeActivated = (node: Node): void => {
         // C++  void Application::nodeActivated(SharedNodePointer node)
@@ -198,7 +645,10 @@ class EntityServer extends AssignmentClient {
         this.#_queryExpiry = Date.now();
         this.#_octreeQuery.incrementConnectionID();
 
-        // Safe landing code not implemented.
+        // The initial load is tracked afresh for the new connection ID.
+        if (!this.#_physicsEnabled) {
+            this.#_octreeProcessor.startSafeLanding();
+        }
     };
 
     // Slot.
@@ -206,13 +656,20 @@ class EntityServer extends AssignmentClient {
         // C++  void Application::nodeKilled(SharedNodePointer node)
         const nodeType = node.getType();
         if (nodeType !== NodeType.EntityServer) {
-            return;  // eslint-disable-line no-useless-return
+            return;
         }
 
-        // WEBRTC TODO: Address further code - clear octree.
-
+        // C++  Application::clearDomainOctreeDetails()
+        this.#resetPhysicsReadyInformation();
+        const entityIDs = this.#_entityTree.getEntityIDs();
+        this.#_entityTree.eraseAllOctreeElements();
+        this.#_stats = null;
+        if (entityIDs.length > 0) {
+            this.#_entityErased.emit(entityIDs);
+        }
     };
 
 }
 
 export default EntityServer;
+export { default as LODSettingsInterface } from "./domain/interfaces/LODSettingsInterface";
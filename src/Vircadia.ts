@@ -47,8 +47,13 @@ export { default as Camera } from "./Camera";
 
 export { default as AudioMixer } from "./AudioMixer";
 export type { AudioPositionGetter, AudioOrientationGetter } from "./domain/audio-client/AudioClient";
+export type { AudioRecordingOptions } from "./domain/audio-client/AudioRecorder";
+export type { AudioInjectorOptions } from "./domain/audio/AudioInjector";
+export type { AudioInputProcessing } from "./domain/audio/AudioInput";
+export type { SoundSource } from "./domain/audio/Sound";
+export { default as ScriptAudioInjector } from "./domain/script-engine/ScriptAudioInjector";
 export { default as AvatarMixer, MyAvatarInterface, AvatarListInterface } from "./AvatarMixer";
-export { default as EntityServer } from "./EntityServer";
+export { default as EntityServer, LODSettingsInterface } from "./EntityServer";
 export { default as MessageMixer } from "./MessageMixer";
 export { AssignmentClientState } from "./domain/AssignmentClient";
 
@@ -66,18 +71,35 @@ export type { vec3 } from "./domain/shared/Vec3";
 export { default as Quat } from "./domain/shared/Quat";
 export type { quat } from "./domain/shared/Quat";
 
+export type { mat4 } from "./domain/shared/Mat4";
+
 export { default as ScriptAvatar } from "./domain/avatar-renderer/ScriptAvatar";
+export { KeyState, HandState } from "./domain/avatars/AvatarData";
 export type { SkeletonJoint } from "./domain/avatars/AvatarTraits";
+export type { AvatarBoundingBox, FarGrabJoints, HandControllerPose } from "./domain/avatars/AvatarDataPacket";
+export type { GrabData } from "./domain/shared/Grab";
 
 export type { AmbientLightProperties } from "./domain/entities/AmbientLightPropertyGroup";
 export type { BloomProperties } from "./domain/entities/BloomPropertyGroup";
+export type { EntityEditProperties } from "./domain/entities/EntityItemProperties";
+export type { GizmoEntityProperties } from "./domain/entities/GizmoEntityItem";
+export type { GridEntityProperties } from "./domain/entities/GridEntityItem";
 export type { HazeProperties } from "./domain/entities/HazePropertyGroup";
 export type { ImageEntityProperties } from "./domain/entities/ImageEntityItem";
 export type { LightEntityProperties } from "./domain/entities/LightEntityItem";
+export type { LineEntityProperties } from "./domain/entities/LineEntityItem";
 export type { MaterialEntityProperties } from "./domain/entities/MaterialEntityItem";
 export type { ModelEntityProperties } from "./domain/entities/ModelEntityItem";
+export type { PolyLineEntityProperties } from "./domain/entities/PolyLineEntityItem";
+export type { PolyVoxEntityProperties } from "./domain/entities/PolyVoxEntityItem";
+export type { RingGizmoProperties } from "./domain/entities/RingGizmoPropertyGroup";
 export type { ShapeEntityProperties } from "./domain/entities/ShapeEntityItem";
 export type { WebEntityProperties, WebInputMode } from "./domain/entities/WebEntityItem";
 export type { ZoneEntityProperties } from "./domain/entities/ZoneEntityItem";
+export { default as PolyVoxVolume } from "./domain/entities-renderer/PolyVoxVolume";
+export type { PolyVoxMesh } from "./domain/entities-renderer/PolyVoxVolume";
+export { default as PolyVoxSurfaceStyle } from "./domain/shared/PolyVoxSurfaceStyle";
 
 export type { EntityProperties } from "./domain/networking/packets/EntityData";
+export type { OctreeStatsDetails } from "./domain/networking/packets/OctreeStats";
+export type { ScriptStatus } from "./domain/networking/EntityScriptClient";
@@ -18,6 +18,7 @@ import Node from "./networking/Node";
 import NodeList from "./networking/NodeList";
 import NodeType from "./networking/NodeType";
 import ContextManager from "./shared/ContextManager";
+import { NestableTransform } from "./shared/SpatiallyNestable";
 import Uuid from "./shared/Uuid";
 
 
@@ -146,6 +147,20 @@ class AvatarManager extends AvatarHashMap {
         return this.findAvatar(sessionID);
     }
 
+    /*@devdoc
+     *  Finds the world transform of an avatar that an entity or avatar is parented to.
+     *  @param {Uuid} id - The session ID of the avatar.
+     *  @param {number} depth - The number of parent links already followed.
+     *  @returns {NestableTransform|null} The world transform of the avatar. <code>null</code> if the avatar can't be found or
+     *      its transform can't be calculated.
+     */
+    findNestableTransform(id: Uuid, depth: number): NestableTransform | null {
+        // C++  SpatiallyNestableWeakPointer InterfaceParentFinder::find(QUuid parentID, bool& success,
+        //          SpatialParentTree* entityTree)
+        const avatar = this.getAvatarBySessionID(id);
+        return avatar ? avatar.getTransform(depth) : null;
+    }
+
 
     /*@devdoc
      *  Acts upon an {@link NodeType(1)|AvatarMixer} node being activated.
@@ -0,0 +1,228 @@
+//
+//  LODManager.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import OctreeConstants from "./octree/OctreeConstants";
+
+
+/*@devdoc
+ *  The <code>LODManager</code> class manages the level of detail (LOD) of the entity data requested from the entity server.
+ *  The LOD can be set directly or automatically adjusted to maintain a target frame rate reported by the app.
+ *  <p>C++: <code>class LODManager : public QObject, public Dependency</code></p>
+ *  @class LODManager
+ *  @property {string} contextItemType="LODManager" - The type name for use with the {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} DEFAULT_LOD_TARGET_FPS=30 - The default target frame rate, in frames per second.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} INCREASE_LOD_GAP_FPS=10 - The amount by which the frame rate must exceed the target frame rate before
+ *      the LOD is increased, in frames per second.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} MIN_OCTREE_SIZE_SCALE - The minimum octree size scale that automatic LOD adjustment uses.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} MAX_OCTREE_SIZE_SCALE - The maximum octree size scale that automatic LOD adjustment uses.
+ *      <p><em>Static. Read-only.</em></p>
+ */
+class LODManager {
+    // C++  class LODManager : public QObject, public Dependency
+
+    static readonly contextItemType = "LODManager";
+
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    // C++  LODManager.h
+    static readonly DEFAULT_LOD_TARGET_FPS = 30.0;
+    static readonly INCREASE_LOD_GAP_FPS = 10.0;
+    static readonly MIN_OCTREE_SIZE_SCALE = OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE * 0.04;
+    static readonly MAX_OCTREE_SIZE_SCALE = OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE;
+
+    static readonly #LOD_AUTO_ADJUST_DECREMENT_FACTOR = 0.8;
+    static readonly #LOD_AUTO_ADJUST_INCREMENT_FACTOR = 1.2;
+    static readonly #LOD_AUTO_ADJUST_PERIOD = 1000;  // ms
+    static readonly #LOD_ADJUST_RUNNING_AVG_TIMESCALE = 80;  // ms
+    static readonly #MSECS_PER_SECOND = 1000;
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
+    #_octreeSizeScale = OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE;
+    #_boundaryLevelAdjust = 0;
+    #_automaticLODAdjust = true;
+    #_lodTargetFPS = LODManager.DEFAULT_LOD_TARGET_FPS;
+    #_hasLODChanged = false;
+
+    #_avgRenderTime = LODManager.#MSECS_PER_SECOND / LODManager.DEFAULT_LOD_TARGET_FPS;
+    #_lastReportTime = 0;
+    #_decreaseFPSExpiry = 0;
+    #_increaseFPSExpiry = 0;
+
+
+    /*@devdoc
+     *  Gets the octree size scale used in entity queries.
+     *  @returns {number} The octree size scale.
+     */
+    getOctreeSizeScale(): number {
+        // C++  float getOctreeSizeScale()
+        return this.#_octreeSizeScale;
+    }
+
+    /*@devdoc
+     *  Sets the octree size scale used in entity queries.
+     *  @param {number} sizeScale - The octree size scale.
+     */
+    setOctreeSizeScale(sizeScale: number): void {
+        // C++  void setOctreeSizeScale(float sizeScale)
+        if (sizeScale !== this.#_octreeSizeScale) {
+            this.#_octreeSizeScale = sizeScale;
+            this.#_hasLODChanged = true;
+        }
+    }
+
+    /*@devdoc
+     *  Gets the boundary level adjust used in entity queries.
+     *  @returns {number} The boundary level adjust.
+     */
+    getBoundaryLevelAdjust(): number {
+        // C++  int getBoundaryLevelAdjust()
+        return this.#_boundaryLevelAdjust;
+    }
+
+    /*@devdoc
+     *  Sets the boundary level adjust used in entity queries.
+     *  @param {number} boundaryLevelAdjust - The boundary level adjust.
+     */
+    setBoundaryLevelAdjust(boundaryLevelAdjust: number): void {
+        // C++  void setBoundaryLevelAdjust(int boundaryLevelAdjust)
+        if (boundaryLevelAdjust !== this.#_boundaryLevelAdjust) {
+            this.#_boundaryLevelAdjust = boundaryLevelAdjust;
+            this.#_hasLODChanged = true;
+        }
+    }
+
+    /*@devdoc
+     *  Gets whether the LOD is automatically adjusted to maintain the target frame rate.
+     *  @returns {boolean} <code>true</code> if the LOD is automatically adjusted, <code>false</code> if it isn't.
+     */
+    getAutomaticLODAdjust(): boolean {
+        // C++  bool getAutomaticLODAdjust()
+        return this.#_automaticLODAdjust;
+    }
+
+    /*@devdoc
+     *  Sets whether the LOD is automatically adjusted to maintain the target frame rate.
+     *  @param {boolean} value - <code>true</code> to automatically adjust the LOD, <code>false</code> to not.
+     */
+    setAutomaticLODAdjust(value: boolean): void {
+        // C++  void setAutomaticLODAdjust(bool value)
+        this.#_automaticLODAdjust = value;
+    }
+
+    /*@devdoc
+     *  Gets the target frame rate that automatic LOD adjustment maintains.
+     *  @returns {number} The target frame rate, in frames per second.
+     */
+    getLODTargetFPS(): number {
+        // C++  float getLODTargetFPS()
+        return this.#_lodTargetFPS;
+    }
+
+    /*@devdoc
+     *  Sets the target frame rate that automatic LOD adjustment maintains.
+     *  @param {number} value - The target frame rate, in frames per second.
+     */
+    setLODTargetFPS(value: number): void {
+        // C++  void setDesktopLODTargetFPS(float value)
+        this.#_lodTargetFPS = value;
+    }
+
+    /*@devdoc
+     *  Gets whether the octree size scale or boundary level adjust has changed since the LOD changes were last cleared. If it
+     *  has, the entity server should be queried again.
+     *  @returns {boolean} <code>true</code> if the LOD has changed, <code>false</code> if it hasn't.
+     */
+    hasLODChanged(): boolean {
+        // C++  N/A
+        return this.#_hasLODChanged;
+    }
+
+    /*@devdoc
+     *  Clears the record of LOD changes. This should be called when the entity server is queried with the current LOD.
+     */
+    clearLODChanged(): void {
+        // C++  N/A
+        this.#_hasLODChanged = false;
+    }
+
+    /*@devdoc
+     *  Reports the app's current frame rate. If automatic LOD adjustment is enabled, the LOD is decreased if the frame rate is
+     *  below the target frame rate and increased if the frame rate is well above the target frame rate.
+     *  @param {number} frameRate - The app's current frame rate, in frames per second.
+     */
+    reportFrameRate(frameRate: number): void {
+        // C++  void LODManager::autoAdjustLOD(float realTimeDelta)
+
+        // Compute a time-weighted running average render time. The first report sets the average.
+        const now = Date.now();
+        const realTimeDelta = this.#_lastReportTime > 0 ? now - this.#_lastReportTime : Number.POSITIVE_INFINITY;
+        this.#_lastReportTime = now;
+        const renderTime = LODManager.#MSECS_PER_SECOND / Math.max(frameRate, 1);
+        const blend = realTimeDelta < LODManager.#LOD_ADJUST_RUNNING_AVG_TIMESCALE
+            ? realTimeDelta / LODManager.#LOD_ADJUST_RUNNING_AVG_TIMESCALE
+            : 1.0;
+        this.#_avgRenderTime = (1.0 - blend) * this.#_avgRenderTime + blend * renderTime;
+
+        if (!this.#_automaticLODAdjust) {
+            return;
+        }
+
+        const decreaseFPS = this.#_lodTargetFPS;
+        const increaseFPS = this.#_lodTargetFPS + LODManager.INCREASE_LOD_GAP_FPS;
+        const currentFPS = LODManager.#MSECS_PER_SECOND / this.#_avgRenderTime;
+
+        if (currentFPS < decreaseFPS) {
+            if (now > this.#_decreaseFPSExpiry) {
+                this.#_decreaseFPSExpiry = now + LODManager.#LOD_AUTO_ADJUST_PERIOD;
+                if (this.#_octreeSizeScale > LODManager.MIN_OCTREE_SIZE_SCALE) {
+                    this.#_octreeSizeScale = Math.max(this.#_octreeSizeScale * LODManager.#LOD_AUTO_ADJUST_DECREMENT_FACTOR,
+                        LODManager.MIN_OCTREE_SIZE_SCALE);
+                    this.#_hasLODChanged = true;
+                    // Assume that the LOD adjustment will work: optimistically reset the average render time to provide a
+                    // frame rate just above the decrease threshold. It will drift toward its true value and we'll adjust again
+                    // as necessary.
+                    this.#_avgRenderTime = LODManager.#MSECS_PER_SECOND / (decreaseFPS + 1.0);
+                }
+            }
+            this.#_increaseFPSExpiry = now + LODManager.#LOD_AUTO_ADJUST_PERIOD;
+
+        } else if (currentFPS > increaseFPS) {
+            if (now > this.#_increaseFPSExpiry) {
+                this.#_increaseFPSExpiry = now + LODManager.#LOD_AUTO_ADJUST_PERIOD;
+                if (this.#_octreeSizeScale < LODManager.MAX_OCTREE_SIZE_SCALE) {
+                    this.#_octreeSizeScale = this.#_octreeSizeScale < LODManager.MIN_OCTREE_SIZE_SCALE
+                        ? LODManager.MIN_OCTREE_SIZE_SCALE
+                        : Math.min(this.#_octreeSizeScale * LODManager.#LOD_AUTO_ADJUST_INCREMENT_FACTOR,
+                            LODManager.MAX_OCTREE_SIZE_SCALE);
+                    this.#_hasLODChanged = true;
+                    // Similarly, optimistically reset the average render time to provide a frame rate just below the
+                    // increase threshold.
+                    this.#_avgRenderTime = LODManager.#MSECS_PER_SECOND / (increaseFPS - 1.0);
+                }
+            }
+            this.#_decreaseFPSExpiry = now + LODManager.#LOD_AUTO_ADJUST_PERIOD;
+
+        } else {
+            this.#_increaseFPSExpiry = now + LODManager.#LOD_AUTO_ADJUST_PERIOD;
+            this.#_decreaseFPSExpiry = this.#_increaseFPSExpiry;
+        }
+    }
+
+}
+
+export default LODManager;
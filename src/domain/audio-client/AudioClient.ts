@@ -10,8 +10,13 @@
 //
 
 import AudioConstants from "../audio/AudioConstants";
-import AudioInput from "../audio/AudioInput";
+import AudioInput, { AudioInputProcessing } from "../audio/AudioInput";
+import AudioOutput from "../audio/AudioOutput";
 import InboundAudioStream from "../audio/InboundAudioStream";
+import AudioFileOgg from "./AudioFileOgg";
+import AudioFileWav from "./AudioFileWav";
+import AudioIOStats from "./AudioIOStats";
+import AudioRecorder, { AudioRecordingOptions } from "./AudioRecorder";
 import NLPacket from "../networking/NLPacket";
 import Node from "../networking/Node";
 import NodeList from "../networking/NodeList";
@@ -21,6 +26,8 @@ import ReceivedMessage from "../networking/ReceivedMessage";
 import SockAddr from "../networking/SockAddr";
 import PacketScribe from "../networking/packets/PacketScribe";
 import PacketType, { PacketTypeValue } from "../networking/udt/PacketHeaders";
+import CodecPlugin, { Encoder } from "../plugins/CodecPlugin";
+import PluginManager from "../plugins/PluginManager";
 import assert from "../shared/assert";
 import ContextManager from "../shared/ContextManager";
 import Quat, { quat } from "../shared/Quat";
@@ -31,6 +38,13 @@ import Vec3, { vec3 } from "../shared/Vec3";
 type AudioPositionGetter = () => vec3;
 type AudioOrientationGetter = () => quat;
 
+// An audio packet waiting to be sent. isEncoding is true while the audio data are being encoded.
+type PendingAudioPacket = {
+    packetType: PacketTypeValue,
+    audioBuffer: Uint8Array | null,
+    isEncoding: boolean
+};
+
 
 /*@devdoc
  *  The <code>AudioClient</code> class manages user client audio, sending and receiving audio packets and interfacing these
@@ -48,6 +62,8 @@ type AudioOrientationGetter = () => quat;
  *
  *  @property {Signal<AudioClient~mutedByMixer>} mutedByMixer - Triggered when the audio mixer has made the client mute its
  *      audio input &mdash; either because the background noise is too loud or an admin has muted the user.
+ *  @property {Signal<AudioIOStats~statsUpdated>} audioStatsUpdated - Triggered when audio stream statistics have been received
+ *      from the audio mixer.
  *
  *  @param {number} contextID - The {@link ContextManager} context ID.
  */
@@ -74,6 +90,10 @@ class AudioClient {
     //      Multiplied by 240 / 128 because native client has 240 samples per block whereas audio worklet has 128.
     static readonly #RECEIVED_AUDIO_STREAM_CAPACITY_BLOCKS = 360;  // = AudioOutputProcessor.MAX_AUDIO_BUFFER_LENGTH
 
+    static readonly #DOWNSTREAM_AUDIO_STATS_INTERVAL = 1000;  // ms
+
+    static readonly #MAX_PENDING_AUDIO_PACKETS = 50;  // 0.5s of audio.
+
 
     static #computeLoudness(pcmData: Int16Array | null): number {
         // C++  float computeLoudness(int16_t* samples, int numSamples)
@@ -93,20 +113,40 @@ class AudioClient {
     // Context
     #_nodeList;
     #_packetReceiver;
+    #_audioOutput;
 
+    #_codec: CodecPlugin | null = null;
     #_selectedCodecName = "";
+    #_encoder: Encoder | null = null;
 
     #_audioInput;
     #_isStereoInput = false;
+    #_desiredStereoInput = false;  // Web SDK-specific member.
     #_isMuted = false;
     #_inputDevice: MediaStream | null = null;  // Web SDK-specific member.
     #_lastInputLoudness = 0.0;
     #_lastRawInputLoudness = 0.0;
+    #_audioGateOpen = true;
+    #_inputProcessing: AudioInputProcessing = {  // Web SDK-specific member.
+        noiseGate: false,
+        automaticGainControl: false,
+        noiseSuppression: false
+    };
+
+    #_shouldEchoToServer = false;
 
     #_dummyAudioInputTimer: ReturnType<typeof setTimeout> | null = null;
     #_outgoingAvatarAudioSequenceNumber = 0;
+    // Web SDK-specific member. The audio packets to send, in order, held while earlier audio is being encoded.
+    #_pendingAudioPackets: PendingAudioPacket[] = [];
 
     #_receivedAudioStream;
+    #_reverbEnabled = true;  // Web SDK-specific member.
+    #_stats;
+    #_downstreamAudioStatsTimer: ReturnType<typeof setInterval> | null = null;
+
+    #_audioRecorder: AudioRecorder | null = null;
+    #_audioRecordingFormat: AudioRecordingOptions["format"] = "wav";
 
     #_positionGetter: AudioPositionGetter;
     #_orientationGetter: AudioOrientationGetter;
@@ -115,10 +155,6 @@ class AudioClient {
     #_avatarBoundingBoxCorner = { x: -0.5, y: 0.0, z: -0.5 };
     #_avatarBoundingBoxScale = { x: 1, y: 2, z: 1 };
 
-    // WEBRTC TODO: Remove when have logger with "once" function.
-    #_haveWarnedAudioEnvironment = false;
-    #_haveWarnedAudioStreamStats = false;
-
     #_mutedByMixer = new SignalEmitter();
 
 
@@ -127,6 +163,7 @@ class AudioClient {
         // Context
         this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
         this.#_packetReceiver = this.#_nodeList.getPacketReceiver();
+        this.#_audioOutput = ContextManager.get(contextID, AudioOutput) as AudioOutput;
 
         this.#_audioInput = new AudioInput();
         this.#_positionGetter = () => {
@@ -140,6 +177,11 @@ class AudioClient {
         // MixedProcessedAudioStream haven't been needed so far.
         this.#_receivedAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
             AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, AudioClient.#RECEIVED_AUDIO_STREAM_CAPACITY_BLOCKS, -1);
+        this.#_stats = new AudioIOStats(contextID, this.#_receivedAudioStream);
+
+        // Web SDK specific. Start checking the browser's codec support so that the check has completed, or nearly so, by the
+        // time the audio format is negotiated.
+        void PluginManager.initCodecPlugins();
 
         // C++  Application::Application()
         this.#start();
@@ -151,7 +193,7 @@ class AudioClient {
         // WEBRTC TODO: Address further C++ code.
 
         this.#_packetReceiver.registerListener(PacketType.AudioStreamStats,
-            PacketReceiver.makeSourcedListenerReference(this.#processStreamStatsPacket));
+            PacketReceiver.makeSourcedListenerReference(this.#_stats.processStreamStatsPacket));
         this.#_packetReceiver.registerListener(PacketType.AudioEnvironment,
             PacketReceiver.makeUnsourcedListenerReference(this.#handleAudioEnvironmentDataPacket));
         this.#_packetReceiver.registerListener(PacketType.SilentAudioFrame,
@@ -234,6 +276,82 @@ class AudioClient {
         return this.#_isMuted;
     }
 
+    /*@devdoc
+     *  Sets whether to capture stereo audio input. Stereo is captured only if the audio input device has two or more channels;
+     *  otherwise mono is captured.
+     *  @function AudioClient.setIsStereoInput
+     *  @param {boolean} isStereoInput - <code>true</code> to capture stereo audio input if possible, <code>false</code> to
+     *      capture mono audio input.
+     */
+    setIsStereoInput(isStereoInput: boolean): void {
+        // C++  bool setIsStereoInput(bool isStereoInput)
+        //      The Web SDK can't check the input device's supported channel counts until the device is used so the setting is
+        //      retained and applied each time the input device is switched to.
+        if (isStereoInput === this.#_desiredStereoInput) {
+            return;
+        }
+        this.#_desiredStereoInput = isStereoInput;
+
+        // Restart the input device.
+        if (this.#_inputDevice && !this.#_isMuted) {
+            void this.#switchInputToAudioDevice(this.#_inputDevice);
+        }
+    }
+
+    /*@devdoc
+     *  Gets whether stereo audio input capture is requested.
+     *  @function AudioClient.isStereoInput
+     *  @returns {boolean} <code>true</code> if stereo audio input capture is requested, <code>false</code> if it isn't.
+     */
+    isStereoInput(): boolean {
+        // C++  bool isStereoInput()
+        return this.#_desiredStereoInput;
+    }
+
+    /*@devdoc
+     *  Sets the processing to apply to the audio input before it is sent to the audio mixer.
+     *  @function AudioClient.setInputProcessing
+     *  @param {AudioInput.AudioInputProcessing} inputProcessing - The processing to apply to the audio input.
+     */
+    setInputProcessing(inputProcessing: AudioInputProcessing): void {
+        // C++  void setNoiseReduction(bool enable, bool emitSignal)
+        //      The Web SDK applies noise suppression and automatic gain control as well as a noise gate.
+        this.#_inputProcessing = { ...inputProcessing };
+        this.#_audioInput.processing = this.#_inputProcessing;
+    }
+
+    /*@devdoc
+     *  Gets the processing applied to the audio input before it is sent to the audio mixer.
+     *  @function AudioClient.getInputProcessing
+     *  @returns {AudioInput.AudioInputProcessing} The processing applied to the audio input.
+     */
+    getInputProcessing(): AudioInputProcessing {
+        // C++  bool isNoiseReductionEnabled()
+        return { ...this.#_inputProcessing };
+    }
+
+    /*@devdoc
+     *  Sets whether the audio mixer should echo the user client's audio input back to the user client.
+     *  @function AudioClient.setServerEcho
+     *  @param {boolean} serverEcho - <code>true</code> to have the audio mixer echo the audio input back to the user client,
+     *      <code>false</code> to not.
+     */
+    setServerEcho(serverEcho: boolean): void {
+        // C++  void setServerEcho(bool serverEcho)
+        this.#_shouldEchoToServer = serverEcho;
+    }
+
+    /*@devdoc
+     *  Gets whether the audio mixer should echo the user client's audio input back to the user client.
+     *  @function AudioClient.getServerEcho
+     *  @returns {boolean} <code>true</code> if the audio mixer should echo the audio input back to the user client,
+     *      <code>false</code> if it shouldn't.
+     */
+    getServerEcho(): boolean {
+        // C++  bool getServerEcho()
+        return this.#_shouldEchoToServer;
+    }
+
     /*@devdoc
      *  Sets the function that the AudioClient should call in order to get the position of the user client's audio.
      *  @param {AudioPositionGetter} positionGetter - The function to call in order to obtain the position of the user client's
@@ -264,6 +382,118 @@ class AudioClient {
     }
 
 
+    /*@devdoc
+     *  Gets the name of the audio codec negotiated with the audio mixer, as reported by the audio mixer in its
+     *  {@link PacketType(1)|SelectedAudioFormat} packet.
+     *  @returns {string} The name of the negotiated audio codec: <code>"opus"</code>, <code>"zlib"</code>, or
+     *      <code>"pcm"</code>. <code>""</code> if a codec hasn't been negotiated.
+     */
+    getSelectedAudioFormat(): string {
+        // C++  QString getSelectedAudioFormat()
+        return this.#_selectedCodecName;
+    }
+
+
+    /*@devdoc
+     *  Gets whether the reverb of the audio zone that the user is in is applied to the audio output.
+     *  @returns {boolean} <code>true</code> if the zone reverb is applied to the audio output, <code>false</code> if it isn't.
+     */
+    getReverbEnabled(): boolean {
+        // C++  N/A
+        return this.#_reverbEnabled;
+    }
+
+    /*@devdoc
+     *  Sets whether the reverb of the audio zone that the user is in is applied to the audio output.
+     *  @param {boolean} enabled - <code>true</code> to apply the zone reverb to the audio output, <code>false</code> to not
+     *      apply it.
+     */
+    setReverbEnabled(enabled: boolean): void {
+        // C++  N/A
+        this.#_reverbEnabled = enabled;
+        this.#configureReverb();
+    }
+
+    /*@devdoc
+     *  Gets the audio stream received from the audio mixer. This includes the reverb settings of the audio zone that the
+     *  user is in.
+     *  @returns {InboundAudioStream} The audio stream received from the audio mixer.
+     */
+    getReceivedAudioStream(): InboundAudioStream {
+        // C++  N/A
+        return this.#_receivedAudioStream;
+    }
+
+
+    /*@devdoc
+     *  Gets the audio stream statistics.
+     *  @returns {AudioIOStats} The audio stream statistics.
+     */
+    getStats(): AudioIOStats {
+        // C++  const AudioIOStats& getStats()
+        return this.#_stats;
+    }
+
+
+    /*@devdoc
+     *  Starts recording the audio output and audio input.
+     *  <p><em>Async</em></p>
+     *  @function AudioClient.startRecording
+     *  @param {AudioRecordingOptions} options - The recording options. All properties must be specified.
+     *  @returns {Promise<boolean>} <code>true</code> if recording was started, <code>false</code> if it is already recording or
+     *      the format isn't supported.
+     */
+    async startRecording(options: Required<AudioRecordingOptions>): Promise<boolean> {
+        // C++  bool startRecording(const QString& filepath)
+        if (options.format === "ogg" && !await AudioFileOgg.isSupported()) {
+            return false;
+        }
+
+        // Checked after any wait for the format support so that overlapping calls don't both start recording.
+        if (this.#_audioRecorder !== null) {
+            return false;
+        }
+
+        this.#_audioRecorder = new AudioRecorder(options.includeInput, options.includeOutput);
+        this.#_audioRecordingFormat = options.format;
+        this.#_audioOutput.setOutputDataListener(this.#handleOutputData);
+        return true;
+    }
+
+    /*@devdoc
+     *  Stops recording the audio output and audio input.
+     *  <p><em>Async</em></p>
+     *  @function AudioClient.stopRecording
+     *  @returns {Promise<Blob|null>} The recording. <code>null</code> if it wasn't recording.
+     */
+    async stopRecording(): Promise<Blob | null> {
+        // C++  void stopRecording()
+        const audioRecorder = this.#_audioRecorder;
+        if (audioRecorder === null) {
+            return null;
+        }
+
+        this.#_audioRecorder = null;
+        this.#_audioOutput.setOutputDataListener(null);
+
+        const pcmChunks = audioRecorder.getPCMChunks();
+        if (this.#_audioRecordingFormat === "ogg") {
+            return AudioFileOgg.create(pcmChunks, AudioConstants.STEREO);
+        }
+        return AudioFileWav.create(pcmChunks, AudioConstants.SAMPLE_RATE, AudioConstants.STEREO);
+    }
+
+    /*@devdoc
+     *  Gets whether the audio output and audio input are being recorded.
+     *  @function AudioClient.isRecording
+     *  @returns {boolean} <code>true</code> if recording, <code>false</code> if not.
+     */
+    isRecording(): boolean {
+        // C++  bool getRecording()
+        return this.#_audioRecorder !== null;
+    }
+
+
     /*@devdoc
      *  Triggered when the audio mixer has made the client mute its audio input &mdash; either because the background noise is
      *  too loud or an admin has muted the user.
@@ -274,6 +504,16 @@ class AudioClient {
         return this.#_mutedByMixer.signal();
     }
 
+    /*@devdoc
+     *  Triggered when audio stream statistics have been received from the audio mixer.
+     *  @function AudioClient~audioStatsUpdated
+     *  @param {AudioIOStats.AudioStats} stats - The audio stream statistics.
+     *  @returns {Signal}
+     */
+    get audioStatsUpdated(): Signal {
+        return this.#_stats.statsUpdated;
+    }
+
 
     #start(): void {
         // C++  void AudioClient::start()
@@ -313,9 +553,21 @@ class AudioClient {
 
         let supportedFormat = false;
 
-        // TODO: The SDK should just use the number of channels that the input device has, up to a maximum of 2 (stereo).
-        // due to lack reliable ways to retrieve channel count across browsers, we are hard coding mono input for now.
-        this.#_isStereoInput = false;
+        // Use stereo input if requested and the input device has two or more channels.
+        const isStereoInput = this.#_desiredStereoInput && channelCount >= AudioConstants.STEREO;
+        if (isStereoInput !== this.#_isStereoInput) {
+            this.#_isStereoInput = isStereoInput;
+
+            // Restart the codec.
+            if (this.#_codec) {
+                if (this.#_encoder) {
+                    this.#_codec.releaseEncoder(this.#_encoder);
+                    this.#discardPendingEncodes();
+                }
+                this.#_encoder = this.#_codec.createEncoder(AudioConstants.SAMPLE_RATE,
+                    this.#_isStereoInput ? AudioConstants.STEREO : AudioConstants.MONO, this.#handleEncodedAudio);
+            }
+        }
 
         if (this.#_audioInput.isStarted()) {
             this.#_audioInput.readyRead.disconnect(this.#handleMicAudioInput);
@@ -337,6 +589,7 @@ class AudioClient {
         }
 
         this.#_audioInput.audioInput = inputDevice;
+        this.#_audioInput.channelCount = this.#_isStereoInput ? AudioConstants.STEREO : AudioConstants.MONO;
 
         if (inputDevice) {
 
@@ -373,15 +626,21 @@ class AudioClient {
         return supportedFormat;
     }
 
-    #negotiateAudioFormat(): void {
+    async #negotiateAudioFormat(): Promise<void> {
         // C++  void negotiateAudioFormat()
 
-        // WEBRTC TODO: Address further C++ code.
-        const codecs = [
-            // "opus",
-            // "zlib",
-            "pcm"
-        ];
+        // C++  auto codecPlugins = PluginManager::getInstance()->getCodecPlugins();
+        //      The Web SDK handles PCM without a codec plugin.
+        //      The browser's support for the codecs is checked asynchronously so must be waited for.
+        await PluginManager.initCodecPlugins();
+        const codecs = PluginManager.getCodecPlugins()
+            .filter((plugin) => {
+                return plugin.isSupported();
+            })
+            .map((plugin) => {
+                return plugin.getName();
+            });
+        codecs.push("pcm");
 
         const negotiateFormatPacket = PacketScribe.NegotiateAudioFormat.write({
             codecs
@@ -393,11 +652,16 @@ class AudioClient {
         }
     }
 
-    // eslint-disable-next-line class-methods-use-this
     #audioMixerKilled(): void {
         // C++  void AudioClient::audioMixerKilled()
 
         this.#_outgoingAvatarAudioSequenceNumber = 0;
+        this.#_pendingAudioPackets = [];
+        this.#_stats.reset();
+
+        // Web SDK specific. Don't carry the zone reverb over to a new connection.
+        this.#_receivedAudioStream.clearReverb();
+        this.#configureReverb();
 
         // WEBRTC TODO: Address further C++ code.
 
@@ -406,29 +670,53 @@ class AudioClient {
         }
     }
 
-    #handleAudioInput(audioBuffer: Int16Array | null): void {
+    #configureReverb(): void {
+        // C++  void AudioClient::configureReverb()
+        //      The Web SDK applies only the audio zone's reverb settings, using a Web Audio reverb stage in the audio output.
+        if (this.#_reverbEnabled && this.#_receivedAudioStream.hasReverb()) {
+            this.#_audioOutput.setReverb(this.#_receivedAudioStream.getReverbTime(), this.#_receivedAudioStream.getWetLevel());
+        } else {
+            this.#_audioOutput.clearReverb();
+        }
+    }
+
+    #handleAudioInput(audioBuffer: Int16Array | null, isGateOpen: boolean): void {
         // C++  void AudioClient::handleAudioInput(QByteArray& audioBuffer)
 
-        // An audio gate is not the responsibility of the AudioMixer SDK class.
+        // The audio gate is applied in the AudioInputProcessor audio worklet.
         // The inputReceived signal is solely used for avatar recordings, the scripting API, and the audioscope.
 
-        // WEBRTC TODO: Address further C++ code.
-        const audioGateOpen = true;
+        const audioGateOpen = audioBuffer !== null && !this.#_isMuted && isGateOpen;
 
         // Loudness after mute/gate.
         this.#_lastInputLoudness = this.#_isMuted || !audioGateOpen ? 0.0 : this.#_lastRawInputLoudness;
 
+        // Detect gate closing.
+        const closedInLastBlock = this.#_audioGateOpen && !audioGateOpen;
+        this.#_audioGateOpen = audioGateOpen;
+
+        // WEBRTC TODO: Address further C++ code. - Noise gate opened and closed signals.
 
-        const packetType = audioBuffer === null || this.#_isMuted
-            ? PacketType.SilentAudioFrame
-            : PacketType.MicrophoneAudioNoEcho;
+        // The codec must be flushed to silence before sending silent packets, so delay the transition to silent packets by one
+        // packet after becoming silent.
+        let packetType: PacketTypeValue = PacketType.SilentAudioFrame;
+        if (audioBuffer !== null && !this.#_isMuted && (audioGateOpen || closedInLastBlock)) {
+            packetType = this.#_shouldEchoToServer ? PacketType.MicrophoneAudioWithEcho : PacketType.MicrophoneAudioNoEcho;
+        }
 
         // WEBRTC TODO: Address further C++ code.
 
-        // No codec support at present.
+        // Encoding is asynchronous: the encoded audio is emitted by #handleEncodedAudio(). Packets are queued so that they are
+        // sent in order, with silent packets sent after the encoded audio that precedes them.
+        if (packetType !== PacketType.SilentAudioFrame && this.#_encoder) {
+            this.#queueAudioPacket({ packetType, audioBuffer: null, isEncoding: true });
+            this.#_encoder.encode(audioBuffer as Int16Array);
+            return;
+        }
+
         const encodedAudio = audioBuffer ? new Uint8Array(audioBuffer.buffer) : null;
 
-        this.#emitAudioPacket(packetType, encodedAudio);
+        this.#queueAudioPacket({ packetType, audioBuffer: encodedAudio, isEncoding: false });
 
         // WEBRTC TODO: Address further C++ code.
 
@@ -437,13 +725,48 @@ class AudioClient {
     #handleDummyAudioInput(): void {
         // C++  void AudioClient::handleDummyAudioInput()
 
-        this.#handleAudioInput(null);
+        this.#handleAudioInput(null, false);
 
         this.#_dummyAudioInputTimer = setTimeout(() => {
             this.#handleDummyAudioInput();
         }, AudioConstants.NETWORK_FRAME_MSECS);
     }
 
+    #queueAudioPacket(pendingAudioPacket: PendingAudioPacket): void {
+        // C++  N/A
+        this.#_pendingAudioPackets.push(pendingAudioPacket);
+
+        // Drop the oldest audio still being encoded if too many packets are waiting to be sent, so that audio that the
+        // encoder never outputs doesn't hold up subsequent packets.
+        while (this.#_pendingAudioPackets.length > AudioClient.#MAX_PENDING_AUDIO_PACKETS) {
+            if (this.#_pendingAudioPackets[0]?.isEncoding) {
+                this.#_pendingAudioPackets.shift();
+            }
+            this.#emitPendingAudioPackets();
+        }
+
+        this.#emitPendingAudioPackets();
+    }
+
+    #emitPendingAudioPackets(): void {
+        // C++  N/A
+        let pendingAudioPacket = this.#_pendingAudioPackets[0];
+        while (pendingAudioPacket && !pendingAudioPacket.isEncoding) {
+            this.#_pendingAudioPackets.shift();
+            this.#emitAudioPacket(pendingAudioPacket.packetType, pendingAudioPacket.audioBuffer);
+            pendingAudioPacket = this.#_pendingAudioPackets[0];
+        }
+    }
+
+    #discardPendingEncodes(): void {
+        // C++  N/A
+        // A released encoder doesn't output the audio it was encoding.
+        this.#_pendingAudioPackets = this.#_pendingAudioPackets.filter((pendingAudioPacket) => {
+            return !pendingAudioPacket.isEncoding;
+        });
+        this.#emitPendingAudioPackets();
+    }
+
     #emitAudioPacket(packetType: PacketTypeValue, audioBuffer: Uint8Array | null): void {
         // C++  void AbstractAudioInterface::emitAudioPacket(const void* audioData, size_t bytes, quint16 & sequenceNumber,
         //          bool isStereo, const Transform& transform, glm::vec3 avatarBoundingBoxCorner,
@@ -454,7 +777,8 @@ class AudioClient {
             return;
         }
 
-        assert(packetType === PacketType.SilentAudioFrame || packetType === PacketType.MicrophoneAudioNoEcho);
+        assert(packetType === PacketType.SilentAudioFrame || packetType === PacketType.MicrophoneAudioNoEcho
+            || packetType === PacketType.MicrophoneAudioWithEcho);
 
         const AUDIO_SEQUENCE_MODULUS = 65536;
         this.#_outgoingAvatarAudioSequenceNumber = (this.#_outgoingAvatarAudioSequenceNumber + 1) % AUDIO_SEQUENCE_MODULUS;
@@ -476,7 +800,10 @@ class AudioClient {
             });
         } else {
             assert(audioBuffer !== null);
-            audioPacket = PacketScribe.MicrophoneAudioNoEcho.write({
+            const scribe = packetType === PacketType.MicrophoneAudioWithEcho
+                ? PacketScribe.MicrophoneAudioWithEcho
+                : PacketScribe.MicrophoneAudioNoEcho;
+            audioPacket = scribe.write({
                 sequenceNumber: this.#_outgoingAvatarAudioSequenceNumber,
                 codecName: this.#_selectedCodecName,
                 isStereo: this.#_isStereoInput,
@@ -504,12 +831,37 @@ class AudioClient {
         // WEBRTC TODO: Address further C++ code.
 
         this.#_receivedAudioStream.cleanupCodec();
-        this.#_receivedAudioStream.setupCodec(this.#_selectedCodecName);
+        this.#cleanupCodecs();
+
+        for (const plugin of PluginManager.getCodecPlugins()) {
+            if (this.#_selectedCodecName === plugin.getName()) {
+                this.#_codec = plugin;
+                this.#_receivedAudioStream.setupCodec(plugin, this.#_selectedCodecName, AudioConstants.STEREO);
+                this.#_encoder = plugin.createEncoder(AudioConstants.SAMPLE_RATE,
+                    this.#_isStereoInput ? AudioConstants.STEREO : AudioConstants.MONO, this.#handleEncodedAudio);
+                break;
+            }
+        }
+
+        if (!this.#_codec) {
+            // PCM.
+            this.#_receivedAudioStream.setupCodec(null, this.#_selectedCodecName, AudioConstants.STEREO);
+        }
 
         // WEBRTC TODO: Address further C++ code.
 
     }
 
+    #cleanupCodecs(): void {
+        // C++  void cleanupCodecs()
+        if (this.#_codec && this.#_encoder) {
+            this.#_codec.releaseEncoder(this.#_encoder);
+            this.#discardPendingEncodes();
+        }
+        this.#_encoder = null;
+        this.#_codec = null;
+    }
+
 
     // Listener
     // eslint-disable-next-line class-methods-use-this
@@ -531,33 +883,19 @@ class AudioClient {
     };
 
     // Listener
-    // eslint-disable-next-line
-    // @ts-ignore
-    #processStreamStatsPacket = (message: ReceivedMessage, sendingNode: Node | null): void => {  // eslint-disable-line
-        // C++  void AudioIOStats::processStreamStatsPacket(ReceivedMessage*, Node* sendingNode)
-
-        if (!this.#_haveWarnedAudioStreamStats) {
-            console.warn("AudioClient: AudioStreamStats packet not processed.");
-            this.#_haveWarnedAudioStreamStats = true;
-        }
-
-        // WEBRTC TODO: Address further C++ code.
-
-    };
-
-    // Listener
-    // eslint-disable-next-line
-    // @ts-ignore
-    #handleAudioEnvironmentDataPacket = (message: ReceivedMessage): void => {  // eslint-disable-line
+    #handleAudioEnvironmentDataPacket = (message: ReceivedMessage): void => {
         // C++  void handleAudioEnvironmentDataPacket(ReceivedMessage* message)
 
-        if (!this.#_haveWarnedAudioEnvironment) {
-            console.warn("AudioClient: AudioEnvironment packet not processed.");
-            this.#_haveWarnedAudioEnvironment = true;
-        }
+        const info = PacketScribe.AudioEnvironment.read(message.getMessage());
 
-        // WEBRTC TODO: Address further C++ code.
+        if (info.hasReverb) {
+            this.#_receivedAudioStream.setReverb(info.reverbTime, info.wetLevel);
+        } else {
+            this.#_receivedAudioStream.clearReverb();
+        }
 
+        // The C++ configures the reverb each time that received audio is processed.
+        this.#configureReverb();
     };
 
     // Listener
@@ -583,10 +921,18 @@ class AudioClient {
         }
 
         // C++  void Application::nodeActivated(Node* node)
-        this.#negotiateAudioFormat();
+        void this.#negotiateAudioFormat();
 
         // Web SDK specific. Reset to cleanly handle new connection.
         this.#_receivedAudioStream.reset();
+
+        // C++  void Application::update(float deltaTime)
+        //      The C++ sends the downstream audio stats once per second from its update loop.
+        if (this.#_downstreamAudioStatsTimer === null) {
+            this.#_downstreamAudioStatsTimer = setInterval(() => {
+                this.#_stats.sendDownstreamAudioStatsPacket();
+            }, AudioClient.#DOWNSTREAM_AUDIO_STATS_INTERVAL);
+        }
     };
 
     // Slot
@@ -598,9 +944,42 @@ class AudioClient {
         }
 
         // C++  void Application::nodeKilled(Node* node)
+        if (this.#_downstreamAudioStatsTimer !== null) {
+            clearInterval(this.#_downstreamAudioStatsTimer);
+            this.#_downstreamAudioStatsTimer = null;
+        }
         this.#audioMixerKilled();
     };
 
+    // Slot
+    #handleEncodedAudio = (encodedBuffer: Uint8Array | null): void => {
+        // C++  N/A
+        // The C++ encodes synchronously in handleAudioInput().
+        // Encoders output frames in the order they're encoded, so this is the oldest queued packet still being encoded. Its
+        // packet type was set when it was queued.
+        const pendingAudioPacket = this.#_pendingAudioPackets.find((packet) => {
+            return packet.isEncoding;
+        });
+        if (!pendingAudioPacket) {
+            return;
+        }
+        if (encodedBuffer === null) {
+            // The audio couldn't be encoded, e.g., because the encoder has failed. Send silence instead so that the audio
+            // mixer continues to receive the audio stream.
+            pendingAudioPacket.packetType = PacketType.SilentAudioFrame;
+        }
+        pendingAudioPacket.audioBuffer = encodedBuffer;
+        pendingAudioPacket.isEncoding = false;
+        this.#emitPendingAudioPackets();
+    };
+
+    #handleOutputData = (pcmData: Int16Array): void => {
+        // C++  qint64 AudioClient::AudioOutputIODevice::readData(char * data, qint64 maxSize)
+        if (this.#_audioRecorder) {
+            this.#_audioRecorder.addOutput(pcmData);
+        }
+    };
+
     // Slot
     #handleMicAudioInput = (): void => {
         // C++  void AudioClient::handleMicAudioInput()
@@ -620,7 +999,12 @@ class AudioClient {
 
             // WEBRTC TODO: Address further C++ code.
 
-            this.#handleAudioInput(pcmData);
+            if (this.#_audioRecorder && pcmData) {
+                this.#_audioRecorder.addInput(pcmData,
+                    this.#_isStereoInput ? AudioConstants.STEREO : AudioConstants.MONO);
+            }
+
+            this.#handleAudioInput(pcmData, this.#_audioInput.isGateOpen());
         }
     };
 
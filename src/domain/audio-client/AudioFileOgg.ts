@@ -0,0 +1,248 @@
+//
+//  AudioFileOgg.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../audio/AudioConstants";
+import CodecPlugin from "../plugins/CodecPlugin";
+import OpusEncoder from "../plugins/opus-codec/OpusEncoder";
+import OpusWasmEncoder from "../plugins/opus-codec/OpusWasmEncoder";
+import PluginManager from "../plugins/PluginManager";
+
+
+/*@devdoc
+ *  The <code>AudioFileOgg</code> namespace creates Ogg/Opus files from 16-bit PCM audio data. The audio is encoded using the
+ *  Opus codec plugin's encoder and is encapsulated per RFC 7845.
+ *  <p>C++: N/A</p>
+ *  @namespace AudioFileOgg
+ */
+const AudioFileOgg = new class {
+    // C++  N/A
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly #_OPUS_GRANULE_RATE = 48000;  // Ogg/Opus granule positions are always at 48kHz.
+    readonly #_PAGE_HEADER_SIZE = 27;
+    readonly #_MAX_SEGMENTS_PER_PAGE = 255;
+    readonly #_MAX_SEGMENT_SIZE = 255;
+    readonly #_MAX_PACKETS_PER_PAGE = 50;  // 0.5s of 10ms Opus frames.
+    readonly #_HEADER_TYPE_CONTINUATION = 0x00;
+    readonly #_HEADER_TYPE_BOS = 0x02;
+    readonly #_HEADER_TYPE_EOS = 0x04;
+    readonly #_CRC_POLYNOMIAL = 0x04c11db7;
+    readonly #_CRC_TOP_BIT = 0x80000000;
+    readonly #_OPUS_HEAD_SIZE = 19;
+    readonly #_VENDOR = "Vircadia Web SDK";
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+    readonly #_LITTLE_ENDIAN = true;
+
+    #_crcTable: Uint32Array | null = null;
+
+
+    /*@devdoc
+     *  Gets whether Ogg/Opus files can be created, i.e., whether the Opus codec is supported.
+     *  <p><em>Async</em></p>
+     *  @function AudioFileOgg.isSupported
+     *  @returns {Promise<boolean>} <code>true</code> if Ogg/Opus files can be created, <code>false</code> if they can't.
+     */
+    async isSupported(): Promise<boolean> {
+        // The browser's support for the Opus codec is checked asynchronously.
+        await PluginManager.initCodecPlugins();
+        const opusCodec = this.#getOpusCodec();
+        return opusCodec !== undefined && opusCodec.isSupported();
+    }
+
+    /*@devdoc
+     *  Creates an Ogg/Opus file from 16-bit PCM audio data at the Vircadia audio sample rate.
+     *  <p><em>Async</em></p>
+     *  @function AudioFileOgg.create
+     *  @param {Int16Array[]} pcmChunks - The PCM audio data, interleaved if stereo, in consecutive chunks. The chunks may be
+     *      of any length.
+     *  @param {number} numChannels - The number of audio channels.
+     *  @returns {Promise<Blob>} The Ogg/Opus file.
+     */
+    async create(pcmChunks: Int16Array[], numChannels: number): Promise<Blob> {
+        await PluginManager.initCodecPlugins();
+        const opusCodec = this.#getOpusCodec() as CodecPlugin;
+        const packets: Uint8Array[] = [];
+        const encoder = opusCodec.createEncoder(AudioConstants.SAMPLE_RATE, numChannels, (encodedBuffer: Uint8Array | null) => {
+            if (encodedBuffer) {
+                packets.push(encodedBuffer);
+            }
+        }) as OpusEncoder | OpusWasmEncoder;
+
+        // Encode whole network frames, which may span chunks, padding the final frame with silence.
+        const frameSize = AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL * numChannels;
+        const frame = new Int16Array(frameSize);
+        let frameLength = 0;
+        for (const pcmChunk of pcmChunks) {
+            let position = 0;
+            while (position < pcmChunk.length) {
+                const numSamples = Math.min(frameSize - frameLength, pcmChunk.length - position);
+                frame.set(pcmChunk.subarray(position, position + numSamples), frameLength);
+                frameLength += numSamples;
+                position += numSamples;
+                if (frameLength === frameSize) {
+                    encoder.encode(frame);  // The encoder copies the frame's data.
+                    frameLength = 0;
+                }
+            }
+        }
+        if (frameLength > 0) {
+            frame.fill(0, frameLength);
+            encoder.encode(frame);
+        }
+        await encoder.flush();
+        opusCodec.releaseEncoder(encoder);
+
+        const serialNumber = Math.floor(Math.random() * 0xffffffff);  // eslint-disable-line @typescript-eslint/no-magic-numbers
+        const granulesPerPacket = AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL * this.#_OPUS_GRANULE_RATE
+            / AudioConstants.SAMPLE_RATE;
+
+        const pages: Uint8Array[] = [];
+        let pageSequenceNumber = 0;
+        pages.push(this.#createPage([this.#createOpusHead(numChannels, encoder.getPreSkip())], this.#_HEADER_TYPE_BOS, 0,
+            serialNumber, pageSequenceNumber));
+        pageSequenceNumber += 1;
+        pages.push(this.#createPage([this.#createOpusTags()], this.#_HEADER_TYPE_CONTINUATION, 0, serialNumber,
+            pageSequenceNumber));
+        pageSequenceNumber += 1;
+
+        let packetIndex = 0;
+        do {
+            const pagePackets: Uint8Array[] = [];
+            let numSegments = 0;
+            while (packetIndex < packets.length && pagePackets.length < this.#_MAX_PACKETS_PER_PAGE) {
+                const packet = packets[packetIndex] as Uint8Array;
+                const packetSegments = Math.floor(packet.length / this.#_MAX_SEGMENT_SIZE) + 1;
+                if (numSegments + packetSegments > this.#_MAX_SEGMENTS_PER_PAGE) {
+                    break;
+                }
+                pagePackets.push(packet);
+                numSegments += packetSegments;
+                packetIndex += 1;
+            }
+            const headerType = packetIndex === packets.length ? this.#_HEADER_TYPE_EOS : this.#_HEADER_TYPE_CONTINUATION;
+            pages.push(this.#createPage(pagePackets, headerType, packetIndex * granulesPerPacket, serialNumber,
+                pageSequenceNumber));
+            pageSequenceNumber += 1;
+        } while (packetIndex < packets.length);
+
+        return new Blob(pages, { type: "audio/ogg; codecs=opus" });
+    }
+
+
+    // eslint-disable-next-line class-methods-use-this
+    #getOpusCodec(): CodecPlugin | undefined {
+        return PluginManager.getCodecPlugins().find((plugin) => {
+            return plugin.getName() === "opus";
+        });
+    }
+
+    #createOpusHead(numChannels: number, preSkip: number): Uint8Array {
+        // RFC 7845 section 5.1.
+        const data = new DataView(new ArrayBuffer(this.#_OPUS_HEAD_SIZE));
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        this.#writeString(data, 0, "OpusHead");
+        data.setUint8(8, 1);  // Version.
+        data.setUint8(9, numChannels);
+        data.setUint16(10, preSkip, this.#_LITTLE_ENDIAN);
+        data.setUint32(12, AudioConstants.SAMPLE_RATE, this.#_LITTLE_ENDIAN);  // Input sample rate.
+        data.setInt16(16, 0, this.#_LITTLE_ENDIAN);  // Output gain.
+        data.setUint8(18, 0);  // Channel mapping family: mono or stereo.
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+        return new Uint8Array(data.buffer);
+    }
+
+    #createOpusTags(): Uint8Array {
+        // RFC 7845 section 5.2.
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        const data = new DataView(new ArrayBuffer(8 + 4 + this.#_VENDOR.length + 4));
+        this.#writeString(data, 0, "OpusTags");
+        data.setUint32(8, this.#_VENDOR.length, this.#_LITTLE_ENDIAN);
+        this.#writeString(data, 12, this.#_VENDOR);
+        data.setUint32(12 + this.#_VENDOR.length, 0, this.#_LITTLE_ENDIAN);  // User comment list length.
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+        return new Uint8Array(data.buffer);
+    }
+
+    #createPage(packets: Uint8Array[], headerType: number, granulePosition: number, serialNumber: number,
+        pageSequenceNumber: number): Uint8Array {
+        // RFC 3533 section 6.
+
+        // Lacing values.
+        const segments: number[] = [];
+        let bodySize = 0;
+        for (const packet of packets) {
+            let remaining = packet.length;
+            while (remaining >= this.#_MAX_SEGMENT_SIZE) {
+                segments.push(this.#_MAX_SEGMENT_SIZE);
+                remaining -= this.#_MAX_SEGMENT_SIZE;
+            }
+            segments.push(remaining);
+            bodySize += packet.length;
+        }
+
+        const headerSize = this.#_PAGE_HEADER_SIZE + segments.length;
+        const page = new Uint8Array(headerSize + bodySize);
+        const data = new DataView(page.buffer);
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        this.#writeString(data, 0, "OggS");
+        data.setUint8(4, 0);  // Version.
+        data.setUint8(5, headerType);
+        data.setUint32(6, granulePosition % 0x100000000, this.#_LITTLE_ENDIAN);
+        data.setUint32(10, Math.floor(granulePosition / 0x100000000), this.#_LITTLE_ENDIAN);
+        data.setUint32(14, serialNumber, this.#_LITTLE_ENDIAN);
+        data.setUint32(18, pageSequenceNumber, this.#_LITTLE_ENDIAN);
+        data.setUint32(22, 0, this.#_LITTLE_ENDIAN);  // CRC checksum, calculated below.
+        data.setUint8(26, segments.length);
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+        page.set(segments, this.#_PAGE_HEADER_SIZE);
+
+        let position = headerSize;
+        for (const packet of packets) {
+            page.set(packet, position);
+            position += packet.length;
+        }
+
+        data.setUint32(22, this.#crc(page), this.#_LITTLE_ENDIAN);  // eslint-disable-line @typescript-eslint/no-magic-numbers
+        return page;
+    }
+
+    #crc(data: Uint8Array): number {
+        // The Ogg CRC-32 is unreflected, with a zero initial value and no final XOR.
+        if (this.#_crcTable === null) {
+            this.#_crcTable = new Uint32Array(256);  // eslint-disable-line @typescript-eslint/no-magic-numbers
+            for (let i = 0; i < this.#_crcTable.length; i++) {
+                let value = i << 24;  // eslint-disable-line @typescript-eslint/no-magic-numbers
+                for (let bit = 0; bit < 8; bit++) {  // eslint-disable-line @typescript-eslint/no-magic-numbers
+                    value = value & this.#_CRC_TOP_BIT ? value << 1 ^ this.#_CRC_POLYNOMIAL : value << 1;
+                }
+                this.#_crcTable[i] = value >>> 0;
+            }
+        }
+
+        let crc = 0;
+        for (const byte of data) {
+            // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+            crc = (crc << 8 ^ (this.#_crcTable[(crc >>> 24 ^ byte) & 0xff] as number)) >>> 0;
+        }
+        return crc;
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    #writeString(data: DataView, position: number, value: string): void {
+        for (let i = 0; i < value.length; i++) {
+            data.setUint8(position + i, value.charCodeAt(i));
+        }
+    }
+
+}();
+
+export default AudioFileOgg;
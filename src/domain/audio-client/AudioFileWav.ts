@@ -0,0 +1,79 @@
+//
+//  AudioFileWav.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@devdoc
+ *  The <code>AudioFileWav</code> namespace creates WAV files from 16-bit PCM audio data.
+ *  <p>C++: <code>class AudioFileWav : public QObject</code></p>
+ *  @namespace AudioFileWav
+ */
+const AudioFileWav = new class {
+    // C++  class AudioFileWav : public QObject
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly #_HEADER_SIZE = 44;
+    readonly #_FMT_CHUNK_SIZE = 16;
+    readonly #_PCM_FORMAT = 1;
+    readonly #_BYTES_PER_SAMPLE = 2;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+    readonly #_LITTLE_ENDIAN = true;
+
+
+    /*@devdoc
+     *  Creates a WAV file from 16-bit PCM audio data.
+     *  @function AudioFileWav.create
+     *  @param {Int16Array[]} pcmChunks - The PCM audio data, interleaved if stereo, in consecutive chunks. The chunks may be
+     *      of any length.
+     *  @param {number} sampleRate - The sample rate of the audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels.
+     *  @returns {Blob} The WAV file.
+     */
+    create(pcmChunks: Int16Array[], sampleRate: number, numChannels: number): Blob {
+        // C++  bool create(const QAudioFormat& audioFormat, const QString& filepath)
+        //      void addRawAudioChunk(char* chunk, int size)
+        //      void close()
+        let dataSize = 0;
+        for (const pcmChunk of pcmChunks) {
+            dataSize += pcmChunk.byteLength;
+        }
+        const header = new DataView(new ArrayBuffer(this.#_HEADER_SIZE));
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        this.#writeString(header, 0, "RIFF");
+        header.setUint32(4, this.#_HEADER_SIZE - 8 + dataSize, this.#_LITTLE_ENDIAN);
+        this.#writeString(header, 8, "WAVE");
+        this.#writeString(header, 12, "fmt ");
+        header.setUint32(16, this.#_FMT_CHUNK_SIZE, this.#_LITTLE_ENDIAN);
+        header.setUint16(20, this.#_PCM_FORMAT, this.#_LITTLE_ENDIAN);
+        header.setUint16(22, numChannels, this.#_LITTLE_ENDIAN);
+        header.setUint32(24, sampleRate, this.#_LITTLE_ENDIAN);
+        header.setUint32(28, sampleRate * numChannels * this.#_BYTES_PER_SAMPLE, this.#_LITTLE_ENDIAN);
+        header.setUint16(32, numChannels * this.#_BYTES_PER_SAMPLE, this.#_LITTLE_ENDIAN);
+        header.setUint16(34, this.#_BYTES_PER_SAMPLE * 8, this.#_LITTLE_ENDIAN);
+        this.#writeString(header, 36, "data");
+        header.setUint32(40, dataSize, this.#_LITTLE_ENDIAN);
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        // WAV data are little-endian, as are the typed array data on all platforms that browsers run on.
+        // The Blob takes just each chunk's view of its buffer.
+        return new Blob([header, ...pcmChunks], { type: "audio/wav" });
+    }
+
+
+    // eslint-disable-next-line class-methods-use-this
+    #writeString(data: DataView, position: number, value: string): void {
+        for (let i = 0; i < value.length; i++) {
+            data.setUint8(position + i, value.charCodeAt(i));
+        }
+    }
+
+}();
+
+export default AudioFileWav;
@@ -0,0 +1,184 @@
+//
+//  AudioIOStats.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import InboundAudioStream from "../audio/InboundAudioStream";
+import Node from "../networking/Node";
+import NodeList from "../networking/NodeList";
+import NodeType from "../networking/NodeType";
+import ReceivedMessage from "../networking/ReceivedMessage";
+import SockAddr from "../networking/SockAddr";
+import PacketScribe from "../networking/packets/PacketScribe";
+import { StreamStatsDetails } from "../networking/packets/AudioStreamStats";
+import ContextManager from "../shared/ContextManager";
+import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+
+
+type AudioStats = {
+    mixerStream: StreamStatsDetails | null,
+    injectorStreams: StreamStatsDetails[],
+    clientStream: StreamStatsDetails | null
+};
+
+
+/*@devdoc
+ *  The <code>AudioIOStats</code> class exchanges audio stream statistics with the audio mixer: once per second it sends the
+ *  audio mixer statistics on the audio stream received from the audio mixer and it receives statistics from the audio mixer
+ *  on the audio streams that the audio mixer receives from the user client.
+ *  <p>C++: <code>class AudioIOStats : public QObject</code></p>
+ *  @class AudioIOStats
+ *  @param {number} contextID - The {@link ContextManager} context ID.
+ *  @param {InboundAudioStream} receivedAudioStream - The audio stream received from the audio mixer.
+ *
+ *  @property {Signal<AudioIOStats~statsUpdated>} statsUpdated - Triggered when statistics have been received from the audio
+ *      mixer.
+ */
+class AudioIOStats {
+    // C++  class AudioIOStats : public QObject
+
+    /*@sdkdoc
+     *  Statistics on the audio streams between the user client and the audio mixer.
+     *  @typedef {object} AudioIOStats.AudioStats
+     *  @property {PacketScribe.StreamStatsDetails|null} mixerStream - The audio mixer's statistics on the audio stream that it
+     *      receives from the user client. <code>null</code> if the audio mixer hasn't reported statistics on this stream.
+     *  @property {PacketScribe.StreamStatsDetails[]} injectorStreams - The audio mixer's statistics on the audio injector
+     *      streams that it receives from the user client.
+     *  @property {PacketScribe.StreamStatsDetails|null} clientStream - The user client's statistics on the audio stream that
+     *      it receives from the audio mixer, as most recently sent to the audio mixer. <code>null</code> if statistics haven't
+     *      been sent.
+     */
+
+    // C++  PositionalAudioStream::Type
+    static readonly #MICROPHONE_STREAM_TYPE = 0;
+
+
+    // Context
+    #_nodeList;
+
+    #_receivedAudioStream;
+
+    #_mixerAvatarStats: StreamStatsDetails | null = null;
+    #_injectorStreams: Map<bigint, StreamStatsDetails> = new Map();
+    #_pendingInjectorStreams: Map<bigint, StreamStatsDetails> = new Map();
+    #_clientStats: StreamStatsDetails | null = null;
+    #_haveReceivedStats = false;
+
+    #_statsUpdated = new SignalEmitter();
+
+
+    constructor(contextID: number, receivedAudioStream: InboundAudioStream) {
+        // C++  AudioIOStats(MixedProcessedAudioStream* receivedAudioStream)
+
+        // Context
+        this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+
+        this.#_receivedAudioStream = receivedAudioStream;
+    }
+
+
+    /*@devdoc
+     *  Clears the statistics.
+     */
+    reset(): void {
+        // C++  void reset()
+        this.#_receivedAudioStream.resetStats();
+        this.#_mixerAvatarStats = null;
+        this.#_injectorStreams.clear();
+        this.#_pendingInjectorStreams.clear();
+        this.#_clientStats = null;
+        this.#_haveReceivedStats = false;
+    }
+
+    /*@devdoc
+     *  Gets the most recent statistics.
+     *  @returns {AudioIOStats.AudioStats|null} The most recent statistics. <code>null</code> if no statistics have been
+     *      received from the audio mixer.
+     */
+    getStats(): AudioStats | null {
+        // C++  N/A
+        if (!this.#_haveReceivedStats) {
+            return null;
+        }
+        return {
+            mixerStream: this.#_mixerAvatarStats,
+            injectorStreams: [...this.#_injectorStreams.values()],
+            clientStream: this.#_clientStats
+        };
+    }
+
+    /*@devdoc
+     *  Sends statistics on the audio stream received from the audio mixer to the audio mixer. Should be called once per
+     *  second.
+     */
+    sendDownstreamAudioStatsPacket(): void {
+        // C++  void sendDownstreamAudioStatsPacket()
+
+        // Update downstream audio stats with current state of ring buffer.
+        this.#_receivedAudioStream.perSecondCallbackForUpdatingStats();
+
+        const audioMixer = this.#_nodeList.soloNodeOfType(NodeType.AudioMixer);
+        if (!audioMixer || !audioMixer.getActiveSocket()) {
+            return;
+        }
+
+        this.#_clientStats = this.#_receivedAudioStream.getAudioStreamStats();
+
+        const statsPacket = PacketScribe.AudioStreamStats.write({
+            appendFlag: PacketScribe.AudioStreamStats.START | PacketScribe.AudioStreamStats.END,
+            streamStats: [this.#_clientStats]
+        });
+        this.#_nodeList.sendUnreliablePacket(statsPacket, audioMixer.getActiveSocket() as SockAddr,
+            audioMixer.getAuthenticateHash());
+    }
+
+
+    /*@devdoc
+     *  Triggered when statistics have been received from the audio mixer.
+     *  @function AudioIOStats~statsUpdated
+     *  @param {AudioIOStats.AudioStats} stats - The updated statistics.
+     *  @returns {Signal}
+     */
+    get statsUpdated(): Signal {
+        return this.#_statsUpdated.signal();
+    }
+
+
+    // Listener
+    // eslint-disable-next-line
+    // @ts-ignore
+    processStreamStatsPacket = (message: ReceivedMessage, sendingNode: Node | null): void => {  // eslint-disable-line
+        // C++  void processStreamStatsPacket(ReceivedMessage* message, Node* sendingNode)
+
+        const info = PacketScribe.AudioStreamStats.read(message.getMessage());
+
+        // Clear the injector stream stats if this is the first packet of a set.
+        if (info.appendFlag & PacketScribe.AudioStreamStats.START) {
+            this.#_pendingInjectorStreams.clear();
+        }
+
+        for (const streamStats of info.streamStats) {
+            if (streamStats.streamType === AudioIOStats.#MICROPHONE_STREAM_TYPE) {
+                this.#_mixerAvatarStats = streamStats;
+            } else {
+                this.#_pendingInjectorStreams.set(streamStats.streamIdentifier.value(), streamStats);
+            }
+        }
+
+        if (info.appendFlag & PacketScribe.AudioStreamStats.END) {
+            this.#_injectorStreams = new Map(this.#_pendingInjectorStreams);
+            this.#_haveReceivedStats = true;
+            this.#_statsUpdated.emit(this.getStats());
+        }
+    };
+
+}
+
+export default AudioIOStats;
+export type { AudioStats };
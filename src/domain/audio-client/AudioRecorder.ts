@@ -0,0 +1,147 @@
+//
+//  AudioRecorder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../audio/AudioConstants";
+
+
+type AudioRecordingOptions = {
+    includeInput?: boolean,
+    includeOutput?: boolean,
+    format?: "wav" | "ogg"
+};
+
+
+/*@devdoc
+ *  The <code>AudioRecorder</code> class mixes the audio output received from the audio mixer and the user's audio input into a
+ *  stereo 16-bit PCM recording at the Vircadia audio sample rate.
+ *  <p>The audio output and audio input arrive independently of each other so each is written at its own position in the
+ *  recording. A position that falls behind real time, e.g., while the audio input is muted or while no audio is received from
+ *  the audio mixer, is moved forward so that the two remain in step, leaving silence in the gap.</p>
+ *  <p>C++: N/A</p>
+ *  @class AudioRecorder
+ *  @param {boolean} includeInput - <code>true</code> to record the audio input, <code>false</code> to ignore it.
+ *  @param {boolean} includeOutput - <code>true</code> to record the audio output, <code>false</code> to ignore it.
+ */
+class AudioRecorder {
+    // C++  N/A - The C++ AudioClient records only the audio output, directly to a WAV file.
+
+    /*@sdkdoc
+     *  Options for recording audio.
+     *  @typedef {object} AudioRecordingOptions
+     *  @property {boolean} [includeInput=true] - <code>true</code> to include the user's audio input in the recording,
+     *      <code>false</code> to not. Audio input isn't recorded while it is muted.
+     *  @property {boolean} [includeOutput=true] - <code>true</code> to include the audio received from the audio mixer in the
+     *      recording, <code>false</code> to not.
+     *  @property {string} [format="wav"] - The format of the recording: <code>"wav"</code> for 16-bit PCM WAV or
+     *      <code>"ogg"</code> for Ogg/Opus. Ogg/Opus is available only if the browser supports WebCodecs Opus encoding or
+     *      WebAssembly.
+     */
+
+    static readonly #CHUNK_FRAMES = AudioConstants.SAMPLE_RATE;  // 1s.
+    static readonly #CHUNK_SAMPLES = AudioRecorder.#CHUNK_FRAMES * AudioConstants.STEREO;
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    static readonly #MAX_LAG_FRAMES = AudioConstants.SAMPLE_RATE / 10;  // 100ms.
+    static readonly #MILLISECONDS_PER_SECOND = 1000;
+    static readonly #MIN_SAMPLE_VALUE = -32768;
+    static readonly #MAX_SAMPLE_VALUE = 32767;
+
+
+    #_includeInput: boolean;
+    #_includeOutput: boolean;
+
+    #_startTime = Date.now();
+    #_chunks: Int16Array[] = [];
+    #_inputPosition = 0;  // Frames.
+    #_outputPosition = 0;  // Frames.
+
+
+    constructor(includeInput: boolean, includeOutput: boolean) {
+        this.#_includeInput = includeInput;
+        this.#_includeOutput = includeOutput;
+    }
+
+
+    /*@devdoc
+     *  Adds audio input to the recording.
+     *  @param {Int16Array} pcmData - The audio input PCM data, interleaved if stereo.
+     *  @param {number} numChannels - The number of audio channels in the data.
+     */
+    addInput(pcmData: Int16Array, numChannels: number): void {
+        if (this.#_includeInput) {
+            this.#_inputPosition = this.#add(pcmData, numChannels, this.#_inputPosition);
+        }
+    }
+
+    /*@devdoc
+     *  Adds audio output to the recording.
+     *  @param {Int16Array} pcmData - The audio output PCM data, interleaved stereo.
+     */
+    addOutput(pcmData: Int16Array): void {
+        if (this.#_includeOutput) {
+            this.#_outputPosition = this.#add(pcmData, AudioConstants.STEREO, this.#_outputPosition);
+        }
+    }
+
+    /*@devdoc
+     *  Gets the recording's audio data. The data are returned in the chunks that they're recorded in rather than being
+     *  copied into a single array, so that a long recording's memory use isn't doubled.
+     *  @returns {Int16Array[]} The recording's PCM data, interleaved stereo, in order.
+     */
+    getPCMChunks(): Int16Array[] {
+        const length = Math.max(this.#_inputPosition, this.#_outputPosition) * AudioConstants.STEREO;
+        const pcmChunks: Int16Array[] = [];
+        for (let i = 0; i < this.#_chunks.length; i++) {
+            const chunk = this.#_chunks[i] as Int16Array;
+            const start = i * AudioRecorder.#CHUNK_SAMPLES;
+            if (start >= length) {
+                break;
+            }
+            pcmChunks.push(chunk.subarray(0, Math.min(chunk.length, length - start)));
+        }
+        return pcmChunks;
+    }
+
+
+    #add(pcmData: Int16Array, numChannels: number, position: number): number {
+        const numFrames = Math.floor(pcmData.length / numChannels);
+
+        // Catch up with real time if fallen behind.
+        const elapsedFrames = Math.floor((Date.now() - this.#_startTime) * AudioConstants.SAMPLE_RATE
+            / AudioRecorder.#MILLISECONDS_PER_SECOND);
+        let framePosition = position;
+        if (elapsedFrames - framePosition > AudioRecorder.#MAX_LAG_FRAMES + numFrames) {
+            framePosition = elapsedFrames - numFrames;
+        }
+
+        for (let i = 0; i < numFrames; i++) {
+            const frameIndex = framePosition + i;
+            const chunkIndex = Math.floor(frameIndex / AudioRecorder.#CHUNK_FRAMES);
+            while (this.#_chunks.length <= chunkIndex) {
+                this.#_chunks.push(new Int16Array(AudioRecorder.#CHUNK_SAMPLES));
+            }
+            const chunk = this.#_chunks[chunkIndex] as Int16Array;
+            const chunkOffset = (frameIndex - chunkIndex * AudioRecorder.#CHUNK_FRAMES) * AudioConstants.STEREO;
+            for (let channel = 0; channel < AudioConstants.STEREO; channel++) {
+                // Mono audio is recorded in both channels.
+                const value = (chunk[chunkOffset + channel] as number)
+                    + (pcmData[i * numChannels + Math.min(channel, numChannels - 1)] as number);
+                chunk[chunkOffset + channel] = Math.max(AudioRecorder.#MIN_SAMPLE_VALUE,
+                    Math.min(value, AudioRecorder.#MAX_SAMPLE_VALUE));
+            }
+        }
+
+        return framePosition + numFrames;
+    }
+
+}
+
+export default AudioRecorder;
+export type { AudioRecordingOptions };
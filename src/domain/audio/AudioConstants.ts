@@ -17,6 +17,7 @@
  *
  *  @property {number} SAMPLE_RATE - <code>24000</code> - The audio sample rate, in Hz.
  *
+ *  @property {number} MONO - <code>1</code> - The number of audio channels for mono.
  *  @property {number} STEREO - <code>2</code> - The number of audio channels for stereo.
  *
  *  @property {number} NETWORK_FRAME_SAMPLES_STEREO - <code>480</code> - The number of samples in a network packet for a stereo
@@ -36,6 +37,7 @@ const AudioConstants = new class {
 
     readonly SAMPLE_RATE = 24000;
 
+    readonly MONO = 1;
     readonly STEREO = 2;
 
     readonly NETWORK_FRAME_SAMPLES_STEREO = 480;
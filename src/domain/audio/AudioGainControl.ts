@@ -0,0 +1,98 @@
+//
+//  AudioGainControl.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@devdoc
+ *  The <code>AudioGainControl</code> class implements automatic gain control for 16-bit PCM audio input. While there is voice
+ *  activity, the gain is adjusted toward that which brings the input level to a target level. The gain is reduced quickly and
+ *  increased slowly, and is limited so that the audio doesn't clip.
+ *  <p>It is used in the {@link AudioInputProcessor} audio worklet.</p>
+ *  <p>C++: N/A</p>
+ *  @class AudioGainControl
+ */
+class AudioGainControl {
+    // C++  N/A
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly TARGET_LEVEL = 3000;  // RMS sample value, ~-21dBFS.
+    readonly MIN_GAIN = 0.25;  // -12dB.
+    readonly MAX_GAIN = 8.0;  // +18dB.
+    readonly ATTACK_RATE = 0.5;  // Proportion of the gain change applied per frame when reducing the gain.
+    readonly RELEASE_RATE = 0.02;  // Proportion of the gain change applied per frame when increasing the gain.
+    readonly MIN_SAMPLE_VALUE = -32768;
+    readonly MAX_SAMPLE_VALUE = 32767;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+    _gain = 1.0;
+
+
+    /*@devdoc
+     *  Resets the gain to unity.
+     */
+    reset(): void {
+        this._gain = 1.0;
+    }
+
+    /*@devdoc
+     *  Gets the current gain.
+     *  @returns {number} The current gain, as a multiplier.
+     */
+    getGain(): number {
+        return this._gain;
+    }
+
+    /*@devdoc
+     *  Applies automatic gain control to a frame of audio.
+     *  @param {Int16Array} samples - The audio samples. These are modified in place.
+     *  @param {boolean} isVoiceActive - <code>true</code> if there is voice activity in the frame, in which case the gain is
+     *      adjusted, <code>false</code> if there isn't, in which case the gain is held.
+     */
+    render(samples: Int16Array, isVoiceActive: boolean): void {
+        if (samples.length === 0) {
+            return;
+        }
+
+        let sumOfSquares = 0;
+        let peak = 0;
+        for (const sample of samples) {
+            sumOfSquares += sample * sample;
+            peak = Math.max(peak, Math.abs(sample));
+        }
+        const level = Math.sqrt(sumOfSquares / samples.length);
+
+        let targetGain = this._gain;
+        if (isVoiceActive && level > 0) {
+            targetGain = Math.max(this.MIN_GAIN, Math.min(this.TARGET_LEVEL / level, this.MAX_GAIN));
+        }
+
+        const rate = targetGain < this._gain ? this.ATTACK_RATE : this.RELEASE_RATE;
+        let gain = this._gain + (targetGain - this._gain) * rate;
+
+        // Don't clip.
+        let previousGain = this._gain;
+        if (peak > 0) {
+            const maxGain = this.MAX_SAMPLE_VALUE / peak;
+            gain = Math.min(gain, maxGain);
+            previousGain = Math.min(previousGain, maxGain);
+        }
+
+        // Ramp the gain across the frame.
+        for (let i = 0; i < samples.length; i++) {
+            const sampleGain = previousGain + (gain - previousGain) * (i + 1) / samples.length;
+            const value = Math.round((samples[i] as number) * sampleGain);
+            samples[i] = Math.max(this.MIN_SAMPLE_VALUE, Math.min(value, this.MAX_SAMPLE_VALUE));
+        }
+
+        this._gain = gain;
+    }
+
+}
+
+export default AudioGainControl;
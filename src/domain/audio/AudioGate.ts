@@ -0,0 +1,158 @@
+//
+//  AudioGate.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@devdoc
+ *  The <code>AudioGate</code> class implements a noise gate with voice activity detection for 16-bit PCM audio input. It
+ *  removes DC offset, tracks the background noise level, and opens when the input level rises sufficiently above the background
+ *  noise level. Hysteresis and a hold time keep the gate open during brief pauses in speech. Fades are applied when the gate
+ *  opens or closes in order to avoid clicks.
+ *  <p>It is used in the {@link AudioInputProcessor} audio worklet.</p>
+ *  <p>C++: <code>class AudioGate</code></p>
+ *  @class AudioGate
+ *  @param {number} numChannels - The number of audio channels: <code>1</code> for mono, <code>2</code> for interleaved
+ *      stereo.
+ */
+class AudioGate {
+    // C++  class AudioGate
+    //      The Web SDK's gate adapts its threshold to the background noise level.
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly DC_FILTER_COEFFICIENT = 0.995;  // High-pass filter with a cut-off of ~20Hz at 24000Hz.
+    readonly OPEN_MARGIN = 4.0;  // The level must be 12dB above the noise floor to open the gate.
+    readonly CLOSE_MARGIN = 2.0;  // The level must be 6dB above the noise floor to keep the gate open.
+    readonly MIN_OPEN_LEVEL = 100;  // RMS sample value, ~-50dBFS.
+    readonly NOISE_FLOOR_RISE = 1.003;  // Per frame: ~2.6dB/s.
+    readonly MIN_NOISE_FLOOR = 1;
+    readonly HOLD_FRAMES = 20;  // 200ms.
+    readonly MIN_SAMPLE_VALUE = -32768;
+    readonly MAX_SAMPLE_VALUE = 32767;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+    _numChannels;
+    _lastInputs: number[] = [];
+    _lastOutputs: number[] = [];
+    _noiseFloor = 0;
+    _holdCount = 0;
+    _isOpen = false;
+    _wasOpen = false;
+
+
+    constructor(numChannels: number) {
+        // C++  AudioGate(int sampleRate, int numChannels)
+        this._numChannels = numChannels;
+        this.reset();
+    }
+
+
+    /*@devdoc
+     *  Resets the gate to its initial, closed state.
+     */
+    reset(): void {
+        this._lastInputs = new Array(this._numChannels).fill(0) as number[];
+        this._lastOutputs = new Array(this._numChannels).fill(0) as number[];
+        this._noiseFloor = 0;
+        this._holdCount = 0;
+        this._isOpen = false;
+        this._wasOpen = false;
+    }
+
+    /*@devdoc
+     *  Gets whether the gate is open.
+     *  @returns {boolean} <code>true</code> if the gate is open, <code>false</code> if it is closed.
+     */
+    isOpen(): boolean {
+        return this._isOpen;
+    }
+
+    /*@devdoc
+     *  Removes DC offset from a frame of audio and detects whether there is voice activity in it, updating whether the gate is
+     *  open.
+     *  @param {Int16Array} samples - The audio samples. These are modified in place.
+     *  @returns {boolean} <code>true</code> if there is voice activity and the gate is open, <code>false</code> if there isn't
+     *      and the gate is closed.
+     */
+    detect(samples: Int16Array): boolean {
+        // C++  bool removeDC(int16_t* input, int16_t* output, int numFrames)
+
+        let sumOfSquares = 0;
+        for (let i = 0; i < samples.length; i++) {
+            const channel = i % this._numChannels;
+            const input = samples[i] as number;
+            const output = input - (this._lastInputs[channel] as number)
+                + this.DC_FILTER_COEFFICIENT * (this._lastOutputs[channel] as number);
+            this._lastInputs[channel] = input;
+            this._lastOutputs[channel] = output;
+            samples[i] = Math.max(this.MIN_SAMPLE_VALUE, Math.min(Math.round(output), this.MAX_SAMPLE_VALUE));
+            sumOfSquares += output * output;
+        }
+        const level = samples.length > 0 ? Math.sqrt(sumOfSquares / samples.length) : 0;
+
+        // Track the background noise level: follow drops immediately and rises slowly.
+        if (this._noiseFloor === 0 || level < this._noiseFloor) {
+            this._noiseFloor = Math.max(level, this.MIN_NOISE_FLOOR);
+        } else {
+            this._noiseFloor *= this.NOISE_FLOOR_RISE;
+        }
+
+        const openLevel = Math.max(this._noiseFloor * this.OPEN_MARGIN, this.MIN_OPEN_LEVEL);
+        const closeLevel = openLevel * this.CLOSE_MARGIN / this.OPEN_MARGIN;
+
+        if (!this._isOpen) {
+            if (level > openLevel) {
+                this._isOpen = true;
+                this._holdCount = this.HOLD_FRAMES;
+            }
+        } else if (level > closeLevel) {
+            this._holdCount = this.HOLD_FRAMES;
+        } else {
+            this._holdCount -= 1;
+            if (this._holdCount <= 0) {
+                this._isOpen = false;
+            }
+        }
+
+        return this._isOpen;
+    }
+
+    /*@devdoc
+     *  Applies the gate to a frame of audio: silences the audio if the gate is closed, fades the audio in if the gate has just
+     *  opened, and fades the audio out if the gate has just closed.
+     *  @param {Int16Array} samples - The audio samples. These are modified in place.
+     */
+    apply(samples: Int16Array): void {
+        // C++  bool render(int16_t* input, int16_t* output, int numFrames)
+        const numFrames = samples.length / this._numChannels;
+        if (this._isOpen !== this._wasOpen) {
+            for (let i = 0; i < samples.length; i++) {
+                const fade = (Math.floor(i / this._numChannels) + 1) / numFrames;
+                samples[i] = Math.round((samples[i] as number) * (this._isOpen ? fade : 1 - fade));
+            }
+        } else if (!this._isOpen) {
+            samples.fill(0);
+        }
+        this._wasOpen = this._isOpen;
+    }
+
+    /*@devdoc
+     *  Detects voice activity in a frame of audio and applies the gate to it.
+     *  @param {Int16Array} samples - The audio samples. These are modified in place.
+     *  @returns {boolean} <code>true</code> if the gate is open, <code>false</code> if it is closed.
+     */
+    render(samples: Int16Array): boolean {
+        // C++  bool render(int16_t* input, int16_t* output, int numFrames)
+        const isOpen = this.detect(samples);
+        this.apply(samples);
+        return isOpen;
+    }
+
+}
+
+export default AudioGate;
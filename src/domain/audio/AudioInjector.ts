@@ -0,0 +1,357 @@
+//
+//  AudioInjector.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "./AudioConstants";
+import AudioOutput, { LocalAudioSource } from "./AudioOutput";
+import Sound from "./Sound";
+import AudioClient from "../audio-client/AudioClient";
+import NodeList from "../networking/NodeList";
+import NodeType from "../networking/NodeType";
+import SockAddr from "../networking/SockAddr";
+import PacketScribe from "../networking/packets/PacketScribe";
+import ContextManager from "../shared/ContextManager";
+import Quat, { quat } from "../shared/Quat";
+import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+import Uuid from "../shared/Uuid";
+import Vec3, { vec3 } from "../shared/Vec3";
+
+
+type AudioInjectorOptions = {
+    position?: vec3,
+    orientation?: quat,
+    volume?: number,
+    loop?: boolean,
+    localOnly?: boolean
+};
+
+
+/*@devdoc
+ *  The <code>AudioInjector</code> class plays a {@link Sound} in the domain by streaming its audio to the audio mixer as
+ *  <code>InjectAudio</code> packets, or plays it locally in the audio output if the injector is local-only. Each injector has
+ *  its own stream ID and sequence numbers.
+ *  <p>C++: <code>class AudioInjector : public QObject, public QEnableSharedFromThis&lt;AudioInjector&gt;</code></p>
+ *  @class AudioInjector
+ *  @param {number} contextID - The {@link ContextManager} context ID.
+ *  @param {Sound} sound - The sound to play.
+ *  @param {AudioInjectorOptions} options - The options for playing the sound.
+ *
+ *  @property {Signal<AudioInjector~finished>} finished - Triggered when the injector finishes playing.
+ */
+class AudioInjector {
+    // C++  class AudioInjector : public QObject, public QEnableSharedFromThis<AudioInjector>
+
+    /*@sdkdoc
+     *  Options for playing a sound.
+     *  @typedef {object} AudioInjectorOptions
+     *  @property {vec3} [position=Vec3.ZERO] - The position in the domain to play the sound at.
+     *  @property {quat} [orientation=Quat.IDENTITY] - The orientation in the domain to play the sound at.
+     *  @property {number} [volume=1.0] - The volume to play the sound at, range <code>0.0</code> &ndash; <code>1.0</code>.
+     *  @property {boolean} [loop=false] - <code>true</code> to repeatedly play the sound until it is stopped,
+     *      <code>false</code> to play it once.
+     *  @property {boolean} [localOnly=false] - <code>true</code> to play the sound only in the user client's
+     *      <code>audioOutput</code>, <code>false</code> to play it in the domain so that all users can hear it.
+     */
+
+    // C++  AudioInjector.cpp
+    static readonly #MAX_ALLOWED_FRAMES_TO_FALL_BEHIND = 7;
+    static readonly #UINT16_RANGE = 65536;
+
+
+    // Context
+    #_nodeList;
+    #_audioClient;
+    #_audioOutput;
+
+    #_sound: Sound;
+    #_options: Required<AudioInjectorOptions> = {
+        position: Vec3.ZERO,
+        orientation: Quat.IDENTITY,
+        volume: 1.0,
+        loop: false,
+        localOnly: false
+    };
+
+    #_hasStarted = false;
+    #_isFinished = false;
+    #_hasSentAudio = false;
+
+    #_streamID = new Uuid();
+    #_outgoingSequenceNumber = 0;
+    #_currentSendOffset = 0;
+    #_nextFrame = 0;
+    #_startTime = 0;
+    #_injectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    #_localAudioSource: LocalAudioSource | null = null;
+
+    #_finished = new SignalEmitter();
+
+
+    constructor(contextID: number, sound: Sound, options: AudioInjectorOptions) {
+        // C++  AudioInjector(AudioDataPointer audioData, const AudioInjectorOptions& injectorOptions)
+
+        // Context
+        this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+        this.#_audioClient = ContextManager.get(contextID, AudioClient) as AudioClient;
+        this.#_audioOutput = ContextManager.get(contextID, AudioOutput) as AudioOutput;
+
+        this.#_sound = sound;
+        this.setOptions(options);
+    }
+
+
+    /*@devdoc
+     *  Gets the options that the sound is being played with.
+     *  @returns {AudioInjectorOptions} The options that the sound is being played with.
+     */
+    getOptions(): Required<AudioInjectorOptions> {
+        // C++  const AudioInjectorOptions& getOptions()
+        return { ...this.#_options };
+    }
+
+    /*@devdoc
+     *  Sets the options for playing the sound. The <code>localOnly</code> option can't be changed after
+     *  {@link AudioInjector.inject|inject} has been called.
+     *  @param {AudioInjectorOptions} options - The options to set. Options not specified and options with invalid values are
+     *      unchanged.
+     */
+    setOptions(options: AudioInjectorOptions): void {
+        // C++  void setOptions(const AudioInjectorOptions& options)
+        if (Vec3.valid(options.position)) {
+            this.#_options.position = options.position as vec3;
+        }
+        if (Quat.valid(options.orientation)) {
+            this.#_options.orientation = options.orientation as quat;
+        }
+        if (typeof options.volume === "number") {
+            this.#_options.volume = Math.min(Math.max(options.volume, 0), 1);
+        }
+        if (typeof options.loop === "boolean") {
+            this.#_options.loop = options.loop;
+        }
+        if (typeof options.localOnly === "boolean" && !this.#_hasStarted) {
+            this.#_options.localOnly = options.localOnly;
+        }
+
+        if (this.#_localAudioSource) {
+            this.#_localAudioSource.gain.gain.value = this.#_options.volume;
+            this.#_localAudioSource.source.loop = this.#_options.loop;
+        }
+    }
+
+    /*@devdoc
+     *  Gets whether the injector is playing or is about to start playing.
+     *  @returns {boolean} <code>true</code> if the injector hasn't finished playing, <code>false</code> if it has.
+     */
+    isPlaying(): boolean {
+        // C++  bool isPlaying()
+        return !this.#_isFinished;
+    }
+
+    /*@devdoc
+     *  Starts playing the sound. If the sound isn't loaded, it is loaded first.
+     */
+    inject(): void {
+        // C++  bool inject(bool(AudioInjectorManager::*injection)(const AudioInjectorPointer&))
+        if (this.#_hasStarted || this.#_isFinished) {
+            return;
+        }
+        this.#_hasStarted = true;
+
+        if (this.#_sound.isReady()) {
+            this.#start();
+            return;
+        }
+
+        void this.#_sound.load().then((success) => {
+            if (this.#_isFinished) {
+                return;
+            }
+            if (success) {
+                this.#start();
+            } else {
+                this.#finish();
+            }
+        });
+    }
+
+    /*@devdoc
+     *  Stops playing the sound.
+     */
+    stop(): void {
+        // C++  void stop()
+        if (this.#_isFinished) {
+            return;
+        }
+        if (this.#_hasSentAudio) {
+            this.#sendStopInjectorPacket();
+        }
+        this.#finish();
+    }
+
+
+    /*@devdoc
+     *  Triggered when the injector finishes playing, either because it reached the end of the sound or because it was stopped.
+     *  @function AudioInjector~finished
+     *  @returns {Signal}
+     */
+    get finished(): Signal {
+        // C++  void finished()
+        return this.#_finished.signal();
+    }
+
+
+    #start(): void {
+        // C++  bool inject(bool(AudioInjectorManager::*injection)(const AudioInjectorPointer&))
+        const audioData = this.#_sound.getAudioData();
+        if (!audioData || audioData.length === 0) {
+            // No samples to inject.
+            this.#finish();
+            return;
+        }
+
+        if (this.#_options.localOnly) {
+            if (!this.#injectLocally()) {
+                this.#finish();
+            }
+            return;
+        }
+
+        this.#_streamID = Uuid.createUuid();
+        this.#_outgoingSequenceNumber = 0;
+        this.#_currentSendOffset = 0;
+        this.#_nextFrame = 0;
+        this.#_startTime = Date.now();
+        this.#injectNextFrame();
+    }
+
+    #injectLocally(): boolean {
+        // C++  bool injectLocally()
+        //      The Web SDK plays the sound via Web Audio instead of mixing it in the audio client's output processing.
+        // WEBRTC TODO: Spatialize local-only injectors relative to the user client's audio position.
+        const audioData = this.#_sound.getAudioData() as Int16Array;
+        const numChannels = this.#_sound.isStereo() ? AudioConstants.STEREO : AudioConstants.MONO;
+        this.#_localAudioSource = this.#_audioOutput.createLocalAudioSource(audioData, numChannels);
+        if (!this.#_localAudioSource) {
+            console.warn("AudioInjector: Cannot inject locally because the audio output hasn't been set up.");
+            return false;
+        }
+
+        this.#_localAudioSource.gain.gain.value = this.#_options.volume;
+        this.#_localAudioSource.source.loop = this.#_options.loop;
+        this.#_localAudioSource.source.onended = () => {
+            this.#finish();
+        };
+        this.#_localAudioSource.source.start();
+        return true;
+    }
+
+    #injectNextFrame = (): void => {
+        // C++  int64_t injectNextFrame()
+        this.#_injectTimer = null;
+        if (this.#_isFinished) {
+            return;
+        }
+
+        const audioData = this.#_sound.getAudioData() as Int16Array;
+        const isStereo = this.#_sound.isStereo();
+        const frameSamples = isStereo
+            ? AudioConstants.NETWORK_FRAME_SAMPLES_STEREO
+            : AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL;
+
+        // Copy the next frame of samples, looping back to the start of the sound or padding with silence at the end.
+        const audioBuffer = new Int16Array(frameSamples);
+        let frameOffset = 0;
+        while (frameOffset < frameSamples && this.#_currentSendOffset < audioData.length) {
+            const numSamples = Math.min(frameSamples - frameOffset, audioData.length - this.#_currentSendOffset);
+            audioBuffer.set(audioData.subarray(this.#_currentSendOffset, this.#_currentSendOffset + numSamples), frameOffset);
+            frameOffset += numSamples;
+            this.#_currentSendOffset += numSamples;
+            if (this.#_currentSendOffset >= audioData.length && this.#_options.loop) {
+                this.#_currentSendOffset = 0;
+            }
+        }
+
+        const audioMixer = this.#_nodeList.soloNodeOfType(NodeType.AudioMixer);
+        if (audioMixer && audioMixer.getActiveSocket()) {
+            const packet = PacketScribe.InjectAudio.write({
+                sequenceNumber: this.#_outgoingSequenceNumber,
+                streamIdentifier: this.#_streamID,
+                isStereo,
+                // C++  bool AudioClient::shouldLoopbackInjectors()
+                loopback: this.#_audioClient.getServerEcho(),
+                position: this.#_options.position,
+                orientation: this.#_options.orientation,
+                volume: this.#_options.volume,
+                ignorePenumbra: false,
+                audioBuffer
+            });
+            this.#_nodeList.sendUnreliablePacket(packet, audioMixer.getActiveSocket() as SockAddr,
+                audioMixer.getAuthenticateHash());
+            this.#_hasSentAudio = true;
+        }
+        this.#_outgoingSequenceNumber = (this.#_outgoingSequenceNumber + 1) % AudioInjector.#UINT16_RANGE;
+
+        if (this.#_currentSendOffset >= audioData.length) {
+            // Reached the end of the sound and not looping.
+            this.#finish();
+            return;
+        }
+
+        // Schedule the next frame relative to the start time so that timer inaccuracies don't accumulate, skipping ahead if
+        // fallen too far behind.
+        this.#_nextFrame += 1;
+        const currentFrameBasedOnElapsedTime = Math.floor((Date.now() - this.#_startTime) / AudioConstants.NETWORK_FRAME_MSECS);
+        if (currentFrameBasedOnElapsedTime - this.#_nextFrame > AudioInjector.#MAX_ALLOWED_FRAMES_TO_FALL_BEHIND) {
+            this.#_nextFrame = currentFrameBasedOnElapsedTime;
+        }
+        const playNextFrameAt = this.#_startTime + this.#_nextFrame * AudioConstants.NETWORK_FRAME_MSECS;
+        this.#_injectTimer = setTimeout(this.#injectNextFrame, Math.max(playNextFrameAt - Date.now(), 0));
+    };
+
+    #sendStopInjectorPacket(): void {
+        // C++  void sendStopInjectorPacket()
+        const audioMixer = this.#_nodeList.soloNodeOfType(NodeType.AudioMixer);
+        if (audioMixer && audioMixer.getActiveSocket()) {
+            const packet = PacketScribe.StopInjector.write({
+                streamIdentifier: this.#_streamID
+            });
+            this.#_nodeList.sendUnreliablePacket(packet, audioMixer.getActiveSocket() as SockAddr,
+                audioMixer.getAuthenticateHash());
+        }
+    }
+
+    #finish(): void {
+        // C++  void finish()
+        if (this.#_isFinished) {
+            return;
+        }
+        this.#_isFinished = true;
+
+        if (this.#_injectTimer !== null) {
+            clearTimeout(this.#_injectTimer);
+            this.#_injectTimer = null;
+        }
+
+        if (this.#_localAudioSource) {
+            this.#_localAudioSource.source.onended = null;
+            this.#_localAudioSource.source.stop();
+            this.#_localAudioSource.gain.disconnect();
+            this.#_localAudioSource = null;
+        }
+
+        this.#_finished.emit();
+    }
+
+}
+
+export default AudioInjector;
+export type { AudioInjectorOptions };
@@ -15,6 +15,18 @@ import assert from "../shared/assert";
 import SignalEmitter, { Signal } from "../shared/SignalEmitter";
 
 
+type AudioInputProcessing = {
+    noiseGate: boolean,
+    automaticGainControl: boolean,
+    noiseSuppression: boolean
+};
+
+type AudioInputFrame = {
+    audio: ArrayBuffer,
+    isGateOpen: boolean
+};
+
+
 /*@devdoc
  *  The <code>AudioInput</code> provides PCM audio data for the audio mixer generated from an input Web Audio MediaStream. The
  *  data are provided as protocol-ready network frames comprising 240 audio sample frames, ready to be encoded and sent to the
@@ -25,6 +37,13 @@ import SignalEmitter, { Signal } from "../shared/SignalEmitter";
  *      <em>Write-only.</em>
  *      <p>This must be set to a non-null value only when the audio input isn't running (hasn't been started or has been
  *      stopped). Setting to <code>null</code> stops the audio input if it is running.</p>
+ *  @property {number} channelCount=1 - The number of audio channels to capture: <code>1</code> for mono or <code>2</code> for
+ *      stereo. Stereo network frames are interleaved.
+ *      <em>Write-only.</em>
+ *      <p>This must be set only when the audio input isn't running (hasn't been started or has been stopped).</p>
+ *  @property {AudioInput.AudioInputProcessing} processing - The processing to apply to the audio input.
+ *      <em>Write-only.</em>
+ *      <p>This may be set while the audio input is running.</p>
  *  @property {string} audioWorkletRelativePath="" - The relative path to the SDK's audio worklet JavaScript files,
  *      <code>vircadia-audio-input.js</code> and <code>vircadia-audio-output.js</code>.
  *      <p>The URLs used to load these files are reported in the log. Depending on where these files are deployed, their URLs
@@ -35,7 +54,30 @@ class AudioInput {
     // C++  QAudioInput, QIODevice
     //      Adapted for the particular case of providing data for the Vircadia protocol.
 
+    /*@sdkdoc
+     *  The processing applied to the user client's audio input before it is sent to the audio mixer. This processing is
+     *  performed by the SDK and is independent of any processing applied by the browser per the audio input stream's
+     *  constraints.
+     *  @typedef {object} AudioInput.AudioInputProcessing
+     *  @property {boolean} noiseGate - <code>true</code> to gate the audio input so that only speech is sent to the audio
+     *      mixer, <code>false</code> to send all audio input. The gate adapts to the background noise level. While the gate is
+     *      closed, silent audio frames are sent instead of audio.
+     *  @property {boolean} automaticGainControl - <code>true</code> to automatically adjust the level of speech in the audio
+     *      input, <code>false</code> to leave the level unchanged.
+     *  @property {boolean} noiseSuppression - <code>true</code> to reduce steady background noise in the audio input,
+     *      <code>false</code> to leave the background noise unchanged.
+     */
+
+    /*@devdoc
+     *  A network frame of audio input data posted by the {@link AudioInputProcessor}.
+     *  @typedef {object} AudioInput.AudioInputFrame
+     *  @property {ArrayBuffer} audio - The PCM audio data: 240 audio sample frames of int16 values, interleaved if stereo.
+     *  @property {boolean} isGateOpen - <code>true</code> if the noise gate is open or not enabled, <code>false</code> if the
+     *      noise gate is closed.
+     */
+
     #_audioInput: MediaStream | null = null;
+    #_channelCount = 1;
 
     #_audioContext: AudioContext | null = null;
     #_audioStreamSource: MediaStreamAudioSourceNode | null = null;
@@ -45,7 +87,13 @@ class AudioInput {
     #_isStarted = false;
     #_isSuspended = false;
     #_errorString = "";
-    #_frameBuffer: Array<Int16Array> = [];
+    #_frameBuffer: Array<AudioInputFrame> = [];
+    #_isGateOpen = true;
+    #_processing: AudioInputProcessing = {
+        noiseGate: false,
+        automaticGainControl: false,
+        noiseSuppression: false
+    };
 
     #_readyRead = new SignalEmitter();
 
@@ -66,6 +114,22 @@ class AudioInput {
         this.#_audioInput = audioInput;
     }
 
+    set channelCount(channelCount: number) {
+        // C++  N/A
+        if (this.#_isStarted) {
+            console.error("Cannot set the audio input channel count while it is running!");
+            return;
+        }
+
+        this.#_channelCount = Math.max(1, Math.min(channelCount, AudioConstants.STEREO));
+    }
+
+    set processing(processing: AudioInputProcessing) {
+        // C++  N/A
+        this.#_processing = { ...processing };
+        this.#_audioInputProcessorPort?.postMessage(this.#_processing);
+    }
+
     set audioWorkletRelativePath(relativePath: string) {
         this.#_audioWorkletRelativePath = relativePath;
     }
@@ -198,12 +262,12 @@ class AudioInput {
     /*@devdoc
      *  Gets the next network frame of audio input data.
      *  @function AudioInput.readFrame
-     *  @returns {Int16Array|null} The next network frame (240 audio sample frames) of PCM data, or <code>null</code> if there
-     *      was an error getting the next frame.
+     *  @returns {Int16Array|null} The next network frame (240 audio sample frames) of PCM data, interleaved if stereo, or
+     *      <code>null</code> if there was an error getting the next frame.
      */
     readFrame(): Int16Array | null {
         // C++  QIODevice::readAll()
-        let frame: Int16Array | undefined = undefined;
+        let frame: AudioInputFrame | undefined = undefined;
         if (this.#_frameBuffer.length > 0) {
             frame = this.#_frameBuffer.shift();
         }
@@ -212,7 +276,19 @@ class AudioInput {
             console.error(this.#_errorString);
             return null;
         }
-        return frame;
+        this.#_isGateOpen = frame.isGateOpen;
+        return new Int16Array(frame.audio);
+    }
+
+    /*@devdoc
+     *  Gets whether the noise gate was open for the last network frame of audio input data read. The gate is always open if
+     *  the <code>noiseGate</code> processing option isn't enabled.
+     *  @function AudioInput.isGateOpen
+     *  @returns {boolean} <code>true</code> if the noise gate was open, <code>false</code> if it was closed.
+     */
+    isGateOpen(): boolean {
+        // C++  N/A
+        return this.#_isGateOpen;
     }
 
     /*@devdoc
@@ -241,14 +317,14 @@ class AudioInput {
      *  Receives the next network frame of data from the audio input from the {@link AudioInputProcessor} used, triggering a
      *  {@link AudioInput.readyRead} signal.
      *  @function AudioInput.processAudioInputString
-     *  @param {MessageEvent<ArrayBuffer>} The PCM audio data.
+     *  @param {MessageEvent<object>} The PCM audio data, <code>audio</code>, and whether the noise gate is open,
+     *      <code>isGateOpen</code>.
      *  @returns {Slot}
      */
-    processAudioInputMessage = (message: MessageEvent<ArrayBuffer>): void => {
+    processAudioInputMessage = (message: MessageEvent<AudioInputFrame>): void => {
         // C++  N/A
 
-        const frame = new Int16Array(message.data);
-        this.#_frameBuffer.push(frame);
+        this.#_frameBuffer.push(message.data);
 
         // WEBRTC TODO: Could perhaps throttle the #_readyRead.emit()s on the understanding that multiple packets will be
         // processed by the method connected to the signal.
@@ -283,11 +359,8 @@ class AudioInput {
 
         this.#_audioStreamSource.channelInterpretation = "discrete";
 
-        // TODO: The SDK should just use the number of channels that the input device has, up to a maximum of 2 (stereo).
-        // due to lack reliable ways to retrieve channel count across browsers, we are hard coding mono input for now.
-        const channelCount = 1;
-        assert(channelCount > 0);
-        // The channel count has already been checked in AudioClient.#switchInputToAudioDevice().
+        // The channel count has already been checked against the input device in AudioClient.#switchInputToAudioDevice().
+        const channelCount = this.#_channelCount;
 
         // Audio worklet.
         if (!this.#_audioContext.audioWorklet) {
@@ -300,7 +373,10 @@ class AudioInput {
             numberOfInputs: 1,
             numberOfOutputs: 0,
             channelCount,
-            channelCountMode: "explicit"
+            channelCountMode: "explicit",
+            processorOptions: {
+                processing: this.#_processing
+            }
         });
         this.#_audioInputProcessorPort = this.#_audioInputProcessor.port;
         this.#_audioInputProcessorPort.onmessage = this.processAudioInputMessage;
@@ -314,3 +390,4 @@ class AudioInput {
 }
 
 export default AudioInput;
+export type { AudioInputProcessing, AudioInputFrame };
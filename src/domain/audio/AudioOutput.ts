@@ -14,9 +14,17 @@ import AudioConstants from "../audio/AudioConstants";
 import assert from "../shared/assert";
 
 
+type LocalAudioSource = {
+    source: AudioBufferSourceNode,
+    gain: GainNode
+};
+
+
 /*@devdoc
  *  The <code>AudioOutput</code> class provides an output Web Audio MediaStream generated from raw audio data received from the
  *  audio mixer.
+ *  <p>An optional reverb stage applies the reverb of the audio zone that the user is in: a Web Audio convolver with a generated
+ *  impulse response is mixed in parallel with the dry audio.</p>
  *  <p>C++: <code>N/A</code></p>
  *
  *  @class AudioOutput
@@ -34,20 +42,35 @@ import assert from "../shared/assert";
  *      may need to be adjusted. If used, must start with a <code>"."</code> and end with a <code>"/"</code>.</p>
  *      <p><em>Write-only.</em></p>
  *  @property {number} bufferSize - The number of blocks currently being buffered for output by the audio worklet.
+ *      <em>Read-only.</em>
+ *  @property {number} starveCount - The number of times that the audio worklet's buffer has run out of blocks while playing.
+ *      <em>Read-only.</em>
  */
 class AudioOutput {
     //  C++ N/A - This is a Web SDK-specific class.
 
     static readonly contextItemType = "AudioOutput";
 
+    /*@devdoc
+     *  A Web Audio source that plays directly in the audio output.
+     *  @typedef {object} AudioOutput.LocalAudioSource
+     *  @property {AudioBufferSourceNode} source - The audio source. It needs to be started in order to play.
+     *  @property {GainNode} gain - The gain node that the source plays through.
+     */
+
+    static readonly #MAX_SAMPLE_VALUE = 32768;
+
 
     #_audioContext: AudioContext | null = null;
     #_oscillatorNode: OscillatorNode | null = null;
     #_audioWorkletNode: AudioWorkletNode | null = null;
     #_audioWorkletPort: MessagePort | null = null;
     #_streamDestination: MediaStreamAudioDestinationNode | null = null;
+    #_convolverNode: ConvolverNode | null = null;
+    #_wetGainNode: GainNode | null = null;
 
     #_isPlaying = false;
+    #_outputDataListener: ((pcmData: Int16Array) => void) | null = null;
 
     // FIXME: The AudioWorkletProcessor data blocks size may change and even be variable in the future.
     // https://developer.mozilla.org/en-US/docs/Web/API/AudioWorkletProcessor/process
@@ -56,10 +79,23 @@ class AudioOutput {
     #_outputArrayLength = this.#_AUDIO_WORKLET_BLOCK_SAMPLES;
     #_outputOffset = 0;  // The next write position.
 
-    #_outputBufferSize = 0;  // Bytes.
+    #_outputBufferSize = 0;  // Blocks.
+    #_starveCount = 0;
+    #_targetBufferSize: number | null = null;  // Blocks.
 
     #_audioWorkletRelativePath = "";
 
+    #_hasReverb = false;
+    #_reverbTime = 0;  // Seconds.
+    #_wetLevel = 0;  // dB.
+    #_impulseResponseTime = 0;  // The reverb time of the convolver's current impulse response.
+
+    // The impulse response is limited in length in order to limit memory and CPU usage.
+    readonly #_MIN_REVERB_TIME = 0.1;  // Seconds.
+    readonly #_MAX_REVERB_TIME = 10;  // Seconds.
+    // 60dB decay over the reverb time.
+    readonly #_REVERB_DECAY = Math.log(1000);  // eslint-disable-line @typescript-eslint/no-magic-numbers
+
 
     get audioOutput(): MediaStream {
         // C++  N/A
@@ -80,6 +116,83 @@ class AudioOutput {
         return this.#_outputBufferSize;
     }
 
+    get starveCount(): number {
+        // C++  N/A
+        return this.#_starveCount;
+    }
+
+
+    /*@devdoc
+     *  Sets the target number of blocks for the audio worklet to buffer. The audio worklet starts playing when it has this
+     *  number of blocks and drops blocks if it has too many more than this number.
+     *  @param {number} numBlocks - The target number of blocks to buffer.
+     */
+    setTargetBufferSize(numBlocks: number): void {
+        // C++  N/A
+        if (numBlocks === this.#_targetBufferSize) {
+            return;
+        }
+        this.#_targetBufferSize = numBlocks;
+        if (this.#_audioWorkletPort) {
+            this.#_audioWorkletPort.postMessage(numBlocks);
+        }
+    }
+
+
+    /*@devdoc
+     *  Sets the reverb to apply to the audio output.
+     *  @param {number} reverbTime - The reverb time, in seconds.
+     *  @param {number} wetLevel - The reverb wet level, in dB.
+     */
+    setReverb(reverbTime: number, wetLevel: number): void {
+        // C++  N/A
+        this.#_hasReverb = true;
+        this.#_reverbTime = reverbTime;
+        this.#_wetLevel = wetLevel;
+        this.#updateReverb();
+    }
+
+    /*@devdoc
+     *  Removes the reverb from the audio output.
+     */
+    clearReverb(): void {
+        // C++  N/A
+        this.#_hasReverb = false;
+        this.#updateReverb();
+    }
+
+
+    /*@devdoc
+     *  Creates a Web Audio source that plays audio data directly in the audio output, e.g., for a local-only audio injector.
+     *  The source is connected to the audio output but isn't started.
+     *  @param {Int16Array} audioData - The 16-bit PCM audio data at the Vircadia audio sample rate, mono or interleaved stereo.
+     *  @param {number} numChannels - The number of audio channels.
+     *  @returns {AudioOutput.LocalAudioSource|null} The audio source and the gain node that it plays through. <code>null</code>
+     *      if the audio output hasn't been set up.
+     */
+    createLocalAudioSource(audioData: Int16Array, numChannels: number): LocalAudioSource | null {
+        // C++  N/A
+        if (!this.#_audioContext || !this.#_streamDestination) {
+            return null;
+        }
+
+        const length = Math.floor(audioData.length / numChannels);
+        const audioBuffer = this.#_audioContext.createBuffer(numChannels, length, AudioConstants.SAMPLE_RATE);
+        for (let channel = 0; channel < numChannels; channel++) {
+            const channelData = audioBuffer.getChannelData(channel);
+            for (let i = 0; i < length; i++) {
+                channelData[i] = (audioData[i * numChannels + channel] as number) / AudioOutput.#MAX_SAMPLE_VALUE;
+            }
+        }
+
+        const source = this.#_audioContext.createBufferSource();
+        source.buffer = audioBuffer;
+        const gain = this.#_audioContext.createGain();
+        source.connect(gain);
+        gain.connect(this.#_streamDestination);
+        return { source, gain };
+    }
+
 
     /*@devdoc
      *  Starts or resumes playing audio received from the audio mixer, if it isn't already playing.
@@ -118,6 +231,22 @@ class AudioOutput {
         this.#_isPlaying = false;
     }
 
+    /*@devdoc
+     *  Sets a function to be called with the PCM audio data written to the audio output, e.g., for recording the audio output.
+     *  The function is called regardless of whether the audio output is playing.
+     *  @param {AudioOutput~outputDataListener|null} listener - The function to call. <code>null</code> to stop calling it.
+     */
+    setOutputDataListener(listener: ((pcmData: Int16Array) => void) | null): void {
+        // C++  N/A
+        this.#_outputDataListener = listener;
+    }
+
+    /*@devdoc
+     *  Called with the PCM audio data written to the audio output.
+     *  @callback AudioOutput~outputDataListener
+     *  @param {Int16Array} pcmData - The PCM audio data, interleaved stereo.
+     */
+
     /*@devdoc
      *  Writes PCM audio data to the audio output stream via an {@link AudioOutputProcessor} Web Audio worklet.
      *  The number of frames received each packet from the audio mixer
@@ -128,6 +257,10 @@ class AudioOutput {
      */
     writeData(pcmData: Int16Array): void {
         // C++  N/A
+        if (this.#_outputDataListener) {
+            this.#_outputDataListener(pcmData);
+        }
+
         if (!this.#_audioWorkletPort || !this.#_isPlaying) {
             return;
         }
@@ -159,13 +292,14 @@ class AudioOutput {
     /*@devdoc
      *  Handles the information received back from the {@link AudioOutputProcessor}.
      *  @function AudioOutput.processAudioOutputMessage
-     *  @param {MessageEvent<number>} message - The number of blocks of data in the audio worklet's output buffer.
+     *  @param {MessageEvent<AudioOutputProcessor.Status>} message - The status of the audio worklet's output buffer.
      *  @returns {Slot}
      */
-    processAudioOutputMessage = (message: MessageEvent<number>): void => {
+    processAudioOutputMessage = (message: MessageEvent<{ bufferLength: number, starveCount: number }>): void => {
         // C++  N/A
 
-        this.#_outputBufferSize = message.data;
+        this.#_outputBufferSize = message.data.bufferLength;
+        this.#_starveCount = message.data.starveCount;
     };
 
 
@@ -202,13 +336,75 @@ class AudioOutput {
         });
         this.#_audioWorkletPort = this.#_audioWorkletNode.port;
         this.#_audioWorkletPort.onmessage = this.processAudioOutputMessage;
+        if (this.#_targetBufferSize !== null) {
+            this.#_audioWorkletPort.postMessage(this.#_targetBufferSize);
+        }
 
         // Wire up the nodes.
         this.#_oscillatorNode.connect(this.#_audioWorkletNode);
         this.#_audioWorkletNode.connect(this.#_streamDestination);
+        this.#updateReverb();
         this.#_oscillatorNode.start();
     }
 
+    // Adds, updates, or removes the reverb stage per the current reverb settings.
+    #updateReverb(): void {
+        // C++  N/A
+        if (!this.#_audioContext || !this.#_audioWorkletNode || !this.#_streamDestination) {
+            // The reverb is applied when the AudioContext is set up.
+            return;
+        }
+
+        if (!this.#_hasReverb) {
+            if (this.#_convolverNode && this.#_wetGainNode) {
+                this.#_audioWorkletNode.disconnect(this.#_convolverNode);
+                this.#_convolverNode.disconnect();
+                this.#_wetGainNode.disconnect();
+                this.#_convolverNode = null;
+                this.#_wetGainNode = null;
+                this.#_impulseResponseTime = 0;
+            }
+            return;
+        }
+
+        if (!this.#_convolverNode || !this.#_wetGainNode) {
+            this.#_convolverNode = this.#_audioContext.createConvolver();
+            this.#_wetGainNode = this.#_audioContext.createGain();
+            this.#_audioWorkletNode.connect(this.#_convolverNode);
+            this.#_convolverNode.connect(this.#_wetGainNode);
+            this.#_wetGainNode.connect(this.#_streamDestination);
+        }
+
+        const reverbTime = Math.min(Math.max(this.#_reverbTime, this.#_MIN_REVERB_TIME), this.#_MAX_REVERB_TIME);
+        if (reverbTime !== this.#_impulseResponseTime) {
+            this.#_convolverNode.buffer = this.#createImpulseResponse(reverbTime);
+            this.#_impulseResponseTime = reverbTime;
+        }
+
+        // dB to linear gain.
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        this.#_wetGainNode.gain.value = 10 ** (this.#_wetLevel / 20);
+    }
+
+    // Generates a stereo impulse response of exponentially decaying noise.
+    #createImpulseResponse(reverbTime: number): AudioBuffer {
+        // C++  N/A
+        assert(this.#_audioContext !== null);
+        const sampleRate = this.#_audioContext.sampleRate;
+        const length = Math.ceil(reverbTime * sampleRate);
+        const impulseResponse = this.#_audioContext.createBuffer(AudioConstants.STEREO, length, sampleRate);
+        const decayPerSample = this.#_REVERB_DECAY / length;
+        for (let channel = 0; channel < AudioConstants.STEREO; channel++) {
+            // Independent noise in each channel decorrelates the channels, giving a wide stereo image.
+            const channelData = impulseResponse.getChannelData(channel);
+            for (let i = 0; i < length; i++) {
+                channelData[i] = (2 * Math.random() - 1) * Math.exp(-decayPerSample * i);
+            }
+        }
+        return impulseResponse;
+    }
+
 }
 
 export default AudioOutput;
+export type { LocalAudioSource };
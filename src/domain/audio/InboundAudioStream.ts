@@ -17,12 +17,27 @@ import PacketScribe from "../networking/packets/PacketScribe";
 import { SilentAudioFrameDetails } from "../networking/packets/SilentAudioFrame";
 import PacketType, { PacketTypeValue } from "../networking/udt/PacketHeaders";
 import UDT from "../networking/udt/UDT";
+import SequenceNumberStats from "../networking/SequenceNumberStats";
+import { StreamStatsDetails } from "../networking/packets/AudioStreamStats";
+import CodecPlugin, { Decoder } from "../plugins/CodecPlugin";
 import assert from "../shared/assert";
 import ContextManager from "../shared/ContextManager";
+import MovingMinMaxAvg from "../shared/MovingMinMaxAvg";
+import Uuid from "../shared/Uuid";
+
+
+type AudioMessage = {
+    messageType: PacketTypeValue,
+    info: MixedAudioDetails | SilentAudioFrameDetails
+};
 
 
 /*@devdoc
  *  The <code>InboundAudioStream</code> class manages an inbound audio stream received from the audio mixer.
+ *  <p>Messages are reordered if they arrive out of sequence within a small window. The audio is played via the
+ *  {@link AudioOutput}, whose audio worklet's buffer is the jitter buffer. If dynamic jitter buffering is used, the target
+ *  size of this buffer is adjusted according to the inter-arrival time gaps of the messages received: it is increased if the
+ *  buffer starves too often and is reduced when the gaps reduce.</p>
  *  <p>C++: <code>InboundAudioStream : public NodeData : QObject</code></p>
  *  @class InboundAudioStream
  *  @param {number} contextID - The {@link ContextManager} context ID.
@@ -35,28 +50,72 @@ import ContextManager from "../shared/ContextManager";
 class InboundAudioStream {
     // C++  InboundAudioStream : public NodeData : QObject
 
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    static readonly #UINT16_RANGE = 65536;
+    static readonly #MAX_REASONABLE_SEQUENCE_GAP = 1000;
+    // The number of messages to hold while waiting for a missing message to arrive late.
+    static readonly #MAX_REORDER_MESSAGES = 2;
+
+    // C++  WINDOW_STARVE_THRESHOLD, WINDOW_SECONDS_FOR_DESIRED_CALC_ON_TOO_MANY_STARVES, WINDOW_SECONDS_FOR_DESIRED_REDUCTION
+    static readonly #WINDOW_STARVE_THRESHOLD = 3;
+    static readonly #WINDOW_SECONDS_FOR_DESIRED_CALC_ON_TOO_MANY_STARVES = 50;
+    static readonly #WINDOW_SECONDS_FOR_DESIRED_REDUCTION = 10;
+    static readonly #DESIRED_JITTER_BUFFER_FRAMES_PADDING = 1;
+    // The Web SDK's minimum is larger than the C++'s because the audio is passed between threads in smaller blocks.
+    static readonly #MIN_DESIRED_JITTER_BUFFER_FRAMES = 2;
+    static readonly #MSECS_PER_SECOND = 1000;
+    static readonly #USECS_PER_MSEC = 1000;
+
+    // C++  STATS_FOR_STATS_PACKET_WINDOW_SECONDS, FRAMES_AVAILABLE_STAT_WINDOW_USECS
+    static readonly #STATS_FOR_STATS_PACKET_WINDOW_SECONDS = 30;
+    static readonly #FRAMES_AVAILABLE_STAT_WINDOW_SECONDS = 2;
+
+    // The downstream audio stream isn't a positional audio stream so its type is unset.
+    static readonly #STREAM_TYPE_UNSET = 255;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
     // Context.
     #_audioOutput;
 
     #_numSamplesInMessage: number;
-    #_lastSequenceNumber: number;
-    #_previousMessage: {
-        messageType: PacketTypeValue,
-        info: MixedAudioDetails | SilentAudioFrameDetails,
-        isMessageInSequence: boolean,
-        isMessageEarly: boolean,
-        numMessagesMissing: number
-    } | null;
+    #_nextSequenceNumber = -1;
+    #_pendingMessages: Map<number, AudioMessage> = new Map();
+    #_previousMessage: AudioMessage | null = null;
 
+    #_dynamicJitterBufferEnabled: boolean;
     #_staticJitterBufferSize: number;  // Number of audio blocks.
+    #_maxJitterBufferFrames: number;
+    #_desiredJitterBufferFrames = InboundAudioStream.#MIN_DESIRED_JITTER_BUFFER_FRAMES;
     #_jitterBufferSamplesPerBlock;
 
+    // Inter-arrival time gap statistics, in usec. Intervals are completed by perSecondCallbackForUpdatingStats().
+    #_lastPacketReceivedTime = 0;
+    // eslint-disable-next-line max-len
+    #_timeGapStatsForDesiredCalcOnTooManyStarves = new MovingMinMaxAvg(InboundAudioStream.#WINDOW_SECONDS_FOR_DESIRED_CALC_ON_TOO_MANY_STARVES);
+    #_timeGapStatsForDesiredReduction = new MovingMinMaxAvg(InboundAudioStream.#WINDOW_SECONDS_FOR_DESIRED_REDUCTION);
+    #_interframeTimeGapStatsForStatsPacket = new MovingMinMaxAvg(InboundAudioStream.#STATS_FOR_STATS_PACKET_WINDOW_SECONDS);
+    #_lastStarveCount = 0;
+    #_starveHistory: number[] = [];
+
+    // Statistics reported to the audio mixer.
+    #_incomingSequenceNumberStats = new SequenceNumberStats(InboundAudioStream.#STATS_FOR_STATS_PACKET_WINDOW_SECONDS);
+    #_framesAvailableStat = new MovingMinMaxAvg(InboundAudioStream.#FRAMES_AVAILABLE_STAT_WINDOW_SECONDS);
+    #_unplayedMs = new MovingMinMaxAvg(InboundAudioStream.#STATS_FOR_STATS_PACKET_WINDOW_SECONDS);
+    #_silentFramesDropped = 0;
+
+    // Reverb settings of the audio zone that the user is in.
+    #_hasReverb = false;
+    #_reverbTime = 0;  // Seconds.
+    #_wetLevel = 0;  // dB.
+
+    #_codec: CodecPlugin | null = null;
     #_selectedCodecName = "";
-    #_decoder = null;
+    #_decoder: Decoder | null = null;
+    // Decoder output still to arrive (null) and the silent samples to write after it, in playout order.
+    #_pendingDecoderOutput: (number | null)[] = [];
 
 
-    /* eslint-disable */
-    // @ts-ignore
     constructor(contextID: number, numChannels: number, numFrames: number, numBlocks: number, numStaticJitterBlocks: number) {
         // C++  InboundAudioStream(int numChannels, int numFrames, int numBlocks, int numStaticJitterBlocks)
 
@@ -64,20 +123,31 @@ class InboundAudioStream {
         this.#_audioOutput = ContextManager.get(contextID, AudioOutput) as AudioOutput;
 
         this.#_numSamplesInMessage = numChannels * numFrames;
-        this.#_lastSequenceNumber = -1;
-        this.#_previousMessage = null;
-
-        this.#_staticJitterBufferSize = numStaticJitterBlocks === -1 ? Math.floor(numBlocks / 2) : numStaticJitterBlocks;
 
         assert(numChannels === 2);
         this.#_jitterBufferSamplesPerBlock = numChannels * AudioConstants.AUDIO_WORKLET_BLOCK_SIZE;
 
-        // WEBRTC TODO: Address further C++ code.
-
+        this.#_dynamicJitterBufferEnabled = numStaticJitterBlocks === -1;
+        this.#_maxJitterBufferFrames = Math.floor(numBlocks * AudioConstants.AUDIO_WORKLET_BLOCK_SIZE / numFrames);
+        this.#_staticJitterBufferSize = this.#_dynamicJitterBufferEnabled
+            ? this.#framesToBlocks(this.#_desiredJitterBufferFrames + InboundAudioStream.#DESIRED_JITTER_BUFFER_FRAMES_PADDING)
+            : numStaticJitterBlocks;
+        this.#_audioOutput.setTargetBufferSize(this.#_staticJitterBufferSize);
     }
-    /* eslint-enable */
 
 
+    /*@devdoc
+     *  Gets the number of network frames that the jitter buffer is currently targeting, excluding padding.
+     *  @returns {number} The desired number of network frames in the jitter buffer.
+     */
+    getDesiredJitterBufferFrames(): number {
+        // C++  int getDesiredJitterBufferFrames()
+        return this.#_dynamicJitterBufferEnabled
+            ? this.#_desiredJitterBufferFrames
+            : Math.ceil(this.#_staticJitterBufferSize * AudioConstants.AUDIO_WORKLET_BLOCK_SIZE
+                / (this.#_numSamplesInMessage / AudioConstants.STEREO));
+    }
+
     /*@devdoc
      *  Reads and processes <code>MixedAudio</code> and <code>SilentAudioFrame</code> {@link PacketType(1)|messages} received
      *  from the audio mixer.
@@ -97,47 +167,244 @@ class InboundAudioStream {
 
         const messageLength = message.getMessage().byteLength;
 
+        // Update jitter buffer statistics and size.
+        this.#packetReceivedUpdateTimingStats();
+        this.#checkForStarves();
+        this.#updateFramesAvailableStats();
 
-        // The C++ SequenceNumberStats code is simplified here.
+        this.#_incomingSequenceNumberStats.sequenceNumberReceived(info.sequenceNumber);
 
-        const UINT16_RANGE = 65536;
-        const isMessageInSequence = info.sequenceNumber === (this.#_lastSequenceNumber + 1) % UINT16_RANGE;
+        // The C++'s handling of the SequenceNumberStats arrival info is replaced by reordering of messages here.
 
-        // Message is early (i.e., messages are missing) if it's not in sequence within a reasonable gap.
-        let isMessageEarly = false;
-        let numMessagesMissing = 0;
-        if (!isMessageInSequence) {
-            numMessagesMissing = info.sequenceNumber - this.#_lastSequenceNumber;
-            if (numMessagesMissing < 0) {
-                numMessagesMissing += UINT16_RANGE;
-            }
-            numMessagesMissing -= 1;
-            const MAX_REASONABLE_SEQUENCE_GAP = 1000;
-            isMessageEarly = numMessagesMissing <= MAX_REASONABLE_SEQUENCE_GAP;
+        if (this.#_nextSequenceNumber === -1) {
+            this.#_nextSequenceNumber = info.sequenceNumber;
+        }
+
+        const sequenceOffset = (info.sequenceNumber - this.#_nextSequenceNumber + InboundAudioStream.#UINT16_RANGE)
+            % InboundAudioStream.#UINT16_RANGE;
+        if (sequenceOffset > InboundAudioStream.#UINT16_RANGE - InboundAudioStream.#MAX_REASONABLE_SEQUENCE_GAP) {
+            // Late message, i.e., a message that has already been played or been replaced with silence, or a duplicate.
+            // These aren't handled in the C++ either.
+            return messageLength;
         }
 
-        this.#_lastSequenceNumber = info.sequenceNumber;
+        if (sequenceOffset > InboundAudioStream.#MAX_REASONABLE_SEQUENCE_GAP) {
+            // Unreasonable gap, e.g., the audio mixer restarted the sequence. Resynchronize.
+            this.#releasePendingMessages(true);
+            this.#_nextSequenceNumber = info.sequenceNumber;
+        }
 
+        if (!this.#_pendingMessages.has(info.sequenceNumber)) {
+            this.#_pendingMessages.set(info.sequenceNumber, { messageType, info });
+        }
+        this.#releasePendingMessages(false);
 
-        // Ignore late messages.
-        if (!isMessageInSequence && !isMessageEarly) {
+        return messageLength;
+    }
 
-            // WEBRTC TODO: Address further C++ code. Handle late packets.
-            // These aren't handled in the C++ either.
-            // In practice they seem not to occur; more common is packets being dropped.
-            // Could perhaps buffer a small number of packets here and insert late packets.
+    /*@devdoc
+     *  Sets the codec to use for processing the audio data received from the audio mixer.
+     *  @param {CodecPlugin|null} codec - The codec plugin to decode the audio data with. <code>null</code> if the audio data
+     *      are PCM.
+     *  @param {string} codecName - The name of the codec to use, e.g., <code>"opus"</code>.
+     *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+     */
+    setupCodec(codec: CodecPlugin | null, codecName: string, numChannels: number): void {
+        // C++  void setupCodec(CodecPlugin* codec, const QString& codecName, int numChannels)
+        this.cleanupCodec();
+        this.#_codec = codec;
+        this.#_selectedCodecName = codecName;
+        if (this.#_codec) {
+            this.#_decoder = this.#_codec.createDecoder(AudioConstants.SAMPLE_RATE, numChannels, this.#writeDecodedAudio);
+        }
+    }
 
-            return messageLength;
+    /*@devdoc
+     *  Removes any current codec, if any, currently being used for processing the audio date received from the audio mixer.
+     */
+    cleanupCodec(): void {
+        // C++  void cleanupCodec()
+        if (this.#_codec && this.#_decoder) {
+            this.#_codec.releaseDecoder(this.#_decoder);
+        }
+        this.#_decoder = null;
+        this.#_codec = null;
+        this.#_selectedCodecName = "";
+        this.#_pendingDecoderOutput = [];
+    }
+
+    /*@devdoc
+     *  Resets audio output processing.
+     */
+    reset(): void {
+        // C++  void reset()
+
+        // WEBRTC TODO: Address further C++ code.
+
+        if (this.#_dynamicJitterBufferEnabled) {
+            this.#_desiredJitterBufferFrames = InboundAudioStream.#MIN_DESIRED_JITTER_BUFFER_FRAMES;
+            this.#updateTargetBufferSize();
+        }
+        this.resetStats();
+
+        // Web SDK specific.
+        this.#_nextSequenceNumber = -1;
+        this.#_pendingMessages.clear();
+        this.#_previousMessage = null;
+        this.#_pendingDecoderOutput = [];
+    }
+
+
+    /*@devdoc
+     *  Resets the statistics on the audio stream.
+     */
+    resetStats(): void {
+        // C++  void resetStats()
+        this.#_lastPacketReceivedTime = 0;
+        this.#_timeGapStatsForDesiredCalcOnTooManyStarves.reset();
+        this.#_timeGapStatsForDesiredReduction.reset();
+        this.#_interframeTimeGapStatsForStatsPacket.reset();
+        this.#_starveHistory = [];
+        this.#_lastStarveCount = this.#_audioOutput.starveCount;
+        this.#_incomingSequenceNumberStats.reset();
+        this.#_framesAvailableStat.reset();
+        this.#_unplayedMs.reset();
+        this.#_silentFramesDropped = 0;
+    }
+
+    /*@devdoc
+     *  Completes the current one-second interval of the statistics. Should be called once per second.
+     */
+    perSecondCallbackForUpdatingStats(): void {
+        // C++  void perSecondCallbackForUpdatingStats()
+        this.#_incomingSequenceNumberStats.pushStatsToHistory();
+        this.#_timeGapStatsForDesiredCalcOnTooManyStarves.currentIntervalComplete();
+        this.#_timeGapStatsForDesiredReduction.currentIntervalComplete();
+        this.#_interframeTimeGapStatsForStatsPacket.currentIntervalComplete();
+        this.#_framesAvailableStat.currentIntervalComplete();
+        this.#_unplayedMs.currentIntervalComplete();
+    }
+
+    /*@devdoc
+     *  Gets the statistics on the audio stream, for reporting to the audio mixer.
+     *  @returns {PacketScribe.StreamStatsDetails} The statistics on the audio stream.
+     */
+    getAudioStreamStats(): StreamStatsDetails {
+        // C++  AudioStreamStats getAudioStreamStats()
+        const interframeTimeGapStats = this.#_interframeTimeGapStatsForStatsPacket;
+        return {
+            streamType: InboundAudioStream.#STREAM_TYPE_UNSET,
+            streamIdentifier: new Uuid(),
+            timeGapMin: interframeTimeGapStats.getMin(),
+            timeGapMax: interframeTimeGapStats.getMax(),
+            timeGapAverage: interframeTimeGapStats.getAverage(),
+            timeGapWindowMin: interframeTimeGapStats.getWindowMin(),
+            timeGapWindowMax: interframeTimeGapStats.getWindowMax(),
+            timeGapWindowAverage: interframeTimeGapStats.getWindowAverage(),
+            framesAvailable: this.#framesAvailable(),
+            framesAvailableAverage: Math.round(this.#_framesAvailableStat.getWindowAverage()),
+            unplayedMs: Math.round(this.#_unplayedMs.getWindowMax()),
+            desiredJitterBufferFrames: this.getDesiredJitterBufferFrames(),
+            starveCount: this.#_audioOutput.starveCount,
+            // The consecutive not mixed count is only applicable to streams that the audio mixer mixes.
+            consecutiveNotMixedCount: 0,
+            // The AudioOutputProcessor drops excess audio to reduce latency rather than overflowing.
+            overflowCount: 0,
+            framesDropped: this.#_silentFramesDropped,
+            packetStreamStats: this.#_incomingSequenceNumberStats.getStats(),
+            packetStreamWindowStats: this.#_incomingSequenceNumberStats.getStatsForHistoryWindow()
+        };
+    }
+
+    /*@devdoc
+     *  Gets whether the audio zone that the user is in has reverb.
+     *  @returns {boolean} <code>true</code> if the audio zone has reverb, <code>false</code> if it doesn't.
+     */
+    hasReverb(): boolean {
+        // C++  bool hasReverb()
+        return this.#_hasReverb;
+    }
+
+    /*@devdoc
+     *  Gets the reverb time of the audio zone that the user is in.
+     *  @returns {number} The reverb time, in seconds.
+     */
+    getReverbTime(): number {
+        // C++  float getRevebTime()
+        return this.#_reverbTime;
+    }
+
+    /*@devdoc
+     *  Gets the reverb wet level of the audio zone that the user is in.
+     *  @returns {number} The reverb wet level, in dB.
+     */
+    getWetLevel(): number {
+        // C++  float getWetLevel()
+        return this.#_wetLevel;
+    }
+
+    /*@devdoc
+     *  Sets the reverb settings of the audio zone that the user is in.
+     *  @param {number} reverbTime - The reverb time, in seconds.
+     *  @param {number} wetLevel - The reverb wet level, in dB.
+     */
+    setReverb(reverbTime: number, wetLevel: number): void {
+        // C++  void setReverb(float reverbTime, float wetLevel)
+        this.#_hasReverb = true;
+        this.#_reverbTime = reverbTime;
+        this.#_wetLevel = wetLevel;
+    }
+
+    /*@devdoc
+     *  Clears the reverb setting, i.e., the audio zone that the user is in doesn't have reverb.
+     */
+    clearReverb(): void {
+        // C++  void clearReverb()
+        this.#_hasReverb = false;
+    }
+
+
+    #releasePendingMessages(releaseAll: boolean): void {
+        // Web SDK specific.
+        // Processes pending messages in sequence. If the next message in sequence is missing, waits for it until the maximum
+        // number of messages are pending, then treats it and any others before the next pending message as lost.
+        let numMessagesMissing = 0;
+        while (this.#_pendingMessages.size > 0) {
+            const audioMessage = this.#_pendingMessages.get(this.#_nextSequenceNumber);
+            if (audioMessage) {
+                this.#_pendingMessages.delete(this.#_nextSequenceNumber);
+                this.#processMessage(audioMessage, numMessagesMissing);
+                numMessagesMissing = 0;
+                this.#_nextSequenceNumber = (this.#_nextSequenceNumber + 1) % InboundAudioStream.#UINT16_RANGE;
+            } else if (releaseAll || this.#_pendingMessages.size > InboundAudioStream.#MAX_REORDER_MESSAGES) {
+                // Skip to the next pending message.
+                let minOffset = InboundAudioStream.#UINT16_RANGE;
+                for (const sequenceNumber of this.#_pendingMessages.keys()) {
+                    const offset = (sequenceNumber - this.#_nextSequenceNumber + InboundAudioStream.#UINT16_RANGE)
+                        % InboundAudioStream.#UINT16_RANGE;
+                    minOffset = Math.min(minOffset, offset);
+                }
+                numMessagesMissing += minOffset;
+                this.#_nextSequenceNumber = (this.#_nextSequenceNumber + minOffset) % InboundAudioStream.#UINT16_RANGE;
+            } else {
+                break;
+            }
         }
+    }
 
+    #processMessage(audioMessage: AudioMessage, numMessagesMissing: number): void {
+        // C++  int parseData(ReceivedMessage& message)
 
         // The C++ relies on the audio codec to ramp down the volume if a packet has been lost.
         // We instead buffer the message and process the previous one.
+        // Encoded audio can't be ramped; only PCM audio is. The AudioOutputProcessor fades audio if its buffer starves.
+        const isPCM = this.#_decoder === null;
 
-        // Ramp up the volume of this message if it's early or the first message.
+        // Ramp up the volume of this message if it follows missing messages or is the first message.
         const previousMessage = this.#_previousMessage;
-        if ((isMessageEarly || previousMessage === null) && messageType === PacketType.MixedAudio) {
-            const audioBuffer = (info as MixedAudioDetails).audioBuffer;
+        if ((numMessagesMissing > 0 || previousMessage === null) && audioMessage.messageType === PacketType.MixedAudio
+                && isPCM) {
+            const audioBuffer = (audioMessage.info as MixedAudioDetails).audioBuffer;
             for (let i = 0, length = audioBuffer.byteLength; i < length; i += 2) {
                 const scale = i / length;
                 audioBuffer.setInt16(i, audioBuffer.getInt16(i, UDT.LITTLE_ENDIAN) * scale, UDT.LITTLE_ENDIAN);
@@ -145,37 +412,24 @@ class InboundAudioStream {
         }
 
         // Buffer the current message and retrieve the previous.
-        this.#_previousMessage = {
-            messageType,
-            info,
-            isMessageInSequence,
-            isMessageEarly,
-            numMessagesMissing
-        };
+        this.#_previousMessage = audioMessage;
 
         // Nothing to output if no previous message.
         if (previousMessage === null) {
-            return messageLength;
+            return;
         }
 
-        // Ramp down the volume of previous message if the current message is early.
-        if (isMessageEarly && previousMessage.messageType === PacketType.MixedAudio) {
+        // Ramp down the volume of previous message if messages are missing.
+        if (numMessagesMissing > 0 && previousMessage.messageType === PacketType.MixedAudio && isPCM) {
             const audioBuffer = (previousMessage.info as MixedAudioDetails).audioBuffer;
             for (let i = 0, length = audioBuffer.byteLength; i < length; i += 2) {
                 const scale = 1 - i / length;
                 audioBuffer.setInt16(i, audioBuffer.getInt16(i, UDT.LITTLE_ENDIAN) * scale, UDT.LITTLE_ENDIAN);
             }
-
-        }
-
-
-        // Insert silent samples for any missing.
-        if (previousMessage.isMessageEarly) {
-            this.#writeDroppableSilentSamples(previousMessage.numMessagesMissing * this.#_numSamplesInMessage);
         }
 
-        // Process message.
-        info = previousMessage.info;
+        // Process previous message.
+        const info = previousMessage.info;
         if (previousMessage.messageType === PacketType.SilentAudioFrame) {
             // Possibly drop some of the samples in order to catch up to the desired jitter buffer size.
             this.#writeDroppableSilentSamples((info as SilentAudioFrameDetails).numSilentSamples);
@@ -195,55 +449,129 @@ class InboundAudioStream {
             }
         }
 
-        // Could buffer a small number of packets here and insert late packets, before passing them to the jitter buffer.
-        // WEBRTC TODO: Address further C++ code. Jitter buffer sizing.
+        // Insert audio for any missing messages, after the previous message.
+        if (numMessagesMissing > 0) {
+            this.#lostAudioData(numMessagesMissing);
+        }
+    }
 
-        return messageLength;
+    #lostAudioData(numMessages: number): void {
+        // C++  int lostAudioData(int numPackets)
+        //      The C++ has the decoder generate all the lost frames. The Web SDK has the decoder generate only the first, and
+        //      uses droppable silence for the rest so that a long loss doesn't inflate the jitter buffer.
+        let numSilentMessages = numMessages;
+        if (this.#_decoder) {
+            this.#_pendingDecoderOutput.push(null);
+            this.#_decoder.lostFrame();
+            numSilentMessages -= 1;
+        }
+        if (numSilentMessages > 0) {
+            this.#writeDroppableSilentSamples(numSilentMessages * this.#_numSamplesInMessage);
+        }
     }
 
-    /*@devdoc
-     *  Sets the codec to use for processing the audio data received from the audio mixer.
-     *  @param {string} codecName - The name of the codec to use, e.g., <code>"opus"</code>.
-     */
-    setupCodec(codecName: string): void {
-        // C++  void setupCodec(CodecPlugin* codec, const QString& codecName, int numChannels)
-        this.cleanupCodec();
-        this.#_selectedCodecName = codecName;
+    #packetReceivedUpdateTimingStats(): void {
+        // C++  void packetReceivedUpdateTimingStats()
+        const now = Date.now() * InboundAudioStream.#USECS_PER_MSEC;
+        if (this.#_lastPacketReceivedTime !== 0) {
+            const gap = now - this.#_lastPacketReceivedTime;
+            this.#_interframeTimeGapStatsForStatsPacket.update(gap);
+            this.#_timeGapStatsForDesiredCalcOnTooManyStarves.update(gap);
+            this.#_timeGapStatsForDesiredReduction.update(gap);
+
+            // Reduce the desired jitter buffer size if the recent gaps allow.
+            if (this.#_timeGapStatsForDesiredReduction.getNewStatsAvailableFlag()) {
+                if (this.#_dynamicJitterBufferEnabled && this.#_timeGapStatsForDesiredReduction.isWindowFilled()) {
+                    const calculatedJitterBufferFrames
+                        = this.#gapToFrames(this.#_timeGapStatsForDesiredReduction.getWindowMax());
+                    if (calculatedJitterBufferFrames < this.#_desiredJitterBufferFrames) {
+                        this.#setDesiredJitterBufferFrames(calculatedJitterBufferFrames);
+                    }
+                }
+                this.#_timeGapStatsForDesiredReduction.clearNewStatsAvailableFlag();
+            }
+        }
+        this.#_lastPacketReceivedTime = now;
+    }
 
-        // WEBRTC TODO: Address further C++ code.
+    #checkForStarves(): void {
+        // C++  void setToStarved()
+        const starveCount = this.#_audioOutput.starveCount;
+        if (starveCount === this.#_lastStarveCount) {
+            return;
+        }
+        this.#_lastStarveCount = starveCount;
 
-    }
+        if (!this.#_dynamicJitterBufferEnabled) {
+            return;
+        }
 
-    /*@devdoc
-     *  Removes any current codec, if any, currently being used for processing the audio date received from the audio mixer.
-     */
-    cleanupCodec(): void {
-        // C++  void cleanupCodec()
+        const now = Date.now();
+        this.#_starveHistory.push(now);
+        const windowStart = now
+            - InboundAudioStream.#WINDOW_SECONDS_FOR_DESIRED_CALC_ON_TOO_MANY_STARVES * InboundAudioStream.#MSECS_PER_SECOND;
+        while (this.#_starveHistory.length > 0 && (this.#_starveHistory[0] as number) < windowStart) {
+            this.#_starveHistory.shift();
+        }
 
-        // WEBRTC TODO: Address further C++ code.
+        // If there have been too many starves, increase the desired jitter buffer size. The C++ bases the increase solely on
+        // the gaps; the Web SDK also increases by at least one frame because starves may also be caused by thread scheduling.
+        if (this.#_starveHistory.length >= InboundAudioStream.#WINDOW_STARVE_THRESHOLD) {
+            const calculatedJitterBufferFrames
+                = this.#gapToFrames(this.#_timeGapStatsForDesiredCalcOnTooManyStarves.getWindowMax());
+            this.#setDesiredJitterBufferFrames(Math.max(calculatedJitterBufferFrames, this.#_desiredJitterBufferFrames + 1));
+            this.#_starveHistory = [];
+        }
+    }
 
-        this.#_selectedCodecName = "";
+    // eslint-disable-next-line class-methods-use-this
+    #gapToFrames(gap: number): number {
+        return Math.ceil(gap / (AudioConstants.NETWORK_FRAME_MSECS * InboundAudioStream.#USECS_PER_MSEC));
     }
 
-    /*@devdoc
-     *  Resets audio output processing.
-     */
-    reset(): void {
-        // C++  void reset()
+    #framesAvailable(): number {
+        return Math.floor(this.#_audioOutput.bufferSize * this.#_jitterBufferSamplesPerBlock / this.#_numSamplesInMessage);
+    }
 
-        // WEBRTC TODO: Address further C++ code.
+    #updateFramesAvailableStats(): void {
+        // C++  int writeSamplesForDroppedPackets(int networkSamples), void popSamples(...)
+        //      The Web SDK's jitter buffer is in the audio worklet so its statistics are updated when messages are received.
+        this.#_framesAvailableStat.update(this.#framesAvailable());
+        this.#_unplayedMs.update(this.#_audioOutput.bufferSize * AudioConstants.AUDIO_WORKLET_BLOCK_SIZE
+            / AudioConstants.SAMPLE_RATE * InboundAudioStream.#MSECS_PER_SECOND);
+    }
 
-        // Web SDK specific.
-        this.#_lastSequenceNumber = -1;
-        this.#_previousMessage = null;
+    #framesToBlocks(numFrames: number): number {
+        return Math.ceil(numFrames * this.#_numSamplesInMessage / this.#_jitterBufferSamplesPerBlock);
     }
 
+    #setDesiredJitterBufferFrames(numFrames: number): void {
+        this.#_desiredJitterBufferFrames = Math.max(InboundAudioStream.#MIN_DESIRED_JITTER_BUFFER_FRAMES,
+            Math.min(numFrames, this.#_maxJitterBufferFrames - InboundAudioStream.#DESIRED_JITTER_BUFFER_FRAMES_PADDING));
+        this.#updateTargetBufferSize();
+    }
+
+    #updateTargetBufferSize(): void {
+        this.#_staticJitterBufferSize = this.#framesToBlocks(this.#_desiredJitterBufferFrames
+            + InboundAudioStream.#DESIRED_JITTER_BUFFER_FRAMES_PADDING);
+        this.#_audioOutput.setTargetBufferSize(this.#_staticJitterBufferSize);
+    }
 
-    // eslint-disable-next-line class-methods-use-this
     #writeDroppableSilentSamples(silentSamples: number): void {
         // C++  int writeDroppableSilentFrames(int silentFrames)
 
-        // WEBRTC TODO: Address further C++ code. Fade toward silence.
+        // Web SDK specific. Decoding may be asynchronous so the silence must wait for any preceding audio still being decoded.
+        if (this.#_pendingDecoderOutput.length > 0) {
+            this.#_pendingDecoderOutput.push(silentSamples);
+            return;
+        }
+        this.#outputDroppableSilentSamples(silentSamples);
+    }
+
+    #outputDroppableSilentSamples(silentSamples: number): void {
+        // C++  int writeDroppableSilentFrames(int silentFrames)
+
+        // The preceding PCM audio has been ramped down toward silence and the AudioOutputProcessor fades out if it starves.
 
         // Write silent samples if jitter buffer size less than its desired size.
         if (this.#_audioOutput.bufferSize < this.#_staticJitterBufferSize) {
@@ -253,38 +581,47 @@ class InboundAudioStream {
 
             const silentBuffer = new Int16Array(numSamplesToWrite);  // Is initialized to 0s.
             this.#_audioOutput.writeData(silentBuffer);
+            this.#_silentFramesDropped += Math.floor((silentSamples - numSamplesToWrite) / this.#_numSamplesInMessage);
+        } else {
+            this.#_silentFramesDropped += Math.floor(silentSamples / this.#_numSamplesInMessage);
         }
 
-        // WEBRTC TODO: Address further C++ code. Dynamic jitter buffer.
-
     }
 
     #parseAudioData(packetData: DataView): number {
         // C++  int parseAudioData(const QByteArray& packetAfterStreamProperties)
 
-        let decodedBuffer: Int16Array;  // eslint-disable-line @typescript-eslint/init-declarations
-
         if (this.#_decoder) {
+            // Decoding may be asynchronous: the decoded audio is written to the audio output by #writeDecodedAudio().
+            this.#_pendingDecoderOutput.push(null);
+            this.#_decoder.decode(new Uint8Array(packetData.buffer, packetData.byteOffset, packetData.byteLength));
+            return packetData.byteLength;
+        }
 
-            // WEBRTC TODO: Address further C++ code.
-            console.warn("Codec support not implemented.", this.#_selectedCodecName);
-            decodedBuffer = new Int16Array();
+        // Extract PCM data.
+        const decodedBuffer = new Int16Array(packetData.byteLength / 2);
+        for (let i = 0, length = decodedBuffer.length; i < length; i++) {
+            decodedBuffer[i] = packetData.getInt16(i * 2, UDT.LITTLE_ENDIAN);
+        }
 
-        } else {
+        this.#writeDecodedAudio(decodedBuffer);
 
-            // Extract PCM data.
-            decodedBuffer = new Int16Array(packetData.byteLength / 2);
-            for (let i = 0, length = decodedBuffer.length; i < length; i++) {
-                decodedBuffer[i] = packetData.getInt16(i * 2, UDT.LITTLE_ENDIAN);
-            }
+        return decodedBuffer.byteLength;
+    }
 
+    #writeDecodedAudio = (decodedBuffer: Int16Array): void => {
+        if (this.#_pendingDecoderOutput[0] === null) {
+            this.#_pendingDecoderOutput.shift();
         }
 
         // In place of C++'s _ringBuffer use the Web SDK's AudioOutput.
         this.#_audioOutput.writeData(decodedBuffer);
 
-        return decodedBuffer.byteLength;
-    }
+        // Write any silence that was waiting for this audio.
+        while (this.#_pendingDecoderOutput.length > 0 && this.#_pendingDecoderOutput[0] !== null) {
+            this.#outputDroppableSilentSamples(this.#_pendingDecoderOutput.shift() as number);
+        }
+    };
 
 }
 
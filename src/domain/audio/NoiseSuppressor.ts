@@ -0,0 +1,146 @@
+//
+//  NoiseSuppressor.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "./AudioConstants";
+
+
+/*@devdoc
+ *  The <code>NoiseSuppressor</code> class reduces steady background noise in 16-bit PCM audio input, independent of any noise
+ *  suppression that the browser may provide.
+ *  <p>The audio is split into frequency bands and the background noise level in each band is tracked. Each band is
+ *  attenuated according to how close its level is to its noise level, so that bands in which noise dominates are attenuated
+ *  while bands with speech pass through. The bands sum back to the original audio when no attenuation is applied.</p>
+ *  <p>It is used in the {@link AudioInputProcessor} audio worklet.</p>
+ *  <p>C++: N/A</p>
+ *  @class NoiseSuppressor
+ *  @param {number} numChannels - The number of audio channels: <code>1</code> for mono, <code>2</code> for interleaved
+ *      stereo.
+ */
+class NoiseSuppressor {
+    // C++  N/A
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly CROSSOVER_FREQUENCIES = [250, 1000, 4000];  // Hz.
+    readonly OVER_SUBTRACTION = 2.0;
+    readonly MIN_GAIN = 0.1;  // -20dB.
+    readonly RELEASE_RATE = 0.25;  // Proportion of the gain change applied per frame when reducing the gain.
+    readonly NOISE_FLOOR_RISE = 1.006;  // Per frame: ~2.6dB/s.
+    readonly MIN_NOISE_FLOOR = 1;
+    readonly MIN_SAMPLE_VALUE = -32768;
+    readonly MAX_SAMPLE_VALUE = 32767;
+    readonly TWO_PI = 2 * Math.PI;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+    _numChannels;
+    _numBands;
+    _filterCoefficients: number[];
+    _filterStates: number[][] = [];  // [channel][crossover]
+    _noiseFloors: number[] = [];  // [band]
+    _gains: number[] = [];  // [band]
+    _bandSamples: Float32Array[] = [];  // [band]
+
+
+    constructor(numChannels: number) {
+        this._numChannels = numChannels;
+        this._numBands = this.CROSSOVER_FREQUENCIES.length + 1;
+
+        // One-pole low-pass filter coefficients.
+        this._filterCoefficients = this.CROSSOVER_FREQUENCIES.map((frequency) => {
+            return Math.exp(-this.TWO_PI * frequency / AudioConstants.SAMPLE_RATE);
+        });
+
+        this.reset();
+    }
+
+
+    /*@devdoc
+     *  Resets the suppressor to its initial state.
+     */
+    reset(): void {
+        this._filterStates = [];
+        for (let channel = 0; channel < this._numChannels; channel++) {
+            this._filterStates.push(new Array(this.CROSSOVER_FREQUENCIES.length).fill(0) as number[]);
+        }
+        this._noiseFloors = new Array(this._numBands).fill(0) as number[];
+        this._gains = new Array(this._numBands).fill(1) as number[];
+    }
+
+    /*@devdoc
+     *  Suppresses background noise in a frame of audio.
+     *  @param {Int16Array} samples - The audio samples. These are modified in place.
+     */
+    render(samples: Int16Array): void {
+        if (samples.length === 0) {
+            return;
+        }
+
+        if (this._bandSamples.length === 0 || (this._bandSamples[0] as Float32Array).length !== samples.length) {
+            this._bandSamples = [];
+            for (let band = 0; band < this._numBands; band++) {
+                this._bandSamples.push(new Float32Array(samples.length));
+            }
+        }
+
+        // Split the audio into bands, each successive band being the low-pass filtered remainder of the previous.
+        const energies = new Array(this._numBands).fill(0) as number[];
+        for (let i = 0; i < samples.length; i++) {
+            const filterStates = this._filterStates[i % this._numChannels] as number[];
+            let remainder = samples[i] as number;
+            for (let band = 0; band < this._numBands; band++) {
+                let value = remainder;
+                if (band < this.CROSSOVER_FREQUENCIES.length) {
+                    const coefficient = this._filterCoefficients[band] as number;
+                    value = (1 - coefficient) * remainder + coefficient * (filterStates[band] as number);
+                    filterStates[band] = value;
+                    remainder -= value;
+                }
+                (this._bandSamples[band] as Float32Array)[i] = value;
+                energies[band] += value * value;
+            }
+        }
+
+        // Update each band's noise floor and gain.
+        const previousGains = [...this._gains];
+        for (let band = 0; band < this._numBands; band++) {
+            const energy = (energies[band] as number) / samples.length;
+
+            // Track the background noise level: follow drops immediately and rises slowly.
+            let noiseFloor = this._noiseFloors[band] as number;
+            if (noiseFloor === 0 || energy < noiseFloor) {
+                noiseFloor = Math.max(energy, this.MIN_NOISE_FLOOR);
+            } else {
+                noiseFloor *= this.NOISE_FLOOR_RISE;
+            }
+            this._noiseFloors[band] = noiseFloor;
+
+            // Gain is raised immediately so as to not clip speech onsets, and lowered gradually.
+            const targetGain = Math.max(this.MIN_GAIN,
+                Math.sqrt(Math.max(0, 1 - this.OVER_SUBTRACTION * noiseFloor / Math.max(energy, this.MIN_NOISE_FLOOR))));
+            const gain = this._gains[band] as number;
+            this._gains[band] = targetGain > gain ? targetGain : gain + (targetGain - gain) * this.RELEASE_RATE;
+        }
+
+        // Recombine the bands, ramping the gains across the frame.
+        for (let i = 0; i < samples.length; i++) {
+            const proportion = (i + 1) / samples.length;
+            let value = 0;
+            for (let band = 0; band < this._numBands; band++) {
+                const previousGain = previousGains[band] as number;
+                const gain = previousGain + ((this._gains[band] as number) - previousGain) * proportion;
+                value += gain * ((this._bandSamples[band] as Float32Array)[i] as number);
+            }
+            samples[i] = Math.max(this.MIN_SAMPLE_VALUE, Math.min(Math.round(value), this.MAX_SAMPLE_VALUE));
+        }
+    }
+
+}
+
+export default NoiseSuppressor;
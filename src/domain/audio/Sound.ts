@@ -0,0 +1,173 @@
+//
+//  Sound.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "./AudioConstants";
+
+
+type SoundSource = string | ArrayBuffer | AudioBuffer | Int16Array;
+
+
+/*@devdoc
+ *  The <code>Sound</code> class loads and decodes a sound for playing via an {@link AudioInjector}. The sound's audio data are
+ *  converted to 16-bit PCM at the Vircadia audio sample rate, mono or interleaved stereo.
+ *  <p>C++: <code>class Sound : public Resource</code></p>
+ *  @class Sound
+ *  @param {SoundSource} source - The sound to load.
+ */
+class Sound {
+    // C++  class Sound : public Resource
+
+    /*@sdkdoc
+     *  A sound to play. One of the following:
+     *  <ul>
+     *      <li><code>string</code>: The URL of an audio file, e.g., a WAV, MP3, or OGG file. The formats supported are those
+     *      that the browser can decode.</li>
+     *      <li><code>ArrayBuffer</code>: The contents of an audio file.</li>
+     *      <li><code>AudioBuffer</code>: Decoded Web Audio data. Only the first two channels are used.</li>
+     *      <li><code>Int16Array</code>: Raw mono 16-bit PCM audio data at a sample rate of 24000Hz.</li>
+     *  </ul>
+     *  @typedef {string|ArrayBuffer|AudioBuffer|Int16Array} SoundSource
+     */
+
+    static readonly #MAX_SAMPLE_VALUE = 32767;
+
+
+    static async #resample(audioBuffer: AudioBuffer): Promise<AudioBuffer> {
+        // C++  void SoundProcessor::downSample(const QByteArray& rawAudioByteArray, int sampleRate)
+        const length = Math.ceil(audioBuffer.duration * AudioConstants.SAMPLE_RATE);
+        const offlineContext = new OfflineAudioContext(audioBuffer.numberOfChannels, length, AudioConstants.SAMPLE_RATE);
+        const sourceNode = offlineContext.createBufferSource();
+        sourceNode.buffer = audioBuffer;
+        sourceNode.connect(offlineContext.destination);
+        sourceNode.start();
+        return offlineContext.startRendering();
+    }
+
+
+    #_source: SoundSource;
+    #_audioData: Int16Array | null = null;
+    #_isStereo = false;
+    #_loadPromise: Promise<boolean> | null = null;
+
+
+    constructor(source: SoundSource) {
+        // C++  Sound(const QUrl& url, bool isStereo, bool isAmbisonic)
+        this.#_source = source;
+
+        // Raw PCM data are ready to play immediately.
+        if (source instanceof Int16Array) {
+            this.#_audioData = source;
+        }
+    }
+
+
+    /*@devdoc
+     *  Gets whether the sound has been loaded and is ready to play.
+     *  @returns {boolean} <code>true</code> if the sound is ready to play, <code>false</code> if it isn't.
+     */
+    isReady(): boolean {
+        // C++  bool isReady()
+        return this.#_audioData !== null;
+    }
+
+    /*@devdoc
+     *  Gets whether the sound is stereo.
+     *  @returns {boolean} <code>true</code> if the sound is stereo, <code>false</code> if it is mono.
+     */
+    isStereo(): boolean {
+        // C++  bool isStereo()
+        return this.#_isStereo;
+    }
+
+    /*@devdoc
+     *  Gets the sound's audio data.
+     *  @returns {Int16Array|null} The sound's 16-bit PCM audio data, mono or interleaved stereo. <code>null</code> if the sound
+     *      isn't ready.
+     */
+    getAudioData(): Int16Array | null {
+        // C++  AudioDataPointer getAudioData()
+        return this.#_audioData;
+    }
+
+    /*@devdoc
+     *  Loads and decodes the sound, if it isn't already loaded.
+     *  <p><em>Async</em></p>
+     *  @async
+     *  @returns {Promise<boolean>} <code>true</code> if the sound was successfully loaded, <code>false</code> if it wasn't.
+     */
+    load(): Promise<boolean> {
+        // C++  void Resource::ensureLoading()
+        if (this.#_audioData !== null) {
+            return Promise.resolve(true);
+        }
+        if (this.#_loadPromise === null) {
+            this.#_loadPromise = this.#loadSound();
+        }
+        return this.#_loadPromise;
+    }
+
+
+    async #loadSound(): Promise<boolean> {
+        // C++  void SoundProcessor::run()
+        try {
+            let source = this.#_source;
+            if (typeof source === "string") {
+                const response = await fetch(source);
+                if (!response.ok) {
+                    console.error("Could not download sound:", source, response.status);
+                    return false;
+                }
+                source = await response.arrayBuffer();
+            }
+
+            // Decoding in an offline context resamples the audio to the context's sample rate.
+            let audioBuffer = source instanceof ArrayBuffer
+                ? await new OfflineAudioContext(AudioConstants.MONO, 1, AudioConstants.SAMPLE_RATE).decodeAudioData(source)
+                : source as AudioBuffer;
+
+            if (audioBuffer.sampleRate !== AudioConstants.SAMPLE_RATE) {
+                audioBuffer = await Sound.#resample(audioBuffer);
+            }
+
+            this.#setAudioData(audioBuffer);
+            return true;
+        } catch (error) {
+            console.error("Could not load sound:", error);
+            return false;
+        }
+    }
+
+    #setAudioData(audioBuffer: AudioBuffer): void {
+        // C++  AudioData::make(uint32_t numSamples, uint32_t numChannels, const AudioSample* samples)
+        const numChannels = Math.min(audioBuffer.numberOfChannels, AudioConstants.STEREO);
+        const channelData: Float32Array[] = [];
+        for (let channel = 0; channel < numChannels; channel++) {
+            channelData.push(audioBuffer.getChannelData(channel));
+        }
+
+        const audioData = new Int16Array(audioBuffer.length * numChannels);
+        let index = 0;
+        for (let i = 0; i < audioBuffer.length; i++) {
+            for (const data of channelData) {
+                const value = Math.min(Math.max(data[i] as number, -1), 1);
+                audioData[index] = Math.round(value * Sound.#MAX_SAMPLE_VALUE);
+                index += 1;
+            }
+        }
+
+        this.#_isStereo = numChannels === AudioConstants.STEREO;
+        this.#_audioData = audioData;
+    }
+
+}
+
+export default Sound;
+export type { SoundSource };
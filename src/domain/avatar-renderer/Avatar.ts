@@ -32,6 +32,9 @@ import AvatarConstants from "../shared/AvatarConstants";
  *      URL changes.
  *  @property {Signal<AvatarData~skeletonChanged>} skeletonChanged - Triggered when the avatar's skeleton changes.
  *  @property {Signal<AvatarData~targetScaleChanged>} targetScaleChanged - Triggered when the avatar's target scale changes.
+ *  @property {Signal<AvatarData~avatarEntitiesChanged>} avatarEntitiesChanged - Triggered when the avatar's avatar entities
+ *      change.
+ *  @property {Signal<AvatarData~grabsChanged>} grabsChanged - Triggered when the avatar's grabs change.
  *
  *  @comment SpatiallyNestable properties - copied from SpatiallyNestable; do NOT edit here.
  *  @comment None.
@@ -10,10 +10,16 @@
 //
 
 import AvatarData from "../avatars/AvatarData";
+import { AvatarBoundingBox, FarGrabJoints, HandControllerPose } from "../avatars/AvatarDataPacket";
 import { SkeletonJoint } from "../avatars/AvatarTraits";
+import { EntityProperties } from "../networking/packets/EntityData";
 import assert from "../shared/assert";
+import { GrabData } from "../shared/Grab";
+import { mat4 } from "../shared/Mat4";
 import Quat, { quat } from "../shared/Quat";
 import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+import SpatiallyNestable from "../shared/SpatiallyNestable";
+import Uuid from "../shared/Uuid";
 import Vec3, { vec3 } from "../shared/Vec3";
 
 
@@ -55,6 +61,8 @@ import Vec3, { vec3 } from "../shared/Vec3";
  *  @property {Signal<ScriptAvatar~scaleChanged>} scaleChanged - Triggered when the avatar's scale changes. This can be
  *      due to the user changing the scale of their avatar or the domain limiting the scale of their avatar.
  *  @property {vec3} position - The position of the avatar in the domain. Is {@link Vec3|Vec3.ZERO} if the avatar isn't valid.
+ *      <p>If the avatar is parented to an entity or avatar, its position moves with its parent. If its parent isn't known,
+ *      the position most recently received from the avatar mixer is used.</p>
  *      <em>Read-only.</em>
  *  @property {quat} orientation - The orientation of the avatar in the domain. Is {@link Quat|Quat.IDENTITY} if the avatar
  *      isn't valid.
@@ -74,6 +82,45 @@ import Vec3, { vec3 } from "../shared/Vec3";
  *      <p><strong>Warning:</strong> These coordinates are not necessarily in meters.</p>
  *      <p><strong>Warning:</strong> Gets the internal data structure used for joint translations. This is done for speed of
  *      operation.</p>
+ *  @property {EntityProperties[]} avatarEntities - The properties of the avatar's avatar entities, e.g., hats, name tags, and
+ *      held items. Is <code>[]</code> if the avatar isn't valid.
+ *      <em>Read-only.</em>
+ *  @property {Signal<ScriptAvatar~avatarEntitiesChanged>} avatarEntitiesChanged - Triggered when the avatar's avatar entities
+ *      change.
+ *      <em>Read-only.</em>
+ *  @property {GrabData[]} grabs - The entities and avatars that the avatar is grabbing. A grabbed entity should be displayed
+ *      at its offset from the grabbing joint. Is <code>[]</code> if the avatar isn't valid.
+ *      <em>Read-only.</em>
+ *  @property {Signal<ScriptAvatar~grabsChanged>} grabsChanged - Triggered when the avatar's grabs change.
+ *      <em>Read-only.</em>
+ *  @property {FarGrabJoints|null} farGrabJoints - The avatar's far grab joints, for grabs with a <code>parentJointIndex</code>
+ *      of <code>65528</code> (right hand), <code>65527</code> (left hand), or <code>65526</code> (mouse). Is <code>null</code>
+ *      if the avatar isn't valid or the joints haven't been received.
+ *      <em>Read-only.</em>
+ *  @property {AvatarBoundingBox|null} boundingBox - The avatar's bounding box. Is <code>null</code> if the avatar isn't valid
+ *      or the bounding box hasn't been received.
+ *      <em>Read-only.</em>
+ *  @property {vec3|null} lookAtPosition - The position in the domain that the avatar is looking at. Is <code>null</code> if
+ *      the avatar isn't valid or the position hasn't been received.
+ *      <em>Read-only.</em>
+ *  @property {mat4|null} sensorToWorldMatrix - The transform from the avatar's VR sensor space to world space. Is
+ *      <code>null</code> if the avatar isn't valid or the matrix hasn't been received.
+ *      <em>Read-only.</em>
+ *  @property {Uuid} parentID - The ID of the entity or avatar that the avatar is parented to. Is {@link Uuid|Uuid.NULL} if
+ *      the avatar isn't parented or isn't valid.
+ *      <em>Read-only.</em>
+ *  @property {number} parentJointIndex - The index of the parent joint that the avatar is parented to. Is <code>65535</code>
+ *      if the avatar isn't parented to a joint or isn't valid.
+ *      <em>Read-only.</em>
+ *  @property {HandControllerPose|null} leftHandController - The pose of the avatar's left hand controller, in the avatar's
+ *      frame of reference. Is <code>null</code> if the avatar isn't valid or the pose hasn't been received.
+ *      <em>Read-only.</em>
+ *  @property {HandControllerPose|null} rightHandController - The pose of the avatar's right hand controller, in the avatar's
+ *      frame of reference. Is <code>null</code> if the avatar isn't valid or the pose hasn't been received.
+ *      <em>Read-only.</em>
+ *  @property {number[]} blendshapeCoefficients - The avatar's facial blendshape coefficients, in the order of the blendshapes
+ *      used by the avatar model. Is <code>[]</code> if the avatar isn't valid or the coefficients haven't been received.
+ *      <em>Read-only.</em>
  */
 // Don't document the constructor because it shouldn't be used in the SDK.
 class ScriptAvatar {
@@ -244,9 +291,9 @@ class ScriptAvatar {
         if (this.#_avatarData) {
             const avatar = this.#_avatarData.deref();
             if (avatar) {
-                // A reference to the internal value is returned but this is OK because the internal value will keep being
-                // recreated.
-                return Vec3.copy(avatar.getWorldPosition());
+                // C++  N/A - If the parent isn't known, use the position received from the avatar mixer.
+                const transform = avatar.getTransform();
+                return Vec3.copy(transform ? transform.position : avatar.getClientGlobalPosition());
             }
         }
         return Vec3.ZERO;
@@ -293,6 +340,157 @@ class ScriptAvatar {
         return [];
     }
 
+    get avatarEntities(): EntityProperties[] {
+        // C++  AvatarEntityMap ScriptAvatarData::getAvatarEntities()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getAvatarEntities();
+            }
+        }
+        return [];
+    }
+
+    /*@sdkdoc
+     *  Triggered when the avatar's avatar entities change.
+     *  @callback ScriptAvatar~avatarEntitiesChanged
+     */
+    get avatarEntitiesChanged(): Signal {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.avatarEntitiesChanged;
+            }
+        }
+        return new SignalEmitter().signal();
+    }
+
+    get grabs(): GrabData[] {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getGrabs();
+            }
+        }
+        return [];
+    }
+
+    /*@sdkdoc
+     *  Triggered when the avatar's grabs change.
+     *  @callback ScriptAvatar~grabsChanged
+     */
+    get grabsChanged(): Signal {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.grabsChanged;
+            }
+        }
+        return new SignalEmitter().signal();
+    }
+
+    get farGrabJoints(): FarGrabJoints | null {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getFarGrabJoints();
+            }
+        }
+        return null;
+    }
+
+    get boundingBox(): AvatarBoundingBox | null {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getAvatarBoundingBox();
+            }
+        }
+        return null;
+    }
+
+    get lookAtPosition(): vec3 | null {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getLookAtPosition();
+            }
+        }
+        return null;
+    }
+
+    get sensorToWorldMatrix(): mat4 | null {
+        // C++  glm::mat4 ScriptAvatarData::getSensorToWorldMatrix()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getSensorToWorldMatrix();
+            }
+        }
+        return null;
+    }
+
+    get parentID(): Uuid {
+        // C++  QUuid ScriptAvatarData::getParentID()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getParentID();
+            }
+        }
+        return new Uuid(Uuid.NULL);
+    }
+
+    get parentJointIndex(): number {
+        // C++  quint16 ScriptAvatarData::getParentJointIndex()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getParentJointIndex();
+            }
+        }
+        return SpatiallyNestable.INVALID_JOINT_INDEX;
+    }
+
+    get leftHandController(): HandControllerPose | null {
+        // C++  glm::mat4 ScriptAvatarData::getControllerLeftHandMatrix()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getLeftHandController();
+            }
+        }
+        return null;
+    }
+
+    get rightHandController(): HandControllerPose | null {
+        // C++  glm::mat4 ScriptAvatarData::getControllerRightHandMatrix()
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getRightHandController();
+            }
+        }
+        return null;
+    }
+
+    get blendshapeCoefficients(): number[] {
+        // C++  N/A
+        if (this.#_avatarData) {
+            const avatar = this.#_avatarData.deref();
+            if (avatar) {
+                return avatar.getBlendshapeCoefficients();
+            }
+        }
+        return [];
+    }
+
 }
 
 export default ScriptAvatar;
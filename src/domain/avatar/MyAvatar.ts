@@ -11,13 +11,20 @@
 
 import AudioClient from "../audio-client/AudioClient";
 import Avatar from "../avatar-renderer/Avatar";
+import AvatarData from "../avatars/AvatarData";
+import AvatarTraits from "../avatars/AvatarTraits";
 import ClientTraitsHandler from "../avatars/ClientTraitsHandler";
+import EntityItemProperties, { EntityEditProperties } from "../entities/EntityItemProperties";
+import { EntityType } from "../entities/EntityTypes";
 import NodeList from "../networking/NodeList";
 import assert from "../shared/assert";
 import AvatarConstants from "../shared/AvatarConstants";
 import ContextManager from "../shared/ContextManager";
+import HighResolutionClock from "../shared/HighResolutionClock";
+import { quat } from "../shared/Quat";
 import SignalEmitter, { Signal } from "../shared/SignalEmitter";
 import Uuid from "../shared/Uuid";
+import { vec3 } from "../shared/Vec3";
 
 
 type DomainSettings = {
@@ -52,6 +59,9 @@ type DomainSettings = {
  *      URL changes.
  *  @property {Signal<AvatarData~skeletonChanged>} skeletonChanged - Triggered when the avatar's skeleton changes.
  *  @property {Signal<AvatarData~targetScaleChanged>} targetScaleChanged - Triggered when the avatar's target scale changes.
+ *  @property {Signal<AvatarData~avatarEntitiesChanged>} avatarEntitiesChanged - Triggered when the avatar's avatar entities
+ *      change.
+ *  @property {Signal<AvatarData~grabsChanged>} grabsChanged - Triggered when the avatar's grabs change.
  *
  *  @comment SpatiallyNestable properties - copied from SpatiallyNestable; do NOT edit here.
  *  @comment None.
@@ -202,6 +212,132 @@ class MyAvatar extends Avatar {
         }
     }
 
+    /*@devdoc
+     *  Sets the UUID of the entity or avatar that the avatar is parented to. The avatar's world position and orientation are
+     *  maintained. If the new parent's transform isn't known, the previous parent is restored.
+     *  @param {Uuid} parentID - The UUID of the entity or avatar that the avatar is parented to. <code>Uuid.NULL</code> if
+     *      not parented.
+     */
+    override setParentID(parentID: Uuid): void {
+        // C++  void Avatar::setParentID(const QUuid& parentID)
+        const initialParentID = this.getParentID();
+        const transform = this.getTransform();
+        super.setParentID(parentID);
+        if (transform) {
+            if (!this.getTransform()) {
+                console.error("[MyAvatar] Can't parent the avatar to an unknown entity or avatar:", parentID.stringify());
+                super.setParentID(initialParentID);
+                return;
+            }
+            this.setWorldPosition(transform.position);
+            this.setWorldOrientation(transform.rotation);
+        }
+    }
+
+    /*@devdoc
+     *  Sets the index of the parent joint that the avatar is parented to. The avatar's world position and orientation are
+     *  maintained.
+     *  @param {number} parentJointIndex - The index of the parent joint that the avatar is parented to.
+     *      <code>SpatiallyNestable.INVALID_JOINT_INDEX</code> if not parented to a joint.
+     */
+    override setParentJointIndex(parentJointIndex: number): void {
+        // C++  void Avatar::setParentJointIndex(quint16 parentJointIndex)
+        const transform = this.getTransform();
+        super.setParentJointIndex(parentJointIndex);
+        if (transform) {
+            this.setWorldPosition(transform.position);
+            this.setWorldOrientation(transform.rotation);
+        }
+    }
+
+    /*@devdoc
+     *  Adds or replaces an avatar entity. The avatar entity is sent to the avatar mixer as an avatar trait.
+     *  @param {Uuid} entityID - The ID of the avatar entity.
+     *  @param {EntityType} entityType - The type of the avatar entity.
+     *  @param {EntityEditProperties} properties - The properties of the avatar entity.
+     *  @returns {boolean} <code>true</code> if the avatar entity was added, <code>false</code> if it wasn't.
+     */
+    addAvatarEntity(entityID: Uuid, entityType: EntityType, properties: EntityEditProperties): boolean {
+        // C++  void MyAvatar::packAvatarEntityTraitInstance(AvatarTraits::TraitType traitType,
+        //          AvatarTraits::TraitInstanceID traitInstanceID, ExtendedIODevice& destination,
+        //          AvatarTraits::TraitVersion traitVersion)
+        //      The Web SDK doesn't have an entity tree of avatar entities so the data are packed when the entity is added.
+        const now = HighResolutionClock.now();
+        const entityData = EntityItemProperties.encodeEntityData(entityID, entityType, properties, now, now,
+            AvatarTraits.MAXIMUM_TRAIT_SIZE);
+        if (!entityData) {
+            console.warn("[MyAvatar] Avatar entity data exceed the maximum trait size:", entityID.stringify());
+            return false;
+        }
+
+        return this.storeAvatarEntityDataPayload(entityID, entityData);
+    }
+
+    /*@devdoc
+     *  Removes an avatar entity.
+     *  @param {Uuid} entityID - The ID of the avatar entity.
+     */
+    removeAvatarEntity(entityID: Uuid): void {
+        // C++  void MyAvatar::removeWornAvatarEntity(const EntityItemID& entityID)
+        this.clearAvatarEntity(entityID);
+    }
+
+    /*@devdoc
+     *  Grabs an entity or avatar. The grab is sent to the avatar mixer as an avatar trait.
+     *  @param {Uuid} targetID - The ID of the entity or avatar to grab.
+     *  @param {number} parentJointIndex - The index of the avatar joint that the target moves with.
+     *  @param {vec3} positionalOffset - The target's position relative to the joint.
+     *  @param {quat} rotationalOffset - The target's orientation relative to the joint.
+     *  @returns {Uuid|null} The ID of the grab if it was added, <code>null</code> if it wasn't.
+     */
+    grab(targetID: Uuid, parentJointIndex: number, positionalOffset: vec3, rotationalOffset: quat): Uuid | null {
+        // C++  const QUuid grab(const QUuid& targetID, int parentJointIndex, glm::vec3 positionalOffset,
+        //          glm::quat rotationalOffset)
+        const grabID = Uuid.createUuid();
+
+        let hand = "none";
+        if (parentJointIndex === AvatarData.CONTROLLER_RIGHTHAND_INDEX
+                || parentJointIndex === AvatarData.CAMERA_RELATIVE_CONTROLLER_RIGHTHAND_INDEX
+                || parentJointIndex === AvatarData.FARGRAB_RIGHTHAND_INDEX
+                || parentJointIndex === this.getJointIndex("RightHand")) {
+            hand = "right";
+        } else if (parentJointIndex === AvatarData.CONTROLLER_LEFTHAND_INDEX
+                || parentJointIndex === AvatarData.CAMERA_RELATIVE_CONTROLLER_LEFTHAND_INDEX
+                || parentJointIndex === AvatarData.FARGRAB_LEFTHAND_INDEX
+                || parentJointIndex === this.getJointIndex("LeftHand")) {
+            hand = "left";
+        }
+
+        const dataChanged = this.updateAvatarGrabData(grabID, {
+            grabID,
+            ownerID: this.getSessionUUID(),
+            targetID,
+            parentJointIndex,
+            hand,
+            positionalOffset,
+            rotationalOffset
+        });
+        if (!dataChanged) {
+            return null;
+        }
+
+        if (this._clientTraitsHandler) {
+            // Hang on to the grab and send it to the mixer.
+            this._clientTraitsHandler.markInstancedTraitUpdated(AvatarTraits.Grab, grabID);
+        }
+
+        return grabID;
+    }
+
+    /*@devdoc
+     *  Releases a grab.
+     *  @param {Uuid} grabID - The ID of the grab.
+     */
+    releaseGrab(grabID: Uuid): void {
+        // C++  void releaseGrab(const QUuid& grabID)
+        this.clearAvatarGrabData(grabID);
+    }
+
     /*@devdoc
      *  Restricts the avatar scale per settings received from the domain server.
      *  @param {MyAvatar.DomainSettings} domainSettings - The domain settings.
@@ -285,7 +421,7 @@ class MyAvatar extends Avatar {
         // The Web SDK doesn't save settings.
         // saveAvatarScale();
 
-        // WEBRTC TODO: Address further C++ code - reset instanced avatar traits.
+        this.prepareResetTraitInstances();
     };
 
 
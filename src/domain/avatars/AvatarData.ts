@@ -11,6 +11,7 @@
 
 import { AvatarIdentityDetails } from "../networking/packets/AvatarIdentity";
 import { BulkAvatarDataDetails } from "../networking/packets/BulkAvatarData";
+import { EntityProperties } from "../networking/packets/EntityData";
 import PacketScribe from "../networking/packets/PacketScribe";
 import SequenceNumber from "../networking/udt/SequenceNumber";
 import Node from "../networking/Node";
@@ -19,11 +20,16 @@ import NodeType from "../networking/NodeType";
 import assert from "../shared/assert";
 import AvatarConstants from "../shared/AvatarConstants";
 import ContextManager from "../shared/ContextManager";
+import GLMHelpers from "../shared/GLMHelpers";
+import Grab, { GrabData } from "../shared/Grab";
+import { mat4 } from "../shared/Mat4";
 import Quat, { quat } from "../shared/Quat";
 import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+import SpatialParentFinder from "../shared/SpatialParentFinder";
 import SpatiallyNestable, { NestableType } from "../shared/SpatiallyNestable";
 import Uuid from "../shared/Uuid";
 import Vec3, { vec3 } from "../shared/Vec3";
+import { AdditionalFlags, AvatarBoundingBox, FaceTrackerInfo, FarGrabJoints, HandControllerPose } from "./AvatarDataPacket";
 import AvatarTraits, { SkeletonJoint, TraitType, TraitValue } from "./AvatarTraits";
 import ClientTraitsHandler from "./ClientTraitsHandler";
 
@@ -83,6 +89,37 @@ enum BoneType {
     NonSkeletonChild
 }
 
+/*@sdkdoc
+ *  The <code>KeyState</code> namespace provides states of the keys that the user is pressing in order to adjust their
+ *  avatar's appearance, for example, to show an indicator when the user is adding or deleting something.
+ *  @namespace KeyState
+ *  @property {number} NoKeyDown=0 - No key is pressed.
+ *  @property {number} InsertKeyDown=1 - The Insert key is pressed.
+ *  @property {number} DeleteKeyDown=2 - The Delete key is pressed.
+ */
+enum KeyState {
+    // C++  KeyState
+    NoKeyDown = 0,
+    InsertKeyDown,
+    DeleteKeyDown
+}
+
+/*@sdkdoc
+ *  The <code>HandState</code> namespace provides hand state flags. A hand state value is the sum of the relevant flag values.
+ *  @namespace HandState
+ *  @property {number} Null=0 - No flags are set.
+ *  @property {number} LeftHandPointing=1 - The left hand is pointing.
+ *  @property {number} RightHandPointing=2 - The right hand is pointing.
+ *  @property {number} IsFingerPointing=4 - The hand is pointing with its finger rather than with a laser.
+ */
+enum HandState {
+    // C++  HAND_STATE_NULL, LEFT_HAND_POINTING_FLAG, RIGHT_HAND_POINTING_FLAG, IS_FINGER_POINTING_FLAG
+    Null = 0,
+    LeftHandPointing = 1,
+    RightHandPointing = 2,
+    IsFingerPointing = 4
+}
+
 
 /*@devdoc
  *  The <code>AvatarData</code> class handles the avatar data that is written to and read from Vircadia protocol packets.
@@ -91,6 +128,21 @@ enum BoneType {
  *  @extends SpatiallyNestable
  *  @param {number} contextID - The {@link ContextManager} context ID.
  *
+ *  @property {number} SENSOR_TO_WORLD_MATRIX_INDEX=65534 - The joint index of the avatar's sensor-to-world matrix.
+ *      <em>Read-only.</em>
+ *  @property {number} CONTROLLER_RIGHTHAND_INDEX=65533 - The joint index of the right hand controller.
+ *      <em>Read-only.</em>
+ *  @property {number} CONTROLLER_LEFTHAND_INDEX=65532 - The joint index of the left hand controller.
+ *      <em>Read-only.</em>
+ *  @property {number} CAMERA_RELATIVE_CONTROLLER_RIGHTHAND_INDEX=65531 - The joint index of the right hand controller
+ *      relative to the camera. <em>Read-only.</em>
+ *  @property {number} CAMERA_RELATIVE_CONTROLLER_LEFTHAND_INDEX=65530 - The joint index of the left hand controller relative
+ *      to the camera. <em>Read-only.</em>
+ *  @property {number} CAMERA_MATRIX_INDEX=65529 - The joint index of the camera. <em>Read-only.</em>
+ *  @property {number} FARGRAB_RIGHTHAND_INDEX=65528 - The joint index of the right hand far grab. <em>Read-only.</em>
+ *  @property {number} FARGRAB_LEFTHAND_INDEX=65527 - The joint index of the left hand far grab. <em>Read-only.</em>
+ *  @property {number} FARGRAB_MOUSE_INDEX=65526 - The joint index of the mouse far grab. <em>Read-only.</em>
+ *
  *  @comment AvatarData properties.
  *  @property {Signal<AvatarData~displayNameChanged>} displayNameChanged - Triggered when the avatar's display name changes.
  *  @property {Signal<AvatarData~sessionDisplayNameChanged>} sessionDisplayNameChanged - Triggered when the avatar's session
@@ -99,6 +151,9 @@ enum BoneType {
  *      URL changes.
  *  @property {Signal<AvatarData~skeletonChanged>} skeletonChanged - Triggered when the avatar's skeleton changes.
  *  @property {Signal<AvatarData~targetScaleChanged>} targetScaleChanged - Triggered when the avatar's target scale changes.
+ *  @property {Signal<AvatarData~avatarEntitiesChanged>} avatarEntitiesChanged - Triggered when the avatar's avatar entities
+ *      change.
+ *  @property {Signal<AvatarData~grabsChanged>} grabsChanged - Triggered when the avatar's grabs change.
  *
  *  @comment SpatiallyNestable properties - copied from SpatiallyNestable; do NOT edit here.
  *  @comment None.
@@ -106,6 +161,19 @@ enum BoneType {
 class AvatarData extends SpatiallyNestable {
     // C++  class AvatarData : public QObject, public SpatiallyNestable
 
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    static readonly SENSOR_TO_WORLD_MATRIX_INDEX = 65534;  // -2
+    static readonly CONTROLLER_RIGHTHAND_INDEX = 65533;  // -3
+    static readonly CONTROLLER_LEFTHAND_INDEX = 65532;  // -4
+    static readonly CAMERA_RELATIVE_CONTROLLER_RIGHTHAND_INDEX = 65531;  // -5
+    static readonly CAMERA_RELATIVE_CONTROLLER_LEFTHAND_INDEX = 65530;  // -6
+    static readonly CAMERA_MATRIX_INDEX = 65529;  // -7
+    static readonly FARGRAB_RIGHTHAND_INDEX = 65528;  // -8
+    static readonly FARGRAB_LEFTHAND_INDEX = 65527;  // -9
+    static readonly FARGRAB_MOUSE_INDEX = 65526;  // -10
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
     protected _sessionDisplayName: string | null = null;
     protected _sessionDisplayNameChanged = new SignalEmitter();
 
@@ -136,9 +204,53 @@ class AvatarData extends SpatiallyNestable {
     #_avatarSkeletonData: SkeletonJoint[] = [];
     #_skeletonChanged = new SignalEmitter();  // No C++ equivalent.
 
+    // C++  _packedAvatarEntityData
+    #_packedAvatarEntityData: Map<bigint, Uint8Array> = new Map();  // Keyed by entity ID value.
+    #_avatarEntities: Map<bigint, EntityProperties> = new Map();  // Keyed by entity ID value. No C++ equivalent.
+    #_avatarEntitiesChanged = new SignalEmitter();  // No C++ equivalent.
+
+    // C++  _avatarGrabData
+    #_avatarGrabData: Map<bigint, Uint8Array> = new Map();  // Keyed by grab ID value.
+    #_avatarGrabs: Map<bigint, GrabData> = new Map();  // Keyed by grab ID value. No C++ equivalent.
+    #_grabsChanged = new SignalEmitter();  // No C++ equivalent.
+
+    // C++  _farGrabLeftMatrixCache, _farGrabRightMatrixCache, _farGrabMouseMatrixCache
+    #_farGrabJoints: FarGrabJoints | null = null;
+
     #_audioLoudness = 0;
     #_audioLoudnessChanged = 0;
 
+    #_parentChanged = 0;
+
+    // C++  _globalBoundingBoxDimensions, _globalBoundingBoxOffset
+    #_avatarBoundingBox: AvatarBoundingBox | null = null;
+    // C++  _headData->getLookAtPosition()
+    #_lookAtPosition: vec3 | null = null;
+    #_lookAtPositionChanged = 0;
+    // C++  _sensorToWorldMatrixCache
+    #_sensorToWorldMatrix: mat4 | null = null;
+    // C++  _keyState, _handState, _headData->_hasScriptedBlendshapes, etc.
+    #_additionalFlags: AdditionalFlags = {
+        keyState: KeyState.NoKeyDown,
+        handState: HandState.Null,
+        hasScriptedBlendshapes: false,
+        hasProceduralEyeMovement: true,
+        audioEnabledFaceMovement: true,
+        proceduralEyeFaceMovement: true,
+        proceduralBlinkFaceMovement: true,
+        collideWithOtherAvatars: true,
+        hasPriority: false
+    };
+
+    #_additionalFlagsChanged = 0;
+    // C++  _controllerLeftHandMatrixCache
+    #_leftHandController: HandControllerPose | null = null;
+    // C++  _controllerRightHandMatrixCache
+    #_rightHandController: HandControllerPose | null = null;
+    // C++  _headData->_blendshapeCoefficients, etc.
+    #_faceTrackerInfo: FaceTrackerInfo | null = null;
+    #_faceTrackerInfoChanged = 0;
+
     // C++  _jointData
     #_jointRotations: (quat | null)[] = [];
     #_jointTranslations: (vec3 | null)[] = [];
@@ -151,12 +263,15 @@ class AvatarData extends SpatiallyNestable {
     #_sequenceNumber = 0;  // Avatar data sequence number is a uint16 value.
     readonly #SEQUENCE_NUMBER_MODULO = 65536;  // Sequence number is a uint16.
 
+    readonly #MAX_NUM_AVATAR_ENTITIES = 42;
+    readonly #MAX_NUM_AVATAR_GRABS = 6;
+
     readonly #_AVATAR_MIXER_NODE_SET = new Set([NodeType.AvatarMixer]);
 
 
     constructor(contextID: number) {
         // C++  AvatarData()
-        super(NestableType.Avatar, new Uuid());
+        super(NestableType.Avatar, new Uuid(), ContextManager.get(contextID, SpatialParentFinder) as SpatialParentFinder);
 
         // Context
         this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
@@ -206,6 +321,24 @@ class AvatarData extends SpatiallyNestable {
         return this._targetScaleChanged.signal();
     }
 
+    /*@sdkdoc
+     *  Triggered when the avatar's avatar entities change.
+     *  @callback AvatarData~avatarEntitiesChanged
+     */
+    get avatarEntitiesChanged(): Signal {
+        // C++  N/A
+        return this.#_avatarEntitiesChanged.signal();
+    }
+
+    /*@sdkdoc
+     *  Triggered when the avatar's grabs change.
+     *  @callback AvatarData~grabsChanged
+     */
+    get grabsChanged(): Signal {
+        // C++  N/A
+        return this.#_grabsChanged.signal();
+    }
+
 
     /*@devdoc
      *  Gets the avatar's session UUID.
@@ -301,6 +434,15 @@ class AvatarData extends SpatiallyNestable {
         return this.#_skeletonModelURL;
     }
 
+    /*@devdoc
+     *  Gets the avatar's world position as most recently sent to or received from the avatar mixer.
+     *  @returns {vec3} The avatar's world position as most recently sent to or received from the avatar mixer.
+     */
+    getClientGlobalPosition(): vec3 {
+        // C++  glm::vec3 getClientGlobalPosition()
+        return this._globalPosition;
+    }
+
     /*@devdoc
      *  Gets the instantaneous loudness of the audio input that the avatar is injecting into the domain.
      *  @returns {number} The instantaneous loudness of the audio input that the avatar is injecting into the domain.
@@ -358,6 +500,19 @@ class AvatarData extends SpatiallyNestable {
         return this.#_avatarSkeletonData;
     }
 
+    /*@devdoc
+     *  Gets the index of a joint in the avatar's skeleton.
+     *  @param {string} name - The name of the joint.
+     *  @returns {number} The index of the joint if it is found, <code>-1</code> if it isn't.
+     */
+    getJointIndex(name: string): number {
+        // C++  int getJointIndex(const QString& name)
+        const joint = this.#_avatarSkeletonData.find((skeletonJoint) => {
+            return skeletonJoint.jointName === name;
+        });
+        return joint ? joint.jointIndex : -1;
+    }
+
     /*@devdoc
      *  Sets the avatar's skeleton and resets the joints.
      *  @param {SkeletonJoint[]} skeletonData - The avatar's skeleton.
@@ -680,7 +835,28 @@ class AvatarData extends SpatiallyNestable {
             globalPosition: this._globalPosition,
             localOrientation: sendAll || this.rotationChangedSince(lastSentTime) ? this.getOrientationOutbound() : undefined,
             avatarScale: sendAll || this.#avatarScaleChangedSince(lastSentTime) ? this.getDomainLimitedScale() : undefined,
+            lookAtPosition: this.#_lookAtPosition !== null && (sendAll || this.#lookAtPositionChangedSince(lastSentTime))
+                ? this.#_lookAtPosition
+                : undefined,
             audioLoudness: sendAll || this.#audioLoudnessChangedSince(lastSentTime) ? this.getAudioLoudness() : undefined,
+            additionalFlags: sendAll || this.#additionalFlagsChangedSince(lastSentTime) ? this.#_additionalFlags : undefined,
+            parentInfo: sendAll || this.#parentInfoChangedSince(lastSentTime)
+                ? { parentID: this.getParentID(), parentJointIndex: this.getParentJointIndex() }
+                : undefined,
+            localPosition: this.hasParent() && (sendAll || this.translationChangedSince(lastSentTime)
+                || this.#parentInfoChangedSince(lastSentTime))
+                ? this.getLocalPosition()
+                : undefined,
+            handControllers: this.#_leftHandController !== null || this.#_rightHandController !== null
+                ? {
+                    left: this.#_leftHandController ?? { position: Vec3.ZERO, rotation: Quat.IDENTITY },
+                    right: this.#_rightHandController ?? { position: Vec3.ZERO, rotation: Quat.IDENTITY }
+                }
+                : undefined,
+            faceTrackerInfo: this.#_additionalFlags.hasScriptedBlendshapes && this.#_faceTrackerInfo !== null
+                && (sendAll || this.#faceTrackerInfoChangedSince(lastSentTime))
+                ? this.#_faceTrackerInfo
+                : undefined,
             jointRotations: this.#_jointRotations,  // sendMinimum is implemented in PacketScribe.AvatarData.write().
             jointTranslations: this.#_jointTranslations
         };
@@ -696,7 +872,7 @@ class AvatarData extends SpatiallyNestable {
         if (avatarPacket.getDataSize() === 0) {
             // Try excluding face tracking.
             avatarDataDetails.lastSentTime = this.#_lastToByteArray;
-            // avatarDataDetails.dropFaceTracking = true;
+            avatarDataDetails.faceTrackerInfo = undefined;  // C++  dropFaceTracking = true
             this.#_lastToByteArray = Date.now();
             avatarPacket = PacketScribe.AvatarData.write(avatarDataDetails);
         }
@@ -746,7 +922,11 @@ class AvatarData extends SpatiallyNestable {
             }
         }
 
-        // WEBRTC TODO: Address further C++ code - further avatar properties.
+        if (avatarData.avatarBoundingBox) {
+            this.#_avatarBoundingBox = avatarData.avatarBoundingBox;
+
+            // WEBRTC TODO: Address further C++ code - avatar bounding box update rate.
+        }
 
         if (avatarData.localOrientation) {
             if (!Quat.equal(avatarData.localOrientation, this.getLocalOrientation())) {
@@ -767,7 +947,11 @@ class AvatarData extends SpatiallyNestable {
             }
         }
 
-        // WEBRTC TODO: Address further C++ code - further avatar properties.
+        if (avatarData.lookAtPosition) {
+            this.setLookAtPosition(avatarData.lookAtPosition);
+
+            // WEBRTC TODO: Address further C++ code - look-at position update rate.
+        }
 
         if (avatarData.audioLoudness !== undefined) {
             if (!isNaN(avatarData.audioLoudness)) {
@@ -777,7 +961,50 @@ class AvatarData extends SpatiallyNestable {
             }
         }
 
-        // WEBRTC TODO: Address further C++ code - further avatar properties.
+        if (avatarData.sensorToWorldMatrix) {
+            const sensorToWorldMatrix = avatarData.sensorToWorldMatrix;
+            const scale = sensorToWorldMatrix.scale;
+            this.#_sensorToWorldMatrix = GLMHelpers.createMatFromScaleQuatAndPos({ x: scale, y: scale, z: scale },
+                sensorToWorldMatrix.rotation, sensorToWorldMatrix.translation);
+
+            // WEBRTC TODO: Address further C++ code - sensor-to-world matrix update rate.
+        }
+
+        if (avatarData.additionalFlags) {
+            this.#_additionalFlags = avatarData.additionalFlags;
+            this.#_additionalFlagsChanged = Date.now();
+
+            // WEBRTC TODO: Address further C++ code - additional flags update rate.
+        }
+
+        if (avatarData.parentInfo) {
+            this.setParentID(avatarData.parentInfo.parentID);
+            this.setParentJointIndex(avatarData.parentInfo.parentJointIndex);
+
+            // WEBRTC TODO: Address further C++ code - parent info update rate.
+        }
+
+        if (avatarData.localPosition) {
+            if (this.hasParent()) {
+                this.setLocalPosition(avatarData.localPosition);
+            }
+
+            // WEBRTC TODO: Address further C++ code - local position update rate.
+        }
+
+        if (avatarData.handControllers) {
+            this.#_leftHandController = avatarData.handControllers.left;
+            this.#_rightHandController = avatarData.handControllers.right;
+
+            // WEBRTC TODO: Address further C++ code - hand controllers update rate.
+        }
+
+        if (avatarData.faceTrackerInfo) {
+            this.#_faceTrackerInfo = avatarData.faceTrackerInfo;
+            this.#_faceTrackerInfoChanged = Date.now();
+
+            // WEBRTC TODO: Address further C++ code - face tracker update rate.
+        }
 
         if (avatarData.jointRotationsValid && avatarData.jointRotations) {
             const jointRotationsValid = avatarData.jointRotationsValid;
@@ -834,6 +1061,10 @@ class AvatarData extends SpatiallyNestable {
             // WEBRTC TODO: Address further C++ code - joint update rate.
         }
 
+        if (avatarData.farGrabJoints) {
+            this.#_farGrabJoints = avatarData.farGrabJoints;
+        }
+
         if (avatarData.jointTranslationsUseDefault) {
             const jointTranslationsUseDefault = avatarData.jointTranslationsUseDefault;
             const numJoints = jointTranslationsUseDefault.length;
@@ -870,16 +1101,385 @@ class AvatarData extends SpatiallyNestable {
         }
     }
 
+    /*@devdoc
+     *  Processes an instanced trait value received in a packet.
+     *  @param {AvatarTraits.TraitType} traitType - The trait type.
+     *  @param {Uuid} instanceID - The trait instance ID.
+     *  @param {AvatarTraits.TraitValue} traitValue - The trait value.
+     */
+    processTraitInstance(traitType: TraitType, instanceID: Uuid, traitValue: TraitValue): void {
+        // C++  void processTraitInstance(AvatarTraits::TraitType traitType, AvatarTraits::TraitInstanceID instanceID,
+        //          QByteArray traitBinaryData)
+        //      Reading the trait value is done in AvatarTraits.
+        if (traitType === AvatarTraits.AvatarEntity) {
+            if (traitValue) {
+                this.#_avatarEntities.set(instanceID.value(), traitValue as EntityProperties);
+                this.#_avatarEntitiesChanged.emit();
+            }
+        } else if (traitType === AvatarTraits.Grab) {
+            if (traitValue) {
+                this.updateAvatarGrabData(instanceID, traitValue as GrabData);
+            }
+        }
+    }
+
+    /*@devdoc
+     *  Processes the deletion of an instanced trait received in a packet.
+     *  @param {AvatarTraits.TraitType} traitType - The trait type.
+     *  @param {Uuid} instanceID - The trait instance ID.
+     */
+    processDeletedTraitInstance(traitType: TraitType, instanceID: Uuid): void {
+        // C++  void processDeletedTraitInstance(AvatarTraits::TraitType traitType, AvatarTraits::TraitInstanceID instanceID)
+        if (traitType === AvatarTraits.AvatarEntity) {
+            this.clearAvatarEntity(instanceID);
+        } else if (traitType === AvatarTraits.Grab) {
+            this.clearAvatarGrabData(instanceID);
+        }
+    }
+
+    /*@devdoc
+     *  Stores an avatar entity's data and marks the avatar entity trait as updated.
+     *  @param {Uuid} entityID - The ID of the avatar entity.
+     *  @param {Uint8Array} payload - The avatar entity's data, per {@link EntityItemProperties.encodeEntityData}.
+     *  @returns {boolean} <code>true</code> if the data was stored, <code>false</code> if it wasn't.
+     */
+    storeAvatarEntityDataPayload(entityID: Uuid, payload: Uint8Array): boolean {
+        // C++  void storeAvatarEntityDataPayload(const QUuid& entityID, const QByteArray& payload)
+        const entityIDValue = entityID.value();
+        if (!this.#_packedAvatarEntityData.has(entityIDValue)
+                && this.#_packedAvatarEntityData.size >= this.#MAX_NUM_AVATAR_ENTITIES) {
+            // Don't allow the number of avatar entities to exceed the maximum.
+            return false;
+        }
+
+        const properties = PacketScribe.EntityData.readEntityItem(new DataView(payload.buffer, payload.byteOffset,
+            payload.byteLength));
+        if (!properties) {
+            return false;
+        }
+
+        this.#_packedAvatarEntityData.set(entityIDValue, payload);
+        this.#_avatarEntities.set(entityIDValue, properties);
+
+        if (this._clientTraitsHandler) {
+            this._clientTraitsHandler.markInstancedTraitUpdated(AvatarTraits.AvatarEntity, entityID);
+        }
+
+        this.#_avatarEntitiesChanged.emit();
+        return true;
+    }
+
+    /*@devdoc
+     *  Removes an avatar entity and marks the avatar entity trait as deleted.
+     *  @param {Uuid} entityID - The ID of the avatar entity.
+     */
+    clearAvatarEntity(entityID: Uuid): void {
+        // C++  void clearAvatarEntity(const QUuid& entityID, bool requiresRemovalFromTree = true)
+        //      void clearAvatarEntityInternal(const QUuid& entityID)
+        const entityIDValue = entityID.value();
+        const removedEntity = this.#_avatarEntities.delete(entityIDValue);
+        this.#_packedAvatarEntityData.delete(entityIDValue);
+
+        if (this._clientTraitsHandler) {
+            this._clientTraitsHandler.markInstancedTraitDeleted(AvatarTraits.AvatarEntity, entityID);
+        }
+
+        if (removedEntity) {
+            this.#_avatarEntitiesChanged.emit();
+        }
+    }
+
+    /*@devdoc
+     *  Gets the avatar's avatar entities' data.
+     *  @returns {Map<bigint,Uint8Array>} The avatar entities' data, per {@link EntityItemProperties.encodeEntityData}, keyed by
+     *      entity ID value.
+     */
+    getAvatarEntityData(): Map<bigint, Uint8Array> {
+        // C++  AvatarEntityMap getAvatarEntityData()
+        return this.#_packedAvatarEntityData;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's avatar entities.
+     *  @returns {EntityProperties[]} The properties of the avatar's avatar entities.
+     */
+    getAvatarEntities(): EntityProperties[] {
+        // C++  N/A
+        return [...this.#_avatarEntities.values()];
+    }
+
+    /*@devdoc
+     *  Adds or updates a grab.
+     *  <p>The grab trait isn't marked as updated: that is done by the caller.</p>
+     *  @param {Uuid} grabID - The ID of the grab.
+     *  @param {GrabData} grab - The grab data.
+     *  @returns {boolean} <code>true</code> if the grab was added or updated, <code>false</code> if it wasn't.
+     */
+    updateAvatarGrabData(grabID: Uuid, grab: GrabData): boolean {
+        // C++  bool updateAvatarGrabData(const QUuid& grabID, const QByteArray& grabData)
+        const grabIDValue = grabID.value();
+        if (!this.#_avatarGrabData.has(grabIDValue) && this.#_avatarGrabData.size >= this.#MAX_NUM_AVATAR_GRABS) {
+            console.warn("[avatars] Can't create more grabs on avatar, limit reached.");
+            return false;
+        }
+
+        this.#_avatarGrabData.set(grabIDValue, Grab.toByteArray(grab));
+        this.#_avatarGrabs.set(grabIDValue, grab);
+        this.#_grabsChanged.emit();
+        return true;
+    }
+
+    /*@devdoc
+     *  Removes a grab and marks the grab trait as deleted.
+     *  @param {Uuid} grabID - The ID of the grab.
+     */
+    clearAvatarGrabData(grabID: Uuid): void {
+        // C++  void clearAvatarGrabData(const QUuid& grabID)
+        const grabIDValue = grabID.value();
+        this.#_avatarGrabs.delete(grabIDValue);
+        if (!this.#_avatarGrabData.delete(grabIDValue)) {
+            return;
+        }
+
+        if (this._clientTraitsHandler) {
+            this._clientTraitsHandler.markInstancedTraitDeleted(AvatarTraits.Grab, grabID);
+        }
+
+        this.#_grabsChanged.emit();
+    }
+
+    /*@devdoc
+     *  Gets the avatar's grabs' data.
+     *  @returns {Map<bigint,Uint8Array>} The grabs' data, per {@link Grab.toByteArray}, keyed by grab ID value.
+     */
+    getAvatarGrabData(): Map<bigint, Uint8Array> {
+        // C++  AvatarGrabDataMap getAvatarGrabData()
+        return this.#_avatarGrabData;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's grabs.
+     *  @returns {GrabData[]} The avatar's grabs.
+     */
+    getGrabs(): GrabData[] {
+        // C++  N/A
+        return [...this.#_avatarGrabs.values()];
+    }
+
+    /*@devdoc
+     *  Gets the avatar's far grab joints.
+     *  @returns {FarGrabJoints|null} The avatar's far grab joints. <code>null</code> if they haven't been received.
+     */
+    getFarGrabJoints(): FarGrabJoints | null {
+        // C++  glm::mat4 getControllerLeftHandMatrix(), getControllerRightHandMatrix(), etc.
+        return this.#_farGrabJoints;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's bounding box.
+     *  @returns {AvatarBoundingBox|null} The avatar's bounding box. <code>null</code> if it hasn't been received.
+     */
+    getAvatarBoundingBox(): AvatarBoundingBox | null {
+        // C++  glm::vec3 getGlobalBoundingBoxDimensions(), getGlobalBoundingBoxOffset()
+        return this.#_avatarBoundingBox;
+    }
+
+    /*@devdoc
+     *  Gets the position in the domain that the avatar is looking at.
+     *  @returns {vec3|null} The position that the avatar is looking at. <code>null</code> if it hasn't been set or received.
+     */
+    getLookAtPosition(): vec3 | null {
+        // C++  glm::vec3 HeadData::getLookAtPosition()
+        return this.#_lookAtPosition;
+    }
+
+    /*@devdoc
+     *  Sets the position in the domain that the avatar is looking at.
+     *  @param {vec3|null} lookAtPosition - The position that the avatar is looking at. <code>null</code> to not send a
+     *      position.
+     */
+    setLookAtPosition(lookAtPosition: vec3 | null): void {
+        // C++  void HeadData::setLookAtPosition(const glm::vec3& lookAtPosition)
+        if (lookAtPosition === null || this.#_lookAtPosition === null
+            || !Vec3.equal(lookAtPosition, this.#_lookAtPosition)) {
+            this.#_lookAtPositionChanged = Date.now();
+        }
+        this.#_lookAtPosition = lookAtPosition;
+    }
+
+    /*@devdoc
+     *  Gets the transform from the avatar's VR sensor space to world space.
+     *  @returns {mat4|null} The sensor-to-world matrix. <code>null</code> if it hasn't been received.
+     */
+    getSensorToWorldMatrix(): mat4 | null {
+        // C++  glm::mat4 getSensorToWorldMatrix()
+        return this.#_sensorToWorldMatrix;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's additional flags.
+     *  @returns {AvatarDataPacket.AdditionalFlags} The avatar's additional flags.
+     */
+    getAdditionalFlags(): AdditionalFlags {
+        // C++  N/A
+        return this.#_additionalFlags;
+    }
+
+    /*@devdoc
+     *  Sets the avatar's key state.
+     *  @param {KeyState} keyState - The avatar's key state.
+     */
+    setKeyState(keyState: KeyState): void {
+        // C++  void setKeyState(KeyState s)
+        if (keyState !== this.#_additionalFlags.keyState) {
+            this.#_additionalFlags = { ...this.#_additionalFlags, keyState };
+            this.#_additionalFlagsChanged = Date.now();
+        }
+    }
+
+    /*@devdoc
+     *  Sets the avatar's hand state.
+     *  @param {HandState} handState - The avatar's hand state: the sum of the relevant hand state flags.
+     */
+    setHandState(handState: number): void {
+        // C++  void setHandState(char s)
+        if (handState !== this.#_additionalFlags.handState) {
+            this.#_additionalFlags = { ...this.#_additionalFlags, handState };
+            this.#_additionalFlagsChanged = Date.now();
+        }
+    }
+
+    /*@devdoc
+     *  Gets the pose of the avatar's left hand controller.
+     *  @returns {HandControllerPose|null} The left hand controller's pose, in the avatar's frame of reference.
+     *      <code>null</code> if it hasn't been set or received.
+     */
+    getLeftHandController(): HandControllerPose | null {
+        // C++  glm::mat4 getControllerLeftHandMatrix()
+        return this.#_leftHandController;
+    }
+
+    /*@devdoc
+     *  Sets the pose of the avatar's left hand controller.
+     *  @param {HandControllerPose|null} pose - The left hand controller's pose, in the avatar's frame of reference.
+     *      <code>null</code> if the controller isn't tracked.
+     */
+    setLeftHandController(pose: HandControllerPose | null): void {
+        // C++  _controllerLeftHandMatrixCache.set(glm::mat4 value)
+        this.#_leftHandController = pose;
+    }
+
+    /*@devdoc
+     *  Gets the pose of the avatar's right hand controller.
+     *  @returns {HandControllerPose|null} The right hand controller's pose, in the avatar's frame of reference.
+     *      <code>null</code> if it hasn't been set or received.
+     */
+    getRightHandController(): HandControllerPose | null {
+        // C++  glm::mat4 getControllerRightHandMatrix()
+        return this.#_rightHandController;
+    }
+
+    /*@devdoc
+     *  Sets the pose of the avatar's right hand controller.
+     *  @param {HandControllerPose|null} pose - The right hand controller's pose, in the avatar's frame of reference.
+     *      <code>null</code> if the controller isn't tracked.
+     */
+    setRightHandController(pose: HandControllerPose | null): void {
+        // C++  _controllerRightHandMatrixCache.set(glm::mat4 value)
+        this.#_rightHandController = pose;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's facial expression.
+     *  @returns {AvatarDataPacket.FaceTrackerInfo|null} The avatar's facial expression. <code>null</code> if it hasn't been
+     *      set or received.
+     */
+    getFaceTrackerInfo(): FaceTrackerInfo | null {
+        // C++  HeadData::getBlendshapeCoefficients(), etc.
+        return this.#_faceTrackerInfo;
+    }
+
+    /*@devdoc
+     *  Gets the avatar's facial blendshape coefficients.
+     *  @returns {number[]} The avatar's blendshape coefficients. <code>[]</code> if they haven't been set or received.
+     */
+    getBlendshapeCoefficients(): number[] {
+        // C++  const QVector<float>& HeadData::getBlendshapeCoefficients()
+        return this.#_faceTrackerInfo ? this.#_faceTrackerInfo.blendshapeCoefficients : [];
+    }
+
+    /*@devdoc
+     *  Sets the avatar's facial blendshape coefficients. Setting coefficients flags the avatar as having scripted blendshapes
+     *  so that the coefficients are sent to the avatar mixer; setting <code>[]</code> clears the flag.
+     *  @param {number[]} blendshapeCoefficients - The avatar's blendshape coefficients. A maximum of 255 coefficients may be
+     *      sent.
+     */
+    setBlendshapeCoefficients(blendshapeCoefficients: number[]): void {
+        // C++  void HeadData::setBlendshapeCoefficients(const QVector<float>& blendshapeCoefficients)
+        //      void HeadData::setHasScriptedBlendshapes(bool hasScriptedBlendshapes)
+        const hasScriptedBlendshapes = blendshapeCoefficients.length > 0;
+        if (hasScriptedBlendshapes !== this.#_additionalFlags.hasScriptedBlendshapes) {
+            this.#_additionalFlags = { ...this.#_additionalFlags, hasScriptedBlendshapes };
+            this.#_additionalFlagsChanged = Date.now();
+        }
+
+        if (hasScriptedBlendshapes) {
+            // The blinks and loudness are computed procedurally by the receiving clients.
+            this.#_faceTrackerInfo = {
+                leftEyeBlink: 0,
+                rightEyeBlink: 0,
+                averageLoudness: 0,
+                browAudioLift: 0,
+                blendshapeCoefficients
+            };
+        } else {
+            this.#_faceTrackerInfo = null;
+        }
+        this.#_faceTrackerInfoChanged = Date.now();
+    }
+
+    /*@devdoc
+     *  Sets the UUID of the entity or avatar that the avatar is parented to.
+     *  @param {Uuid} parentID - The UUID of the entity or avatar that the avatar is parented to. <code>Uuid.NULL</code> if
+     *      not parented.
+     */
+    override setParentID(parentID: Uuid): void {
+        // C++  void setParentID(const QUuid& parentID)
+        if (parentID.value() !== this.getParentID().value()) {
+            super.setParentID(parentID);
+            this.#_parentChanged = Date.now();
+        }
+    }
+
+    /*@devdoc
+     *  Sets the index of the parent joint that the avatar is parented to.
+     *  @param {number} parentJointIndex - The index of the parent joint that the avatar is parented to.
+     *      <code>SpatiallyNestable.INVALID_JOINT_INDEX</code> if not parented to a joint.
+     */
+    override setParentJointIndex(parentJointIndex: number): void {
+        // C++  void setParentJointIndex(quint16 parentJointIndex)
+        if (parentJointIndex !== this.getParentJointIndex()) {
+            super.setParentJointIndex(parentJointIndex);
+            this.#_parentChanged = Date.now();
+        }
+    }
 
     /*@devdoc
-     *  Gets whether the avatar is parented to something.
-     *  @returns {boolean} <code>true</code> if the avatar is parented to something, <code>false</code> if it isn't.
+     *  Marks all the avatar's avatar entity and grab traits as updated so that they are sent to a new avatar mixer.
      */
-    protected hasParent(): boolean {
-        // C++  bool hasParent()
-        return this.getParentID().value() !== Uuid.NULL;
+    prepareResetTraitInstances(): void {
+        // C++  void prepareResetTraitInstances()
+        if (this._clientTraitsHandler) {
+            for (const entityIDValue of this.#_packedAvatarEntityData.keys()) {
+                this._clientTraitsHandler.markInstancedTraitUpdated(AvatarTraits.AvatarEntity, new Uuid(entityIDValue));
+            }
+            for (const grabIDValue of this.#_avatarGrabData.keys()) {
+                this._clientTraitsHandler.markInstancedTraitUpdated(AvatarTraits.Grab, new Uuid(grabIDValue));
+            }
+        }
     }
 
+
     /*@devdoc
      *  Sets the minimum avatar height in the domain.
      *  @param {number} domainMinimumHeight - The minimum avatar height in the domain.
@@ -1075,6 +1675,26 @@ class AvatarData extends SpatiallyNestable {
         return this.#_audioLoudnessChanged >= time;
     }
 
+    #lookAtPositionChangedSince(time: number): boolean {
+        // C++  bool lookAtPositionChangedSince(quint64 time)
+        return this.#_lookAtPositionChanged >= time;
+    }
+
+    #additionalFlagsChangedSince(time: number): boolean {
+        // C++  bool additionalFlagsChangedSince(quint64 time)
+        return this.#_additionalFlagsChanged >= time;
+    }
+
+    #faceTrackerInfoChangedSince(time: number): boolean {
+        // C++  bool faceTrackerInfoChangedSince(quint64 time)
+        return this.#_faceTrackerInfoChanged >= time;
+    }
+
+    #parentInfoChangedSince(time: number): boolean {
+        // C++  bool parentInfoChangedSince(quint64 time)
+        return this.#_parentChanged >= time;
+    }
+
     #resetJoints(): void {
         // C++  N/A
         this.#_jointRotations = new Array(this.#_avatarSkeletonData.length) as (quat | null)[];
@@ -1086,4 +1706,4 @@ class AvatarData extends SpatiallyNestable {
 }
 
 export default AvatarData;
-export { KillAvatarReason, AvatarDataDetail, BoneType };
+export { KillAvatarReason, AvatarDataDetail, BoneType, KeyState, HandState };
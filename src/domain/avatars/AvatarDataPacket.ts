@@ -9,7 +9,9 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import { quat } from "../shared/Quat";
 import Uuid from "../shared/Uuid";
+import { vec3 } from "../shared/Vec3";
 
 
 /*@devdoc
@@ -30,6 +32,70 @@ enum IdentityFlag {
 }
 
 
+type AvatarBoundingBox = {
+    // C++  AvatarDataPacket::AvatarBoundingBox
+    dimensions: vec3,
+    offset: vec3
+};
+
+type SensorToWorldMatrix = {
+    // C++  AvatarDataPacket::SensorToWorldMatrix
+    rotation: quat,
+    scale: number,
+    translation: vec3
+};
+
+type AdditionalFlags = {
+    // C++  AvatarDataPacket::AdditionalFlags
+    keyState: number,
+    handState: number,
+    hasScriptedBlendshapes: boolean,
+    hasProceduralEyeMovement: boolean,
+    audioEnabledFaceMovement: boolean,
+    proceduralEyeFaceMovement: boolean,
+    proceduralBlinkFaceMovement: boolean,
+    collideWithOtherAvatars: boolean,
+    hasPriority: boolean
+};
+
+type ParentInfo = {
+    // C++  AvatarDataPacket::ParentInfo
+    parentID: Uuid,
+    parentJointIndex: number
+};
+
+type HandControllerPose = {
+    // C++  AvatarDataPacket::HandControllerVantage
+    position: vec3,
+    rotation: quat
+};
+
+type HandControllers = {
+    // C++  AvatarDataPacket::HandControllers
+    left: HandControllerPose,
+    right: HandControllerPose
+};
+
+type FaceTrackerInfo = {
+    // C++  AvatarDataPacket::FaceTrackerInfo
+    leftEyeBlink: number,
+    rightEyeBlink: number,
+    averageLoudness: number,
+    browAudioLift: number,
+    blendshapeCoefficients: number[]
+};
+
+type FarGrabJoints = {
+    // C++  AvatarDataPacket::FarGrabJoints
+    leftFarGrabPosition: vec3,
+    leftFarGrabRotation: quat,
+    rightFarGrabPosition: vec3,
+    rightFarGrabRotation: quat,
+    mouseFarGrabPosition: vec3,
+    mouseFarGrabRotation: quat
+};
+
+
 /*@devdoc
  *  The <code>AvatarDataPacket</code> namespace provides constants used in reading and writing {@link PacketType|AvatarData}
  *  packets.
@@ -72,10 +138,103 @@ enum IdentityFlag {
  *
  *  @property {number} MIN_BULK_PACKET_SIZE=18 - The number of bytes in the UUID plus the AvatarData packet data header.
  *      <em>Read-only.</em>
+ *
+ *  @property {number} KEY_STATE_START_BIT=0 - Additional flags bit number of the two-bit key state.
+ *      <em>Read-only.</em>
+ *  @property {number} HAND_STATE_START_BIT=2 - Additional flags bit number of the two-bit hand state.
+ *      <em>Read-only.</em>
+ *  @property {number} HAS_SCRIPTED_BLENDSHAPES=4 - Additional flags bit number for the avatar having scripted blendshapes.
+ *      <em>Read-only.</em>
+ *  @property {number} HAS_PROCEDURAL_EYE_MOVEMENT=5 - Additional flags bit number for the avatar having procedural eye
+ *      movement. <em>Read-only.</em>
+ *  @property {number} HAND_STATE_FINGER_POINTING_BIT=7 - Additional flags bit number for the hand state's finger pointing
+ *      flag. <em>Read-only.</em>
+ *  @property {number} AUDIO_ENABLED_FACE_MOVEMENT=8 - Additional flags bit number for the avatar's face moving with its audio.
+ *      <em>Read-only.</em>
+ *  @property {number} PROCEDURAL_EYE_FACE_MOVEMENT=9 - Additional flags bit number for the avatar's eyes moving procedurally.
+ *      <em>Read-only.</em>
+ *  @property {number} PROCEDURAL_BLINK_FACE_MOVEMENT=10 - Additional flags bit number for the avatar's eyes blinking
+ *      procedurally. <em>Read-only.</em>
+ *  @property {number} COLLIDE_WITH_OTHER_AVATARS=11 - Additional flags bit number for the avatar colliding with other
+ *      avatars. <em>Read-only.</em>
+ *  @property {number} HAS_HERO_PRIORITY=12 - Additional flags bit number for the avatar being in a hero zone.
+ *      <em>Read-only.</em>
+ *
+ *  @property {number} SENSOR_TO_WORLD_SCALE_RADIX=10 - The fixed-point radix used for the sensor-to-world matrix scale.
+ *      <em>Read-only.</em>
+ *  @property {number} HAND_CONTROLLER_COMPRESSION_RADIX=12 - The fixed-point radix used for hand controller positions.
+ *      <em>Read-only.</em>
  */
 const AvatarDataPacket = new class {
     // C++  namespace AvatarDataPacket
 
+    /*@sdkdoc
+     *  An avatar's bounding box.
+     *  @typedef {object} AvatarBoundingBox
+     *  @property {vec3} dimensions - The dimensions of the bounding box.
+     *  @property {vec3} offset - The position of the bounding box's minimum corner relative to the avatar's position.
+     */
+    /*@devdoc
+     *  The transform from an avatar's VR sensor space to world space, as sent in the packet.
+     *  @typedef {object} AvatarDataPacket.SensorToWorldMatrix
+     *  @property {quat} rotation - The rotation.
+     *  @property {number} scale - The scale.
+     *  @property {vec3} translation - The translation.
+     */
+    /*@devdoc
+     *  Additional avatar flags.
+     *  @typedef {object} AvatarDataPacket.AdditionalFlags
+     *  @property {KeyState} keyState - The key state.
+     *  @property {HandState} handState - The hand state.
+     *  @property {boolean} hasScriptedBlendshapes - <code>true</code> if the avatar's blendshapes are set by script.
+     *  @property {boolean} hasProceduralEyeMovement - <code>true</code> if the avatar's eyes move procedurally.
+     *  @property {boolean} audioEnabledFaceMovement - <code>true</code> if the avatar's face moves with its audio.
+     *  @property {boolean} proceduralEyeFaceMovement - <code>true</code> if the avatar's eyes move procedurally.
+     *  @property {boolean} proceduralBlinkFaceMovement - <code>true</code> if the avatar's eyes blink procedurally.
+     *  @property {boolean} collideWithOtherAvatars - <code>true</code> if the avatar collides with other avatars.
+     *  @property {boolean} hasPriority - <code>true</code> if the avatar is in a hero zone.
+     */
+    /*@devdoc
+     *  An avatar's parent.
+     *  @typedef {object} AvatarDataPacket.ParentInfo
+     *  @property {Uuid} parentID - The ID of the entity or avatar that the avatar is parented to. {@link Uuid|Uuid.NULL} if
+     *      the avatar isn't parented.
+     *  @property {number} parentJointIndex - The index of the parent joint that the avatar is parented to.
+     *      <code>65535</code> if the avatar isn't parented to a joint.
+     */
+    /*@sdkdoc
+     *  The pose of an avatar's hand controller.
+     *  @typedef {object} HandControllerPose
+     *  @property {vec3} position - The position of the controller relative to the avatar.
+     *  @property {quat} rotation - The orientation of the controller relative to the avatar.
+     */
+    /*@devdoc
+     *  The poses of an avatar's hand controllers.
+     *  @typedef {object} AvatarDataPacket.HandControllers
+     *  @property {HandControllerPose} left - The left hand controller's pose.
+     *  @property {HandControllerPose} right - The right hand controller's pose.
+     */
+    /*@devdoc
+     *  An avatar's facial expression.
+     *  @typedef {object} AvatarDataPacket.FaceTrackerInfo
+     *  @property {number} leftEyeBlink - The left eye blink, <code>0.0</code> &ndash; <code>1.0</code>.
+     *  @property {number} rightEyeBlink - The right eye blink, <code>0.0</code> &ndash; <code>1.0</code>.
+     *  @property {number} averageLoudness - The average loudness of the avatar's audio.
+     *  @property {number} browAudioLift - The brow lift driven by the avatar's audio.
+     *  @property {number[]} blendshapeCoefficients - The blendshape coefficients.
+     */
+    /*@sdkdoc
+     *  The positions and orientations of an avatar's far grab joints, used to position entities that are grabbed at a distance.
+     *  The positions and orientations are in the avatar's frame of reference.
+     *  @typedef {object} FarGrabJoints
+     *  @property {vec3} leftFarGrabPosition - The position of the left hand's far grab joint.
+     *  @property {quat} leftFarGrabRotation - The orientation of the left hand's far grab joint.
+     *  @property {vec3} rightFarGrabPosition - The position of the right hand's far grab joint.
+     *  @property {quat} rightFarGrabRotation - The orientation of the right hand's far grab joint.
+     *  @property {vec3} mouseFarGrabPosition - The position of the mouse's far grab joint.
+     *  @property {quat} mouseFarGrabRotation - The orientation of the mouse's far grab joint.
+     */
+
     /* eslint-disable @typescript-eslint/no-magic-numbers */
 
     readonly PACKET_HAS_AVATAR_GLOBAL_POSITION = 1 << 0;
@@ -105,9 +264,34 @@ const AvatarDataPacket = new class {
 
     // ...
 
-    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    // C++  AvatarData.h
+    readonly KEY_STATE_START_BIT = 0;
+    readonly HAND_STATE_START_BIT = 2;
+    readonly HAS_SCRIPTED_BLENDSHAPES = 4;
+    readonly HAS_PROCEDURAL_EYE_MOVEMENT = 5;
+    readonly HAND_STATE_FINGER_POINTING_BIT = 7;
+    readonly AUDIO_ENABLED_FACE_MOVEMENT = 8;
+    readonly PROCEDURAL_EYE_FACE_MOVEMENT = 9;
+    readonly PROCEDURAL_BLINK_FACE_MOVEMENT = 10;
+    readonly COLLIDE_WITH_OTHER_AVATARS = 11;
+    readonly HAS_HERO_PRIORITY = 12;
+
+    readonly SENSOR_TO_WORLD_SCALE_RADIX = 10;
+    readonly HAND_CONTROLLER_COMPRESSION_RADIX = 12;
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
 
 }();
 
 export default AvatarDataPacket;
 export { IdentityFlag };
+export type {
+    AvatarBoundingBox,
+    SensorToWorldMatrix,
+    AdditionalFlags,
+    ParentInfo,
+    HandControllerPose,
+    HandControllers,
+    FaceTrackerInfo,
+    FarGrabJoints
+};
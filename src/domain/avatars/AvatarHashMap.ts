@@ -23,6 +23,7 @@ import SignalEmitter, { Signal } from "../shared/SignalEmitter";
 import Uuid from "../shared/Uuid";
 import AvatarData, { KillAvatarReason } from "./AvatarData";
 import AvatarTraits, { TraitType } from "./AvatarTraits";
+import SpeakingDetector from "./SpeakingDetector";
 
 
 /*@devdoc
@@ -55,6 +56,10 @@ class AvatarHashMap {
     #_avatarRemovedEvent = new SignalEmitter();
 
     #_processedTraitVersions: Map<Uuid, Map<TraitType, number>> = new Map();
+    // Keyed by avatar ID value then trait instance ID value.
+    #_processedTraitInstanceVersions: Map<bigint, Map<bigint, number>> = new Map();
+
+    #_speakingDetector = new SpeakingDetector();
 
 
     // AvatarReplicas per the C++ is not implemented because that is for load testing.
@@ -110,6 +115,19 @@ class AvatarHashMap {
         return this.#_avatarRemovedEvent.signal();
     }
 
+    /*@devdoc
+     *  Triggered when an avatar other than the user client's starts or stops speaking.
+     *  @function AvatarHashMap.speakingChanged
+     *  @param {Uuid} sessionUUID - The UUID of the avatar.
+     *  @param {boolean} isSpeaking - <code>true</code> if the avatar started speaking, <code>false</code> if it stopped
+     *      speaking.
+     *  @returns {Signal}
+     */
+    get speakingChanged(): Signal {
+        // C++  N/A
+        return this.#_speakingDetector.speakingChanged;
+    }
+
 
     /*@devdoc
      *  Clears out the data on avatars other than the user client's.
@@ -141,6 +159,15 @@ class AvatarHashMap {
         });
     }
 
+    /*@devdoc
+     *  Gets the avatars other than the user client's that are currently speaking.
+     *  @returns {Uuid[]} The session IDs of the avatars that are speaking, sorted by loudness with the loudest first.
+     */
+    getActiveSpeakers(): Array<Uuid> {
+        // C++  N/A
+        return this.#_speakingDetector.getActiveSpeakers();
+    }
+
 
     /*@devdoc
      *  Processes a {@link PacketType(1)|KillAvatar} message that has been received.
@@ -212,6 +239,8 @@ class AvatarHashMap {
         for (const avatarData of avatarDataDetails) {
             this.#parseAvatarData(avatarData, sendingNode);
         }
+
+        this.#_speakingDetector.update(Date.now());
     };
 
     /*@devdoc
@@ -266,9 +295,27 @@ class AvatarHashMap {
                     }
 
 
-                } else {
-
-                    // WEBRTC TODO: Address further C++ code - avatar entity and grab traits.
+                } else if (avatarTraitValue.instanceID !== undefined) {
+                    const avatarIDValue = avatarTraits.avatarID.value();
+                    let lastProcessedInstanceVersions = this.#_processedTraitInstanceVersions.get(avatarIDValue);
+                    if (lastProcessedInstanceVersions === undefined) {
+                        lastProcessedInstanceVersions = new Map();
+                        this.#_processedTraitInstanceVersions.set(avatarIDValue, lastProcessedInstanceVersions);
+                    }
+                    const instanceIDValue = avatarTraitValue.instanceID.value();
+                    const lastProcessedInstanceVersion = lastProcessedInstanceVersions.get(instanceIDValue) ?? 0;
+
+                    if (avatarTraitValue.version > lastProcessedInstanceVersion) {
+                        if (avatarTraitValue.isDeleted) {
+                            avatar.processDeletedTraitInstance(avatarTraitValue.type, avatarTraitValue.instanceID);
+                            lastProcessedInstanceVersions.set(instanceIDValue, avatarTraitValue.version);
+                        } else if (avatarTraitValue.value) {
+                            avatar.processTraitInstance(avatarTraitValue.type, avatarTraitValue.instanceID,
+                                avatarTraitValue.value);
+                            lastProcessedInstanceVersions.set(instanceIDValue, avatarTraitValue.version);
+                        }
+                        // Else the trait value couldn't be read so it is skipped.
+                    }
 
                 }
 
@@ -331,6 +378,8 @@ class AvatarHashMap {
         //          KillAvatarReason removalReason = KillAvatarReason::NoReason);
 
         this.#_processedTraitVersions.delete(removedAvatar.getID());
+        this.#_processedTraitInstanceVersions.delete(removedAvatar.getID().value());
+        this.#_speakingDetector.remove(removedAvatar.getSessionUUID());
 
         console.log("[avatars] Removed avatar with UUID", removedAvatar.getSessionUUID().stringify(), "from AvatarHashMap",
             removalReason);
@@ -378,6 +427,7 @@ class AvatarHashMap {
             // AvatarReplicas per the C++ is not implemented because that is for load testing.
 
             avatar.parseDataFromBuffer(avatarData);
+            this.#_speakingDetector.setLoudness(sessionUUID, avatar.getAudioLoudness());
 
         } else {
             // This shouldn't happen if the avatar mixer is functioning correctly.
@@ -14,6 +14,7 @@ import Node from "../networking/Node";
 import NodeList from "../networking/NodeList";
 import NodeType from "../networking/NodeType";
 import ContextManager from "../shared/ContextManager";
+import Uuid from "../shared/Uuid";
 import AvatarData from "./AvatarData";
 import AvatarTraits, { TraitType } from "./AvatarTraits";
 
@@ -66,6 +67,8 @@ class ClientTraitsHandler {
     // we use an array.
     // C++ AssociatedTraitValues<ClientTraitStatus, Unchanged> _traitStatuses
     #_traitStatuses = new Array<ClientTraitStatus>(AvatarTraits.NUM_SIMPLE_TRAITS).fill(ClientTraitStatus.Unchanged);
+    // Instanced trait statuses are keyed by trait type then by trait instance ID value.
+    #_instancedTraitStatuses: Map<TraitType, Map<bigint, ClientTraitStatus>> = new Map();
 
 
     constructor(owningAvatar: AvatarData, contextID: number) {
@@ -105,6 +108,30 @@ class ClientTraitsHandler {
         this.#_hasChangedTraits = true;
     }
 
+    /*@devdoc
+     *  Marks an instanced trait's status as updated.
+     *  @param {AvatarTraits.TraitType} traitType - The type of the trait.
+     *  @param {Uuid} updatedInstanceID - The ID of the trait instance to mark as updated.
+     */
+    markInstancedTraitUpdated(traitType: TraitType, updatedInstanceID: Uuid): void {
+        // C++  void markInstancedTraitUpdated(AvatarTraits::TraitType traitType, QUuid updatedInstanceID)
+
+        this.#setInstancedTraitStatus(traitType, updatedInstanceID, ClientTraitStatus.Updated);
+        this.#_hasChangedTraits = true;
+    }
+
+    /*@devdoc
+     *  Marks an instanced trait's status as deleted.
+     *  @param {AvatarTraits.TraitType} traitType - The type of the trait.
+     *  @param {Uuid} deleteInstanceID - The ID of the trait instance to mark as deleted.
+     */
+    markInstancedTraitDeleted(traitType: TraitType, deleteInstanceID: Uuid): void {
+        // C++  void markInstancedTraitDeleted(AvatarTraits::TraitType traitType, QUuid deleteInstanceID)
+
+        this.#setInstancedTraitStatus(traitType, deleteInstanceID, ClientTraitStatus.Deleted);
+        this.#_hasChangedTraits = true;
+    }
+
     /*@devdoc
      *  Resets client traits handling for a new avatar mixer.
      */
@@ -120,9 +147,10 @@ class ClientTraitsHandler {
         // Reset the trait statuses.
         // WEBRTC TODO: Call #_traitStatuses.reset() once class AssociatedTraitValues is implemented.
         this.#_traitStatuses.fill(ClientTraitStatus.Unchanged);
+        this.#_instancedTraitStatuses.clear();
 
-        // WEBRTC TODO: Instanced trait handling.
-
+        // Pre-fill the instanced trait ID for all existing instances so that they are sent.
+        this.#_owningAvatar.prepareResetTraitInstances();
     }
 
     /*@devdoc
@@ -145,21 +173,24 @@ class ClientTraitsHandler {
 
             // Take a copy of the set of changed traits and clear the stored set.
             const traitStatusCopy = [...this.#_traitStatuses];
+            const instancedTraitStatusesCopy = this.#_instancedTraitStatuses;
             // WEBRTC TODO: call #_traitStatuses.reset() once class AssociatedTraitValues is implemented
             this.#_traitStatuses.fill(ClientTraitStatus.Unchanged);
+            this.#_instancedTraitStatuses = new Map();
             this.#_hasChangedTraits = false;
 
             // If this was an initial send of all traits, consider it completed.
             const initialSend = this.#_shouldPerformInitialSend;
             this.#_shouldPerformInitialSend = false;
 
-            // Send skeletonModelURL trait.
-            // WEBRTC TODO: Send other trait types.
             const packetList = PacketScribe.SetAvatarTraits.write({
                 currentTraitVersion: this.#_currentTraitVersion,
                 skeletonModelURL: this.#_owningAvatar.getSkeletonModelURL() ?? "",
                 skeletonData: this.#_owningAvatar.getSkeletonData() ?? [],
                 traitStatuses: traitStatusCopy,
+                instancedTraitStatuses: instancedTraitStatusesCopy,
+                avatarEntityData: this.#_owningAvatar.getAvatarEntityData(),
+                avatarGrabData: this.#_owningAvatar.getAvatarGrabData(),
                 initialSend
             });
 
@@ -171,6 +202,17 @@ class ClientTraitsHandler {
         return bytesWritten;
     }
 
+
+    #setInstancedTraitStatus(traitType: TraitType, instanceID: Uuid, status: ClientTraitStatus): void {
+        // C++  AssociatedTraitValues::instanceInsert(TraitType traitType, TraitInstanceID instanceID, T value)
+        let instanceStatuses = this.#_instancedTraitStatuses.get(traitType);
+        if (instanceStatuses === undefined) {
+            instanceStatuses = new Map();
+            this.#_instancedTraitStatuses.set(traitType, instanceStatuses);
+        }
+        instanceStatuses.set(instanceID.value(), status);
+    }
+
 }
 
 export default ClientTraitsHandler;
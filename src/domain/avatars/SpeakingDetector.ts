@@ -0,0 +1,157 @@
+//
+//  SpeakingDetector.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+import Uuid from "../shared/Uuid";
+
+
+type SpeakerState = {
+    id: Uuid,
+    loudness: number,
+    isSpeaking: boolean,
+    quietSince: number | null
+};
+
+
+/*@devdoc
+ *  The <code>SpeakingDetector</code> class determines which avatars are speaking from the audio loudness values received for
+ *  them in {@link PacketType(1)|BulkAvatarData} packets.
+ *  <p>Hysteresis is applied: an avatar starts speaking when its loudness rises above a start threshold and stops speaking
+ *  only when its loudness has been below a lower stop threshold for a hold time. This avoids speaking indicators flickering
+ *  during brief pauses in speech.</p>
+ *  <p>C++: N/A</p>
+ *  @class SpeakingDetector
+ *
+ *  @property {number} START_SPEAKING_LOUDNESS=60 - The loudness above which an avatar starts speaking.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} STOP_SPEAKING_LOUDNESS=30 - The loudness below which an avatar may stop speaking.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {number} HOLD_TIME=500 - The time that an avatar's loudness must remain below the stop threshold before the
+ *      avatar stops speaking, in ms.
+ *      <p><em>Static. Read-only.</em></p>
+ */
+class SpeakingDetector {
+    // C++  N/A
+
+    // Loudness values are the average absolute 16-bit sample value of the avatar's audio input.
+    static readonly START_SPEAKING_LOUDNESS = 60;
+    static readonly STOP_SPEAKING_LOUDNESS = 30;
+    static readonly HOLD_TIME = 500;  // ms
+
+
+    #_speakers: Map<bigint, SpeakerState> = new Map();  // Map<Uuid.value(), SpeakerState>
+
+    #_speakingChanged = new SignalEmitter();
+
+
+    /*@devdoc
+     *  Triggered when an avatar starts or stops speaking.
+     *  @function SpeakingDetector.speakingChanged
+     *  @param {Uuid} id - The session ID of the avatar.
+     *  @param {boolean} isSpeaking - <code>true</code> if the avatar started speaking, <code>false</code> if it stopped
+     *      speaking.
+     *  @returns {Signal}
+     */
+    get speakingChanged(): Signal {
+        return this.#_speakingChanged.signal();
+    }
+
+
+    /*@devdoc
+     *  Sets the current audio loudness of an avatar. Call {@link SpeakingDetector.update|update} after setting the loudness
+     *  values for all avatars received in a packet.
+     *  @param {Uuid} id - The session ID of the avatar.
+     *  @param {number} loudness - The avatar's audio loudness.
+     */
+    setLoudness(id: Uuid, loudness: number): void {
+        const speaker = this.#_speakers.get(id.value());
+        if (speaker) {
+            speaker.loudness = loudness;
+        } else {
+            this.#_speakers.set(id.value(), {
+                id,
+                loudness,
+                isSpeaking: false,
+                quietSince: null
+            });
+        }
+    }
+
+    /*@devdoc
+     *  Updates whether each avatar is speaking, triggering {@link SpeakingDetector.speakingChanged|speakingChanged} signals
+     *  for avatars that have started or stopped speaking.
+     *  @param {number} now - The current time, in ms.
+     */
+    update(now: number): void {
+        for (const speaker of this.#_speakers.values()) {
+            if (!speaker.isSpeaking) {
+                if (speaker.loudness > SpeakingDetector.START_SPEAKING_LOUDNESS) {
+                    speaker.isSpeaking = true;
+                    speaker.quietSince = null;
+                    this.#_speakingChanged.emit(speaker.id, true);
+                }
+            } else if (speaker.loudness >= SpeakingDetector.STOP_SPEAKING_LOUDNESS) {
+                speaker.quietSince = null;
+            } else if (speaker.quietSince === null) {
+                speaker.quietSince = now;
+            } else if (now - speaker.quietSince >= SpeakingDetector.HOLD_TIME) {
+                speaker.isSpeaking = false;
+                speaker.quietSince = null;
+                this.#_speakingChanged.emit(speaker.id, false);
+            }
+        }
+    }
+
+    /*@devdoc
+     *  Stops tracking an avatar, triggering a {@link SpeakingDetector.speakingChanged|speakingChanged} signal if it was
+     *  speaking.
+     *  @param {Uuid} id - The session ID of the avatar.
+     */
+    remove(id: Uuid): void {
+        const speaker = this.#_speakers.get(id.value());
+        if (speaker) {
+            this.#_speakers.delete(id.value());
+            if (speaker.isSpeaking) {
+                this.#_speakingChanged.emit(speaker.id, false);
+            }
+        }
+    }
+
+    /*@devdoc
+     *  Gets whether an avatar is speaking.
+     *  @param {Uuid} id - The session ID of the avatar.
+     *  @returns {boolean} <code>true</code> if the avatar is speaking, <code>false</code> if it isn't or isn't being tracked.
+     */
+    isSpeaking(id: Uuid): boolean {
+        const speaker = this.#_speakers.get(id.value());
+        return speaker ? speaker.isSpeaking : false;
+    }
+
+    /*@devdoc
+     *  Gets the avatars that are currently speaking.
+     *  @returns {Uuid[]} The session IDs of the avatars that are speaking, sorted by loudness with the loudest first.
+     */
+    getActiveSpeakers(): Uuid[] {
+        return [...this.#_speakers.values()]
+            .filter((speaker) => {
+                return speaker.isSpeaking;
+            })
+            .sort((a, b) => {
+                return b.loudness - a.loudness;
+            })
+            .map((speaker) => {
+                return speaker.id;
+            });
+    }
+
+}
+
+export default SpeakingDetector;
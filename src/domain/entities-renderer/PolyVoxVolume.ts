@@ -0,0 +1,430 @@
+//
+//  PolyVoxVolume.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { inflate } from "pako";
+import UDT from "../networking/udt/UDT";
+import PolyVoxSurfaceStyle from "../shared/PolyVoxSurfaceStyle";
+import type { vec3 } from "../shared/Vec3";
+import MarchingCubesTables from "./MarchingCubesTables";
+
+
+type PolyVoxMesh = {
+    positions: Float32Array,
+    normals: Float32Array,
+    indices: Uint32Array
+};
+
+
+/*@sdkdoc
+ *  The <code>PolyVoxVolume</code> class provides the voxels of a {@link PolyVoxEntityProperties|PolyVox entity} as a 3D grid of
+ *  voxel values, and generates a mesh of the voxels' surface for rendering.
+ *  <p>Voxel values are integers in the range <code>0</code> &ndash; <code>255</code>. A value of <code>0</code> is empty; a
+ *  value greater than <code>0</code> is solid.</p>
+ *  <p>C++: <code>class RenderablePolyVoxEntityItem : public PolyVoxEntityItem</code></p>
+ *
+ *  @class PolyVoxVolume
+ *  @param {vec3} voxelVolumeSize - The number of voxels along each axis of the entity, per the entity's
+ *      <code>voxelVolumeSize</code> property. Values are rounded to integers in the range <code>1</code> &ndash;
+ *      <code>128</code>.
+ *  @param {ArrayBuffer} [voxelData] - The compressed voxel data, per the entity's <code>voxelData</code> property. If not
+ *      specified, or if the data can't be decoded, all voxels are empty.
+ *
+ *  @property {number} MAX_VOXEL_DIMENSION=128 - The maximum number of voxels along each axis.
+ *      <em>Read-only.</em>
+ *      <p><em>Static</em></p>
+ *      @static
+ *  @property {vec3} voxelVolumeSize - The number of voxels along each axis.
+ *      <em>Read-only.</em>
+ */
+class PolyVoxVolume {
+    // C++  class RenderablePolyVoxEntityItem : public PolyVoxEntityItem
+
+    // C++  PolyVoxEntityItem::MAX_VOXEL_DIMENSION
+    static readonly MAX_VOXEL_DIMENSION = 128;
+
+    // C++  PolyVox::DefaultMarchingCubesController<uint8_t>::getThreshold()
+    static readonly #SURFACE_THRESHOLD = 127;
+
+    // The voxel data header is the volume size as three quint16 values followed by the compressed data length as a quint32.
+    static readonly #VOXEL_DATA_HEADER_BYTES = 10;
+    // qCompress() prefixes the zlib data with the uncompressed data length as a quint32.
+    static readonly #QCOMPRESS_HEADER_BYTES = 4;
+    static readonly #QBYTEARRAY_NULL_LENGTH = 0xffffffff;
+
+    // Axis-aligned unit vectors for the faces of a voxel.
+    static readonly #FACE_DIRECTIONS: readonly (readonly [number, number, number])[] = [
+        [1, 0, 0],
+        [-1, 0, 0],
+        [0, 1, 0],
+        [0, -1, 0],
+        [0, 0, 1],
+        [0, 0, -1]
+    ];
+
+
+    #_voxelVolumeSize: vec3;
+    #_voxels: Uint8Array;
+
+
+    constructor(voxelVolumeSize: vec3, voxelData?: ArrayBuffer) {
+        // C++  void RenderablePolyVoxEntityItem::setVoxelVolumeSize(const glm::vec3& voxelVolumeSize)
+        const clampDimension = (value: number) => {
+            return Math.min(Math.max(Math.round(value), 1), PolyVoxVolume.MAX_VOXEL_DIMENSION);
+        };
+        this.#_voxelVolumeSize = {
+            x: clampDimension(voxelVolumeSize.x),
+            y: clampDimension(voxelVolumeSize.y),
+            z: clampDimension(voxelVolumeSize.z)
+        };
+        this.#_voxels = new Uint8Array(this.#_voxelVolumeSize.x * this.#_voxelVolumeSize.y * this.#_voxelVolumeSize.z);
+
+        if (voxelData && voxelData.byteLength > 0) {
+            this.#decompressVolumeData(voxelData);
+        }
+    }
+
+
+    get voxelVolumeSize(): vec3 {
+        return { ...this.#_voxelVolumeSize };
+    }
+
+
+    /*@sdkdoc
+     *  Gets the value of a voxel.
+     *  @param {number} x - The integer x-coordinate of the voxel.
+     *  @param {number} y - The integer y-coordinate of the voxel.
+     *  @param {number} z - The integer z-coordinate of the voxel.
+     *  @returns {number} The value of the voxel, range <code>0</code> &ndash; <code>255</code>. <code>0</code> if the voxel is
+     *      outside the volume.
+     */
+    getVoxel(x: number, y: number, z: number): number {
+        // C++  uint8_t RenderablePolyVoxEntityItem::getVoxel(const ivec3& v) const
+        if (!this.#inUserBounds(x, y, z)) {
+            return 0;
+        }
+        return this.#_voxels[this.#voxelIndex(x, y, z)] as number;
+    }
+
+    /*@sdkdoc
+     *  A triangle mesh of a PolyVox entity's surface.
+     *  <p>Vertex positions are in voxel coordinates: the volume spans from <code>(0, 0, 0)</code> to
+     *  <code>voxelVolumeSize</code>, with voxel <code>(x, y, z)</code> occupying the unit cube from <code>(x, y, z)</code> to
+     *  <code>(x + 1, y + 1, z + 1)</code>. To position the mesh in the entity's local coordinates, multiply the positions by
+     *  <code>dimensions / voxelVolumeSize</code> then subtract <code>dimensions * registrationPoint</code>.</p>
+     *  @typedef {object} PolyVoxMesh
+     *  @property {Float32Array} positions - The x, y, z position of each vertex.
+     *  @property {Float32Array} normals - The x, y, z normal of each vertex.
+     *  @property {Uint32Array} indices - The vertex indexes of each triangle. Triangles are wound counter-clockwise when viewed
+     *      from outside the surface.
+     */
+
+    /*@sdkdoc
+     *  Generates a triangle mesh of the voxels' surface.
+     *  <p>The <code>MARCHING_CUBES</code> and <code>CUBIC</code> styles don't generate surfaces on the volume's lower
+     *  <code>x</code>, <code>y</code>, and <code>z</code> faces so that neighboring PolyVox entities can be joined. The
+     *  <code>EDGED_MARCHING_CUBES</code> and <code>EDGED_CUBIC</code> styles generate surfaces on all the volume's faces.</p>
+     *  @param {PolyVoxSurfaceStyle} voxelSurfaceStyle - The style of surface to generate, per the entity's
+     *      <code>voxelSurfaceStyle</code> property.
+     *  @returns {PolyVoxMesh} The surface mesh.
+     */
+    getMesh(voxelSurfaceStyle: PolyVoxSurfaceStyle): PolyVoxMesh {
+        // C++  void RenderablePolyVoxEntityItem::recomputeMesh()
+        switch (voxelSurfaceStyle) {
+            case PolyVoxSurfaceStyle.MARCHING_CUBES:
+                return this.#extractMarchingCubesSurface(false);
+            case PolyVoxSurfaceStyle.EDGED_MARCHING_CUBES:
+                return this.#extractMarchingCubesSurface(true);
+            case PolyVoxSurfaceStyle.CUBIC:
+                return this.#extractCubicSurface(false);
+            case PolyVoxSurfaceStyle.EDGED_CUBIC:
+                return this.#extractCubicSurface(true);
+            default:
+                console.error("[PolyVoxVolume] Invalid voxel surface style:", voxelSurfaceStyle);
+                return {
+                    positions: new Float32Array(0),
+                    normals: new Float32Array(0),
+                    indices: new Uint32Array(0)
+                };
+        }
+    }
+
+
+    #decompressVolumeData(voxelData: ArrayBuffer): void {
+        // C++  void RenderablePolyVoxEntityItem::decompressVolumeData()
+        //      void RenderablePolyVoxEntityItem::setVoxelsFromData(QByteArray uncompressedData, quint16 voxelXSize,
+        //          quint16 voxelYSize, quint16 voxelZSize)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        if (voxelData.byteLength < PolyVoxVolume.#VOXEL_DATA_HEADER_BYTES + PolyVoxVolume.#QCOMPRESS_HEADER_BYTES) {
+            console.error("[PolyVoxVolume] Voxel data is too short.");
+            return;
+        }
+
+        const data = new DataView(voxelData);
+        const voxelXSize = data.getUint16(0, UDT.BIG_ENDIAN);
+        const voxelYSize = data.getUint16(2, UDT.BIG_ENDIAN);
+        const voxelZSize = data.getUint16(4, UDT.BIG_ENDIAN);
+        if (voxelXSize === 0 || voxelXSize > PolyVoxVolume.MAX_VOXEL_DIMENSION
+                || voxelYSize === 0 || voxelYSize > PolyVoxVolume.MAX_VOXEL_DIMENSION
+                || voxelZSize === 0 || voxelZSize > PolyVoxVolume.MAX_VOXEL_DIMENSION) {
+            console.error("[PolyVoxVolume] Voxel data size is not reasonable:", voxelXSize, voxelYSize, voxelZSize);
+            return;
+        }
+
+        const compressedLength = data.getUint32(6, UDT.BIG_ENDIAN);
+        if (compressedLength === PolyVoxVolume.#QBYTEARRAY_NULL_LENGTH
+                || compressedLength < PolyVoxVolume.#QCOMPRESS_HEADER_BYTES
+                || PolyVoxVolume.#VOXEL_DATA_HEADER_BYTES + compressedLength > voxelData.byteLength) {
+            console.error("[PolyVoxVolume] Voxel data length is not valid:", compressedLength);
+            return;
+        }
+
+        let uncompressedData: Uint8Array | null = null;
+        try {
+            uncompressedData = inflate(new Uint8Array(voxelData,
+                PolyVoxVolume.#VOXEL_DATA_HEADER_BYTES + PolyVoxVolume.#QCOMPRESS_HEADER_BYTES,
+                compressedLength - PolyVoxVolume.#QCOMPRESS_HEADER_BYTES));
+        } catch (err) {
+            console.error("[PolyVoxVolume] Could not decompress voxel data:", err);
+            return;
+        }
+
+        // The C++ volume for the non-edged surface styles includes an extra layer of voxels on each upper face, and this layer
+        // may be included in the data.
+        let strideX = voxelXSize;
+        let strideY = voxelYSize;
+        if (uncompressedData.length === (voxelXSize + 1) * (voxelYSize + 1) * (voxelZSize + 1)) {
+            strideX += 1;
+            strideY += 1;
+        } else if (uncompressedData.length !== voxelXSize * voxelYSize * voxelZSize) {
+            console.error("[PolyVoxVolume] Voxel data length doesn't match its size:", uncompressedData.length, voxelXSize,
+                voxelYSize, voxelZSize);
+            return;
+        }
+
+        const sizeX = Math.min(voxelXSize, this.#_voxelVolumeSize.x);
+        const sizeY = Math.min(voxelYSize, this.#_voxelVolumeSize.y);
+        const sizeZ = Math.min(voxelZSize, this.#_voxelVolumeSize.z);
+        for (let z = 0; z < sizeZ; z++) {
+            for (let y = 0; y < sizeY; y++) {
+                for (let x = 0; x < sizeX; x++) {
+                    const uncompressedIndex = z * strideY * strideX + y * strideX + x;
+                    this.#_voxels[this.#voxelIndex(x, y, z)] = uncompressedData[uncompressedIndex] as number;
+                }
+            }
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
+    #inUserBounds(x: number, y: number, z: number): boolean {
+        // C++  bool inUserBounds(const PolyVox::SimpleVolume<uint8_t>* vol,
+        //          PolyVoxEntityItem::PolyVoxSurfaceStyle surfaceStyle, const ivec3& v)
+        return x >= 0 && x < this.#_voxelVolumeSize.x
+            && y >= 0 && y < this.#_voxelVolumeSize.y
+            && z >= 0 && z < this.#_voxelVolumeSize.z;
+    }
+
+    #voxelIndex(x: number, y: number, z: number): number {
+        return (z * this.#_voxelVolumeSize.y + y) * this.#_voxelVolumeSize.x + x;
+    }
+
+    #extractCubicSurface(isEdged: boolean): PolyVoxMesh {
+        // C++  PolyVox::CubicSurfaceExtractorWithNormals
+        const positions: number[] = [];
+        const normals: number[] = [];
+        const indices: number[] = [];
+
+        const size = this.#_voxelVolumeSize;
+        for (let z = 0; z < size.z; z++) {
+            for (let y = 0; y < size.y; y++) {
+                for (let x = 0; x < size.x; x++) {
+                    if (this.getVoxel(x, y, z) !== 0) {
+                        for (const direction of PolyVoxVolume.#FACE_DIRECTIONS) {
+                            const [dx, dy, dz] = direction;
+                            const nx = x + dx;
+                            const ny = y + dy;
+                            const nz = z + dz;
+
+                            // The non-edged volume doesn't extend below the lower faces.
+                            const isInVolume = isEdged || nx >= 0 && ny >= 0 && nz >= 0;
+                            if (isInVolume && this.getVoxel(nx, ny, nz) === 0) {
+                                this.#appendFace(x, y, z, direction, positions, normals, indices);
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        return {
+            positions: new Float32Array(positions),
+            normals: new Float32Array(normals),
+            indices: new Uint32Array(indices)
+        };
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    #appendFace(x: number, y: number, z: number, direction: readonly [number, number, number], positions: number[],
+        normals: number[], indices: number[]): void {
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        const axis = direction.findIndex((value) => {
+            return value !== 0;
+        });
+        const isPositive = (direction[axis] as number) > 0;
+        const uAxis = (axis + 1) % 3;
+        const vAxis = (axis + 2) % 3;
+
+        // Order the quad's corners counter-clockwise as seen from outside the face.
+        const quadCorners = isPositive
+            ? [[0, 0], [1, 0], [1, 1], [0, 1]]
+            : [[0, 0], [0, 1], [1, 1], [1, 0]];
+
+        const firstVertex = positions.length / 3;
+        const origin = [x, y, z];
+        for (const [u, v] of quadCorners) {
+            const corner = [...origin];
+            corner[axis] = (corner[axis] as number) + (isPositive ? 1 : 0);
+            corner[uAxis] = (corner[uAxis] as number) + (u as number);
+            corner[vAxis] = (corner[vAxis] as number) + (v as number);
+            positions.push(...corner);
+            normals.push(...direction);
+        }
+
+        indices.push(firstVertex, firstVertex + 1, firstVertex + 2, firstVertex, firstVertex + 2, firstVertex + 3);
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
+    #extractMarchingCubesSurface(isEdged: boolean): PolyVoxMesh {
+        // C++  PolyVox::MarchingCubesSurfaceExtractor
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        const positions: number[] = [];
+        const normals: number[] = [];
+        const indices: number[] = [];
+
+        // Sample the volume at voxel centers. The non-edged volume extends one voxel beyond the upper faces; the edged volume
+        // extends one voxel beyond all faces. Voxels outside the volume are empty.
+        const size = this.#_voxelVolumeSize;
+        const min = isEdged ? -1 : 0;
+        const cornersX = size.x + 1 - min;
+        const cornersY = size.y + 1 - min;
+
+        const threshold = PolyVoxVolume.#SURFACE_THRESHOLD;
+        const edgeVertices = new Map<number, number>();
+        const cellValues = new Array<number>(8);
+        const cellVertices = new Array<number>(12);
+
+        const gradient = (x: number, y: number, z: number): [number, number, number] => {
+            return [
+                (this.getVoxel(x + 1, y, z) - this.getVoxel(x - 1, y, z)) / 2,
+                (this.getVoxel(x, y + 1, z) - this.getVoxel(x, y - 1, z)) / 2,
+                (this.getVoxel(x, y, z + 1) - this.getVoxel(x, y, z - 1)) / 2
+            ];
+        };
+
+        for (let z = min; z < size.z; z++) {
+            for (let y = min; y < size.y; y++) {
+                for (let x = min; x < size.x; x++) {
+
+                    let cubeIndex = 0;
+                    for (let i = 0; i < 8; i++) {
+                        const [cx, cy, cz] = MarchingCubesTables.CORNERS[i] as [number, number, number];
+                        const value = this.getVoxel(x + cx, y + cy, z + cz);
+                        cellValues[i] = value;
+                        if (value <= threshold) {
+                            cubeIndex |= 1 << i;
+                        }
+                    }
+
+                    const triangles = MarchingCubesTables.TRIANGLES[cubeIndex] as readonly number[];
+                    if (triangles.length > 0) {
+                        for (const edge of new Set(triangles)) {
+                            const [corner0, corner1] = MarchingCubesTables.EDGES[edge] as [number, number];
+                            const p0 = MarchingCubesTables.CORNERS[corner0] as [number, number, number];
+                            const p1 = MarchingCubesTables.CORNERS[corner1] as [number, number, number];
+
+                            // Share vertices between cells, keyed by the edge's lower corner and its axis.
+                            const axis = [0, 1, 2].find((a) => {
+                                return p0[a] !== p1[a];
+                            }) as number;
+                            const lowerX = x + Math.min(p0[0], p1[0]) - min;
+                            const lowerY = y + Math.min(p0[1], p1[1]) - min;
+                            const lowerZ = z + Math.min(p0[2], p1[2]) - min;
+                            const key = ((lowerZ * cornersY + lowerY) * cornersX + lowerX) * 3 + axis;
+
+                            let vertex = edgeVertices.get(key);
+                            if (vertex === undefined) {
+                                const v0 = cellValues[corner0] as number;
+                                const v1 = cellValues[corner1] as number;
+                                const t = (threshold - v0) / (v1 - v0);
+
+                                const x0 = x + p0[0];
+                                const y0 = y + p0[1];
+                                const z0 = z + p0[2];
+                                const x1 = x + p1[0];
+                                const y1 = y + p1[1];
+                                const z1 = z + p1[2];
+                                positions.push(
+                                    x0 + t * (x1 - x0) + 0.5,
+                                    y0 + t * (y1 - y0) + 0.5,
+                                    z0 + t * (z1 - z0) + 0.5
+                                );
+
+                                // The density increases into the surface so the normal is opposite the gradient.
+                                const g0 = gradient(x0, y0, z0);
+                                const g1 = gradient(x1, y1, z1);
+                                const nx = -(g0[0] + t * (g1[0] - g0[0]));
+                                const ny = -(g0[1] + t * (g1[1] - g0[1]));
+                                const nz = -(g0[2] + t * (g1[2] - g0[2]));
+                                const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+                                if (length > 0) {
+                                    normals.push(nx / length, ny / length, nz / length);
+                                } else {
+                                    normals.push(0, 0, 0);
+                                }
+
+                                vertex = positions.length / 3 - 1;
+                                edgeVertices.set(key, vertex);
+                            }
+                            cellVertices[edge] = vertex;
+                        }
+
+                        for (let i = 0; i < triangles.length; i += 3) {
+                            indices.push(
+                                cellVertices[triangles[i] as number] as number,
+                                cellVertices[triangles[i + 1] as number] as number,
+                                cellVertices[triangles[i + 2] as number] as number
+                            );
+                        }
+                    }
+                }
+            }
+        }
+
+        return {
+            positions: new Float32Array(positions),
+            normals: new Float32Array(normals),
+            indices: new Uint32Array(indices)
+        };
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
+}
+
+export default PolyVoxVolume;
+export type { PolyVoxMesh };
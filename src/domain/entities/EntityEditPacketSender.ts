@@ -0,0 +1,205 @@
+//
+//  EntityEditPacketSender.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityItemProperties, { EntityEditProperties } from "./EntityItemProperties";
+import { EntityType } from "./EntityTypes";
+import PacketScribe from "../networking/packets/PacketScribe";
+import PacketType, { PacketTypeValue } from "../networking/udt/PacketHeaders";
+import UDT from "../networking/udt/UDT";
+import NLPacket from "../networking/NLPacket";
+import Node from "../networking/Node";
+import NodeList from "../networking/NodeList";
+import NodeType from "../networking/NodeType";
+import PacketReceiver from "../networking/PacketReceiver";
+import ReceivedMessage from "../networking/ReceivedMessage";
+import ContextManager from "../shared/ContextManager";
+import HighResolutionClock from "../shared/HighResolutionClock";
+import PropertyFlags from "../shared/PropertyFlags";
+import Uuid from "../shared/Uuid";
+
+
+/*@devdoc
+ *  The <code>EntityEditPacketSender</code> class sends entity add, edit, and erase packets to the entity server, and resends
+ *  packets that the entity server reports it didn't receive.
+ *  <p>C++: <code>class EntityEditPacketSender : public OctreeEditPacketSender</code></p>
+ *  @class EntityEditPacketSender
+ *  @property {string} contextItemType="EntityEditPacketSender" - The type name for use with the {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ *
+ *  @param {number} contextID - The {@link ContextManager} context ID.
+ */
+class EntityEditPacketSender {
+    // C++  class EntityEditPacketSender : public OctreeEditPacketSender
+
+    static readonly contextItemType = "EntityEditPacketSender";
+
+
+    // C++  SentPacketHistory::MAX_REASONABLE_SEQUENCE_GAP
+    static readonly #MAX_SENT_PACKET_HISTORY = 1000;
+
+    // The sequence number and sent time written ahead of the edit message.
+    static readonly #EDIT_PACKET_HEADER_BYTES = 2 + 8;  // eslint-disable-line @typescript-eslint/no-magic-numbers
+
+    static readonly #MAX_SEQUENCE_NUMBER = 0xffff;
+
+
+    // Context
+    #_nodeList;
+
+    #_sequenceNumber = 0;
+    #_sentPacketHistory: Map<number, () => NLPacket> = new Map();
+
+
+    constructor(contextID: number) {
+        // C++  OctreeEditPacketSender::OctreeEditPacketSender()
+
+        // Context
+        this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+
+        // C++  EntityEditPacketSender::processEntityEditNackPacket() is registered as the listener in Application.
+        this.#_nodeList.getPacketReceiver().registerListener(PacketType.EntityEditNack,
+            PacketReceiver.makeSourcedListenerReference(this.#processEntityEditNackPacket));
+
+        this.#_nodeList.nodeKilled.connect(this.#nodeKilled);
+    }
+
+
+    /*@devdoc
+     *  Sends an entity add or edit message to the entity server. If all the entity's properties don't fit in a single packet
+     *  then further {@link PacketType(1)|EntityEdit} packets are sent with the remaining properties.
+     *  @param {PacketType} type - The type of packet: <code>EntityAdd</code> or <code>EntityEdit</code>.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @param {EntityType} entityType - The type of the entity.
+     *  @param {EntityEditProperties} properties - The entity property values to send.
+     */
+    queueEditEntityMessage(type: PacketTypeValue, entityID: Uuid, entityType: EntityType,
+        properties: EntityEditProperties): void {
+        // C++  void EntityEditPacketSender::queueEditEntityMessage(PacketType type, EntityTreePointer entityTree,
+        //          EntityItemID entityItemID, const EntityItemProperties& properties)
+
+        const node = this.#_nodeList.soloNodeOfType(NodeType.EntityServer);
+        if (!node || !node.getActiveSocket()) {
+            // WEBRTC TODO: Address further C++ code - queue messages pending the entity server's availability.
+            return;
+        }
+
+        let packetType = type;
+        let requestedProperties: PropertyFlags | null = null;
+        const lastEdited = HighResolutionClock.now();
+        const maxSize = UDT.MAX_PACKET_SIZE - NLPacket.totalNLHeaderSize(packetType, false)
+            - EntityEditPacketSender.#EDIT_PACKET_HEADER_BYTES;
+
+        // Start the loop assuming there's more to send.
+        let isPartial = true;
+        while (isPartial) {
+            const encodeResult = EntityItemProperties.encodeEntityEditPacket(entityID, entityType, properties, lastEdited,
+                requestedProperties, maxSize);
+            if (encodeResult === null) {
+                console.error("[EntityServer] Could not fit entity properties in an edit packet!");
+                return;
+            }
+
+            const editMessage = encodeResult.editMessage;
+            const sentTime = HighResolutionClock.now();
+            const editPacketType = packetType;
+            this.#sendPacket(node, (sequenceNumber: number) => {
+                const details = { sequenceNumber, sentTime, editMessage };
+                return editPacketType === PacketType.EntityAdd
+                    ? PacketScribe.EntityAdd.write(details)
+                    : PacketScribe.EntityEdit.write(details);
+            });
+
+            // If we still have properties to send, switch the message type to edit, and request only the properties that
+            // didn't fit.
+            isPartial = !encodeResult.didntFitProperties.isEmpty();
+            if (isPartial) {
+                packetType = PacketType.EntityEdit;
+                requestedProperties = encodeResult.didntFitProperties;
+            }
+        }
+    }
+
+    /*@devdoc
+     *  Sends an entity erase message to the entity server.
+     *  @param {Uuid} entityID - The ID of the entity to delete.
+     */
+    queueEraseEntityMessage(entityID: Uuid): void {
+        // C++  void EntityEditPacketSender::queueEraseEntityMessage(const EntityItemID& entityItemID)
+
+        const node = this.#_nodeList.soloNodeOfType(NodeType.EntityServer);
+        if (!node || !node.getActiveSocket()) {
+            // WEBRTC TODO: Address further C++ code - queue messages pending the entity server's availability.
+            return;
+        }
+
+        const sentTime = HighResolutionClock.now();
+        this.#sendPacket(node, (sequenceNumber: number) => {
+            return PacketScribe.EntityErase.write({ sequenceNumber, sentTime, entityIDs: [entityID] });
+        });
+    }
+
+
+    // Packets are recreated rather than copied when they're resent, so the sent packet history stores a function that writes
+    // the packet.
+    #sendPacket(node: Node, writePacket: (sequenceNumber: number) => NLPacket): void {
+        // C++  void OctreeEditPacketSender::releaseQueuedPacket(const QUuid& nodeID, std::unique_ptr<NLPacket> packet)
+        //      void OctreeEditPacketSender::queuePacketToNode(const QUuid& nodeUUID, std::unique_ptr<NLPacket> packet)
+        const sequenceNumber = this.#_sequenceNumber;
+        const writeSequencedPacket = () => {
+            return writePacket(sequenceNumber);
+        };
+
+        this.#_sentPacketHistory.set(sequenceNumber, writeSequencedPacket);
+        if (this.#_sentPacketHistory.size > EntityEditPacketSender.#MAX_SENT_PACKET_HISTORY) {
+            const oldestSequenceNumber = this.#_sentPacketHistory.keys().next().value as number;
+            this.#_sentPacketHistory.delete(oldestSequenceNumber);
+        }
+        this.#_sequenceNumber = this.#_sequenceNumber === EntityEditPacketSender.#MAX_SEQUENCE_NUMBER
+            ? 0
+            : this.#_sequenceNumber + 1;
+
+        this.#_nodeList.sendUnreliablePacket(writeSequencedPacket(), node);
+    }
+
+
+    // Listener
+    #processEntityEditNackPacket = (message: ReceivedMessage, sendingNode: Node | null): void => {
+        // C++  void EntityEditPacketSender::processEntityEditNackPacket(QSharedPointer<ReceivedMessage> message,
+        //          SharedNodePointer sendingNode)
+        //      void OctreeEditPacketSender::processNackPacket(ReceivedMessage& message, SharedNodePointer sendingNode)
+        if (!sendingNode) {
+            return;
+        }
+
+        const info = PacketScribe.EntityEditNack.read(message.getMessage());
+        for (const sequenceNumber of info.sequenceNumbers) {
+            const writePacket = this.#_sentPacketHistory.get(sequenceNumber);
+            if (writePacket) {
+                this.#_nodeList.sendUnreliablePacket(writePacket(), sendingNode);
+            }
+        }
+    };
+
+    // Slot
+    #nodeKilled = (node: Node): void => {
+        // C++  void OctreeEditPacketSender::nodeKilled(SharedNodePointer node)
+        if (node.getType() !== NodeType.EntityServer) {
+            return;
+        }
+
+        // The next edit packets are sent to a new entity server.
+        this.#_sequenceNumber = 0;
+        this.#_sentPacketHistory.clear();
+    };
+
+}
+
+export default EntityEditPacketSender;
@@ -0,0 +1,487 @@
+//
+//  EntityItemProperties.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { CommonEntityProperties } from "../networking/packets/EntityData";
+import UDT from "../networking/udt/UDT";
+import OctreePacketData from "../octree/OctreePacketData";
+import AACube from "../shared/AACube";
+import ByteCountCoded from "../shared/ByteCountCoded";
+import type { color } from "../shared/Color";
+import "../shared/DataViewExtensions";
+import PropertyFlags from "../shared/PropertyFlags";
+import type { quat } from "../shared/Quat";
+import Uuid from "../shared/Uuid";
+import type { vec3 } from "../shared/Vec3";
+import { EntityPropertyFlags } from "./EntityPropertyFlags";
+import { EntityType } from "./EntityTypes";
+import type { ModelEntitySubclassProperties } from "./ModelEntityItem";
+import type { ShapeEntitySubclassProperties } from "./ShapeEntityItem";
+
+
+// Properties that are maintained by the entity server.
+type ServerEntityProperties = "entityItemID" | "createdFromBuffer" | "lastEdited" | "updateDelta" | "simulatedDelta"
+| "simOwnerData" | "lastEditedBy";
+
+type EntityEditProperties = Partial<Omit<CommonEntityProperties, ServerEntityProperties>>
+& Partial<ShapeEntitySubclassProperties> & Partial<ModelEntitySubclassProperties>;
+
+type EntityEditPacketData = {
+    editMessage: Uint8Array,
+    didntFitProperties: PropertyFlags
+};
+
+
+/*@devdoc
+ *  The <code>EntityPropertyAppender</code> class appends requested entity property values to octree packet data, keeping
+ *  track of which properties were appended and which didn't fit.
+ *  <p>C++: <code>APPEND_ENTITY_PROPERTY</code> macro</p>
+ *  @class EntityPropertyAppender
+ *  @param {OctreePacketData} packetData - The packet data to append property values to.
+ *  @param {PropertyFlags|null} requestedProperties - The properties to append if their values are defined. If
+ *      <code>null</code>, all properties with defined values are appended.
+ *  @property {PropertyFlags} propertyFlags - The properties that were appended.
+ *  @property {PropertyFlags} didntFitProperties - The properties that were requested but didn't fit.
+ */
+class EntityPropertyAppender {
+    // C++  #define APPEND_ENTITY_PROPERTY(P,V)
+
+    #_packetData: OctreePacketData;
+    #_requestedProperties: PropertyFlags | null;
+    #_propertyFlags = new PropertyFlags();
+    #_didntFitProperties = new PropertyFlags();
+
+    constructor(packetData: OctreePacketData, requestedProperties: PropertyFlags | null) {
+        this.#_packetData = packetData;
+        this.#_requestedProperties = requestedProperties;
+    }
+
+    get propertyFlags(): PropertyFlags {
+        return this.#_propertyFlags;
+    }
+
+    get didntFitProperties(): PropertyFlags {
+        return this.#_didntFitProperties;
+    }
+
+    appendBoolean(flag: number, value: boolean | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendBoolean(value));
+        }
+    }
+
+    appendUint16(flag: number, value: number | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendUint16(value));
+        }
+    }
+
+    appendUint32(flag: number, value: number | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendUint32(value));
+        }
+    }
+
+    appendUint64(flag: number, value: bigint | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendUint64(value));
+        }
+    }
+
+    appendFloat(flag: number, value: number | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendFloat(value));
+        }
+    }
+
+    appendVec3(flag: number, value: vec3 | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendVec3(value));
+        }
+    }
+
+    appendQuat(flag: number, value: quat | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendQuat(value));
+        }
+    }
+
+    appendColor(flag: number, value: color | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendColor(value));
+        }
+    }
+
+    appendString(flag: number, value: string | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendString(value));
+        }
+    }
+
+    appendByteArray(flag: number, value: ArrayBuffer | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendByteArray(new Uint8Array(value)));
+        }
+    }
+
+    appendUuid(flag: number, value: Uuid | null | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendUuid(value));
+        }
+    }
+
+    appendAACube(flag: number, value: AACube | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendAACube(value));
+        }
+    }
+
+    appendUuidVector(flag: number, value: Uuid[] | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendUuidVector(value));
+        }
+    }
+
+    appendBooleanVector(flag: number, value: boolean[] | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendBooleanVector(value));
+        }
+    }
+
+    appendQuatVector(flag: number, value: quat[] | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendQuatVector(value));
+        }
+    }
+
+    appendVec3Vector(flag: number, value: vec3[] | undefined): void {
+        if (value !== undefined && this.#isRequested(flag)) {
+            this.#appended(flag, this.#_packetData.appendVec3Vector(value));
+        }
+    }
+
+
+    #isRequested(flag: number): boolean {
+        return this.#_requestedProperties === null || this.#_requestedProperties.getHasProperty(flag);
+    }
+
+    #appended(flag: number, success: boolean): void {
+        if (success) {
+            this.#_propertyFlags.setHasProperty(flag, true);
+        } else {
+            this.#_didntFitProperties.setHasProperty(flag, true);
+        }
+    }
+
+}
+
+
+/*@devdoc
+ *  The <code>EntityItemProperties</code> class provides facilities for encoding entity properties into edit messages that are
+ *  sent to the entity server.
+ *  <p>C++: <code>class EntityItemProperties</code></p>
+ *  @class EntityItemProperties
+ */
+class EntityItemProperties {
+    // C++  class EntityItemProperties
+
+    /*@sdkdoc
+     *  The properties to set when adding or editing an entity. Any of the {@link EntityProperties} can be set except for the
+     *  following, which are maintained by the entity server: <code>entityItemID</code>, <code>createdFromBuffer</code>,
+     *  <code>lastEdited</code>, <code>updateDelta</code>, <code>simulatedDelta</code>, <code>simOwnerData</code>, and
+     *  <code>lastEditedBy</code>. The <code>entityType</code> property must be set when adding an entity and is ignored when
+     *  editing an entity.
+     *  <p>Properties specific to the {@link ShapeEntityProperties|Box, Sphere, and Shape} and
+     *  {@link ModelEntityProperties|Model} entity types can also be set. Properties specific to other entity types are not
+     *  yet supported: entities of other types can't be added, and only their common properties can be edited.</p>
+     *  <p>Properties that are <code>undefined</code> are not set. A <code>parentID</code> value of <code>null</code> removes
+     *  the entity's parent.</p>
+     *  @typedef {object} EntityEditProperties
+     */
+
+    /*@devdoc
+     *  An encoded entity edit message.
+     *  @typedef {object} EntityItemProperties.EntityEditPacketData
+     *  @property {Uint8Array} editMessage - The edit message, ready for including in an {@link PacketType(1)|EntityAdd} or
+     *      {@link PacketType(1)|EntityEdit} packet.
+     *  @property {PropertyFlags} didntFitProperties - The requested properties that didn't fit in the edit message. These
+     *      should be sent in a further {@link PacketType(1)|EntityEdit} message.
+     */
+
+
+    // C++  OctalCode.h - The octal code of the root element.
+    static readonly #ROOT_OCTAL_CODE = new Uint8Array([1, 0]);
+
+    // Header bytes: octal code, last edited, ID, type, update delta.
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    static readonly #MAX_HEADER_BYTES = 2 + 8 + 16 + 4 + 1;
+
+    // Entity data header bytes: ID, type, created, last edited, update delta, simulated delta.
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    static readonly #MAX_ENTITY_DATA_HEADER_BYTES = 16 + 4 + 8 + 8 + 1 + 1;
+
+    // The maximum number of bytes that the property flags can be encoded in.
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    static readonly #MAX_PROPERTY_FLAGS_BYTES = Math.floor(EntityPropertyFlags.PROP_AFTER_LAST_ITEM / 7) + 1;
+
+
+    /*@devdoc
+     *  Checks whether entities of a type can be added, i.e., whether the properties specific to the entity type can be
+     *  encoded.
+     *  <p><em>Static</em></p>
+     *  @param {EntityType} entityType - The entity type.
+     *  @returns {boolean} <code>true</code> if entities of the type can be added, <code>false</code> if they can't.
+     */
+    static canAddEntityType(entityType: EntityType): boolean {
+        // C++  N/A
+        return entityType === EntityType.Box || entityType === EntityType.Sphere || entityType === EntityType.Shape
+            || entityType === EntityType.Model;
+    }
+
+    /*@devdoc
+     *  Encodes an entity edit message, for sending in an {@link PacketType(1)|EntityAdd} or {@link PacketType(1)|EntityEdit}
+     *  packet.
+     *  <p><em>Static</em></p>
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @param {EntityType} entityType - The type of the entity.
+     *  @param {EntityEditProperties} properties - The entity property values.
+     *  @param {bigint} lastEdited - The time that the edit was made, in microseconds since the Unix epoch.
+     *  @param {PropertyFlags|null} requestedProperties - The properties to include in the message if they have defined values.
+     *      If <code>null</code>, all properties with defined values are included.
+     *  @param {number} maxSize - The maximum size of the edit message, in bytes.
+     *  @returns {EntityItemProperties.EntityEditPacketData|null} The encoded edit message and the properties that didn't fit in
+     *      it. <code>null</code> if none of the requested properties fit in the message.
+     */
+    static encodeEntityEditPacket(entityID: Uuid, entityType: EntityType, properties: EntityEditProperties,
+        lastEdited: bigint, requestedProperties: PropertyFlags | null, maxSize: number): EntityEditPacketData | null {
+        // C++  OctreeElement::AppendState EntityItemProperties::encodeEntityEditPacket(PacketType command, EntityItemID id,
+        //          const EntityItemProperties& properties, QByteArray& buffer, EntityPropertyFlags requestedProperties,
+        //          EntityPropertyFlags& didntFitProperties)
+
+        // The property flags precede the property values in the message but aren't known until the property values have been
+        // appended, so the values are appended to separate packet data.
+        const header = new OctreePacketData(EntityItemProperties.#MAX_HEADER_BYTES);
+        header.appendRawData(EntityItemProperties.#ROOT_OCTAL_CODE);
+        header.appendUint64(lastEdited);
+        const entityIDData = new Uint8Array(Uuid.NUM_BYTES_RFC4122_UUID);
+        new DataView(entityIDData.buffer).setBigUint128(0, entityID.value(), UDT.BIG_ENDIAN);
+        header.appendRawData(entityIDData);
+        const codec = new ByteCountCoded();
+        header.appendRawData(codec.encode(entityType));
+        // This is an edit so by definition, its update is in sync.
+        const updateDelta = 0;
+        header.appendRawData(codec.encode(updateDelta));
+        const headerData = header.getFinalizedData();
+
+        const packetData = new OctreePacketData(Math.max(maxSize - headerData.length
+            - EntityItemProperties.#MAX_PROPERTY_FLAGS_BYTES, 0));
+        const appender = new EntityPropertyAppender(packetData, requestedProperties);
+
+        EntityItemProperties.#appendProperties(appender, entityType, properties);
+
+        if (appender.propertyFlags.isEmpty()) {
+            return null;
+        }
+
+        const propertyFlagsData = appender.propertyFlags.encode();
+        const propertiesData = packetData.getFinalizedData();
+        const editMessage = new Uint8Array(headerData.length + propertyFlagsData.length + propertiesData.length);
+        editMessage.set(headerData);
+        editMessage.set(propertyFlagsData, headerData.length);
+        editMessage.set(propertiesData, headerData.length + propertyFlagsData.length);
+
+        return {
+            editMessage,
+            didntFitProperties: appender.didntFitProperties
+        };
+    }
+
+    /*@devdoc
+     *  Encodes an entity's data in the format that the entity server sends it in, for use as an avatar entity's trait data.
+     *  The data can be read using {@link PacketScribe.EntityData&period;readEntityItem}.
+     *  <p><em>Static</em></p>
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @param {EntityType} entityType - The type of the entity.
+     *  @param {EntityEditProperties} properties - The entity property values.
+     *  @param {bigint} created - The time that the entity was created, in microseconds since the Unix epoch.
+     *  @param {bigint} lastEdited - The time that the entity was last edited, in microseconds since the Unix epoch.
+     *  @param {number} maxSize - The maximum size of the data, in bytes.
+     *  @returns {Uint8Array|null} The encoded entity data. <code>null</code> if not all the property values fit in the data.
+     */
+    static encodeEntityData(entityID: Uuid, entityType: EntityType, properties: EntityEditProperties, created: bigint,
+        lastEdited: bigint, maxSize: number): Uint8Array | null {
+        // C++  OctreeElement::AppendState EntityItem::appendEntityData(OctreePacketData* packetData,
+        //          EncodeBitstreamParams& params, EntityTreeElementExtraEncodeDataPointer entityTreeElementExtraEncodeData)
+        const header = new OctreePacketData(EntityItemProperties.#MAX_ENTITY_DATA_HEADER_BYTES);
+        const entityIDData = new Uint8Array(Uuid.NUM_BYTES_RFC4122_UUID);
+        new DataView(entityIDData.buffer).setBigUint128(0, entityID.value(), UDT.BIG_ENDIAN);
+        header.appendRawData(entityIDData);
+        const codec = new ByteCountCoded();
+        header.appendRawData(codec.encode(entityType));
+        header.appendUint64(created);
+        header.appendUint64(lastEdited);
+        // The entity isn't simulated by the user client so its update and simulation are in sync with its last edit.
+        const updateDelta = 0;
+        header.appendRawData(codec.encode(updateDelta));
+        const simulatedDelta = 0;
+        header.appendRawData(codec.encode(simulatedDelta));
+        const headerData = header.getFinalizedData();
+
+        const packetData = new OctreePacketData(Math.max(maxSize - headerData.length
+            - EntityItemProperties.#MAX_PROPERTY_FLAGS_BYTES, 0));
+        const appender = new EntityPropertyAppender(packetData, null);
+
+        EntityItemProperties.#appendProperties(appender, entityType, properties);
+
+        if (!appender.didntFitProperties.isEmpty()) {
+            return null;
+        }
+
+        const propertyFlagsData = appender.propertyFlags.encode();
+        const propertiesData = packetData.getFinalizedData();
+        const entityData = new Uint8Array(headerData.length + propertyFlagsData.length + propertiesData.length);
+        entityData.set(headerData);
+        entityData.set(propertyFlagsData, headerData.length);
+        entityData.set(propertiesData, headerData.length + propertyFlagsData.length);
+        return entityData;
+    }
+
+
+    static #appendProperties(appender: EntityPropertyAppender, entityType: EntityType, properties: EntityEditProperties): void {
+        // C++  EntityItemProperties::encodeEntityEditPacket()
+        //      EntityItem::appendEntityData()
+        // Common properties, in the order that the entity server reads them.
+        appender.appendUuid(EntityPropertyFlags.PROP_PARENT_ID, properties.parentID);
+        appender.appendUint16(EntityPropertyFlags.PROP_PARENT_JOINT_INDEX, properties.parentJointIndex);
+        appender.appendBoolean(EntityPropertyFlags.PROP_VISIBLE, properties.visible);
+        appender.appendString(EntityPropertyFlags.PROP_NAME, properties.name);
+        appender.appendBoolean(EntityPropertyFlags.PROP_LOCKED, properties.locked);
+        appender.appendString(EntityPropertyFlags.PROP_USER_DATA, properties.userData);
+        appender.appendString(EntityPropertyFlags.PROP_PRIVATE_USER_DATA, properties.privateUserData);
+        appender.appendString(EntityPropertyFlags.PROP_HREF, properties.href);
+        appender.appendString(EntityPropertyFlags.PROP_DESCRIPTION, properties.description);
+        appender.appendVec3(EntityPropertyFlags.PROP_POSITION, properties.position);
+        appender.appendVec3(EntityPropertyFlags.PROP_DIMENSIONS, properties.dimensions);
+        appender.appendQuat(EntityPropertyFlags.PROP_ROTATION, properties.rotation);
+        appender.appendVec3(EntityPropertyFlags.PROP_REGISTRATION_POINT, properties.registrationPoint);
+        appender.appendUint64(EntityPropertyFlags.PROP_CREATED, properties.created);
+        appender.appendAACube(EntityPropertyFlags.PROP_QUERY_AA_CUBE, properties.queryAACube);
+        appender.appendBoolean(EntityPropertyFlags.PROP_CAN_CAST_SHADOW, properties.canCastShadow);
+        appender.appendUint32(EntityPropertyFlags.PROP_RENDER_LAYER, properties.renderLayer);
+        appender.appendUint32(EntityPropertyFlags.PROP_PRIMITIVE_MODE, properties.primitiveMode);
+        appender.appendBoolean(EntityPropertyFlags.PROP_IGNORE_PICK_INTERSECTION, properties.ignorePickIntersection);
+        appender.appendUuidVector(EntityPropertyFlags.PROP_RENDER_WITH_ZONES, properties.renderWithZones);
+        appender.appendUint32(EntityPropertyFlags.PROP_BILLBOARD_MODE, properties.billboardMode);
+
+        // Grab.
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_GRABBABLE, properties.grabbable);
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_KINEMATIC, properties.grabKinematic);
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_FOLLOWS_CONTROLLER, properties.grabFollowsController);
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_TRIGGERABLE, properties.triggerable);
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_EQUIPPABLE, properties.grabEquippable);
+        appender.appendBoolean(EntityPropertyFlags.PROP_GRAB_DELEGATE_TO_PARENT, properties.delegateToParent);
+        appender.appendVec3(EntityPropertyFlags.PROP_GRAB_LEFT_EQUIPPABLE_POSITION_OFFSET,
+            properties.equippableLeftPositionOffset);
+        appender.appendQuat(EntityPropertyFlags.PROP_GRAB_LEFT_EQUIPPABLE_ROTATION_OFFSET,
+            properties.equippableLeftRotationOffset);
+        appender.appendVec3(EntityPropertyFlags.PROP_GRAB_RIGHT_EQUIPPABLE_POSITION_OFFSET,
+            properties.equippableRightPositionOffset);
+        appender.appendQuat(EntityPropertyFlags.PROP_GRAB_RIGHT_EQUIPPABLE_ROTATION_OFFSET,
+            properties.equippableRightRotationOffset);
+        appender.appendString(EntityPropertyFlags.PROP_GRAB_EQUIPPABLE_INDICATOR_URL, properties.equippableIndicatorURL);
+        appender.appendVec3(EntityPropertyFlags.PROP_GRAB_EQUIPPABLE_INDICATOR_SCALE, properties.equippableIndicatorScale);
+        appender.appendVec3(EntityPropertyFlags.PROP_GRAB_EQUIPPABLE_INDICATOR_OFFSET, properties.equippableIndicatorOffset);
+
+        // Physics.
+        appender.appendFloat(EntityPropertyFlags.PROP_DENSITY, properties.density);
+        appender.appendVec3(EntityPropertyFlags.PROP_VELOCITY, properties.velocity);
+        appender.appendVec3(EntityPropertyFlags.PROP_ANGULAR_VELOCITY, properties.angularVelocity);
+        appender.appendVec3(EntityPropertyFlags.PROP_GRAVITY, properties.gravity);
+        appender.appendVec3(EntityPropertyFlags.PROP_ACCELERATION, properties.acceleration);
+        appender.appendFloat(EntityPropertyFlags.PROP_DAMPING, properties.damping);
+        appender.appendFloat(EntityPropertyFlags.PROP_ANGULAR_DAMPING, properties.angularDampling);
+        appender.appendFloat(EntityPropertyFlags.PROP_RESTITUTION, properties.restitution);
+        appender.appendFloat(EntityPropertyFlags.PROP_FRICTION, properties.friction);
+        appender.appendFloat(EntityPropertyFlags.PROP_LIFETIME, properties.lifetime);
+        appender.appendBoolean(EntityPropertyFlags.PROP_COLLISIONLESS, properties.collisionless);
+        appender.appendUint16(EntityPropertyFlags.PROP_COLLISION_MASK, properties.collisionMask);
+        appender.appendBoolean(EntityPropertyFlags.PROP_DYNAMIC, properties.dynamic);
+        appender.appendString(EntityPropertyFlags.PROP_COLLISION_SOUND_URL, properties.collisionSoundURL);
+        appender.appendByteArray(EntityPropertyFlags.PROP_ACTION_DATA, properties.actionData);
+
+        // Cloning.
+        appender.appendBoolean(EntityPropertyFlags.PROP_CLONEABLE, properties.cloneable);
+        appender.appendFloat(EntityPropertyFlags.PROP_CLONE_LIFETIME, properties.cloneLifetime);
+        appender.appendFloat(EntityPropertyFlags.PROP_CLONE_LIMIT, properties.cloneLimit);
+        appender.appendBoolean(EntityPropertyFlags.PROP_CLONE_DYNAMIC, properties.cloneDynamic);
+        appender.appendBoolean(EntityPropertyFlags.PROP_CLONE_AVATAR_ENTITY, properties.cloneAvatarIdentity);
+        appender.appendUuid(EntityPropertyFlags.PROP_CLONE_ORIGIN_ID, properties.cloneOriginID);
+
+        // Scripts.
+        appender.appendString(EntityPropertyFlags.PROP_SCRIPT, properties.script);
+        appender.appendUint64(EntityPropertyFlags.PROP_SCRIPT_TIMESTAMP, properties.scriptTimestamp);
+        appender.appendString(EntityPropertyFlags.PROP_SERVER_SCRIPTS, properties.serverScripts);
+
+        // Certifiable properties.
+        appender.appendString(EntityPropertyFlags.PROP_ITEM_NAME, properties.itemName);
+        appender.appendString(EntityPropertyFlags.PROP_ITEM_DESCRIPTION, properties.itemDescription);
+        appender.appendString(EntityPropertyFlags.PROP_ITEM_CATEGORIES, properties.itemCategories);
+        appender.appendString(EntityPropertyFlags.PROP_ITEM_ARTIST, properties.itemArtist);
+        appender.appendString(EntityPropertyFlags.PROP_ITEM_LICENSE, properties.itemLicense);
+        appender.appendUint32(EntityPropertyFlags.PROP_LIMITED_RUN, properties.limitedRun);
+        appender.appendString(EntityPropertyFlags.PROP_MARKETPLACE_ID, properties.marketplaceID);
+        appender.appendUint32(EntityPropertyFlags.PROP_EDITION_NUMBER, properties.editionNumber);
+        appender.appendUint32(EntityPropertyFlags.PROP_ENTITY_INSTANCE_NUMBER, properties.entityInstanceNumber);
+        appender.appendString(EntityPropertyFlags.PROP_CERTIFICATE_ID, properties.certificateID);
+        appender.appendString(EntityPropertyFlags.PROP_CERTIFICATE_TYPE, properties.certificateType);
+        appender.appendUint32(EntityPropertyFlags.PROP_STATIC_CERTIFICATE_VERSION, properties.staticCertificateVersion);
+
+        // Entity type-specific properties.
+        if (entityType === EntityType.Box || entityType === EntityType.Sphere || entityType === EntityType.Shape) {
+            // C++  ShapeEntityItem::appendSubclassData()
+            appender.appendColor(EntityPropertyFlags.PROP_COLOR, properties.color);
+            appender.appendFloat(EntityPropertyFlags.PROP_ALPHA, properties.alpha);
+            appender.appendString(EntityPropertyFlags.PROP_SHAPE, properties.shape);
+        } else if (entityType === EntityType.Model) {
+            // C++  ModelEntityItem::appendSubclassData()
+            appender.appendUint32(EntityPropertyFlags.PROP_SHAPE_TYPE, properties.shapeType);
+            appender.appendString(EntityPropertyFlags.PROP_COMPOUND_SHAPE_URL, properties.compoundShapeURL);
+            appender.appendColor(EntityPropertyFlags.PROP_COLOR, properties.color);
+            appender.appendString(EntityPropertyFlags.PROP_TEXTURES, properties.textures);
+            appender.appendString(EntityPropertyFlags.PROP_MODEL_URL, properties.modelURL);
+            appender.appendVec3(EntityPropertyFlags.PROP_MODEL_SCALE, properties.modelScale);
+            appender.appendBooleanVector(EntityPropertyFlags.PROP_JOINT_ROTATIONS_SET, properties.jointRotationsSet);
+            appender.appendQuatVector(EntityPropertyFlags.PROP_JOINT_ROTATIONS, properties.jointRotations);
+            appender.appendBooleanVector(EntityPropertyFlags.PROP_JOINT_TRANSLATIONS_SET, properties.jointTranslationsSet);
+            appender.appendVec3Vector(EntityPropertyFlags.PROP_JOINT_TRANSLATIONS, properties.jointTranslations);
+            appender.appendBoolean(EntityPropertyFlags.PROP_RELAY_PARENT_JOINTS, properties.relayParentJoints);
+            appender.appendBoolean(EntityPropertyFlags.PROP_GROUP_CULLED, properties.groupCulled);
+            appender.appendString(EntityPropertyFlags.PROP_BLENDSHAPE_COEFFICIENTS, properties.blendShapeCoefficients);
+            appender.appendBoolean(EntityPropertyFlags.PROP_USE_ORIGINAL_PIVOT, properties.useOriginalPivot);
+
+            const animation = properties.animation;
+            appender.appendString(EntityPropertyFlags.PROP_ANIMATION_URL, animation?.animationURL);
+            appender.appendBoolean(EntityPropertyFlags.PROP_ANIMATION_ALLOW_TRANSLATION, animation?.animationAllowTranslation);
+            appender.appendFloat(EntityPropertyFlags.PROP_ANIMATION_FPS, animation?.animationFPS);
+            appender.appendFloat(EntityPropertyFlags.PROP_ANIMATION_FRAME_INDEX, animation?.animationFrameIndex);
+            appender.appendBoolean(EntityPropertyFlags.PROP_ANIMATION_PLAYING, animation?.animationPlaying);
+            appender.appendBoolean(EntityPropertyFlags.PROP_ANIMATION_LOOP, animation?.animationLoop);
+            appender.appendFloat(EntityPropertyFlags.PROP_ANIMATION_FIRST_FRAME, animation?.animationFirstFrame);
+            appender.appendFloat(EntityPropertyFlags.PROP_ANIMATION_LAST_FRAME, animation?.animationLastFrame);
+            appender.appendBoolean(EntityPropertyFlags.PROP_ANIMATION_HOLD, animation?.animationHold);
+        }
+
+        // Other entity types' properties aren't supported. See canAddEntityType().
+    }
+
+}
+
+export default EntityItemProperties;
+export type { EntityEditProperties, EntityEditPacketData };
@@ -0,0 +1,263 @@
+//
+//  EntityTree.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { EntityProperties } from "../networking/packets/EntityData";
+import AACube from "../shared/AACube";
+import Quat from "../shared/Quat";
+import { NestableTransform } from "../shared/SpatiallyNestable";
+import Uuid from "../shared/Uuid";
+import Vec3, { vec3 } from "../shared/Vec3";
+
+
+/*@devdoc
+ *  The <code>EntityTree</code> class maintains the user client's copy of the entities that the entity server has sent it.
+ *  <p>Unlike the C++, the entities are stored in a flat map rather than an octree: the Web SDK doesn't render or simulate
+ *  entities so doesn't need the octree's spatial organization.</p>
+ *  <p>C++: <code>class EntityTree : public Octree, public SpatialParentTree</code></p>
+ *  @class EntityTree
+ */
+class EntityTree {
+    // C++  class EntityTree : public Octree, public SpatialParentTree
+
+    // The maximum depth to follow parent links when calculating world transforms, to guard against parent loops.
+    static readonly #MAX_PARENTING_CHAIN_SIZE = 30;
+
+
+    #_entities = new Map<bigint, EntityProperties>();  // Map<Uuid.value(), EntityProperties>
+
+
+    /*@devdoc
+     *  Adds new entities and updates existing entities. Property values that are <code>undefined</code> in an update don't
+     *  change an existing entity's values. Updates that are older than the existing entity's data are ignored.
+     *  @param {EntityProperties[]} entities - The entity data received from the entity server.
+     *  @returns {EntityProperties[]} The complete properties of the entities that were added or updated.
+     */
+    processEntityData(entities: EntityProperties[]): EntityProperties[] {
+        // C++  int EntityTree::readEntityDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
+        //          ReadBitstreamToTreeParams& args)
+        const updated: EntityProperties[] = [];
+
+        for (const entity of entities) {
+            const entityID = entity.entityItemID.value();
+            const existing = this.#_entities.get(entityID);
+
+            if (!existing) {
+                const added = { ...entity };
+                this.#_entities.set(entityID, added);
+                updated.push(added);
+            } else if (entity.lastEdited >= existing.lastEdited) {
+                // C++  EntityItem::readEntityDataFromBuffer()
+                // Data older than what we already have are ignored.
+                const merged = { ...existing } as Record<string, unknown>;
+                for (const [key, value] of Object.entries(entity)) {
+                    if (value !== undefined) {
+                        merged[key] = value;
+                    }
+                }
+                this.#_entities.set(entityID, merged as EntityProperties);
+                updated.push(merged as EntityProperties);
+            }
+        }
+
+        return updated;
+    }
+
+    /*@devdoc
+     *  Deletes entities along with any of their descendant entities.
+     *  @param {Uuid[]} entityIDs - The IDs of the entities to delete.
+     *  @returns {Uuid[]} The IDs of the entities that were deleted, including descendants.
+     */
+    deleteEntities(entityIDs: Uuid[]): Uuid[] {
+        // C++  void EntityTree::deleteEntitiesByID(const std::vector<EntityItemID>& ids, bool force, bool ignoreWarnings)
+        const deleted: Uuid[] = [];
+
+        const pending = entityIDs.map((entityID) => {
+            return entityID.value();
+        });
+        while (pending.length > 0) {
+            const entityID = pending.pop() as bigint;
+            if (this.#_entities.delete(entityID)) {
+                deleted.push(new Uuid(entityID));
+                pending.push(...this.#getChildIDs(entityID));
+            }
+        }
+
+        return deleted;
+    }
+
+    /*@devdoc
+     *  Deletes all entities.
+     */
+    eraseAllOctreeElements(): void {
+        // C++  void EntityTree::eraseAllOctreeElements(bool createNewRoot)
+        this.#_entities.clear();
+    }
+
+    /*@devdoc
+     *  Gets an entity's properties.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {EntityProperties|null} The entity's properties if the entity is known, <code>null</code> if it isn't.
+     */
+    findEntityByID(entityID: Uuid): EntityProperties | null {
+        // C++  EntityItemPointer EntityTree::findEntityByID(const QUuid& id)
+        return this.#_entities.get(entityID.value()) ?? null;
+    }
+
+    /*@devdoc
+     *  Finds the world transform of an entity that an entity or avatar is parented to.
+     *  @param {Uuid} id - The ID of the entity.
+     *  @param {number} depth - The number of parent links already followed.
+     *  @returns {NestableTransform|null} The world transform of the entity. <code>null</code> if the entity isn't known or its
+     *      transform can't be calculated.
+     */
+    findNestableTransform(id: Uuid, depth: number): NestableTransform | null {
+        // C++  SpatiallyNestablePointer SpatialParentTree::findByID(const QUuid& id, bool& success)
+        const entity = this.#_entities.get(id.value());
+        return entity ? this.#getWorldTransform(entity, depth) : null;
+    }
+
+    /*@devdoc
+     *  Gets the IDs of all the entities.
+     *  @returns {Uuid[]} The IDs of all the entities.
+     */
+    getEntityIDs(): Uuid[] {
+        // C++  N/A
+        return [...this.#_entities.keys()].map((entityID) => {
+            return new Uuid(entityID);
+        });
+    }
+
+    /*@devdoc
+     *  Finds the entities whose query AA cubes touch a sphere.
+     *  @param {vec3} center - The center of the sphere.
+     *  @param {number} radius - The radius of the sphere.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    evalEntitiesInSphere(center: vec3, radius: number): Uuid[] {
+        // C++  void EntityTree::evalEntitiesInSphere(const glm::vec3& center, float radius, PickFilter searchFilter,
+        //          QVector<QUuid>& foundEntities)
+        return this.#findEntities((cube) => {
+            return cube.touchesSphere(center, radius);
+        });
+    }
+
+    /*@devdoc
+     *  Finds the entities whose query AA cubes touch an axis-aligned box.
+     *  @param {vec3} corner - The minimum axes values corner of the box.
+     *  @param {vec3} dimensions - The dimensions of the box.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    evalEntitiesInBox(corner: vec3, dimensions: vec3): Uuid[] {
+        // C++  void EntityTree::evalEntitiesInBox(const AABox& box, PickFilter searchFilter, QVector<QUuid>& foundEntities)
+        return this.#findEntities((cube) => {
+            return cube.touchesAABox(corner, dimensions);
+        });
+    }
+
+    /*@devdoc
+     *  Finds the entities with a particular name whose query AA cubes touch a sphere.
+     *  @param {string} name - The name of the entities to find.
+     *  @param {vec3} center - The center of the sphere.
+     *  @param {number} radius - The radius of the sphere.
+     *  @param {boolean} caseSensitive - <code>true</code> if the name match is case sensitive, <code>false</code> if it
+     *      isn't.
+     *  @returns {Uuid[]} The IDs of the entities found.
+     */
+    evalEntitiesInSphereWithName(name: string, center: vec3, radius: number, caseSensitive: boolean): Uuid[] {
+        // C++  void EntityTree::evalEntitiesInSphereWithName(const glm::vec3& center, float radius, const QString& name,
+        //          bool caseSensitive, PickFilter searchFilter, QVector<QUuid>& foundEntities)
+        const searchName = caseSensitive ? name : name.toLowerCase();
+        return this.#findEntities((cube, entity) => {
+            if (entity.name === undefined) {
+                return false;
+            }
+            const entityName = caseSensitive ? entity.name : entity.name.toLowerCase();
+            return entityName === searchName && cube.touchesSphere(center, radius);
+        });
+    }
+
+
+    #findEntities(predicate: (cube: AACube, entity: EntityProperties) => boolean): Uuid[] {
+        const found: Uuid[] = [];
+        for (const entity of this.#_entities.values()) {
+            const cube = this.#getQueryAACube(entity);
+            if (cube && predicate(cube, entity)) {
+                found.push(entity.entityItemID);
+            }
+        }
+        return found;
+    }
+
+    #getQueryAACube(entity: EntityProperties): AACube | null {
+        // C++  AACube SpatiallyNestable::getQueryAACube(bool& success)
+        if (entity.queryAACube) {
+            return entity.queryAACube;
+        }
+
+        // Fall back to the maximum AA cube that the entity could occupy.
+        // C++  AACube EntityItem::getMaximumAACube(bool& success)
+        const transform = this.#getWorldTransform(entity);
+        if (!transform) {
+            return null;
+        }
+        const dimensions = entity.dimensions ?? Vec3.ZERO;
+        const registrationPoint = entity.registrationPoint ?? { x: 0.5, y: 0.5, z: 0.5 };
+        const maxRadius = Vec3.length({
+            x: dimensions.x * Math.max(registrationPoint.x, 1 - registrationPoint.x),
+            y: dimensions.y * Math.max(registrationPoint.y, 1 - registrationPoint.y),
+            z: dimensions.z * Math.max(registrationPoint.z, 1 - registrationPoint.z)
+        });
+        const corner = Vec3.sum(transform.position, { x: -maxRadius, y: -maxRadius, z: -maxRadius });
+        return new AACube(corner, 2 * maxRadius);
+    }
+
+    #getWorldTransform(entity: EntityProperties, startDepth = 0): NestableTransform | null {
+        // C++  Transform SpatiallyNestable::getTransform(bool& success, int depth)
+        let position = entity.position;
+        let rotation = entity.rotation ?? Quat.IDENTITY;
+        if (!position) {
+            return null;
+        }
+
+        let parentID = entity.parentID;
+        let depth = startDepth;
+        while (parentID) {
+            if (depth > EntityTree.#MAX_PARENTING_CHAIN_SIZE) {
+                return null;
+            }
+            const parent = this.#_entities.get(parentID.value());
+            if (!parent || !parent.position) {
+                // The parent is unknown or is an avatar.
+                return null;
+            }
+            const parentRotation = parent.rotation ?? Quat.IDENTITY;
+            position = Vec3.sum(parent.position, Vec3.multiplyQbyV(parentRotation, position));
+            rotation = Quat.multiply(parentRotation, rotation);
+            parentID = parent.parentID;
+            depth += 1;
+        }
+
+        return { position, rotation };
+    }
+
+    #getChildIDs(parentID: bigint): bigint[] {
+        const childIDs = [];
+        for (const [entityID, entity] of this.#_entities) {
+            if (entity.parentID && entity.parentID.value() === parentID) {
+                childIDs.push(entityID);
+            }
+        }
+        return childIDs;
+    }
+
+}
+
+export default EntityTree;
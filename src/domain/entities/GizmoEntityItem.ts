@@ -9,17 +9,21 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+
 import { CommonEntityProperties } from "../networking/packets/EntityData";
+import UDT from "../networking/udt/UDT";
+import GizmoType from "../shared/GizmoType";
 import PropertyFlags from "../shared/PropertyFlags";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
-import RingGizmoPropertyGroup from "./RingGizmoPropertyGroup";
+import RingGizmoPropertyGroup, { RingGizmoProperties } from "./RingGizmoPropertyGroup";
 
 
-// WEBRTC TODO: Replace Record<string, never> with GizmoEntityItem's special properties.
-type GizmoEntitySubclassProperties = Record<string, never>;
+type GizmoEntitySubclassProperties = {
+    gizmoType: GizmoType | undefined;
+    ring: RingGizmoProperties | undefined;
+};
 
-// WEBRTC TODO: Make a union with GizmoEntitySubclassProperties.
-type GizmoEntityProperties = CommonEntityProperties;
+type GizmoEntityProperties = CommonEntityProperties & GizmoEntitySubclassProperties;
 
 type GizmoEntitySubclassData = {
     bytesRead: number;
@@ -27,10 +31,40 @@ type GizmoEntitySubclassData = {
 };
 
 
+/*@devdoc
+ *  The <code>GizmoEntityItem</code> class provides facilities for reading Gizmo entity properties from a packet.
+ *  <p>C++: <code>class GizmoEntityItem : public EntityItem</code></p>
+ *  @class GizmoEntityItem
+ */
 class GizmoEntityItem {
     // C++  class GizmoEntityItem : public EntityItem
 
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): GizmoEntitySubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  The <code>Gizmo</code> {@link EntityType} displays an entity that could be used as UI.
+     *  <p>It has properties in addition to the {@link EntityProperties|common EntityProperties}. A property value may be
+     *  undefined if it couldn't fit in the data packet sent by the server.</p>
+     *  @typedef {object} GizmoEntityProperties
+     *  @property {GizmoType|undefined} gizmoType=RING - The gizmo type of the entity.
+     *  @property {RingGizmoProperties|undefined} ring - The ring gizmo properties.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link GizmoEntityProperties} and the number of bytes read.
+     *  @typedef {object} GizmoEntitySubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {GizmoEntityProperties} properties - The Gizmo entity properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, Gizmo entity properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the Gizmo entity properties in the {@link Packets|EntityData} message data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {GizmoEntitySubclassData} The Gizmo entity properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): GizmoEntitySubclassData {
         // C++  int GizmoEntityItem::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -39,8 +73,9 @@ class GizmoEntityItem {
 
         let dataPosition = position;
 
+        let gizmoType: GizmoType | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_GIZMO_TYPE)) {
-            // WEBRTC TODO: Read gizmoType property.
+            gizmoType = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
@@ -49,7 +84,10 @@ class GizmoEntityItem {
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                gizmoType,
+                ring: ringProperties.bytesRead > 0 ? ringProperties.properties : undefined
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -58,4 +96,4 @@ class GizmoEntityItem {
 }
 
 export default GizmoEntityItem;
-export type { GizmoEntitySubclassData, GizmoEntityProperties };
+export type { GizmoEntitySubclassData, GizmoEntitySubclassProperties, GizmoEntityProperties };
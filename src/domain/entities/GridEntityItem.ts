@@ -9,17 +9,24 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+
 import { CommonEntityProperties } from "../networking/packets/EntityData";
+import UDT from "../networking/udt/UDT";
+import type { color } from "../shared/Color";
 import PropertyFlags from "../shared/PropertyFlags";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 import PulsePropertyGroup from "./PulsePropertyGroup";
 
 
-// WEBRTC TODO: Replace Record<string, never> with GridEntityItem's special properties.
-type GridEntitySubclassProperties = Record<string, never>;
+type GridEntitySubclassProperties = {
+    color: color | undefined;
+    alpha: number | undefined;
+    followCamera: boolean | undefined;
+    majorGridEvery: number | undefined;
+    minorGridEvery: number | undefined;
+};
 
-// WEBRTC TODO: Make a union with GridEntitySubclassProperties.
-type GridEntityProperties = CommonEntityProperties;
+type GridEntityProperties = CommonEntityProperties & GridEntitySubclassProperties;
 
 type GridEntitySubclassData = {
     bytesRead: number;
@@ -27,10 +34,46 @@ type GridEntitySubclassData = {
 };
 
 
+/*@devdoc
+ *  The <code>GridEntityItem</code> class provides facilities for reading Grid entity properties from a packet.
+ *  <p>C++: <code>class GridEntityItem : public EntityItem</code></p>
+ *  @class GridEntityItem
+ */
 class GridEntityItem {
     // C++  class GridEntityItem : public EntityItem
 
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): GridEntitySubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  The <code>Grid</code> {@link EntityType} displays a grid on a 2D plane.
+     *  <p>It has properties in addition to the {@link EntityProperties|common EntityProperties}. A property value may be
+     *  undefined if it couldn't fit in the data packet sent by the server.</p>
+     *  @typedef {object} GridEntityProperties
+     *  @property {color|undefined} color=255,255,255 - The color of the grid.
+     *  @property {number|undefined} alpha=1.0 - The opacity of the grid, range <code>0.0 – 1.0</code>.
+     *  @property {boolean|undefined} followCamera=true - <code>true</code> if the grid is always visible even as the camera
+     *      moves to another position, <code>false</code> if it doesn't follow the camera.
+     *  @property {number|undefined} majorGridEvery=5 - Integer number of <code>minorGridEvery</code> intervals at which to
+     *      draw a thick grid line. Minimum value = <code>1</code>.
+     *  @property {number|undefined} minorGridEvery=1.0 - Real number of meters at which to draw thin grid lines. Minimum
+     *      value = <code>0.001</code>.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link GridEntityProperties} and the number of bytes read.
+     *  @typedef {object} GridEntitySubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {GridEntityProperties} properties - The Grid entity properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, Grid entity properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the Grid entity properties in the {@link Packets|EntityData} message data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {GridEntitySubclassData} The Grid entity properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): GridEntitySubclassData {
         // C++  int GridEntityItem::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -39,13 +82,19 @@ class GridEntityItem {
 
         let dataPosition = position;
 
+        let color: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_COLOR)) {
-            // WEBRTC TODO: Read color property.
+            color = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let alpha: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_ALPHA)) {
-            // WEBRTC TODO: Read alpha property.
+            alpha = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
@@ -53,24 +102,33 @@ class GridEntityItem {
         // Ignore deprecated pulse property.
         dataPosition += pulseProperties.bytesRead;
 
+        let followCamera: boolean | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_GRID_FOLLOW_CAMERA)) {
-            // WEBRTC TODO: Read gridFollowCamera property.
+            followCamera = Boolean(data.getUint8(dataPosition));
             dataPosition += 1;
         }
 
+        let majorGridEvery: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MAJOR_GRID_EVERY)) {
-            // WEBRTC TODO: Read majorGridEvery property.
+            majorGridEvery = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let minorGridEvery: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MINOR_GRID_EVERY)) {
-            // WEBRTC TODO: Read minorGridEvery property.
+            minorGridEvery = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                color,
+                alpha,
+                followCamera,
+                majorGridEvery,
+                minorGridEvery
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -79,4 +137,4 @@ class GridEntityItem {
 }
 
 export default GridEntityItem;
-export type { GridEntitySubclassData, GridEntityProperties };
+export type { GridEntitySubclassData, GridEntitySubclassProperties, GridEntityProperties };
@@ -9,16 +9,21 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+
 import { CommonEntityProperties } from "../networking/packets/EntityData";
 import UDT from "../networking/udt/UDT";
+import type { color } from "../shared/Color";
 import PropertyFlags from "../shared/PropertyFlags";
+import type { vec3 } from "../shared/Vec3";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 
-// WEBRTC TODO: Replace Record<string, never> with LineEntityItem's special properties.
-type LineEntitySubclassProperties = Record<string, never>;
 
-// WEBRTC TODO: Make a union with LineEntitySubclassProperties.
-type LineEntityProperties = CommonEntityProperties;
+type LineEntitySubclassProperties = {
+    color: color | undefined;
+    linePoints: vec3[] | undefined;
+};
+
+type LineEntityProperties = CommonEntityProperties & LineEntitySubclassProperties;
 
 type LineEntitySubclassData = {
     bytesRead: number;
@@ -26,10 +31,43 @@ type LineEntitySubclassData = {
 };
 
 
+/*@devdoc
+ *  The <code>LineEntityItem</code> class provides facilities for reading Line entity properties from a packet.
+ *  <p>C++: <code>class LineEntityItem : public EntityItem</code></p>
+ *  @class LineEntityItem
+ */
 class LineEntityItem {
     // C++  class LineEntityItem : public EntityItem
 
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): LineEntitySubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  The <code>Line</code> {@link EntityType} draws thin, straight lines between a sequence of two or more points.
+     *  <em>Deprecated: Use PolyLine entities instead.</em>
+     *  <p>It has properties in addition to the {@link EntityProperties|common EntityProperties}. A property value may be
+     *  undefined if it couldn't fit in the data packet sent by the server.</p>
+     *  @typedef {object} LineEntityProperties
+     *  @property {color|undefined} color=255,255,255 - The color of the line.
+     *  @property {vec3[]|undefined} linePoints=[] - The sequence of points to draw lines between. The values are relative to
+     *      the entity's position. A maximum of 70 points can be specified. The property's value is set only if all the
+     *      <code>linePoints</code> lie within the entity's <code>dimensions</code>.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link LineEntityProperties} and the number of bytes read.
+     *  @typedef {object} LineEntitySubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {LineEntityProperties} properties - The Line entity properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, Line entity properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the Line entity properties in the {@link Packets|EntityData} message data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {LineEntitySubclassData} The Line entity properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): LineEntitySubclassData {
         // C++  int LineEntityItem::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -38,24 +76,38 @@ class LineEntityItem {
 
         let dataPosition = position;
 
+        let color: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_COLOR)) {
-            // WEBRTC TODO: Read color property.
+            color = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let linePoints: vec3[] | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_LINE_POINTS)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read linePoints property.
-                dataPosition += length * 12;
+            linePoints = [];
+            for (let i = 0; i < length; i++) {
+                linePoints.push({
+                    x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+                    y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+                    z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+                });
+                dataPosition += 12;
             }
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                color,
+                linePoints
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -64,4 +116,4 @@ class LineEntityItem {
 }
 
 export default LineEntityItem;
-export type { LineEntitySubclassData, LineEntityProperties };
+export type { LineEntitySubclassData, LineEntitySubclassProperties, LineEntityProperties };
@@ -433,4 +433,4 @@ class ModelEntityItem {
 }
 
 export default ModelEntityItem;
-export type { ModelEntitySubclassData, ModelEntityProperties, AnimationProperties };
+export type { ModelEntitySubclassData, ModelEntitySubclassProperties, ModelEntityProperties, AnimationProperties };
@@ -9,17 +9,28 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+
 import { CommonEntityProperties } from "../networking/packets/EntityData";
 import UDT from "../networking/udt/UDT";
+import type { color } from "../shared/Color";
 import PropertyFlags from "../shared/PropertyFlags";
+import type { vec3 } from "../shared/Vec3";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 
 
-// WEBRTC TODO: Replace Record<string, never> with PolyLineEntityItem's special properties.
-type PolyLineEntitySubclassProperties = Record<string, never>;
+type PolyLineEntitySubclassProperties = {
+    color: color | undefined;
+    textures: string | undefined;
+    linePoints: vec3[] | undefined;
+    strokeWidths: number[] | undefined;
+    normals: vec3[] | undefined;
+    strokeColors: vec3[] | undefined;
+    isUVModeStretch: boolean | undefined;
+    glow: boolean | undefined;
+    faceCamera: boolean | undefined;
+};
 
-// WEBRTC TODO: Make a union with PolyLineEntitySubclassProperties.
-type PolyLineEntityProperties = CommonEntityProperties;
+type PolyLineEntityProperties = CommonEntityProperties & PolyLineEntitySubclassProperties;
 
 type PolyLineEntitySubclassData = {
     bytesRead: number;
@@ -27,10 +38,58 @@ type PolyLineEntitySubclassData = {
 };
 
 
+/*@devdoc
+ *  The <code>PolyLineEntityItem</code> class provides facilities for reading PolyLine entity properties from a packet.
+ *  <p>C++: <code>class PolyLineEntityItem : public EntityItem</code></p>
+ *  @class PolyLineEntityItem
+ */
 class PolyLineEntityItem {
     // C++  class PolyLineEntityItem : public EntityItem
 
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): PolyLineEntitySubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  The <code>PolyLine</code> {@link EntityType} draws textured, straight lines between a sequence of points.
+     *  <p>It has properties in addition to the {@link EntityProperties|common EntityProperties}. A property value may be
+     *  undefined if it couldn't fit in the data packet sent by the server.</p>
+     *  @typedef {object} PolyLineEntityProperties
+     *  @property {color|undefined} color=255,255,255 - The base color of each point, which is multiplied with the color of the
+     *      texture. This color is blended with the <code>strokeColors</code>, if present.
+     *  @property {string|undefined} textures="" - The URL of a JPG or PNG texture to use for the lines. If you want
+     *      transparency, use PNG format.
+     *  @property {vec3[]|undefined} linePoints=[] - The sequence of points to draw lines between. The values are relative to
+     *      the entity's position. A maximum of 70 points can be specified.
+     *  @property {number[]|undefined} strokeWidths=[] - The widths, in m, of the line at the <code>linePoints</code>. Must be
+     *      specified in order for the entity to render.
+     *  @property {vec3[]|undefined} normals=[] - The normal vectors for the line's surface at the <code>linePoints</code>. The
+     *      values are relative to the entity's orientation. Must be specified in order for the entity to render.
+     *  @property {vec3[]|undefined} strokeColors=[] - The base colors of each point, with values in the range
+     *      <code>0.0</code> &ndash; <code>1.0</code>. These colors are blended with the <code>color</code> property and the
+     *      texture.
+     *  @property {boolean|undefined} isUVModeStretch=true - If <code>true</code>, the texture is stretched to fill the whole
+     *      line, otherwise the texture repeats along the line.
+     *  @property {boolean|undefined} glow=false - <code>true</code> if the opacity of the strokes drops off away from the line
+     *      center, <code>false</code> if it doesn't.
+     *  @property {boolean|undefined} faceCamera=false - <code>true</code> if each line segment rotates to face the camera,
+     *      <code>false</code> if it doesn't.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link PolyLineEntityProperties} and the number of bytes read.
+     *  @typedef {object} PolyLineEntitySubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {PolyLineEntityProperties} properties - The PolyLine entity properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, PolyLine entity properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the PolyLine entity properties in the {@link Packets|EntityData} message
+     *      data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {PolyLineEntitySubclassData} The PolyLine entity properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): PolyLineEntitySubclassData {
         // C++  int PolyLineEntityItem::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -39,79 +98,118 @@ class PolyLineEntityItem {
 
         let dataPosition = position;
 
+        let color: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_COLOR)) {
-            // WEBRTC TODO: Read color property.
+            color = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        const textDecoder = new TextDecoder();
+
+        let textures: string | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_TEXTURES)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read textures property.
-                dataPosition += length;
-            }
+            textures = textDecoder.decode(new Uint8Array(data.buffer, data.byteOffset + dataPosition, length));
+            dataPosition += length;
         }
 
+        let linePoints: vec3[] | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_LINE_POINTS)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read linePoints property.
-                dataPosition += length * 12;
+            linePoints = [];
+            for (let i = 0; i < length; i++) {
+                linePoints.push({
+                    x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+                    y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+                    z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+                });
+                dataPosition += 12;
             }
         }
 
+        let strokeWidths: number[] | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_STROKE_WIDTHS)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read strokeWidth property.
-                dataPosition += length * 4;
+            strokeWidths = [];
+            for (let i = 0; i < length; i++) {
+                strokeWidths.push(data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN));
+                dataPosition += 4;
             }
         }
 
+        let normals: vec3[] | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_STROKE_NORMALS)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read strokeNormals property.
-                dataPosition += length * 12;
+            normals = [];
+            for (let i = 0; i < length; i++) {
+                normals.push({
+                    x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+                    y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+                    z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+                });
+                dataPosition += 12;
             }
         }
 
+        let strokeColors: vec3[] | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_STROKE_COLORS)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read strokeColors property.
-                dataPosition += length * 12;
+            strokeColors = [];
+            for (let i = 0; i < length; i++) {
+                strokeColors.push({
+                    x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+                    y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+                    z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+                });
+                dataPosition += 12;
             }
         }
 
+        let isUVModeStretch: boolean | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_IS_UV_MODE_STRETCH)) {
-            // WEBRTC TODO: Read isUVModeStretch property.
+            isUVModeStretch = Boolean(data.getUint8(dataPosition));
             dataPosition += 1;
         }
 
+        let glow: boolean | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_LINE_GLOW)) {
-            // WEBRTC TODO: Read lineGlow property.
+            glow = Boolean(data.getUint8(dataPosition));
             dataPosition += 1;
         }
 
+        let faceCamera: boolean | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_LINE_FACE_CAMERA)) {
-            // WEBRTC TODO: Read lineFaceCamera property.
+            faceCamera = Boolean(data.getUint8(dataPosition));
             dataPosition += 1;
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                color,
+                textures,
+                linePoints,
+                strokeWidths,
+                normals,
+                strokeColors,
+                isUVModeStretch,
+                glow,
+                faceCamera
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -120,4 +218,4 @@ class PolyLineEntityItem {
 }
 
 export default PolyLineEntityItem;
-export type { PolyLineEntitySubclassData, PolyLineEntityProperties };
+export type { PolyLineEntitySubclassData, PolyLineEntitySubclassProperties, PolyLineEntityProperties };
@@ -9,17 +9,33 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+
 import { CommonEntityProperties } from "../networking/packets/EntityData";
 import UDT from "../networking/udt/UDT";
+import "../shared/DataViewExtensions";
+import PolyVoxSurfaceStyle from "../shared/PolyVoxSurfaceStyle";
 import PropertyFlags from "../shared/PropertyFlags";
+import Uuid from "../shared/Uuid";
+import type { vec3 } from "../shared/Vec3";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 
 
-// WEBRTC TODO: Replace Record<string, never> with PolyVoxEntityItem's special properties.
-type PolyVoxEntitySubclassProperties = Record<string, never>;
+type PolyVoxEntitySubclassProperties = {
+    voxelVolumeSize: vec3 | undefined;
+    voxelData: ArrayBuffer | undefined;
+    voxelSurfaceStyle: PolyVoxSurfaceStyle | undefined;
+    xTextureURL: string | undefined;
+    yTextureURL: string | undefined;
+    zTextureURL: string | undefined;
+    xNNeighborID: Uuid | undefined;
+    yNNeighborID: Uuid | undefined;
+    zNNeighborID: Uuid | undefined;
+    xPNeighborID: Uuid | undefined;
+    yPNeighborID: Uuid | undefined;
+    zPNeighborID: Uuid | undefined;
+};
 
-// WEBRTC TODO: Make a union with PolyVoxEntitySubclassProperties.
-type PolyVoxEntityProperties = CommonEntityProperties;
+type PolyVoxEntityProperties = CommonEntityProperties & PolyVoxEntitySubclassProperties;
 
 type PolyVoxEntitySubclassData = {
     bytesRead: number;
@@ -27,10 +43,70 @@ type PolyVoxEntitySubclassData = {
 };
 
 
+/*@devdoc
+ *  The <code>PolyVoxEntityItem</code> class provides facilities for reading PolyVox entity properties from a packet.
+ *  <p>C++: <code>class PolyVoxEntityItem : public EntityItem</code></p>
+ *  @class PolyVoxEntityItem
+ */
 class PolyVoxEntityItem {
     // C++  class PolyVoxEntityItem : public EntityItem
 
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): PolyVoxEntitySubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  The <code>PolyVox</code> {@link EntityType} displays a set of textured voxels.
+     *  <p>It has properties in addition to the {@link EntityProperties|common EntityProperties}. A property value may be
+     *  undefined if it couldn't fit in the data packet sent by the server.</p>
+     *  @typedef {object} PolyVoxEntityProperties
+     *  @property {vec3|undefined} voxelVolumeSize=32,32,32 - Integer number of voxels along each axis of the entity, in the
+     *      range <code>1,1,1</code> to <code>128,128,128</code>. The dimensions of each voxel is
+     *      <code>dimensions / voxelVolumeSize</code>.
+     *  @property {ArrayBuffer|undefined} voxelData - The zlib-compressed voxel data. The uncompressed data is the voxel
+     *      volume size as three 16-bit integers followed by one byte per voxel.
+     *  @property {PolyVoxSurfaceStyle|undefined} voxelSurfaceStyle=EDGED_MARCHING_CUBES - The style of rendering the voxels'
+     *      surface and how neighboring PolyVox entities are joined.
+     *  @property {string|undefined} xTextureURL="" - The URL of the texture to map to surfaces perpendicular to the entity's
+     *      local x-axis. JPG or PNG format. If no texture is specified the surfaces display white.
+     *  @property {string|undefined} yTextureURL="" - The URL of the texture to map to surfaces perpendicular to the entity's
+     *      local y-axis. JPG or PNG format. If no texture is specified the surfaces display white.
+     *  @property {string|undefined} zTextureURL="" - The URL of the texture to map to surfaces perpendicular to the entity's
+     *      local z-axis. JPG or PNG format. If no texture is specified the surfaces display white.
+     *  @property {Uuid|undefined} xNNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's -ve local
+     *      x-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     *  @property {Uuid|undefined} yNNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's -ve local
+     *      y-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     *  @property {Uuid|undefined} zNNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's -ve local
+     *      z-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     *  @property {Uuid|undefined} xPNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's +ve local
+     *      x-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     *  @property {Uuid|undefined} yPNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's +ve local
+     *      y-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     *  @property {Uuid|undefined} zPNeighborID=Uuid.NULL - The ID of the neighboring PolyVox entity in the entity's +ve local
+     *      z-axis direction, if you want them joined. Set to {@link Uuid|Uuid.NULL} if there is none or you don't want to
+     *      join them.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link PolyVoxEntityProperties} and the number of bytes read.
+     *  @typedef {object} PolyVoxEntitySubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {PolyVoxEntityProperties} properties - The PolyVox entity properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, PolyVox entity properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the PolyVox entity properties in the {@link Packets|EntityData} message
+     *      data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {PolyVoxEntitySubclassData} The PolyVox entity properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): PolyVoxEntitySubclassData {
         // C++  int PolyVoxEntityItem::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -39,121 +115,115 @@ class PolyVoxEntityItem {
 
         let dataPosition = position;
 
+        let voxelVolumeSize: vec3 | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_VOXEL_VOLUME_SIZE)) {
-            // WEBRTC TODO: Read voxelVolumeSize property.
+            voxelVolumeSize = {
+                x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+                y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+                z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+            };
             dataPosition += 12;
         }
 
+        let voxelData: ArrayBuffer | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_VOXEL_DATA)) {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                for (let i = 0; i < length; i++) {
-                    // WEBRTC TODO: Read voxelData property.
-                    dataPosition += 1;
-                }
-            }
+            voxelData = data.buffer.slice(data.byteOffset + dataPosition, data.byteOffset + dataPosition + length);
+            dataPosition += length;
         }
 
+        let voxelSurfaceStyle: PolyVoxSurfaceStyle | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_VOXEL_SURFACE_STYLE)) {
-            // WEBRTC TODO: Read voxelSurfaceStyle property.
+            voxelSurfaceStyle = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
         }
 
-        if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_X_TEXTURE_URL)) {
+        const textDecoder = new TextDecoder();
+        const readString = (): string => {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
-            if (length > 0) {
-                // WEBRTC TODO: Read xTextureURL prop.
-                dataPosition += length;
-            }
+            const value = textDecoder.decode(new Uint8Array(data.buffer, data.byteOffset + dataPosition, length));
+            dataPosition += length;
+            return value;
+        };
+
+        let xTextureURL: string | undefined = undefined;
+        if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_X_TEXTURE_URL)) {
+            xTextureURL = readString();
         }
 
+        let yTextureURL: string | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Y_TEXTURE_URL)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read yTextureURL prop.
-                dataPosition += length;
-            }
+            yTextureURL = readString();
         }
 
+        let zTextureURL: string | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Z_TEXTURE_URL)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read zTextureURL prop.
-                dataPosition += length;
-            }
+            zTextureURL = readString();
         }
 
-        if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_X_N_NEIGHBOR_ID)) {
+        // A null ID is written with zero length.
+        const readUuid = (): Uuid => {
             const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 2;
 
             if (length > 0) {
-                // WEBRTC TODO: Read xNNeighborID property.
+                const value = new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN));
                 dataPosition += 16;
+                return value;
             }
+            return new Uuid();
+        };
+
+        let xNNeighborID: Uuid | undefined = undefined;
+        if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_X_N_NEIGHBOR_ID)) {
+            xNNeighborID = readUuid();
         }
 
+        let yNNeighborID: Uuid | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Y_N_NEIGHBOR_ID)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read yNNeighborID property.
-                dataPosition += 16;
-            }
+            yNNeighborID = readUuid();
         }
 
+        let zNNeighborID: Uuid | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Z_N_NEIGHBOR_ID)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read zNNeighborID property.
-                dataPosition += 16;
-            }
+            zNNeighborID = readUuid();
         }
 
+        let xPNeighborID: Uuid | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_X_P_NEIGHBOR_ID)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read xPNeighborID property.
-                dataPosition += 16;
-            }
+            xPNeighborID = readUuid();
         }
 
+        let yPNeighborID: Uuid | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Y_P_NEIGHBOR_ID)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read yPNeighborID property.
-                dataPosition += 16;
-            }
+            yPNeighborID = readUuid();
         }
 
+        let zPNeighborID: Uuid | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_Z_P_NEIGHBOR_ID)) {
-            const length = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
-            dataPosition += 2;
-
-            if (length > 0) {
-                // WEBRTC TODO: Read zPNeighborID property.
-                dataPosition += 16;
-            }
+            zPNeighborID = readUuid();
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                voxelVolumeSize,
+                voxelData,
+                voxelSurfaceStyle,
+                xTextureURL,
+                yTextureURL,
+                zTextureURL,
+                xNNeighborID,
+                yNNeighborID,
+                zNNeighborID,
+                xPNeighborID,
+                yPNeighborID,
+                zPNeighborID
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -162,4 +232,4 @@ class PolyVoxEntityItem {
 }
 
 export default PolyVoxEntityItem;
-export type { PolyVoxEntitySubclassData, PolyVoxEntityProperties };
+export type { PolyVoxEntitySubclassData, PolyVoxEntitySubclassProperties, PolyVoxEntityProperties };
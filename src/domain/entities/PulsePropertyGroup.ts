@@ -9,23 +9,65 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import UDT from "../networking/udt/UDT";
 import PropertyFlags from "../shared/PropertyFlags";
+import PulseMode from "../shared/PulseMode";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 
 
-// WEBRTC TODO: Replace Record<string, never> with PulsePropertyGroupProperties.
+type PulseProperties = {
+    min: number | undefined,
+    max: number | undefined,
+    period: number | undefined,
+    colorMode: PulseMode | undefined,
+    alphaMode: PulseMode | undefined
+};
+
 type PulsePropertyGroupSubclassData = {
     bytesRead: number;
-    properties: Record<string, never>;
+    properties: PulseProperties;
 };
 
 
+/*@devdoc
+ *  The <code>PulsePropertyGroup</code> class provides facilities for reading pulse properties of an entity from a packet.
+ *  <p>C++: <code>class PulsePropertyGroup : public PropertyGroup</code></p>
+ *  @class PulsePropertyGroup
+ */
 class PulsePropertyGroup {
     // C++  class PulsePropertyGroup : public PropertyGroup
 
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): PulsePropertyGroupSubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  Defines how an entity's color and alpha pulse. <em>Deprecated.</em>
+     *  @typedef {object} PulseProperties
+     *  @property {number|undefined} min=0 - The minimum value of the pulse multiplier.
+     *  @property {number|undefined} max=1 - The maximum value of the pulse multiplier.
+     *  @property {number|undefined} period=1 - The duration of the color and alpha pulse, in seconds. A pulse multiplier value
+     *      goes from <code>min</code> to <code>max</code>, then <code>max</code> to <code>min</code> in one period.
+     *  @property {PulseMode|undefined} colorMode=NONE - If <code>IN_PHASE</code>, the color is pulsed in phase with the pulse
+     *      period; if <code>OUT_PHASE</code>, the color is pulsed out of phase with the pulse period.
+     *  @property {PulseMode|undefined} alphaMode=NONE - If <code>IN_PHASE</code>, the alpha is pulsed in phase with the pulse
+     *      period; if <code>OUT_PHASE</code>, the alpha is pulsed out of phase with the pulse period.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link PulseProperties} and the number of bytes read.
+     *  @typedef {object} PulsePropertyGroupSubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {PulseProperties} properties - The pulse properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, an entity's pulse properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the entity's pulse properties in the {@link Packets|EntityData} message
+     *      data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {PulsePropertyGroupSubclassData} The entity's pulse properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): PulsePropertyGroupSubclassData {
         // C++  int PulsePropertyGroup::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -34,34 +76,45 @@ class PulsePropertyGroup {
 
         let dataPosition = position;
 
+        let min: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_PULSE_MIN)) {
-            // WEBRTC TODO: Read pulseMin property.
+            min = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let max: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_PULSE_MAX)) {
-            // WEBRTC TODO: Read pulseMax property.
+            max = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let period: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_PULSE_PERIOD)) {
-            // WEBRTC TODO: Read pulsePeriod property.
+            period = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let colorMode: PulseMode | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_PULSE_COLOR_MODE)) {
-            // WEBRTC TODO: Read pulseColorMode property.
+            colorMode = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let alphaMode: PulseMode | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_PULSE_ALPHA_MODE)) {
-            // WEBRTC TODO: Read pulseAlphaMode property.
+            alphaMode = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                min,
+                max,
+                period,
+                colorMode,
+                alphaMode
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -70,4 +123,4 @@ class PulsePropertyGroup {
 }
 
 export default PulsePropertyGroup;
-export type { PulsePropertyGroupSubclassData };
+export type { PulsePropertyGroupSubclassData, PulseProperties };
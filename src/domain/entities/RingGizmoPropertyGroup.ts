@@ -9,23 +9,94 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import UDT from "../networking/udt/UDT";
+import type { color } from "../shared/Color";
 import PropertyFlags from "../shared/PropertyFlags";
 import { EntityPropertyFlags } from "./EntityPropertyFlags";
 
 
-// WEBRTC TODO: Replace Record<string, never> with RingGizmoPropertyGroupProperties.
+type RingGizmoProperties = {
+    startAngle: number | undefined,
+    endAngle: number | undefined,
+    innerRadius: number | undefined,
+    innerStartColor: color | undefined,
+    innerEndColor: color | undefined,
+    outerStartColor: color | undefined,
+    outerEndColor: color | undefined,
+    innerStartAlpha: number | undefined,
+    innerEndAlpha: number | undefined,
+    outerStartAlpha: number | undefined,
+    outerEndAlpha: number | undefined,
+    hasTickMarks: boolean | undefined,
+    majorTickMarksAngle: number | undefined,
+    minorTickMarksAngle: number | undefined,
+    majorTickMarksLength: number | undefined,
+    minorTickMarksLength: number | undefined,
+    majorTickMarksColor: color | undefined,
+    minorTickMarksColor: color | undefined
+};
+
 type RingGizmoPropertyGroupSubclassData = {
-    bytesRead: number;
-    properties: Record<string, never>;
+    bytesRead: number,
+    properties: RingGizmoProperties
 };
 
 
+/*@devdoc
+ *  The <code>RingGizmoPropertyGroup</code> class provides facilities for reading ring properties of a Gizmo entity from a
+ *  packet.
+ *  <p>C++: <code>class RingGizmoPropertyGroup : public PropertyGroup</code></p>
+ *  @class RingGizmoPropertyGroup
+ */
 class RingGizmoPropertyGroup {
     // C++  class RingGizmoPropertyGroup : public PropertyGroup
 
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    static readEntitySubclassDataFromBuffer(data: DataView, position: number, propertyFlags: PropertyFlags): RingGizmoPropertyGroupSubclassData { // eslint-disable-line class-methods-use-this, max-len
+    /*@sdkdoc
+     *  Defines a ring gizmo.
+     *  @typedef {object} RingGizmoProperties
+     *  @property {number|undefined} startAngle=0 - The angle at which the ring starts, in degrees.
+     *  @property {number|undefined} endAngle=360 - The angle at which the ring ends, in degrees.
+     *  @property {number|undefined} innerRadius=0 - The inner radius of the ring as a fraction of the total radius,
+     *      range <code>0.0</code> &ndash; <code>1.0</code>.
+     *  @property {color|undefined} innerStartColor=255,255,255 - The color at the inner start point of the ring.
+     *  @property {color|undefined} innerEndColor=255,255,255 - The color at the inner end point of the ring.
+     *  @property {color|undefined} outerStartColor=255,255,255 - The color at the outer start point of the ring.
+     *  @property {color|undefined} outerEndColor=255,255,255 - The color at the outer end point of the ring.
+     *  @property {number|undefined} innerStartAlpha=1 - The opacity at the inner start point of the ring.
+     *  @property {number|undefined} innerEndAlpha=1 - The opacity at the inner end point of the ring.
+     *  @property {number|undefined} outerStartAlpha=1 - The opacity at the outer start point of the ring.
+     *  @property {number|undefined} outerEndAlpha=1 - The opacity at the outer end point of the ring.
+     *  @property {boolean|undefined} hasTickMarks=false - <code>true</code> to render tick marks, otherwise <code>false</code>.
+     *  @property {number|undefined} majorTickMarksAngle=0 - The angle between major tick marks, in degrees.
+     *  @property {number|undefined} minorTickMarksAngle=0 - The angle between minor tick marks, in degrees.
+     *  @property {number|undefined} majorTickMarksLength=0 - The length of the major tick marks as a fraction of the
+     *      radius. A positive value draws tick marks outwards from the inner radius; a negative value draws tick marks
+     *      inwards from the outer radius.
+     *  @property {number|undefined} minorTickMarksLength=0 - The length of the minor tick marks as a fraction of the
+     *      radius. A positive value draws tick marks outwards from the inner radius; a negative value draws tick marks
+     *      inwards from the outer radius.
+     *  @property {color|undefined} majorTickMarksColor=255,255,255 - The color of the major tick marks.
+     *  @property {color|undefined} minorTickMarksColor=255,255,255 - The color of the minor tick marks.
+     */
+
+    /*@devdoc
+     *  A wrapper for providing {@link RingGizmoProperties} and the number of bytes read.
+     *  @typedef {object} RingGizmoPropertyGroupSubclassData
+     *  @property {number} bytesRead - The number of bytes read.
+     *  @property {RingGizmoProperties} properties - The ring gizmo properties.
+     */
+
+    /*@devdoc
+     *  Reads, if present, a Gizmo entity's ring properties in an {@link PacketType(1)|EntityData} packet.
+     *  <p><em>Static</em></p>
+     *  @param {DataView} data - The {@link Packets|EntityData} message data to read.
+     *  @param {number} position - The position of the Gizmo entity's ring properties in the {@link Packets|EntityData}
+     *      message data.
+     *  @param {PropertyFlags} propertyFlags - The property flags.
+     *  @returns {RingGizmoPropertyGroupSubclassData} The Gizmo entity's ring properties and the number of bytes read.
+     */
+    static readEntitySubclassDataFromBuffer(data: DataView, position: number,
+        propertyFlags: PropertyFlags): RingGizmoPropertyGroupSubclassData {
         // C++  int RingGizmoPropertyGroup::readEntitySubclassDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
         //      ReadBitstreamToTreeParams& args, EntityPropertyFlags& propertyFlags, bool overwriteLocalData,
         //      bool& somethingChanged)
@@ -34,99 +105,160 @@ class RingGizmoPropertyGroup {
 
         let dataPosition = position;
 
+        let startAngle: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_START_ANGLE)) {
-            // WEBRTC TODO: Read startAngle property.
+            startAngle = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let endAngle: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_END_ANGLE)) {
-            // WEBRTC TODO: Read endAngle property.
+            endAngle = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let innerRadius: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_INNER_RADIUS)) {
-            // WEBRTC TODO: Read innerRadius property.
+            innerRadius = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let innerStartColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_INNER_START_COLOR)) {
-            // WEBRTC TODO: Read innerStartColor property.
+            innerStartColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let innerEndColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_INNER_END_COLOR)) {
-            // WEBRTC TODO: Read innerEndColor property.
+            innerEndColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let outerStartColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_OUTER_START_COLOR)) {
-            // WEBRTC TODO: Read outerStartColor property.
+            outerStartColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let outerEndColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_OUTER_END_COLOR)) {
-            // WEBRTC TODO: Read outerEndColor property.
+            outerEndColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let innerStartAlpha: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_INNER_START_ALPHA)) {
-            // WEBRTC TODO: Read innerStartAlpha property.
+            innerStartAlpha = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let innerEndAlpha: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_INNER_END_ALPHA)) {
-            // WEBRTC TODO: Read innerEndAlpha property.
+            innerEndAlpha = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let outerStartAlpha: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_OUTER_START_ALPHA)) {
-            // WEBRTC TODO: Read outerStartAlpha property.
+            outerStartAlpha = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let outerEndAlpha: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_OUTER_END_ALPHA)) {
-            // WEBRTC TODO: Read outerEndAlpha property.
+            outerEndAlpha = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let hasTickMarks: boolean | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_HAS_TICK_MARKS)) {
-            // WEBRTC TODO: Read hasTickMarks property.
+            hasTickMarks = Boolean(data.getUint8(dataPosition));
             dataPosition += 1;
         }
 
+        let majorTickMarksAngle: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MAJOR_TICK_MARKS_ANGLE)) {
-            // WEBRTC TODO: Read majorTickMarksAngle property.
+            majorTickMarksAngle = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let minorTickMarksAngle: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MINOR_TICK_MARKS_ANGLE)) {
-            // WEBRTC TODO: Read minorTickMarksAngle property.
+            minorTickMarksAngle = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let majorTickMarksLength: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MAJOR_TICK_MARKS_LENGTH)) {
-            // WEBRTC TODO: Read majorTickMarksLength property.
+            majorTickMarksLength = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let minorTickMarksLength: number | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MINOR_TICK_MARKS_LENGTH)) {
-            // WEBRTC TODO: Read minorTickMarksLength property.
+            minorTickMarksLength = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
             dataPosition += 4;
         }
 
+        let majorTickMarksColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MAJOR_TICK_MARKS_COLOR)) {
-            // WEBRTC TODO: Read majorTickMarksColor property.
+            majorTickMarksColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
+        let minorTickMarksColor: color | undefined = undefined;
         if (propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MINOR_TICK_MARKS_COLOR)) {
-            // WEBRTC TODO: Read minorTickMarksColor property.
+            minorTickMarksColor = {
+                red: data.getUint8(dataPosition),
+                green: data.getUint8(dataPosition + 1),
+                blue: data.getUint8(dataPosition + 2)
+            };
             dataPosition += 3;
         }
 
         return {
             bytesRead: dataPosition - position,
-            properties: {}
+            properties: {
+                startAngle,
+                endAngle,
+                innerRadius,
+                innerStartColor,
+                innerEndColor,
+                outerStartColor,
+                outerEndColor,
+                innerStartAlpha,
+                innerEndAlpha,
+                outerStartAlpha,
+                outerEndAlpha,
+                hasTickMarks,
+                majorTickMarksAngle,
+                minorTickMarksAngle,
+                majorTickMarksLength,
+                minorTickMarksLength,
+                majorTickMarksColor,
+                minorTickMarksColor
+            }
         };
 
         /* eslint-enable @typescript-eslint/no-magic-numbers */
@@ -135,4 +267,4 @@ class RingGizmoPropertyGroup {
 }
 
 export default RingGizmoPropertyGroup;
-export type { RingGizmoPropertyGroupSubclassData };
+export type { RingGizmoPropertyGroupSubclassData, RingGizmoProperties };
@@ -174,4 +174,4 @@ class ShapeEntityItem {
 }
 
 export default ShapeEntityItem;
-export type { ShapeEntitySubclassData, ShapeEntityProperties, Shape };
+export type { ShapeEntitySubclassData, ShapeEntitySubclassProperties, ShapeEntityProperties, Shape };
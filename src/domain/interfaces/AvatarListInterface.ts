@@ -23,8 +23,15 @@ import Uuid from "../shared/Uuid";
  *  @comment Don't document the constructor because it shouldn't be used in the SDK.
  *
  *  @property {number} count - The number of avatars the user client knows about in the domain, including the user client's.
+ *  @property {Array<Uuid>} activeSpeakers - The session IDs of the avatars other than the user client's that are currently
+ *      speaking, sorted by loudness with the loudest first.
+ *      <p>An avatar starts speaking when its audio loudness rises above a threshold and stops speaking when its loudness has
+ *      been below a lower threshold for half a second.</p>
+ *      <em>Read-only.</em>
  *  @property {Signal<AvatarListInterface~avatarAdded>} avatarAdded - Triggered when an avatar is added.
  *  @property {Signal<AvatarListInterface~avatarRemoved>} avatarRemoved - Triggered when an avatar is removed.
+ *  @property {Signal<AvatarListInterface~speakingChanged>} speakingChanged - Triggered when an avatar starts or stops
+ *      speaking.
  */
 class AvatarListInterface {
     // C++  The user scripting interface for the AvatarManager class.
@@ -42,6 +49,11 @@ class AvatarListInterface {
         return this.#_avatarManager.getAvatarCount();
     }
 
+    get activeSpeakers(): Array<Uuid> {
+        // C++  N/A
+        return this.#_avatarManager.getActiveSpeakers();
+    }
+
 
     /*@sdkdoc
      *  Gets the session IDs of all avatars the use client knows about in the domain. The user client's avatar is included as
@@ -88,6 +100,20 @@ class AvatarListInterface {
         return this.#_avatarManager.avatarRemoved;
     }
 
+    /*@sdkdoc
+     *  Triggered when an avatar starts or stops speaking.
+     *  <p>Not triggered for the user client's avatar. Triggered with <code>isSpeaking == false</code> if a speaking avatar is
+     *  removed.</p>
+     *  @callback AvatarListInterface~speakingChanged
+     *  @param {Uuid} sessionUUID - The UUID of the avatar.
+     *  @param {boolean} isSpeaking - <code>true</code> if the avatar started speaking, <code>false</code> if it stopped
+     *      speaking.
+     */
+    get speakingChanged(): Signal {
+        // C++  N/A
+        return this.#_avatarManager.speakingChanged;
+    }
+
 }
 
 export default AvatarListInterface;
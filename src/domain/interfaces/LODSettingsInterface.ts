@@ -0,0 +1,119 @@
+//
+//  LODSettingsInterface.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import ContextManager from "../shared/ContextManager";
+import LODManager from "../LODManager";
+
+
+/*@sdkdoc
+ *  The <code>LODSettingsInterface</code> namespace provides facilities for controlling the level of detail (LOD) of the entity
+ *  data that the entity server sends. It is provided as the <code>lodSettings</code> property of the {@link EntityServer}
+ *  class.
+ *  <p>Lower LOD values mean that fewer small and distant entities are sent. The LOD can be set directly, or it can be
+ *  automatically adjusted to maintain a target frame rate. For automatic adjustment, the app must report its frame rate using
+ *  {@link LODSettingsInterface.reportFrameRate|reportFrameRate}.</p>
+ *  @namespace LODSettingsInterface
+ *  @comment Don't document the constructor because it shouldn't be used in the SDK.
+ *
+ *  @property {number} octreeSizeScale=13107200 - The octree size scale: the distance at which a 1m cube is at the limit of
+ *      being sent, multiplied by the size of the entity server's octree (<code>32768</code>). Values are clamped to the range
+ *      <code>524288</code> &ndash; <code>13107200</code>. If <code>automaticLODAdjust</code> is <code>true</code>, the value
+ *      is automatically adjusted within this range.
+ *  @property {number} boundaryLevelAdjust=0 - An integer adjustment to the octree level at which entities are sent. Positive
+ *      values reduce the detail sent; negative values increase it.
+ *  @property {boolean} automaticLODAdjust=true - <code>true</code> if the octree size scale is automatically adjusted to
+ *      maintain the target frame rate, <code>false</code> if it isn't.
+ *  @property {number} targetFPS=30 - The frame rate, in frames per second, that automatic LOD adjustment maintains. The LOD is
+ *      decreased if the reported frame rate falls below this value and increased if it rises <code>10</code> frames per
+ *      second above this value. Must be greater than <code>0</code>.
+ */
+class LODSettingsInterface {
+    // C++  The user scripting interface for the LODManager class.
+
+    #_lodManager;
+
+
+    constructor(contextID: number) {
+        this.#_lodManager = ContextManager.get(contextID, LODManager) as LODManager;
+    }
+
+
+    get octreeSizeScale(): number {
+        return this.#_lodManager.getOctreeSizeScale();
+    }
+
+    set octreeSizeScale(octreeSizeScale: number) {
+        if (!Number.isFinite(octreeSizeScale) || !(octreeSizeScale > 0)) {
+            console.error("[EntityServer] [LODSettings] Tried to set invalid octree size scale!",
+                JSON.stringify(octreeSizeScale));
+            return;
+        }
+        this.#_lodManager.setOctreeSizeScale(Math.min(Math.max(octreeSizeScale, LODManager.MIN_OCTREE_SIZE_SCALE),
+            LODManager.MAX_OCTREE_SIZE_SCALE));
+    }
+
+    get boundaryLevelAdjust(): number {
+        return this.#_lodManager.getBoundaryLevelAdjust();
+    }
+
+    set boundaryLevelAdjust(boundaryLevelAdjust: number) {
+        if (!Number.isInteger(boundaryLevelAdjust)) {
+            console.error("[EntityServer] [LODSettings] Tried to set invalid boundary level adjust!",
+                JSON.stringify(boundaryLevelAdjust));
+            return;
+        }
+        this.#_lodManager.setBoundaryLevelAdjust(boundaryLevelAdjust);
+    }
+
+    get automaticLODAdjust(): boolean {
+        return this.#_lodManager.getAutomaticLODAdjust();
+    }
+
+    set automaticLODAdjust(automaticLODAdjust: boolean) {
+        if (typeof automaticLODAdjust !== "boolean") {
+            console.error("[EntityServer] [LODSettings] Tried to set invalid automatic LOD adjust!",
+                JSON.stringify(automaticLODAdjust));
+            return;
+        }
+        this.#_lodManager.setAutomaticLODAdjust(automaticLODAdjust);
+    }
+
+    get targetFPS(): number {
+        return this.#_lodManager.getLODTargetFPS();
+    }
+
+    set targetFPS(targetFPS: number) {
+        if (typeof targetFPS !== "number" || !(targetFPS > 0)) {
+            console.error("[EntityServer] [LODSettings] Tried to set invalid target FPS!", JSON.stringify(targetFPS));
+            return;
+        }
+        this.#_lodManager.setLODTargetFPS(targetFPS);
+    }
+
+
+    /*@sdkdoc
+     *  Reports the app's current frame rate, for automatic LOD adjustment. Call this regularly, e.g., once per frame or once
+     *  per game loop update.
+     *  @param {number} frameRate - The app's current frame rate, in frames per second.
+     */
+    reportFrameRate(frameRate: number): void {
+        // C++  void LODManager::autoAdjustLOD(float realTimeDelta)
+        if (typeof frameRate !== "number" || !(frameRate >= 0)) {
+            console.error("[EntityServer] [LODSettings] reportFrameRate() called with an invalid frame rate!",
+                JSON.stringify(frameRate));
+            return;
+        }
+        this.#_lodManager.reportFrameRate(frameRate);
+    }
+
+}
+
+export default LODSettingsInterface;
@@ -9,12 +9,20 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import { HandState, KeyState } from "../avatars/AvatarData";
+import { HandControllerPose } from "../avatars/AvatarDataPacket";
 import { SkeletonJoint } from "../avatars/AvatarTraits";
+import EntityItemProperties, { EntityEditProperties } from "../entities/EntityItemProperties";
+import { EntityType } from "../entities/EntityTypes";
+import { EntityProperties } from "../networking/packets/EntityData";
 import AddressManager from "../networking/AddressManager";
 import AvatarConstants from "../shared/AvatarConstants";
 import ContextManager from "../shared/ContextManager";
+import { GrabData } from "../shared/Grab";
 import Quat, { quat } from "../shared/Quat";
 import { Signal } from "../shared/SignalEmitter";
+import SpatiallyNestable from "../shared/SpatiallyNestable";
+import Uuid from "../shared/Uuid";
 import Vec3, { vec3 } from "../shared/Vec3";
 import AvatarManager from "../AvatarManager";
 
@@ -53,6 +61,15 @@ import AvatarManager from "../AvatarManager";
  *      <em>Read-only.</em>
  *  @property {vec3} position - The position of the avatar in the domain.
  *  @property {quat} orientation - The orientation of the avatar in the domain.
+ *  @property {Uuid} parentID=Uuid.NULL - The ID of the entity or avatar that the avatar is parented to, e.g., a vehicle or
+ *      seat that it rides on. {@link Uuid(1)|Uuid.NULL} if the avatar isn't parented. While parented, the avatar moves with
+ *      its parent. The parent must be an entity or avatar that the user client knows about: if it isn't, an error is logged
+ *      and the avatar's parent is unchanged.
+ *      <p>Setting the parent keeps the avatar at its current position and orientation in the domain.</p>
+ *  @property {number} parentJointIndex=65535 - The index of the parent's joint that the avatar is parented to,
+ *      <code>0</code> &ndash; <code>65535</code>. <code>65535</code> if the avatar isn't parented to a joint.
+ *      <p><strong>Warning:</strong> Parent joints' transforms aren't currently available, so the avatar moves with its
+ *      parent rather than the joint.</p>
  *  @property {Signal<MyAvatarInterface~locationChangeRequired>} locationChangeRequired - Triggered when the avatar's location
  *      should change to that of a path looked up on the domain (set in the domain server's settings).
  *  @property {Array<quat|null>} jointRotations - The avatar's joint rotations.
@@ -67,6 +84,27 @@ import AvatarManager from "../AvatarManager";
  *      <p><strong>Warning:</strong> Gets and sets the internal data structure used for joint translations. This is done for
  *      speed of operation and convenience (you can update individual translation values without setting the property value
  *      again).</p>
+ *  @property {vec3|null} lookAtPosition=null - The position in the domain that the avatar is looking at, for other users'
+ *      clients to direct the avatar's eyes at. <code>null</code> if not set.
+ *  @property {HandControllerPose|null} leftHandController=null - The pose of the user's left hand controller, e.g., from
+ *      WebXR hand tracking, relative to the avatar's position and orientation. <code>null</code> if not tracked.
+ *  @property {HandControllerPose|null} rightHandController=null - The pose of the user's right hand controller, e.g., from
+ *      WebXR hand tracking, relative to the avatar's position and orientation. <code>null</code> if not tracked.
+ *  @property {number[]} blendshapeCoefficients=[] - The avatar's facial blendshape coefficients, in the order of the
+ *      avatar model's blendshapes. Up to 255 coefficients may be set. Setting coefficients overrides the procedural facial
+ *      animation performed by other users' clients; set to <code>[]</code> to revert to procedural facial animation.
+ *  @property {KeyState} keyState=0 - The state of the keys that the user is pressing in order to adjust their avatar's
+ *      appearance.
+ *  @property {HandState} handState=0 - The state of the user's hands: the sum of the relevant {@link HandState} flag values.
+ *  @property {EntityProperties[]} avatarEntities - The properties of the avatar's avatar entities.
+ *      <em>Read-only.</em>
+ *  @property {Signal<MyAvatarInterface~avatarEntitiesChanged>} avatarEntitiesChanged - Triggered when the avatar's avatar
+ *      entities change.
+ *      <em>Read-only.</em>
+ *  @property {GrabData[]} grabs - The entities and avatars that the avatar is grabbing.
+ *      <em>Read-only.</em>
+ *  @property {Signal<MyAvatarInterface~grabsChanged>} grabsChanged - Triggered when the avatar's grabs change.
+ *      <em>Read-only.</em>
  */
 class MyAvatarInterface {
     // C++  The user scripting interface for the MyAvatar class.
@@ -257,6 +295,38 @@ class MyAvatarInterface {
         this.#_avatarManager.getMyAvatar().setWorldOrientation(Quat.copy(orientation));
     }
 
+    get parentID(): Uuid {
+        const parentID = this.#_avatarManager.getMyAvatar().getParentID();
+        return new Uuid(parentID.value());
+    }
+
+    set parentID(parentID: Uuid) {
+        if (!(parentID instanceof Uuid)) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid parentID value!", JSON.stringify(parentID));
+            return;
+        }
+        const myAvatar = this.#_avatarManager.getMyAvatar();
+        if (parentID.value() === Uuid.AVATAR_SELF_ID || parentID.value() === myAvatar.getSessionUUID().value()) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to parent the avatar to itself!");
+            return;
+        }
+        myAvatar.setParentID(new Uuid(parentID.value()));
+    }
+
+    get parentJointIndex(): number {
+        return this.#_avatarManager.getMyAvatar().getParentJointIndex();
+    }
+
+    set parentJointIndex(parentJointIndex: number) {
+        if (!Number.isInteger(parentJointIndex) || parentJointIndex < 0
+                || parentJointIndex > SpatiallyNestable.INVALID_JOINT_INDEX) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid parentJointIndex value!",
+                JSON.stringify(parentJointIndex));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setParentJointIndex(parentJointIndex);
+    }
+
     /*@sdkdoc
      *  Triggered when the avatar's location should change to that of a path looked up on the domain (set in the domain
      *  server's settings).
@@ -297,6 +367,230 @@ class MyAvatarInterface {
         this.#_avatarManager.getMyAvatar().setJointTranslations(jointTranslations);
     }
 
+    get lookAtPosition(): vec3 | null {
+        const lookAtPosition = this.#_avatarManager.getMyAvatar().getLookAtPosition();
+        return lookAtPosition ? Vec3.copy(lookAtPosition) : null;
+    }
+
+    set lookAtPosition(lookAtPosition: vec3 | null) {
+        if (lookAtPosition !== null && !Vec3.valid(lookAtPosition)) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid lookAtPosition value!",
+                JSON.stringify(lookAtPosition));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setLookAtPosition(lookAtPosition ? Vec3.copy(lookAtPosition) : null);
+    }
+
+    get leftHandController(): HandControllerPose | null {
+        return MyAvatarInterface.#copyHandControllerPose(this.#_avatarManager.getMyAvatar().getLeftHandController());
+    }
+
+    set leftHandController(pose: HandControllerPose | null) {
+        if (!MyAvatarInterface.#isValidHandControllerPose(pose)) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid leftHandController value!", JSON.stringify(pose));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setLeftHandController(MyAvatarInterface.#copyHandControllerPose(pose));
+    }
+
+    get rightHandController(): HandControllerPose | null {
+        return MyAvatarInterface.#copyHandControllerPose(this.#_avatarManager.getMyAvatar().getRightHandController());
+    }
+
+    set rightHandController(pose: HandControllerPose | null) {
+        if (!MyAvatarInterface.#isValidHandControllerPose(pose)) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid rightHandController value!", JSON.stringify(pose));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setRightHandController(MyAvatarInterface.#copyHandControllerPose(pose));
+    }
+
+    get blendshapeCoefficients(): number[] {
+        return [...this.#_avatarManager.getMyAvatar().getBlendshapeCoefficients()];
+    }
+
+    set blendshapeCoefficients(blendshapeCoefficients: number[]) {
+        const MAX_BLENDSHAPE_COEFFICIENTS = 255;
+        if (!(blendshapeCoefficients instanceof Array) || blendshapeCoefficients.length > MAX_BLENDSHAPE_COEFFICIENTS
+                || !blendshapeCoefficients.every((coefficient) => {
+                    return typeof coefficient === "number";
+                })) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set invalid blendshapeCoefficients!",
+                JSON.stringify(blendshapeCoefficients));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setBlendshapeCoefficients([...blendshapeCoefficients]);
+    }
+
+    get keyState(): KeyState {
+        return this.#_avatarManager.getMyAvatar().getAdditionalFlags().keyState;
+    }
+
+    set keyState(keyState: KeyState) {
+        if (keyState !== KeyState.NoKeyDown && keyState !== KeyState.InsertKeyDown && keyState !== KeyState.DeleteKeyDown) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid keyState value!", JSON.stringify(keyState));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setKeyState(keyState);
+    }
+
+    get handState(): number {
+        return this.#_avatarManager.getMyAvatar().getAdditionalFlags().handState;
+    }
+
+    set handState(handState: number) {
+        const MAX_HAND_STATE = HandState.LeftHandPointing | HandState.RightHandPointing | HandState.IsFingerPointing;
+        if (!Number.isInteger(handState) || handState < HandState.Null || handState > MAX_HAND_STATE) {
+            console.error("[AvatarMixer] [MyAvatar] Tried to set an invalid handState value!", JSON.stringify(handState));
+            return;
+        }
+        this.#_avatarManager.getMyAvatar().setHandState(handState);
+    }
+
+    get avatarEntities(): EntityProperties[] {
+        return this.#_avatarManager.getMyAvatar().getAvatarEntities();
+    }
+
+    /*@sdkdoc
+     *  Triggered when the avatar's avatar entities change.
+     *  @callback MyAvatarInterface~avatarEntitiesChanged
+     */
+    get avatarEntitiesChanged(): Signal {
+        return this.#_avatarManager.getMyAvatar().avatarEntitiesChanged;
+    }
+
+    get grabs(): GrabData[] {
+        return this.#_avatarManager.getMyAvatar().getGrabs();
+    }
+
+    /*@sdkdoc
+     *  Triggered when the avatar's grabs change.
+     *  @callback MyAvatarInterface~grabsChanged
+     */
+    get grabsChanged(): Signal {
+        return this.#_avatarManager.getMyAvatar().grabsChanged;
+    }
+
+
+    /*@sdkdoc
+     *  Adds an avatar entity to the avatar, e.g., a hat, a name tag, or a held item. Avatar entities are sent to the avatar
+     *  mixer along with the avatar and are visible to other users in the domain. To attach the entity to the avatar, set its
+     *  <code>parentID</code> to {@link Uuid(1)|Uuid.AVATAR_SELF_ID} and its <code>parentJointIndex</code> to the joint that
+     *  it should move with.
+     *  <p>Up to 42 avatar entities may be added.</p>
+     *  @function MyAvatarInterface.addAvatarEntity
+     *  @param {EntityEditProperties} properties - The properties of the avatar entity. The <code>entityType</code> property
+     *      must be specified and must be <code>Box</code>, <code>Sphere</code>, <code>Shape</code>, or <code>Model</code>.
+     *  @returns {Uuid|null} The ID of the new avatar entity if it was added, <code>null</code> if it wasn't.
+     */
+    addAvatarEntity(properties: EntityEditProperties): Uuid | null {
+        // C++  QUuid EntityScriptingInterface::addEntityInternal(const EntityItemProperties& properties,
+        //          entity::HostType entityHostType)
+        if (typeof properties !== "object" || properties === null || typeof properties.entityType !== "number"
+                || properties.entityType <= EntityType.Unknown || properties.entityType >= EntityType.NUM_TYPES) {
+            console.error("[AvatarMixer] [MyAvatar] addAvatarEntity() called with invalid properties!");
+            return null;
+        }
+
+        if (!EntityItemProperties.canAddEntityType(properties.entityType)) {
+            console.error("[AvatarMixer] [MyAvatar] addAvatarEntity() - Entity type not supported:",
+                EntityType[properties.entityType]);
+            return null;
+        }
+
+        const entityID = Uuid.createUuid();
+        if (!this.#_avatarManager.getMyAvatar().addAvatarEntity(entityID, properties.entityType, properties)) {
+            console.error("[AvatarMixer] [MyAvatar] addAvatarEntity() - Couldn't add the avatar entity!");
+            return null;
+        }
+        return entityID;
+    }
+
+    /*@sdkdoc
+     *  Removes an avatar entity from the avatar.
+     *  @function MyAvatarInterface.removeAvatarEntity
+     *  @param {Uuid} entityID - The ID of the avatar entity.
+     *  @returns {boolean} <code>true</code> if the avatar entity was removed, <code>false</code> if it wasn't.
+     */
+    removeAvatarEntity(entityID: Uuid): boolean {
+        // C++  void EntityScriptingInterface::deleteEntity(const QUuid& id)
+        if (!(entityID instanceof Uuid)) {
+            console.error("[AvatarMixer] [MyAvatar] removeAvatarEntity() called with an invalid entityID value!");
+            return false;
+        }
+
+        const myAvatar = this.#_avatarManager.getMyAvatar();
+        if (!myAvatar.getAvatarEntityData().has(entityID.value())) {
+            console.error("[AvatarMixer] [MyAvatar] removeAvatarEntity() - Avatar entity not found:", entityID.stringify());
+            return false;
+        }
+
+        myAvatar.removeAvatarEntity(entityID);
+        return true;
+    }
+
+
+    /*@sdkdoc
+     *  Grabs an entity or avatar, so that other users see it move with the avatar. The grab is sent to the avatar mixer along
+     *  with the avatar. The entity or avatar should be moved by the grabbing client so that it stays at the offset from the
+     *  joint.
+     *  <p>Up to 6 grabs may be held at once.</p>
+     *  @function MyAvatarInterface.grab
+     *  @param {Uuid} targetID - The ID of the entity or avatar to grab.
+     *  @param {number} jointIndex - The index of the avatar joint that the target moves with. Grabs by the
+     *      <code>"RightHand"</code> or <code>"LeftHand"</code> joints are reported as being by that hand.
+     *  @param {vec3} offset - The target's position relative to the joint.
+     *  @param {quat} rotationOffset - The target's orientation relative to the joint.
+     *  @returns {Uuid|null} The ID of the grab if it was made, <code>null</code> if it wasn't.
+     */
+    grab(targetID: Uuid, jointIndex: number, offset: vec3, rotationOffset: quat): Uuid | null {
+        // C++  QUuid MyAvatar::grab(const QUuid& targetID, int parentJointIndex, glm::vec3 positionalOffset,
+        //          glm::quat rotationalOffset)
+        if (!(targetID instanceof Uuid) || typeof jointIndex !== "number" || !Vec3.valid(offset)
+                || !Quat.valid(rotationOffset)) {
+            console.error("[AvatarMixer] [MyAvatar] grab() called with invalid parameters!");
+            return null;
+        }
+
+        const grabID = this.#_avatarManager.getMyAvatar().grab(targetID, jointIndex, offset, rotationOffset);
+        if (!grabID) {
+            console.error("[AvatarMixer] [MyAvatar] grab() - Couldn't make the grab!");
+        }
+        return grabID;
+    }
+
+    /*@sdkdoc
+     *  Releases a grab.
+     *  @function MyAvatarInterface.releaseGrab
+     *  @param {Uuid} grabID - The ID of the grab.
+     *  @returns {boolean} <code>true</code> if the grab was released, <code>false</code> if it wasn't.
+     */
+    releaseGrab(grabID: Uuid): boolean {
+        // C++  void MyAvatar::releaseGrab(const QUuid& grabID)
+        if (!(grabID instanceof Uuid)) {
+            console.error("[AvatarMixer] [MyAvatar] releaseGrab() called with an invalid grabID value!");
+            return false;
+        }
+
+        const myAvatar = this.#_avatarManager.getMyAvatar();
+        if (!myAvatar.getAvatarGrabData().has(grabID.value())) {
+            console.error("[AvatarMixer] [MyAvatar] releaseGrab() - Grab not found:", grabID.stringify());
+            return false;
+        }
+
+        myAvatar.releaseGrab(grabID);
+        return true;
+    }
+
+
+    static #isValidHandControllerPose(pose: HandControllerPose | null): boolean {
+        return pose === null || typeof pose === "object" && Vec3.valid(pose.position) && Quat.valid(pose.rotation);
+    }
+
+    static #copyHandControllerPose(pose: HandControllerPose | null): HandControllerPose | null {
+        return pose ? { position: Vec3.copy(pose.position), rotation: Quat.copy(pose.rotation) } : null;
+    }
+
 }
 
 export default MyAvatarInterface;
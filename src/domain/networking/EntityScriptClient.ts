@@ -0,0 +1,208 @@
+//
+//  EntityScriptClient.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Node from "./Node";
+import NodeList from "./NodeList";
+import NodeType from "./NodeType";
+import PacketReceiver from "./PacketReceiver";
+import ReceivedMessage from "./ReceivedMessage";
+import PacketScribe from "./packets/PacketScribe";
+import PacketType from "./udt/PacketHeaders";
+import ContextManager from "../shared/ContextManager";
+import Uuid from "../shared/Uuid";
+
+
+type ScriptStatus = {
+    responseReceived: boolean,
+    isRunning: boolean,
+    status: string,
+    errorInfo: string
+};
+
+type GetScriptStatusCallback = (scriptStatus: ScriptStatus) => void;
+
+
+/*@devdoc
+ *  The <code>EntityScriptClient</code> class manages requests to the entity script server for the status of entities' server
+ *  scripts and for reloading entities' server scripts.
+ *  <p>C++: <code>class EntityScriptClient : public QObject, public Dependency</code></p>
+ *  @class EntityScriptClient
+ *  @param {number} contextID - The {@link ContextManager} context ID.
+ *
+ *  @property {string} contextItemType="EntityScriptClient" - The type name for use with the {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ */
+class EntityScriptClient {
+    // C++  class EntityScriptClient : public QObject, public Dependency
+
+    static readonly contextItemType = "EntityScriptClient";
+
+    // C++  enum class EntityScriptStatus
+    static readonly #ENTITY_SCRIPT_STATUS_STRINGS = [
+        "pending",
+        "loading",
+        "error_loading_script",
+        "error_running_script",
+        "running",
+        "unloaded"
+    ];
+
+    static readonly #RUNNING = 4;
+
+
+    // Context
+    #_nodeList;
+
+    #_currentID = 0;
+    #_pendingEntityScriptStatusRequests: Map<number, GetScriptStatusCallback> = new Map();
+
+
+    constructor(contextID: number) {
+        // C++  EntityScriptClient()
+
+        // Context
+        this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+
+        this.#_nodeList.getPacketReceiver().registerListener(PacketType.EntityScriptGetStatusReply,
+            PacketReceiver.makeSourcedListenerReference(this.handleGetScriptStatusReply));
+
+        this.#_nodeList.nodeKilled.connect(this.#handleNodeKilled);
+
+        // WEBRTC TODO: Address further C++ code - fail pending requests when the client connection to the node is reset.
+    }
+
+
+    /*@devdoc
+     *  Called with the status of an entity's server script.
+     *  @callback EntityScriptClient~GetScriptStatusCallback
+     *  @param {EntityScriptClient.ScriptStatus} scriptStatus - The status of the entity's server script.
+     */
+
+    /*@devdoc
+     *  The status of an entity's server script.
+     *  @typedef {object} EntityScriptClient.ScriptStatus
+     *  @property {boolean} responseReceived - <code>true</code> if a response was received from the entity script server,
+     *      <code>false</code> if it wasn't.
+     *  @property {boolean} isRunning - <code>true</code> if the entity's server script is running, <code>false</code> if it
+     *      isn't.
+     *  @property {string} status - The status of the entity's server script: <code>"pending"</code>,
+     *      <code>"loading"</code>, <code>"error_loading_script"</code>, <code>"error_running_script"</code>,
+     *      <code>"running"</code>, or <code>"unloaded"</code>. <code>""</code> if a response wasn't received.
+     *  @property {string} errorInfo - Information on the error if the script failed to load or run, <code>""</code> if there
+     *      was no error.
+     */
+
+    /*@devdoc
+     *  Requests the status of an entity's server script from the entity script server.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @param {EntityScriptClient~GetScriptStatusCallback} callback - The function to call with the status. If the entity
+     *      script server isn't connected or it disconnects before replying, the function is called with
+     *      <code>responseReceived == false</code>.
+     */
+    getEntityServerScriptStatus(entityID: Uuid, callback: GetScriptStatusCallback): void {
+        // C++  MessageID getEntityServerScriptStatus(QUuid entityID, GetScriptStatusCallback callback)
+        const entityScriptServer = this.#_nodeList.soloNodeOfType(NodeType.EntityScriptServer);
+        if (entityScriptServer) {
+            this.#_currentID += 1;
+            const messageID = this.#_currentID;
+            const packetList = PacketScribe.EntityScriptGetStatus.write({
+                messageID,
+                entityID
+            });
+            if (this.#_nodeList.sendPacketList(packetList, entityScriptServer) !== -1) {
+                this.#_pendingEntityScriptStatusRequests.set(messageID, callback);
+                return;
+            }
+        }
+
+        callback(EntityScriptClient.#failedStatus());
+    }
+
+    /*@devdoc
+     *  Requests that the entity script server reload an entity's server script.
+     *  @param {Uuid} entityID - The ID of the entity.
+     *  @returns {boolean} <code>true</code> if the request was sent to the entity script server, <code>false</code> if it
+     *      wasn't.
+     */
+    reloadServerScript(entityID: Uuid): boolean {
+        // C++  bool reloadServerScript(QUuid entityID)
+        const entityScriptServer = this.#_nodeList.soloNodeOfType(NodeType.EntityScriptServer);
+        if (entityScriptServer) {
+            const packet = PacketScribe.ReloadEntityServerScript.write({
+                entityID
+            });
+            this.#_nodeList.sendPacket(packet, entityScriptServer);
+            return true;
+        }
+        return false;
+    }
+
+
+    /*@devdoc
+     *  Processes an {@link PacketType(1)|EntityScriptGetStatusReply} message that has been received.
+     *  @function EntityScriptClient.handleGetScriptStatusReply
+     *  @type {Slot}
+     *  @param {ReceivedMessage} message - The received {@link PacketType(1)|EntityScriptGetStatusReply} message.
+     *  @param {Node} sendingNode - The sending node.
+     */
+    // Listener
+    handleGetScriptStatusReply = (message: ReceivedMessage /* , sendingNode: Node | null */): void => {
+        // C++  void handleGetScriptStatusReply(QSharedPointer<ReceivedMessage> message, SharedNodePointer senderNode)
+        const info = PacketScribe.EntityScriptGetStatusReply.read(message.getMessage());
+
+        const callback = this.#_pendingEntityScriptStatusRequests.get(info.messageID);
+        if (!callback) {
+            return;
+        }
+        this.#_pendingEntityScriptStatusRequests.delete(info.messageID);
+
+        callback({
+            responseReceived: true,
+            isRunning: info.isKnown && info.status === EntityScriptClient.#RUNNING,
+            status: EntityScriptClient.#ENTITY_SCRIPT_STATUS_STRINGS[info.status] ?? "",
+            errorInfo: info.errorInfo
+        });
+    };
+
+
+    static #failedStatus(): ScriptStatus {
+        return {
+            responseReceived: false,
+            isRunning: false,
+            status: "",
+            errorInfo: ""
+        };
+    }
+
+
+    #forceFailureOfPendingRequests(): void {
+        // C++  void forceFailureOfPendingRequests(SharedNodePointer node)
+        const callbacks = [...this.#_pendingEntityScriptStatusRequests.values()];
+        this.#_pendingEntityScriptStatusRequests.clear();
+        for (const callback of callbacks) {
+            callback(EntityScriptClient.#failedStatus());
+        }
+    }
+
+
+    // Slot
+    #handleNodeKilled = (node: Node): void => {
+        // C++  void handleNodeKilled(SharedNodePointer node)
+        if (node.getType() !== NodeType.EntityScriptServer) {
+            return;
+        }
+        this.#forceFailureOfPendingRequests();
+    };
+
+}
+
+export default EntityScriptClient;
+export type { ScriptStatus, GetScriptStatusCallback };
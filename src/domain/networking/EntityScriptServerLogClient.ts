@@ -0,0 +1,127 @@
+//
+//  EntityScriptServerLogClient.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Node from "./Node";
+import NodeList from "./NodeList";
+import NodeType from "./NodeType";
+import PacketReceiver from "./PacketReceiver";
+import ReceivedMessage from "./ReceivedMessage";
+import PacketScribe from "./packets/PacketScribe";
+import PacketType from "./udt/PacketHeaders";
+import ContextManager from "../shared/ContextManager";
+import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+
+
+/*@devdoc
+ *  The <code>EntityScriptServerLogClient</code> class manages a subscription to the entity script server's log of server
+ *  script output. The entity script server only sends the log to users who have permission to create entities in the domain.
+ *  <p>C++: <code>class EntityScriptServerLogClient : public QObject, public Dependency</code></p>
+ *  @class EntityScriptServerLogClient
+ *  @param {number} contextID - The {@link ContextManager} context ID.
+ *
+ *  @property {string} contextItemType="EntityScriptServerLogClient" - The type name for use with the
+ *      {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {Signal<EntityScriptServerLogClient~ReceivedNewLogLinesCallback>} receivedNewLogLines - Triggered when server
+ *      script log output is received.
+ */
+class EntityScriptServerLogClient {
+    // C++  class EntityScriptServerLogClient : public QObject, public Dependency
+
+    static readonly contextItemType = "EntityScriptServerLogClient";
+
+
+    // Context
+    #_nodeList;
+
+    #_subscribed = false;
+    #_receivedNewLogLines = new SignalEmitter();
+
+
+    constructor(contextID: number) {
+        // C++  EntityScriptServerLogClient()
+
+        // Context
+        this.#_nodeList = ContextManager.get(contextID, NodeList) as NodeList;
+
+        this.#_nodeList.getPacketReceiver().registerListener(PacketType.EntityServerScriptLog,
+            PacketReceiver.makeSourcedListenerReference(this.handleEntityServerScriptLogPacket));
+
+        // The subscription is renewed when the entity script server reconnects.
+        this.#_nodeList.nodeActivated.connect(this.#nodeActivated);
+    }
+
+
+    /*@devdoc
+     *  Called when server script log output is received.
+     *  @callback EntityScriptServerLogClient~ReceivedNewLogLinesCallback
+     *  @param {string} logLines - One or more lines of server script log output, separated by <code>"\n"</code>.
+     */
+    get receivedNewLogLines(): Signal {
+        return this.#_receivedNewLogLines.signal();
+    }
+
+
+    /*@devdoc
+     *  Gets whether the log is subscribed to.
+     *  @returns {boolean} <code>true</code> if the log is subscribed to, <code>false</code> if it isn't.
+     */
+    isSubscribed(): boolean {
+        // C++  N/A
+        return this.#_subscribed;
+    }
+
+    /*@devdoc
+     *  Subscribes to or unsubscribes from the entity script server's log. The subscription is renewed when the entity script
+     *  server reconnects.
+     *  @param {boolean} enable - <code>true</code> to subscribe to the log, <code>false</code> to unsubscribe.
+     */
+    enableToEntityServerScriptLog(enable: boolean): void {
+        // C++  void enableToEntityServerScriptLog(bool enable)
+        this.#_subscribed = enable;
+
+        const entityScriptServer = this.#_nodeList.soloNodeOfType(NodeType.EntityScriptServer);
+        if (entityScriptServer && entityScriptServer.getActiveSocket()) {
+            const packet = PacketScribe.EntityServerScriptLog.write({
+                enable
+            });
+            this.#_nodeList.sendPacket(packet, entityScriptServer);
+        }
+    }
+
+
+    /*@devdoc
+     *  Processes an {@link PacketType(1)|EntityServerScriptLog} packet that has been received.
+     *  @function EntityScriptServerLogClient.handleEntityServerScriptLogPacket
+     *  @type {Slot}
+     *  @param {ReceivedMessage} message - The received {@link PacketType(1)|EntityServerScriptLog} message.
+     *  @param {Node} sendingNode - The sending node.
+     */
+    // Listener
+    handleEntityServerScriptLogPacket = (message: ReceivedMessage /* , sendingNode: Node | null */): void => {
+        // C++  void handleEntityServerScriptLogPacket(QSharedPointer<ReceivedMessage> message,
+        //          SharedNodePointer senderNode)
+        const info = PacketScribe.EntityServerScriptLog.read(message.getMessage());
+        this.#_receivedNewLogLines.emit(info.logLines);
+    };
+
+
+    // Slot
+    #nodeActivated = (node: Node): void => {
+        // C++  void nodeActivated(SharedNodePointer activatedNode)
+        if (node.getType() === NodeType.EntityScriptServer && this.#_subscribed) {
+            this.enableToEntityServerScriptLog(true);
+        }
+    };
+
+}
+
+export default EntityScriptServerLogClient;
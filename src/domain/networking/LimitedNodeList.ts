@@ -746,6 +746,36 @@ class LimitedNodeList {
         return this.#_permissions.can(NodePermissions.Permission.canKick);
     }
 
+    /*@devdoc
+     *  Gets whether the node has permissions on the domain to change the "locked" property of entities.
+     *  @returns {boolean} <code>true</code> if the node has permissions on the domain to lock and unlock entities,
+     *      <code>false</code> if it doesn't.
+     */
+    getThisNodeCanAdjustLocks(): boolean {
+        // C++  bool getThisNodeCanAdjustLocks() const
+        return this.#_permissions.can(NodePermissions.Permission.canAdjustLocks);
+    }
+
+    /*@devdoc
+     *  Gets whether the node has permissions on the domain to create entities.
+     *  @returns {boolean} <code>true</code> if the node has permissions on the domain to create entities, <code>false</code>
+     *      if it doesn't.
+     */
+    getThisNodeCanRez(): boolean {
+        // C++  bool getThisNodeCanRez() const
+        return this.#_permissions.can(NodePermissions.Permission.canRezPermanentEntities);
+    }
+
+    /*@devdoc
+     *  Gets whether the node has permissions on the domain to create entities with a finite lifetime.
+     *  @returns {boolean} <code>true</code> if the node has permissions on the domain to create entities with a finite
+     *      lifetime, <code>false</code> if it doesn't.
+     */
+    getThisNodeCanRezTmp(): boolean {
+        // C++  bool getThisNodeCanRezTmp() const
+        return this.#_permissions.can(NodePermissions.Permission.canRezTemporaryEntities);
+    }
+
 
     /*@devdoc
      *  Triggered when the user client's session UUID changes.
@@ -0,0 +1,235 @@
+//
+//  SequenceNumberStats.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+
+type PacketStreamStats = {
+    received: number,
+    unreasonable: number,
+    early: number,
+    late: number,
+    lost: number,
+    recovered: number,
+    expectedReceived: number
+};
+
+
+/*@devdoc
+ *  The <code>SequenceNumberStats</code> class tracks the arrival of sequence-numbered packets in a stream, counting those that
+ *  arrive on time, early (i.e., after a gap), late, and with unreasonable sequence numbers. A history of the statistics is
+ *  kept so that statistics can also be reported for a recent window of time.
+ *  <p>C++: <code>class SequenceNumberStats</code></p>
+ *  @class SequenceNumberStats
+ *  @param {number} statsHistoryLength - The number of history entries to keep. Each call to
+ *      {@link SequenceNumberStats.pushStatsToHistory|pushStatsToHistory} adds an entry.
+ */
+class SequenceNumberStats {
+    // C++  class SequenceNumberStats
+
+    /*@sdkdoc
+     *  Statistics on the packets received in a sequence-numbered stream.
+     *  @typedef {object} PacketStreamStats
+     *  @property {number} received - The number of packets received.
+     *  @property {number} unreasonable - The number of packets received with sequence numbers too far from that expected.
+     *  @property {number} early - The number of packets received with sequence numbers later than expected, i.e., after a gap.
+     *  @property {number} late - The number of packets received with sequence numbers earlier than expected, i.e., out of order
+     *      or duplicated.
+     *  @property {number} lost - The number of packets lost: packets missing from a gap that haven't subsequently been
+     *      received.
+     *  @property {number} recovered - The number of packets missing from a gap that were subsequently received.
+     *  @property {number} expectedReceived - The number of packets expected to have been received.
+     */
+
+    static readonly #UINT16_RANGE = 65536;
+    static readonly #MAX_REASONABLE_SEQUENCE_GAP = 1000;
+    static readonly #CONSECUTIVE_UNREASONABLE_ON_TIME_THRESHOLD = 8;
+
+
+    static #emptyStats(): PacketStreamStats {
+        return {
+            received: 0,
+            unreasonable: 0,
+            early: 0,
+            late: 0,
+            lost: 0,
+            recovered: 0,
+            expectedReceived: 0
+        };
+    }
+
+
+    #_lastReceivedSequence = 0;
+    #_missingSet: Set<number> = new Set();
+    #_stats = SequenceNumberStats.#emptyStats();
+    #_lastUnreasonableSequence = 0;
+    #_consecutiveUnreasonableOnTime = 0;
+    #_statsHistory: PacketStreamStats[] = [];
+    #_statsHistoryLength: number;
+
+
+    constructor(statsHistoryLength: number) {
+        // C++  SequenceNumberStats(int statsHistoryLength = 0, bool canDetectOutOfSync = true)
+        this.#_statsHistoryLength = statsHistoryLength;
+    }
+
+
+    /*@devdoc
+     *  Clears all statistics and history.
+     */
+    reset(): void {
+        // C++  void reset()
+        this.#_lastReceivedSequence = 0;
+        this.#_missingSet.clear();
+        this.#_stats = SequenceNumberStats.#emptyStats();
+        this.#_lastUnreasonableSequence = 0;
+        this.#_consecutiveUnreasonableOnTime = 0;
+        this.#_statsHistory = [];
+    }
+
+    /*@devdoc
+     *  Updates the statistics for a packet received.
+     *  @param {number} incoming - The sequence number of the packet received.
+     */
+    sequenceNumberReceived(incoming: number): void {
+        // C++  ArrivalInfo sequenceNumberReceived(quint16 incoming, QUuid senderUUID, const bool wantExtraDebugging)
+        //      The Web SDK doesn't currently use the arrival info so it isn't returned.
+
+        this.#_stats.received += 1;
+
+        // The first packet received is on time.
+        if (this.#_stats.received === 1) {
+            this.#_lastReceivedSequence = incoming;
+            this.#_stats.expectedReceived += 1;
+            return;
+        }
+
+        const expected = (this.#_lastReceivedSequence + 1) % SequenceNumberStats.#UINT16_RANGE;
+        let incomingInt = incoming;
+        let expectedInt = expected;
+
+        // Check that the gap between incoming and expected is reasonable, taking possible rollover into consideration.
+        const absGap = Math.abs(incomingInt - expectedInt);
+        if (absGap >= SequenceNumberStats.#UINT16_RANGE - SequenceNumberStats.#MAX_REASONABLE_SEQUENCE_GAP) {
+            // Rollover likely occurred between incoming and expected: adjust the larger one.
+            if (incomingInt > expectedInt) {
+                incomingInt -= SequenceNumberStats.#UINT16_RANGE;
+            } else {
+                expectedInt -= SequenceNumberStats.#UINT16_RANGE;
+            }
+        } else if (absGap > SequenceNumberStats.#MAX_REASONABLE_SEQUENCE_GAP) {
+            this.#_stats.unreasonable += 1;
+            this.#receivedUnreasonable(incoming);
+            return;
+        }
+
+        if (incomingInt === expectedInt) {
+            // On time.
+            this.#_lastReceivedSequence = incoming;
+            this.#_stats.expectedReceived += 1;
+        } else if (incomingInt > expectedInt) {
+            // Early: the packets in between are missing.
+            const numMissing = incomingInt - expectedInt;
+            this.#_stats.early += 1;
+            this.#_stats.lost += numMissing;
+            this.#_stats.expectedReceived += numMissing + 1;
+            for (let i = expectedInt; i < incomingInt; i++) {
+                this.#_missingSet.add((i + SequenceNumberStats.#UINT16_RANGE) % SequenceNumberStats.#UINT16_RANGE);
+            }
+            this.#_lastReceivedSequence = incoming;
+        } else {
+            // Late: recovered if it was missing, otherwise a duplicate.
+            this.#_stats.late += 1;
+            if (this.#_missingSet.delete(incoming)) {
+                this.#_stats.lost -= 1;
+                this.#_stats.recovered += 1;
+            }
+        }
+
+        this.#pruneMissingSet();
+    }
+
+    /*@devdoc
+     *  Adds a snapshot of the current statistics to the history.
+     */
+    pushStatsToHistory(): void {
+        // C++  void pushStatsToHistory()
+        this.#_statsHistory.push({ ...this.#_stats });
+        if (this.#_statsHistory.length > this.#_statsHistoryLength) {
+            this.#_statsHistory.shift();
+        }
+    }
+
+    /*@devdoc
+     *  Gets the statistics since the last reset.
+     *  @returns {PacketStreamStats} The statistics.
+     */
+    getStats(): PacketStreamStats {
+        // C++  const PacketStreamStats& getStats()
+        return { ...this.#_stats };
+    }
+
+    /*@devdoc
+     *  Gets the statistics over the history window, i.e., the difference between the newest and oldest history entries.
+     *  @returns {PacketStreamStats} The statistics over the history window. All zeros if there are fewer than two history
+     *      entries.
+     */
+    getStatsForHistoryWindow(): PacketStreamStats {
+        // C++  PacketStreamStats getStatsForHistoryWindow()
+        const windowStats = SequenceNumberStats.#emptyStats();
+        if (this.#_statsHistory.length < 2) {
+            return windowStats;
+        }
+
+        const newestStats = this.#_statsHistory[this.#_statsHistory.length - 1] as PacketStreamStats;
+        const oldestStats = this.#_statsHistory[0] as PacketStreamStats;
+        for (const key of Object.keys(windowStats) as (keyof PacketStreamStats)[]) {
+            windowStats[key] = newestStats[key] - oldestStats[key];
+        }
+        return windowStats;
+    }
+
+
+    #receivedUnreasonable(incoming: number): void {
+        // C++  void receivedUnreasonable(quint16 incoming)
+        const expected = this.#_consecutiveUnreasonableOnTime > 0
+            ? (this.#_lastUnreasonableSequence + 1) % SequenceNumberStats.#UINT16_RANGE
+            : incoming;
+        if (incoming !== expected) {
+            this.#_consecutiveUnreasonableOnTime = 0;
+            return;
+        }
+
+        this.#_consecutiveUnreasonableOnTime += 1;
+        this.#_lastUnreasonableSequence = incoming;
+
+        if (this.#_consecutiveUnreasonableOnTime >= SequenceNumberStats.#CONSECUTIVE_UNREASONABLE_ON_TIME_THRESHOLD) {
+            // Many unreasonable packets have been received in sequence so we're probably out of sync. Resynchronize.
+            this.#_lastReceivedSequence = incoming;
+            this.#_missingSet.clear();
+            this.#_consecutiveUnreasonableOnTime = 0;
+        }
+    }
+
+    #pruneMissingSet(): void {
+        // C++  void pruneMissingSet(const bool wantExtraDebugging)
+        // Remove sequence numbers that are too old to still arrive.
+        for (const missing of this.#_missingSet) {
+            const age = (this.#_lastReceivedSequence - missing + SequenceNumberStats.#UINT16_RANGE)
+                % SequenceNumberStats.#UINT16_RANGE;
+            if (age > SequenceNumberStats.#MAX_REASONABLE_SEQUENCE_GAP) {
+                this.#_missingSet.delete(missing);
+            }
+        }
+    }
+
+}
+
+export default SequenceNumberStats;
+export type { PacketStreamStats };
@@ -0,0 +1,80 @@
+//
+//  AudioEnvironment.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../udt/UDT";
+import assert from "../../shared/assert";
+
+
+type AudioEnvironmentDetails = {
+    hasReverb: boolean,
+    reverbTime: number,
+    wetLevel: number
+};
+
+
+const AudioEnvironment = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|AudioEnvironment} packet.
+     *  @typedef {object} PacketScribe.AudioEnvironmentDetails
+     *  @property {boolean} hasReverb - <code>true</code> if the audio zone that the user is in has reverb,
+     *      <code>false</code> if it doesn't.
+     *  @property {number} reverbTime - The reverb time, in seconds. <code>0</code> if <code>hasReverb == false</code>.
+     *  @property {number} wetLevel - The reverb wet level, in dB. <code>0</code> if <code>hasReverb == false</code>.
+     */
+
+    // C++  AudioMixerSlave.cpp
+    readonly #_HAS_REVERB_BIT = 0;
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|AudioEnvironment} packet.
+     *  @function PacketScribe.AudioEnvironment&period;read
+     *  @param {DataView} data - The {@link Packets|AudioEnvironment} message data to read.
+     *  @returns {PacketScribe.AudioEnvironmentDetails} The audio environment details.
+     */
+    read(data: DataView): AudioEnvironmentDetails {
+        // C++  void AudioClient::handleAudioEnvironmentDataPacket(ReceivedMessage* message)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = 0;
+
+        const bitset = data.getUint8(dataPosition);
+        dataPosition += 1;
+
+        const hasReverb = (bitset >> 7 - this.#_HAS_REVERB_BIT & 1) === 1;
+
+        let reverbTime = 0;
+        let wetLevel = 0;
+        if (hasReverb) {
+            reverbTime = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
+            dataPosition += 4;
+            wetLevel = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
+            dataPosition += 4;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        assert(dataPosition === data.byteLength, "ERROR: Length mismatch reading AudioEnvironment packet!");
+
+        return {
+            hasReverb,
+            reverbTime,
+            wetLevel
+        };
+    }
+
+}();
+
+export default AudioEnvironment;
+export type { AudioEnvironmentDetails };
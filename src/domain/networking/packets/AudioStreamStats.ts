@@ -0,0 +1,258 @@
+//
+//  AudioStreamStats.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import "../../shared/DataViewExtensions";
+import Uuid from "../../shared/Uuid";
+import { PacketStreamStats } from "../SequenceNumberStats";
+import PacketType from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+
+
+type StreamStatsDetails = {
+    streamType: number,
+    streamIdentifier: Uuid,
+    timeGapMin: number,
+    timeGapMax: number,
+    timeGapAverage: number,
+    timeGapWindowMin: number,
+    timeGapWindowMax: number,
+    timeGapWindowAverage: number,
+    framesAvailable: number,
+    framesAvailableAverage: number,
+    unplayedMs: number,
+    desiredJitterBufferFrames: number,
+    starveCount: number,
+    consecutiveNotMixedCount: number,
+    overflowCount: number,
+    framesDropped: number,
+    packetStreamStats: PacketStreamStats,
+    packetStreamWindowStats: PacketStreamStats
+};
+
+type AudioStreamStatsDetails = {
+    appendFlag: number,
+    streamStats: StreamStatsDetails[]
+};
+
+
+const AudioStreamStats = new class {
+    // C++  N/A
+
+    /*@sdkdoc
+     *  Statistics on an audio stream, as reported in an {@link PacketType(1)|AudioStreamStats} packet.
+     *  @typedef {object} PacketScribe.StreamStatsDetails
+     *  @property {number} streamType - The type of audio stream: <code>0</code> for the user client's microphone,
+     *      <code>1</code> for an audio injector, <code>255</code> for the audio received from the audio mixer.
+     *  @property {Uuid} streamIdentifier - The ID of the stream. <code>Uuid.NULL</code> for the user client's microphone and
+     *      the audio received from the audio mixer.
+     *  @property {number} timeGapMin - The minimum time between packets arriving, in usec.
+     *  @property {number} timeGapMax - The maximum time between packets arriving, in usec.
+     *  @property {number} timeGapAverage - The average time between packets arriving, in usec.
+     *  @property {number} timeGapWindowMin - The minimum time between packets arriving in the most recent 30s, in usec.
+     *  @property {number} timeGapWindowMax - The maximum time between packets arriving in the most recent 30s, in usec.
+     *  @property {number} timeGapWindowAverage - The average time between packets arriving in the most recent 30s, in usec.
+     *  @property {number} framesAvailable - The number of audio network frames in the jitter buffer.
+     *  @property {number} framesAvailableAverage - The average number of audio network frames in the jitter buffer.
+     *  @property {number} unplayedMs - The maximum duration of audio in the jitter buffer in the most recent 30s, in ms.
+     *  @property {number} desiredJitterBufferFrames - The number of audio network frames that the jitter buffer is targeting.
+     *  @property {number} starveCount - The number of times that the jitter buffer has starved.
+     *  @property {number} consecutiveNotMixedCount - The number of consecutive times that the stream hasn't been mixed.
+     *  @property {number} overflowCount - The number of times that the jitter buffer has overflowed.
+     *  @property {number} framesDropped - The number of audio network frames dropped in order to reduce latency.
+     *  @property {PacketStreamStats} packetStreamStats - Statistics on the stream's packets.
+     *  @property {PacketStreamStats} packetStreamWindowStats - Statistics on the stream's packets in the most recent 30s.
+     */
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} or returned by {@link PacketScribe|reading} an
+     *  {@link PacketType(1)|AudioStreamStats} packet.
+     *  @typedef {object} PacketScribe.AudioStreamStatsDetails
+     *  @property {number} appendFlag - A bit flag indicating where the packet is in a sequence of packets that together report
+     *      the statistics of all streams: <code>START</code> if the packet is the first packet, <code>END</code> if it is the
+     *      last packet. See: {@link PacketScribe.AudioStreamStats}.
+     *  @property {PacketScribe.StreamStatsDetails[]} streamStats - The statistics of the audio streams.
+     */
+
+    /*@devdoc
+     *  The <code>AudioStreamStats</code> packet's append flag values.
+     *  @typedef {object} PacketScribe.AudioStreamStats
+     *  @property {number} START - <code>1</code> - The first packet in a sequence of packets.
+     *  @property {number} END - <code>2</code> - The last packet in a sequence of packets.
+     */
+    // C++  enum AppendFlag
+    readonly START = 0x01;
+    readonly END = 0x02;
+
+    // C++  sizeof(AudioStreamStats)
+    readonly #STREAM_STATS_SIZE = 152;
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|AudioStreamStats} packet.
+     *  @function PacketScribe.AudioStreamStats&period;read
+     *  @param {DataView} data - The {@link Packets|AudioStreamStats} message data to read.
+     *  @returns {PacketScribe.AudioStreamStatsDetails} The audio stream statistics.
+     */
+    read(data: DataView): AudioStreamStatsDetails {
+        // C++  void AudioIOStats::processStreamStatsPacket(ReceivedMessage* message, Node* sendingNode)
+        //      The C++ reads each AudioStreamStats struct as a primitive so its padding is included.
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = 0;
+
+        const appendFlag = data.getUint8(dataPosition);
+        dataPosition += 1;
+
+        const numStreamStats = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        const streamStats: StreamStatsDetails[] = [];
+        for (let i = 0; i < numStreamStats && dataPosition + this.#STREAM_STATS_SIZE <= data.byteLength; i++) {
+            const stats = {
+                streamType: data.getUint8(dataPosition),
+                streamIdentifier: this.#readQUuid(data, dataPosition + 4),
+                timeGapMin: Number(data.getBigUint64(dataPosition + 24, UDT.LITTLE_ENDIAN)),
+                timeGapMax: Number(data.getBigUint64(dataPosition + 32, UDT.LITTLE_ENDIAN)),
+                timeGapAverage: data.getFloat32(dataPosition + 40, UDT.LITTLE_ENDIAN),
+                timeGapWindowMin: Number(data.getBigUint64(dataPosition + 48, UDT.LITTLE_ENDIAN)),
+                timeGapWindowMax: Number(data.getBigUint64(dataPosition + 56, UDT.LITTLE_ENDIAN)),
+                timeGapWindowAverage: data.getFloat32(dataPosition + 64, UDT.LITTLE_ENDIAN),
+                framesAvailable: data.getUint32(dataPosition + 68, UDT.LITTLE_ENDIAN),
+                framesAvailableAverage: data.getUint16(dataPosition + 72, UDT.LITTLE_ENDIAN),
+                unplayedMs: data.getUint16(dataPosition + 74, UDT.LITTLE_ENDIAN),
+                desiredJitterBufferFrames: data.getUint16(dataPosition + 76, UDT.LITTLE_ENDIAN),
+                starveCount: data.getUint32(dataPosition + 80, UDT.LITTLE_ENDIAN),
+                consecutiveNotMixedCount: data.getUint32(dataPosition + 84, UDT.LITTLE_ENDIAN),
+                overflowCount: data.getUint32(dataPosition + 88, UDT.LITTLE_ENDIAN),
+                framesDropped: data.getUint32(dataPosition + 92, UDT.LITTLE_ENDIAN),
+                packetStreamStats: this.#readPacketStreamStats(data, dataPosition + 96),
+                packetStreamWindowStats: this.#readPacketStreamStats(data, dataPosition + 124)
+            };
+            streamStats.push(stats);
+            dataPosition += this.#STREAM_STATS_SIZE;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        return {
+            appendFlag,
+            streamStats
+        };
+    }
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|AudioStreamStats} packet, ready for sending.
+     *  @function PacketScribe.AudioStreamStats&period;write
+     *  @param {PacketScribe.AudioStreamStatsDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: AudioStreamStatsDetails): NLPacket {
+        // C++  void AudioIOStats::sendDownstreamAudioStatsPacket()
+        //      The C++ writes each AudioStreamStats struct as a primitive so its padding is included. The padding is written as
+        //      zeros.
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        const packetSize = 3 + info.streamStats.length * this.#STREAM_STATS_SIZE;
+        const packet = NLPacket.create(PacketType.AudioStreamStats, packetSize);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        data.setUint8(dataPosition, info.appendFlag);
+        dataPosition += 1;
+
+        data.setUint16(dataPosition, info.streamStats.length, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        for (const stats of info.streamStats) {
+            new Uint8Array(data.buffer, data.byteOffset + dataPosition, this.#STREAM_STATS_SIZE).fill(0);
+            data.setUint8(dataPosition, stats.streamType);
+            this.#writeQUuid(data, dataPosition + 4, stats.streamIdentifier);
+            data.setBigUint64(dataPosition + 24, BigInt(Math.round(stats.timeGapMin)), UDT.LITTLE_ENDIAN);
+            data.setBigUint64(dataPosition + 32, BigInt(Math.round(stats.timeGapMax)), UDT.LITTLE_ENDIAN);
+            data.setFloat32(dataPosition + 40, stats.timeGapAverage, UDT.LITTLE_ENDIAN);
+            data.setBigUint64(dataPosition + 48, BigInt(Math.round(stats.timeGapWindowMin)), UDT.LITTLE_ENDIAN);
+            data.setBigUint64(dataPosition + 56, BigInt(Math.round(stats.timeGapWindowMax)), UDT.LITTLE_ENDIAN);
+            data.setFloat32(dataPosition + 64, stats.timeGapWindowAverage, UDT.LITTLE_ENDIAN);
+            data.setUint32(dataPosition + 68, stats.framesAvailable, UDT.LITTLE_ENDIAN);
+            data.setUint16(dataPosition + 72, stats.framesAvailableAverage, UDT.LITTLE_ENDIAN);
+            data.setUint16(dataPosition + 74, stats.unplayedMs, UDT.LITTLE_ENDIAN);
+            data.setUint16(dataPosition + 76, stats.desiredJitterBufferFrames, UDT.LITTLE_ENDIAN);
+            data.setUint32(dataPosition + 80, stats.starveCount, UDT.LITTLE_ENDIAN);
+            data.setUint32(dataPosition + 84, stats.consecutiveNotMixedCount, UDT.LITTLE_ENDIAN);
+            data.setUint32(dataPosition + 88, stats.overflowCount, UDT.LITTLE_ENDIAN);
+            data.setUint32(dataPosition + 92, stats.framesDropped, UDT.LITTLE_ENDIAN);
+            this.#writePacketStreamStats(data, dataPosition + 96, stats.packetStreamStats);
+            this.#writePacketStreamStats(data, dataPosition + 124, stats.packetStreamWindowStats);
+            dataPosition += this.#STREAM_STATS_SIZE;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+
+    /* eslint-disable class-methods-use-this, @typescript-eslint/no-magic-numbers */
+
+    #readQUuid(data: DataView, dataPosition: number): Uuid {
+        // A QUuid in memory is a little-endian uint32, two little-endian uint16s, and eight bytes.
+        const value = BigInt(data.getUint32(dataPosition, UDT.LITTLE_ENDIAN)) << 96n
+            | BigInt(data.getUint16(dataPosition + 4, UDT.LITTLE_ENDIAN)) << 80n
+            | BigInt(data.getUint16(dataPosition + 6, UDT.LITTLE_ENDIAN)) << 64n
+            | data.getBigUint64(dataPosition + 8, UDT.BIG_ENDIAN);
+        return new Uuid(value);
+    }
+
+    #writeQUuid(data: DataView, dataPosition: number, uuid: Uuid): void {
+        const value = uuid.value();
+        data.setUint32(dataPosition, Number(value >> 96n & 0xffffffffn), UDT.LITTLE_ENDIAN);
+        data.setUint16(dataPosition + 4, Number(value >> 80n & 0xffffn), UDT.LITTLE_ENDIAN);
+        data.setUint16(dataPosition + 6, Number(value >> 64n & 0xffffn), UDT.LITTLE_ENDIAN);
+        data.setBigUint64(dataPosition + 8, value & 0xffffffffffffffffn, UDT.BIG_ENDIAN);
+    }
+
+    #readPacketStreamStats(data: DataView, dataPosition: number): PacketStreamStats {
+        // C++  class PacketStreamStats
+        return {
+            received: data.getUint32(dataPosition, UDT.LITTLE_ENDIAN),
+            unreasonable: data.getUint32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+            early: data.getUint32(dataPosition + 8, UDT.LITTLE_ENDIAN),
+            late: data.getUint32(dataPosition + 12, UDT.LITTLE_ENDIAN),
+            lost: data.getUint32(dataPosition + 16, UDT.LITTLE_ENDIAN),
+            recovered: data.getUint32(dataPosition + 20, UDT.LITTLE_ENDIAN),
+            expectedReceived: data.getUint32(dataPosition + 24, UDT.LITTLE_ENDIAN)
+        };
+    }
+
+    #writePacketStreamStats(data: DataView, dataPosition: number, stats: PacketStreamStats): void {
+        // C++  class PacketStreamStats
+        data.setUint32(dataPosition, stats.received, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 4, stats.unreasonable, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 8, stats.early, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 12, stats.late, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 16, stats.lost, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 20, stats.recovered, UDT.LITTLE_ENDIAN);
+        data.setUint32(dataPosition + 24, stats.expectedReceived, UDT.LITTLE_ENDIAN);
+    }
+
+    /* eslint-enable class-methods-use-this, @typescript-eslint/no-magic-numbers */
+
+}();
+
+export default AudioStreamStats;
+export type { AudioStreamStatsDetails, StreamStatsDetails };
@@ -9,8 +9,9 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
-import { AvatarDataDetail } from "../../avatars/AvatarData";
-import AvatarDataPacket from "../../avatars/AvatarDataPacket";
+import { AvatarDataDetail, HandState } from "../../avatars/AvatarData";
+import AvatarDataPacket, { AdditionalFlags, FaceTrackerInfo, HandControllerPose, HandControllers, ParentInfo }
+    from "../../avatars/AvatarDataPacket";
 import assert from "../../shared/assert";
 import AudioHelpers from "../../shared/AudioHelpers";
 import BitVectorHelpers from "../../shared/BitVectorHelpers";
@@ -21,6 +22,8 @@ import PacketType from "../udt/PacketHeaders";
 import UDT from "../udt/UDT";
 import NLPacket from "../NLPacket";
 
+import "../../shared/DataViewExtensions";
+
 
 type AvatarDataDetails = {
 
@@ -30,7 +33,7 @@ type AvatarDataDetails = {
     lastSentTime: number,
     // lastSentJointData: JointData[], - See lastSentJointRotations and lastSentJointTranslations, below.
     // sendStatus: SendStatus, - Not used in user client.
-    // dropFaceTracking: boolean,
+    // dropFaceTracking: boolean, - See faceTrackerInfo, below.
     // distanceAdjust: boolean, - Always false in user client.
     // viewerPosition: vec3, - Always 0, 0, 0 in user client, and not used.
     // sentJointDataOut: JointData[], - Not used in user client.
@@ -41,7 +44,13 @@ type AvatarDataDetails = {
     globalPosition: vec3 | undefined,
     localOrientation: quat | undefined,
     avatarScale: number | undefined,
+    lookAtPosition: vec3 | undefined,
     audioLoudness: number | undefined,
+    additionalFlags: AdditionalFlags | undefined,
+    parentInfo: ParentInfo | undefined,
+    localPosition: vec3 | undefined,
+    handControllers: HandControllers | undefined,
+    faceTrackerInfo: FaceTrackerInfo | undefined,
     jointRotations: Array<quat | null> | undefined,  // C++ doesn't have undefined case but it's useful for unit tests.
     jointTranslations: Array<vec3 | null> | undefined,    // Ditto.
     lastSentJointRotations: Array<quat | null> | undefined,
@@ -69,8 +78,24 @@ const AvatarData = new class {
      *  @property {number|undefined} avatarScale - The target scale of the avatar. The target scale is the desired scale of the
      *      avatar without any restrictions on permissible scale values imposed by the domain.<br />
      *      Should be <code>undefined</code> if not known or the value hasn't changed since the last time the packet was sent.
+     *  @property {vec3|undefined} lookAtPosition - The position in the domain that the avatar is looking at.<br />
+     *      Should be <code>undefined</code> if not known or the value hasn't changed since the last time the packet was sent.
      *  @property {number|undefined} audioLoudness - The instantaneous loudness of the audio input that the avatar is injecting
      *      into the domain.
+     *  @property {AvatarDataPacket.AdditionalFlags|undefined} additionalFlags - Additional avatar flags.<br />
+     *      Should be <code>undefined</code> if the values haven't changed since the last time the packet was sent.
+     *  @property {AvatarDataPacket.ParentInfo|undefined} parentInfo - The entity or avatar that the avatar is parented to.
+     *      <br />
+     *      Should be <code>undefined</code> if the values haven't changed since the last time the packet was sent.
+     *  @property {vec3|undefined} localPosition - The avatar's position relative to its parent.<br />
+     *      Should be <code>undefined</code> if the avatar isn't parented or neither the value nor the parent has changed since
+     *      the last time the packet was sent.
+     *  @property {AvatarDataPacket.HandControllers|undefined} handControllers - The poses of the avatar's hand controllers.
+     *      <br />
+     *      Should be <code>undefined</code> if neither hand controller is tracked.
+     *  @property {AvatarDataPacket.FaceTrackerInfo|undefined} faceTrackerInfo - The avatar's facial expression.<br />
+     *      Should be <code>undefined</code> if the avatar doesn't have scripted blendshapes, the value hasn't changed since
+     *      the last time the packet was sent, or face tracking is being dropped in order to fit the packet size.
      *  @property {Array<quat|null>|undefined} jointRotations - The joint rotations relative to avatar space (i.e., not relative
      *      to parent bones). Set a rotation to <code>null</code> if the avatar's default pose's rotation should be used.
      *      May be <code>undefined</code> if the joints are not known.
@@ -168,21 +193,21 @@ const AvatarData = new class {
                 let hasAvatarOrientation = false;
                 const hasAvatarBoundingBox = false;
                 let hasAvatarScale = false;
-                const hasLookAtPosition = false;
+                let hasLookAtPosition = false;
                 let hasAudioLoudness = false;
                 const hasSensorToWorldMatrix = false;
                 let hasJointData = false;
                 let hasJointDefaultPoseFlags = false;
-                const hasAdditionalFlags = false;
+                let hasAdditionalFlags = false;
 
                 // local position, and parent info only apply to avatars that are parented. The local position
                 // and the parent info can change independently though, so we track their "changed since"
                 // separately
-                const hasParentInfo = false;
-                const hasAvatarLocalPosition = false;
-                const hasHandControllers = false;
+                let hasParentInfo = false;
+                let hasAvatarLocalPosition = false;
+                let hasHandControllers = false;
 
-                const hasFaceTrackerInfo = false;
+                let hasFaceTrackerInfo = false;
 
                 if (sendPALMinimum) {
                     // This shouldn't occur in the client.
@@ -214,7 +239,13 @@ const AvatarData = new class {
 
                     hasAvatarOrientation = info.localOrientation !== undefined;
                     hasAvatarScale = info.avatarScale !== undefined;
+                    hasLookAtPosition = info.lookAtPosition !== undefined;
                     hasAudioLoudness = info.audioLoudness !== undefined;
+                    hasAdditionalFlags = info.additionalFlags !== undefined;
+                    hasParentInfo = info.parentInfo !== undefined;
+                    hasAvatarLocalPosition = info.localPosition !== undefined;
+                    hasHandControllers = info.handControllers !== undefined;
+                    hasFaceTrackerInfo = info.faceTrackerInfo !== undefined;
                     hasJointData = !sendMinimum;  // Joint data is always included in AvatarDataDetails but may not be wanted.
                     hasJointDefaultPoseFlags = hasJointData;
 
@@ -253,8 +284,6 @@ const AvatarData = new class {
                 wantedFlags &= ~AvatarDataPacket.PACKET_HAS_GRAB_JOINTS;
             }
 
-            // WEBRTC TODO: Address further C++ code - Parent ID.
-
             const packetEnd = data.byteLength;
 
 
@@ -305,7 +334,17 @@ const AvatarData = new class {
                 // WEBRTC TODO: Address further C++ code - Outbound data rate.
             }
 
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_LOOK_AT_POSITION.
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_LOOK_AT_POSITION, 12)) {
+                const lookAtPosition = info.lookAtPosition;
+                assert(lookAtPosition !== undefined);
+                data.setFloat32(dataPosition, lookAtPosition.x, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, lookAtPosition.y, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, lookAtPosition.z, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
 
             if (avatarSpace(AvatarDataPacket.PACKET_HAS_AUDIO_LOUDNESS, 1)) {
                 // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -315,11 +354,99 @@ const AvatarData = new class {
             }
 
             // WEBRTC TODO: Address further C++ code - PACKET_HAS_SENSOR_TO_WORLD_MATRIX.
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_ADDITIONAL_FLAGS.
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_PARENT_INFO.
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_AVATAR_LOCAL_POSITION.
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_HAND_CONTROLLERS.
-            // WEBRTC TODO: Address further C++ code - PACKET_HAS_FACE_TRACKER_INFO.
+
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_ADDITIONAL_FLAGS, 2)) {
+                const additionalFlags = info.additionalFlags;
+                assert(additionalFlags !== undefined);
+
+                let flags = 0;
+                // C++  void setSemiNibbleAt(uint16_t& byte, int bitIndex, int value)
+                flags |= additionalFlags.keyState << AvatarDataPacket.KEY_STATE_START_BIT;
+                // Hand state is split between the semi-nibble and the finger pointing bit.
+                flags |= (additionalFlags.handState & ~HandState.IsFingerPointing) << AvatarDataPacket.HAND_STATE_START_BIT;
+                if (additionalFlags.handState & HandState.IsFingerPointing) {
+                    flags |= 1 << AvatarDataPacket.HAND_STATE_FINGER_POINTING_BIT;
+                }
+                if (additionalFlags.hasScriptedBlendshapes) {
+                    flags |= 1 << AvatarDataPacket.HAS_SCRIPTED_BLENDSHAPES;
+                }
+                if (additionalFlags.hasProceduralEyeMovement) {
+                    flags |= 1 << AvatarDataPacket.HAS_PROCEDURAL_EYE_MOVEMENT;
+                }
+                if (additionalFlags.audioEnabledFaceMovement) {
+                    flags |= 1 << AvatarDataPacket.AUDIO_ENABLED_FACE_MOVEMENT;
+                }
+                if (additionalFlags.proceduralEyeFaceMovement) {
+                    flags |= 1 << AvatarDataPacket.PROCEDURAL_EYE_FACE_MOVEMENT;
+                }
+                if (additionalFlags.proceduralBlinkFaceMovement) {
+                    flags |= 1 << AvatarDataPacket.PROCEDURAL_BLINK_FACE_MOVEMENT;
+                }
+                if (additionalFlags.collideWithOtherAvatars) {
+                    flags |= 1 << AvatarDataPacket.COLLIDE_WITH_OTHER_AVATARS;
+                }
+                if (additionalFlags.hasPriority) {
+                    flags |= 1 << AvatarDataPacket.HAS_HERO_PRIORITY;
+                }
+
+                data.setUint16(dataPosition, flags, UDT.LITTLE_ENDIAN);
+                dataPosition += 2;
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
+
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_PARENT_INFO, 18)) {
+                const parentInfo = info.parentInfo;
+                assert(parentInfo !== undefined);
+                data.setBigUint128(dataPosition, parentInfo.parentID.value(), UDT.BIG_ENDIAN);
+                dataPosition += 16;
+                data.setUint16(dataPosition, parentInfo.parentJointIndex, UDT.LITTLE_ENDIAN);
+                dataPosition += 2;
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
+
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_AVATAR_LOCAL_POSITION, 12)) {
+                const localPosition = info.localPosition;
+                assert(localPosition !== undefined);
+                data.setFloat32(dataPosition, localPosition.x, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, localPosition.y, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, localPosition.z, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
+
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_HAND_CONTROLLERS, 24)) {
+                const handControllers = info.handControllers;
+                assert(handControllers !== undefined);
+                AvatarData.#writeHandController(data, dataPosition, handControllers.left);
+                dataPosition += 12;
+                AvatarData.#writeHandController(data, dataPosition, handControllers.right);
+                dataPosition += 12;
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
+
+            const numBlendshapeCoefficients = info.faceTrackerInfo ? info.faceTrackerInfo.blendshapeCoefficients.length : 0;
+            assert(numBlendshapeCoefficients <= 255);
+            if (avatarSpace(AvatarDataPacket.PACKET_HAS_FACE_TRACKER_INFO, 17 + 4 * numBlendshapeCoefficients)) {
+                const faceTrackerInfo = info.faceTrackerInfo;
+                assert(faceTrackerInfo !== undefined);
+                data.setFloat32(dataPosition, faceTrackerInfo.leftEyeBlink, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, faceTrackerInfo.rightEyeBlink, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, faceTrackerInfo.averageLoudness, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setFloat32(dataPosition, faceTrackerInfo.browAudioLift, UDT.LITTLE_ENDIAN);
+                dataPosition += 4;
+                data.setUint8(dataPosition, numBlendshapeCoefficients);
+                dataPosition += 1;
+                for (const coefficient of faceTrackerInfo.blendshapeCoefficients) {
+                    data.setFloat32(dataPosition, coefficient, UDT.LITTLE_ENDIAN);
+                    dataPosition += 4;
+                }
+                // WEBRTC TODO: Address further C++ code - Outbound data rate.
+            }
 
             let numJoints = 0;
             if (wantedFlags & (AvatarDataPacket.PACKET_HAS_JOINT_DATA | AvatarDataPacket.PACKET_HAS_JOINT_DEFAULT_POSE_FLAGS)) {
@@ -573,6 +700,18 @@ const AvatarData = new class {
         return totalSize;
     }
 
+    // eslint-disable-next-line class-methods-use-this
+    #writeHandController(data: DataView, dataPosition: number, pose: HandControllerPose): void {
+        // C++  AvatarDataPacket::HandControllerVantage
+        const POSITION_OFFSET = 6;
+        GLMHelpers.packOrientationQuatToSixBytes(data, dataPosition, pose.rotation);
+        const radix = AvatarDataPacket.HAND_CONTROLLER_COMPRESSION_RADIX;
+        GLMHelpers.packFloatScalarToSignedTwoByteFixed(data, dataPosition + POSITION_OFFSET, pose.position.x, radix);
+        GLMHelpers.packFloatScalarToSignedTwoByteFixed(data, dataPosition + POSITION_OFFSET + 2, pose.position.y, radix);
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        GLMHelpers.packFloatScalarToSignedTwoByteFixed(data, dataPosition + POSITION_OFFSET + 4, pose.position.z, radix);
+    }
+
 }();
 
 export default AvatarData;
@@ -11,7 +11,9 @@
 
 import Uuid from "../../shared/Uuid";
 import UDT from "../udt/UDT";
-import AvatarDataPacket from "../../avatars/AvatarDataPacket";
+import { HandState } from "../../avatars/AvatarData";
+import AvatarDataPacket, { AdditionalFlags, AvatarBoundingBox, FaceTrackerInfo, FarGrabJoints, HandControllerPose,
+    HandControllers, ParentInfo, SensorToWorldMatrix } from "../../avatars/AvatarDataPacket";
 import assert from "../../shared/assert";
 import AudioHelpers from "../../shared/AudioHelpers";
 import GLMHelpers from "../../shared/GLMHelpers";
@@ -24,13 +26,22 @@ import "../../shared/DataViewExtensions";
 type BulkAvatarDataDetails = {
     sessionUUID: Uuid,
     globalPosition: vec3 | undefined,
+    avatarBoundingBox: AvatarBoundingBox | undefined,
     localOrientation: quat | undefined,
     avatarScale: number | undefined,
+    lookAtPosition: vec3 | undefined,
     audioLoudness: number | undefined,
+    sensorToWorldMatrix: SensorToWorldMatrix | undefined,
+    additionalFlags: AdditionalFlags | undefined,
+    parentInfo: ParentInfo | undefined,
+    localPosition: vec3 | undefined,
+    handControllers: HandControllers | undefined,
+    faceTrackerInfo: FaceTrackerInfo | undefined,
     jointRotationsValid: boolean[] | undefined
     jointRotations: quat[] | undefined,
     jointTranslationsValid: boolean[] | undefined
     jointTranslations: vec3[] | undefined,
+    farGrabJoints: FarGrabJoints | undefined,
     jointRotationsUseDefault: boolean[] | undefined,
     jointTranslationsUseDefault: boolean[] | undefined
 };
@@ -55,13 +66,30 @@ const BulkAvatarData = new class {
      *  @property {Uuid} sessionUUID - The avatar's session UUID.
      *  @property {vec3|undefined} globalPosition - The avatar's position in the domain.
      *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarBoundingBox|undefined} avatarBoundingBox - The avatar's bounding box.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
      *  @property {quat|undefined} localOrientation - The avatar's orientation.
      *      <p>Is <code>undefined</code> if not included in the packet.</p>
      *  @property {number|undefined} avatarScale - The avatar's scale.
      *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {vec3|undefined} lookAtPosition - The position in the domain that the avatar is looking at.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
      *  @property {number|undefined} audioLoudness - The instantaneous loudness of the audio input that the avatar is injecting
      *      into the domain.
      *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarDataPacket.SensorToWorldMatrix|undefined} sensorToWorldMatrix - The transform from the avatar's VR
+     *      sensor space to world space.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarDataPacket.AdditionalFlags|undefined} additionalFlags - Additional avatar flags.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarDataPacket.ParentInfo|undefined} parentInfo - The avatar's parent.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {vec3|undefined} localPosition - The avatar's position relative to its parent.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarDataPacket.HandControllers|undefined} handControllers - The avatar's hand controller poses.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {AvatarDataPacket.FaceTrackerInfo|undefined} faceTrackerInfo - The avatar's facial expression.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
      *  @property {boolean[]|undefined} jointRotationsValid - A flag for each joint where <code>true</code> means that a
      *      rotation value is included in <code>jointRotations</code>, <code>false</code> means that no value is included in
      *      <code>jointRotations</code>. (A value may be excluded if it hasn't changed significantly since the last value
@@ -80,6 +108,8 @@ const BulkAvatarData = new class {
      *      to parent bones). Translations are only provided for joints which have a <code>jointTranslationsValid</code> flag
      *      value of <code>true</code>.
      *      <p>Is <code>undefined</code> if not included in the packet.</p>
+     *  @property {FarGrabJoints|undefined} farGrabJoints - The avatar's far grab joints.
+     *      <p>Is <code>undefined</code> if not included in the packet.</p>
      *  @property {Array<boolean>|undefined} jointRotationsUseDefault - <code>true</code> if the skeleton's default joint
      *      rotation should be used instead of any value currently held, <code>false</code> if the skeleton's default joint
      *      rotation should be used.
@@ -98,7 +128,7 @@ const BulkAvatarData = new class {
      *  @param {DataView} data - The BulkAvatarData message data to read.
      *  @returns {PacketScribe.BulkAvatarDataDetails[]} The information obtained from reading the packet.
      */
-    read(data: DataView): BulkAvatarDataDetails[] {  /* eslint-disable-line class-methods-use-this */
+    read(data: DataView): BulkAvatarDataDetails[] {
         // C++  void AvatarHashMap::processAvatarDataPacket(ReceivedMessage* message, Node* sendingNode)
         //      AvatarData* AvatarHashMap::parseAvatarData(ReceivedMessage* message, node* sendingNode)
         //      int AvatarData::parseDataFromBuffer(const QByteArray& buffer)
@@ -147,8 +177,12 @@ const BulkAvatarData = new class {
                 dataPosition += 12;
             }
 
+            let avatarBoundingBox: AvatarBoundingBox | undefined = undefined;
             if (hasAvatarBoundingBox) {
-                // WEBRTC TODO: Address further code - avatar bounding box.
+                avatarBoundingBox = {
+                    dimensions: this.#readVec3(data, dataPosition),
+                    offset: this.#readVec3(data, dataPosition + 12)
+                };
                 dataPosition += 24;
             }
 
@@ -164,8 +198,9 @@ const BulkAvatarData = new class {
                 dataPosition += 2;
             }
 
+            let lookAtPosition: vec3 | undefined = undefined;
             if (hasLookAtPosition) {
-                // WEBRTC TODO: Address further code - avatar look-at position.
+                lookAtPosition = this.#readVec3(data, dataPosition);
                 dataPosition += 12;
             }
 
@@ -175,43 +210,91 @@ const BulkAvatarData = new class {
                 dataPosition += 1;
             }
 
+            let sensorToWorldMatrix: SensorToWorldMatrix | undefined = undefined;
             if (hasSensorToWorldMatrix) {
-                // WEBRTC TODO: Address further code - avatar sensor-to-world matrix.
+                sensorToWorldMatrix = {
+                    rotation: GLMHelpers.unpackOrientationQuatFromSixBytes(data, dataPosition),
+                    scale: GLMHelpers.unpackFloatScalarFromSignedTwoByteFixed(data, dataPosition + 6,
+                        AvatarDataPacket.SENSOR_TO_WORLD_SCALE_RADIX),
+                    translation: this.#readVec3(data, dataPosition + 8)
+                };
                 dataPosition += 20;
             }
 
+            let additionalFlags: AdditionalFlags | undefined = undefined;
             if (hasAdditionalFlags) {
-                // WEBRTC TODO: Address further code - avatar additional flags.
+                const bitItems = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
+                // C++  int getSemiNibbleAt(uint16_t& byte, int bitIndex)
+                const SEMI_NIBBLE_MASK = 0x3;
+                additionalFlags = {
+                    keyState: bitItems >> AvatarDataPacket.KEY_STATE_START_BIT & SEMI_NIBBLE_MASK,
+                    handState: bitItems >> AvatarDataPacket.HAND_STATE_START_BIT & SEMI_NIBBLE_MASK
+                        | ((bitItems & 1 << AvatarDataPacket.HAND_STATE_FINGER_POINTING_BIT) > 0
+                            ? HandState.IsFingerPointing
+                            : 0),
+                    hasScriptedBlendshapes: (bitItems & 1 << AvatarDataPacket.HAS_SCRIPTED_BLENDSHAPES) > 0,
+                    hasProceduralEyeMovement: (bitItems & 1 << AvatarDataPacket.HAS_PROCEDURAL_EYE_MOVEMENT) > 0,
+                    audioEnabledFaceMovement: (bitItems & 1 << AvatarDataPacket.AUDIO_ENABLED_FACE_MOVEMENT) > 0,
+                    proceduralEyeFaceMovement: (bitItems & 1 << AvatarDataPacket.PROCEDURAL_EYE_FACE_MOVEMENT) > 0,
+                    proceduralBlinkFaceMovement: (bitItems & 1 << AvatarDataPacket.PROCEDURAL_BLINK_FACE_MOVEMENT) > 0,
+                    collideWithOtherAvatars: (bitItems & 1 << AvatarDataPacket.COLLIDE_WITH_OTHER_AVATARS) > 0,
+                    hasPriority: (bitItems & 1 << AvatarDataPacket.HAS_HERO_PRIORITY) > 0
+                };
                 dataPosition += 2;
             }
 
+            let parentInfo: ParentInfo | undefined = undefined;
             if (hasParentInfo) {
-                // WEBRTC TODO: Address further code - avatar parent info.
+                parentInfo = {
+                    parentID: new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN)),
+                    parentJointIndex: data.getUint16(dataPosition + 16, UDT.LITTLE_ENDIAN)
+                };
                 dataPosition += 18;
             }
 
+            let localPosition: vec3 | undefined = undefined;
             if (hasAvatarLocalPosition) {
-                // WEBRTC TODO: Address further code - avatar local position
+                localPosition = this.#readVec3(data, dataPosition);
                 dataPosition += 12;
             }
 
+            let handControllers: HandControllers | undefined = undefined;
             if (hasHandControllers) {
-                // WEBRTC TODO: Address further code - avatar hand controllers.
+                handControllers = {
+                    left: this.#readHandController(data, dataPosition),
+                    right: this.#readHandController(data, dataPosition + 12)
+                };
                 dataPosition += 24;
             }
 
+            let faceTrackerInfo: FaceTrackerInfo | undefined = undefined;
             if (hasFaceTrackerInfo) {
-                // WEBRTC TODO: Address further code - avatar face tracker info.
+                const leftEyeBlink = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
+                const rightEyeBlink = data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN);
+                const averageLoudness = data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN);
+                const browAudioLift = data.getFloat32(dataPosition + 12, UDT.LITTLE_ENDIAN);
                 dataPosition += 16;
                 const numBlendshapeCoefficients = data.getUint8(dataPosition);
                 dataPosition += 1;
-                dataPosition += numBlendshapeCoefficients * 4;
+                const blendshapeCoefficients = new Array(numBlendshapeCoefficients) as Array<number>;
+                for (let i = 0; i < numBlendshapeCoefficients; i++) {
+                    blendshapeCoefficients[i] = data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN);
+                    dataPosition += 4;
+                }
+                faceTrackerInfo = {
+                    leftEyeBlink,
+                    rightEyeBlink,
+                    averageLoudness,
+                    browAudioLift,
+                    blendshapeCoefficients
+                };
             }
 
             let jointRotationsValid: boolean[] | undefined = undefined;
             let jointRotations: quat[] | undefined = undefined;
             let jointTranslationsValid: boolean[] | undefined = undefined;
             let jointTranslations: vec3[] | undefined = undefined;
+            let farGrabJoints: FarGrabJoints | undefined = undefined;
             if (hasJointData) {
                 jointRotations = [];
                 const numJoints = data.getUint8(dataPosition);
@@ -283,7 +366,14 @@ const BulkAvatarData = new class {
                 }
 
                 if (hasGrabJoints) {
-                    // WEBRTC TODO: Address further code - avatar grab joints.
+                    farGrabJoints = {
+                        leftFarGrabPosition: this.#readVec3(data, dataPosition),
+                        leftFarGrabRotation: this.#readQuat(data, dataPosition + 12),
+                        rightFarGrabPosition: this.#readVec3(data, dataPosition + 28),
+                        rightFarGrabRotation: this.#readQuat(data, dataPosition + 40),
+                        mouseFarGrabPosition: this.#readVec3(data, dataPosition + 56),
+                        mouseFarGrabRotation: this.#readQuat(data, dataPosition + 68)
+                    };
                     dataPosition += 84;
                 }
 
@@ -330,13 +420,22 @@ const BulkAvatarData = new class {
             avatarDataDetailsList.push({
                 sessionUUID,
                 globalPosition,
+                avatarBoundingBox,
                 localOrientation,
                 avatarScale,
+                lookAtPosition,
                 audioLoudness,
+                sensorToWorldMatrix,
+                additionalFlags,
+                parentInfo,
+                localPosition,
+                handControllers,
+                faceTrackerInfo,
                 jointRotationsValid,
                 jointRotations,
                 jointTranslationsValid,
                 jointTranslations,
+                farGrabJoints,
                 jointRotationsUseDefault,
                 jointTranslationsUseDefault
             });
@@ -348,6 +447,42 @@ const BulkAvatarData = new class {
         return avatarDataDetailsList;
     }
 
+
+    // eslint-disable-next-line class-methods-use-this
+    #readVec3(data: DataView, dataPosition: number): vec3 {
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        return {
+            x: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+            y: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+            z: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN)
+        };
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    #readQuat(data: DataView, dataPosition: number): quat {
+        // The C++ writes glm::quat values in w, x, y, z order.
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        return {
+            w: data.getFloat32(dataPosition, UDT.LITTLE_ENDIAN),
+            x: data.getFloat32(dataPosition + 4, UDT.LITTLE_ENDIAN),
+            y: data.getFloat32(dataPosition + 8, UDT.LITTLE_ENDIAN),
+            z: data.getFloat32(dataPosition + 12, UDT.LITTLE_ENDIAN)
+        };
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    #readHandController(data: DataView, dataPosition: number): HandControllerPose {
+        // C++  const uint8_t* unpackHandController(const uint8_t* sourceBuffer, ThreadSafeValueCache<glm::mat4>& matrixCache)
+        const POSITION_OFFSET = 6;
+        return {
+            rotation: GLMHelpers.unpackOrientationQuatFromSixBytes(data, dataPosition),
+            position: GLMHelpers.unpackFloatVec3FromSignedTwoByteFixed(data, dataPosition + POSITION_OFFSET,
+                AvatarDataPacket.HAND_CONTROLLER_COMPRESSION_RADIX)
+        };
+    }
+
 }();
 
 export default BulkAvatarData;
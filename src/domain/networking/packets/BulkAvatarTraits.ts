@@ -34,9 +34,6 @@ const BulkAvatarTraits = new class {
      */
 
 
-    #_haveWarnedComplexTraits = false;
-
-
     /*@devdoc
      *  Reads a {@link PacketType(1)|BulkAvatarTraits} packet.
      *  @function PacketScribe.BulkAvatarTraits&period;read
@@ -89,18 +86,24 @@ const BulkAvatarTraits = new class {
 
                 } else {
 
-                    // WERBRTC TODO: Use traitInstanceID below.
-                    // const traitInstanceID = new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN));
+                    const traitInstanceID = new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN));
                     dataPosition += 16;
 
                     const traitBinarySize = data.getInt16(dataPosition, UDT.LITTLE_ENDIAN);
                     dataPosition += 2;
 
-                    // WEBRTC TODO: Address further C++ - avatar entity and grab.
-                    if (!this.#_haveWarnedComplexTraits) {
-                        console.warn("BulkAvatarTraits: Complex avatar traits not handled.");
-                        this.#_haveWarnedComplexTraits = true;
-                    }
+                    const isDeleted = traitBinarySize === AvatarTraits.DELETED_TRAIT_SIZE;
+                    const traitValue = isDeleted
+                        ? null
+                        : AvatarTraits.processTraitInstance(traitType, traitInstanceID, data, dataPosition,
+                            traitBinarySize);
+                    avatarTraits.push({
+                        type: traitType,
+                        version: packetTraitVersion,
+                        instanceID: traitInstanceID,
+                        isDeleted,
+                        value: traitValue
+                    });
 
                     if (traitBinarySize > AvatarTraits.DELETED_TRAIT_SIZE) {
                         dataPosition += traitBinarySize;
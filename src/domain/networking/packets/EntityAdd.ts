@@ -0,0 +1,76 @@
+//
+//  EntityAdd.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketTypeValue from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+
+
+type EntityAddDetails = {
+    sequenceNumber: number,
+    sentTime: bigint,
+    editMessage: Uint8Array
+};
+
+
+const EntityAdd = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|EntityAdd} packet.
+     *  @typedef {object} PacketScribe.EntityAddDetails
+     *  @property {number} sequenceNumber - The edit packet sequence number.
+     *  @property {bigint} sentTime - The time that the packet was sent, in microseconds since the Unix epoch.
+     *  @property {Uint8Array} editMessage - The entity add message, per
+     *      {@link EntityItemProperties.encodeEntityEditPacket}.
+     */
+
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|EntityAdd} packet, ready for sending.
+     *  @function PacketScribe.EntityAdd&period;write
+     *  @param {PacketScribe.EntityAddDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: EntityAddDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  void OctreeEditPacketSender::initializePacket(EditPacketBuffer& packetBuffer, PacketType type,
+        //          qint64 nodeClockSkew)
+        //      void OctreeEditPacketSender::queueOctreeEditMessage(PacketType type, QByteArray& editMessage)
+
+        const packet = NLPacket.create(PacketTypeValue.EntityAdd);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        data.setUint16(dataPosition, info.sequenceNumber, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        // WEBRTC TODO: Address further C++ code - clock skew.
+        data.setBigUint64(dataPosition, info.sentTime, UDT.LITTLE_ENDIAN);
+        dataPosition += 8;
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        new Uint8Array(data.buffer, data.byteOffset + dataPosition, info.editMessage.length).set(info.editMessage);
+        dataPosition += info.editMessage.length;
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default EntityAdd;
+export type { EntityAddDetails };
@@ -27,7 +27,6 @@ import TextEntityItem, { TextEntityProperties, TextEntitySubclassData } from "..
 import WebEntityItem, { WebEntityProperties, WebEntitySubclassData } from "../../entities/WebEntityItem";
 import ZoneEntityItem, { ZoneEntityProperties, ZoneEntitySubclassData } from "../../entities/ZoneEntityItem";
 import AACube from "../../shared/AACube";
-import assert from "../../shared/assert";
 import ByteCountCoded from "../../shared/ByteCountCoded";
 import "../../shared/DataViewExtensions";
 import GLMHelpers from "../../shared/GLMHelpers";
@@ -340,6 +339,11 @@ const EntityData = new class {
      *  @see {@link ParticleEffectEntityProperties}
      *  @see {@link ZoneEntityProperties}
      *  @see {@link MaterialEntityProperties}
+     *  @see {@link LineEntityProperties}
+     *  @see {@link PolyLineEntityProperties}
+     *  @see {@link PolyVoxEntityProperties}
+     *  @see {@link GridEntityProperties}
+     *  @see {@link GizmoEntityProperties}
      */
 
     /*@sdkdoc
@@ -407,18 +411,16 @@ const EntityData = new class {
                     entityData = new DataView(entityMessage.buffer.slice(entityMessage.byteOffset + entityMessagePosition));
                 }
 
-                let bytesRead = 0;
-                // WEBRTC TODO: This won't throw once all entity types are supported.
+                // Malformed data, e.g., a truncated section, can cause reading to run past the end of the data.
                 try {
                     const parsedData = this.#readBitstreamToTree(entityData);
-                    bytesRead = parsedData.bytesRead;
                     entityDataDetails = [...entityDataDetails, ...parsedData.entitiesDataDetails];
                 } catch (err) {
                     // Discard the whole packet.
+                    console.error("[EntityData] Could not read entity data:", (err as Error).message);
                     return [];
                 }
 
-                assert(sectionLength !== bytesRead);
                 dataPosition += sectionLength;
             }
             dataPosition += entityMessagePosition;
@@ -431,6 +433,32 @@ const EntityData = new class {
         return entityDataDetails;
     }
 
+    /*@devdoc
+     *  Reads the data of a single entity, in the format written by {@link EntityItemProperties.encodeEntityData}, e.g., an
+     *  avatar entity's trait data.
+     *  @function PacketScribe.EntityData&period;readEntityItem
+     *  @param {DataView} data - The entity data to read.
+     *  @returns {EntityProperties|null} The entity's properties. <code>null</code> if the data couldn't be read.
+     */
+    readEntityItem(data: DataView): EntityProperties | null {
+        // C++  EntityItemPointer EntityTypes::constructEntityItem(const unsigned char* data, int bytesToRead)
+        //      int EntityItem::readEntityDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
+        //          ReadBitstreamToTreeParams& args)
+        if (data.byteLength < this.#_MINIMUM_HEADER_BYTES) {
+            console.error("[EntityData] Not enough entity data.");
+            return null;
+        }
+
+        // Malformed data, e.g., truncated data, can cause reading to run past the end of the data.
+        try {
+            const parsedData = this.#readEntityItems(data, 0, 1);
+            return parsedData.entitiesDataDetails[0] ?? null;
+        } catch (err) {
+            console.error("[EntityData] Could not read entity data:", (err as Error).message);
+            return null;
+        }
+    }
+
     #readBitstreamToTree(data: DataView): ParsedData {
         // C++  void Octree::readBitstreamToTree(const unsigned char * bitstream, uint64_t bufferSizeBytes,
         //      ReadBitstreamToTreeParams& args)
@@ -501,8 +529,6 @@ const EntityData = new class {
 
         let dataPosition = pos;
 
-        const textDecoder = new TextDecoder();
-
         // 2 represents sizeof(numberOfEntities) in the C++ code.
         if (data.byteLength - dataPosition < 2) {
             console.error("Not enough meaningful data");
@@ -523,6 +549,29 @@ const EntityData = new class {
             };
         }
 
+        const parsedData = this.#readEntityItems(data, dataPosition, numberOfEntities);
+        dataPosition += parsedData.bytesRead;
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        return {
+            bytesRead: dataPosition - pos,
+            entitiesDataDetails: parsedData.entitiesDataDetails
+        };
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    #readEntityItems(data: DataView, pos: number, numberOfEntities: number): ParsedData {
+        // C++  int EntityTree::readEntityDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
+        //     ReadBitstreamToTreeParams& args)
+        //      int EntityItem::readEntityDataFromBuffer(const unsigned char* data, int bytesLeftToRead,
+        //          ReadBitstreamToTreeParams& args)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = pos;
+
+        const textDecoder = new TextDecoder();
         const entitiesDataDetails: EntityDataDetails = [];
         const codec = new ByteCountCoded();
 
@@ -1251,113 +1300,98 @@ const EntityData = new class {
                     subclassData = MaterialEntityItem.readEntitySubclassDataFromBuffer(data, dataPosition, propertyFlags);
                     break;
                 default:
-                    // WEBRTC TODO: This line will be unreachable once all entity types are supported.
-                    console.error("Entity type not supported: ", entityType);
+                    // The entity's properties can't be read so neither can any following entities' properties. Skip the rest of
+                    // the data but keep the entities already read.
+                    console.error("[EntityData] Entity type not supported:", entityType);
                     return {
-                        bytesRead: dataPosition - pos,
-                        entitiesDataDetails: []
+                        bytesRead: data.byteLength - pos,
+                        entitiesDataDetails
                     };
             }
 
             dataPosition += subclassData.bytesRead;
 
-            // WEBRTC TODO: Unnecessary check once all entity types are supported.
-            if (entityType === EntityType.Box
-                || entityType === EntityType.Sphere
-                || entityType === EntityType.Shape
-                || entityType === EntityType.Model
-                || entityType === EntityType.Text
-                || entityType === EntityType.Image
-                || entityType === EntityType.Web
-                || entityType === EntityType.ParticleEffect
-                || entityType === EntityType.Light
-                || entityType === EntityType.Zone
-                || entityType === EntityType.Material
-            ) {
-                entitiesDataDetails.push({
-                    entityItemID,
-                    entityType,
-                    createdFromBuffer,
-                    lastEdited,
-                    updateDelta,
-                    simulatedDelta,
-                    simOwnerData,
-                    parentID,
-                    parentJointIndex,
-                    visible,
-                    name,
-                    locked,
-                    userData,
-                    privateUserData,
-                    href,
-                    description,
-                    position,
-                    dimensions,
-                    rotation,
-                    registrationPoint,
-                    created,
-                    lastEditedBy,
-                    queryAACube,
-                    canCastShadow,
-                    renderLayer,
-                    primitiveMode,
-                    ignorePickIntersection,
-                    renderWithZones,
-                    billboardMode,
-                    grabbable,
-                    grabKinematic,
-                    grabFollowsController,
-                    triggerable,
-                    grabEquippable,
-                    delegateToParent,
-                    equippableLeftPositionOffset,
-                    equippableLeftRotationOffset,
-                    equippableRightPositionOffset,
-                    equippableRightRotationOffset,
-                    equippableIndicatorURL,
-                    equippableIndicatorScale,
-                    equippableIndicatorOffset,
-                    density,
-                    velocity,
-                    angularVelocity,
-                    gravity,
-                    acceleration,
-                    damping,
-                    angularDampling,
-                    restitution,
-                    friction,
-                    lifetime,
-                    collisionless,
-                    collisionMask,
-                    dynamic,
-                    collisionSoundURL,
-                    actionData,
-                    cloneable,
-                    cloneLifetime,
-                    cloneLimit,
-                    cloneDynamic,
-                    cloneAvatarIdentity,
-                    cloneOriginID,
-                    script,
-                    scriptTimestamp,
-                    serverScripts,
-                    itemName,
-                    itemDescription,
-                    itemCategories,
-                    itemArtist,
-                    itemLicense,
-                    limitedRun,
-                    marketplaceID,
-                    editionNumber,
-                    entityInstanceNumber,
-                    certificateID,
-                    certificateType,
-                    staticCertificateVersion,
-                    ...subclassData.properties
-                });
-            } else {
-                console.log("Entity type not supported:", entityType);
-            }
+            entitiesDataDetails.push({
+                entityItemID,
+                entityType,
+                createdFromBuffer,
+                lastEdited,
+                updateDelta,
+                simulatedDelta,
+                simOwnerData,
+                parentID,
+                parentJointIndex,
+                visible,
+                name,
+                locked,
+                userData,
+                privateUserData,
+                href,
+                description,
+                position,
+                dimensions,
+                rotation,
+                registrationPoint,
+                created,
+                lastEditedBy,
+                queryAACube,
+                canCastShadow,
+                renderLayer,
+                primitiveMode,
+                ignorePickIntersection,
+                renderWithZones,
+                billboardMode,
+                grabbable,
+                grabKinematic,
+                grabFollowsController,
+                triggerable,
+                grabEquippable,
+                delegateToParent,
+                equippableLeftPositionOffset,
+                equippableLeftRotationOffset,
+                equippableRightPositionOffset,
+                equippableRightRotationOffset,
+                equippableIndicatorURL,
+                equippableIndicatorScale,
+                equippableIndicatorOffset,
+                density,
+                velocity,
+                angularVelocity,
+                gravity,
+                acceleration,
+                damping,
+                angularDampling,
+                restitution,
+                friction,
+                lifetime,
+                collisionless,
+                collisionMask,
+                dynamic,
+                collisionSoundURL,
+                actionData,
+                cloneable,
+                cloneLifetime,
+                cloneLimit,
+                cloneDynamic,
+                cloneAvatarIdentity,
+                cloneOriginID,
+                script,
+                scriptTimestamp,
+                serverScripts,
+                itemName,
+                itemDescription,
+                itemCategories,
+                itemArtist,
+                itemLicense,
+                limitedRun,
+                marketplaceID,
+                editionNumber,
+                entityInstanceNumber,
+                certificateID,
+                certificateType,
+                staticCertificateVersion,
+                ...subclassData.properties
+            });
         }
 
         /* eslint-disable @typescript-eslint/no-magic-numbers */
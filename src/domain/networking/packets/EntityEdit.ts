@@ -0,0 +1,76 @@
+//
+//  EntityEdit.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketTypeValue from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+
+
+type EntityEditDetails = {
+    sequenceNumber: number,
+    sentTime: bigint,
+    editMessage: Uint8Array
+};
+
+
+const EntityEdit = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|EntityEdit} packet.
+     *  @typedef {object} PacketScribe.EntityEditDetails
+     *  @property {number} sequenceNumber - The edit packet sequence number.
+     *  @property {bigint} sentTime - The time that the packet was sent, in microseconds since the Unix epoch.
+     *  @property {Uint8Array} editMessage - The entity edit message, per
+     *      {@link EntityItemProperties.encodeEntityEditPacket}.
+     */
+
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|EntityEdit} packet, ready for sending.
+     *  @function PacketScribe.EntityEdit&period;write
+     *  @param {PacketScribe.EntityEditDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: EntityEditDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  void OctreeEditPacketSender::initializePacket(EditPacketBuffer& packetBuffer, PacketType type,
+        //          qint64 nodeClockSkew)
+        //      void OctreeEditPacketSender::queueOctreeEditMessage(PacketType type, QByteArray& editMessage)
+
+        const packet = NLPacket.create(PacketTypeValue.EntityEdit);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        data.setUint16(dataPosition, info.sequenceNumber, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        // WEBRTC TODO: Address further C++ code - clock skew.
+        data.setBigUint64(dataPosition, info.sentTime, UDT.LITTLE_ENDIAN);
+        dataPosition += 8;
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        new Uint8Array(data.buffer, data.byteOffset + dataPosition, info.editMessage.length).set(info.editMessage);
+        dataPosition += info.editMessage.length;
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default EntityEdit;
+export type { EntityEditDetails };
@@ -0,0 +1,56 @@
+//
+//  EntityEditNack.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../udt/UDT";
+
+
+type EntityEditNackDetails = {
+    sequenceNumbers: number[]
+};
+
+
+const EntityEditNack = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|EntityEditNack} packet.
+     *  @typedef {object} PacketScribe.EntityEditNackDetails
+     *  @property {number[]} sequenceNumbers - The sequence numbers of the edit packets that the entity server didn't receive.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|EntityEditNack} packet.
+     *  @function PacketScribe.EntityEditNack&period;read
+     *  @param {DataView} data - The {@link Packets|EntityEditNack} message data to read.
+     *  @returns {PacketScribe.EntityEditNackDetails} The EntityEditNack details.
+     */
+    read(data: DataView): EntityEditNackDetails {  /* eslint-disable-line class-methods-use-this */
+        // C++  void OctreeEditPacketSender::processNackPacket(ReceivedMessage& message, SharedNodePointer sendingNode)
+
+        const SEQUENCE_NUMBER_BYTES = 2;
+
+        const sequenceNumbers = [];
+        let dataPosition = 0;
+        while (data.byteLength - dataPosition >= SEQUENCE_NUMBER_BYTES) {
+            sequenceNumbers.push(data.getUint16(dataPosition, UDT.LITTLE_ENDIAN));
+            dataPosition += SEQUENCE_NUMBER_BYTES;
+        }
+
+        return {
+            sequenceNumbers
+        };
+    }
+
+}();
+
+export default EntityEditNack;
+export type { EntityEditNackDetails };
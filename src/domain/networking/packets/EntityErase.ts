@@ -0,0 +1,127 @@
+//
+//  EntityErase.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketTypeValue from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+import Uuid from "../../shared/Uuid";
+import "../../shared/DataViewExtensions";
+
+
+type EntityEraseDetails = {
+    entityIDs: Uuid[]
+};
+
+type EntityEraseWriteDetails = {
+    sequenceNumber: number,
+    sentTime: bigint,
+    entityIDs: Uuid[]
+};
+
+
+const EntityErase = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|EntityErase} packet.
+     *  @typedef {object} PacketScribe.EntityEraseDetails
+     *  @property {Uuid[]} entityIDs - The IDs of the entities that have been deleted.
+     */
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|EntityErase} packet.
+     *  @typedef {object} PacketScribe.EntityEraseWriteDetails
+     *  @property {number} sequenceNumber - The edit packet sequence number.
+     *  @property {bigint} sentTime - The time that the packet was sent, in microseconds since the Unix epoch.
+     *  @property {Uuid[]} entityIDs - The IDs of the entities to delete.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|EntityErase} packet.
+     *  @function PacketScribe.EntityErase&period;read
+     *  @param {DataView} data - The {@link Packets|EntityErase} message data to read.
+     *  @returns {PacketScribe.EntityEraseDetails} The EntityErase details.
+     */
+    read(data: DataView): EntityEraseDetails {  /* eslint-disable-line class-methods-use-this */
+        // C++  int EntityTree::processEraseMessage(ReceivedMessage& message, const SharedNodePointer& sourceNode)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = 0;
+
+        // Skip over the octree packet flags, sequence number, and sent time.
+        dataPosition += 1 + 2 + 8;
+
+        const numberOfIDs = data.getUint16(dataPosition, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        const entityIDs = [];
+        for (let i = 0; i < numberOfIDs; i++) {
+            if (data.byteLength - dataPosition < Uuid.NUM_BYTES_RFC4122_UUID) {
+                break;
+            }
+            entityIDs.push(new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN)));
+            dataPosition += Uuid.NUM_BYTES_RFC4122_UUID;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        return {
+            entityIDs
+        };
+    }
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|EntityErase} packet, ready for sending.
+     *  @function PacketScribe.EntityErase&period;write
+     *  @param {PacketScribe.EntityEraseWriteDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: EntityEraseWriteDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  void OctreeEditPacketSender::initializePacket(EditPacketBuffer& packetBuffer, PacketType type,
+        //          qint64 nodeClockSkew)
+        //      bool EntityItemProperties::encodeEraseEntityMessage(const EntityItemID& entityItemID, QByteArray& buffer)
+
+        const packet = NLPacket.create(PacketTypeValue.EntityErase);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        data.setUint16(dataPosition, info.sequenceNumber, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        // WEBRTC TODO: Address further C++ code - clock skew.
+        data.setBigUint64(dataPosition, info.sentTime, UDT.LITTLE_ENDIAN);
+        dataPosition += 8;
+
+        data.setUint16(dataPosition, info.entityIDs.length, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        for (const entityID of info.entityIDs) {
+            data.setBigUint128(dataPosition, entityID.value(), UDT.BIG_ENDIAN);
+            dataPosition += Uuid.NUM_BYTES_RFC4122_UUID;
+        }
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default EntityErase;
+export type { EntityEraseDetails, EntityEraseWriteDetails };
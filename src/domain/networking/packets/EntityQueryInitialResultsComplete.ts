@@ -0,0 +1,53 @@
+//
+//  EntityQueryInitialResultsComplete.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../udt/UDT";
+
+
+type EntityQueryInitialResultsCompleteDetails = {
+    exclusiveSequenceNumber: number
+};
+
+
+const EntityQueryInitialResultsComplete = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|EntityQueryInitialResultsComplete}
+     *  packet.
+     *  @typedef {object} PacketScribe.EntityQueryInitialResultsCompleteDetails
+     *  @property {number} exclusiveSequenceNumber - The sequence number of the {@link PacketType(1)|EntityData} packet
+     *      following the last packet of the initial query results, i.e., the initial results are in the packets up to but not
+     *      including this sequence number.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|EntityQueryInitialResultsComplete} packet.
+     *  @function PacketScribe.EntityQueryInitialResultsComplete&period;read
+     *  @param {DataView} data - The {@link Packets|EntityQueryInitialResultsComplete} message data to read.
+     *  @returns {PacketScribe.EntityQueryInitialResultsCompleteDetails} The EntityQueryInitialResultsComplete details.
+     */
+    read(data: DataView): EntityQueryInitialResultsCompleteDetails {  /* eslint-disable-line class-methods-use-this */
+        // C++  void OctreePacketProcessor::processPacket(QSharedPointer<ReceivedMessage> message,
+        //          SharedNodePointer sendingNode)
+
+        const exclusiveSequenceNumber = data.getUint16(0, UDT.LITTLE_ENDIAN);
+
+        return {
+            exclusiveSequenceNumber
+        };
+    }
+
+}();
+
+export default EntityQueryInitialResultsComplete;
+export type { EntityQueryInitialResultsCompleteDetails };
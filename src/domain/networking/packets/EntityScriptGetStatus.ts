@@ -0,0 +1,53 @@
+//
+//  EntityScriptGetStatus.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketType from "../udt/PacketHeaders";
+import NLPacketList from "../NLPacketList";
+import Uuid from "../../shared/Uuid";
+
+
+type EntityScriptGetStatusDetails = {
+    messageID: number,
+    entityID: Uuid
+};
+
+
+const EntityScriptGetStatus = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|EntityScriptGetStatus} packet list.
+     *  @typedef {object} PacketScribe.EntityScriptGetStatusDetails
+     *  @property {number} messageID - The ID of the request, returned in the entity script server's reply.
+     *  @property {Uuid} entityID - The ID of the entity to get the server script status of.
+     */
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|EntityScriptGetStatus} packet list, ready for sending.
+     *  @function PacketScribe.EntityScriptGetStatus&period;write
+     *  @param {PacketScribe.EntityScriptGetStatusDetails} info - The information needed for writing the packet list.
+     *  @returns {NLPacketList} The packet list, ready for sending.
+     */
+    write(info: EntityScriptGetStatusDetails): NLPacketList {  /* eslint-disable-line class-methods-use-this */
+        // C++  MessageID EntityScriptClient::getEntityServerScriptStatus(QUuid entityID, GetScriptStatusCallback callback)
+
+        const packetList = NLPacketList.create(PacketType.EntityScriptGetStatus, null, true, false);
+
+        packetList.writePrimitive(info.messageID);
+        packetList.writePrimitive(info.entityID);
+
+        return packetList;
+    }
+
+}();
+
+export default EntityScriptGetStatus;
+export type { EntityScriptGetStatusDetails };
@@ -0,0 +1,101 @@
+//
+//  EntityScriptGetStatusReply.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../udt/UDT";
+
+
+type EntityScriptGetStatusReplyDetails = {
+    messageID: number,
+    isKnown: boolean,
+    status: number,
+    errorInfo: string
+};
+
+
+const EntityScriptGetStatusReply = new class {
+    // C++  N/A
+
+    // C++  enum class EntityScriptStatus
+    readonly #ERROR_LOADING_SCRIPT = 2;
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|EntityScriptGetStatusReply} message.
+     *  @typedef {object} PacketScribe.EntityScriptGetStatusReplyDetails
+     *  @property {number} messageID - The ID of the request that this is the reply to.
+     *  @property {boolean} isKnown - <code>true</code> if the entity script server knows the entity's server script,
+     *      <code>false</code> if it doesn't.
+     *  @property {number} status - The status of the entity's server script. One of the following values:
+     *      <table>
+     *          <thead>
+     *              <tr><th>Value</th><th>Status</th></tr>
+     *          </thead>
+     *          <tbody>
+     *              <tr><td><code>0</code></td><td>Pending.</td></tr>
+     *              <tr><td><code>1</code></td><td>Loading.</td></tr>
+     *              <tr><td><code>2</code></td><td>Error loading script.</td></tr>
+     *              <tr><td><code>3</code></td><td>Error running script.</td></tr>
+     *              <tr><td><code>4</code></td><td>Running.</td></tr>
+     *              <tr><td><code>5</code></td><td>Unloaded.</td></tr>
+     *          </tbody>
+     *      </table>
+     *      If <code>isKnown</code> is <code>false</code> the value is <code>2</code>.
+     *  @property {string} errorInfo - Information on the error if the script failed to load or run, <code>""</code> if there
+     *      was no error or <code>isKnown</code> is <code>false</code>.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|EntityScriptGetStatusReply} message.
+     *  @function PacketScribe.EntityScriptGetStatusReply&period;read
+     *  @param {DataView} data - The {@link Packets|EntityScriptGetStatusReply} message data to read.
+     *  @returns {PacketScribe.EntityScriptGetStatusReplyDetails} The EntityScriptGetStatusReply details.
+     */
+    read(data: DataView): EntityScriptGetStatusReplyDetails {
+        // C++  void EntityScriptClient::handleGetScriptStatusReply(QSharedPointer<ReceivedMessage> message,
+        //          SharedNodePointer senderNode)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = 0;
+
+        const messageID = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+
+        const isKnown = data.getUint8(dataPosition) !== 0;
+        dataPosition += 1;
+
+        let status = this.#ERROR_LOADING_SCRIPT;
+        let errorInfo = "";
+        if (isKnown) {
+            status = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
+            dataPosition += 4;
+
+            const errorInfoLength = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
+            dataPosition += 4;
+            errorInfo = new TextDecoder().decode(new Uint8Array(data.buffer, data.byteOffset + dataPosition,
+                errorInfoLength));
+            dataPosition += errorInfoLength;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        return {
+            messageID,
+            isKnown,
+            status,
+            errorInfo
+        };
+    }
+
+}();
+
+export default EntityScriptGetStatusReply;
+export type { EntityScriptGetStatusReplyDetails };
@@ -0,0 +1,85 @@
+//
+//  EntityServerScriptLog.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketType from "../udt/PacketHeaders";
+import NLPacket from "../NLPacket";
+
+
+type EntityServerScriptLogDetails = {
+    logLines: string
+};
+
+type EntityServerScriptLogWriteDetails = {
+    enable: boolean
+};
+
+
+const EntityServerScriptLog = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information returned by {@link PacketScribe|reading} an {@link PacketType(1)|EntityServerScriptLog} packet.
+     *  @typedef {object} PacketScribe.EntityServerScriptLogDetails
+     *  @property {string} logLines - One or more lines of server script log output, separated by <code>"\n"</code>.
+     */
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|EntityServerScriptLog} packet.
+     *  @typedef {object} PacketScribe.EntityServerScriptLogWriteDetails
+     *  @property {boolean} enable - <code>true</code> to subscribe to the server script log, <code>false</code> to
+     *      unsubscribe.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|EntityServerScriptLog} packet.
+     *  @function PacketScribe.EntityServerScriptLog&period;read
+     *  @param {DataView} data - The {@link Packets|EntityServerScriptLog} message data to read.
+     *  @returns {PacketScribe.EntityServerScriptLogDetails} The EntityServerScriptLog details.
+     */
+    read(data: DataView): EntityServerScriptLogDetails {  /* eslint-disable-line class-methods-use-this */
+        // C++  void EntityScriptServerLogClient::handleEntityServerScriptLogPacket(QSharedPointer<ReceivedMessage> message,
+        //          SharedNodePointer senderNode)
+
+        const logLines = new TextDecoder().decode(data);
+
+        return {
+            logLines
+        };
+    }
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|EntityServerScriptLog} packet, ready for sending.
+     *  @function PacketScribe.EntityServerScriptLog&period;write
+     *  @param {PacketScribe.EntityServerScriptLogWriteDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: EntityServerScriptLogWriteDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  void EntityScriptServerLogClient::enableToEntityServerScriptLog(bool enable)
+
+        const packet = NLPacket.create(PacketType.EntityServerScriptLog, 1, true);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        data.setUint8(dataPosition, info.enable ? 1 : 0);
+        dataPosition += 1;
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default EntityServerScriptLog;
+export type { EntityServerScriptLogDetails, EntityServerScriptLogWriteDetails };
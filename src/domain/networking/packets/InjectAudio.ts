@@ -0,0 +1,146 @@
+//
+//  InjectAudio.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import PacketType from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+import { quat } from "../../shared/Quat";
+import Uuid from "../../shared/Uuid";
+import { vec3 } from "../../shared/Vec3";
+
+
+type InjectAudioDetails = {
+    sequenceNumber: number,
+    streamIdentifier: Uuid,
+    isStereo: boolean,
+    loopback: boolean,
+    position: vec3,
+    orientation: quat,
+    volume: number,
+    ignorePenumbra: boolean,
+    audioBuffer: Int16Array
+};
+
+
+const InjectAudio = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} an {@link PacketType(1)|InjectAudio} packet.
+     *  @typedef {object} PacketScribe.InjectAudioDetails
+     *  @property {number} sequenceNumber - The sequence number of the audio packet. It starts at <code>0</code> for each audio
+     *      injector stream, incrementing each time an audio packet is sent for the stream. The value wraps around to
+     *      <code>0</code> after <code>65535</code>.
+     *  @property {Uuid} streamIdentifier - The ID of the audio injector stream.
+     *  @property {boolean} isStereo - <code>true</code> if the audio data is stereo, <code>false</code> if mono.
+     *  @property {boolean} loopback - <code>true</code> if the audio mixer should echo the audio back to the user client,
+     *      <code>false</code> if it shouldn't.
+     *  @property {vec3} position - The position of the audio injector in the domain.
+     *  @property {quat} orientation - The orientation of the audio injector in the domain.
+     *  @property {number} volume - The volume of the audio injector, range <code>0.0</code> &ndash; <code>1.0</code>.
+     *  @property {boolean} ignorePenumbra - <code>true</code> if the audio mixer should not apply the head shadow effect to the
+     *      audio, <code>false</code> if it should.
+     *  @property {Int16Array} audioBuffer - The PCM audio data comprising the samples per the {@link AudioConstants}, i.e.,
+     *      240 frames being 10ms of audio data. Injector audio is not encoded with a codec.
+     */
+
+    // C++  AudioInjector.cpp
+    readonly #_MAX_INJECTOR_VOLUME = 255;
+
+
+    /*@devdoc
+     *  Writes an {@link PacketType(1)|InjectAudio} packet, ready for sending.
+     *  @function PacketScribe.InjectAudio&period;write
+     *  @param {PacketScribe.InjectAudioDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: InjectAudioDetails): NLPacket {
+        // C++  int64_t AudioInjector::injectNextFrame()
+
+        const packet = NLPacket.create(PacketType.InjectAudio);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        data.setUint16(dataPosition, info.sequenceNumber, UDT.LITTLE_ENDIAN);
+        dataPosition += 2;
+
+        // Injectors don't use codecs so write an empty codec name.
+        data.setUint32(dataPosition, 0, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+
+        data.setBigUint128(dataPosition, info.streamIdentifier.value(), UDT.BIG_ENDIAN);
+        dataPosition += 16;
+
+        data.setUint8(dataPosition, info.isStereo ? 1 : 0);
+        dataPosition += 1;
+
+        data.setUint8(dataPosition, info.loopback ? 1 : 0);
+        dataPosition += 1;
+
+        data.setFloat32(dataPosition, info.position.x, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.position.y, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.position.z, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+
+        data.setFloat32(dataPosition, info.orientation.x, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.orientation.y, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.orientation.z, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.orientation.w, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+
+        // An injector doesn't have a bounding box: write a zero-sized box at the injector's position.
+        data.setFloat32(dataPosition, info.position.x, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.position.y, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        data.setFloat32(dataPosition, info.position.z, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        for (let i = 0; i < 3; i++) {
+            data.setFloat32(dataPosition, 0, UDT.LITTLE_ENDIAN);
+            dataPosition += 4;
+        }
+
+        // Radius. Zero for a point source.
+        data.setFloat32(dataPosition, 0, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+
+        const volume = Math.round(Math.min(Math.max(info.volume, 0), 1) * this.#_MAX_INJECTOR_VOLUME);
+        data.setUint8(dataPosition, volume);
+        dataPosition += 1;
+
+        data.setUint8(dataPosition, info.ignorePenumbra ? 1 : 0);
+        dataPosition += 1;
+
+        for (const sample of info.audioBuffer) {
+            data.setInt16(dataPosition, sample, UDT.LITTLE_ENDIAN);
+            dataPosition += 2;
+        }
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default InjectAudio;
+export type { InjectAudioDetails };
@@ -0,0 +1,218 @@
+//
+//  OctreeStats.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../udt/UDT";
+
+
+type OctreeStatsDetails = {
+    start: number,
+    end: number,
+    elapsed: number,
+    totalEncodeTime: number,
+    isFullScene: boolean,
+    isMoving: boolean,
+    packets: number,
+    bytes: number,
+    totalElements: number,
+    totalInternal: number,
+    totalLeaves: number,
+    internal: number,
+    leaves: number,
+    internalSkippedDistance: number,
+    leavesSkippedDistance: number,
+    internalSkippedOutOfView: number,
+    leavesSkippedOutOfView: number,
+    internalSkippedWasInView: number,
+    leavesSkippedWasInView: number,
+    internalSkippedNoChange: number,
+    leavesSkippedNoChange: number,
+    internalSkippedOccluded: number,
+    leavesSkippedOccluded: number,
+    internalColorSent: number,
+    leavesColorSent: number,
+    internalDidntFit: number,
+    leavesDidntFit: number,
+    colorBitsWritten: number,
+    existsBitsWritten: number,
+    existsInPacketBitsWritten: number,
+    treesRemoved: number
+};
+
+
+const OctreeStats = new class {
+    // C++  N/A
+
+    /*@sdkdoc
+     *  Statistics on the entity data that the entity server has sent to the user client, as reported in an
+     *  {@link PacketType(1)|OctreeStats} packet. The statistics are for the most recent scene (set of entity data) sent.
+     *  @typedef {object} PacketScribe.OctreeStatsDetails
+     *  @property {number} start - The time at which the entity server started sending the scene, in usec since the Unix epoch.
+     *  @property {number} end - The time at which the entity server finished sending the scene, in usec since the Unix epoch.
+     *  @property {number} elapsed - The time taken to send the scene, in usec.
+     *  @property {number} totalEncodeTime - The time taken to encode the scene, in usec.
+     *  @property {boolean} isFullScene - <code>true</code> if the scene was a full scene, <code>false</code> if it was only
+     *      the changes since the previous scene.
+     *  @property {boolean} isMoving - <code>true</code> if the user client's view was moving, <code>false</code> if it
+     *      wasn't.
+     *  @property {number} packets - The number of packets sent.
+     *  @property {number} bytes - The number of bytes sent.
+     *  @property {number} totalElements - The total number of octree elements in the scene.
+     *  @property {number} totalInternal - The total number of internal (non-leaf) octree elements in the scene.
+     *  @property {number} totalLeaves - The total number of leaf octree elements in the scene.
+     *  @property {number} internal - The number of internal octree elements sent.
+     *  @property {number} leaves - The number of leaf octree elements sent.
+     *  @property {number} internalSkippedDistance - The number of internal octree elements skipped because they were too far
+     *      away.
+     *  @property {number} leavesSkippedDistance - The number of leaf octree elements skipped because they were too far away.
+     *  @property {number} internalSkippedOutOfView - The number of internal octree elements skipped because they were out of
+     *      view.
+     *  @property {number} leavesSkippedOutOfView - The number of leaf octree elements skipped because they were out of view.
+     *  @property {number} internalSkippedWasInView - The number of internal octree elements skipped because they were already
+     *      in view.
+     *  @property {number} leavesSkippedWasInView - The number of leaf octree elements skipped because they were already in
+     *      view.
+     *  @property {number} internalSkippedNoChange - The number of internal octree elements skipped because they hadn't changed.
+     *  @property {number} leavesSkippedNoChange - The number of leaf octree elements skipped because they hadn't changed.
+     *  @property {number} internalSkippedOccluded - The number of internal octree elements skipped because they were occluded.
+     *  @property {number} leavesSkippedOccluded - The number of leaf octree elements skipped because they were occluded.
+     *  @property {number} internalColorSent - The number of internal octree elements sent with color data.
+     *  @property {number} leavesColorSent - The number of leaf octree elements sent with color data.
+     *  @property {number} internalDidntFit - The number of internal octree elements that didn't fit in a packet.
+     *  @property {number} leavesDidntFit - The number of leaf octree elements that didn't fit in a packet.
+     *  @property {number} colorBitsWritten - The number of color bits written.
+     *  @property {number} existsBitsWritten - The number of "exists" bits written.
+     *  @property {number} existsInPacketBitsWritten - The number of "exists in packet" bits written.
+     *  @property {number} treesRemoved - The number of octree trees removed.
+     */
+
+
+    /*@devdoc
+     *  Reads an {@link PacketType(1)|OctreeStats} packet.
+     *  <p>Note: An OctreeStats packet may have an {@link PacketType(1)|EntityData} packet piggybacked after the stats
+     *  data. This method reads only the stats data.</p>
+     *  @function PacketScribe.OctreeStats&period;read
+     *  @param {DataView} data - The {@link Packets|OctreeStats} message data to read.
+     *  @returns {PacketScribe.OctreeStatsDetails} The OctreeStats details.
+     */
+    read(data: DataView): OctreeStatsDetails {  /* eslint-disable-line class-methods-use-this */
+        // C++  int OctreeSceneStats::unpackFromPacket(ReceivedMessage& packet)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        let dataPosition = 0;
+
+        const start = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const end = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const elapsed = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const totalEncodeTime = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+
+        const isFullScene = data.getUint8(dataPosition) !== 0;
+        dataPosition += 1;
+        const isMoving = data.getUint8(dataPosition) !== 0;
+        dataPosition += 1;
+
+        const packets = data.getUint32(dataPosition, UDT.LITTLE_ENDIAN);
+        dataPosition += 4;
+        const bytes = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+
+        const totalInternal = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const totalLeaves = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internal = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leaves = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalSkippedDistance = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesSkippedDistance = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalSkippedOutOfView = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesSkippedOutOfView = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalSkippedWasInView = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesSkippedWasInView = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalSkippedNoChange = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesSkippedNoChange = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalSkippedOccluded = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesSkippedOccluded = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalColorSent = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesColorSent = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const internalDidntFit = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const leavesDidntFit = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const colorBitsWritten = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const existsBitsWritten = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const existsInPacketBitsWritten = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+        const treesRemoved = Number(data.getBigUint64(dataPosition, UDT.LITTLE_ENDIAN));
+        dataPosition += 8;
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+        const totalElements = totalInternal + totalLeaves;
+
+        return {
+            start,
+            end,
+            elapsed,
+            totalEncodeTime,
+            isFullScene,
+            isMoving,
+            packets,
+            bytes,
+            totalElements,
+            totalInternal,
+            totalLeaves,
+            internal,
+            leaves,
+            internalSkippedDistance,
+            leavesSkippedDistance,
+            internalSkippedOutOfView,
+            leavesSkippedOutOfView,
+            internalSkippedWasInView,
+            leavesSkippedWasInView,
+            internalSkippedNoChange,
+            leavesSkippedNoChange,
+            internalSkippedOccluded,
+            leavesSkippedOccluded,
+            internalColorSent,
+            leavesColorSent,
+            internalDidntFit,
+            leavesDidntFit,
+            colorBitsWritten,
+            existsBitsWritten,
+            existsInPacketBitsWritten,
+            treesRemoved
+        };
+    }
+
+}();
+
+export default OctreeStats;
+export type { OctreeStatsDetails };
@@ -15,21 +15,30 @@ import Ping from "./Ping";
 import PingReply from "./PingReply";
 import KillAvatar from "./KillAvatar";
 import AvatarData from "./AvatarData";
+import InjectAudio from "./InjectAudio";
 import MixedAudio from "./MixedAudio";
 import MicrophoneAudioNoEcho from "./MicrophoneAudioNoEcho";
+import MicrophoneAudioWithEcho from "./MicrophoneAudioWithEcho";
 import BulkAvatarData from "./BulkAvatarData";
 import SilentAudioFrame from "./SilentAudioFrame";
 import DomainListRequest from "./DomainListRequest";
+import AudioStreamStats from "./AudioStreamStats";
 import DomainServerPathQuery from "./DomainServerPathQuery";
 import DomainServerPathResponse from "./DomainServerPathResponse";
 import DomainServerAddedNode from "./DomainServerAddedNode";
+import OctreeStats from "./OctreeStats";
 import DomainConnectionDenied from "./DomainConnectionDenied";
 import SetAvatarTraits from "./SetAvatarTraits";
 import AvatarIdentity from "./AvatarIdentity";
 import NodeIgnoreRequest from "./NodeIgnoreRequest";
 import DomainConnectRequest from "./DomainConnectRequest";
+import AudioEnvironment from "./AudioEnvironment";
+import EntityEditNack from "./EntityEditNack";
 import EntityData from "./EntityData";
 import EntityQuery from "./EntityQuery";
+import EntityAdd from "./EntityAdd";
+import EntityErase from "./EntityErase";
+import EntityEdit from "./EntityEdit";
 import DomainServerConnectionToken from "./DomainServerConnectionToken";
 import DomainDisconnectRequest from "./DomainDisconnectRequest";
 import DomainServerRemovedNode from "./DomainServerRemovedNode";
@@ -43,8 +52,14 @@ import NodeMuteRequest from "./NodeMuteRequest";
 import AvatarQuery from "./AvatarQuery";
 import RequestsDomainListData from "./RequestsDomainListData";
 import PerAvatarGainSet from "./PerAvatarGainSet";
+import EntityScriptGetStatus from "./EntityScriptGetStatus";
+import EntityScriptGetStatusReply from "./EntityScriptGetStatusReply";
+import ReloadEntityServerScript from "./ReloadEntityServerScript";
+import EntityServerScriptLog from "./EntityServerScriptLog";
+import EntityQueryInitialResultsComplete from "./EntityQueryInitialResultsComplete";
 import BulkAvatarTraits from "./BulkAvatarTraits";
 import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
+import StopInjector from "./StopInjector";
 
 
 /*@devdoc
@@ -61,10 +76,14 @@ import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
  *      {@link PacketScribe.KillAvatar&period;read|KillAvatar&period;read}
  *  @property {function} AvatarData.write -
  *      {@link PacketScribe.AvatarData&period;write|AvatarData&period;write}
+ *  @property {function} InjectAudio.write -
+ *      {@link PacketScribe.InjectAudio&period;write|InjectAudio&period;write}
  *  @property {function} MixedAudio.read -
  *      {@link PacketScribe.MixedAudio&period;read|MixedAudio&period;read}
  *  @property {function} MicrophoneAudioNoEcho.write -
  *      {@link PacketScribe.MicrophoneAudioNoEcho&period;write|MixedAudio&period;write}
+ *  @property {function} MicrophoneAudioWithEcho.write -
+ *      {@link PacketScribe.MicrophoneAudioWithEcho&period;write|MicrophoneAudioWithEcho&period;write}
  *  @property {function} BulkAvatarData.read -
  *      {@link PacketScribe.BulkAvatarData&period;read|BulkAvatarData&period;read}
  *  @property {function} SilentAudioFrame.read -
@@ -73,6 +92,10 @@ import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
  *      {@link PacketScribe.SilentAudioFrame&period;write|SilentAudioFrame&period;write}
  *  @property {function} DomainListRequest.write -
  *      {@link PacketScribe.DomainListRequest&period;write|DomainListRequest&period;write}
+ *  @property {function} AudioStreamStats.read -
+ *      {@link PacketScribe.AudioStreamStats&period;read|AudioStreamStats&period;read}
+ *  @property {function} AudioStreamStats.write -
+ *      {@link PacketScribe.AudioStreamStats&period;write|AudioStreamStats&period;write}
  *  @property {function} DomainServerPathQuery.write -
  *      {@link PacketScribe.DomainServerPathQuery&period;write|DomainServerPathQuery&period;write}
  *  @property {function} DomainServerPathResponse.read -
@@ -81,6 +104,8 @@ import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
  *      {@link PacketScribe.DomainServerAddedNode&period;read|DomainServerAddedNode&period;read}
  *  @property {function} DomainConnectionDenied.read -
  *      {@link PacketScribe.DomainConnectionDenied&period;read|DomainConnectionDenied&period;read}
+ *  @property {function} OctreeStats.read -
+ *      {@link PacketScribe.OctreeStats&period;read|OctreeStats&period;read}
  *  @property {function} SetAvatarTraits.write -
  *      {@link PacketScribe.SetAvatarTraits&period;write|SetAvatarTraits&period;write}
  *  @property {function} AvatarIdentity.read -
@@ -91,10 +116,24 @@ import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
  *      {@link PacketScribe.NodeIgnoreRequest&period;write|NodeIgnoreRequest&period;write}
  *  @property {function} DomainConnectRequest.write -
  *      {@link PacketScribe.DomainConnectRequest&period;write|DomainConnectRequest&period;write}
+ *  @property {function} AudioEnvironment.read -
+ *      {@link PacketScribe.AudioEnvironment&period;read|AudioEnvironment&period;read}
+ *  @property {function} EntityEditNack.read -
+ *      {@link PacketScribe.EntityEditNack&period;read|EntityEditNack&period;read}
  *  @property {function} EntityData.read -
  *      {@link PacketScribe.EntityData&period;read|EntityData&period;read}
+ *  @property {function} EntityData.readEntityItem -
+ *      {@link PacketScribe.EntityData&period;readEntityItem|EntityData&period;readEntityItem}
  *  @property {function} EntityQuery.write -
  *      {@link PacketScribe.EntityQuery&period;write|EntityQuery&period;write}
+ *  @property {function} EntityAdd.write -
+ *      {@link PacketScribe.EntityAdd&period;write|EntityAdd&period;write}
+ *  @property {function} EntityErase.read -
+ *      {@link PacketScribe.EntityErase&period;read|EntityErase&period;read}
+ *  @property {function} EntityErase.write -
+ *      {@link PacketScribe.EntityErase&period;write|EntityErase&period;write}
+ *  @property {function} EntityEdit.write -
+ *      {@link PacketScribe.EntityEdit&period;write|EntityEdit&period;write}
  *  @property {function} DomainServerConnectionToken.read -
  *      {@link PacketScribe.DomainServerConnectionToken&period;read|DomainServerConnectionToken&period;read}
  *  @property {function} DomainDisconnectRequest.write -
@@ -123,10 +162,24 @@ import BulkAvatarTraitsAck from "./BulkAvatarTraitsAck";
  *      {@link PacketScribe.RequestsDomainListData&period;write|RequestsDomainListData&period;write}
  *  @property {function} PerAvatarGainSet.write -
  *      {@link PacketScribe.PerAvatarGainSet&period;write|PerAvatarGainSet&period;write}
+ *  @property {function} EntityScriptGetStatus.write -
+ *      {@link PacketScribe.EntityScriptGetStatus&period;write|EntityScriptGetStatus&period;write}
+ *  @property {function} EntityScriptGetStatusReply.read -
+ *      {@link PacketScribe.EntityScriptGetStatusReply&period;read|EntityScriptGetStatusReply&period;read}
+ *  @property {function} ReloadEntityServerScript.write -
+ *      {@link PacketScribe.ReloadEntityServerScript&period;write|ReloadEntityServerScript&period;write}
+ *  @property {function} EntityServerScriptLog.read -
+ *      {@link PacketScribe.EntityServerScriptLog&period;read|EntityServerScriptLog&period;read}
+ *  @property {function} EntityServerScriptLog.write -
+ *      {@link PacketScribe.EntityServerScriptLog&period;write|EntityServerScriptLog&period;write}
+ *  @property {function} EntityQueryInitialResultsComplete.read -
+ *      {@link PacketScribe.EntityQueryInitialResultsComplete&period;read|EntityQueryInitialResultsComplete&period;read}
  *  @property {function} BulkAvatarTraits.read -
  *      {@link PacketScribe.BulkAvatarTraits&period;read|BulkAvatarTraits&period;read}
  *  @property {function} BulkAvatarTraitsAck.write -
  *      {@link PacketScribe.BulkAvatarTraitsAck&period;write|BulkAvatarTraitsAck&period;write}
+ *  @property {function} StopInjector.write -
+ *      {@link PacketScribe.StopInjector&period;write|StopInjector&period;write}
  */
 
 // WEBRTC TODO: Implement similar in C++ to collect all packet reading/writing into the networking library code (and revise this
@@ -141,21 +194,30 @@ const PacketScribe = {
     PingReply,
     KillAvatar,
     AvatarData,
+    InjectAudio,
     MixedAudio,
     MicrophoneAudioNoEcho,
+    MicrophoneAudioWithEcho,
     BulkAvatarData,
     SilentAudioFrame,
     DomainListRequest,
     DomainConnectionDenied,
+    AudioStreamStats,
     DomainServerPathQuery,
     DomainServerPathResponse,
     DomainServerAddedNode,
+    OctreeStats,
     SetAvatarTraits,
     AvatarIdentity,
     NodeIgnoreRequest,
     DomainConnectRequest,
+    AudioEnvironment,
+    EntityEditNack,
     EntityData,
     EntityQuery,
+    EntityAdd,
+    EntityErase,
+    EntityEdit,
     DomainServerConnectionToken,
     DomainDisconnectRequest,
     DomainServerRemovedNode,
@@ -169,8 +231,14 @@ const PacketScribe = {
     AvatarQuery,
     RequestsDomainListData,
     PerAvatarGainSet,
+    EntityScriptGetStatus,
+    EntityScriptGetStatusReply,
+    ReloadEntityServerScript,
+    EntityServerScriptLog,
+    EntityQueryInitialResultsComplete,
     BulkAvatarTraits,
-    BulkAvatarTraitsAck
+    BulkAvatarTraitsAck,
+    StopInjector
 };
 
 export default PacketScribe;
@@ -0,0 +1,59 @@
+//
+//  ReloadEntityServerScript.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Uuid from "../../shared/Uuid";
+import PacketType from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+
+
+type ReloadEntityServerScriptDetails = {
+    entityID: Uuid
+};
+
+
+const ReloadEntityServerScript = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} a {@link PacketType(1)|ReloadEntityServerScript} packet.
+     *  @typedef {object} PacketScribe.ReloadEntityServerScriptDetails
+     *  @property {Uuid} entityID - The ID of the entity whose server script should be reloaded.
+     */
+
+
+    /*@devdoc
+     *  Writes a {@link PacketType(1)|ReloadEntityServerScript} packet, ready for sending.
+     *  @function PacketScribe.ReloadEntityServerScript&period;write
+     *  @param {PacketScribe.ReloadEntityServerScriptDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: ReloadEntityServerScriptDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  bool EntityScriptClient::reloadServerScript(QUuid entityID)
+
+        const packet = NLPacket.create(PacketType.ReloadEntityServerScript, Uuid.NUM_BYTES_RFC4122_UUID, true);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        data.setBigUint128(dataPosition, info.entityID.value(), UDT.BIG_ENDIAN);
+        dataPosition += Uuid.NUM_BYTES_RFC4122_UUID;
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default ReloadEntityServerScript;
+export type { ReloadEntityServerScriptDetails };
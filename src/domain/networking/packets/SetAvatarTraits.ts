@@ -9,7 +9,7 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
-import AvatarTraits, { SkeletonJoint } from "../../avatars/AvatarTraits";
+import AvatarTraits, { SkeletonJoint, TraitType } from "../../avatars/AvatarTraits";
 import { ClientTraitStatus } from "../../avatars/ClientTraitsHandler";
 import GLMHelpers from "../../shared/GLMHelpers";
 import Vec3 from "../../shared/Vec3";
@@ -23,6 +23,9 @@ type SetAvatarTraitsDetails = {
     skeletonModelURL: string;
     skeletonData: SkeletonJoint[];
     traitStatuses: Array<ClientTraitStatus>;
+    instancedTraitStatuses: Map<TraitType, Map<bigint, ClientTraitStatus>>;
+    avatarEntityData: Map<bigint, Uint8Array>;
+    avatarGrabData: Map<bigint, Uint8Array>;
     initialSend: boolean;
 };
 
@@ -38,6 +41,12 @@ const SetAvatarTraits = new class {
      *  @property {string} skeletonModelURL - The URL of the avatar's FST, glTF, or FBX model file.
      *  @property {SkeletonJoint[]} skeletonData - The avatar's skeleton.
      *  @property {ClientTraitStatus[]} traitStatuses - The status of each avatar trait.
+     *  @property {Map<AvatarTraits.TraitType,Map<bigint,ClientTraitStatus>>} instancedTraitStatuses - The status of each
+     *      instanced avatar trait, keyed by trait type then by trait instance ID value.
+     *  @property {Map<bigint,Uint8Array>} avatarEntityData - The avatar's avatar entities' data, keyed by entity ID value.
+     *      Data are written per {@link EntityItemProperties.encodeEntityData}.
+     *  @property {Map<bigint,Uint8Array>} avatarGrabData - The avatar's grabs' data, keyed by grab ID value. Data are written
+     *      per {@link Grab.toByteArray}.
      *  @property {boolean} initialSend - <code>true</code> to send all traits, <code>false</code> to send only those that have
      *      been updated.
      */
@@ -69,10 +78,52 @@ const SetAvatarTraits = new class {
             }
         }
 
+        for (const [traitType, instanceStatuses] of info.instancedTraitStatuses) {
+            for (const [instanceID, traitStatus] of instanceStatuses) {
+                if (info.initialSend && traitStatus !== ClientTraitStatus.Deleted
+                        || traitStatus === ClientTraitStatus.Updated) {
+                    // This is a changed trait we need to send or we haven't sent out trait information yet.
+                    if (traitType === AvatarTraits.AvatarEntity) {
+                        this.#packTraitInstance(traitType, instanceID, info.avatarEntityData.get(instanceID), packetList);
+                    } else if (traitType === AvatarTraits.Grab) {
+                        this.#packTraitInstance(traitType, instanceID, info.avatarGrabData.get(instanceID), packetList);
+                    }
+                } else if (!info.initialSend && traitStatus === ClientTraitStatus.Deleted) {
+                    // Pack delete for this trait instance.
+                    this.#packTraitInstance(traitType, instanceID, undefined, packetList);
+                }
+            }
+        }
+
         return packetList;
     }
 
 
+    // eslint-disable-next-line class-methods-use-this
+    #packTraitInstance(traitType: TraitType, instanceID: bigint, traitBinaryData: Uint8Array | undefined,
+        packetList: NLPacketList) {
+        // C++  qint64 AvatarData::packTraitInstance(AvatarTraits::TraitType traitType,
+        //          AvatarTraits::TraitInstanceID traitInstanceID, ExtendedIODevice& destination,
+        //          AvatarTraits::TraitVersion traitVersion)
+        //      qint64 AvatarTraits::packInstancedTraitDelete(TraitType traitType, TraitInstanceID instanceID,
+        //          ExtendedIODevice& destination, TraitVersion traitVersion)
+        //      The trait version isn't written because the user client's traits aren't versioned.
+        if (traitBinaryData && traitBinaryData.length > AvatarTraits.MAXIMUM_TRAIT_SIZE) {
+            console.warn("[avatars] Refusing to pack instanced trait", traitType, "of size", traitBinaryData.length,
+                "bytes since it exceeds the maximum size", AvatarTraits.MAXIMUM_TRAIT_SIZE, "bytes.");
+            return;
+        }
+
+        packetList.writePrimitive(traitType, 1);
+        packetList.writePrimitive(instanceID);
+        if (traitBinaryData) {
+            packetList.writePrimitive(traitBinaryData.length, 2);
+            packetList.write(traitBinaryData);
+        } else {
+            packetList.writePrimitive(AvatarTraits.DELETED_TRAIT_SIZE, 2);
+        }
+    }
+
     // eslint-disable-next-line class-methods-use-this
     #packSkeletonModelURL(skeletonModelURL: string, packetList: NLPacketList) {
         // C++  QByteArray AvatarData::packSkeletonModelURL()
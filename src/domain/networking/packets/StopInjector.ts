@@ -0,0 +1,59 @@
+//
+//  StopInjector.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Uuid from "../../shared/Uuid";
+import PacketType from "../udt/PacketHeaders";
+import UDT from "../udt/UDT";
+import NLPacket from "../NLPacket";
+
+
+type StopInjectorDetails = {
+    streamIdentifier: Uuid
+};
+
+
+const StopInjector = new class {
+    // C++  N/A
+
+    /*@devdoc
+     *  Information needed for {@link PacketScribe|writing} a {@link PacketType(1)|StopInjector} packet.
+     *  @typedef {object} PacketScribe.StopInjectorDetails
+     *  @property {Uuid} streamIdentifier - The ID of the audio injector stream to stop.
+     */
+
+
+    /*@devdoc
+     *  Writes a {@link PacketType(1)|StopInjector} packet, ready for sending.
+     *  @function PacketScribe.StopInjector&period;write
+     *  @param {PacketScribe.StopInjectorDetails} info - The information needed for writing the packet.
+     *  @returns {NLPacket} The packet, ready for sending.
+     */
+    write(info: StopInjectorDetails): NLPacket {  /* eslint-disable-line class-methods-use-this */
+        // C++  void AudioInjector::sendStopInjectorPacket()
+
+        const packet = NLPacket.create(PacketType.StopInjector, Uuid.NUM_BYTES_RFC4122_UUID);
+        const messageData = packet.getMessageData();
+        const data = messageData.data;
+        let dataPosition = messageData.dataPosition;
+
+        data.setBigUint128(dataPosition, info.streamIdentifier.value(), UDT.BIG_ENDIAN);
+        dataPosition += Uuid.NUM_BYTES_RFC4122_UUID;
+
+        messageData.dataPosition = dataPosition;
+        messageData.packetSize = dataPosition;
+
+        return packet;
+    }
+
+}();
+
+export default StopInjector;
+export type { StopInjectorDetails };
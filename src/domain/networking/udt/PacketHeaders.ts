@@ -159,7 +159,9 @@ const enum PacketTypeValue {
  *  @property {PacketType} AvatarData - <code>6</code> - The user client sends this to the avatar mixer with details of the user
  *      client's avatar.<br />
  *      {@link PacketScribe.AvatarDataDetails}
- *  @property {PacketType} InjectAudio - <code>7</code>
+ *  @property {PacketType} InjectAudio - <code>7</code> - The user client repeatedly sends this to the audio mixer with audio
+ *      from an audio injector to play at the injector's position.<br />
+ *      {@link PacketScribe.InjectAudioDetails}
  *  @property {PacketType} MixedAudio - <code>8</code> - The audio mixer repeatedly sends this to the user client when there is
  *      audio to play at the user client's audio position.<br />
  *      {@link PacketScribe.MixedAudioDetails}
@@ -168,7 +170,8 @@ const enum PacketTypeValue {
  *      client.<br />
  *      {@link PacketScribe.MicrophoneAudioNoEchoDetails}
  *  @property {PacketType} MicrophoneAudioWithEcho - <code>10</code> - The user client sends this to the audio mixer with user
- *      audio to play at the user client's audio position. The audio mixer should echo the audio back to the user client.
+ *      audio to play at the user client's audio position. The audio mixer should echo the audio back to the user client.<br />
+ *      {@link PacketScribe.MicrophoneAudioWithEchoDetails}
  *  @property {PacketType} BulkAvatarData - <code>11</code> - The avatar mixer sends this to the user client to keep it up to
  *      date with the details of avatars in the domain, including the user client's avatar.<br />
  *      {@link PacketScribe.BulkAvatarDataDetails}
@@ -187,7 +190,10 @@ const enum PacketTypeValue {
  *      domain.<br />
  *      {@link PacketScribe.DomainConnectionDeniedDetails}
  *  @property {PacketType} MuteEnvironment - <code>17</code>
- *  @property {PacketType} AudioStreamStats - <code>18</code>
+ *  @property {PacketType} AudioStreamStats - <code>18</code> - The user client sends this to the audio mixer once per second
+ *      with statistics on the audio stream it receives from the audio mixer. The audio mixer sends this to the user client with
+ *      statistics on the audio streams it receives from the user client.<br />
+ *      {@link PacketScribe.AudioStreamStatsDetails}
  *  @property {PacketType} DomainServerPathQuery - <code>19</code> - The user client sends this to the Domain Server to get the
  *      position and orientation set for a path in the domain.<br />
  *      <em>Reliable.</em><br />
@@ -229,8 +235,12 @@ const enum PacketTypeValue {
  *  @property {PacketType} NodeJsonStats - <code>33</code>
  *  @property {PacketType} OctreeDataNack - <code>34</code>
  *  @property {PacketType} StopNode - <code>35</code>
- *  @property {PacketType} AudioEnvironment - <code>36</code>
- *  @property {PacketType} EntityEditNack - <code>37</code>
+ *  @property {PacketType} AudioEnvironment - <code>36</code> - The Audio Mixer sends this to the user client to provide the
+ *      reverb settings of the audio zone that the user is in.<br />
+ *      {@link PacketScribe.AudioEnvironmentDetails}
+ *  @property {PacketType} EntityEditNack - <code>37</code> - The Entity Server sends this to the user client when it has not
+ *      received one or more EntityAdd, EntityEdit, or EntityErase packets. The user client resends the packets.<br />
+ *      {@link PacketScribe.EntityEditNackDetails}
  *  @property {PacketType} ICEServerHeartbeat - <code>38</code>
  *  @property {PacketType} ICEPing - <code>39</code>
  *  @property {PacketType} ICEPingReply - <code>40</code>
@@ -241,9 +251,15 @@ const enum PacketTypeValue {
  *  @property {PacketType} EntityQuery - <code>42</code> - The user client sends this to the Entity Server to request details of
  *      the entities in view. The Domain Server responds with EntityData packets.<br />
  *      {@link PacketScribe.EntityQueryDetails}
- *  @property {PacketType} EntityAdd - <code>43</code>
- *  @property {PacketType} EntityErase - <code>44</code>
- *  @property {PacketType} EntityEdit - <code>45</code>
+ *  @property {PacketType} EntityAdd - <code>43</code> - The user client sends this to the Entity Server to add an entity.<br />
+ *      {@link PacketScribe.EntityAddDetails}
+ *  @property {PacketType} EntityErase - <code>44</code> - The Entity Server sends this to the user client when entities have
+ *      been deleted. The user client sends this to the Entity Server to delete an entity.<br />
+ *      {@link PacketScribe.EntityEraseDetails}<br />
+ *      {@link PacketScribe.EntityEraseWriteDetails}
+ *  @property {PacketType} EntityEdit - <code>45</code> - The user client sends this to the Entity Server to edit an
+ *      entity.<br />
+ *      {@link PacketScribe.EntityEditDetails}
  *  @property {PacketType} DomainServerConnectionToken - <code>46</code> - The Domain Server sends this to the client when the
  *      client tries to log into the domain.<br />
  *      {@link PacketScribe.DomainServerConnectionTokenDetails}
@@ -309,11 +325,25 @@ const enum PacketTypeValue {
  *      avatar's gain (volume) or the master avatar gain, for the audio that's sent to the client.<br />
  *      <em>Reliable.</em><br />
  *      {@link PacketScribe.PerAvatarGainSetDetails}
- *  @property {PacketType} EntityScriptGetStatus - <code>75</code>
- *  @property {PacketType} EntityScriptGetStatusReply - <code>76</code>
- *  @property {PacketType} ReloadEntityServerScript - <code>77</code>
+ *  @property {PacketType} EntityScriptGetStatus - <code>75</code> - The user client sends this to the entity script server to
+ *      request the status of an entity's server script.<br />
+ *      <em>Reliable.</em><br />
+ *      {@link PacketScribe.EntityScriptGetStatusDetails}
+ *  @property {PacketType} EntityScriptGetStatusReply - <code>76</code> - The entity script server sends this to the user client
+ *      in response to an EntityScriptGetStatus packet.<br />
+ *      <em>Reliable. Ordered.</em><br />
+ *      {@link PacketScribe.EntityScriptGetStatusReplyDetails}
+ *  @property {PacketType} ReloadEntityServerScript - <code>77</code> - The user client sends this to the entity script server
+ *      to reload an entity's server script.<br />
+ *      <em>Reliable.</em><br />
+ *      {@link PacketScribe.ReloadEntityServerScriptDetails}
  *  @property {PacketType} EntityPhysics - <code>78</code>
- *  @property {PacketType} EntityServerScriptLog - <code>79</code>
+ *  @property {PacketType} EntityServerScriptLog - <code>79</code> - The user client sends this to the entity script server to
+ *      subscribe to or unsubscribe from the server script log. The entity script server sends this to subscribed user clients
+ *      with server script log output.<br />
+ *      <em>Reliable.</em><br />
+ *      {@link PacketScribe.EntityServerScriptLogDetails}<br />
+ *      {@link PacketScribe.EntityServerScriptLogWriteDetails}
  *  @property {PacketType} AdjustAvatarSorting - <code>80</code>
  *  @property {PacketType} OctreeFileReplacement - <code>81</code>
  *  @property {PacketType} CollisionEventChanges - <code>82</code>
@@ -343,7 +373,9 @@ const enum PacketTypeValue {
  *      acknowledge the receipt of a BulkAvatarTraits message.<br />
  *      <em>Reliable.</em><br />
  *      {@link PacketScribe.BulkAvatarTraitsAckDetails}
- *  @property {PacketType} StopInjector - <code>103</code>
+ *  @property {PacketType} StopInjector - <code>103</code> - The user client sends this to the audio mixer when an audio
+ *      injector is stopped, so that the audio mixer stops playing the injector's stream.<br />
+ *      {@link PacketScribe.StopInjectorDetails}
  *  @property {PacketType} AvatarZonePresence - <code>104</code>
  *  @property {PacketType} WebRTCSignaling - <code>104</code> - Used between the domain server and assignment clients to
  *      exchange user client WebRTC signaling messages relayed to assignment clients via the domain server.<br />
@@ -629,10 +661,14 @@ const PacketType = new class {
                 return this.#_AvatarMixerPacketVersion.ARKitBlendshapes;
             case this.AvatarData:
                 return this.#_AvatarMixerPacketVersion.ARKitBlendshapes;
+            case this.InjectAudio:
+                return this.#_AudioVersion.StopInjectors;
             case this.MixedAudio:
                 return this.#_AudioVersion.StopInjectors;
             case this.MicrophoneAudioNoEcho:
                 return this.#_AudioVersion.StopInjectors;
+            case this.MicrophoneAudioWithEcho:
+                return this.#_AudioVersion.StopInjectors;
             case this.BulkAvatarData:
                 return this.#_AvatarMixerPacketVersion.ARKitBlendshapes;
             case this.SilentAudioFrame:
@@ -663,12 +699,18 @@ const PacketType = new class {
                 return this.#_DomainConnectRequestVersion.SocketTypes;
             case this.AudioEnvironment:
                 return DEFAULT_VERSION;
+            case this.EntityEditNack:
+                return DEFAULT_VERSION;
             case this.EntityData:
                 return this.#_EntityVersion.LAST_PACKET_TYPE;
             case this.EntityQuery:
                 return this.#_EntityQueryPacketVersion.ConicalFrustums;
+            case this.EntityAdd:
+                return this.#_EntityVersion.LAST_PACKET_TYPE;
             case this.EntityErase:
                 return DEFAULT_VERSION;
+            case this.EntityEdit:
+                return this.#_EntityVersion.LAST_PACKET_TYPE;
             case this.DomainServerConnectionToken:
                 return DEFAULT_VERSION;
             case this.DomainDisconnectRequest:
@@ -695,12 +737,22 @@ const PacketType = new class {
                 return DEFAULT_VERSION;
             case this.PerAvatarGainSet:
                 return DEFAULT_VERSION;
+            case this.EntityScriptGetStatus:
+                return DEFAULT_VERSION;
+            case this.EntityScriptGetStatusReply:
+                return DEFAULT_VERSION;
+            case this.ReloadEntityServerScript:
+                return DEFAULT_VERSION;
+            case this.EntityServerScriptLog:
+                return DEFAULT_VERSION;
             case this.EntityQueryInitialResultsComplete:
                 return this.#_EntityVersion.ParticleSpin;
             case this.BulkAvatarTraits:
                 return this.#_AvatarMixerPacketVersion.AvatarTraitsAck;
             case this.BulkAvatarTraitsAck:
                 return this.#_AvatarMixerPacketVersion.AvatarTraitsAck;
+            case this.StopInjector:
+                return this.#_AudioVersion.StopInjectors;
 
                 // WebRTC TODO: Add other packets.
 
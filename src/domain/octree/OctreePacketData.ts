@@ -0,0 +1,362 @@
+//
+//  OctreePacketData.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../networking/udt/UDT";
+import AACube from "../shared/AACube";
+import type { color } from "../shared/Color";
+import "../shared/DataViewExtensions";
+import GLMHelpers from "../shared/GLMHelpers";
+import type { quat } from "../shared/Quat";
+import Uuid from "../shared/Uuid";
+import type { vec3 } from "../shared/Vec3";
+
+
+/*@devdoc
+ *  The <code>OctreePacketData</code> class accumulates octree data to be written into a packet. A value is appended only if
+ *  it fits in the space remaining; if it doesn't fit then nothing is appended.
+ *  <p>Unlike the C++, compression isn't supported.</p>
+ *  <p>C++: <code>class OctreePacketData</code></p>
+ *  @class OctreePacketData
+ *  @param {number} targetSize - The maximum number of bytes that can be appended.
+ */
+class OctreePacketData {
+    // C++  class OctreePacketData
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    #_data: DataView;
+    #_bytesInUse = 0;
+    #_textEncoder = new TextEncoder();
+
+
+    constructor(targetSize: number) {
+        // C++  OctreePacketData(bool enableCompression = false, int maxFinalizedSize = MAX_OCTREE_PACKET_DATA_SIZE)
+        this.#_data = new DataView(new ArrayBuffer(targetSize));
+    }
+
+
+    /*@devdoc
+     *  Gets the number of bytes that have been appended.
+     *  @returns {number} The number of bytes that have been appended.
+     */
+    getUncompressedSize(): number {
+        // C++  int getUncompressedSize()
+        return this.#_bytesInUse;
+    }
+
+    /*@devdoc
+     *  Gets the number of bytes that can still be appended.
+     *  @returns {number} The number of bytes that can still be appended.
+     */
+    getBytesAvailable(): number {
+        // C++  int getBytesAvailable()
+        return this.#_data.byteLength - this.#_bytesInUse;
+    }
+
+    /*@devdoc
+     *  Gets the data that have been appended.
+     *  @returns {Uint8Array} The data that have been appended.
+     */
+    getFinalizedData(): Uint8Array {
+        // C++  const unsigned char* getFinalizedData()
+        return new Uint8Array(this.#_data.buffer, 0, this.#_bytesInUse);
+    }
+
+    /*@devdoc
+     *  Appends raw bytes.
+     *  @param {Uint8Array} data - The bytes to append.
+     *  @returns {boolean} <code>true</code> if the bytes were appended, <code>false</code> if they didn't fit.
+     */
+    appendRawData(data: Uint8Array): boolean {
+        // C++  bool appendRawData(const unsigned char* data, int length)
+        if (data.length > this.getBytesAvailable()) {
+            return false;
+        }
+        new Uint8Array(this.#_data.buffer).set(data, this.#_bytesInUse);
+        this.#_bytesInUse += data.length;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a boolean value as a single byte.
+     *  @param {boolean} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendBoolean(value: boolean): boolean {
+        // C++  bool appendValue(bool value)
+        return this.appendUint8(value ? 1 : 0);
+    }
+
+    /*@devdoc
+     *  Appends an unsigned 8-bit integer value.
+     *  @param {number} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUint8(value: number): boolean {
+        // C++  bool appendValue(uint8_t value)
+        if (this.getBytesAvailable() < 1) {
+            return false;
+        }
+        this.#_data.setUint8(this.#_bytesInUse, value);
+        this.#_bytesInUse += 1;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an unsigned 16-bit integer value.
+     *  @param {number} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUint16(value: number): boolean {
+        // C++  bool appendValue(uint16_t value)
+        if (this.getBytesAvailable() < 2) {
+            return false;
+        }
+        this.#_data.setUint16(this.#_bytesInUse, value, UDT.LITTLE_ENDIAN);
+        this.#_bytesInUse += 2;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an unsigned 32-bit integer value.
+     *  @param {number} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUint32(value: number): boolean {
+        // C++  bool appendValue(uint32_t value)
+        if (this.getBytesAvailable() < 4) {
+            return false;
+        }
+        this.#_data.setUint32(this.#_bytesInUse, value, UDT.LITTLE_ENDIAN);
+        this.#_bytesInUse += 4;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an unsigned 64-bit integer value.
+     *  @param {bigint} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUint64(value: bigint): boolean {
+        // C++  bool appendValue(quint64 value)
+        if (this.getBytesAvailable() < 8) {
+            return false;
+        }
+        this.#_data.setBigUint64(this.#_bytesInUse, value, UDT.LITTLE_ENDIAN);
+        this.#_bytesInUse += 8;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a 32-bit floating point value.
+     *  @param {number} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendFloat(value: number): boolean {
+        // C++  bool appendValue(float value)
+        if (this.getBytesAvailable() < 4) {
+            return false;
+        }
+        this.#_data.setFloat32(this.#_bytesInUse, value, UDT.LITTLE_ENDIAN);
+        this.#_bytesInUse += 4;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a vector value as three 32-bit floating point values.
+     *  @param {vec3} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendVec3(value: vec3): boolean {
+        // C++  bool appendValue(const glm::vec3& value)
+        if (this.getBytesAvailable() < 12) {
+            return false;
+        }
+        this.#_data.setFloat32(this.#_bytesInUse, value.x, UDT.LITTLE_ENDIAN);
+        this.#_data.setFloat32(this.#_bytesInUse + 4, value.y, UDT.LITTLE_ENDIAN);
+        this.#_data.setFloat32(this.#_bytesInUse + 8, value.z, UDT.LITTLE_ENDIAN);
+        this.#_bytesInUse += 12;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a quaternion value, packed into 8 bytes.
+     *  @param {quat} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendQuat(value: quat): boolean {
+        // C++  bool appendValue(const glm::quat& value)
+        if (this.getBytesAvailable() < 8) {
+            return false;
+        }
+        GLMHelpers.packOrientationQuatToBytes(this.#_data, this.#_bytesInUse, value);
+        this.#_bytesInUse += 8;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a color value as three unsigned 8-bit integer values.
+     *  @param {color} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendColor(value: color): boolean {
+        // C++  bool appendValue(const u8vec3& color)
+        if (this.getBytesAvailable() < 3) {
+            return false;
+        }
+        this.#_data.setUint8(this.#_bytesInUse, value.red);
+        this.#_data.setUint8(this.#_bytesInUse + 1, value.green);
+        this.#_data.setUint8(this.#_bytesInUse + 2, value.blue);
+        this.#_bytesInUse += 3;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a string value as a 16-bit length followed by the UTF-8 bytes.
+     *  @param {string} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendString(value: string): boolean {
+        // C++  bool appendValue(const QString& string)
+        const bytes = this.#_textEncoder.encode(value);
+        return this.appendByteArray(bytes);
+    }
+
+    /*@devdoc
+     *  Appends a byte array value as a 16-bit length followed by the bytes.
+     *  @param {Uint8Array} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendByteArray(value: Uint8Array): boolean {
+        // C++  bool appendValue(const QByteArray& bytes)
+        if (this.getBytesAvailable() < 2 + value.length) {
+            return false;
+        }
+        this.appendUint16(value.length);
+        this.appendRawData(value);
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends a UUID value as a 16-bit length followed by the 16 bytes of the UUID. A <code>null</code> or
+     *  <code>Uuid.NULL</code> value is appended as just a <code>0</code> length.
+     *  @param {Uuid|null} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUuid(value: Uuid | null): boolean {
+        // C++  bool appendValue(const QUuid& uuid)
+        if (value === null || value.isNull()) {
+            return this.appendUint16(0);
+        }
+        if (this.getBytesAvailable() < 2 + Uuid.NUM_BYTES_RFC4122_UUID) {
+            return false;
+        }
+        this.appendUint16(Uuid.NUM_BYTES_RFC4122_UUID);
+        this.#_data.setBigUint128(this.#_bytesInUse, value.value(), UDT.BIG_ENDIAN);
+        this.#_bytesInUse += Uuid.NUM_BYTES_RFC4122_UUID;
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an axis-aligned cube value as its corner followed by its scale.
+     *  @param {AACube} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendAACube(value: AACube): boolean {
+        // C++  bool appendValue(const AACube& aaCube)
+        if (this.getBytesAvailable() < 16) {
+            return false;
+        }
+        this.appendVec3(value.corner);
+        this.appendFloat(value.scale);
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an array of UUIDs as a 16-bit count followed by the 16 bytes of each UUID.
+     *  @param {Uuid[]} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendUuidVector(value: Uuid[]): boolean {
+        // C++  bool appendValue(const QVector<QUuid>& value)
+        if (this.getBytesAvailable() < 2 + value.length * Uuid.NUM_BYTES_RFC4122_UUID) {
+            return false;
+        }
+        this.appendUint16(value.length);
+        for (const uuid of value) {
+            this.#_data.setBigUint128(this.#_bytesInUse, uuid.value(), UDT.BIG_ENDIAN);
+            this.#_bytesInUse += Uuid.NUM_BYTES_RFC4122_UUID;
+        }
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an array of booleans as a 16-bit count followed by the values packed into bits, least significant bit first.
+     *  @param {boolean[]} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendBooleanVector(value: boolean[]): boolean {
+        // C++  bool appendValue(const QVector<bool>& value)
+        const numBytes = Math.ceil(value.length / 8);
+        if (this.getBytesAvailable() < 2 + numBytes) {
+            return false;
+        }
+        this.appendUint16(value.length);
+        const bytes = new Uint8Array(numBytes);
+        for (let i = 0; i < value.length; i++) {
+            if (value[i]) {
+                const byte = Math.floor(i / 8);
+                bytes[byte] = (bytes[byte] ?? 0) | 1 << i % 8;
+            }
+        }
+        this.appendRawData(bytes);
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an array of quaternions as a 16-bit count followed by each quaternion packed into 8 bytes.
+     *  @param {quat[]} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendQuatVector(value: quat[]): boolean {
+        // C++  bool appendValue(const QVector<glm::quat>& value)
+        if (this.getBytesAvailable() < 2 + value.length * 8) {
+            return false;
+        }
+        this.appendUint16(value.length);
+        for (const q of value) {
+            this.appendQuat(q);
+        }
+        return true;
+    }
+
+    /*@devdoc
+     *  Appends an array of vectors as a 16-bit count followed by each vector's three 32-bit floating point values.
+     *  @param {vec3[]} value - The value to append.
+     *  @returns {boolean} <code>true</code> if the value was appended, <code>false</code> if it didn't fit.
+     */
+    appendVec3Vector(value: vec3[]): boolean {
+        // C++  bool appendValue(const QVector<glm::vec3>& value)
+        if (this.getBytesAvailable() < 2 + value.length * 12) {
+            return false;
+        }
+        this.appendUint16(value.length);
+        for (const v of value) {
+            this.appendVec3(v);
+        }
+        return true;
+    }
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+}
+
+export default OctreePacketData;
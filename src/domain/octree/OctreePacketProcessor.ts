@@ -11,6 +11,7 @@
 
 import PacketScribe from "../networking/packets/PacketScribe";
 import PacketType from "../networking/udt/PacketHeaders";
+import UDT from "../networking/udt/UDT";
 import ContextManager from "../shared/ContextManager";
 import NLPacket from "../networking/NLPacket";
 import Node from "../networking/Node";
@@ -19,6 +20,7 @@ import PacketReceiver from "../networking/PacketReceiver";
 import ReceivedMessage from "../networking/ReceivedMessage";
 import assert from "../shared/assert";
 import SignalEmitter, { Signal } from "../shared/SignalEmitter";
+import SafeLanding from "./SafeLanding";
 
 
 /*@devdoc
@@ -28,6 +30,8 @@ import SignalEmitter, { Signal } from "../shared/SignalEmitter";
  *  @class OctreePacketProcessor
  *  @property {string} contextItemType="OctreePacketProcessor" - The type name for use with the {@link ContextManager}.
  *  @property {Signal} entityData - Triggered when an entity data packet is received.
+ *  @property {Signal} entityErased - Triggered when an entity erase packet is received.
+ *  @property {Signal} octreeStats - Triggered when an octree stats packet is received.
  *
  *  @param {number} contextID - The {@link ContextManager} context ID.
  */
@@ -44,10 +48,10 @@ class OctreePacketProcessor {
     #_packetReceiver;
 
     #_entityData = new SignalEmitter();
+    #_entityErased = new SignalEmitter();
+    #_octreeStats = new SignalEmitter();
 
-    #_haveWarnedOctreeStats = false;
-    #_haveWarnedEntityErase = false;
-    #_haveWarnedEntityQueryInitialResultsComplete = false;
+    #_safeLanding = new SafeLanding();
 
 
     constructor(contextID: number) {
@@ -82,6 +86,62 @@ class OctreePacketProcessor {
         return this.#_entityData.signal();
     }
 
+    /*@devdoc
+     *  Triggered when an entity erase packet is received.
+     *  @callback OctreePacketProcessor.entityErased
+     *  @param {PacketScribe.EntityEraseDetails} entityErase - The IDs of the entities that have been deleted.
+     *  @returns {Signal}
+     */
+    get entityErased(): Signal {
+        return this.#_entityErased.signal();
+    }
+
+    /*@devdoc
+     *  Triggered when an octree stats packet is received.
+     *  @callback OctreePacketProcessor.octreeStats
+     *  @param {PacketScribe.OctreeStatsDetails} octreeStats - The octree stats.
+     *  @returns {Signal}
+     */
+    get octreeStats(): Signal {
+        return this.#_octreeStats.signal();
+    }
+
+    /*@devdoc
+     *  Starts tracking the receipt of the entity server's initial response to an octree query.
+     */
+    startSafeLanding(): void {
+        // C++  void OctreePacketProcessor::startSafeLanding()
+        this.#_safeLanding.startTracking();
+    }
+
+    /*@devdoc
+     *  Stops tracking the receipt of the entity server's initial response to an octree query.
+     */
+    stopSafeLanding(): void {
+        // C++  void OctreePacketProcessor::stopSafeLanding()
+        this.#_safeLanding.stopTracking();
+    }
+
+    /*@devdoc
+     *  Gets whether the receipt of the entity server's initial response to an octree query is being tracked.
+     *  @returns {boolean} <code>true</code> if the initial response is being tracked, <code>false</code> if it isn't.
+     */
+    safeLandingIsActive(): boolean {
+        // C++  bool OctreePacketProcessor::safeLandingIsActive()
+        return this.#_safeLanding.isTracking();
+    }
+
+    /*@devdoc
+     *  Gets whether the entity server's initial response to an octree query has been fully received.
+     *  @returns {boolean} <code>true</code> if the initial response has been fully received or isn't being tracked,
+     *      <code>false</code> if it is being tracked and hasn't been fully received.
+     */
+    isLoadSequenceComplete(): boolean {
+        // C++  bool OctreePacketProcessor::isLoadSequenceComplete()
+        return this.#_safeLanding.isLoadSequenceComplete();
+    }
+
+
     // Listener
     #processPacket = (message: ReceivedMessage, sendingNode: Node | null): void => {
         // C++ void OctreePacketProcessor::processPacket(QSharedPointer<ReceivedMessage> message, SharedNodePointer sendingNode)
@@ -93,12 +153,10 @@ class OctreePacketProcessor {
         const octreePacketType = messageLocal.getType();
 
         if (octreePacketType === PacketType.OctreeStats) {
-            if (!this.#_haveWarnedOctreeStats) {
-                console.warn("OctreePacketProcessor: OctreeStats packet not processed.");
-                this.#_haveWarnedOctreeStats = true;
-            }
-
-            // WEBRTC TODO: Address further C++ code - process OctreeStats packet.
+            // C++  int OctreeProcessor::parseOctreeStats(QSharedPointer<ReceivedMessage> message,
+            //          SharedNodePointer sourceNode)
+            const octreeStatsDetails = PacketScribe.OctreeStats.read(messageLocal.getMessage());
+            this.#_octreeStats.emit(octreeStatsDetails);
 
             // The stats message is always 222 bytes long.
             const STATS_MESSAGE_LENGTH = 222;
@@ -121,24 +179,24 @@ class OctreePacketProcessor {
 
         switch (packetType) {
             case PacketType.EntityData: {
+                // The sequence number follows the flags byte.
+                const sequenceNumber = messageLocal.getMessage().getUint16(1, UDT.LITTLE_ENDIAN);
+                this.#_safeLanding.noteReceivedSequenceNumber(sequenceNumber);
+
                 const entityDataDetails = PacketScribe.EntityData.read(messageLocal.getMessage());
                 this.#_entityData.emit(entityDataDetails);
                 break;
             }
-            case PacketType.EntityErase:
-                if (!this.#_haveWarnedEntityErase) {
-                    console.warn("OctreePacketProcessor: EntityErase packet not processed.");
-                    this.#_haveWarnedEntityErase = true;
-                }
-                // WEBRTC TODO: Address further C++ code.
+            case PacketType.EntityErase: {
+                const entityEraseDetails = PacketScribe.EntityErase.read(messageLocal.getMessage());
+                this.#_entityErased.emit(entityEraseDetails);
                 break;
-            case PacketType.EntityQueryInitialResultsComplete:
-                if (!this.#_haveWarnedEntityQueryInitialResultsComplete) {
-                    console.warn("OctreePacketProcessor: EntityQueryInitialResultsComplete packet not processed.");
-                    this.#_haveWarnedEntityQueryInitialResultsComplete = true;
-                }
-                // WEBRTC TODO: Address further C++ code.
+            }
+            case PacketType.EntityQueryInitialResultsComplete: {
+                const initialResultsDetails = PacketScribe.EntityQueryInitialResultsComplete.read(messageLocal.getMessage());
+                this.#_safeLanding.finishSequence(0, initialResultsDetails.exclusiveSequenceNumber);
                 break;
+            }
             default:
                 console.error("ERROR - Unexpected packet type in OctreePacketProcessor.processPacket() :", packetType);
         }
@@ -0,0 +1,121 @@
+//
+//  SafeLanding.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+
+/*@devdoc
+ *  The <code>SafeLanding</code> class tracks the receipt of the {@link PacketType(1)|EntityData} packets that make up the
+ *  entity server's initial response to an octree query, so that it can be determined when the initial load of entities is
+ *  complete.
+ *  <p>C++: <code>class SafeLanding : public QObject</code></p>
+ *  @class SafeLanding
+ */
+class SafeLanding {
+    // C++  class SafeLanding : public QObject
+
+    static readonly #INVALID_SEQUENCE = -1;
+    static readonly #SEQUENCE_MODULO = 0x10000;  // Sequence numbers are 16-bit values.
+
+
+    #_trackingEntities = false;
+    #_initialStart = SafeLanding.#INVALID_SEQUENCE;
+    #_initialEnd = SafeLanding.#INVALID_SEQUENCE;
+    #_sequenceNumbers: Set<number> = new Set();
+
+
+    /*@devdoc
+     *  Starts tracking the receipt of the initial entity data packets, discarding any previous tracking.
+     */
+    startTracking(): void {
+        // C++  void SafeLanding::startTracking(QSharedPointer<EntityTreeRenderer> entityTreeRenderer)
+        this.#_trackingEntities = true;
+        this.#_initialStart = SafeLanding.#INVALID_SEQUENCE;
+        this.#_initialEnd = SafeLanding.#INVALID_SEQUENCE;
+        this.#_sequenceNumbers.clear();
+
+        // WEBRTC TODO: Address further C++ code - track entities' render readiness.
+    }
+
+    /*@devdoc
+     *  Stops tracking the receipt of the initial entity data packets.
+     */
+    stopTracking(): void {
+        // C++  void SafeLanding::stopTracking()
+        this.#_trackingEntities = false;
+        this.#_sequenceNumbers.clear();
+    }
+
+    /*@devdoc
+     *  Gets whether the receipt of the initial entity data packets is being tracked.
+     *  @returns {boolean} <code>true</code> if the initial entity data packets are being tracked, <code>false</code> if they
+     *      aren't.
+     */
+    isTracking(): boolean {
+        // C++  bool isTracking()
+        return this.#_trackingEntities;
+    }
+
+    /*@devdoc
+     *  Sets the range of sequence numbers of the entity data packets that make up the initial load.
+     *  @param {number} first - The sequence number of the first packet.
+     *  @param {number} last - The sequence number following that of the last packet.
+     */
+    finishSequence(first: number, last: number): void {
+        // C++  void SafeLanding::finishSequence(int first, int last)
+        if (this.#_trackingEntities) {
+            this.#_initialStart = first;
+            this.#_initialEnd = last;
+        }
+    }
+
+    /*@devdoc
+     *  Notes the receipt of an entity data packet.
+     *  @param {number} sequenceNumber - The sequence number of the packet.
+     */
+    noteReceivedSequenceNumber(sequenceNumber: number): void {
+        // C++  void SafeLanding::noteReceivedsequenceNumber(int sequenceNumber)
+        if (this.#_trackingEntities) {
+            this.#_sequenceNumbers.add(sequenceNumber);
+        }
+    }
+
+    /*@devdoc
+     *  Gets whether the initial load of entities is complete. When it is first detected as complete, tracking is stopped.
+     *  @returns {boolean} <code>true</code> if the initial load is complete or isn't being tracked, <code>false</code> if
+     *      the initial load is being tracked and isn't yet complete.
+     */
+    isLoadSequenceComplete(): boolean {
+        // C++  bool SafeLanding::isLoadSequenceComplete()
+        if (this.#_trackingEntities && this.#isSequenceNumbersComplete()) {
+            this.stopTracking();
+        }
+        return !this.#_trackingEntities;
+    }
+
+
+    #isSequenceNumbersComplete(): boolean {
+        // C++  bool SafeLanding::isSequenceNumbersComplete()
+        if (this.#_initialStart === SafeLanding.#INVALID_SEQUENCE) {
+            return false;
+        }
+
+        const sequenceSize = (this.#_initialEnd - this.#_initialStart + SafeLanding.#SEQUENCE_MODULO)
+            % SafeLanding.#SEQUENCE_MODULO;
+        for (let i = 0; i < sequenceSize; i++) {
+            if (!this.#_sequenceNumbers.has((this.#_initialStart + i) % SafeLanding.#SEQUENCE_MODULO)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+}
+
+export default SafeLanding;
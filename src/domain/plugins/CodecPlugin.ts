@@ -0,0 +1,139 @@
+//
+//  CodecPlugin.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+
+/*@devdoc
+ *  Called with audio data that an {@link Encoder} has encoded.
+ *  @callback Encoder~EncodedCallback
+ *  @param {Uint8Array|null} encodedBuffer - The encoded audio data for one network frame. <code>null</code> if the frame
+ *      couldn't be encoded, e.g., because the encoder has failed.
+ */
+type EncodedCallback = (encodedBuffer: Uint8Array | null) => void;
+
+/*@devdoc
+ *  Called with audio data that a {@link Decoder} has decoded.
+ *  @callback Decoder~DecodedCallback
+ *  @param {Int16Array} decodedBuffer - The decoded PCM audio data for one network frame, interleaved if stereo.
+ */
+type DecodedCallback = (decodedBuffer: Int16Array) => void;
+
+
+/*@devdoc
+ *  An <code>Encoder</code> encodes PCM audio data for sending to the audio mixer.
+ *  <p>Encoding may be asynchronous: the encoded data are delivered to the {@link Encoder~EncodedCallback} provided when the
+ *  encoder was created, one network frame for each call to <code>encode</code>, in the order of the calls. Frames that are
+ *  being encoded when the encoder is released aren't delivered.</p>
+ *  <p>C++: <code>class Encoder</code></p>
+ *  @typedef {object} Encoder
+ *  @property {Encoder~encode} encode - Encodes a network frame of PCM audio data.
+ */
+/*@devdoc
+ *  Encodes a network frame of PCM audio data.
+ *  @callback Encoder~encode
+ *  @param {Int16Array} decodedBuffer - The PCM audio data, interleaved if stereo.
+ */
+type Encoder = {
+    // C++  class Encoder
+    encode: (decodedBuffer: Int16Array) => void
+};
+
+/*@devdoc
+ *  A <code>Decoder</code> decodes audio data received from the audio mixer into PCM audio data.
+ *  <p>Decoding may be asynchronous: the decoded data are delivered to the {@link Decoder~DecodedCallback} provided when the
+ *  decoder was created, one network frame for each call to <code>decode</code> or <code>lostFrame</code>, in the order of
+ *  the calls.</p>
+ *  <p>C++: <code>class Decoder</code></p>
+ *  @typedef {object} Decoder
+ *  @property {Decoder~decode} decode - Decodes a network frame of audio data.
+ *  @property {Decoder~lostFrame} lostFrame - Generates a network frame of audio data in place of a frame that was lost.
+ */
+/*@devdoc
+ *  Decodes a network frame of audio data.
+ *  @callback Decoder~decode
+ *  @param {Uint8Array} encodedBuffer - The encoded audio data.
+ */
+/*@devdoc
+ *  Generates a network frame of audio data in place of a frame that was lost.
+ *  @callback Decoder~lostFrame
+ */
+type Decoder = {
+    // C++  class Decoder
+    decode: (encodedBuffer: Uint8Array) => void,
+    lostFrame: () => void
+};
+
+/*@devdoc
+ *  A <code>CodecPlugin</code> provides the encoders and decoders for an audio codec that may be negotiated with the audio
+ *  mixer.
+ *  <p>C++: <code>class CodecPlugin : public Plugin</code></p>
+ *  @typedef {object} CodecPlugin
+ *  @property {CodecPlugin~getName} getName - Gets the name of the codec, as used in audio format negotiation.
+ *  @property {CodecPlugin~ready} ready - Waits until whether the codec is supported by the browser is known.
+ *  @property {CodecPlugin~isSupported} isSupported - Gets whether the codec is supported by the browser.
+ *  @property {CodecPlugin~createEncoder} createEncoder - Creates an encoder.
+ *  @property {CodecPlugin~createDecoder} createDecoder - Creates a decoder.
+ *  @property {CodecPlugin~releaseEncoder} releaseEncoder - Releases an encoder's resources.
+ *  @property {CodecPlugin~releaseDecoder} releaseDecoder - Releases a decoder's resources.
+ */
+/*@devdoc
+ *  Gets the name of the codec, as used in audio format negotiation.
+ *  @callback CodecPlugin~getName
+ *  @returns {string} The name of the codec, e.g., <code>"opus"</code>.
+ */
+/*@devdoc
+ *  Waits until whether the codec is supported by the browser is known.
+ *  @callback CodecPlugin~ready
+ *  @returns {Promise<void>} A promise that resolves once {@link CodecPlugin~isSupported} reports the codec's support.
+ */
+/*@devdoc
+ *  Gets whether the codec is supported by the browser.
+ *  @callback CodecPlugin~isSupported
+ *  @returns {boolean} <code>true</code> if the codec can be used, <code>false</code> if it can't.
+ */
+/*@devdoc
+ *  Creates an encoder.
+ *  @callback CodecPlugin~createEncoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Encoder~EncodedCallback} callback - The function to call with the encoded audio data.
+ *  @returns {Encoder} The encoder.
+ */
+/*@devdoc
+ *  Creates a decoder.
+ *  @callback CodecPlugin~createDecoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Decoder~DecodedCallback} callback - The function to call with the decoded audio data.
+ *  @returns {Decoder} The decoder.
+ */
+/*@devdoc
+ *  Releases an encoder's resources.
+ *  @callback CodecPlugin~releaseEncoder
+ *  @param {Encoder} encoder - The encoder.
+ */
+/*@devdoc
+ *  Releases a decoder's resources.
+ *  @callback CodecPlugin~releaseDecoder
+ *  @param {Decoder} decoder - The decoder.
+ */
+type CodecPlugin = {
+    // C++  class CodecPlugin : public Plugin
+    getName: () => string,
+    ready: () => Promise<void>,
+    isSupported: () => boolean,
+    createEncoder: (sampleRate: number, numChannels: number, callback: EncodedCallback) => Encoder,
+    createDecoder: (sampleRate: number, numChannels: number, callback: DecodedCallback) => Decoder,
+    releaseEncoder: (encoder: Encoder) => void,
+    releaseDecoder: (decoder: Decoder) => void
+};
+
+
+export type { CodecPlugin as default, Encoder, Decoder, EncodedCallback, DecodedCallback };
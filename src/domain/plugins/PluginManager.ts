@@ -0,0 +1,65 @@
+//
+//  PluginManager.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import CodecPlugin from "./CodecPlugin";
+import OpusCodec from "./opus-codec/OpusCodec";
+import ZLibCodec from "./pcm-codec/ZLibCodec";
+
+
+/*@devdoc
+ *  The <code>PluginManager</code> namespace provides the SDK's plugins. The plugins are created the first time they're
+ *  requested or initialized and are shared by all contexts.
+ *  <p>C++: <code>class PluginManager : public QObject, public Dependency</code></p>
+ *  @namespace PluginManager
+ */
+const PluginManager = new class {
+    // C++  class PluginManager : public QObject, public Dependency
+
+    #_codecPlugins: CodecPlugin[] | null = null;
+    #_codecPluginsReady: Promise<void> | null = null;
+
+
+    /*@devdoc
+     *  Gets the audio codec plugins, in order of preference. A plugin may not be supported by the browser.
+     *  @function PluginManager.getCodecPlugins
+     *  @returns {CodecPlugin[]} The audio codec plugins.
+     */
+    getCodecPlugins(): CodecPlugin[] {
+        // C++  const CodecPluginList& getCodecPlugins()
+        if (this.#_codecPlugins === null) {
+            this.#_codecPlugins = [new OpusCodec(), new ZLibCodec()];
+        }
+        return this.#_codecPlugins;
+    }
+
+    /*@devdoc
+     *  Creates the audio codec plugins if they haven't already been created and waits until their browser support is known.
+     *  @function PluginManager.initCodecPlugins
+     *  @returns {Promise<void>} A promise that resolves once all the codec plugins report whether they're supported.
+     */
+    initCodecPlugins(): Promise<void> {
+        // C++  N/A
+        if (this.#_codecPluginsReady === null) {
+            this.#_codecPluginsReady = this.#waitForCodecPlugins();
+        }
+        return this.#_codecPluginsReady;
+    }
+
+
+    async #waitForCodecPlugins(): Promise<void> {
+        await Promise.all(this.getCodecPlugins().map((plugin) => {
+            return plugin.ready();
+        }));
+    }
+
+}();
+
+export default PluginManager;
@@ -0,0 +1,167 @@
+//
+//  OpusCodec.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../../audio/AudioConstants";
+import { DecodedCallback, Decoder, EncodedCallback, Encoder } from "../CodecPlugin";
+import OpusDecoder from "./OpusDecoder";
+import OpusEncoder from "./OpusEncoder";
+import OpusWasmDecoder from "./OpusWasmDecoder";
+import OpusWasmEncoder from "./OpusWasmEncoder";
+
+
+/*@devdoc
+ *  The <code>OpusCodec</code> class provides Opus encoders and decoders, using the browser's WebCodecs API if it supports
+ *  Opus, otherwise a WebAssembly build of libopus.
+ *  <p>Whether the browser supports WebCodecs Opus encoding and decoding at the audio mixer's sample rate is checked
+ *  asynchronously when the codec is constructed. If it doesn't, the libopus WebAssembly module is loaded instead. Use
+ *  {@link OpusCodec.ready|ready} to wait for this to complete. If neither can be used, the codec isn't offered to the audio
+ *  mixer and zlib or PCM is negotiated instead.</p>
+ *  <p>The encoders and decoders are driven from the main thread. With WebCodecs, the Opus encoding and decoding itself is done
+ *  asynchronously by the browser; with WebAssembly, it is done synchronously on the main thread.</p>
+ *  <p>C++: <code>class AthenaOpusCodec : public CodecPlugin</code></p>
+ *  @class OpusCodec
+ *  @implements CodecPlugin
+ */
+class OpusCodec {
+    // C++  class AthenaOpusCodec : public CodecPlugin
+
+    static readonly #NAME = "opus";
+
+
+    #_isSupported = false;
+    #_isWebCodecs = false;
+    #_supportChecked: Promise<void>;
+
+
+    constructor() {
+        // C++  AthenaOpusCodec()
+        this.#_supportChecked = this.#checkSupport();
+    }
+
+
+    /*@devdoc
+     *  Gets the name of the codec.
+     *  @returns {string} <code>"opus"</code>.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    getName(): string {
+        // C++  const QString getName()
+        return OpusCodec.#NAME;
+    }
+
+    /*@devdoc
+     *  Waits until the browser's support for the codec has been checked.
+     *  @returns {Promise<void>} A promise that resolves once the support check has completed.
+     */
+    ready(): Promise<void> {
+        // C++  N/A
+        return this.#_supportChecked;
+    }
+
+    /*@devdoc
+     *  Gets whether the codec is supported by the browser.
+     *  @returns {boolean} <code>true</code> if the browser's WebCodecs API supports Opus or the libopus WebAssembly module has
+     *      been loaded, <code>false</code> if neither or support hasn't been confirmed yet.
+     */
+    isSupported(): boolean {
+        // C++  bool isSupported()
+        return this.#_isSupported;
+    }
+
+    /*@devdoc
+     *  Creates an Opus encoder.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+     *  @param {Encoder~EncodedCallback} callback - The function to call with each encoded Opus frame.
+     *  @returns {Encoder} The encoder.
+     */
+    createEncoder(sampleRate: number, numChannels: number, callback: EncodedCallback): Encoder {
+        // C++  Encoder* createEncoder(int sampleRate, int numChannels)
+        return this.#_isWebCodecs
+            ? new OpusEncoder(sampleRate, numChannels, callback)
+            : new OpusWasmEncoder(sampleRate, numChannels, callback);
+    }
+
+    /*@devdoc
+     *  Creates an Opus decoder.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+     *  @param {Decoder~DecodedCallback} callback - The function to call with the PCM audio data decoded from each Opus frame.
+     *  @returns {Decoder} The decoder.
+     */
+    createDecoder(sampleRate: number, numChannels: number, callback: DecodedCallback): Decoder {
+        // C++  Decoder* createDecoder(int sampleRate, int numChannels)
+        return this.#_isWebCodecs
+            ? new OpusDecoder(sampleRate, numChannels, callback)
+            : new OpusWasmDecoder(sampleRate, numChannels, callback);
+    }
+
+    /*@devdoc
+     *  Releases an Opus encoder's resources.
+     *  @param {Encoder} encoder - The encoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    releaseEncoder(encoder: Encoder): void {
+        // C++  void releaseEncoder(Encoder* encoder)
+        (encoder as OpusEncoder | OpusWasmEncoder).close();
+    }
+
+    /*@devdoc
+     *  Releases an Opus decoder's resources.
+     *  @param {Decoder} decoder - The decoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    releaseDecoder(decoder: Decoder): void {
+        // C++  void releaseDecoder(Decoder* decoder)
+        (decoder as OpusDecoder | OpusWasmDecoder).close();
+    }
+
+
+    async #checkSupport(): Promise<void> {
+        // C++  bool isSupported()
+        //      The C++ Opus library is always available; the browser's WebCodecs support must be checked and the WebAssembly
+        //      library loaded if necessary.
+        this.#_isWebCodecs = await this.#checkWebCodecsSupport();
+        if (this.#_isWebCodecs) {
+            this.#_isSupported = true;
+            return;
+        }
+
+        try {
+            const libopus = await import(/* webpackChunkName: "libopus" */ "libopus-wasm");
+            await libopus.loadLibopus();
+            this.#_isSupported = true;
+        } catch (e) {
+            console.warn("[audioclient] Opus codec not supported:", (e as Error).message);
+        }
+    }
+
+    // eslint-disable-next-line class-methods-use-this
+    async #checkWebCodecsSupport(): Promise<boolean> {
+        if (typeof AudioEncoder === "undefined" || typeof AudioDecoder === "undefined"
+                || typeof AudioData === "undefined" || typeof EncodedAudioChunk === "undefined") {
+            return false;
+        }
+
+        try {
+            const [encoderSupport, decoderSupport] = await Promise.all([
+                AudioEncoder.isConfigSupported(OpusEncoder.getConfig(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO)),
+                AudioDecoder.isConfigSupported(OpusDecoder.getConfig(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO))
+            ]);
+            return encoderSupport.supported === true && decoderSupport.supported === true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+}
+
+export default OpusCodec;
@@ -0,0 +1,249 @@
+//
+//  OpusDecoder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../../audio/AudioConstants";
+import { DecodedCallback } from "../CodecPlugin";
+
+
+// The PCM audio data for a frame, null if the frame is still being decoded. The timestamp is that of the frame's
+// EncodedAudioChunk, or -1 if the frame wasn't decoded.
+type PendingOutput = {
+    timestamp: number,
+    decodedBuffer: Int16Array | null
+};
+
+/*@devdoc
+ *  The <code>OpusDecoder</code> class decodes Opus frames into PCM audio data, using the browser's WebCodecs
+ *  <code>AudioDecoder</code>. If the browser decodes at a different sample rate to that requested, the decoded audio data are
+ *  resampled to the requested sample rate.
+ *  <p>Decoding is asynchronous but the PCM audio data for decoded and lost frames are delivered in the order that
+ *  {@link OpusDecoder.decode|decode} and {@link OpusDecoder.lostFrame|lostFrame} are called.</p>
+ *  <p>If the <code>AudioDecoder</code> fails, the frames it was decoding are replaced with silence and, if it had decoded
+ *  audio, it is replaced with a new one. Frames that the <code>AudioDecoder</code> doesn't output are also replaced with
+ *  silence: when a later frame is output, or when too many frames are waiting to be delivered.</p>
+ *  <p>C++: <code>class AthenaOpusDecoder : public Decoder</code></p>
+ *  @class OpusDecoder
+ *  @implements Decoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Decoder~DecodedCallback} callback - The function to call with the PCM audio data decoded from each Opus frame.
+ */
+class OpusDecoder {
+    // C++  class AthenaOpusDecoder : public Decoder
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    static readonly #MICROSECONDS_PER_SECOND = 1000000;
+    static readonly #MAX_INT16 = 32767;
+    static readonly #MIN_INT16 = -32768;
+    // The maximum number of frames to hold for delivery: 0.5s of audio.
+    static readonly #MAX_PENDING_FRAMES = 50;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
+    /*@devdoc
+     *  Gets the WebCodecs configuration used for decoding.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels.
+     *  @returns {AudioDecoderConfig} The WebCodecs decoder configuration.
+     */
+    static getConfig(sampleRate: number, numChannels: number): AudioDecoderConfig {
+        return {
+            codec: "opus",
+            sampleRate,
+            numberOfChannels: numChannels
+        };
+    }
+
+
+    #_sampleRate: number;
+    #_numChannels: number;
+    #_callback: DecodedCallback;
+
+    #_decoder: AudioDecoder;
+    #_timestamp = 0;  // Microseconds.
+    #_isClosed = false;
+    #_hasOutput = false;  // Whether the current WebCodecs decoder has decoded a frame.
+
+    #_pendingOutput: PendingOutput[] = [];  // The PCM audio data to deliver, in order.
+
+
+    constructor(sampleRate: number, numChannels: number, callback: DecodedCallback) {
+        // C++  AthenaOpusDecoder(int sampleRate, int numChannels)
+        this.#_sampleRate = sampleRate;
+        this.#_numChannels = numChannels;
+        this.#_callback = callback;
+        this.#_decoder = this.#createDecoder();
+    }
+
+
+    /*@devdoc
+     *  Decodes an Opus frame. The PCM audio data are delivered to the callback provided in the constructor.
+     *  @param {Uint8Array} encodedBuffer - The Opus frame.
+     */
+    decode(encodedBuffer: Uint8Array): void {
+        // C++  void decode(const QByteArray& encodedBuffer, QByteArray& decodedBuffer)
+        if (this.#_isClosed) {
+            return;
+        }
+        if (this.#_decoder.state !== "configured") {
+            // The WebCodecs decoder has failed and couldn't be replaced.
+            this.#pushSilentFrame();
+            return;
+        }
+
+        const timestamp = this.#_timestamp;
+        const chunk = new EncodedAudioChunk({
+            type: "key",
+            timestamp,
+            data: encodedBuffer
+        });
+        this.#_timestamp += AudioConstants.NETWORK_FRAME_SECS * OpusDecoder.#MICROSECONDS_PER_SECOND;
+
+        this.#_pendingOutput.push({ timestamp, decodedBuffer: null });
+        this.#limitPendingOutput();
+        this.#_decoder.decode(chunk);
+    }
+
+    /*@devdoc
+     *  Generates a network frame of silence in place of an Opus frame that was lost.
+     */
+    lostFrame(): void {
+        // C++  void lostFrame(QByteArray& decodedBuffer)
+
+        // WEBRTC TODO: WebCodecs doesn't provide Opus packet loss concealment so silence is used instead.
+        this.#pushSilentFrame();
+    }
+
+    /*@devdoc
+     *  Closes the decoder, releasing its resources. Frames that are still being decoded are discarded.
+     */
+    close(): void {
+        // C++  ~AthenaOpusDecoder()
+        this.#_isClosed = true;
+        if (this.#_decoder.state !== "closed") {
+            this.#_decoder.close();
+        }
+        this.#_pendingOutput = [];
+    }
+
+
+    #createDecoder(): AudioDecoder {
+        const decoder = new AudioDecoder({
+            output: this.#output,
+            error: this.#error
+        });
+        decoder.configure(OpusDecoder.getConfig(this.#_sampleRate, this.#_numChannels));
+        this.#_hasOutput = false;
+        return decoder;
+    }
+
+    #silentFrame(): Int16Array {
+        const numFrames = Math.round(this.#_sampleRate * AudioConstants.NETWORK_FRAME_SECS);
+        return new Int16Array(numFrames * this.#_numChannels);
+    }
+
+    #pushSilentFrame(): void {
+        this.#_pendingOutput.push({ timestamp: -1, decodedBuffer: this.#silentFrame() });
+        this.#limitPendingOutput();
+        this.#deliverOutput();
+    }
+
+    #limitPendingOutput(): void {
+        // Give up on the oldest frames still being decoded if too many frames are waiting to be delivered, so that a frame
+        // that the WebCodecs decoder never outputs doesn't hold up subsequent audio.
+        while (this.#_pendingOutput.length > OpusDecoder.#MAX_PENDING_FRAMES) {
+            const pendingOutput = this.#_pendingOutput[0] as PendingOutput;
+            pendingOutput.decodedBuffer ??= this.#silentFrame();
+            this.#deliverOutput();
+        }
+    }
+
+    #deliverOutput(): void {
+        while (this.#_pendingOutput.length > 0 && this.#_pendingOutput[0]?.decodedBuffer) {
+            this.#_callback(this.#_pendingOutput.shift()?.decodedBuffer as Int16Array);
+        }
+    }
+
+
+    #output = (audioData: AudioData): void => {
+        const numSourceFrames = audioData.numberOfFrames;
+        const numSourceChannels = audioData.numberOfChannels;
+        const channels: Float32Array[] = [];
+        for (let channel = 0; channel < numSourceChannels; channel++) {
+            const samples = new Float32Array(numSourceFrames);
+            audioData.copyTo(samples, { planeIndex: channel, format: "f32-planar" });
+            channels.push(samples);
+        }
+        const sourceSampleRate = audioData.sampleRate;
+        const timestamp = audioData.timestamp;
+        audioData.close();
+
+        // Interleave, resampling using linear interpolation if necessary. A mono source is copied to all channels.
+        const ratio = sourceSampleRate / this.#_sampleRate;
+        const numFrames = Math.round(numSourceFrames / ratio);
+        const decodedBuffer = new Int16Array(numFrames * this.#_numChannels);
+        for (let frame = 0; frame < numFrames; frame++) {
+            const position = frame * ratio;
+            const index = Math.floor(position);
+            const nextIndex = Math.min(index + 1, numSourceFrames - 1);
+            const fraction = position - index;
+            for (let channel = 0; channel < this.#_numChannels; channel++) {
+                const samples = channels[Math.min(channel, numSourceChannels - 1)] as Float32Array;
+                const value = (samples[index] as number) * (1 - fraction) + (samples[nextIndex] as number) * fraction;
+                decodedBuffer[frame * this.#_numChannels + channel] = Math.max(OpusDecoder.#MIN_INT16,
+                    Math.min(Math.round(value * OpusDecoder.#MAX_INT16), OpusDecoder.#MAX_INT16));
+            }
+        }
+
+        // WebCodecs outputs frames in decode order, so frames before this one that are still being decoded have been dropped.
+        // Replace them with silence.
+        let index = this.#_pendingOutput.findIndex((pendingOutput) => {
+            return pendingOutput.decodedBuffer === null && pendingOutput.timestamp === timestamp;
+        });
+        if (index === -1) {
+            index = this.#_pendingOutput.findIndex((pendingOutput) => {
+                return pendingOutput.decodedBuffer === null;
+            });
+        }
+        if (index === -1) {
+            return;
+        }
+        for (let i = 0; i < index; i++) {
+            const pendingOutput = this.#_pendingOutput[i] as PendingOutput;
+            pendingOutput.decodedBuffer ??= this.#silentFrame();
+        }
+        (this.#_pendingOutput[index] as PendingOutput).decodedBuffer = decodedBuffer;
+        this.#_hasOutput = true;
+        this.#deliverOutput();
+    };
+
+    #error = (error: DOMException): void => {
+        console.error("[audioclient] Opus decoder error:", error.message);
+        if (this.#_isClosed) {
+            return;
+        }
+
+        // The frames that were being decoded have been discarded. Replace them with silence.
+        for (const pendingOutput of this.#_pendingOutput) {
+            pendingOutput.decodedBuffer ??= this.#silentFrame();
+        }
+        this.#deliverOutput();
+
+        // WebCodecs closes the decoder after an error. Replace it so that audio continues to be received, unless the
+        // replacement would likely fail in the same way because the decoder failed before decoding anything.
+        if (this.#_hasOutput) {
+            this.#_decoder = this.#createDecoder();
+        }
+    };
+
+}
+
+export default OpusDecoder;
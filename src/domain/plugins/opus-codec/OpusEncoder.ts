@@ -0,0 +1,206 @@
+//
+//  OpusEncoder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../../audio/AudioConstants";
+import UDT from "../../networking/udt/UDT";
+import { EncodedCallback } from "../CodecPlugin";
+
+
+/*@devdoc
+ *  The <code>OpusEncoder</code> class encodes PCM audio data into Opus frames, using the browser's WebCodecs
+ *  <code>AudioEncoder</code>. Each network frame of PCM audio data is encoded into a single Opus frame.
+ *  <p>If the <code>AudioEncoder</code> fails after having encoded audio, it is replaced with a new one. The frames it was
+ *  encoding when it failed, and frames encoded after it failed if it couldn't be replaced, are delivered to the callback as
+ *  <code>null</code>.</p>
+ *  <p>C++: <code>class AthenaOpusEncoder : public Encoder</code></p>
+ *  @class OpusEncoder
+ *  @implements Encoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Encoder~EncodedCallback} callback - The function to call with each encoded Opus frame.
+ */
+class OpusEncoder {
+    // C++  class AthenaOpusEncoder : public Encoder
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    static readonly #DEFAULT_BITRATE = 128000;
+    static readonly #DEFAULT_COMPLEXITY = 10;
+    static readonly #MICROSECONDS_PER_SECOND = 1000000;
+    // libopus's lookahead, in samples at 48kHz, used if the browser doesn't report the encoder's.
+    static readonly #DEFAULT_PRE_SKIP = 312;
+    static readonly #OPUS_HEAD_MAGIC = "OpusHead";
+    static readonly #OPUS_HEAD_PRE_SKIP_OFFSET = 10;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
+    /*@devdoc
+     *  Gets the WebCodecs configuration used for encoding.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels.
+     *  @returns {AudioEncoderConfig} The WebCodecs encoder configuration.
+     */
+    static getConfig(sampleRate: number, numChannels: number): AudioEncoderConfig {
+        return {
+            codec: "opus",
+            sampleRate,
+            numberOfChannels: numChannels,
+            bitrate: OpusEncoder.#DEFAULT_BITRATE,
+            opus: {
+                frameDuration: AudioConstants.NETWORK_FRAME_SECS * OpusEncoder.#MICROSECONDS_PER_SECOND,
+                complexity: OpusEncoder.#DEFAULT_COMPLEXITY
+            }
+        };
+    }
+
+
+    #_sampleRate: number;
+    #_numChannels: number;
+    #_callback: EncodedCallback;
+
+    #_encoder: AudioEncoder;
+    #_timestamp = 0;  // Microseconds.
+    #_isClosed = false;
+    #_hasOutput = false;  // Whether the current WebCodecs encoder has encoded a frame.
+    #_numEncoding = 0;  // The number of frames that the current WebCodecs encoder is encoding.
+    #_preSkip = OpusEncoder.#DEFAULT_PRE_SKIP;
+
+
+    constructor(sampleRate: number, numChannels: number, callback: EncodedCallback) {
+        // C++  AthenaOpusEncoder(int sampleRate, int numChannels)
+        this.#_sampleRate = sampleRate;
+        this.#_numChannels = numChannels;
+        this.#_callback = callback;
+        this.#_encoder = this.#createEncoder();
+    }
+
+
+    /*@devdoc
+     *  Encodes a network frame of PCM audio data. The Opus frame is delivered to the callback provided in the constructor.
+     *  @param {Int16Array} decodedBuffer - The PCM audio data, interleaved if stereo.
+     */
+    encode(decodedBuffer: Int16Array): void {
+        // C++  void encode(const QByteArray& decodedBuffer, QByteArray& encodedBuffer)
+        if (this.#_isClosed) {
+            return;
+        }
+        if (this.#_encoder.state !== "configured") {
+            // The WebCodecs encoder has failed and couldn't be replaced.
+            this.#_callback(null);
+            return;
+        }
+
+        const numberOfFrames = decodedBuffer.length / this.#_numChannels;
+        const audioData = new AudioData({
+            format: "s16",
+            sampleRate: this.#_sampleRate,
+            numberOfFrames,
+            numberOfChannels: this.#_numChannels,
+            timestamp: this.#_timestamp,
+            data: decodedBuffer
+        });
+        this.#_timestamp += numberOfFrames * OpusEncoder.#MICROSECONDS_PER_SECOND / this.#_sampleRate;
+
+        this.#_numEncoding += 1;
+        this.#_encoder.encode(audioData);
+        audioData.close();
+    }
+
+    /*@devdoc
+     *  Gets the number of samples at the start of the decoded audio that should be discarded, i.e., the encoder's lookahead.
+     *  This is the value that the browser reports in its Opus decoder configuration once a frame has been encoded, otherwise
+     *  libopus's usual value.
+     *  @returns {number} The number of samples to discard, at 48kHz.
+     */
+    getPreSkip(): number {
+        // C++  N/A
+        return this.#_preSkip;
+    }
+
+    /*@devdoc
+     *  Completes encoding the frames that are being encoded, delivering them to the callback.
+     *  @returns {Promise<void>}
+     */
+    async flush(): Promise<void> {
+        // C++  N/A
+        if (this.#_encoder.state === "configured") {
+            await this.#_encoder.flush();
+        }
+    }
+
+    /*@devdoc
+     *  Closes the encoder, releasing its resources. Frames that are still being encoded are discarded.
+     */
+    close(): void {
+        // C++  ~AthenaOpusEncoder()
+        this.#_isClosed = true;
+        if (this.#_encoder.state !== "closed") {
+            this.#_encoder.close();
+        }
+    }
+
+
+    #createEncoder(): AudioEncoder {
+        const encoder = new AudioEncoder({
+            output: this.#output,
+            error: this.#error
+        });
+        encoder.configure(OpusEncoder.getConfig(this.#_sampleRate, this.#_numChannels));
+        this.#_hasOutput = false;
+        this.#_numEncoding = 0;
+        return encoder;
+    }
+
+
+    #output = (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void => {
+        // The decoder configuration's description, if provided, is an OpusHead (RFC 7845 section 5.1).
+        const description = metadata?.decoderConfig?.description;
+        if (description !== undefined) {
+            const data = ArrayBuffer.isView(description)
+                ? new DataView(description.buffer, description.byteOffset, description.byteLength)
+                : new DataView(description);
+            const magic = String.fromCharCode(...new Uint8Array(data.buffer, data.byteOffset,
+                Math.min(OpusEncoder.#OPUS_HEAD_MAGIC.length, data.byteLength)));
+            if (magic === OpusEncoder.#OPUS_HEAD_MAGIC && data.byteLength >= OpusEncoder.#OPUS_HEAD_PRE_SKIP_OFFSET + 2) {
+                this.#_preSkip = data.getUint16(OpusEncoder.#OPUS_HEAD_PRE_SKIP_OFFSET, UDT.LITTLE_ENDIAN);
+            }
+        }
+
+        const encodedBuffer = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(encodedBuffer);
+        this.#_hasOutput = true;
+        this.#_numEncoding = Math.max(this.#_numEncoding - 1, 0);
+        this.#_callback(encodedBuffer);
+    };
+
+    #error = (error: DOMException): void => {
+        console.error("[audioclient] Opus encoder error:", error.message);
+        if (this.#_isClosed) {
+            return;
+        }
+
+        // The frames that were being encoded have been discarded.
+        const numDiscarded = this.#_numEncoding;
+
+        // WebCodecs closes the encoder after an error. Replace it so that audio continues to be sent, unless the replacement
+        // would likely fail in the same way because the encoder failed before encoding anything.
+        if (this.#_hasOutput) {
+            this.#_encoder = this.#createEncoder();
+        }
+
+        this.#_numEncoding = 0;
+        for (let i = 0; i < numDiscarded; i++) {
+            this.#_callback(null);
+        }
+    };
+
+}
+
+export default OpusEncoder;
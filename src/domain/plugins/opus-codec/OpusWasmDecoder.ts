@@ -0,0 +1,146 @@
+//
+//  OpusWasmDecoder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import type { ChannelCount, OpusDecoderHandle, SampleRate } from "libopus-wasm";
+
+import AudioConstants from "../../audio/AudioConstants";
+import { DecodedCallback } from "../CodecPlugin";
+
+
+/*@devdoc
+ *  The <code>OpusWasmDecoder</code> class decodes Opus frames into PCM audio data, using a WebAssembly build of libopus. It is
+ *  used in browsers that don't support WebCodecs Opus decoding.
+ *  <p>The WebAssembly decoder is created asynchronously. Frames decoded before it has been created are decoded once it has
+ *  been; thereafter, frames are decoded and delivered immediately. Either way, the PCM audio data for decoded and lost frames
+ *  are delivered in the order that {@link OpusWasmDecoder.decode|decode} and {@link OpusWasmDecoder.lostFrame|lostFrame} are
+ *  called.</p>
+ *  <p>Lost frames are generated using libopus's packet loss concealment. Frames that can't be decoded, and all frames if the
+ *  decoder couldn't be created, are replaced with silence.</p>
+ *  <p>C++: <code>class AthenaOpusDecoder : public Decoder</code></p>
+ *  @class OpusWasmDecoder
+ *  @implements Decoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Decoder~DecodedCallback} callback - The function to call with the PCM audio data decoded from each Opus frame.
+ */
+class OpusWasmDecoder {
+    // C++  class AthenaOpusDecoder : public Decoder
+
+    #_sampleRate: number;
+    #_numChannels: number;
+    #_callback: DecodedCallback;
+
+    #_decoder: OpusDecoderHandle | null = null;
+    #_pendingInput: (Uint8Array | null)[] = [];  // Frames to decode once the decoder has been created. null for a lost frame.
+    #_hasFailed = false;
+    #_isClosed = false;
+
+
+    constructor(sampleRate: number, numChannels: number, callback: DecodedCallback) {
+        // C++  AthenaOpusDecoder(int sampleRate, int numChannels)
+        this.#_sampleRate = sampleRate;
+        this.#_numChannels = numChannels;
+        this.#_callback = callback;
+        void this.#createDecoder();
+    }
+
+
+    /*@devdoc
+     *  Decodes an Opus frame. The PCM audio data are delivered to the callback provided in the constructor.
+     *  @param {Uint8Array} encodedBuffer - The Opus frame.
+     */
+    decode(encodedBuffer: Uint8Array): void {
+        // C++  void decode(const QByteArray& encodedBuffer, QByteArray& decodedBuffer)
+        this.#decodeOrQueue(encodedBuffer.slice());
+    }
+
+    /*@devdoc
+     *  Generates a network frame of PCM audio data in place of an Opus frame that was lost.
+     */
+    lostFrame(): void {
+        // C++  void lostFrame(QByteArray& decodedBuffer)
+        this.#decodeOrQueue(null);
+    }
+
+    /*@devdoc
+     *  Closes the decoder, releasing its resources. Frames that are waiting for the decoder to be created are discarded.
+     */
+    close(): void {
+        // C++  ~AthenaOpusDecoder()
+        this.#_isClosed = true;
+        this.#_pendingInput = [];
+        if (this.#_decoder !== null) {
+            this.#_decoder.free();
+            this.#_decoder = null;
+        }
+    }
+
+
+    async #createDecoder(): Promise<void> {
+        let decoder: OpusDecoderHandle | null = null;
+        try {
+            const libopus = await import(/* webpackChunkName: "libopus" */ "libopus-wasm");
+            decoder = await libopus.createDecoder({
+                sampleRate: this.#_sampleRate as SampleRate,
+                channels: this.#_numChannels as ChannelCount
+            });
+        } catch (e) {
+            console.error("[audioclient] Couldn't create Opus decoder:", (e as Error).message);
+            this.#_hasFailed = true;
+            this.#flushPendingInput();
+            return;
+        }
+
+        if (this.#_isClosed) {
+            decoder.free();
+            return;
+        }
+
+        this.#_decoder = decoder;
+        this.#flushPendingInput();
+    }
+
+    #decodeOrQueue(encodedBuffer: Uint8Array | null): void {
+        if (this.#_isClosed) {
+            return;
+        }
+        if (this.#_decoder === null && !this.#_hasFailed) {
+            this.#_pendingInput.push(encodedBuffer);
+            return;
+        }
+        this.#_callback(this.#decodeFrame(encodedBuffer));
+    }
+
+    #flushPendingInput(): void {
+        const pendingInput = this.#_pendingInput;
+        this.#_pendingInput = [];
+        for (const encodedBuffer of pendingInput) {
+            this.#_callback(this.#decodeFrame(encodedBuffer));
+        }
+    }
+
+    #decodeFrame(encodedBuffer: Uint8Array | null): Int16Array {
+        const numFrames = Math.round(this.#_sampleRate * AudioConstants.NETWORK_FRAME_SECS);
+        if (this.#_decoder !== null) {
+            try {
+                return encodedBuffer
+                    ? this.#_decoder.decode(encodedBuffer)
+                    : this.#_decoder.decodePacketLoss(numFrames);
+            } catch (e) {
+                console.error("[audioclient] Opus decoder error:", (e as Error).message);
+            }
+        }
+        return new Int16Array(numFrames * this.#_numChannels);
+    }
+
+}
+
+export default OpusWasmDecoder;
@@ -0,0 +1,171 @@
+//
+//  OpusWasmEncoder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import type { ChannelCount, OpusEncoderHandle, SampleRate } from "libopus-wasm";
+
+import AudioConstants from "../../audio/AudioConstants";
+import { EncodedCallback } from "../CodecPlugin";
+
+
+/*@devdoc
+ *  The <code>OpusWasmEncoder</code> class encodes PCM audio data into Opus frames, using a WebAssembly build of libopus. It is
+ *  used in browsers that don't support WebCodecs Opus encoding. Each network frame of PCM audio data is encoded into a
+ *  single Opus frame.
+ *  <p>The WebAssembly encoder is created asynchronously. Frames encoded before it has been created are encoded once it has
+ *  been; thereafter, frames are encoded and delivered immediately. Frames that can't be encoded, and all frames if the encoder
+ *  couldn't be created, are delivered to the callback as <code>null</code>.</p>
+ *  <p>C++: <code>class AthenaOpusEncoder : public Encoder</code></p>
+ *  @class OpusWasmEncoder
+ *  @implements Encoder
+ *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+ *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+ *  @param {Encoder~EncodedCallback} callback - The function to call with each encoded Opus frame.
+ */
+class OpusWasmEncoder {
+    // C++  class AthenaOpusEncoder : public Encoder
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    static readonly #DEFAULT_BITRATE = 128000;
+    static readonly #DEFAULT_COMPLEXITY = 10;
+    static readonly #OPUS_APPLICATION_AUDIO = 2049;
+    static readonly #PRE_SKIP_SAMPLE_RATE = 48000;
+    // libopus's lookahead, in samples at 48kHz, used until the encoder has been created.
+    static readonly #DEFAULT_PRE_SKIP = 312;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+
+    #_sampleRate: number;
+    #_numChannels: number;
+    #_callback: EncodedCallback;
+
+    #_encoder: OpusEncoderHandle | null = null;
+    #_encoderCreated: Promise<void>;
+    #_pendingInput: Int16Array[] = [];  // Frames to encode once the encoder has been created.
+    #_hasFailed = false;
+    #_isClosed = false;
+    #_preSkip = OpusWasmEncoder.#DEFAULT_PRE_SKIP;
+
+
+    constructor(sampleRate: number, numChannels: number, callback: EncodedCallback) {
+        // C++  AthenaOpusEncoder(int sampleRate, int numChannels)
+        this.#_sampleRate = sampleRate;
+        this.#_numChannels = numChannels;
+        this.#_callback = callback;
+        this.#_encoderCreated = this.#createEncoder();
+    }
+
+
+    /*@devdoc
+     *  Encodes a network frame of PCM audio data. The Opus frame is delivered to the callback provided in the constructor.
+     *  @param {Int16Array} decodedBuffer - The PCM audio data, interleaved if stereo.
+     */
+    encode(decodedBuffer: Int16Array): void {
+        // C++  void encode(const QByteArray& decodedBuffer, QByteArray& encodedBuffer)
+        if (this.#_isClosed) {
+            return;
+        }
+
+        if (this.#_hasFailed) {
+            this.#_callback(null);
+            return;
+        }
+
+        if (this.#_encoder === null) {
+            this.#_pendingInput.push(decodedBuffer.slice());
+            return;
+        }
+
+        this.#encodeFrame(this.#_encoder, decodedBuffer);
+    }
+
+    /*@devdoc
+     *  Gets the number of samples at the start of the decoded audio that should be discarded, i.e., the encoder's lookahead.
+     *  This is the value that libopus reports once the encoder has been created, otherwise libopus's usual value.
+     *  @returns {number} The number of samples to discard, at 48kHz.
+     */
+    getPreSkip(): number {
+        // C++  N/A
+        return this.#_preSkip;
+    }
+
+    /*@devdoc
+     *  Completes encoding the frames that are waiting for the encoder to be created, delivering them to the callback.
+     *  @returns {Promise<void>}
+     */
+    flush(): Promise<void> {
+        // C++  N/A
+        return this.#_encoderCreated;
+    }
+
+    /*@devdoc
+     *  Closes the encoder, releasing its resources. Frames that are waiting for the encoder to be created are discarded.
+     */
+    close(): void {
+        // C++  ~AthenaOpusEncoder()
+        this.#_isClosed = true;
+        this.#_pendingInput = [];
+        if (this.#_encoder !== null) {
+            this.#_encoder.free();
+            this.#_encoder = null;
+        }
+    }
+
+
+    async #createEncoder(): Promise<void> {
+        let encoder: OpusEncoderHandle | null = null;
+        try {
+            const libopus = await import(/* webpackChunkName: "libopus" */ "libopus-wasm");
+            encoder = await libopus.createEncoder({
+                sampleRate: this.#_sampleRate as SampleRate,
+                channels: this.#_numChannels as ChannelCount,
+                frameSize: Math.round(this.#_sampleRate * AudioConstants.NETWORK_FRAME_SECS),
+                application: OpusWasmEncoder.#OPUS_APPLICATION_AUDIO,
+                bitrate: OpusWasmEncoder.#DEFAULT_BITRATE,
+                complexity: OpusWasmEncoder.#DEFAULT_COMPLEXITY,
+                vbr: true
+            });
+        } catch (e) {
+            console.error("[audioclient] Couldn't create Opus encoder:", (e as Error).message);
+            this.#_hasFailed = true;
+            const numPending = this.#_pendingInput.length;
+            this.#_pendingInput = [];
+            for (let i = 0; i < numPending; i++) {
+                this.#_callback(null);
+            }
+            return;
+        }
+
+        if (this.#_isClosed) {
+            encoder.free();
+            return;
+        }
+
+        this.#_encoder = encoder;
+        this.#_preSkip = encoder.getLookahead() * OpusWasmEncoder.#PRE_SKIP_SAMPLE_RATE / this.#_sampleRate;
+        for (const decodedBuffer of this.#_pendingInput) {
+            this.#encodeFrame(encoder, decodedBuffer);
+        }
+        this.#_pendingInput = [];
+    }
+
+    #encodeFrame(encoder: OpusEncoderHandle, decodedBuffer: Int16Array): void {
+        let encodedBuffer: Uint8Array | null = null;
+        try {
+            encodedBuffer = encoder.encode(decodedBuffer);
+        } catch (e) {
+            console.error("[audioclient] Opus encoder error:", (e as Error).message);
+        }
+        this.#_callback(encodedBuffer);
+    }
+
+}
+
+export default OpusWasmEncoder;
@@ -0,0 +1,161 @@
+//
+//  ZLibCodec.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { deflate, inflate } from "pako";
+import AudioConstants from "../../audio/AudioConstants";
+import UDT from "../../networking/udt/UDT";
+import { DecodedCallback, Decoder, EncodedCallback, Encoder } from "../CodecPlugin";
+
+
+/*@devdoc
+ *  The <code>ZLibCodec</code> class provides lossless encoders and decoders that compress network frames of PCM audio data
+ *  using zlib. The compressed data are in Qt's <code>qCompress()</code> format: the uncompressed data length as a big-endian
+ *  <code>uint32</code> followed by the zlib stream.
+ *  <p>Encoding and decoding are synchronous.</p>
+ *  <p>C++: <code>class zLibCodec : public CodecPlugin, public Encoder, public Decoder</code></p>
+ *  @class ZLibCodec
+ *  @implements CodecPlugin
+ */
+class ZLibCodec {
+    // C++  class zLibCodec : public CodecPlugin, public Encoder, public Decoder
+
+    static readonly #NAME = "zlib";
+    static readonly #QCOMPRESS_HEADER_BYTES = 4;
+
+
+    static #compress(decodedBuffer: Int16Array): Uint8Array {
+        // C++  QByteArray qCompress(const QByteArray& data)
+        const uncompressedData = new Uint8Array(decodedBuffer.buffer, decodedBuffer.byteOffset, decodedBuffer.byteLength);
+        const compressedData = deflate(uncompressedData);
+
+        const encodedBuffer = new Uint8Array(ZLibCodec.#QCOMPRESS_HEADER_BYTES + compressedData.byteLength);
+        new DataView(encodedBuffer.buffer).setUint32(0, uncompressedData.byteLength, UDT.BIG_ENDIAN);
+        encodedBuffer.set(compressedData, ZLibCodec.#QCOMPRESS_HEADER_BYTES);
+        return encodedBuffer;
+    }
+
+    static #uncompress(encodedBuffer: Uint8Array): Int16Array | null {
+        // C++  QByteArray qUncompress(const QByteArray& data)
+        if (encodedBuffer.byteLength <= ZLibCodec.#QCOMPRESS_HEADER_BYTES) {
+            return null;
+        }
+
+        let uncompressedData: Uint8Array | null = null;
+        try {
+            uncompressedData = inflate(encodedBuffer.subarray(ZLibCodec.#QCOMPRESS_HEADER_BYTES));
+        } catch (err) {
+            console.error("[audioclient] Could not decompress zlib audio data:", err);
+            return null;
+        }
+
+        // The PCM samples are little-endian, as are the platforms that browsers run on.
+        const decodedBuffer = new Int16Array(Math.floor(uncompressedData.byteLength / 2));
+        new Uint8Array(decodedBuffer.buffer).set(uncompressedData.subarray(0, decodedBuffer.byteLength));
+        return decodedBuffer;
+    }
+
+
+    /*@devdoc
+     *  Gets the name of the codec.
+     *  @returns {string} <code>"zlib"</code>.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    getName(): string {
+        // C++  const QString getName()
+        return ZLibCodec.#NAME;
+    }
+
+    /*@devdoc
+     *  Waits until whether the codec is supported is known.
+     *  @returns {Promise<void>} A promise that resolves immediately &mdash; zlib is always supported.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    ready(): Promise<void> {
+        // C++  N/A
+        return Promise.resolve();
+    }
+
+    /*@devdoc
+     *  Gets whether the codec is supported by the browser.
+     *  @returns {boolean} <code>true</code> &mdash; zlib is always supported.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    isSupported(): boolean {
+        // C++  bool isSupported()
+        return true;
+    }
+
+    /*@devdoc
+     *  Creates a zlib encoder.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz. <em>Not used.</em>
+     *  @param {number} numChannels - The number of audio channels. <em>Not used.</em>
+     *  @param {Encoder~EncodedCallback} callback - The function to call with each compressed network frame.
+     *  @returns {Encoder} The encoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    createEncoder(...[/* sampleRate */, /* numChannels */, callback]: [number, number, EncodedCallback]): Encoder {
+        // C++  Encoder* createEncoder(int sampleRate, int numChannels)
+        return {
+            encode: (decodedBuffer: Int16Array) => {
+                // C++  void encode(const QByteArray& decodedBuffer, QByteArray& encodedBuffer)
+                callback(ZLibCodec.#compress(decodedBuffer));
+            }
+        };
+    }
+
+    /*@devdoc
+     *  Creates a zlib decoder.
+     *  @param {number} sampleRate - The sample rate of the PCM audio data, in Hz.
+     *  @param {number} numChannels - The number of audio channels. <code>2</code> for stereo.
+     *  @param {Decoder~DecodedCallback} callback - The function to call with each decompressed network frame. A network frame
+     *      that can't be decompressed is replaced by silence.
+     *  @returns {Decoder} The decoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    createDecoder(sampleRate: number, numChannels: number, callback: DecodedCallback): Decoder {
+        // C++  Decoder* createDecoder(int sampleRate, int numChannels)
+        const numSamples = Math.round(sampleRate * AudioConstants.NETWORK_FRAME_SECS) * numChannels;
+        return {
+            decode: (encodedBuffer: Uint8Array) => {
+                // C++  void decode(const QByteArray& encodedBuffer, QByteArray& decodedBuffer)
+                const decodedBuffer = ZLibCodec.#uncompress(encodedBuffer);
+                callback(decodedBuffer ?? new Int16Array(numSamples));
+            },
+            lostFrame: () => {
+                // C++  void lostFrame(QByteArray& decodedBuffer)
+                callback(new Int16Array(numSamples));
+            }
+        };
+    }
+
+    /*@devdoc
+     *  Releases a zlib encoder's resources.
+     *  @param {Encoder} encoder - The encoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    releaseEncoder(/* encoder: Encoder */): void {
+        // C++  void releaseEncoder(Encoder* encoder)
+        // Nothing to do.
+    }
+
+    /*@devdoc
+     *  Releases a zlib decoder's resources.
+     *  @param {Decoder} decoder - The decoder.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    releaseDecoder(/* decoder: Decoder */): void {
+        // C++  void releaseDecoder(Decoder* decoder)
+        // Nothing to do.
+    }
+
+}
+
+export default ZLibCodec;
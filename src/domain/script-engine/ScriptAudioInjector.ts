@@ -0,0 +1,89 @@
+//
+//  ScriptAudioInjector.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioInjector, { AudioInjectorOptions } from "../audio/AudioInjector";
+import { Signal } from "../shared/SignalEmitter";
+
+
+/*@sdkdoc
+ *  The <code>ScriptAudioInjector</code> class provides facilities for controlling a sound being played in the domain.
+ *  <p>Create an object of this class by using the {@link AudioMixer|AudioMixer.playSound} method.</p>
+ *
+ *  @class ScriptAudioInjector
+ *  @hideconstructor
+ *
+ *  @property {boolean} isPlaying - <code>true</code> if the sound is playing or is being loaded in order to play,
+ *      <code>false</code> if it has finished playing or has been stopped.
+ *      <em>Read-only.</em>
+ *  @property {AudioInjectorOptions} options - The options that the sound is being played with.
+ *      <em>Read-only.</em>
+ *  @property {Signal<ScriptAudioInjector~finished>} finished - Triggered when the sound finishes playing or is stopped.
+ *      <em>Read-only.</em>
+ */
+// Don't document the constructor because it shouldn't be used in the SDK.
+class ScriptAudioInjector {
+    // C++  class ScriptAudioInjector : public QObject
+
+    #_injector: AudioInjector;
+
+
+    constructor(injector: AudioInjector) {
+        // C++  ScriptAudioInjector(const AudioInjectorPointer& injector)
+        this.#_injector = injector;
+    }
+
+
+    get isPlaying(): boolean {
+        // C++  bool isPlaying()
+        return this.#_injector.isPlaying();
+    }
+
+    get options(): AudioInjectorOptions {
+        // C++  AudioInjectorOptions getOptions()
+        return this.#_injector.getOptions();
+    }
+
+    /*@sdkdoc
+     *  Triggered when the sound finishes playing or is stopped.
+     *  @callback ScriptAudioInjector~finished
+     */
+    get finished(): Signal {
+        // C++  void finished()
+        return this.#_injector.finished;
+    }
+
+
+    /*@sdkdoc
+     *  Stops playing the sound.
+     */
+    stop(): void {
+        // C++  void stop()
+        this.#_injector.stop();
+    }
+
+    /*@sdkdoc
+     *  Changes the options that the sound is being played with.
+     *  <p>The <code>localOnly</code> option can't be changed once the sound has started playing.</p>
+     *  @param {AudioInjectorOptions} options - The options to change. Options not specified and options with invalid values
+     *      are unchanged.
+     */
+    setOptions(options: AudioInjectorOptions): void {
+        // C++  void setOptions(const AudioInjectorOptions& options)
+        if (typeof options !== "object" || options === null) {
+            console.error("Tried to set invalid ScriptAudioInjector options!");
+            return;
+        }
+        this.#_injector.setOptions(options);
+    }
+
+}
+
+export default ScriptAudioInjector;
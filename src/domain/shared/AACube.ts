@@ -42,6 +42,55 @@ class AACube {
     get scale(): number {
         return this.#_scale;
     }
+
+
+    /*@devdoc
+     *  Calculates the center of the cube.
+     *  @returns {vec3} The center of the cube.
+     */
+    calcCenter(): vec3 {
+        // C++  glm::vec3 AACube::calcCenter()
+        const halfScale = this.#_scale / 2;
+        return {
+            x: this.#_corner.x + halfScale,
+            y: this.#_corner.y + halfScale,
+            z: this.#_corner.z + halfScale
+        };
+    }
+
+    /*@devdoc
+     *  Checks whether the cube touches a sphere.
+     *  @param {vec3} center - The center of the sphere.
+     *  @param {number} radius - The radius of the sphere.
+     *  @returns {boolean} <code>true</code> if the cube touches the sphere, <code>false</code> if it doesn't.
+     */
+    touchesSphere(center: vec3, radius: number): boolean {
+        // C++  bool AACube::touchesSphere(const glm::vec3& center, float radius)
+        // Uses the distance from the sphere's center to the closest point in the cube.
+        const maximum = {
+            x: this.#_corner.x + this.#_scale,
+            y: this.#_corner.y + this.#_scale,
+            z: this.#_corner.z + this.#_scale
+        };
+        const dx = Math.max(this.#_corner.x - center.x, 0, center.x - maximum.x);
+        const dy = Math.max(this.#_corner.y - center.y, 0, center.y - maximum.y);
+        const dz = Math.max(this.#_corner.z - center.z, 0, center.z - maximum.z);
+        return dx * dx + dy * dy + dz * dz <= radius * radius;
+    }
+
+    /*@devdoc
+     *  Checks whether the cube touches an axis-aligned box.
+     *  @param {vec3} corner - The minimum axes values corner of the box.
+     *  @param {vec3} dimensions - The dimensions of the box.
+     *  @returns {boolean} <code>true</code> if the cube touches the box, <code>false</code> if it doesn't.
+     */
+    touchesAABox(corner: vec3, dimensions: vec3): boolean {
+        // C++  bool AACube::touches(const AABox& otherBox)
+        return this.#_corner.x <= corner.x + dimensions.x && corner.x <= this.#_corner.x + this.#_scale
+            && this.#_corner.y <= corner.y + dimensions.y && corner.y <= this.#_corner.y + this.#_scale
+            && this.#_corner.z <= corner.z + dimensions.z && corner.z <= this.#_corner.z + this.#_scale;
+    }
+
 }
 
 export default AACube;
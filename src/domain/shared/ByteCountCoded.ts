@@ -11,7 +11,7 @@
 
 
 /*@devdoc
- *  The <code>ByteCountCoded</code> class provides facilities to decode data.
+ *  The <code>ByteCountCoded</code> class provides facilities to encode and decode data.
  *  <p>C++: <code>template&lt;typename T&gt; class ByteCountCoded</code></p>
  *  @class ByteCountCoded
  *
@@ -118,6 +118,52 @@ class ByteCountCoded {
         return bytesConsumed;
     }
 
+    /*@devdoc
+     *  Encode a value.
+     *  @param {number} value - The value to encode. Must be a non-negative integer.
+     *  @returns {Uint8Array} The encoded data.
+     */
+    encode(value: number): Uint8Array {
+        // C++  template<typename T> inline QByteArray ByteCountCoded<T>::encode() const
+
+        /* The inverse of decode(): lead bits (one less 1 than the number of bytes, then a 0) followed by the value's bits,
+        * lowest value bit first, starting from the leftmost bit.
+        */
+
+        this.#_data = value;
+
+        let totalBits = 0;
+        let temp = value;
+        while (temp > 0) {
+            totalBits += 1;
+            temp = Math.floor(temp / 2);
+        }
+
+        const numberOfBytes = Math.floor(totalBits / (this.#BITS_IN_BYTE - 1)) + 1;
+        const output = new Uint8Array(numberOfBytes);
+
+        const leftMostBit = 128;
+        const setBit = (bitAt: number) => {
+            const bytePos = Math.floor(bitAt / this.#BITS_IN_BYTE);
+            const bitPos = bitAt - bytePos * this.#BITS_IN_BYTE;
+            output[bytePos] = (output[bytePos] ?? 0) | leftMostBit >> bitPos;
+        };
+
+        for (let bitAt = 0; bitAt < numberOfBytes - 1; bitAt++) {
+            setBit(bitAt);
+        }
+
+        temp = value;
+        for (let bitAt = numberOfBytes; temp > 0; bitAt++) {
+            if (temp % 2 === 1) {
+                setBit(bitAt);
+            }
+            temp = Math.floor(temp / 2);
+        }
+
+        return output;
+    }
+
     // WEBRTC TODO: Address further C++ code.
 }
 
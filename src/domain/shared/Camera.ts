@@ -24,15 +24,12 @@ type ConicalViewFrustum = {
 
 
 /*@devdoc
- *  The internal <code>Camera</code> class manages the client's camera view for the avatar mixer and entity server assignment
- *  client code to use.
+ *  The internal <code>Camera</code> class manages a client camera view for the avatar mixer and entity server assignment
+ *  client code to use. There may be multiple cameras in a context: these are managed by the {@link CameraManager}.
  *
  *  @class Camera
  *  @variation 0
  *
- *  @property {string} contextItemType="Camera" - The type name for use with the {@link ContextManager}.
- *      <p><em>Static. Read-only.</em></p>
- *
  *  @property {vec3} position - The position of the camera.
  *  @property {quat} orientation - The orientation of the camera.
  *  @property {number} fieldOfView - The vertical field of view, in radians.
@@ -71,10 +68,6 @@ class Camera {
     // operation and are unnecessarily complex for this SDK.
 
 
-    // WEBRTC TODO: Handle multiple cameras.
-
-    static readonly contextItemType = "Camera";
-
     static readonly MIN_FIELD_OF_VIEW = 0;
     static readonly MAX_FIELD_OF_VIEW = Math.PI;  // 180 degrees.
     static readonly MIN_ASPECT_RATIO = 0.1;
@@ -124,7 +117,7 @@ class Camera {
 
     // Derived values.
     #_conicalView: ConicalViewFrustum;  // Application::_conicalViews
-    #_lastQueriedView: ConicalViewFrustum;  // Application::_lastQueriedViews
+    #_lastQueriedView: ConicalViewFrustum | null;  // Application::_lastQueriedViews
 
 
     constructor() {
@@ -218,13 +211,24 @@ class Camera {
      */
     update(): void {
         // C++  void Application::update(float deltaTime)
-        this.#_hasViewChanged = !Camera.#isVerySimilar(this.#_conicalView, this.#_lastQueriedView);
+        this.#_hasViewChanged = this.#_lastQueriedView === null
+            || !Camera.#isVerySimilar(this.#_conicalView, this.#_lastQueriedView);
         if (this.#_hasViewChanged) {
             this.#_lastQueriedView = JSON.parse(JSON.stringify(this.#_conicalView)) as ConicalViewFrustum;
         }
 
     }
 
+    /*@devdoc
+     *  Discards the last queried view so that the view is reported as having changed at the next
+     *  {@link Camera(0).update|update} call. This is used when the set of cameras changes, because the set of views queried
+     *  then changes.
+     *  @method Camera(0).invalidateLastQueriedView
+     */
+    invalidateLastQueriedView(): void {
+        this.#_lastQueriedView = null;
+    }
+
 
     #calculateConicalHalfAngle(): number {
         const halfAngleDistance = Math.tan(this.#_fieldOfView / 2.0);  // Vertical frustum half distance.
@@ -0,0 +1,92 @@
+//
+//  CameraManager.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Camera, { ConicalViewFrustum } from "./Camera";
+
+
+/*@devdoc
+ *  The <code>CameraManager</code> class manages the client cameras in a context. The avatar mixer and entity server queries
+ *  cover the union of all the cameras' views.
+ *  <p>C++: N/A &mdash; Similar to <code>Application</code>'s <code>_conicalViews</code>, which includes the main view and the
+ *  secondary camera's view.</p>
+ *  @class CameraManager
+ *  @property {string} contextItemType="CameraManager" - The type name for use with the {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ *  @property {Camera[]} cameras - The cameras, in the order that they were added.
+ *      <p><em>Read-only.</em></p>
+ *  @property {ConicalViewFrustum[]} conicalViews - The conical views of all the cameras.
+ *      <p><em>Read-only.</em></p>
+ *  @property {boolean} hasViewChanged - <code>true</code> if any camera's view has changed significantly since the previous
+ *      camera {@link Camera(0).update|update} calls or the set of cameras has changed, <code>false</code> if none have.
+ *      <p><em>Read-only.</em></p>
+ */
+class CameraManager {
+    // C++  N/A
+
+    static readonly contextItemType = "CameraManager";
+
+
+    #_cameras: Camera[] = [];
+
+
+    get cameras(): Camera[] {
+        return [...this.#_cameras];
+    }
+
+    get conicalViews(): ConicalViewFrustum[] {
+        // C++  Application::_conicalViews
+        return this.#_cameras.map((camera) => {
+            return camera.conicalView;
+        });
+    }
+
+    get hasViewChanged(): boolean {
+        return this.#_cameras.some((camera) => {
+            return camera.hasViewChanged;
+        });
+    }
+
+
+    /*@devdoc
+     *  Creates and adds a new camera.
+     *  @returns {Camera} The new camera.
+     */
+    addCamera(): Camera {
+        const camera = new Camera();
+        // The new view should be queried.
+        camera.invalidateLastQueriedView();
+        this.#_cameras.push(camera);
+        return camera;
+    }
+
+    /*@devdoc
+     *  Removes a camera. The camera's view is no longer included in queries. The last camera can't be removed because queries
+     *  must include at least one view.
+     *  @param {Camera} camera - The camera to remove.
+     *  @returns {boolean} <code>true</code> if the camera was removed, <code>false</code> if it wasn't because it isn't
+     *      managed by the camera manager or it is the last camera.
+     */
+    removeCamera(camera: Camera): boolean {
+        const index = this.#_cameras.indexOf(camera);
+        if (index === -1 || this.#_cameras.length === 1) {
+            return false;
+        }
+        this.#_cameras.splice(index, 1);
+        // The remaining views should be queried without the removed view.
+        for (const remainingCamera of this.#_cameras) {
+            remainingCamera.invalidateLastQueriedView();
+        }
+        return true;
+    }
+
+}
+
+export default CameraManager;
@@ -11,8 +11,9 @@
 
 import UDT from "../networking/udt/UDT";
 import assert from "./assert";
-import { quat } from "./Quat";
-import { vec3 } from "./Vec3";
+import { mat4 } from "./Mat4";
+import Quat, { quat } from "./Quat";
+import Vec3, { vec3 } from "./Vec3";
 
 
 /*@devdoc
@@ -58,6 +59,29 @@ const GLMHelpers = new class {
         /* eslint-enable @typescript-eslint/no-magic-numbers */
     }
 
+    /*@devdoc
+     *  Writes a quaternion value to a packet, packing it into 8 bytes.
+     *  @function GLMHelpers.packOrientationQuatToBytes
+     *  @param {DataView} data - The packet data to write.
+     *  @param {number} dataPosition - The data position to write the value at.
+     *  @param {quat} quatInput - The quaternion value to write.
+     */
+    packOrientationQuatToBytes(data: DataView, dataPosition: number, quatInput: quat): void {
+        // C++  int packOrientationQuatToBytes(unsigned char* buffer, const glm::quat& quatInput)
+
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+        const quatNormalized = Quat.normalize(quatInput);
+        const QUAT_PART_CONVERSION_RATIO = this.#_UINT16_MAX / 2.0;
+
+        data.setUint16(dataPosition, Math.floor((quatNormalized.x + 1.0) * QUAT_PART_CONVERSION_RATIO), UDT.LITTLE_ENDIAN);
+        data.setUint16(dataPosition + 2, Math.floor((quatNormalized.y + 1.0) * QUAT_PART_CONVERSION_RATIO), UDT.LITTLE_ENDIAN);
+        data.setUint16(dataPosition + 4, Math.floor((quatNormalized.z + 1.0) * QUAT_PART_CONVERSION_RATIO), UDT.LITTLE_ENDIAN);
+        data.setUint16(dataPosition + 6, Math.floor((quatNormalized.w + 1.0) * QUAT_PART_CONVERSION_RATIO), UDT.LITTLE_ENDIAN);
+
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    }
+
     /*@devdoc
      *  Writes a quaternion value to a packet, packing it into 6 bytes.
      *  @function GLMHelpers.packOrientationQuatToSixBytes
@@ -337,6 +361,28 @@ const GLMHelpers = new class {
         return { x, y, z };
     }
 
+    /*@devdoc
+     *  Creates a transform matrix from a scale, rotation, and translation.
+     *  @function GLMHelpers.createMatFromScaleQuatAndPos
+     *  @param {vec3} scale - The scale.
+     *  @param {quat} rot - The rotation.
+     *  @param {vec3} trans - The translation.
+     *  @returns {mat4} The transform matrix.
+     */
+    // eslint-disable-next-line class-methods-use-this
+    createMatFromScaleQuatAndPos(scale: vec3, rot: quat, trans: vec3): mat4 {
+        // C++  glm::mat4 createMatFromScaleQuatAndPos(const glm::vec3& scale, const glm::quat& rot, const glm::vec3& trans)
+        const xAxis = Vec3.multiplyQbyV(rot, { x: scale.x, y: 0, z: 0 });
+        const yAxis = Vec3.multiplyQbyV(rot, { x: 0, y: scale.y, z: 0 });
+        const zAxis = Vec3.multiplyQbyV(rot, { x: 0, y: 0, z: scale.z });
+        return {
+            r0c0: xAxis.x, r1c0: xAxis.y, r2c0: xAxis.z, r3c0: 0,
+            r0c1: yAxis.x, r1c1: yAxis.y, r2c1: yAxis.z, r3c1: 0,
+            r0c2: zAxis.x, r1c2: zAxis.y, r2c2: zAxis.z, r3c2: 0,
+            r0c3: trans.x, r1c3: trans.y, r2c3: trans.z, r3c3: 1
+        };
+    }
+
     /*@devdoc
      *  Checks whether two numbers have very similar values.
      *  @function GLMHelpers.closeEnough
@@ -0,0 +1,25 @@
+//
+//  GizmoType.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@sdkdoc
+ *  The <code>GizmoType</code> namespace enumerates the types of gizmo that a {@link EntityType|Gizmo entity} can display.
+ *  @namespace GizmoType
+ *  @property {number} RING - <code>0</code> - A ring.
+ *  @property {number} ITEM_COUNT - <code>1</code> - The number of gizmo types.
+ */
+enum GizmoType {
+    // C++  enum class GizmoType
+    RING,
+
+    ITEM_COUNT
+}
+
+export default GizmoType;
@@ -0,0 +1,189 @@
+//
+//  Grab.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import UDT from "../networking/udt/UDT";
+import { quat } from "./Quat";
+import Uuid from "./Uuid";
+import { vec3 } from "./Vec3";
+
+import "./DataViewExtensions";
+
+
+type GrabData = {
+    grabID: Uuid,
+    ownerID: Uuid,
+    targetID: Uuid,
+    parentJointIndex: number,
+    hand: string,
+    positionalOffset: vec3,
+    rotationalOffset: quat
+};
+
+
+/*@devdoc
+ *  The <code>Grab</code> namespace packs and unpacks the data of an avatar grabbing an entity or avatar, as sent in
+ *  {@link AvatarTraits.TraitType|Grab} avatar traits.
+ *  <p>The data are in Qt's <code>QDataStream</code> format: big-endian, with strings in UTF-16 and <code>float</code>
+ *  values written as 64-bit doubles.</p>
+ *  <p>C++: <code>class Grab</code></p>
+ *  @namespace Grab
+ */
+const Grab = new class {
+    // C++  class Grab
+
+    /*@sdkdoc
+     *  An avatar grabbing an entity or avatar.
+     *  @typedef {object} GrabData
+     *  @property {Uuid} grabID - The ID of the grab.
+     *  @property {Uuid} ownerID - The session ID of the avatar doing the grabbing.
+     *  @property {Uuid} targetID - The ID of the entity or avatar being grabbed.
+     *  @property {number} parentJointIndex - The index of the grabbing avatar's joint that the target moves with.
+     *  @property {string} hand - The hand doing the grabbing: <code>"left"</code>, <code>"right"</code>, or
+     *      <code>"none"</code>.
+     *  @property {vec3} positionalOffset - The target's position relative to the joint.
+     *  @property {quat} rotationalOffset - The target's orientation relative to the joint.
+     */
+
+    readonly #_DATA_ENCODING_VERSION = 1;
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    readonly #_INT_SIZE = 4;
+    readonly #_UUID_SIZE = 16;
+    readonly #_DOUBLE_SIZE = 8;
+    readonly #_CHAR_SIZE = 2;
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+    readonly #_NULL_STRING_LENGTH = 0xffffffff;
+
+
+    /*@devdoc
+     *  Packs grab data into binary data.
+     *  @function Grab.toByteArray
+     *  @param {GrabData} grab - The grab data. The <code>grabID</code> isn't included in the binary data.
+     *  @returns {Uint8Array} The binary data.
+     */
+    toByteArray(grab: GrabData): Uint8Array {
+        // C++  QByteArray toByteArray()
+        const dataSize = 2 * this.#_INT_SIZE + 2 * this.#_UUID_SIZE + this.#_INT_SIZE + grab.hand.length * this.#_CHAR_SIZE
+            + 7 * this.#_DOUBLE_SIZE;  // eslint-disable-line @typescript-eslint/no-magic-numbers
+        const data = new DataView(new ArrayBuffer(dataSize));
+        let dataPosition = 0;
+
+        data.setInt32(dataPosition, this.#_DATA_ENCODING_VERSION);
+        dataPosition += this.#_INT_SIZE;
+
+        data.setBigUint128(dataPosition, grab.ownerID.value(), UDT.BIG_ENDIAN);
+        dataPosition += this.#_UUID_SIZE;
+        data.setBigUint128(dataPosition, grab.targetID.value(), UDT.BIG_ENDIAN);
+        dataPosition += this.#_UUID_SIZE;
+
+        data.setInt32(dataPosition, grab.parentJointIndex);
+        dataPosition += this.#_INT_SIZE;
+
+        data.setUint32(dataPosition, grab.hand.length * this.#_CHAR_SIZE);
+        dataPosition += this.#_INT_SIZE;
+        for (let i = 0; i < grab.hand.length; i++) {
+            data.setUint16(dataPosition, grab.hand.charCodeAt(i));
+            dataPosition += this.#_CHAR_SIZE;
+        }
+
+        const values = [
+            grab.positionalOffset.x,
+            grab.positionalOffset.y,
+            grab.positionalOffset.z,
+            grab.rotationalOffset.x,
+            grab.rotationalOffset.y,
+            grab.rotationalOffset.z,
+            grab.rotationalOffset.w
+        ];
+        for (const value of values) {
+            data.setFloat64(dataPosition, value);
+            dataPosition += this.#_DOUBLE_SIZE;
+        }
+
+        return new Uint8Array(data.buffer);
+    }
+
+    /*@devdoc
+     *  Unpacks grab data from binary data.
+     *  @function Grab.fromByteArray
+     *  @param {Uuid} grabID - The ID of the grab.
+     *  @param {DataView} data - The binary data.
+     *  @returns {GrabData|null} The grab data. <code>null</code> if the binary data couldn't be read.
+     */
+    fromByteArray(grabID: Uuid, data: DataView): GrabData | null {
+        // C++  bool fromByteArray(const QByteArray& grabData)
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        const MIN_DATA_SIZE = 3 * this.#_INT_SIZE + 2 * this.#_UUID_SIZE;
+        if (data.byteLength < MIN_DATA_SIZE) {
+            console.error("[avatars] Not enough grab data.");
+            return null;
+        }
+
+        let dataPosition = 0;
+
+        const dataEncodingVersion = data.getInt32(dataPosition);
+        dataPosition += this.#_INT_SIZE;
+        if (dataEncodingVersion !== this.#_DATA_ENCODING_VERSION) {
+            console.error("[avatars] Unexpected grab data encoding version:", dataEncodingVersion);
+            return null;
+        }
+
+        const ownerID = new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN));
+        dataPosition += this.#_UUID_SIZE;
+        const targetID = new Uuid(data.getBigUint128(dataPosition, UDT.BIG_ENDIAN));
+        dataPosition += this.#_UUID_SIZE;
+
+        const parentJointIndex = data.getInt32(dataPosition);
+        dataPosition += this.#_INT_SIZE;
+
+        let hand = "";
+        const handLength = data.getUint32(dataPosition);
+        dataPosition += this.#_INT_SIZE;
+        if (handLength !== this.#_NULL_STRING_LENGTH) {
+            if (data.byteLength - dataPosition < handLength) {
+                console.error("[avatars] Not enough grab data.");
+                return null;
+            }
+            const numChars = handLength / this.#_CHAR_SIZE;
+            for (let i = 0; i < numChars; i++) {
+                hand += String.fromCharCode(data.getUint16(dataPosition));
+                dataPosition += this.#_CHAR_SIZE;
+            }
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        if (data.byteLength - dataPosition < 7 * this.#_DOUBLE_SIZE) {
+            console.error("[avatars] Not enough grab data.");
+            return null;
+        }
+
+        const values: number[] = [];
+        for (let i = 0; i < 7; i++) {  // eslint-disable-line @typescript-eslint/no-magic-numbers
+            values.push(data.getFloat64(dataPosition));
+            dataPosition += this.#_DOUBLE_SIZE;
+        }
+
+        /* eslint-disable @typescript-eslint/no-non-null-assertion, @typescript-eslint/no-magic-numbers */
+        return {
+            grabID,
+            ownerID,
+            targetID,
+            parentJointIndex,
+            hand,
+            positionalOffset: { x: values[0]!, y: values[1]!, z: values[2]! },
+            rotationalOffset: { x: values[3]!, y: values[4]!, z: values[5]!, w: values[6]! }
+        };
+        /* eslint-enable @typescript-eslint/no-non-null-assertion, @typescript-eslint/no-magic-numbers */
+    }
+
+}();
+
+export default Grab;
+export type { GrabData };
@@ -11,8 +11,22 @@
 
 // JSDoc is implemented in Vec3.ts so that it is compiled.
 type mat4 = {
-    x: number,
-    y: number,
+    r0c0: number,
+    r1c0: number,
+    r2c0: number,
+    r3c0: number,
+    r0c1: number,
+    r1c1: number,
+    r2c1: number,
+    r3c1: number,
+    r0c2: number,
+    r1c2: number,
+    r2c2: number,
+    r3c2: number,
+    r0c3: number,
+    r1c3: number,
+    r2c3: number,
+    r3c3: number
 };
 
 export type { mat4 };
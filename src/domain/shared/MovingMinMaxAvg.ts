@@ -0,0 +1,191 @@
+//
+//  MovingMinMaxAvg.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+
+type IntervalStats = {
+    min: number,
+    max: number,
+    sum: number,
+    count: number
+};
+
+
+/*@devdoc
+ *  The <code>MovingMinMaxAvg</code> class tracks the minimum, maximum, and average of a series of values, both overall and
+ *  over a moving window of the most recent intervals. An interval is ended by calling
+ *  {@link MovingMinMaxAvg.currentIntervalComplete|currentIntervalComplete}, typically once per second.
+ *  <p>C++: <code>template &lt;typename T&gt; class MovingMinMaxAvg</code></p>
+ *  @class MovingMinMaxAvg
+ *  @param {number} windowIntervals - The number of most recent intervals included in the window statistics.
+ */
+class MovingMinMaxAvg {
+    // C++  template <typename T> class MovingMinMaxAvg
+    //      The Web SDK always has the user end intervals by calling currentIntervalComplete(), i.e., the C++'s intervalLength
+    //      is always 0.
+
+    static #emptyStats(): IntervalStats {
+        return { min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY, sum: 0, count: 0 };
+    }
+
+    static #add(stats: IntervalStats, other: IntervalStats): void {
+        stats.min = Math.min(stats.min, other.min);
+        stats.max = Math.max(stats.max, other.max);
+        stats.sum += other.sum;
+        stats.count += other.count;
+    }
+
+
+    #_windowIntervals: number;
+
+    #_overallStats = MovingMinMaxAvg.#emptyStats();
+    #_currentIntervalStats = MovingMinMaxAvg.#emptyStats();
+    #_intervalStats: IntervalStats[] = [];
+    #_windowStats = MovingMinMaxAvg.#emptyStats();
+
+    #_newStatsAvailable = false;
+
+
+    constructor(windowIntervals: number) {
+        // C++  MovingMinMaxAvg(int intervalLength, int windowIntervals)
+        this.#_windowIntervals = windowIntervals;
+    }
+
+
+    /*@devdoc
+     *  Clears all statistics.
+     */
+    reset(): void {
+        // C++  void reset()
+        this.#_overallStats = MovingMinMaxAvg.#emptyStats();
+        this.#_currentIntervalStats = MovingMinMaxAvg.#emptyStats();
+        this.#_intervalStats = [];
+        this.#_windowStats = MovingMinMaxAvg.#emptyStats();
+        this.#_newStatsAvailable = false;
+    }
+
+    /*@devdoc
+     *  Adds a value to the statistics.
+     *  @param {number} value - The value.
+     */
+    update(value: number): void {
+        // C++  void update(T sample)
+        const stats = this.#_currentIntervalStats;
+        stats.min = Math.min(stats.min, value);
+        stats.max = Math.max(stats.max, value);
+        stats.sum += value;
+        stats.count += 1;
+    }
+
+    /*@devdoc
+     *  Ends the current interval and updates the overall and window statistics.
+     */
+    currentIntervalComplete(): void {
+        // C++  void currentIntervalComplete()
+        MovingMinMaxAvg.#add(this.#_overallStats, this.#_currentIntervalStats);
+
+        this.#_intervalStats.push(this.#_currentIntervalStats);
+        if (this.#_intervalStats.length > this.#_windowIntervals) {
+            this.#_intervalStats.shift();
+        }
+        this.#_currentIntervalStats = MovingMinMaxAvg.#emptyStats();
+
+        this.#_windowStats = MovingMinMaxAvg.#emptyStats();
+        for (const intervalStats of this.#_intervalStats) {
+            MovingMinMaxAvg.#add(this.#_windowStats, intervalStats);
+        }
+
+        this.#_newStatsAvailable = true;
+    }
+
+    /*@devdoc
+     *  Gets the overall minimum value of completed intervals.
+     *  @returns {number} The overall minimum value. <code>0</code> if there are no values.
+     */
+    getMin(): number {
+        // C++  T getMin()
+        return this.#_overallStats.count > 0 ? this.#_overallStats.min : 0;
+    }
+
+    /*@devdoc
+     *  Gets the overall maximum value of completed intervals.
+     *  @returns {number} The overall maximum value. <code>0</code> if there are no values.
+     */
+    getMax(): number {
+        // C++  T getMax()
+        return this.#_overallStats.count > 0 ? this.#_overallStats.max : 0;
+    }
+
+    /*@devdoc
+     *  Gets the overall average value of completed intervals.
+     *  @returns {number} The overall average value. <code>0</code> if there are no values.
+     */
+    getAverage(): number {
+        // C++  double getAverage()
+        return this.#_overallStats.count > 0 ? this.#_overallStats.sum / this.#_overallStats.count : 0;
+    }
+
+    /*@devdoc
+     *  Gets the minimum value in the window of completed intervals.
+     *  @returns {number} The window's minimum value. <code>0</code> if there are no values.
+     */
+    getWindowMin(): number {
+        // C++  T getWindowMin()
+        return this.#_windowStats.count > 0 ? this.#_windowStats.min : 0;
+    }
+
+    /*@devdoc
+     *  Gets the maximum value in the window of completed intervals.
+     *  @returns {number} The window's maximum value. <code>0</code> if there are no values.
+     */
+    getWindowMax(): number {
+        // C++  T getWindowMax()
+        return this.#_windowStats.count > 0 ? this.#_windowStats.max : 0;
+    }
+
+    /*@devdoc
+     *  Gets the average value in the window of completed intervals.
+     *  @returns {number} The window's average value. <code>0</code> if there are no values.
+     */
+    getWindowAverage(): number {
+        // C++  double getWindowAverage()
+        return this.#_windowStats.count > 0 ? this.#_windowStats.sum / this.#_windowStats.count : 0;
+    }
+
+    /*@devdoc
+     *  Gets whether the window contains its full number of intervals.
+     *  @returns {boolean} <code>true</code> if the window is filled, <code>false</code> if it isn't.
+     */
+    isWindowFilled(): boolean {
+        // C++  bool isWindowFilled()
+        return this.#_intervalStats.length >= this.#_windowIntervals;
+    }
+
+    /*@devdoc
+     *  Gets whether new statistics have become available since the flag was last cleared.
+     *  @returns {boolean} <code>true</code> if an interval has been completed since the flag was last cleared,
+     *      <code>false</code> if one hasn't.
+     */
+    getNewStatsAvailableFlag(): boolean {
+        // C++  bool getNewStatsAvailableFlag()
+        return this.#_newStatsAvailable;
+    }
+
+    /*@devdoc
+     *  Clears the new statistics available flag.
+     */
+    clearNewStatsAvailableFlag(): void {
+        // C++  void clearNewStatsAvailableFlag()
+        this.#_newStatsAvailable = false;
+    }
+
+}
+
+export default MovingMinMaxAvg;
@@ -0,0 +1,30 @@
+//
+//  PolyVoxSurfaceStyle.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@sdkdoc
+ *  The <code>PolyVoxSurfaceStyle</code> namespace enumerates how the surface of a {@link EntityType|PolyVox entity} is
+ *  generated from its voxels.
+ *  @namespace PolyVoxSurfaceStyle
+ *  @property {number} MARCHING_CUBES - <code>0</code> - Smooth surfaces, with no surface generated at the edges of the volume.
+ *  @property {number} CUBIC - <code>1</code> - Blocky surfaces, with no surface generated at the edges of the volume.
+ *  @property {number} EDGED_CUBIC - <code>2</code> - Blocky surfaces, with surfaces generated at the edges of the volume.
+ *  @property {number} EDGED_MARCHING_CUBES - <code>3</code> - Smooth surfaces, with surfaces generated at the edges of the
+ *      volume.
+ */
+enum PolyVoxSurfaceStyle {
+    // C++  enum PolyVoxSurfaceStyle
+    MARCHING_CUBES,
+    CUBIC,
+    EDGED_CUBIC,
+    EDGED_MARCHING_CUBES
+}
+
+export default PolyVoxSurfaceStyle;
@@ -11,7 +11,7 @@
 
 
 /*@devdoc
- *  The <code>PropertyFlags</code> class provides facilities to decode, set and get property flags.
+ *  The <code>PropertyFlags</code> class provides facilities to encode, decode, set and get property flags.
  *  <p>C++: <code>template&lt;typename Enum&gt; class PropertyFlags </code></p>
  *  @class PropertyFlags
  */
@@ -93,6 +93,17 @@ class PropertyFlags {
         this.#_flags.set([byteValue], bytePos);
     }
 
+    /*@devdoc
+     *  Gets whether no property flags are set.
+     *  @returns {boolean} <code>true</code> if no property flags are set, <code>false</code> if one or more are.
+     */
+    isEmpty(): boolean {
+        // C++  bool isEmpty()
+        return this.#_flags.every((byte) => {
+            return byte === 0;
+        });
+    }
+
     /*@devdoc
      *  Decode the encoded property flags.
      *  @param {DataView} data - The data to decode.
@@ -173,6 +184,52 @@ class PropertyFlags {
         return bytesConsumed;
     }
 
+    /*@devdoc
+     *  Encode the property flags.
+     *  @returns {Uint8Array} The encoded property flags.
+     */
+    encode(): Uint8Array {
+        // C++  QByteArray encode()
+
+        /* The inverse of decode(): lead bits (one less 1 than the number of bytes, then a 0) followed by the flag bits, in flag
+        * order starting from the leftmost bit.
+        */
+
+        let maxFlag = -1;
+        for (let flag = this.#_flags.length * this.#BITS_IN_BYTE - 1; flag >= 0; flag--) {
+            if (this.getHasProperty(flag)) {
+                maxFlag = flag;
+                break;
+            }
+        }
+
+        if (maxFlag < 0) {
+            return new Uint8Array(1);
+        }
+
+        const lengthInBytes = Math.floor(maxFlag / (this.#BITS_IN_BYTE - 1)) + 1;
+        const output = new Uint8Array(lengthInBytes);
+
+        const leftMostBit = 128;
+        const setBit = (bitAt: number) => {
+            const bytePos = Math.floor(bitAt / this.#BITS_IN_BYTE);
+            const bitPos = bitAt - bytePos * this.#BITS_IN_BYTE;
+            output[bytePos] = (output[bytePos] ?? 0) | leftMostBit >> bitPos;
+        };
+
+        for (let bitAt = 0; bitAt < lengthInBytes - 1; bitAt++) {
+            setBit(bitAt);
+        }
+
+        for (let flag = 0; flag <= maxFlag; flag++) {
+            if (this.getHasProperty(flag)) {
+                setBit(lengthInBytes + flag);
+            }
+        }
+
+        return output;
+    }
+
     #clear(): void {
         // C++ void clear()
         this.#_flags = new Uint8Array(0);
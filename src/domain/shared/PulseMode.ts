@@ -0,0 +1,29 @@
+//
+//  PulseMode.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/*@sdkdoc
+ *  The <code>PulseMode</code> namespace enumerates how a pulse affects an entity's color or alpha.
+ *  @namespace PulseMode
+ *  @property {number} NONE - <code>0</code> - The pulse doesn't affect the value.
+ *  @property {number} IN_PHASE - <code>1</code> - The value pulses in phase with the pulse period.
+ *  @property {number} OUT_PHASE - <code>2</code> - The value pulses in the opposite phase to the pulse period.
+ *  @property {number} ITEM_COUNT - <code>3</code> - The number of modes.
+ */
+enum PulseMode {
+    // C++  enum class PulseMode
+    NONE,
+    IN_PHASE,
+    OUT_PHASE,
+
+    ITEM_COUNT
+}
+
+export default PulseMode;
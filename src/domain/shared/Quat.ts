@@ -118,6 +118,34 @@ const Quat = new class {
         return q1.x * q2.x + q1.y * q2.y + q1.z * q2.z + q1.w * q2.w;
     }
 
+    /*@sdkdoc
+     *  Multiplies two quaternions, i.e., combines two rotations.
+     *  @function Quat.multiply
+     *  @param {quat} q1 - The first quaternion.
+     *  @param {quat} q2 - The second quaternion.
+     *  @returns {quat} <code>q1</code> multiplied by <code>q2</code>, i.e., the rotation <code>q2</code> followed by the
+     *      rotation <code>q1</code>.
+     */
+    multiply(q1: quat, q2: quat): quat {
+        return {
+            x: q1.w * q2.x + q1.x * q2.w + q1.y * q2.z - q1.z * q2.y,
+            y: q1.w * q2.y - q1.x * q2.z + q1.y * q2.w + q1.z * q2.x,
+            z: q1.w * q2.z + q1.x * q2.y - q1.y * q2.x + q1.z * q2.w,
+            w: q1.w * q2.w - q1.x * q2.x - q1.y * q2.y - q1.z * q2.z
+        };
+    }
+
+    /*@sdkdoc
+     *  Calculates the conjugate of a quaternion. For a unit quaternion, its conjugate is the same as its inverse, i.e., the
+     *  reverse rotation.
+     *  @function Quat.conjugate
+     *  @param {quat} q - The quaternion.
+     *  @returns {quat} The conjugate of the quaternion.
+     */
+    conjugate(q: quat): quat {
+        return { x: -q.x, y: -q.y, z: -q.z, w: q.w };
+    }
+
 
     /* eslint-enable class-methods-use-this */
 }();
@@ -0,0 +1,88 @@
+//
+//  SpatialParentFinder.ts
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { NestableTransform } from "./SpatiallyNestable";
+import Uuid from "./Uuid";
+
+
+type SpatialParentTree = {
+    // C++  class SpatialParentTree
+    findNestableTransform: (id: Uuid, depth: number) => NestableTransform | null
+};
+
+
+/*@devdoc
+ *  The <code>SpatialParentFinder</code> class finds the world transforms of the entities and avatars that entities and avatars
+ *  are parented to. The collections of entities and avatars that the user client knows about register with it as
+ *  {@link SpatialParentFinder.SpatialParentTree|SpatialParentTree}s.
+ *  <p>C++: <code>class SpatialParentFinder : public QObject, public Dependency</code></p>
+ *  @class SpatialParentFinder
+ *  @property {string} contextItemType="SpatialParentFinder" - The type name for use with the {@link ContextManager}.
+ *      <p><em>Static. Read-only.</em></p>
+ */
+class SpatialParentFinder {
+    // C++  class SpatialParentFinder : public QObject, public Dependency
+    //      class InterfaceParentFinder : public SpatialParentFinder
+
+    /*@devdoc
+     *  A collection of entities or avatars that may be parents.
+     *  @typedef {object} SpatialParentFinder.SpatialParentTree
+     *  @property {SpatialParentFinder.FindNestableTransform} findNestableTransform - Finds the world transform of an entity or
+     *      avatar in the collection.
+     */
+    /*@devdoc
+     *  Finds the world transform of an entity or avatar.
+     *  @callback SpatialParentFinder.FindNestableTransform
+     *  @param {Uuid} id - The ID of the entity or avatar.
+     *  @param {number} depth - The number of parent links already followed.
+     *  @returns {NestableTransform|null} The world transform of the entity or avatar. <code>null</code> if the entity or
+     *      avatar isn't in the collection or its transform can't be calculated.
+     */
+
+    static readonly contextItemType = "SpatialParentFinder";
+
+
+    #_parentTrees: SpatialParentTree[] = [];
+
+
+    /*@devdoc
+     *  Adds a collection of entities or avatars to search for parents in.
+     *  @param {SpatialParentFinder.SpatialParentTree} parentTree - The collection of entities or avatars.
+     */
+    addParentTree(parentTree: SpatialParentTree): void {
+        // C++  N/A
+        if (!this.#_parentTrees.includes(parentTree)) {
+            this.#_parentTrees.push(parentTree);
+        }
+    }
+
+    /*@devdoc
+     *  Finds the world transform of an entity or avatar that an entity or avatar is parented to.
+     *  @param {Uuid} parentID - The ID of the parent entity or avatar.
+     *  @param {number} depth - The number of parent links already followed.
+     *  @returns {NestableTransform|null} The world transform of the parent. <code>null</code> if the parent can't be found.
+     */
+    find(parentID: Uuid, depth: number): NestableTransform | null {
+        // C++  SpatiallyNestableWeakPointer InterfaceParentFinder::find(QUuid parentID, bool& success,
+        //          SpatialParentTree* entityTree)
+        for (const parentTree of this.#_parentTrees) {
+            const transform = parentTree.findNestableTransform(parentID, depth);
+            if (transform) {
+                return transform;
+            }
+        }
+        return null;
+    }
+
+}
+
+export default SpatialParentFinder;
+export type { SpatialParentTree };
@@ -10,10 +10,17 @@
 //
 
 import Quat, { quat } from "./Quat";
+import SpatialParentFinder from "./SpatialParentFinder";
 import Uuid from "./Uuid";
 import Vec3, { vec3 } from "./Vec3";
 
 
+type NestableTransform = {
+    // C++  Transform
+    position: vec3,
+    rotation: quat
+};
+
 /*@devdoc
  *  The types of {@link SpatiallyNestable|spatially nestable} object.
  *  <table>
@@ -35,32 +42,60 @@ enum NestableType {
 
 /*@devdoc
  *  The <code>SpatiallyNestable</code> class enables an entity or avatar to have parent-child relationships.
+ *  <p>The entity or avatar's position and orientation are stored relative to its parent. If the parent can't be found, the
+ *  parent's transform is treated as the identity transform, i.e., the local position and orientation are used as the world
+ *  position and orientation.</p>
  *  <p>C++: <code>SpatiallyNestable</code></p>
  *  @class SpatiallyNestable
  *  @param {NestableType} nestableType - The type of nestable item.
  *  @param {Uuid} id - The UUID of the item.
+ *  @param {SpatialParentFinder|null} [parentFinder=null] - The finder to use to find the item's parent. If <code>null</code>,
+ *      the parent can't be found.
  */
 class SpatiallyNestable {
     // C++  class SpatiallyNestable
 
+    /*@devdoc
+     *  The world transform of a spatially nestable object: its position and orientation.
+     *  @typedef {object} NestableTransform
+     *  @property {vec3} position - The position.
+     *  @property {quat} rotation - The orientation.
+     */
+
+    /*@devdoc
+     *  The parent joint index value used if an entity or avatar isn't parented to a joint.
+     *  @type {number}
+     *  @static
+     *  @readonly
+     */
+    static readonly INVALID_JOINT_INDEX = 65535;
+
+    // The maximum depth to follow parent links when calculating world transforms, to guard against parent loops.
+    static readonly #MAX_PARENTING_CHAIN_SIZE = 30;
+
+
     protected _scaleChanged = Date.now();
 
 
     #_nestableType;
     #_id;
+    #_parentFinder;
+    #_parentID = new Uuid(Uuid.NULL);
+    #_parentJointIndex = SpatiallyNestable.INVALID_JOINT_INDEX;
 
-    // WEBRTC TODO: Address further C++ code - Nested transforms instead of world position and orientation.
-    #_worldPosition = { x: 0, y: 0, z: 0 };
-    #_worldOrientation = { x: 0, y: 0, z: 0, w: 1 };
+    // C++  Transform _transform
+    #_localPosition = { x: 0, y: 0, z: 0 };
+    #_localOrientation = { x: 0, y: 0, z: 0, w: 1 };
 
     #_translationChanged = 0;
     #_rotationChanged = 0;
 
 
-    constructor(nestableType: NestableType, id: Uuid) {
+    constructor(nestableType: NestableType, id: Uuid, parentFinder: SpatialParentFinder | null = null) {
         // C++  SpatiallyNestable(NestableType nestableType, QUuid id)
         this.#_nestableType = nestableType;
         this.#_id = id;
+        this.#_parentFinder = parentFinder;
     }
 
 
@@ -99,13 +134,73 @@ class SpatiallyNestable {
      *  @returns {Uuid} The UUID of the entity or avatar that the entity or avatar is parented to. <code>Uuid.NULL</code> if not
      *      parented.
      */
-    // eslint-disable-next-line class-methods-use-this
     getParentID(): Uuid {
         // C++  QUuid getParentID() {
+        return this.#_parentID;
+    }
 
-        // WEBRTC TODO: Address further code - Parent ID.
+    /*@devdoc
+     *  Sets the UUID of the entity or avatar that the entity or avatar is parented to.
+     *  @param {Uuid} parentID - The UUID of the entity or avatar that the entity or avatar is parented to.
+     *      <code>Uuid.NULL</code> if not parented.
+     */
+    setParentID(parentID: Uuid): void {
+        // C++  void setParentID(const QUuid& parentID)
 
-        return new Uuid(Uuid.NULL);
+        // WEBRTC TODO: Address further C++ code - Parent-child links.
+
+        this.#_parentID = parentID;
+    }
+
+    /*@devdoc
+     *  Gets the index of the parent joint that the entity or avatar is parented to.
+     *  @returns {number} The index of the parent joint that the entity or avatar is parented to.
+     *      <code>SpatiallyNestable.INVALID_JOINT_INDEX</code> if not parented to a joint.
+     */
+    getParentJointIndex(): number {
+        // C++  quint16 getParentJointIndex()
+        return this.#_parentJointIndex;
+    }
+
+    /*@devdoc
+     *  Sets the index of the parent joint that the entity or avatar is parented to.
+     *  @param {number} parentJointIndex - The index of the parent joint that the entity or avatar is parented to.
+     *      <code>SpatiallyNestable.INVALID_JOINT_INDEX</code> if not parented to a joint.
+     */
+    setParentJointIndex(parentJointIndex: number): void {
+        // C++  void setParentJointIndex(quint16 parentJointIndex)
+        this.#_parentJointIndex = parentJointIndex;
+    }
+
+    /*@devdoc
+     *  Gets whether the entity or avatar is parented to something.
+     *  @returns {boolean} <code>true</code> if the entity or avatar is parented to something, <code>false</code> if it isn't.
+     */
+    hasParent(): boolean {
+        // C++  bool hasParent()
+        return !this.#_parentID.isNull();
+    }
+
+    /*@devdoc
+     *  Gets the world transform of the entity or avatar.
+     *  @param {number} [depth=0] - The number of parent links already followed.
+     *  @returns {NestableTransform|null} The world transform of the entity or avatar. <code>null</code> if the entity or
+     *      avatar is parented but its parent can't be found.
+     */
+    getTransform(depth = 0): NestableTransform | null {
+        // C++  Transform getTransform(bool& success, int depth = 0)
+        if (!this.hasParent()) {
+            return { position: this.#_localPosition, rotation: this.#_localOrientation };
+        }
+
+        const parentTransform = this.#getParentTransform(depth);
+        if (!parentTransform) {
+            return null;
+        }
+        return {
+            position: Vec3.sum(parentTransform.position, Vec3.multiplyQbyV(parentTransform.rotation, this.#_localPosition)),
+            rotation: Quat.multiply(parentTransform.rotation, this.#_localOrientation)
+        };
     }
 
 
@@ -115,10 +210,8 @@ class SpatiallyNestable {
      */
     getWorldPosition(): vec3 {
         // C++  glm::vec3 getWorldPosition()
-
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        return this.#_worldPosition;
+        const transform = this.getTransform();
+        return transform ? transform.position : this.#_localPosition;
     }
 
     /*@devdoc
@@ -127,11 +220,12 @@ class SpatiallyNestable {
      */
     setWorldPosition(position: vec3): void {
         // C++  void setWorldPosition(const glm::vec3& position)
-
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        if (!Vec3.equal(position, this.#_worldPosition)) {
-            this.#_worldPosition = position;
+        const parentTransform = this.hasParent() ? this.#getParentTransform(0) : null;
+        const localPosition = parentTransform
+            ? Vec3.multiplyQbyV(Quat.conjugate(parentTransform.rotation), Vec3.subtract(position, parentTransform.position))
+            : position;
+        if (!Vec3.equal(localPosition, this.#_localPosition)) {
+            this.#_localPosition = localPosition;
             this.#_translationChanged = Date.now();
         }
     }
@@ -141,11 +235,9 @@ class SpatiallyNestable {
      *  @returns {quat} The world orientation of the entity or avatar.
      */
     getWorldOrientation(): quat {
-        // C++  glm::vec3 getWorldPosition()
-
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        return this.#_worldOrientation;
+        // C++  glm::quat getWorldOrientation()
+        const transform = this.getTransform();
+        return transform ? transform.rotation : this.#_localOrientation;
     }
 
     /*@devdoc
@@ -154,16 +246,27 @@ class SpatiallyNestable {
      */
     setWorldOrientation(orientation: quat): void {
         // C++  void setWorldOrientation(const glm::quat& orientation)
-
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        if (!Quat.equal(orientation, this.#_worldOrientation)) {
-            this.#_worldOrientation = orientation;
+        const parentTransform = this.hasParent() ? this.#getParentTransform(0) : null;
+        const localOrientation = parentTransform
+            ? Quat.multiply(Quat.conjugate(parentTransform.rotation), orientation)
+            : orientation;
+        if (!Quat.equal(localOrientation, this.#_localOrientation)) {
+            this.#_localOrientation = localOrientation;
             this.#_rotationChanged = Date.now();
         }
     }
 
 
+    /*@devdoc
+     *  Gets the local position of the entity or avatar, i.e., its position relative to its parent.
+     *  @returns {vec3} The local position of the entity or avatar.
+     */
+    getLocalPosition(): vec3 {
+        // C++  glm::vec3 getLocalPosition()
+        return this.#_localPosition;
+    }
+
+
     /*@devdoc
      *  Sets the local position of the entity or avatar.
      *  @param {vec3} position - The local position of the entity or avatar.
@@ -178,10 +281,8 @@ class SpatiallyNestable {
 
         // WEBRTC TODO: Address further C++ code - Guard against NaN values.
 
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        if (!Vec3.equal(position, this.#_worldPosition)) {
-            this.#_worldPosition = position;
+        if (!Vec3.equal(position, this.#_localPosition)) {
+            this.#_localPosition = position;
             this.#_translationChanged = Date.now();
         }
 
@@ -195,10 +296,7 @@ class SpatiallyNestable {
      */
     getLocalOrientation(): quat {
         // C++  glm::quat getLocalOrientation()
-
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        return this.#_worldOrientation;
+        return this.#_localOrientation;
     }
 
     /*@devdoc
@@ -210,10 +308,8 @@ class SpatiallyNestable {
 
         // WEBRTC TODO: Address further C++ code - Guard against NaN values.
 
-        // WEBRTC TODO: Address further C++ code - Nestable transforms.
-
-        if (!Quat.equal(orientation, this.#_worldOrientation)) {
-            this.#_worldOrientation = orientation;
+        if (!Quat.equal(orientation, this.#_localOrientation)) {
+            this.#_localOrientation = orientation;
             this.#_rotationChanged = Date.now();
         }
 
@@ -255,7 +351,24 @@ class SpatiallyNestable {
         return this.#_rotationChanged > time;
     }
 
+
+    #getParentTransform(depth: number): NestableTransform | null {
+        // C++  Transform getParentTransform(bool& success, int depth)
+        if (depth > SpatiallyNestable.#MAX_PARENTING_CHAIN_SIZE) {
+            console.error("[shared] Parenting loop detected for", this.#_id.stringify());
+            return null;
+        }
+        if (!this.#_parentFinder) {
+            return null;
+        }
+
+        // WEBRTC TODO: Address further C++ code - Parent joint transforms. Until then, the parent's transform is used.
+
+        return this.#_parentFinder.find(this.#_parentID, depth + 1);
+    }
+
 }
 
 export default SpatiallyNestable;
 export { NestableType };
+export type { NestableTransform };
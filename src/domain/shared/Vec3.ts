@@ -137,6 +137,17 @@ const Vec3 = new class {
         return { x: v1.x + v2.x, y: v1.y + v2.y, z: v1.z + v2.z };
     }
 
+    /*@sdkdoc
+     *  Subtracts one vector from another.
+     *  @function Vec3.subtract
+     *  @param {vec3} v1 - The vector to subtract from.
+     *  @param {vec3} v2 - The vector to subtract.
+     *  @returns {vec3} A new vector being the difference of the vectors.
+     */
+    subtract(v1: vec3, v2: vec3): vec3 {
+        return { x: v1.x - v2.x, y: v1.y - v2.y, z: v1.z - v2.z };
+    }
+
     /*@sdkdoc
      *  Tests whether two vectors are equal.
      *  @function Vec3.equal
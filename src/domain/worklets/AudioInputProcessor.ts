@@ -10,6 +10,10 @@
 //
 
 import AudioConstants from "../audio/AudioConstants";
+import AudioGainControl from "../audio/AudioGainControl";
+import AudioGate from "../audio/AudioGate";
+import type { AudioInputProcessing } from "../audio/AudioInput";
+import NoiseSuppressor from "../audio/NoiseSuppressor";
 
 // see: https://developer.mozilla.org/en-US/docs/Web/API/AudioWorkletGlobalScope
 declare const sampleRate: number;
@@ -20,6 +24,8 @@ declare const sampleRate: number;
  *  Audio and provides it for the SDK to use. It is used as a node in a Web Audio graph in {@link AudioInput}.
  *  <p>It runs on its own thread and buffers incoming samples as needed in order to provide the samples to the SDK in the
  *  required network frame size.</p>
+ *  <p>Optionally, noise suppression, a noise gate, and automatic gain control are applied to each network frame of samples,
+ *  in that order, per the <code>processing</code> processor option and subsequent processing messages.</p>
  *  <p>C++: <code>N/A</code></p>
  *  @class AudioInputProcessor
  *  @param {AudioWorkletNodeOptions} options -
@@ -32,6 +38,7 @@ declare const sampleRate: number;
 class AudioInputProcessor extends AudioWorkletProcessor {
 
     // FIXME: All these fields should be private (#s) but Firefox is handling transpiled code with them (Sep 2021).
+    //        The same applies to the fields of the AudioGate, AudioGainControl, and NoiseSuppressor classes used here.
     readonly FLOAT_TO_INT = 32767;
     readonly LITTLE_ENDIAN = true;
 
@@ -58,6 +65,17 @@ class AudioInputProcessor extends AudioWorkletProcessor {
     _processor: ((input: Array<Float32Array>) => void);
     _haveReportedUpSampleError = false;
 
+    // Processing.
+    _processing: AudioInputProcessing = {
+        noiseGate: false,
+        automaticGainControl: false,
+        noiseSuppression: false
+    };
+
+    _audioGate: AudioGate;
+    _audioGainControl: AudioGainControl;
+    _noiseSuppressor: NoiseSuppressor;
+
 
     constructor(options?: AudioWorkletNodeOptions) {
         super(options);  // eslint-disable-line
@@ -85,26 +103,40 @@ class AudioInputProcessor extends AudioWorkletProcessor {
         this._output = new Int16Array(this._outputSize);
         this._outputView = new DataView(this._output.buffer);
 
+        this._audioGate = new AudioGate(this._channelCount);
+        this._audioGainControl = new AudioGainControl();
+        this._noiseSuppressor = new NoiseSuppressor(this._channelCount);
+        const processorOptions = options?.processorOptions as { processing?: AudioInputProcessing } | undefined;
+        if (processorOptions?.processing) {
+            this._processing = { ...processorOptions.processing };
+        }
+
         this.port.onmessage = this.onMessage;
     }
 
     /*@devdoc
      *  Acts upon commands posted to the audio worklet's message port.
      *  @function AudioInputProcessor.onMessage
-     *  @param {MessageEvent} message - The message posted to the audio worklet, with <code>message.data</code> being a string
-     *      signifying the command. The following command is expected:
+     *  @param {MessageEvent} message - The message posted to the audio worklet, with <code>message.data</code> being the
+     *      command. The following commands are expected:
      *      <p><code>"clear"</code>: Clear the audio sample buffer.</p>
+     *      <p>{@link AudioInput.AudioInputProcessing}: Set the processing to apply to the audio.</p>
      */
     onMessage = (message: MessageEvent) => {
         if (message.data === "clear") {
             this._resetInput();
             this._resetOutput();
+            this._audioGate.reset();
+            this._noiseSuppressor.reset();
+        } else if (typeof message.data === "object" && message.data !== null) {
+            this._processing = { ...message.data as AudioInputProcessing };
         }
     };
 
     /*@devdoc
      *  Called by the Web Audio pipeline to handle the next block of input audio samples, converting them to int16 samples at a
-     *  24000Hz sample rate and outputting them 240 frames at a time by posting a message on the AudioWorkletProcessor port.
+     *  24000Hz sample rate, processing them, and outputting them 240 frames at a time by posting a message on the
+     *  AudioWorkletProcessor port. The message data is an {@link AudioInput.AudioInputFrame}.
      *  @param {Float32Array[][]} inputList - Input PCM audio samples. An array of inputs, each of which is an array of
      *      channels, each of which has 128 float32 samples in the range <code>-1.0</code> &ndash; <code>1.0</code>.
      *  @param {Float32Array[][]} outputList - Output PCM audio samples. <em>Not used.</em>
@@ -114,15 +146,44 @@ class AudioInputProcessor extends AudioWorkletProcessor {
     // eslint-disable-next-line
     // @ts-ignore
     process(inputList: Float32Array[][] /* , outputList: Float32Array[][], parameters: Record<string, Float32Array> */) {
-        if (!inputList || !inputList[0] || !inputList[0][0] || this._channelCount === 2 && !inputList[0][1]) {
+        if (!inputList || !inputList[0] || !inputList[0][0]) {
             return true;
         }
 
-        this._processor(inputList[0]);
+        // If stereo is requested but the device delivers mono, send the mono channel in both stereo channels.
+        const input = this._channelCount === 2 && !inputList[0][1] ? [inputList[0][0], inputList[0][0]] : inputList[0];
+        this._processor(input);
 
         return true;
     }
 
+    _postOutput() {
+        const isGateOpen = this._processOutput();
+        this.port.postMessage({ audio: this._output.buffer, isGateOpen }, [this._output.buffer]);
+    }
+
+    _processOutput() {
+        // Applies the processing to the output buffer, returning whether the noise gate is open.
+        let isGateOpen = true;
+
+        if (this._processing.noiseSuppression) {
+            this._noiseSuppressor.render(this._output);
+        }
+
+        if (this._processing.noiseGate || this._processing.automaticGainControl) {
+            const isVoiceActive = this._audioGate.detect(this._output);
+            if (this._processing.noiseGate) {
+                this._audioGate.apply(this._output);
+                isGateOpen = isVoiceActive;
+            }
+            if (this._processing.automaticGainControl) {
+                this._audioGainControl.render(this._output, isVoiceActive);
+            }
+        }
+
+        return isGateOpen;
+    }
+
     _resetOutput() {
         this._output = new Int16Array(this._outputSize);
         this._outputView = new DataView(this._output.buffer);
@@ -152,7 +213,7 @@ class AudioInputProcessor extends AudioWorkletProcessor {
 
             this._outputIndex += 1;
             if (this._outputIndex === this._outputSampleSize) {
-                this.port.postMessage(this._output.buffer, [this._output.buffer]);
+                this._postOutput();
                 this._resetOutput();
             }
 
@@ -178,16 +239,17 @@ class AudioInputProcessor extends AudioWorkletProcessor {
                 for (let channel = 0; channel < this._channelCount; channel++) {
                     // Add whole of input to input accumulator.
                     this._inputAccumulator[channel] += (input[channel] as Float32Array)[i] as number;
-                    this._inputFraction += this._downsampleRatio;
                 }
+                this._inputFraction += this._downsampleRatio;
 
             } else {
                 // End of input sample >= end of output sample, or final sample of a second.
 
                 const rawIndex = this._outputIndex * BYTES_PER_INT16_FRAME;
+                const proportion = (1 - this._inputFraction) / this._downsampleRatio;
+                const remainder = 1.0 - proportion;
                 for (let channel = 0; channel < this._channelCount; channel++) {
                     // Add proportion of input to input accumulator.
-                    const proportion = (1 - this._inputFraction) / this._downsampleRatio;
                     const value = (input[channel] as Float32Array)[i] as number;
                     this._inputAccumulator[channel] += proportion * value;
 
@@ -197,17 +259,16 @@ class AudioInputProcessor extends AudioWorkletProcessor {
                         this._inputAccumulator[channel]! * this._downsampleRatio * this.FLOAT_TO_INT, this.LITTLE_ENDIAN);
 
                     // Set input accumulator to remainder of input.
-                    const remainder = 1.0 - proportion;
-                    this._inputFraction = remainder * this._downsampleRatio;
                     this._inputAccumulator[channel] = remainder * value;
                 }
+                this._inputFraction = remainder * this._downsampleRatio;
 
                 this._outputIndex += 1;
             }
 
             // Post output if buffer full.
             if (this._outputIndex === this._outputSampleSize) {
-                this.port.postMessage(this._output.buffer, [this._output.buffer]);
+                this._postOutput();
                 this._resetOutput();
             }
 
@@ -251,7 +312,7 @@ class AudioInputProcessor extends AudioWorkletProcessor {
 
             // Post output if buffer full.
             if (this._outputIndex === this._outputSampleSize) {
-                this.port.postMessage(this._output.buffer, [this._output.buffer]);
+                this._postOutput();
                 this._resetOutput();
             }
 
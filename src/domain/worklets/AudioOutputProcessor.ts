@@ -15,7 +15,8 @@
  *  {@link https://developer.mozilla.org/en-US/docs/Web/API/AudioWorkletProcessor|AudioWorkletProcessor} that outputs SDK audio
  *  to a MediaStream. It is used as a node in a Web Audio graph in {@link AudioOutput}.
  *  <p>It runs on its own thread and uses a ring buffer to buffer an amount of data received to play in order to help maintain a
- *  smooth output stream.</p>
+ *  smooth output stream. The target amount of data to buffer is set by the {@link InboundAudioStream}'s jitter buffer
+ *  calculations.</p>
  *  <p>C++: <code>N/A</code></p>
  *  @class AudioOutputProcessor
  *  @param {AudioWorkletNodeOptions} options -
@@ -25,15 +26,27 @@
  *  @property {MessagePort} port - Used to communicate between the AudioWorkletProcessor object and its internal code. See
  *    {@link https://developer.mozilla.org/en-US/docs/Web/API/AudioWorkletNode/port|AudioWorkletNode.port}.
  */
+/*@devdoc
+ *  The status of the audio output processor's buffer, posted on the message port.
+ *  @typedef {object} AudioOutputProcessor.Status
+ *  @property {number} bufferLength - The number of audio blocks buffered.
+ *  @property {number} starveCount - The number of times that the buffer has run out of audio blocks while playing.
+ */
 class AudioOutputProcessor extends AudioWorkletProcessor {
 
     // Buffer blocks of audio data so that they can be played back smoothly.
     // FIXME: All these fields should be private (#s) but Firefox isn't handling transpiled code with them (Sep 2021).
     _audioBuffer: Int16Array[] = [];
     // MAX_AUDIO_BUFFER_LENGTH = AudioClient.#RECEIVED_AUDIO_STREAM_CAPACITY_BLOCKS
-    readonly MAX_AUDIO_BUFFER_LENGTH = 360;  // The maximum number of audio blocks to buffer
-    readonly MIN_AUDIO_BUFFER_LENGTH = 180;  // The minimum number of audio blocks to have before starting to play them.
+    readonly MAX_AUDIO_BUFFER_LENGTH = 360;  // The maximum number of audio blocks to buffer.
+    // C++  InboundAudioStream::MAX_FRAMES_OVER_DESIRED = 10 network frames = 19 audio blocks.
+    readonly MAX_BLOCKS_OVER_TARGET = 19;  // The number of audio blocks over the target before dropping blocks.
+    readonly DEFAULT_TARGET_BUFFER_LENGTH = 8;
+    _targetBufferLength = this.DEFAULT_TARGET_BUFFER_LENGTH;  // The number of audio blocks to have before starting to play.
     _isPlaying = false;  // Is playing audio blocks from the buffer.
+    _starveCount = 0;  // The number of times that the buffer has run out of audio blocks while playing.
+    _lastAudioBlock: Int16Array | null = null;  // The last audio block played, for fading out if the buffer starves.
+    _fadeIn = false;  // Fade in the next audio block played.
     _haveLoggedOverflow = false;
 
 
@@ -45,25 +58,36 @@ class AudioOutputProcessor extends AudioWorkletProcessor {
 
 
     /*@devdoc
-     *  Takes incoming audio blocks posted to the audio worklet's message port and queues them in a ring buffer for playing.
-     *  If too many audio blocks are queued, some of the older ones are discarded.
-     *  If too few audio blocks are queued, playing is paused while a minimum number of audio blocks are accumulated.
-     *  The number of audio blocks buffered is posted on the message port.
+     *  Takes incoming audio blocks posted to the audio worklet's message port and queues them in a ring buffer for playing, or
+     *  sets the target number of audio blocks to buffer.
+     *  <p>If too many audio blocks are queued &mdash; more than the target plus a margin &mdash; the older ones are discarded
+     *  down to the target in order to reduce latency, and the next block played is faded in.
+     *  If too few audio blocks are queued, playing is paused while the target number of audio blocks are accumulated.</p>
+     *  <p>The number of audio blocks buffered and the number of times the buffer has starved are posted on the message port
+     *  as an {@link AudioOutputProcessor.Status} object.</p>
      *  @function AudioOutputProcessor.onMessage
-     *  @param {MessageEvent} message - The message posted to the audio worklet, with <code>message.data</code> being an
-     *      <code>Int16Array</code> of PCM audio samples, ready to play.
+     *  @param {MessageEvent} message - The message posted to the audio worklet, with <code>message.data</code> being either an
+     *      <code>ArrayBuffer</code> of <code>Int16</code> PCM audio samples, ready to play, or a <code>number</code> that is
+     *      the target number of audio blocks to buffer.
      */
     onMessage = (message: MessageEvent) => {
+        // Set the target buffer length.
+        if (typeof message.data === "number") {
+            this._targetBufferLength = Math.max(1, Math.min(message.data, this.MAX_AUDIO_BUFFER_LENGTH));
+            return;
+        }
+
         // Buffer the new block of audio samples.
-        const audioBlock = new Int16Array(message.data);
+        const audioBlock = new Int16Array(message.data as ArrayBuffer);
         this._audioBuffer.push(audioBlock);
 
-        // If we've surpassed the maximum buffer size, skip some older audio blocks.
-        if (this._audioBuffer.length > this.MAX_AUDIO_BUFFER_LENGTH) {
-            // The incoming audio stream should be <= the rate of consumption so only skip the minimum number of blocks.
-            while (this._audioBuffer.length > this.MAX_AUDIO_BUFFER_LENGTH) {
+        // If we've surpassed the maximum buffer size, skip older audio blocks to get back to the target size.
+        const maxBufferLength = Math.min(this._targetBufferLength + this.MAX_BLOCKS_OVER_TARGET, this.MAX_AUDIO_BUFFER_LENGTH);
+        if (this._audioBuffer.length > maxBufferLength) {
+            while (this._audioBuffer.length > this._targetBufferLength) {
                 this._audioBuffer.shift();
             }
+            this._fadeIn = true;
             if (!this._haveLoggedOverflow) {
                 console.log("AudioOutputProcessor: Buffer overflowed.");
                 this._haveLoggedOverflow = true;
@@ -71,20 +95,20 @@ class AudioOutputProcessor extends AudioWorkletProcessor {
         }
 
         // Start playing if not playing and we now have enough audio blocks.
-        if (!this._isPlaying && this._audioBuffer.length >= this.MIN_AUDIO_BUFFER_LENGTH) {
-            // console.log("AudioOutputProcessor: Start playing.");
+        if (!this._isPlaying && this._audioBuffer.length >= this._targetBufferLength) {
             this._isPlaying = true;
         }
 
-        // Report the number of audio blocks buffered.
-        this.port.postMessage(this._audioBuffer.length);
+        this._postStatus();
     };
 
 
     /*@devdoc
      *  Called by the Web Audio pipeline to provide the next block of audio samples to play. The next audio block from the ring
-     *  buffer is played if one is available and playing is not paused, otherwise a block of silence is played. The Int32 values
+     *  buffer is played if one is available and playing is not paused, otherwise a block of silence is played. The Int16 values
      *  from the ring buffer are converted to Float32 values.
+     *  <p>If the ring buffer starves while playing, the last audio block played is repeated, fading out, so that there isn't an
+     *  audible click. When playing resumes, the first audio block is faded in.</p>
      *  @param {Float32Array[][]} inputList - Input PCM audio samples. <em>Not used.</em>
      *  @param {Float32Array[][]} outputList - Output PCM audio samples.
      *  @param {Record<string, Float32Array>} parameters - Processing parameters. <em>Not used.</em>
@@ -98,14 +122,26 @@ class AudioOutputProcessor extends AudioWorkletProcessor {
 
         // Grab the next block of audio to play.
         let audioBlock: Int16Array | undefined = undefined;
+        let isFadingIn = false;
+        let isFadingOut = false;
         if (this._isPlaying) {
             audioBlock = this._audioBuffer.shift();
-            this.port.postMessage(this._audioBuffer.length);
             if (audioBlock === undefined) {
-                // console.log("AudioOutputProcessor: Stop playing.");
+                // Starved. Conceal by repeating the last audio block, fading out.
                 this._isPlaying = false;
                 this._haveLoggedOverflow = false;
+                this._starveCount += 1;
+                if (this._lastAudioBlock) {
+                    audioBlock = this._lastAudioBlock;
+                    isFadingOut = true;
+                }
+                this._fadeIn = true;
+            } else {
+                isFadingIn = this._fadeIn;
+                this._fadeIn = false;
             }
+            this._lastAudioBlock = isFadingOut ? null : audioBlock ?? null;
+            this._postStatus();
         }
 
         if (!outputList || !outputList[0] || !outputList[0][0] || !outputList[0][1]) {
@@ -123,6 +159,11 @@ class AudioOutputProcessor extends AudioWorkletProcessor {
                 let sample = 0;
                 if (audioBlock) {
                     sample = audioBlock[i * 2 + channel] as number / FLOAT_TO_INT;
+                    if (isFadingIn) {
+                        sample *= i / sampleCount;
+                    } else if (isFadingOut) {
+                        sample *= 1 - i / sampleCount;
+                    }
                 }
                 samples[i] = sample;
             }
@@ -130,6 +171,16 @@ class AudioOutputProcessor extends AudioWorkletProcessor {
 
         return true;
     }
+
+
+    _postStatus() {
+        // Report the number of audio blocks buffered and the number of starves.
+        this.port.postMessage({
+            bufferLength: this._audioBuffer.length,
+            starveCount: this._starveCount
+        });
+    }
+
 }
 
 registerProcessor("vircadia-audio-output-processor", AudioOutputProcessor);
@@ -16,9 +16,12 @@ AudioWorkletsMock.mock();
 
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
+import { Blob } from "buffer";
+globalThis.Blob = Blob;
 
 import DomainServer from "../src/DomainServer";
 import AudioMixer from "../src/AudioMixer";
+import ScriptAudioInjector from "../src/domain/script-engine/ScriptAudioInjector";
 
 
 describe("AudioMixer - unit tests", () => {
@@ -105,5 +108,135 @@ describe("AudioMixer - unit tests", () => {
         expect(typeof audioMixer.mutedByMixer.connect).toBe("function");
     });
 
+    test("Can set stereo input and local echo", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+
+        expect(audioMixer.inputStereo).toBe(false);
+        audioMixer.inputStereo = true;
+        expect(audioMixer.inputStereo).toBe(true);
+        audioMixer.inputStereo = 1;
+        expect(audioMixer.inputStereo).toBe(true);
+
+        expect(audioMixer.serverEcho).toBe(false);
+        audioMixer.serverEcho = true;
+        expect(audioMixer.serverEcho).toBe(true);
+        audioMixer.serverEcho = "false";
+        expect(audioMixer.serverEcho).toBe(true);
+
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockReset();
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    });
+
+    test("Can set input processing", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+
+        expect(audioMixer.inputProcessing).toStrictEqual({
+            noiseGate: false,
+            automaticGainControl: false,
+            noiseSuppression: false
+        });
+        audioMixer.inputProcessing = { noiseGate: true, noiseSuppression: true };
+        expect(audioMixer.inputProcessing).toStrictEqual({
+            noiseGate: true,
+            automaticGainControl: false,
+            noiseSuppression: true
+        });
+        audioMixer.inputProcessing.automaticGainControl = true;
+        audioMixer.inputProcessing = { automaticGainControl: "true" };
+        audioMixer.inputProcessing = null;
+        expect(audioMixer.inputProcessing).toStrictEqual({
+            noiseGate: true,
+            automaticGainControl: false,
+            noiseSuppression: true
+        });
+
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockReset();
+    });
+
+    test("Can get the negotiated codec", () => {
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+        expect(audioMixer.codec).toBe("");
+    });
+
+    test("Can get audio stats", () => {
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+        expect(audioMixer.stats).toBeNull();
+        expect(typeof audioMixer.audioStatsUpdated.connect).toBe("function");
+    });
+
+    test("Can play a sound", () => {
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+
+        const injector = audioMixer.playSound(new Int16Array(10), { loop: true });
+        expect(injector instanceof ScriptAudioInjector).toBe(true);
+        expect(injector.isPlaying).toBe(true);
+        expect(injector.options.loop).toBe(true);
+        injector.stop();
+        expect(injector.isPlaying).toBe(false);
+
+        expect(audioMixer.playSound(123)).toBeNull();
+        expect(audioMixer.playSound("https://example.com/sound.wav", "loop")).toBeNull();
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockReset();
+    });
+
+    test("Can record audio", async () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+
+        expect(await audioMixer.stopRecording()).toBeNull();
+        expect(await audioMixer.startRecording({ format: "mp3" })).toBe(false);
+        expect(await audioMixer.startRecording({ includeInput: "false" })).toBe(false);
+        expect(await audioMixer.startRecording(null)).toBe(false);
+        expect(error).toHaveBeenCalledTimes(4);
+
+        expect(await audioMixer.startRecording({ format: "ogg" })).toBe(true);  // WebAssembly Opus encoder.
+        const oggRecording = await audioMixer.stopRecording();
+        expect(oggRecording instanceof Blob).toBe(true);
+        expect(oggRecording.type).toBe("audio/ogg; codecs=opus");
+
+        expect(await audioMixer.startRecording({ includeInput: false })).toBe(true);
+        expect(await audioMixer.startRecording()).toBe(false);
+        expect(error).toHaveBeenCalledTimes(5);
+        const recording = await audioMixer.stopRecording();
+        expect(recording instanceof Blob).toBe(true);
+        expect(recording.type).toBe("audio/wav");
+        expect(await audioMixer.stopRecording()).toBeNull();
+        expect(error).toHaveBeenCalledTimes(6);
+
+        error.mockReset();
+    });
+
+    test("Can get reverb settings and enable or disable reverb", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const audioMixer = new AudioMixer(domainServer.contextID);
+
+        expect(audioMixer.hasReverb).toBe(false);
+        expect(audioMixer.reverbTime).toBe(0);
+        expect(audioMixer.wetLevel).toBe(0);
+
+        expect(audioMixer.reverbEnabled).toBe(true);
+        audioMixer.reverbEnabled = false;
+        expect(audioMixer.reverbEnabled).toBe(false);
+        audioMixer.reverbEnabled = "true";
+        expect(audioMixer.reverbEnabled).toBe(false);
+
+        expect(error).toHaveBeenCalledTimes(1);
+        error.mockReset();
+    });
+
     log.mockReset();
 });
@@ -32,6 +32,30 @@ describe("Camera - unit tests", () => {
         expect(camera instanceof Camera).toBe(true);
     });
 
+    test("Can create multiple Cameras with a DomainServer", () => {
+        const domainServer = new DomainServer();
+        const cameraA = new Camera(domainServer.contextID);
+        const cameraB = new Camera(domainServer.contextID);
+        cameraA.position = { x: 1, y: 2, z: 3 };
+        expect(cameraA.position).toEqual({ x: 1, y: 2, z: 3 });
+        expect(cameraB.position).toEqual(Vec3.ZERO);
+        cameraB.remove();
+        expect(cameraB.position).toEqual(Vec3.ZERO);
+    });
+
+    test("Can't remove the last Camera", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const domainServer = new DomainServer();
+        const cameraA = new Camera(domainServer.contextID);
+        const cameraB = new Camera(domainServer.contextID);
+        cameraA.remove();
+        expect(error).toHaveBeenCalledTimes(0);
+        cameraB.remove();
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(error).toHaveBeenCalledWith("[Camera] Tried to remove the last camera!");
+        error.mockReset();
+    });
+
     test("Default property values are as expected", () => {
         const domainServer = new DomainServer();
         const camera = new Camera(domainServer.contextID);
@@ -18,6 +18,7 @@ globalThis.crypto = webcrypto;
 import Camera from "../src/Camera";
 import DomainServer from "../src/DomainServer";
 import EntityServer from "../src/EntityServer";
+import Uuid from "../src/domain/shared/Uuid";
 
 
 describe("EntityServer - unit tests", () => {
@@ -30,4 +31,73 @@ describe("EntityServer - unit tests", () => {
         expect(entityServer instanceof EntityServer).toBe(true);
     });
 
+    test("Can request an initial load of entities", () => {
+        const domainServer = new DomainServer();
+        const camera = new Camera(domainServer.contextID);  // eslint-disable-line @typescript-eslint/no-unused-vars
+        const entityServer = new EntityServer(domainServer.contextID);
+
+        expect(typeof entityServer.initialLoadComplete.connect).toBe("function");
+        expect(typeof entityServer.requestInitialLoad).toBe("function");
+
+        let initialLoadCompleteCount = 0;
+        entityServer.initialLoadComplete.connect(() => {
+            initialLoadCompleteCount += 1;
+        });
+        entityServer.requestInitialLoad();
+        entityServer.update();
+        expect(initialLoadCompleteCount).toBe(0);
+    });
+
+    test("Can query entities before any have been received", () => {
+        const domainServer = new DomainServer();
+        const camera = new Camera(domainServer.contextID);  // eslint-disable-line @typescript-eslint/no-unused-vars
+        const entityServer = new EntityServer(domainServer.contextID);
+
+        expect(entityServer.getEntityIDs()).toStrictEqual([]);
+        expect(entityServer.getEntity(new Uuid())).toBeNull();
+        expect(entityServer.findEntitiesInSphere({ x: 0, y: 0, z: 0 }, 1)).toStrictEqual([]);
+        expect(entityServer.findEntitiesInBox({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 1 })).toStrictEqual([]);
+        expect(entityServer.findEntitiesByName("x", { x: 0, y: 0, z: 0 }, 1)).toStrictEqual([]);
+        expect(entityServer.stats).toBeNull();
+        expect(typeof entityServer.lodSettings.octreeSizeScale).toBe("number");
+        expect(typeof entityServer.statsReceived.connect).toBe("function");
+    });
+
+    test("Entities can't be added, edited, or deleted when not connected", () => {
+        const domainServer = new DomainServer();
+        const camera = new Camera(domainServer.contextID);  // eslint-disable-line @typescript-eslint/no-unused-vars
+        const entityServer = new EntityServer(domainServer.contextID);
+
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        expect(entityServer.addEntity({ name: "No type" })).toBeNull();
+        expect(entityServer.addEntity({ entityType: 1, lifetime: 60 })).toBeNull();
+        expect(entityServer.editEntity(new Uuid(), { name: "Unknown entity" })).toBe(false);
+        expect(entityServer.deleteEntity("Invalid ID")).toBe(false);
+        expect(entityServer.deleteEntity(new Uuid())).toBe(false);
+        expect(error).toHaveBeenCalledTimes(5);  // eslint-disable-line @typescript-eslint/no-magic-numbers
+        error.mockReset();
+    });
+
+    test("Server script status is not received and scripts can't be reloaded when not connected", async () => {
+        const domainServer = new DomainServer();
+        const camera = new Camera(domainServer.contextID);  // eslint-disable-line @typescript-eslint/no-unused-vars
+        const entityServer = new EntityServer(domainServer.contextID);
+
+        const status = await entityServer.getServerScriptStatus(new Uuid());
+        expect(status).toStrictEqual({ responseReceived: false, isRunning: false, status: "", errorInfo: "" });
+        expect(entityServer.reloadServerScript(new Uuid())).toBe(false);
+
+        expect(entityServer.serverScriptLogEnabled).toBe(false);
+        entityServer.serverScriptLogEnabled = true;
+        expect(entityServer.serverScriptLogEnabled).toBe(true);
+        expect(typeof entityServer.serverScriptLog.connect).toBe("function");
+
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        entityServer.serverScriptLogEnabled = "false";
+        expect(entityServer.serverScriptLogEnabled).toBe(true);
+        expect(entityServer.reloadServerScript("Invalid ID")).toBe(false);
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockReset();
+    });
+
 });
@@ -0,0 +1,99 @@
+//
+//  LODManager.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import LODManager from "../../src/domain/LODManager";
+import OctreeConstants from "../../src/domain/octree/OctreeConstants";
+
+
+describe("LODManager - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers, @typescript-eslint/no-unsafe-member-access */
+    /* eslint-disable @typescript-eslint/no-unsafe-call */
+
+    // Reports a frame rate once per 100ms of simulated time, for a number of seconds.
+    function reportFrameRates(lodManager, frameRate, seconds) {
+        const REPORT_INTERVAL = 100;
+        for (let i = 0; i < seconds * 1000 / REPORT_INTERVAL; i++) {
+            jest.advanceTimersByTime(REPORT_INTERVAL);
+            lodManager.reportFrameRate(frameRate);
+        }
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test("Has default settings", () => {
+        const lodManager = new LODManager();
+        expect(lodManager.getOctreeSizeScale()).toBe(OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE);
+        expect(lodManager.getBoundaryLevelAdjust()).toBe(0);
+        expect(lodManager.getAutomaticLODAdjust()).toBe(true);
+        expect(lodManager.getLODTargetFPS()).toBe(LODManager.DEFAULT_LOD_TARGET_FPS);
+    });
+
+    test("Automatically decreases LOD down to the minimum when the frame rate is low", () => {
+        const lodManager = new LODManager();
+        reportFrameRates(lodManager, 10, 2);
+        const sizeScale = lodManager.getOctreeSizeScale();
+        expect(sizeScale).toBeLessThan(OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE);
+        reportFrameRates(lodManager, 10, 30);
+        expect(lodManager.getOctreeSizeScale()).toBeLessThan(sizeScale);
+        expect(lodManager.getOctreeSizeScale()).toBe(LODManager.MIN_OCTREE_SIZE_SCALE);
+    });
+
+    test("Automatically increases LOD up to the maximum when the frame rate is high", () => {
+        const lodManager = new LODManager();
+        lodManager.setOctreeSizeScale(LODManager.MIN_OCTREE_SIZE_SCALE);
+        reportFrameRates(lodManager, 60, 2);
+        expect(lodManager.getOctreeSizeScale()).toBeGreaterThan(LODManager.MIN_OCTREE_SIZE_SCALE);
+        reportFrameRates(lodManager, 60, 30);
+        expect(lodManager.getOctreeSizeScale()).toBe(LODManager.MAX_OCTREE_SIZE_SCALE);
+    });
+
+    test("Doesn't change LOD when the frame rate is within the target range", () => {
+        const lodManager = new LODManager();
+        lodManager.setOctreeSizeScale(LODManager.MIN_OCTREE_SIZE_SCALE * 2);
+        reportFrameRates(lodManager, 35, 10);
+        expect(lodManager.getOctreeSizeScale()).toBe(LODManager.MIN_OCTREE_SIZE_SCALE * 2);
+    });
+
+    test("Doesn't change LOD when automatic adjustment is off", () => {
+        const lodManager = new LODManager();
+        lodManager.setAutomaticLODAdjust(false);
+        reportFrameRates(lodManager, 10, 10);
+        expect(lodManager.getOctreeSizeScale()).toBe(OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE);
+    });
+
+    test("Reports LOD changes until they are cleared", () => {
+        const lodManager = new LODManager();
+        expect(lodManager.hasLODChanged()).toBe(false);
+        lodManager.setOctreeSizeScale(OctreeConstants.DEFAULT_OCTREE_SIZE_SCALE);
+        lodManager.setBoundaryLevelAdjust(0);
+        expect(lodManager.hasLODChanged()).toBe(false);
+
+        lodManager.setOctreeSizeScale(LODManager.MIN_OCTREE_SIZE_SCALE);
+        expect(lodManager.hasLODChanged()).toBe(true);
+        lodManager.clearLODChanged();
+        expect(lodManager.hasLODChanged()).toBe(false);
+
+        lodManager.setBoundaryLevelAdjust(1);
+        expect(lodManager.hasLODChanged()).toBe(true);
+        lodManager.clearLODChanged();
+
+        reportFrameRates(lodManager, 60, 2);
+        expect(lodManager.hasLODChanged()).toBe(true);
+    });
+
+});
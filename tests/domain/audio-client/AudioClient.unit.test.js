@@ -12,14 +12,26 @@
 import AudioWorkletsMock from "../../../mocks/domain/audio/AudioWorklets.mock.js";
 AudioWorkletsMock.mock();
 
+// Installed before the codec plugins are created by the first AudioClient.
+import WebCodecsMock from "../../../mocks/WebCodecs.mock.js";
+WebCodecsMock.install();
+
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
 
+import AudioConstants from "../../../src/domain/audio/AudioConstants";
+import AudioInput from "../../../src/domain/audio/AudioInput";
 import AudioOutput from "../../../src/domain/audio/AudioOutput";
 import AudioClient from "../../../src/domain/audio-client/AudioClient";
 import AccountManager from "../../../src/domain/networking/AccountManager";
 import AddressManager from "../../../src/domain/networking/AddressManager";
+import LimitedNodeList from "../../../src/domain/networking/LimitedNodeList";
 import NodeList from "../../../src/domain/networking/NodeList";
+import NodeType from "../../../src/domain/networking/NodeType";
+import PacketReceiver from "../../../src/domain/networking/PacketReceiver";
+import NegotiateAudioFormat from "../../../src/domain/networking/packets/NegotiateAudioFormat";
+import PacketScribe from "../../../src/domain/networking/packets/PacketScribe";
+import PacketType from "../../../src/domain/networking/udt/PacketHeaders";
 import ContextManager from "../../../src/domain/shared/ContextManager";
 
 
@@ -50,5 +62,151 @@ describe("AudioClient - unit tests", () => {
         expect(typeof audioClient.mutedByMixer.connect).toBe("function");
     });
 
+    test("Offers the Opus codec in the first audio format negotiation if WebCodecs supports Opus", async () => {
+        jest.useFakeTimers();
+
+        let nodeActivated = null;
+        const nodeActivatedSpy = jest.spyOn(LimitedNodeList.prototype, "nodeActivated", "get").mockReturnValue({
+            connect: (slot) => {
+                nodeActivated = slot;
+            }
+        });
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, AccountManager, contextID);
+        ContextManager.set(contextID, AddressManager);
+        ContextManager.set(contextID, NodeList, contextID);
+        ContextManager.set(contextID, AudioOutput);
+        ContextManager.set(contextID, AudioClient, contextID);
+        nodeActivatedSpy.mockRestore();
+
+        const audioMixer = {
+            getType: () => {
+                return NodeType.AudioMixer;
+            }
+        };
+        const soloNodeOfTypeSpy = jest.spyOn(NodeList.prototype, "soloNodeOfType").mockReturnValue(audioMixer);
+        const negotiateAudioFormatSpy = jest.spyOn(NegotiateAudioFormat, "write");
+        let sendPacketSpy = null;
+        const packetSent = new Promise((resolve) => {
+            sendPacketSpy = jest.spyOn(NodeList.prototype, "sendPacket").mockImplementation(resolve);
+        });
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call
+        nodeActivated(audioMixer);
+        await packetSent;
+        expect(negotiateAudioFormatSpy).toHaveBeenCalledTimes(1);
+        expect(negotiateAudioFormatSpy.mock.calls[0][0].codecs).toStrictEqual(["opus", "zlib", "pcm"]);
+
+        soloNodeOfTypeSpy.mockRestore();
+        negotiateAudioFormatSpy.mockRestore();
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call
+        sendPacketSpy.mockRestore();
+        jest.useRealTimers();
+    });
+
+    test("Can start an Ogg/Opus recording as soon as the AudioClient is created if WebCodecs supports Opus", async () => {
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, AccountManager, contextID);
+        ContextManager.set(contextID, AddressManager);
+        ContextManager.set(contextID, NodeList, contextID);
+        ContextManager.set(contextID, AudioOutput);
+        ContextManager.set(contextID, AudioClient, contextID);
+        /** @type {AudioClient} */
+        const audioClient = ContextManager.get(contextID, AudioClient);
+        expect(await audioClient.startRecording({ includeInput: true, includeOutput: true, format: "ogg" })).toBe(true);
+        expect(audioClient.isRecording()).toBe(true);
+    });
+
+    test("Sends silent audio frames if the Opus encoder fails before encoding anything", async () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+
+        let handleSelectedAudioFormat = null;
+        const registerListenerSpy = jest.spyOn(PacketReceiver.prototype, "registerListener")
+            .mockImplementation((packetType, listenerReference) => {
+                if (packetType === PacketType.SelectedAudioFormat) {
+                    handleSelectedAudioFormat = listenerReference.listener;
+                }
+                return true;
+            });
+        const startSpy = jest.spyOn(AudioInput.prototype, "start").mockResolvedValue(true);
+
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, AccountManager, contextID);
+        ContextManager.set(contextID, AddressManager);
+        ContextManager.set(contextID, NodeList, contextID);
+        ContextManager.set(contextID, AudioOutput);
+        ContextManager.set(contextID, AudioClient, contextID);
+        /** @type {AudioClient} */
+        const audioClient = ContextManager.get(contextID, AudioClient);
+        registerListenerSpy.mockRestore();
+
+        const audioMixer = {
+            getType: () => {
+                return NodeType.AudioMixer;
+            },
+            getActiveSocket: () => {
+                return {};
+            },
+            getAuthenticateHash: () => {
+                return null;
+            }
+        };
+        const soloNodeOfTypeSpy = jest.spyOn(NodeList.prototype, "soloNodeOfType").mockReturnValue(audioMixer);
+        // Other AudioClients' dummy audio input also sends packets, so record only this AudioClient's packets.
+        const nodeList = ContextManager.get(contextID, NodeList);
+        const sentPacketTypes = [];
+        const sendUnreliablePacketSpy = jest.spyOn(NodeList.prototype, "sendUnreliablePacket")
+            .mockImplementation(function (packet) {
+                // eslint-disable-next-line @typescript-eslint/no-invalid-this
+                if (this === nodeList) {
+                    sentPacketTypes.push(packet.getType());
+                }
+            });
+        const selectedAudioFormatSpy = jest.spyOn(PacketScribe.SelectedAudioFormat, "read")
+            .mockReturnValue({ selectedCodecName: "opus" });
+
+        const audioTrack = {
+            label: "Mic",
+            getSettings: () => {
+                return { channelCount: 1 };
+            }
+        };
+        const inputDevice = {
+            getAudioTracks: () => {
+                return [audioTrack];
+            }
+        };
+        expect(await audioClient.switchInputDevice(inputDevice)).toBe(true);
+        /** @type {AudioInput} */
+        const audioInput = startSpy.mock.instances[0];
+        const message = {
+            getMessage: () => {
+                return new DataView(new ArrayBuffer(0));
+            }
+        };
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-call
+        handleSelectedAudioFormat(message);
+
+        // The encoder fails before it has encoded anything.
+        WebCodecsMock.failCodecs();
+        const NUM_FRAMES = 3;
+        for (let i = 0; i < NUM_FRAMES; i++) {
+            audioInput.processAudioInputMessage({
+                data: { audio: new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL).buffer, isGateOpen: true }
+            });
+        }
+        // The AudioInput's readyRead signal is emitted asynchronously.
+        await new Promise((resolve) => {
+            setTimeout(resolve, 0);
+        });
+        expect(sentPacketTypes).toStrictEqual(new Array(NUM_FRAMES).fill(PacketType.SilentAudioFrame));
+
+        startSpy.mockRestore();
+        soloNodeOfTypeSpy.mockRestore();
+        sendUnreliablePacketSpy.mockRestore();
+        selectedAudioFormatSpy.mockRestore();
+        error.mockRestore();
+    });
+
     log.mockReset();
 });
@@ -0,0 +1,102 @@
+//
+//  AudioFileOgg.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import { Blob } from "buffer";
+globalThis.Blob = Blob;
+
+// Installed before the codec plugins are created.
+import WebCodecsMock from "../../../mocks/WebCodecs.mock.js";
+WebCodecsMock.install();
+
+import AudioFileOgg from "../../../src/domain/audio-client/AudioFileOgg";
+
+
+describe("AudioFileOgg - unit tests", () => {
+
+    const decoder = new TextDecoder();
+
+    /**
+     * Gets the packets in each page of an Ogg file.
+     * @param {ArrayBuffer} buffer - The Ogg file.
+     * @returns {Uint8Array[][]} The packets in each page.
+     */
+    function readPages(buffer) {
+        const pages = [];
+        let position = 0;
+        while (position < buffer.byteLength) {
+            expect(decoder.decode(new Uint8Array(buffer, position, 4))).toBe("OggS");
+            const numSegments = new DataView(buffer).getUint8(position + 26);
+            const segments = new Uint8Array(buffer, position + 27, numSegments);
+            position += 27 + numSegments;
+            const packets = [];
+            let packetSize = 0;
+            for (const segment of segments) {
+                packetSize += segment;
+                if (segment < 255) {
+                    packets.push(new Uint8Array(buffer, position, packetSize));
+                    position += packetSize;
+                    packetSize = 0;
+                }
+            }
+            pages.push(packets);
+        }
+        return pages;
+    }
+
+    /**
+     * @param {Uint8Array} opusHead - An OpusHead packet.
+     * @returns {number} The pre-skip.
+     */
+    function getPreSkip(opusHead) {
+        return new DataView(opusHead.buffer, opusHead.byteOffset, opusHead.byteLength).getUint16(10, true);
+    }
+
+    afterEach(() => {
+        WebCodecsMock.setEncoderDescription(null);
+    });
+
+
+    test("Is supported if WebCodecs supports Opus", async () => {
+        expect(await AudioFileOgg.isSupported()).toBe(true);
+    });
+
+    test("Can create an Ogg/Opus file from PCM data in chunks", async () => {
+        // 600 stereo samples, i.e., one and a quarter network frames, spanning two chunks.
+        const blob = await AudioFileOgg.create([new Int16Array(300), new Int16Array(300)], 2);
+        expect(blob.type).toBe("audio/ogg; codecs=opus");
+
+        const pages = readPages(await blob.arrayBuffer());
+        expect(pages).toHaveLength(3);
+        expect(decoder.decode(pages[0][0].subarray(0, 8))).toBe("OpusHead");
+        expect(decoder.decode(pages[1][0].subarray(0, 8))).toBe("OpusTags");
+        expect(pages[2]).toHaveLength(2);
+    });
+
+    test("Uses libopus's usual pre-skip if the encoder doesn't report its pre-skip", async () => {
+        const blob = await AudioFileOgg.create([new Int16Array(480)], 2);
+        const pages = readPages(await blob.arrayBuffer());
+        expect(getPreSkip(pages[0][0])).toBe(312);
+    });
+
+    test("Uses the pre-skip reported by the encoder", async () => {
+        const opusHead = new Uint8Array(19);
+        opusHead.set(new TextEncoder().encode("OpusHead"));
+        new DataView(opusHead.buffer).setUint16(10, 356, true);
+        WebCodecsMock.setEncoderDescription(opusHead.buffer);
+
+        const blob = await AudioFileOgg.create([new Int16Array(480)], 2);
+        const pages = readPages(await blob.arrayBuffer());
+        expect(getPreSkip(pages[0][0])).toBe(356);
+    });
+
+});
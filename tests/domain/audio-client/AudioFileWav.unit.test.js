@@ -0,0 +1,70 @@
+//
+//  AudioFileWav.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import { Blob } from "buffer";
+globalThis.Blob = Blob;
+
+import AudioFileWav from "../../../src/domain/audio-client/AudioFileWav";
+
+
+describe("AudioFileWav - unit tests", () => {
+
+    const decoder = new TextDecoder();
+
+
+    test("Can create a WAV file", async () => {
+        const pcmData = new Int16Array([0, 1, -1, 32767, -32768, 100]);
+        const blob = AudioFileWav.create([pcmData], 24000, 2);
+        expect(blob.type).toBe("audio/wav");
+        expect(blob.size).toBe(44 + 12);
+
+        const buffer = await blob.arrayBuffer();
+        const data = new DataView(buffer);
+        expect(decoder.decode(new Uint8Array(buffer, 0, 4))).toBe("RIFF");
+        expect(data.getUint32(4, true)).toBe(36 + 12);
+        expect(decoder.decode(new Uint8Array(buffer, 8, 4))).toBe("WAVE");
+        expect(decoder.decode(new Uint8Array(buffer, 12, 4))).toBe("fmt ");
+        expect(data.getUint32(16, true)).toBe(16);
+        expect(data.getUint16(20, true)).toBe(1);
+        expect(data.getUint16(22, true)).toBe(2);
+        expect(data.getUint32(24, true)).toBe(24000);
+        expect(data.getUint32(28, true)).toBe(96000);
+        expect(data.getUint16(32, true)).toBe(4);
+        expect(data.getUint16(34, true)).toBe(16);
+        expect(decoder.decode(new Uint8Array(buffer, 36, 4))).toBe("data");
+        expect(data.getUint32(40, true)).toBe(12);
+        for (let i = 0; i < 6; i++) {
+            expect(data.getInt16(44 + 2 * i, true)).toBe(pcmData[i]);
+        }
+    });
+
+    test("Includes only the PCM data's view of its buffer", async () => {
+        const buffer = new Int16Array([1, 2, 3, 4, 5, 6]);
+        const blob = AudioFileWav.create([buffer.subarray(2, 4)], 24000, 1);
+        expect(blob.size).toBe(44 + 4);
+        const data = new DataView(await blob.arrayBuffer());
+        expect(data.getInt16(44, true)).toBe(3);
+        expect(data.getInt16(46, true)).toBe(4);
+    });
+
+    test("Can create a WAV file from multiple chunks of PCM data", async () => {
+        const blob = AudioFileWav.create([new Int16Array([1, 2, 3]), new Int16Array([4]), new Int16Array([5, 6])], 24000, 2);
+        expect(blob.size).toBe(44 + 12);
+        const data = new DataView(await blob.arrayBuffer());
+        expect(data.getUint32(40, true)).toBe(12);
+        for (let i = 0; i < 6; i++) {
+            expect(data.getInt16(44 + 2 * i, true)).toBe(i + 1);
+        }
+    });
+
+});
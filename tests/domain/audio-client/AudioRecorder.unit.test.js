@@ -0,0 +1,102 @@
+//
+//  AudioRecorder.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import AudioRecorder from "../../../src/domain/audio-client/AudioRecorder";
+
+
+describe("AudioRecorder - unit tests", () => {
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+
+    /**
+     * @param {AudioRecorder} recorder - The recorder.
+     * @returns {Int16Array} The recording's PCM data in a single array.
+     */
+    function getPCMData(recorder) {
+        const pcmChunks = recorder.getPCMChunks();
+        let length = 0;
+        for (const pcmChunk of pcmChunks) {
+            length += pcmChunk.length;
+        }
+        const pcmData = new Int16Array(length);
+        let position = 0;
+        for (const pcmChunk of pcmChunks) {
+            pcmData.set(pcmChunk, position);
+            position += pcmChunk.length;
+        }
+        return pcmData;
+    }
+
+
+    test("Recording is initially empty", () => {
+        const recorder = new AudioRecorder(true, true);
+        expect(recorder.getPCMChunks()).toStrictEqual([]);
+    });
+
+    test("Mixes stereo output and mono input", () => {
+        const recorder = new AudioRecorder(true, true);
+        recorder.addOutput(new Int16Array([100, 200, 300, 400, 32000, -32000]));
+        recorder.addInput(new Int16Array([10, 20, 1000, 30]), 1);
+        expect(getPCMData(recorder)).toStrictEqual(new Int16Array([110, 210, 320, 420, 32767, -31000, 30, 30]));
+    });
+
+    test("Ignores audio that isn't included", () => {
+        const recorder = new AudioRecorder(false, true);
+        recorder.addInput(new Int16Array([10, 20]), 1);
+        recorder.addOutput(new Int16Array([100, 200]));
+        expect(getPCMData(recorder)).toStrictEqual(new Int16Array([100, 200]));
+
+        const inputRecorder = new AudioRecorder(true, false);
+        inputRecorder.addInput(new Int16Array([10, 20]), 2);
+        inputRecorder.addOutput(new Int16Array([100, 200]));
+        expect(getPCMData(inputRecorder)).toStrictEqual(new Int16Array([10, 20]));
+    });
+
+    test("Spans multiple chunks", () => {
+        const recorder = new AudioRecorder(false, true);
+        const frame = new Int16Array(480).fill(7);
+        for (let i = 0; i < 150; i++) {
+            recorder.addOutput(frame);
+        }
+        expect(recorder.getPCMChunks().map((pcmChunk) => {
+            return pcmChunk.length;
+        })).toStrictEqual([48000, 24000]);
+        const pcmData = getPCMData(recorder);
+        expect(pcmData).toHaveLength(150 * 480);
+        expect(pcmData.every((value) => {
+            return value === 7;
+        })).toBe(true);
+    });
+
+    test("Skips ahead to real time after a gap", () => {
+        const recorder = new AudioRecorder(true, true);
+        recorder.addInput(new Int16Array(240).fill(5), 1);
+        jest.advanceTimersByTime(1000);
+        recorder.addInput(new Int16Array(240).fill(5), 1);
+
+        const pcmData = getPCMData(recorder);
+        expect(pcmData).toHaveLength(24000 * 2);
+        expect(pcmData[0]).toBe(5);
+        expect(pcmData[480]).toBe(0);
+        expect(pcmData[pcmData.length - 480]).toBe(5);
+        expect(pcmData[pcmData.length - 481]).toBe(0);
+    });
+
+});
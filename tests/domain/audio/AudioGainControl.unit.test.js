@@ -0,0 +1,83 @@
+//
+//  AudioGainControl.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import AudioGainControl from "../../../src/domain/audio/AudioGainControl";
+
+
+describe("AudioGainControl - unit tests", () => {
+
+    function createFrame(amplitude) {
+        // A 1kHz sine wave at 24kHz.
+        const frame = new Int16Array(240);
+        for (let i = 0; i < frame.length; i++) {
+            frame[i] = Math.round(amplitude * Math.sin(2 * Math.PI * i / 24));
+        }
+        return frame;
+    }
+
+    function rms(frame) {
+        let sumOfSquares = 0;
+        let count = 0;
+        for (const value of frame) {
+            sumOfSquares += value * value;
+            count += 1;
+        }
+        return Math.sqrt(sumOfSquares / count);
+    }
+
+
+    test("Gain is initially unity", () => {
+        const agc = new AudioGainControl();
+        expect(agc.getGain()).toBe(1);
+    });
+
+    test("Quiet speech is gradually raised toward the target level", () => {
+        const agc = new AudioGainControl();
+        let frame = null;
+        for (let i = 0; i < 500; i++) {
+            frame = createFrame(1000);
+            agc.render(frame, true);
+        }
+        expect(agc.getGain()).toBeGreaterThan(3.5);
+        expect(agc.getGain()).toBeLessThanOrEqual(agc.MAX_GAIN);
+        expect(Math.abs(rms(frame) - agc.TARGET_LEVEL)).toBeLessThan(300);
+    });
+
+    test("Loud speech is quickly lowered and doesn't clip", () => {
+        const agc = new AudioGainControl();
+        for (let i = 0; i < 100; i++) {
+            agc.render(createFrame(1000), true);
+        }
+        const frame = createFrame(30000);
+        agc.render(frame, true);
+        expect(frame.every((value) => {
+            return Math.abs(value) <= 32767;
+        })).toBe(true);
+        for (let i = 0; i < 10; i++) {
+            agc.render(createFrame(30000), true);
+        }
+        expect(agc.getGain()).toBeLessThan(0.5);
+    });
+
+    test("Gain is held while there isn't voice activity", () => {
+        const agc = new AudioGainControl();
+        for (let i = 0; i < 10; i++) {
+            agc.render(createFrame(100), false);
+        }
+        expect(agc.getGain()).toBe(1);
+        agc.render(createFrame(1000), true);
+        agc.reset();
+        expect(agc.getGain()).toBe(1);
+    });
+
+});
@@ -0,0 +1,86 @@
+//
+//  AudioGate.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import AudioGate from "../../../src/domain/audio/AudioGate";
+
+
+describe("AudioGate - unit tests", () => {
+
+    function createFrame(amplitude, numChannels = 1) {
+        // A 1kHz sine wave at 24kHz.
+        const frame = new Int16Array(240 * numChannels);
+        for (let i = 0; i < frame.length; i++) {
+            frame[i] = Math.round(amplitude * Math.sin(2 * Math.PI * Math.floor(i / numChannels) / 24));
+        }
+        return frame;
+    }
+
+
+    test("Gate is initially closed and silences audio", () => {
+        const gate = new AudioGate(1);
+        expect(gate.isOpen()).toBe(false);
+        const frame = createFrame(20);
+        expect(gate.render(frame)).toBe(false);
+        expect(frame.every((value) => {
+            return value === 0;
+        })).toBe(true);
+    });
+
+    test("Gate opens when the level rises above the noise level and fades in", () => {
+        const gate = new AudioGate(1);
+        for (let i = 0; i < 10; i++) {
+            expect(gate.render(createFrame(20))).toBe(false);
+        }
+        const frame = createFrame(5000);
+        expect(gate.render(frame)).toBe(true);
+        expect(gate.isOpen()).toBe(true);
+        expect(Math.abs(frame[6])).toBeLessThan(Math.abs(frame[234]));
+        expect(Math.abs(frame[234])).toBeGreaterThan(4000);
+    });
+
+    test("Gate stays open for the hold time then closes and fades out", () => {
+        const gate = new AudioGate(2);
+        for (let i = 0; i < 10; i++) {
+            gate.render(createFrame(20, 2));
+        }
+        expect(gate.render(createFrame(5000, 2))).toBe(true);
+
+        for (let i = 0; i < gate.HOLD_FRAMES - 1; i++) {
+            expect(gate.render(createFrame(20, 2))).toBe(true);
+        }
+        const frame = createFrame(5000, 2);
+        gate.detect(createFrame(20, 2));
+        expect(gate.isOpen()).toBe(false);
+        gate.apply(frame);
+        expect(Math.abs(frame[12])).toBeGreaterThan(Math.abs(frame[468]));
+
+        expect(gate.render(createFrame(20, 2))).toBe(false);
+    });
+
+    test("Voice activity detection doesn't modify audio other than removing DC", () => {
+        const gate = new AudioGate(1);
+        let frame = null;
+        for (let i = 0; i < 4; i++) {
+            frame = createFrame(5000);
+            for (let j = 0; j < frame.length; j++) {
+                frame[j] += 1000;
+            }
+            gate.detect(frame);
+        }
+        const mean = frame.reduce((sum, value) => {
+            return sum + value;
+        }, 0) / frame.length;
+        expect(Math.abs(mean)).toBeLessThan(100);
+    });
+
+});
@@ -0,0 +1,112 @@
+//
+//  AudioInjector.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioWorkletsMock from "../../../mocks/domain/audio/AudioWorklets.mock.js";
+AudioWorkletsMock.mock();
+
+import { webcrypto } from "crypto";
+globalThis.crypto = webcrypto;
+
+import AudioConstants from "../../../src/domain/audio/AudioConstants";
+import AudioInjector from "../../../src/domain/audio/AudioInjector";
+import AudioOutput from "../../../src/domain/audio/AudioOutput";
+import Sound from "../../../src/domain/audio/Sound";
+import AudioClient from "../../../src/domain/audio-client/AudioClient";
+import AccountManager from "../../../src/domain/networking/AccountManager";
+import AddressManager from "../../../src/domain/networking/AddressManager";
+import NodeList from "../../../src/domain/networking/NodeList";
+import ContextManager from "../../../src/domain/shared/ContextManager";
+
+
+describe("AudioInjector - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
+
+    const contextID = ContextManager.createContext();
+    ContextManager.set(contextID, AccountManager, contextID);
+    ContextManager.set(contextID, AddressManager);
+    ContextManager.set(contextID, NodeList, contextID);
+    ContextManager.set(contextID, AudioOutput);
+    ContextManager.set(contextID, AudioClient, contextID);
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+
+    test("Can set and get options", () => {
+        const injector = new AudioInjector(contextID, new Sound(new Int16Array(10)), { volume: 0.5, loop: "true" });
+        expect(injector.getOptions()).toStrictEqual({
+            position: { x: 0, y: 0, z: 0 },
+            orientation: { x: 0, y: 0, z: 0, w: 1 },
+            volume: 0.5,
+            loop: false,
+            localOnly: false
+        });
+        injector.setOptions({ position: { x: 1, y: 2, z: 3 }, volume: 2 });
+        expect(injector.getOptions().position).toStrictEqual({ x: 1, y: 2, z: 3 });
+        expect(injector.getOptions().volume).toBe(1);
+    });
+
+    test("An injector finishes playing at the end of its sound", () => {
+        const sound = new Sound(new Int16Array(2 * AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL + 1));
+        const injector = new AudioInjector(contextID, sound, {});
+        let finished = false;
+        injector.finished.connect(() => {
+            finished = true;
+        });
+
+        expect(injector.isPlaying()).toBe(true);
+        injector.inject();
+        expect(injector.isPlaying()).toBe(true);
+        jest.advanceTimersByTime(AudioConstants.NETWORK_FRAME_MSECS);
+        expect(injector.isPlaying()).toBe(true);
+        jest.advanceTimersByTime(AudioConstants.NETWORK_FRAME_MSECS);
+        expect(injector.isPlaying()).toBe(false);
+        jest.runOnlyPendingTimers();  // Signals are emitted asynchronously.
+        expect(finished).toBe(true);
+    });
+
+    test("A looping injector plays until it is stopped", () => {
+        const sound = new Sound(new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL / 2));
+        const injector = new AudioInjector(contextID, sound, { loop: true });
+        let finishedCount = 0;
+        injector.finished.connect(() => {
+            finishedCount += 1;
+        });
+
+        injector.inject();
+        jest.advanceTimersByTime(10 * AudioConstants.NETWORK_FRAME_MSECS);
+        expect(injector.isPlaying()).toBe(true);
+        injector.stop();
+        expect(injector.isPlaying()).toBe(false);
+        injector.stop();
+        jest.runOnlyPendingTimers();  // Signals are emitted asynchronously.
+        expect(finishedCount).toBe(1);
+    });
+
+    test("A local-only injector finishes if the audio output hasn't been set up", () => {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => { /* no-op */ });
+        const injector = new AudioInjector(contextID, new Sound(new Int16Array(10)), { localOnly: true });
+        injector.inject();
+        expect(injector.isPlaying()).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockReset();
+    });
+
+    log.mockReset();
+});
@@ -34,10 +34,106 @@ describe("InboundAudioStream - unit tests", () => {
     ContextManager.set(contextID, AudioOutput);
 
     /* eslint-disable @typescript-eslint/no-magic-numbers */
+    /* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+    /* eslint-disable @typescript-eslint/no-unsafe-return */
 
     // Suppress console messages from being displayed.
     const warn = jest.spyOn(console, "warn").mockImplementation(() => { /* no-op */ });
 
+    const TEST_CODEC_NAME = "test";
+
+    // A MixedAudio or SilentAudioFrame message. A MixedAudio message's audio data is a single byte for the test codec or a
+    // network frame of samples of the value for PCM.
+    function createMessage(messageType, sequenceNumber, value, codecName = TEST_CODEC_NAME) {
+        const codecNameSize = codecName.length;
+        const audioDataSize = codecName === "pcm" ? AudioConstants.NETWORK_FRAME_SAMPLES_STEREO * 2 : 1;
+        const data = new DataView(new ArrayBuffer(2 + 4 + codecNameSize
+            + (messageType === PacketType.MixedAudio ? audioDataSize : 4)));
+        data.setUint16(0, sequenceNumber, true);
+        data.setUint32(2, codecNameSize, true);
+        for (let i = 0; i < codecNameSize; i++) {
+            data.setUint8(6 + i, codecName.charCodeAt(i));
+        }
+        if (messageType === PacketType.MixedAudio && codecName === "pcm") {
+            for (let i = 0; i < AudioConstants.NETWORK_FRAME_SAMPLES_STEREO; i++) {
+                data.setInt16(6 + codecNameSize + 2 * i, value, true);
+            }
+        } else if (messageType === PacketType.MixedAudio) {
+            data.setUint8(6 + codecNameSize, value);
+        } else {
+            data.setUint32(6 + codecNameSize, AudioConstants.NETWORK_FRAME_SAMPLES_STEREO, true);
+        }
+        return {
+            getType: () => {
+                return messageType;
+            },
+            getMessage: () => {
+                return data;
+            }
+        };
+    }
+
+    // A codec whose decoded frames are filled with the encoded byte value and whose lost frames are filled with -1.
+    function createTestCodec(isAsynchronous) {
+        const pendingOutput = [];
+        const codec = {
+            getName: () => {
+                return TEST_CODEC_NAME;
+            },
+            createDecoder: (sampleRate, numChannels, callback) => {
+                const output = (value) => {
+                    const decodedBuffer = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO).fill(value);
+                    if (isAsynchronous) {
+                        pendingOutput.push(() => {
+                            callback(decodedBuffer);
+                        });
+                    } else {
+                        callback(decodedBuffer);
+                    }
+                };
+                return {
+                    decode: (encodedBuffer) => {
+                        output(encodedBuffer[0]);
+                    },
+                    lostFrame: () => {
+                        output(-1);
+                    }
+                };
+            },
+            releaseDecoder: () => {
+                // No-op.
+            }
+        };
+        const finishDecoding = () => {
+            while (pendingOutput.length > 0) {
+                pendingOutput.shift()();
+            }
+        };
+        return { codec, finishDecoding };
+    }
+
+    // Captures the first sample value of each block of audio written to the audio output, and the blocks themselves.
+    function captureAudioOutput() {
+        /** @type {AudioOutput} */
+        const audioOutput = ContextManager.get(contextID, AudioOutput);
+        const written = [];
+        const writtenData = [];
+        const writeData = jest.spyOn(audioOutput, "writeData").mockImplementation((pcmData) => {
+            written.push(pcmData[0]);
+            writtenData.push(pcmData);
+        });
+        return { written, writtenData, writeData };
+    }
+
+    // Creates a stream that uses the synchronous test codec.
+    function createTestCodecStream() {
+        const { codec } = createTestCodec(false);
+        const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+        inboundAudioStream.setupCodec(codec, TEST_CODEC_NAME, AudioConstants.STEREO);
+        return inboundAudioStream;
+    }
+
 
     test("Can parse a silent audio packet", () => {
         const PACKET_HEX = "b90200000c188d32cdc72b0d8626d38a1f4943393e8f3a759602040000006f707573e0010000";
@@ -61,14 +157,185 @@ describe("InboundAudioStream - unit tests", () => {
         expect(bytesProcessed).toBe(14);
     });
 
+    test("Sets the audio output's target buffer size per the jitter buffer", () => {
+        const audioOutput = ContextManager.get(contextID, AudioOutput);
+        const setTargetBufferSize = jest.spyOn(audioOutput, "setTargetBufferSize");
+
+        // Dynamic: minimum desired frames plus padding, in audio blocks.
+        let inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(2);
+        expect(setTargetBufferSize).toHaveBeenLastCalledWith(6);
+
+        // Static.
+        inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, 20);
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(11);
+        expect(setTargetBufferSize).toHaveBeenLastCalledWith(20);
+
+        setTargetBufferSize.mockRestore();
+    });
+
     test("Can set and clear the codec", () => {
         const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
             AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
-        inboundAudioStream.setupCodec("pcm");
+        inboundAudioStream.setupCodec(null, "pcm", AudioConstants.STEREO);
         inboundAudioStream.cleanupCodec();
         expect(true).toBe(true);
     });
 
+    test("Can set and clear the reverb", () => {
+        const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+        expect(inboundAudioStream.hasReverb()).toBe(false);
+        inboundAudioStream.setReverb(1.5, -6);
+        expect(inboundAudioStream.hasReverb()).toBe(true);
+        expect(inboundAudioStream.getReverbTime()).toBe(1.5);
+        expect(inboundAudioStream.getWetLevel()).toBe(-6);
+        inboundAudioStream.clearReverb();
+        expect(inboundAudioStream.hasReverb()).toBe(false);
+    });
+
+    test("Uses the decoder to generate the first of consecutive lost frames", () => {
+        const { written, writeData } = captureAudioOutput();
+        const { codec } = createTestCodec(false);
+        const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+        inboundAudioStream.setupCodec(codec, TEST_CODEC_NAME, AudioConstants.STEREO);
+
+        // Messages 2 and 3 are lost.
+        for (const sequenceNumber of [0, 1, 4, 5, 6]) {
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, sequenceNumber + 1));
+        }
+        expect(written).toStrictEqual([1, 2, -1, 0, 5, 6]);
+
+        writeData.mockRestore();
+    });
+
+    test("Writes silence after audio that is still being decoded", () => {
+        const { written, writeData } = captureAudioOutput();
+        const { codec, finishDecoding } = createTestCodec(true);
+        const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+        inboundAudioStream.setupCodec(codec, TEST_CODEC_NAME, AudioConstants.STEREO);
+
+        inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, 0, 1));
+        inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, 1, 2));
+        inboundAudioStream.parseData(createMessage(PacketType.SilentAudioFrame, 2));
+        inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, 3, 3));
+        inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, 4, 4));
+        expect(written).toStrictEqual([]);
+        finishDecoding();
+        expect(written).toStrictEqual([1, 2, 0, 3]);
+
+        writeData.mockRestore();
+    });
+
+    test("Releases out-of-order messages in sequence if they arrive within the reorder window", () => {
+        const { written, writeData } = captureAudioOutput();
+        const inboundAudioStream = createTestCodecStream();
+
+        // Messages are written one message behind, i.e., the last message received is held back.
+        for (const sequenceNumber of [0, 2, 1, 3, 4]) {
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, sequenceNumber + 1));
+        }
+        expect(written).toStrictEqual([1, 2, 3, 4]);
+
+        writeData.mockRestore();
+    });
+
+    test("Inserts silence in place of lost PCM messages", () => {
+        const { writtenData, writeData } = captureAudioOutput();
+        const inboundAudioStream = new InboundAudioStream(contextID, AudioConstants.STEREO,
+            AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL, 100, -1);
+
+        // Message 2 is lost and is treated as lost once the reorder window is exceeded.
+        for (const sequenceNumber of [0, 1, 3, 4, 5]) {
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, 1000, "pcm"));
+        }
+        expect(writtenData.map((pcmData) => {
+            return pcmData.length;
+        })).toStrictEqual(new Array(5).fill(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO));
+        expect(writtenData[2].every((value) => {
+            return value === 0;
+        })).toBe(true);
+        // The audio before the lost message is ramped down to silence and the audio after it is ramped up.
+        expect(writtenData[1][0]).toBe(1000);
+        expect(writtenData[1][AudioConstants.NETWORK_FRAME_SAMPLES_STEREO - 1]).toBe(2);
+        expect(writtenData[3][0]).toBe(0);
+
+        writeData.mockRestore();
+    });
+
+    test("Handles the sequence number wrapping around from 65535 to 0", () => {
+        const { written, writeData } = captureAudioOutput();
+        const inboundAudioStream = createTestCodecStream();
+
+        for (const [sequenceNumber, value] of [[65534, 1], [0, 3], [65535, 2], [1, 4], [2, 5]]) {
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, value));
+        }
+        expect(written).toStrictEqual([1, 2, 3, 4]);
+
+        writeData.mockRestore();
+    });
+
+    test("Resynchronizes after an unreasonable gap in sequence numbers", () => {
+        const { written, writeData } = captureAudioOutput();
+        const inboundAudioStream = createTestCodecStream();
+
+        // E.g., the audio mixer restarted its sequence numbers. No lost frames are generated for the gap.
+        for (const [sequenceNumber, value] of [[3000, 1], [3001, 2], [3002, 3], [10, 4], [11, 5], [12, 6]]) {
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, value));
+        }
+        expect(written).toStrictEqual([1, 2, 3, 4, 5]);
+
+        writeData.mockRestore();
+    });
+
+    test("Grows the desired jitter buffer size if it starves and shrinks it when the gaps reduce", () => {
+        jest.useFakeTimers();
+        const { writeData } = captureAudioOutput();
+        /** @type {AudioOutput} */
+        const audioOutput = ContextManager.get(contextID, AudioOutput);
+        audioOutput.processAudioOutputMessage({ data: { bufferLength: 0, starveCount: 0 } });
+        const inboundAudioStream = createTestCodecStream();
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(2);
+
+        let sequenceNumber = 0;
+        const receiveMessage = (gap) => {
+            jest.advanceTimersByTime(gap);
+            inboundAudioStream.parseData(createMessage(PacketType.MixedAudio, sequenceNumber, 1));
+            sequenceNumber += 1;
+        };
+
+        // 50ms gaps.
+        for (let i = 0; i < 5; i++) {
+            receiveMessage(50);
+        }
+        inboundAudioStream.perSecondCallbackForUpdatingStats();
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(2);
+
+        // Starving too often grows the desired size to cover the gaps.
+        for (let i = 1; i <= 3; i++) {
+            audioOutput.processAudioOutputMessage({ data: { bufferLength: 0, starveCount: i } });
+            receiveMessage(50);
+        }
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(5);
+
+        // 10ms gaps for long enough shrink the desired size back to the minimum.
+        for (let i = 0; i < 11; i++) {
+            receiveMessage(10);
+            inboundAudioStream.perSecondCallbackForUpdatingStats();
+            expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(5);
+        }
+        receiveMessage(10);
+        expect(inboundAudioStream.getDesiredJitterBufferFrames()).toBe(2);
+
+        audioOutput.processAudioOutputMessage({ data: { bufferLength: 0, starveCount: 0 } });
+        writeData.mockRestore();
+        jest.useRealTimers();
+    });
+
 
     warn.mockReset();
 
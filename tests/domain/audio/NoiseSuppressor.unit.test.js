@@ -0,0 +1,84 @@
+//
+//  NoiseSuppressor.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import NoiseSuppressor from "../../../src/domain/audio/NoiseSuppressor";
+
+
+describe("NoiseSuppressor - unit tests", () => {
+
+    // Deterministic pseudo-random noise.
+    let seed = 1;
+    function random() {
+        seed = seed * 16807 % 2147483647;
+        return seed / 2147483647;
+    }
+
+    function createFrame(noiseAmplitude, toneAmplitude) {
+        // Noise plus a 1kHz tone at 24kHz.
+        const frame = new Int16Array(240);
+        for (let i = 0; i < frame.length; i++) {
+            frame[i] = Math.round(noiseAmplitude * (2 * random() - 1) + toneAmplitude * Math.sin(2 * Math.PI * i / 24));
+        }
+        return frame;
+    }
+
+    function rms(frame) {
+        let sumOfSquares = 0;
+        let count = 0;
+        for (const value of frame) {
+            sumOfSquares += value * value;
+            count += 1;
+        }
+        return Math.sqrt(sumOfSquares / count);
+    }
+
+
+    test("Steady noise is attenuated", () => {
+        const suppressor = new NoiseSuppressor(1);
+        let input = null;
+        let output = null;
+        for (let i = 0; i < 100; i++) {
+            input = createFrame(1000, 0);
+            output = new Int16Array(input);
+            suppressor.render(output);
+        }
+        expect(rms(output)).toBeLessThan(rms(input) / 2);
+    });
+
+    test("Speech over steady noise passes through", () => {
+        const suppressor = new NoiseSuppressor(2);
+        for (let i = 0; i < 100; i++) {
+            suppressor.render(createFrame(200, 0));
+        }
+        suppressor.render(createFrame(200, 10000));
+        const input = createFrame(200, 10000);
+        const output = new Int16Array(input);
+        suppressor.render(output);
+        expect(rms(output)).toBeGreaterThan(rms(input) * 0.8);
+    });
+
+    test("Audio is unchanged when no suppression is applied", () => {
+        const suppressor = new NoiseSuppressor(1);
+        for (let i = 0; i < 10; i++) {
+            suppressor.render(createFrame(0, 0));
+        }
+        suppressor.render(createFrame(0, 10000));
+        const input = createFrame(0, 10000);
+        const output = new Int16Array(input);
+        suppressor.render(output);
+        for (let i = 0; i < input.length; i++) {
+            expect(Math.abs(output[i] - input[i])).toBeLessThanOrEqual(1);
+        }
+    });
+
+});
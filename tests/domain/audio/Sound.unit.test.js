@@ -0,0 +1,39 @@
+//
+//  Sound.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Sound from "../../../src/domain/audio/Sound";
+
+
+describe("Sound - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("A raw PCM sound is ready to play immediately", async () => {
+        const audioData = new Int16Array([1, 2, 3, 4]);
+        const sound = new Sound(audioData);
+        expect(sound.isReady()).toBe(true);
+        expect(sound.isStereo()).toBe(false);
+        expect(sound.getAudioData()).toBe(audioData);
+        expect(await sound.load()).toBe(true);
+    });
+
+    test("A sound that can't be decoded isn't ready to play", async () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const sound = new Sound(new ArrayBuffer(8));
+        expect(sound.isReady()).toBe(false);
+        expect(sound.getAudioData()).toBeNull();
+        expect(await sound.load()).toBe(false);
+        expect(sound.isReady()).toBe(false);
+        expect(error).toHaveBeenCalledTimes(1);
+        error.mockReset();
+    });
+
+});
@@ -20,6 +20,7 @@ import AddressManager from "../../../src/domain/networking/AddressManager";
 import NodeList from "../../../src/domain/networking/NodeList";
 import AvatarConstants from "../../../src/domain/shared/AvatarConstants";
 import ContextManager from "../../../src/domain/shared/ContextManager";
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
 
 
 describe("Avatar - unit tests", () => {
@@ -28,6 +29,7 @@ describe("Avatar - unit tests", () => {
     ContextManager.set(contextID, AccountManager, contextID);
     ContextManager.set(contextID, AddressManager);
     ContextManager.set(contextID, NodeList, contextID);
+    ContextManager.set(contextID, SpatialParentFinder);
 
     test("Can mark the avatar as being initialized", () => {
         const avatar = new Avatar(contextID);
@@ -48,8 +48,23 @@ describe("ScriptAvatar - unit tests", () => {
         expect(scriptAvatar.orientation).toEqual(Quat.IDENTITY);
         expect(scriptAvatar.jointRotations).toEqual([]);
         expect(scriptAvatar.jointTranslations).toEqual([]);
+        expect(scriptAvatar.avatarEntities).toEqual([]);
+        expect(scriptAvatar.grabs).toEqual([]);
+        expect(scriptAvatar.farGrabJoints).toBeNull();
+        expect(scriptAvatar.boundingBox).toBeNull();
+        expect(scriptAvatar.lookAtPosition).toBeNull();
+        expect(scriptAvatar.sensorToWorldMatrix).toBeNull();
+        expect(scriptAvatar.parentID).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(scriptAvatar.parentJointIndex).toBe(65535);
+        expect(scriptAvatar.leftHandController).toBeNull();
+        expect(scriptAvatar.rightHandController).toBeNull();
+        expect(scriptAvatar.blendshapeCoefficients).toEqual([]);
 
         // Can access signals.
+        expect(typeof scriptAvatar.avatarEntitiesChanged.connect).toBe("function");
+        expect(typeof scriptAvatar.avatarEntitiesChanged.disconnect).toBe("function");
+        expect(typeof scriptAvatar.grabsChanged.connect).toBe("function");
+        expect(typeof scriptAvatar.grabsChanged.disconnect).toBe("function");
         expect(typeof scriptAvatar.displayNameChanged.connect).toBe("function");
         expect(typeof scriptAvatar.displayNameChanged.disconnect).toBe("function");
         expect(typeof scriptAvatar.scaleChanged.connect).toBe("function");
@@ -83,8 +98,23 @@ describe("ScriptAvatar - unit tests", () => {
         expect(scriptAvatar.orientation).toEqual(Quat.IDENTITY);
         expect(scriptAvatar.jointRotations).toEqual([]);
         expect(scriptAvatar.jointTranslations).toEqual([]);
+        expect(scriptAvatar.avatarEntities).toEqual([]);
+        expect(scriptAvatar.grabs).toEqual([]);
+        expect(scriptAvatar.farGrabJoints).toBeNull();
+        expect(scriptAvatar.boundingBox).toBeNull();
+        expect(scriptAvatar.lookAtPosition).toBeNull();
+        expect(scriptAvatar.sensorToWorldMatrix).toBeNull();
+        expect(scriptAvatar.parentID).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(scriptAvatar.parentJointIndex).toBe(65535);
+        expect(scriptAvatar.leftHandController).toBeNull();
+        expect(scriptAvatar.rightHandController).toBeNull();
+        expect(scriptAvatar.blendshapeCoefficients).toEqual([]);
 
         // Can access signals.
+        expect(typeof scriptAvatar.avatarEntitiesChanged.connect).toBe("function");
+        expect(typeof scriptAvatar.avatarEntitiesChanged.disconnect).toBe("function");
+        expect(typeof scriptAvatar.grabsChanged.connect).toBe("function");
+        expect(typeof scriptAvatar.grabsChanged.disconnect).toBe("function");
         expect(typeof scriptAvatar.displayNameChanged.connect).toBe("function");
         expect(typeof scriptAvatar.displayNameChanged.disconnect).toBe("function");
         expect(typeof scriptAvatar.scaleChanged.connect).toBe("function");
@@ -23,6 +23,7 @@ import AddressManager from "../../../src/domain/networking/AddressManager";
 import NodeList from "../../../src/domain/networking/NodeList";
 import AvatarConstants from "../../../src/domain/shared/AvatarConstants";
 import ContextManager from "../../../src/domain/shared/ContextManager";
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
 
 
 describe("MyAvatar - unit tests", () => {
@@ -31,6 +32,7 @@ describe("MyAvatar - unit tests", () => {
     ContextManager.set(contextID, AccountManager, contextID);
     ContextManager.set(contextID, AddressManager);
     ContextManager.set(contextID, NodeList, contextID);
+    ContextManager.set(contextID, SpatialParentFinder);
 
     test("Can limit the avatar height per the domain", (done) => {
         const avatar = new MyAvatar(contextID);
@@ -19,8 +19,11 @@ import AvatarData from "../../../src/domain/avatars/AvatarData";
 import AccountManager from "../../../src/domain/networking/AccountManager";
 import AddressManager from "../../../src/domain/networking/AddressManager";
 import NodeList from "../../../src/domain/networking/NodeList";
+import PacketScribe from "../../../src/domain/networking/packets/PacketScribe";
 import AvatarConstants from "../../../src/domain/shared/AvatarConstants";
 import ContextManager from "../../../src/domain/shared/ContextManager";
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
+import SpatiallyNestable from "../../../src/domain/shared/SpatiallyNestable";
 import { Uuid } from "../../../src/Vircadia";
 
 
@@ -32,6 +35,7 @@ describe("AvatarData - unit tests", () => {
     ContextManager.set(contextID, AccountManager, contextID);
     ContextManager.set(contextID, AddressManager);
     ContextManager.set(contextID, NodeList, contextID);
+    ContextManager.set(contextID, SpatialParentFinder);
 
 
     test("Can set and get the session UUID", () => {
@@ -115,4 +119,142 @@ describe("AvatarData - unit tests", () => {
         }, 10);
     });
 
+    test("Can process received avatar data", () => {
+        const avatarData = new AvatarData(contextID);
+        expect(avatarData.getAvatarBoundingBox()).toBeNull();
+        expect(avatarData.getLookAtPosition()).toBeNull();
+        expect(avatarData.getSensorToWorldMatrix()).toBeNull();
+        expect(avatarData.getAdditionalFlags()).toStrictEqual({
+            keyState: 0,
+            handState: 0,
+            hasScriptedBlendshapes: false,
+            hasProceduralEyeMovement: true,
+            audioEnabledFaceMovement: true,
+            proceduralEyeFaceMovement: true,
+            proceduralBlinkFaceMovement: true,
+            collideWithOtherAvatars: true,
+            hasPriority: false
+        });
+        expect(avatarData.getParentID()).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(avatarData.getParentJointIndex()).toBe(65535);
+        expect(avatarData.getLeftHandController()).toBeNull();
+        expect(avatarData.getRightHandController()).toBeNull();
+        expect(avatarData.getFaceTrackerInfo()).toBeNull();
+
+        const avatarBoundingBox = { dimensions: { x: 0.5, y: 1.8, z: 0.4 }, offset: { x: -0.25, y: 0, z: -0.2 } };
+        const additionalFlags = {
+            keyState: 1,
+            handState: 2,
+            hasScriptedBlendshapes: false,
+            hasProceduralEyeMovement: true,
+            audioEnabledFaceMovement: true,
+            proceduralEyeFaceMovement: true,
+            proceduralBlinkFaceMovement: true,
+            collideWithOtherAvatars: true,
+            hasPriority: false
+        };
+        const handControllers = {
+            left: { position: { x: -0.2, y: 1.2, z: 0.3 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+            right: { position: { x: 0.2, y: 1.2, z: 0.3 }, rotation: { x: 0, y: 0, z: 0, w: 1 } }
+        };
+        const faceTrackerInfo = {
+            leftEyeBlink: 0.1,
+            rightEyeBlink: 0.2,
+            averageLoudness: 3,
+            browAudioLift: 0.4,
+            blendshapeCoefficients: [0.5, 0.6]
+        };
+        avatarData.parseDataFromBuffer({
+            sessionUUID: new Uuid(1234n),
+            globalPosition: { x: 1, y: 2, z: 3 },
+            avatarBoundingBox,
+            lookAtPosition: { x: 4, y: 5, z: 6 },
+            sensorToWorldMatrix: { rotation: { x: 0, y: 0, z: 0, w: 1 }, scale: 2, translation: { x: 7, y: 8, z: 9 } },
+            additionalFlags,
+            parentInfo: { parentID: new Uuid(5678n), parentJointIndex: 3 },
+            handControllers,
+            faceTrackerInfo
+        });
+
+        expect(avatarData.getWorldPosition()).toStrictEqual({ x: 1, y: 2, z: 3 });
+        expect(avatarData.getAvatarBoundingBox()).toStrictEqual(avatarBoundingBox);
+        expect(avatarData.getLookAtPosition()).toStrictEqual({ x: 4, y: 5, z: 6 });
+        expect(avatarData.getSensorToWorldMatrix()).toStrictEqual({
+            r0c0: 2, r1c0: 0, r2c0: 0, r3c0: 0,
+            r0c1: 0, r1c1: 2, r2c1: 0, r3c1: 0,
+            r0c2: 0, r1c2: 0, r2c2: 2, r3c2: 0,
+            r0c3: 7, r1c3: 8, r2c3: 9, r3c3: 1
+        });
+        expect(avatarData.getAdditionalFlags()).toStrictEqual(additionalFlags);
+        expect(avatarData.getParentID()).toStrictEqual(new Uuid(5678n));
+        expect(avatarData.getParentJointIndex()).toBe(3);
+        expect(avatarData.getLeftHandController()).toStrictEqual(handControllers.left);
+        expect(avatarData.getRightHandController()).toStrictEqual(handControllers.right);
+        expect(avatarData.getFaceTrackerInfo()).toStrictEqual(faceTrackerInfo);
+        expect(avatarData.getBlendshapeCoefficients()).toStrictEqual([0.5, 0.6]);
+
+        // A parented avatar's local position is relative to its parent.
+        avatarData.parseDataFromBuffer({
+            sessionUUID: new Uuid(1234n),
+            globalPosition: { x: 10, y: 11, z: 12 },
+            localPosition: { x: 0, y: 0.5, z: 0 }
+        });
+        expect(avatarData.getClientGlobalPosition()).toStrictEqual({ x: 10, y: 11, z: 12 });
+        expect(avatarData.getLocalPosition()).toStrictEqual({ x: 0, y: 0.5, z: 0 });
+        expect(avatarData.getTransform()).toBeNull();
+        /** @type {SpatialParentFinder} */
+        const parentFinder = ContextManager.get(contextID, SpatialParentFinder);
+        parentFinder.addParentTree({
+            findNestableTransform: (id) => {
+                return id.value() === 5678n
+                    ? { position: { x: 10, y: 10.5, z: 12 }, rotation: { x: 0, y: 0, z: 0, w: 1 } }
+                    : null;
+            }
+        });
+        expect(avatarData.getWorldPosition()).toStrictEqual({ x: 10, y: 11, z: 12 });
+    });
+
+    test("Can send parent info and local position", () => {
+        const avatarData = new AvatarData(contextID);
+        avatarData.setWorldPosition({ x: 1, y: 2, z: 3 });
+        const sendSpy = jest.spyOn(PacketScribe.AvatarData, "write");
+
+        avatarData.sendAvatarDataPacket(true);
+        expect(sendSpy).toHaveBeenLastCalledWith(expect.objectContaining({
+            parentInfo: { parentID: new Uuid(Uuid.NULL), parentJointIndex: SpatiallyNestable.INVALID_JOINT_INDEX },
+            localPosition: undefined
+        }));
+
+        avatarData.setParentID(new Uuid(5678n));
+        avatarData.setLocalPosition({ x: 0, y: 1, z: 0 });
+        avatarData.sendAvatarDataPacket();
+        expect(sendSpy).toHaveBeenLastCalledWith(expect.objectContaining({
+            parentInfo: { parentID: new Uuid(5678n), parentJointIndex: SpatiallyNestable.INVALID_JOINT_INDEX },
+            localPosition: { x: 0, y: 1, z: 0 }
+        }));
+
+        sendSpy.mockRestore();
+    });
+
+    test("Can set the blendshape coefficients", () => {
+        const avatarData = new AvatarData(contextID);
+        expect(avatarData.getBlendshapeCoefficients()).toStrictEqual([]);
+
+        avatarData.setBlendshapeCoefficients([0.1, 0.2, 0.3]);
+        expect(avatarData.getBlendshapeCoefficients()).toStrictEqual([0.1, 0.2, 0.3]);
+        expect(avatarData.getAdditionalFlags().hasScriptedBlendshapes).toBe(true);
+        expect(avatarData.getFaceTrackerInfo()).toStrictEqual({
+            leftEyeBlink: 0,
+            rightEyeBlink: 0,
+            averageLoudness: 0,
+            browAudioLift: 0,
+            blendshapeCoefficients: [0.1, 0.2, 0.3]
+        });
+
+        avatarData.setBlendshapeCoefficients([]);
+        expect(avatarData.getBlendshapeCoefficients()).toStrictEqual([]);
+        expect(avatarData.getAdditionalFlags().hasScriptedBlendshapes).toBe(false);
+        expect(avatarData.getFaceTrackerInfo()).toBeNull();
+    });
+
 });
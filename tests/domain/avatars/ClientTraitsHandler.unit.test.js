@@ -18,6 +18,7 @@ import AccountManager from "../../../src/domain/networking/AccountManager";
 import AddressManager from "../../../src/domain/networking/AddressManager";
 import NodeList from "../../../src/domain/networking/NodeList";
 import ContextManager from "../../../src/domain/shared/ContextManager";
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
 
 
 describe("ClientTraitsHandler - unit tests", () => {
@@ -25,6 +26,7 @@ describe("ClientTraitsHandler - unit tests", () => {
     ContextManager.set(contextID, AccountManager, contextID);
     ContextManager.set(contextID, AddressManager);
     ContextManager.set(contextID, NodeList, contextID);
+    ContextManager.set(contextID, SpatialParentFinder);
 
     test("Can create a ClientTraitsHandler", () => {
         const avatarData = new AvatarData(contextID);
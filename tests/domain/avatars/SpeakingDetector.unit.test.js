@@ -0,0 +1,125 @@
+//
+//  SpeakingDetector.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import SpeakingDetector from "../../../src/domain/avatars/SpeakingDetector";
+import Uuid from "../../../src/domain/shared/Uuid";
+
+
+describe("SpeakingDetector - unit tests", () => {
+
+    const START = SpeakingDetector.START_SPEAKING_LOUDNESS;
+    const STOP = SpeakingDetector.STOP_SPEAKING_LOUDNESS;
+    const HOLD = SpeakingDetector.HOLD_TIME;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+
+    test("Thresholds are sensible", () => {
+        expect(START).toBeGreaterThan(STOP);
+        expect(STOP).toBeGreaterThan(0);
+        expect(HOLD).toBeGreaterThan(0);
+    });
+
+    test("Avatar starts speaking above the start threshold", () => {
+        const detector = new SpeakingDetector();
+        const id = new Uuid(1n);
+        const changes = [];
+        detector.speakingChanged.connect((avatarID, isSpeaking) => {
+            changes.push([avatarID, isSpeaking]);
+        });
+
+        detector.setLoudness(id, START);
+        detector.update(0);
+        expect(detector.isSpeaking(id)).toBe(false);
+
+        detector.setLoudness(id, START + 1);
+        detector.update(10);
+        expect(detector.isSpeaking(id)).toBe(true);
+
+        jest.runOnlyPendingTimers();
+        expect(changes).toStrictEqual([[id, true]]);
+    });
+
+    test("Avatar stops speaking only after being below the stop threshold for the hold time", () => {
+        const detector = new SpeakingDetector();
+        const id = new Uuid(1n);
+        const changes = [];
+        detector.speakingChanged.connect((avatarID, isSpeaking) => {
+            changes.push([avatarID, isSpeaking]);
+        });
+
+        detector.setLoudness(id, START + 1);
+        detector.update(0);
+        expect(detector.isSpeaking(id)).toBe(true);
+
+        // Between the thresholds keeps speaking.
+        detector.setLoudness(id, STOP);
+        detector.update(1000);
+        expect(detector.isSpeaking(id)).toBe(true);
+
+        // A brief pause keeps speaking.
+        detector.setLoudness(id, 0);
+        detector.update(2000);
+        detector.update(2000 + HOLD - 1);
+        expect(detector.isSpeaking(id)).toBe(true);
+        detector.setLoudness(id, STOP + 1);
+        detector.update(2000 + HOLD);
+        expect(detector.isSpeaking(id)).toBe(true);
+
+        // A long pause stops speaking.
+        detector.setLoudness(id, STOP - 1);
+        detector.update(3000);
+        detector.update(3000 + HOLD);
+        expect(detector.isSpeaking(id)).toBe(false);
+
+        jest.runOnlyPendingTimers();
+        expect(changes).toStrictEqual([[id, true], [id, false]]);
+    });
+
+    test("Can get active speakers sorted by loudness", () => {
+        const detector = new SpeakingDetector();
+        detector.setLoudness(new Uuid(1n), START + 10);
+        detector.setLoudness(new Uuid(2n), START - 10);
+        detector.setLoudness(new Uuid(3n), START + 100);
+        detector.update(0);
+        expect(detector.getActiveSpeakers().map((id) => {
+            return id.value();
+        })).toStrictEqual([3n, 1n]);
+    });
+
+    test("Removing a speaking avatar stops it speaking", () => {
+        const detector = new SpeakingDetector();
+        const id = new Uuid(1n);
+        const changes = [];
+        detector.speakingChanged.connect((avatarID, isSpeaking) => {
+            changes.push([avatarID, isSpeaking]);
+        });
+
+        detector.setLoudness(id, START + 1);
+        detector.update(0);
+        detector.remove(id);
+        expect(detector.isSpeaking(id)).toBe(false);
+        expect(detector.getActiveSpeakers()).toStrictEqual([]);
+
+        detector.remove(new Uuid(2n));
+        jest.runOnlyPendingTimers();
+        expect(changes).toStrictEqual([[id, true], [id, false]]);
+    });
+
+});
@@ -0,0 +1,133 @@
+//
+//  PolyVoxVolume.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { deflate } from "pako";
+import PolyVoxVolume from "../../../src/domain/entities-renderer/PolyVoxVolume";
+import PolyVoxSurfaceStyle from "../../../src/domain/shared/PolyVoxSurfaceStyle";
+
+
+describe("PolyVoxVolume - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    /* eslint-disable @typescript-eslint/no-unsafe-assignment */
+    /* eslint-disable @typescript-eslint/no-unsafe-member-access */
+
+    // Creates voxel data in the format written by the C++ RenderablePolyVoxEntityItem.
+    function createVoxelData(size, voxels) {
+        const compressed = deflate(voxels);
+        const data = new DataView(new ArrayBuffer(14 + compressed.length));
+        data.setUint16(0, size.x);
+        data.setUint16(2, size.y);
+        data.setUint16(4, size.z);
+        data.setUint32(6, 4 + compressed.length);
+        data.setUint32(10, voxels.length);
+        new Uint8Array(data.buffer, 14).set(compressed);
+        return data.buffer;
+    }
+
+    // Checks that every triangle faces away from the point.
+    function expectTrianglesFaceAwayFrom(mesh, point) {
+        const p = mesh.positions;
+        for (let i = 0; i < mesh.indices.length; i += 3) {
+            const [a, b, c] = [mesh.indices[i] * 3, mesh.indices[i + 1] * 3, mesh.indices[i + 2] * 3];
+            const ab = [p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]];
+            const ac = [p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]];
+            const normal = [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]];
+            const outward = [p[a] - point.x, p[a + 1] - point.y, p[a + 2] - point.z];
+            expect(normal[0] * outward[0] + normal[1] * outward[1] + normal[2] * outward[2]).toBeGreaterThan(0);
+        }
+    }
+
+    test("Can create an empty volume", () => {
+        const volume = new PolyVoxVolume({ x: 2.2, y: 0, z: 200 });
+        expect(volume.voxelVolumeSize).toStrictEqual({ x: 2, y: 1, z: 128 });
+        expect(volume.getVoxel(1, 0, 127)).toBe(0);
+        expect(volume.getMesh(PolyVoxSurfaceStyle.EDGED_CUBIC).indices).toHaveLength(0);
+    });
+
+    test("Can decode voxel data", () => {
+        const size = { x: 2, y: 3, z: 4 };
+        const voxels = new Uint8Array(24);
+        voxels[0] = 1;
+        voxels[1 + 2 * 2 + 3 * 6] = 255;
+        const volume = new PolyVoxVolume(size, createVoxelData(size, voxels));
+        expect(volume.getVoxel(0, 0, 0)).toBe(1);
+        expect(volume.getVoxel(1, 2, 3)).toBe(255);
+        expect(volume.getVoxel(1, 1, 1)).toBe(0);
+        expect(volume.getVoxel(2, 0, 0)).toBe(0);
+        expect(volume.getVoxel(-1, 0, 0)).toBe(0);
+    });
+
+    test("Can decode voxel data that includes the upper face layers", () => {
+        const size = { x: 2, y: 2, z: 2 };
+        const voxels = new Uint8Array(27);
+        voxels[1 + 1 * 3 + 1 * 9] = 255;
+        voxels[2 + 2 * 3 + 2 * 9] = 255;
+        const volume = new PolyVoxVolume(size, createVoxelData(size, voxels));
+        expect(volume.getVoxel(1, 1, 1)).toBe(255);
+        expect(volume.getVoxel(0, 0, 0)).toBe(0);
+    });
+
+    test("Reports invalid voxel data", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const size = { x: 2, y: 2, z: 2 };
+        const volume = new PolyVoxVolume(size, createVoxelData(size, new Uint8Array(5).fill(255)));
+        expect(volume.getVoxel(0, 0, 0)).toBe(0);
+        expect(error).toHaveBeenCalledTimes(1);
+        error.mockReset();
+    });
+
+    test("Can generate cubic meshes", () => {
+        const size = { x: 2, y: 2, z: 2 };
+        const voxels = new Uint8Array(8);
+        voxels[0] = 255;
+        const volume = new PolyVoxVolume(size, createVoxelData(size, voxels));
+
+        const edgedMesh = volume.getMesh(PolyVoxSurfaceStyle.EDGED_CUBIC);
+        expect(edgedMesh.positions).toHaveLength(6 * 4 * 3);
+        expect(edgedMesh.normals).toHaveLength(6 * 4 * 3);
+        expect(edgedMesh.indices).toHaveLength(6 * 2 * 3);
+        expect(Math.min(...edgedMesh.positions)).toBe(0);
+        expect(Math.max(...edgedMesh.positions)).toBe(1);
+        expectTrianglesFaceAwayFrom(edgedMesh, { x: 0.5, y: 0.5, z: 0.5 });
+
+        // No faces on the lower x, y, z faces of the volume.
+        const mesh = volume.getMesh(PolyVoxSurfaceStyle.CUBIC);
+        expect(mesh.indices).toHaveLength(3 * 2 * 3);
+        expectTrianglesFaceAwayFrom(mesh, { x: 0.5, y: 0.5, z: 0.5 });
+    });
+
+    test("Can generate marching cubes meshes", () => {
+        const size = { x: 3, y: 3, z: 3 };
+        const voxels = new Uint8Array(27);
+        voxels[1 + 1 * 3 + 1 * 9] = 255;
+        const volume = new PolyVoxVolume(size, createVoxelData(size, voxels));
+
+        const mesh = volume.getMesh(PolyVoxSurfaceStyle.MARCHING_CUBES);
+        expect(mesh.indices.length).toBeGreaterThan(0);
+        expect(mesh.normals).toHaveLength(mesh.positions.length);
+        expect(Math.max(...mesh.indices)).toBe(mesh.positions.length / 3 - 1);
+        expectTrianglesFaceAwayFrom(mesh, { x: 1.5, y: 1.5, z: 1.5 });
+        for (let i = 0; i < mesh.positions.length; i++) {
+            expect(Math.abs(mesh.positions[i] - 1.5)).toBeLessThan(0.51);
+        }
+
+        // A voxel at the volume's lower corner is only enclosed by the edged style.
+        const cornerVoxels = new Uint8Array(27);
+        cornerVoxels[0] = 255;
+        const cornerVolume = new PolyVoxVolume(size, createVoxelData(size, cornerVoxels));
+        const cornerMesh = cornerVolume.getMesh(PolyVoxSurfaceStyle.MARCHING_CUBES);
+        const edgedCornerMesh = cornerVolume.getMesh(PolyVoxSurfaceStyle.EDGED_MARCHING_CUBES);
+        expect(edgedCornerMesh.indices.length).toBeGreaterThan(cornerMesh.indices.length);
+        expectTrianglesFaceAwayFrom(edgedCornerMesh, { x: 0.5, y: 0.5, z: 0.5 });
+    });
+
+});
@@ -0,0 +1,134 @@
+//
+//  EntityItemProperties.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityItemProperties from "../../../src/domain/entities/EntityItemProperties";
+import { EntityPropertyFlags } from "../../../src/domain/entities/EntityPropertyFlags";
+import { EntityType } from "../../../src/domain/entities/EntityTypes";
+import EntityData from "../../../src/domain/networking/packets/EntityData";
+import ByteCountCoded from "../../../src/domain/shared/ByteCountCoded";
+import PropertyFlags from "../../../src/domain/shared/PropertyFlags";
+import Uuid from "../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../testUtils";
+
+
+describe("EntityItemProperties - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const entityID = new Uuid(0xed7acf04adea40c5b32bf50a5f1eae31n);
+    const lastEdited = 0x0102030405060708n;
+
+    // Octal code, last edited, entity ID, entity type, update delta.
+    const HEADER_HEX = "01000807060504030201ed7acf04adea40c5b32bf50a5f1eae314000";
+    const HEADER_BYTES = HEADER_HEX.length / 2;
+
+    test("Can encode an entity edit message", () => {
+        const result = EntityItemProperties.encodeEntityEditPacket(entityID, EntityType.Box, {
+            name: "A",
+            position: { x: 1, y: 2, z: -1 },
+            color: { red: 10, green: 20, blue: 30 },
+            modelURL: "Not a Box property"
+        }, lastEdited, null, 1000);
+
+        expect(result.didntFitProperties.isEmpty()).toBe(true);
+        const editMessage = result.editMessage;
+        expect(buffer2hex(editMessage.slice(0, HEADER_BYTES))).toBe(HEADER_HEX);
+
+        const codec = new ByteCountCoded();
+        codec.decode(new DataView(editMessage.buffer, editMessage.byteOffset + 26), 1);
+        expect(codec.data).toBe(EntityType.Box);
+
+        const propertyFlags = new PropertyFlags();
+        const flagsBytes = propertyFlags.decode(new DataView(editMessage.buffer, editMessage.byteOffset + HEADER_BYTES),
+            editMessage.length - HEADER_BYTES);
+        expect(propertyFlags.getHasProperty(EntityPropertyFlags.PROP_NAME)).toBe(true);
+        expect(propertyFlags.getHasProperty(EntityPropertyFlags.PROP_POSITION)).toBe(true);
+        expect(propertyFlags.getHasProperty(EntityPropertyFlags.PROP_COLOR)).toBe(true);
+        expect(propertyFlags.getHasProperty(EntityPropertyFlags.PROP_MODEL_URL)).toBe(false);
+        expect(propertyFlags.getHasProperty(EntityPropertyFlags.PROP_VISIBLE)).toBe(false);
+
+        expect(buffer2hex(editMessage.slice(HEADER_BYTES + flagsBytes))).toBe("0100410000803f00000040000080bf0a141e");
+    });
+
+    test("Properties that don't fit are reported", () => {
+        const properties = {
+            name: "A",
+            position: { x: 1, y: 2, z: -1 }
+        };
+        const maxFlagsBytes = Math.floor(EntityPropertyFlags.PROP_AFTER_LAST_ITEM / 7) + 1;
+        const maxSize = HEADER_BYTES + maxFlagsBytes + 3;
+
+        const result = EntityItemProperties.encodeEntityEditPacket(entityID, EntityType.Box, properties, lastEdited, null,
+            maxSize);
+        expect(result.didntFitProperties.getHasProperty(EntityPropertyFlags.PROP_NAME)).toBe(false);
+        expect(result.didntFitProperties.getHasProperty(EntityPropertyFlags.PROP_POSITION)).toBe(true);
+
+        const remainder = EntityItemProperties.encodeEntityEditPacket(entityID, EntityType.Box, properties, lastEdited,
+            result.didntFitProperties, 1000);
+        expect(remainder.didntFitProperties.isEmpty()).toBe(true);
+        expect(buffer2hex(remainder.editMessage.slice(-12))).toBe("0000803f00000040000080bf");
+    });
+
+    test("Returns null if no properties fit", () => {
+        const result = EntityItemProperties.encodeEntityEditPacket(entityID, EntityType.Box, { name: "Name" }, lastEdited,
+            null, 40);
+        expect(result).toBeNull();
+    });
+
+    test("Can encode entity data that can be read back", () => {
+        const created = 0x0102030405060700n;
+        const entityData = EntityItemProperties.encodeEntityData(entityID, EntityType.Box, {
+            name: "A",
+            position: { x: 1, y: 2, z: -1 },
+            color: { red: 10, green: 20, blue: 30 }
+        }, created, lastEdited, 1000);
+
+        const properties = EntityData.readEntityItem(new DataView(entityData.buffer, entityData.byteOffset,
+            entityData.byteLength));
+        expect(properties.entityItemID.value()).toBe(entityID.value());
+        expect(properties.entityType).toBe(EntityType.Box);
+        expect(properties.createdFromBuffer).toBe(created);
+        expect(properties.lastEdited).toBe(lastEdited);
+        expect(properties.name).toBe("A");
+        expect(properties.position).toStrictEqual({ x: 1, y: 2, z: -1 });
+        expect(properties.color).toStrictEqual({ red: 10, green: 20, blue: 30 });
+    });
+
+    test("Returns null if entity data can't be read back", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const entityData = EntityItemProperties.encodeEntityData(entityID, EntityType.Box, { name: "Name" }, lastEdited,
+            lastEdited, 1000);
+
+        const properties = EntityData.readEntityItem(new DataView(entityData.buffer, entityData.byteOffset,
+            entityData.byteLength - 8));
+        expect(properties).toBeNull();
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(error.mock.calls[0][0]).toBe("[EntityData] Could not read entity data:");
+        error.mockRestore();
+    });
+
+    test("Returns null if the entity data doesn't fit", () => {
+        const entityData = EntityItemProperties.encodeEntityData(entityID, EntityType.Box, { name: "Name" }, lastEdited,
+            lastEdited, 40);
+        expect(entityData).toBeNull();
+    });
+
+    test("Can add only entity types whose properties can be encoded", () => {
+        expect(EntityItemProperties.canAddEntityType(EntityType.Box)).toBe(true);
+        expect(EntityItemProperties.canAddEntityType(EntityType.Sphere)).toBe(true);
+        expect(EntityItemProperties.canAddEntityType(EntityType.Shape)).toBe(true);
+        expect(EntityItemProperties.canAddEntityType(EntityType.Model)).toBe(true);
+        expect(EntityItemProperties.canAddEntityType(EntityType.Text)).toBe(false);
+        expect(EntityItemProperties.canAddEntityType(EntityType.Zone)).toBe(false);
+    });
+
+});
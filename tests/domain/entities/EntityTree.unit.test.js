@@ -0,0 +1,131 @@
+//
+//  EntityTree.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityTree from "../../../src/domain/entities/EntityTree";
+import { EntityType } from "../../../src/domain/entities/EntityTypes";
+import AACube from "../../../src/domain/shared/AACube";
+import Uuid from "../../../src/domain/shared/Uuid";
+
+
+describe("EntityTree - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const ENTITY_A = "11111111-2222-3333-4444-555555555555";
+    const ENTITY_B = "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee";
+    const ENTITY_C = "01234567-89ab-cdef-0123-456789abcdef";
+
+    function entity(id, lastEdited, properties) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+        return {
+            entityItemID: new Uuid(id),
+            entityType: EntityType.Box,
+            lastEdited: BigInt(lastEdited),
+            name: undefined,
+            parentID: undefined,
+            position: undefined,
+            queryAACube: undefined,
+            ...properties
+        };
+    }
+
+
+    test("Can add and update entities", () => {
+        const entityTree = new EntityTree();
+        let updated = entityTree.processEntityData([
+            entity(ENTITY_A, 10, { name: "Alpha", position: { x: 1, y: 2, z: 3 } }),
+            entity(ENTITY_B, 10, { name: "Beta" })
+        ]);
+        expect(updated).toHaveLength(2);
+        expect(entityTree.getEntityIDs()).toHaveLength(2);
+
+        updated = entityTree.processEntityData([entity(ENTITY_A, 20, { position: { x: 4, y: 5, z: 6 } })]);
+        expect(updated).toHaveLength(1);
+        const entityA = entityTree.findEntityByID(new Uuid(ENTITY_A));
+        expect(entityA.name).toBe("Alpha");
+        expect(entityA.position).toStrictEqual({ x: 4, y: 5, z: 6 });
+        expect(entityA.lastEdited).toBe(20n);
+
+        expect(entityTree.findEntityByID(new Uuid(ENTITY_C))).toBeNull();
+    });
+
+    test("Ignores entity data older than the existing data", () => {
+        const entityTree = new EntityTree();
+        entityTree.processEntityData([entity(ENTITY_A, 20, { name: "Alpha" })]);
+        const updated = entityTree.processEntityData([entity(ENTITY_A, 10, { name: "Old" })]);
+        expect(updated).toHaveLength(0);
+        expect(entityTree.findEntityByID(new Uuid(ENTITY_A)).name).toBe("Alpha");
+    });
+
+    test("Deleting an entity deletes its descendants", () => {
+        const entityTree = new EntityTree();
+        entityTree.processEntityData([
+            entity(ENTITY_A, 10, { parentID: null }),
+            entity(ENTITY_B, 10, { parentID: new Uuid(ENTITY_A) }),
+            entity(ENTITY_C, 10, { parentID: new Uuid(ENTITY_B) })
+        ]);
+        const deleted = entityTree.deleteEntities([new Uuid(ENTITY_A)]);
+        expect(deleted.map((id) => {
+            return id.stringify();
+        }).sort()).toStrictEqual([ENTITY_A, ENTITY_B, ENTITY_C].sort());
+        expect(entityTree.getEntityIDs()).toHaveLength(0);
+    });
+
+    test("Can find entities", () => {
+        const entityTree = new EntityTree();
+        entityTree.processEntityData([
+            entity(ENTITY_A, 10, { name: "Chair", queryAACube: new AACube({ x: 0, y: 0, z: 0 }, 1) }),
+            entity(ENTITY_B, 10, { name: "chair", queryAACube: new AACube({ x: 10, y: 0, z: 0 }, 1) }),
+            entity(ENTITY_C, 10, {
+                name: "Table",
+                parentID: new Uuid(ENTITY_B),
+                position: { x: 0, y: 2, z: 0 },
+                dimensions: { x: 0.2, y: 0.2, z: 0.2 }
+            })
+        ]);
+        entityTree.processEntityData([entity(ENTITY_B, 10, { position: { x: 10.5, y: 0.5, z: 0.5 } })]);
+
+        let found = entityTree.evalEntitiesInSphere({ x: 0, y: 0, z: 0 }, 1);
+        expect(found).toHaveLength(1);
+        expect(found[0].stringify()).toBe(ENTITY_A);
+
+        // The child entity's position is relative to its parent.
+        found = entityTree.evalEntitiesInBox({ x: 10, y: 2, z: 0 }, { x: 1, y: 1, z: 1 });
+        expect(found).toHaveLength(1);
+        expect(found[0].stringify()).toBe(ENTITY_C);
+
+        expect(entityTree.evalEntitiesInSphereWithName("chair", { x: 5, y: 0, z: 0 }, 10, false)).toHaveLength(2);
+        found = entityTree.evalEntitiesInSphereWithName("chair", { x: 5, y: 0, z: 0 }, 10, true);
+        expect(found).toHaveLength(1);
+        expect(found[0].stringify()).toBe(ENTITY_B);
+    });
+
+    test("Can find the world transforms of entities", () => {
+        const entityTree = new EntityTree();
+        entityTree.processEntityData([
+            entity(ENTITY_A, 10, { position: { x: 10, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } }),
+            entity(ENTITY_B, 10, { parentID: new Uuid(ENTITY_A), position: { x: 0, y: 1, z: 0 } })
+        ]);
+        expect(entityTree.findNestableTransform(new Uuid(ENTITY_B), 0)).toStrictEqual({
+            position: { x: 10, y: 1, z: 0 },
+            rotation: { x: 0, y: 0, z: 0, w: 1 }
+        });
+        expect(entityTree.findNestableTransform(new Uuid(ENTITY_C), 0)).toBeNull();
+    });
+
+    test("Can delete all entities", () => {
+        const entityTree = new EntityTree();
+        entityTree.processEntityData([entity(ENTITY_A, 10, {}), entity(ENTITY_B, 10, {})]);
+        entityTree.eraseAllOctreeElements();
+        expect(entityTree.getEntityIDs()).toHaveLength(0);
+    });
+
+});
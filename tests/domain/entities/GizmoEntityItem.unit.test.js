@@ -0,0 +1,58 @@
+//
+//  GizmoEntityItem.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { EntityPropertyFlags } from "../../../src/domain/entities/EntityPropertyFlags";
+import GizmoEntityItem from "../../../src/domain/entities/GizmoEntityItem";
+import GizmoType from "../../../src/domain/shared/GizmoType";
+import PropertyFlags from "../../../src/domain/shared/PropertyFlags";
+
+
+describe("GizmoEntityItem - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read Gizmo entity data", () => {
+        const propertyFlags = new PropertyFlags();
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_GIZMO_TYPE, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_START_ANGLE, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_INNER_START_COLOR, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_HAS_TICK_MARKS, true);
+
+        const bufferHex = "000000000000344280ff0001";
+        const bufferArray = new Uint8Array(bufferHex.match(/[\da-f]{2}/giu).map(function (hex) {
+            return parseInt(hex, 16);
+        }));
+        const data = new DataView(bufferArray.buffer);
+
+        const gizmoEntity = GizmoEntityItem.readEntitySubclassDataFromBuffer(data, 0, propertyFlags);
+
+        expect(gizmoEntity.bytesRead).toBe(12);
+        expect(gizmoEntity.properties.gizmoType).toBe(GizmoType.RING);
+        expect(gizmoEntity.properties.ring.startAngle).toBe(45);
+        expect(gizmoEntity.properties.ring.endAngle).toBeUndefined();
+        expect(gizmoEntity.properties.ring.innerStartColor).toStrictEqual({ red: 128, green: 255, blue: 0 });
+        expect(gizmoEntity.properties.ring.hasTickMarks).toBe(true);
+    });
+
+    test("Ring properties are undefined if not present", () => {
+        const propertyFlags = new PropertyFlags();
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_GIZMO_TYPE, true);
+
+        const data = new DataView(new Uint8Array(4).buffer);
+
+        const gizmoEntity = GizmoEntityItem.readEntitySubclassDataFromBuffer(data, 0, propertyFlags);
+
+        expect(gizmoEntity.bytesRead).toBe(4);
+        expect(gizmoEntity.properties.gizmoType).toBe(GizmoType.RING);
+        expect(gizmoEntity.properties.ring).toBeUndefined();
+    });
+
+});
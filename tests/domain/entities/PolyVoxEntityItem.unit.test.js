@@ -0,0 +1,51 @@
+//
+//  PolyVoxEntityItem.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import { EntityPropertyFlags } from "../../../src/domain/entities/EntityPropertyFlags";
+import PolyVoxEntityItem from "../../../src/domain/entities/PolyVoxEntityItem";
+import PolyVoxSurfaceStyle from "../../../src/domain/shared/PolyVoxSurfaceStyle";
+import PropertyFlags from "../../../src/domain/shared/PropertyFlags";
+
+
+describe("PolyVoxEntityItem - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read PolyVox entity data", () => {
+        const propertyFlags = new PropertyFlags();
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_VOXEL_VOLUME_SIZE, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_VOXEL_DATA, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_VOXEL_SURFACE_STYLE, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_X_TEXTURE_URL, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_X_N_NEIGHBOR_ID, true);
+        propertyFlags.setHasProperty(EntityPropertyFlags.PROP_Y_N_NEIGHBOR_ID, true);
+
+        const bufferHex = "0000004100000041000000410300010203020003006162631000"
+            + "0123456789abcdef0123456789abcdef0000";
+        const bufferArray = new Uint8Array(bufferHex.match(/[\da-f]{2}/giu).map(function (hex) {
+            return parseInt(hex, 16);
+        }));
+        const data = new DataView(bufferArray.buffer);
+
+        const polyVoxEntity = PolyVoxEntityItem.readEntitySubclassDataFromBuffer(data, 0, propertyFlags);
+
+        expect(polyVoxEntity.bytesRead).toBe(44);
+        expect(polyVoxEntity.properties.voxelVolumeSize).toStrictEqual({ x: 8, y: 8, z: 8 });
+        expect(Array.from(new Uint8Array(polyVoxEntity.properties.voxelData))).toStrictEqual([1, 2, 3]);
+        expect(polyVoxEntity.properties.voxelSurfaceStyle).toBe(PolyVoxSurfaceStyle.EDGED_CUBIC);
+        expect(polyVoxEntity.properties.xTextureURL).toBe("abc");
+        expect(polyVoxEntity.properties.yTextureURL).toBeUndefined();
+        expect(polyVoxEntity.properties.xNNeighborID.stringify()).toBe("01234567-89ab-cdef-0123-456789abcdef");
+        expect(polyVoxEntity.properties.yNNeighborID.stringify()).toBe("00000000-0000-0000-0000-000000000000");
+        expect(polyVoxEntity.properties.zNNeighborID).toBeUndefined();
+    });
+
+});
@@ -36,6 +36,16 @@ describe("AvatarListInterface - unit tests", () => {
         expect(typeof avatarListInterface.avatarAdded.disconnect).toBe("function");
         expect(typeof avatarListInterface.avatarRemoved.connect).toBe("function");
         expect(typeof avatarListInterface.avatarRemoved.disconnect).toBe("function");
+        expect(typeof avatarListInterface.speakingChanged.connect).toBe("function");
+        expect(typeof avatarListInterface.speakingChanged.disconnect).toBe("function");
+    });
+
+    test("Can get the active speakers", () => {
+        const domainServer = new DomainServer();
+        const contextID = domainServer.contextID;
+        ContextManager.set(contextID, AvatarManager, contextID);
+        const avatarListInterface = new AvatarListInterface(contextID);
+        expect(avatarListInterface.activeSpeakers).toStrictEqual([]);
     });
 
 });
@@ -0,0 +1,70 @@
+//
+//  LODSettingsInterface.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import LODSettingsInterface from "../../../src/domain/interfaces/LODSettingsInterface";
+import ContextManager from "../../../src/domain/shared/ContextManager";
+import LODManager from "../../../src/domain/LODManager";
+
+
+describe("LODSettingsInterface - unit tests", () => {
+
+    test("Can get and set LOD settings", () => {
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, LODManager);
+        const lodSettings = new LODSettingsInterface(contextID);
+
+        lodSettings.octreeSizeScale = 1000000;
+        expect(lodSettings.octreeSizeScale).toBe(1000000);
+        lodSettings.boundaryLevelAdjust = -2;
+        expect(lodSettings.boundaryLevelAdjust).toBe(-2);
+        lodSettings.automaticLODAdjust = false;
+        expect(lodSettings.automaticLODAdjust).toBe(false);
+        lodSettings.targetFPS = 60;
+        expect(lodSettings.targetFPS).toBe(60);
+    });
+
+    test("Octree size scale is clamped to the automatic adjustment range", () => {
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, LODManager);
+        const lodSettings = new LODSettingsInterface(contextID);
+
+        lodSettings.octreeSizeScale = 1;
+        expect(lodSettings.octreeSizeScale).toBe(LODManager.MIN_OCTREE_SIZE_SCALE);
+        lodSettings.octreeSizeScale = LODManager.MAX_OCTREE_SIZE_SCALE * 2;
+        expect(lodSettings.octreeSizeScale).toBe(LODManager.MAX_OCTREE_SIZE_SCALE);
+    });
+
+    test("Invalid LOD settings are rejected", () => {
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, LODManager);
+        const lodSettings = new LODSettingsInterface(contextID);
+
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        lodSettings.octreeSizeScale = 0;
+        lodSettings.octreeSizeScale = "1000";
+        lodSettings.octreeSizeScale = Infinity;
+        lodSettings.octreeSizeScale = NaN;
+        lodSettings.boundaryLevelAdjust = 1.5;
+        lodSettings.automaticLODAdjust = 1;
+        lodSettings.targetFPS = -30;
+        lodSettings.reportFrameRate(undefined);
+        expect(error).toHaveBeenCalledTimes(8);
+        error.mockReset();
+
+        expect(lodSettings.octreeSizeScale).toBe(LODManager.MAX_OCTREE_SIZE_SCALE);
+        expect(lodSettings.boundaryLevelAdjust).toBe(0);
+        expect(lodSettings.automaticLODAdjust).toBe(true);
+        expect(lodSettings.targetFPS).toBe(LODManager.DEFAULT_LOD_TARGET_FPS);
+    });
+
+});
@@ -19,9 +19,14 @@ AudioWorkletsMock.mock();
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
 
+import { HandState, KeyState } from "../../../src/domain/avatars/AvatarData";
+import { EntityType } from "../../../src/domain/entities/EntityTypes";
 import MyAvatarInterface from "../../../src/domain/interfaces/MyAvatarInterface";
 import AvatarConstants from "../../../src/domain/shared/AvatarConstants";
 import ContextManager from "../../../src/domain/shared/ContextManager";
+import Quat from "../../../src/domain/shared/Quat";
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
+import Uuid from "../../../src/domain/shared/Uuid";
 import AvatarManager from "../../../src/domain/AvatarManager";
 import DomainServer from "../../../src/DomainServer";
 
@@ -47,6 +52,217 @@ describe("MyAvatarInterface - unit tests", () => {
         expect(typeof myAvatarInterface.targetScaleChanged.disconnect).toBe("function");
         expect(typeof myAvatarInterface.locationChangeRequired.connect).toBe("function");
         expect(typeof myAvatarInterface.locationChangeRequired.disconnect).toBe("function");
+        expect(typeof myAvatarInterface.avatarEntitiesChanged.connect).toBe("function");
+        expect(typeof myAvatarInterface.avatarEntitiesChanged.disconnect).toBe("function");
+        expect(typeof myAvatarInterface.grabsChanged.connect).toBe("function");
+        expect(typeof myAvatarInterface.grabsChanged.disconnect).toBe("function");
+    });
+
+    test("Can add and remove avatar entities", () => {
+        let errorCount = 0;
+        const error = jest.spyOn(console, "error").mockImplementation(() => {
+            errorCount += 1;
+        });
+
+        const domainServer = new DomainServer();
+        const contextID = domainServer.contextID;
+        ContextManager.set(contextID, AvatarManager, contextID);
+        const myAvatarInterface = new MyAvatarInterface(contextID);
+        expect(myAvatarInterface.avatarEntities).toEqual([]);
+
+        expect(myAvatarInterface.addAvatarEntity({ name: "No type" })).toBeNull();
+        expect(errorCount).toBe(1);
+        expect(myAvatarInterface.addAvatarEntity({ entityType: EntityType.Text, name: "Unsupported type" })).toBeNull();
+        expect(errorCount).toBe(2);
+
+        const entityID = myAvatarInterface.addAvatarEntity({
+            entityType: EntityType.Box,
+            name: "Hat",
+            parentID: new Uuid(Uuid.AVATAR_SELF_ID),
+            parentJointIndex: 3,
+            localPosition: { x: 0, y: 0.2, z: 0 },
+            color: { red: 200, green: 100, blue: 50 }
+        });
+        expect(entityID instanceof Uuid).toBe(true);
+        expect(errorCount).toBe(2);
+
+        const avatarEntities = myAvatarInterface.avatarEntities;
+        expect(avatarEntities).toHaveLength(1);
+        expect(avatarEntities[0].entityItemID.value()).toBe(entityID.value());
+        expect(avatarEntities[0].entityType).toBe(EntityType.Box);
+        expect(avatarEntities[0].name).toBe("Hat");
+        expect(avatarEntities[0].parentID.value()).toBe(Uuid.AVATAR_SELF_ID);
+        expect(avatarEntities[0].parentJointIndex).toBe(3);
+        expect(avatarEntities[0].color).toStrictEqual({ red: 200, green: 100, blue: 50 });
+
+        expect(myAvatarInterface.removeAvatarEntity(new Uuid())).toBe(false);
+        expect(errorCount).toBe(3);
+        expect(myAvatarInterface.removeAvatarEntity(entityID)).toBe(true);
+        expect(myAvatarInterface.avatarEntities).toEqual([]);
+        expect(errorCount).toBe(3);
+
+        error.mockReset();
+    });
+
+    test("Can grab and release grabs", (done) => {
+        let errorCount = 0;
+        const error = jest.spyOn(console, "error").mockImplementation(() => {
+            errorCount += 1;
+        });
+
+        const domainServer = new DomainServer();
+        const contextID = domainServer.contextID;
+        ContextManager.set(contextID, AvatarManager, contextID);
+        const myAvatarInterface = new MyAvatarInterface(contextID);
+        let grabsChangedCount = 0;
+        myAvatarInterface.grabsChanged.connect(() => {
+            grabsChangedCount += 1;
+        });
+        expect(myAvatarInterface.grabs).toEqual([]);
+
+        const targetID = new Uuid(0x852461da20504cd0b9e1619af13dc65fn);
+        expect(myAvatarInterface.grab(targetID, 65533, { x: 1, y: 2 }, Quat.IDENTITY)).toBeNull();
+        expect(errorCount).toBe(1);
+
+        const grabID = myAvatarInterface.grab(targetID, 65533, { x: 0, y: 0.1, z: 0 }, Quat.IDENTITY);
+        expect(grabID instanceof Uuid).toBe(true);
+        expect(errorCount).toBe(1);
+
+        const grabs = myAvatarInterface.grabs;
+        expect(grabs).toHaveLength(1);
+        expect(grabs[0].grabID).toStrictEqual(grabID);
+        expect(grabs[0].targetID).toStrictEqual(targetID);
+        expect(grabs[0].parentJointIndex).toBe(65533);
+        expect(grabs[0].hand).toBe("right");
+        expect(grabs[0].positionalOffset).toStrictEqual({ x: 0, y: 0.1, z: 0 });
+        expect(grabs[0].rotationalOffset).toStrictEqual(Quat.IDENTITY);
+
+        expect(myAvatarInterface.releaseGrab(new Uuid())).toBe(false);
+        expect(errorCount).toBe(2);
+        expect(myAvatarInterface.releaseGrab(grabID)).toBe(true);
+        expect(myAvatarInterface.grabs).toEqual([]);
+        expect(errorCount).toBe(2);
+
+        setTimeout(() => {  // Let events process.
+            expect(grabsChangedCount).toBe(2);
+            error.mockReset();
+            done();
+        }, 10);
+    });
+
+    test("Can set and get the look-at position, hand controllers, blendshapes, and key and hand states", () => {
+        let errorCount = 0;
+        const error = jest.spyOn(console, "error").mockImplementation(() => {
+            errorCount += 1;
+        });
+
+        const domainServer = new DomainServer();
+        const contextID = domainServer.contextID;
+        ContextManager.set(contextID, AvatarManager, contextID);
+        const myAvatarInterface = new MyAvatarInterface(contextID);
+
+        expect(myAvatarInterface.lookAtPosition).toBeNull();
+        myAvatarInterface.lookAtPosition = { x: 1, y: 2, z: 3 };
+        expect(myAvatarInterface.lookAtPosition).toStrictEqual({ x: 1, y: 2, z: 3 });
+        myAvatarInterface.lookAtPosition = { x: 1, y: 2 };
+        expect(errorCount).toBe(1);
+        expect(myAvatarInterface.lookAtPosition).toStrictEqual({ x: 1, y: 2, z: 3 });
+        myAvatarInterface.lookAtPosition = null;
+        expect(myAvatarInterface.lookAtPosition).toBeNull();
+
+        const pose = { position: { x: 0.1, y: 0.2, z: 0.3 }, rotation: Quat.IDENTITY };
+        expect(myAvatarInterface.leftHandController).toBeNull();
+        expect(myAvatarInterface.rightHandController).toBeNull();
+        myAvatarInterface.leftHandController = pose;
+        expect(myAvatarInterface.leftHandController).toStrictEqual(pose);
+        expect(myAvatarInterface.rightHandController).toBeNull();
+        myAvatarInterface.rightHandController = { position: { x: 0.1, y: 0.2, z: 0.3 } };
+        expect(errorCount).toBe(2);
+        expect(myAvatarInterface.rightHandController).toBeNull();
+        myAvatarInterface.leftHandController = null;
+        expect(myAvatarInterface.leftHandController).toBeNull();
+
+        expect(myAvatarInterface.blendshapeCoefficients).toStrictEqual([]);
+        myAvatarInterface.blendshapeCoefficients = [0.1, 0.2];
+        expect(myAvatarInterface.blendshapeCoefficients).toStrictEqual([0.1, 0.2]);
+        myAvatarInterface.blendshapeCoefficients = [0.1, "0.2"];
+        myAvatarInterface.blendshapeCoefficients = Array.from({ length: 256 }, () => {
+            return 0.1;
+        });
+        expect(errorCount).toBe(4);
+        expect(myAvatarInterface.blendshapeCoefficients).toStrictEqual([0.1, 0.2]);
+
+        expect(myAvatarInterface.keyState).toBe(KeyState.NoKeyDown);
+        myAvatarInterface.keyState = KeyState.DeleteKeyDown;
+        expect(myAvatarInterface.keyState).toBe(KeyState.DeleteKeyDown);
+        myAvatarInterface.keyState = 3;
+        expect(errorCount).toBe(5);
+        expect(myAvatarInterface.keyState).toBe(KeyState.DeleteKeyDown);
+
+        expect(myAvatarInterface.handState).toBe(HandState.Null);
+        myAvatarInterface.handState = HandState.RightHandPointing | HandState.IsFingerPointing;
+        expect(myAvatarInterface.handState).toBe(6);
+        myAvatarInterface.handState = 8;
+        expect(errorCount).toBe(6);
+        expect(myAvatarInterface.handState).toBe(6);
+
+        error.mockReset();
+    });
+
+    test("Can parent the avatar, keeping its position in the domain", () => {
+        let errorCount = 0;
+        const error = jest.spyOn(console, "error").mockImplementation(() => {
+            errorCount += 1;
+        });
+
+        const domainServer = new DomainServer();
+        const contextID = domainServer.contextID;
+        ContextManager.set(contextID, AvatarManager, contextID);
+        const myAvatarInterface = new MyAvatarInterface(contextID);
+        const parentID = new Uuid(5678n);
+        const parentTransform = { position: { x: 10, y: 0, z: 0 }, rotation: Quat.IDENTITY };
+        /** @type {SpatialParentFinder} */
+        const parentFinder = ContextManager.get(contextID, SpatialParentFinder);
+        parentFinder.addParentTree({
+            findNestableTransform: (id) => {
+                return id.value() === parentID.value() ? parentTransform : null;
+            }
+        });
+
+        expect(myAvatarInterface.parentID).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(myAvatarInterface.parentJointIndex).toBe(65535);
+
+        myAvatarInterface.position = { x: 12, y: 1, z: 0 };
+        myAvatarInterface.parentID = parentID;
+        expect(myAvatarInterface.parentID).toStrictEqual(parentID);
+        expect(myAvatarInterface.position).toStrictEqual({ x: 12, y: 1, z: 0 });
+
+        // The avatar moves with its parent.
+        parentTransform.position = { x: 20, y: 0, z: 0 };
+        expect(myAvatarInterface.position).toStrictEqual({ x: 22, y: 1, z: 0 });
+
+        myAvatarInterface.parentJointIndex = 3;
+        expect(myAvatarInterface.parentJointIndex).toBe(3);
+        myAvatarInterface.parentJointIndex = -1;
+        myAvatarInterface.parentJointIndex = 1.5;
+        expect(errorCount).toBe(2);
+        expect(myAvatarInterface.parentJointIndex).toBe(3);
+
+        myAvatarInterface.parentID = "5678";
+        myAvatarInterface.parentID = new Uuid(Uuid.AVATAR_SELF_ID);
+        expect(errorCount).toBe(4);
+        expect(myAvatarInterface.parentID).toStrictEqual(parentID);
+
+        // The parent is unchanged if the new parent isn't known.
+        myAvatarInterface.parentID = new Uuid(9999n);
+        expect(errorCount).toBe(5);
+        expect(myAvatarInterface.parentID).toStrictEqual(parentID);
+        expect(myAvatarInterface.position).toStrictEqual({ x: 22, y: 1, z: 0 });
+
+        myAvatarInterface.parentID = new Uuid(Uuid.NULL);
+        expect(myAvatarInterface.position).toStrictEqual({ x: 22, y: 1, z: 0 });
+
+        error.mockReset();
     });
 
     test("Target avatar scale is sanitized and clamped", (done) => {
@@ -0,0 +1,85 @@
+//
+//  SequenceNumberStats.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import SequenceNumberStats from "../../../src/domain/networking/SequenceNumberStats";
+
+
+describe("SequenceNumberStats - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can count on time, early, late, lost, and recovered packets", () => {
+        const stats = new SequenceNumberStats(10);
+        for (const sequenceNumber of [10, 11, 12, 15, 13, 16, 12]) {
+            stats.sequenceNumberReceived(sequenceNumber);
+        }
+        expect(stats.getStats()).toStrictEqual({
+            received: 7,
+            unreasonable: 0,
+            early: 1,
+            late: 2,
+            lost: 1,
+            recovered: 1,
+            expectedReceived: 7
+        });
+    });
+
+    test("Can handle sequence number rollover", () => {
+        const stats = new SequenceNumberStats(10);
+        for (const sequenceNumber of [65534, 65535, 0, 2]) {
+            stats.sequenceNumberReceived(sequenceNumber);
+        }
+        const packetStreamStats = stats.getStats();
+        expect(packetStreamStats.unreasonable).toBe(0);
+        expect(packetStreamStats.early).toBe(1);
+        expect(packetStreamStats.lost).toBe(1);
+        expect(packetStreamStats.expectedReceived).toBe(5);
+    });
+
+    test("Can count unreasonable packets and resynchronize", () => {
+        const stats = new SequenceNumberStats(10);
+        stats.sequenceNumberReceived(100);
+        for (let i = 0; i < 8; i++) {
+            stats.sequenceNumberReceived(30000 + i);
+        }
+        expect(stats.getStats().unreasonable).toBe(8);
+        stats.sequenceNumberReceived(30008);
+        expect(stats.getStats().unreasonable).toBe(8);
+        expect(stats.getStats().expectedReceived).toBe(2);
+    });
+
+    test("Can report statistics for the history window", () => {
+        const stats = new SequenceNumberStats(2);
+        expect(stats.getStatsForHistoryWindow().received).toBe(0);
+        stats.sequenceNumberReceived(1);
+        stats.pushStatsToHistory();
+        stats.sequenceNumberReceived(2);
+        stats.sequenceNumberReceived(4);
+        stats.pushStatsToHistory();
+        expect(stats.getStatsForHistoryWindow()).toStrictEqual({
+            received: 2,
+            unreasonable: 0,
+            early: 1,
+            late: 0,
+            lost: 1,
+            recovered: 0,
+            expectedReceived: 3
+        });
+        stats.sequenceNumberReceived(5);
+        stats.pushStatsToHistory();
+        expect(stats.getStatsForHistoryWindow().received).toBe(1);
+
+        stats.reset();
+        expect(stats.getStats().received).toBe(0);
+        expect(stats.getStatsForHistoryWindow().received).toBe(0);
+    });
+
+});
@@ -0,0 +1,51 @@
+//
+//  AudioEnvironment.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioEnvironment from "../../../../src/domain/networking/packets/AudioEnvironment";
+
+
+describe("AudioEnvironment - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const MESSAGE_START = 24;
+
+    test("Can read an AudioEnvironment packet with reverb", () => {
+        const MESSAGE_HEX = "0300000024164116762365a1595902bd988de6429deea29c800000c03f0000c0c0";
+        const arrayBuffer = new ArrayBuffer(MESSAGE_HEX.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(MESSAGE_HEX.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer, MESSAGE_START);
+
+        const info = AudioEnvironment.read(dataView);
+        expect(info.hasReverb).toBe(true);
+        expect(info.reverbTime).toBe(1.5);
+        expect(info.wetLevel).toBe(-6);
+    });
+
+    test("Can read an AudioEnvironment packet without reverb", () => {
+        const MESSAGE_HEX = "0300000024164116762365a1595902bd988de6429deea29c00";
+        const arrayBuffer = new ArrayBuffer(MESSAGE_HEX.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(MESSAGE_HEX.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer, MESSAGE_START);
+
+        const info = AudioEnvironment.read(dataView);
+        expect(info.hasReverb).toBe(false);
+        expect(info.reverbTime).toBe(0);
+        expect(info.wetLevel).toBe(0);
+    });
+
+});
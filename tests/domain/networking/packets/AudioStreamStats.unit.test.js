@@ -0,0 +1,101 @@
+//
+//  AudioStreamStats.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+import AudioStreamStats from "../../../../src/domain/networking/packets/AudioStreamStats";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import UDT from "../../../../src/domain/networking/udt/UDT";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils.js";
+
+
+describe("AudioStreamStats - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const STREAM_STATS = {
+        streamType: 1,
+        streamIdentifier: new Uuid(0x00112233445566778899aabbccddeeffn),
+        timeGapMin: 9000,
+        timeGapMax: 31000,
+        timeGapAverage: 10000.5,
+        timeGapWindowMin: 9500,
+        timeGapWindowMax: 21000,
+        timeGapWindowAverage: 10001.25,
+        framesAvailable: 3,
+        framesAvailableAverage: 2,
+        unplayedMs: 40,
+        desiredJitterBufferFrames: 2,
+        starveCount: 5,
+        consecutiveNotMixedCount: 0,
+        overflowCount: 1,
+        framesDropped: 7,
+        packetStreamStats: {
+            received: 1000,
+            unreasonable: 1,
+            early: 2,
+            late: 3,
+            lost: 4,
+            recovered: 5,
+            expectedReceived: 1004
+        },
+        packetStreamWindowStats: {
+            received: 100,
+            unreasonable: 0,
+            early: 1,
+            late: 1,
+            lost: 1,
+            recovered: 0,
+            expectedReceived: 101
+        }
+    };
+
+    test("Can write an AudioStreamStats packet", () => {
+        const packet = AudioStreamStats.write({
+            appendFlag: AudioStreamStats.START | AudioStreamStats.END,
+            streamStats: [STREAM_STATS]
+        });
+
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.AudioStreamStats);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+        expect(packetSize).toBeLessThan(UDT.MAX_PACKET_SIZE);
+
+        // Append flag, number of stream stats, stream type, padding, QUuid in memory order.
+        const messageStart = packetSize - 3 - 152;
+        expect(buffer2hex(packet.getMessageData().buffer.slice(messageStart, messageStart + 23)))
+            .toBe("0301000100000033221100554477668899aabbccddeeff");
+    });
+
+    test("Can read an AudioStreamStats packet", () => {
+        const packet = AudioStreamStats.write({
+            appendFlag: AudioStreamStats.START,
+            streamStats: [STREAM_STATS, { ...STREAM_STATS, streamType: 0, streamIdentifier: new Uuid() }]
+        });
+        const packetSize = packet.getDataSize();
+        const messageStart = packetSize - 3 - 2 * 152;
+        const packetData = packet.getMessageData().data;
+        const data = new DataView(packetData.buffer, packetData.byteOffset + messageStart, packetSize - messageStart);
+
+        const info = AudioStreamStats.read(data);
+        expect(info.appendFlag).toBe(AudioStreamStats.START);
+        expect(info.streamStats).toHaveLength(2);
+        const stats = info.streamStats[0];
+        expect(stats.streamIdentifier instanceof Uuid).toBe(true);
+        expect(stats.streamIdentifier.value()).toBe(STREAM_STATS.streamIdentifier.value());
+        expect({ ...stats, streamIdentifier: null }).toStrictEqual({ ...STREAM_STATS, streamIdentifier: null });
+        expect(info.streamStats[1].streamType).toBe(0);
+        expect(info.streamStats[1].streamIdentifier.value()).toBe(Uuid.NULL);
+    });
+
+});
@@ -14,9 +14,11 @@ globalThis.crypto = webcrypto;
 
 import NLPacket from "../../../../src/domain/networking/NLPacket";
 import AvatarData from "../../../../src/domain/networking/packets/AvatarData";
+import BulkAvatarData from "../../../../src/domain/networking/packets/BulkAvatarData";
 import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
 import UDT from "../../../../src/domain/networking/udt/UDT";
 import assert from "../../../../src/domain/shared/assert";
+import Uuid from "../../../../src/domain/shared/Uuid";
 
 import { buffer2hex } from "../../../testUtils";
 
@@ -162,4 +164,111 @@ describe("AvatarData - unit tests", () => {
         expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
     });
 
+    test("Can write an AvatarData packet - look-at position and additional flags", () => {
+        // eslint-disable-next-line max-len
+        const EXPECTED_PACKET = "0000000006360000000000000000000000000000000000004d0091000000803f00000040000040400000003f0000c03f000000c0b90f";
+        const packet = AvatarData.write({
+            sequenceNumber: 77,
+            dataDetail: 2,
+            lastSentTime: Date.now(),
+            globalPosition: { x: 1, y: 2, z: 3 },
+            lookAtPosition: { x: 0.5, y: 1.5, z: -2 },
+            additionalFlags: {
+                keyState: 1,
+                handState: 6,
+                hasScriptedBlendshapes: true,
+                hasProceduralEyeMovement: true,
+                audioEnabledFaceMovement: true,
+                proceduralEyeFaceMovement: true,
+                proceduralBlinkFaceMovement: true,
+                collideWithOtherAvatars: true,
+                hasPriority: false
+            }
+        });
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.AvatarData);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+    });
+
+    test("Can write an AvatarData packet - hand controllers and face tracker info", () => {
+        const HEADER_SIZE = 24;
+        const SEQUENCE_NUMBER_SIZE = 2;
+        const packet = AvatarData.write({
+            sequenceNumber: 78,
+            dataDetail: 2,
+            lastSentTime: Date.now(),
+            globalPosition: { x: 1, y: 2, z: 3 },
+            handControllers: {
+                left: { position: { x: -0.25, y: 1.5, z: 0.125 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+                right: { position: { x: 0.25, y: 1.25, z: -0.5 }, rotation: { x: 0, y: 0.6, z: 0, w: 0.8 } }
+            },
+            faceTrackerInfo: {
+                leftEyeBlink: 0.5,
+                rightEyeBlink: 0.75,
+                averageLoudness: 12.5,
+                browAudioLift: 0.25,
+                blendshapeCoefficients: [0.5, 0.25, 0.125]
+            }
+        });
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(HEADER_SIZE + SEQUENCE_NUMBER_SIZE + 2 + 12 + 24 + 17 + 3 * 4);
+
+        // Read the avatar data back in as if it were in a BulkAvatarData packet.
+        const avatarData = packet.getMessageData().buffer.slice(HEADER_SIZE + SEQUENCE_NUMBER_SIZE, packetSize);
+        const bulkData = new Uint8Array(16 + avatarData.length);
+        bulkData.set(avatarData, 16);
+        const bulkAvatarDetails = BulkAvatarData.read(new DataView(bulkData.buffer));
+        expect(bulkAvatarDetails).toHaveLength(1);
+        const bulkAvatarDetail = bulkAvatarDetails[0];
+        expect(bulkAvatarDetail.sessionUUID).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(bulkAvatarDetail.globalPosition).toStrictEqual({ x: 1, y: 2, z: 3 });
+
+        const left = bulkAvatarDetail.handControllers.left;
+        expect(Math.abs(left.rotation.w)).toBeCloseTo(1, 4);
+        expect(left.position).toStrictEqual({ x: -0.25, y: 1.5, z: 0.125 });
+        const right = bulkAvatarDetail.handControllers.right;
+        expect(Math.abs(right.rotation.y)).toBeCloseTo(0.6, 4);
+        expect(Math.abs(right.rotation.w)).toBeCloseTo(0.8, 4);
+        expect(right.position).toStrictEqual({ x: 0.25, y: 1.25, z: -0.5 });
+
+        expect(bulkAvatarDetail.faceTrackerInfo).toStrictEqual({
+            leftEyeBlink: 0.5,
+            rightEyeBlink: 0.75,
+            averageLoudness: 12.5,
+            browAudioLift: 0.25,
+            blendshapeCoefficients: [0.5, 0.25, 0.125]
+        });
+    });
+
+    test("Can write an AvatarData packet - parent info and local position", () => {
+        const HEADER_SIZE = 24;
+        const SEQUENCE_NUMBER_SIZE = 2;
+        const parentID = new Uuid(0x0123456789abcdef0123456789abcdefn);
+        const packet = AvatarData.write({
+            sequenceNumber: 79,
+            dataDetail: 2,
+            lastSentTime: Date.now(),
+            globalPosition: { x: 1, y: 2, z: 3 },
+            parentInfo: { parentID, parentJointIndex: 7 },
+            localPosition: { x: 0.5, y: -1.25, z: 2 }
+        });
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(HEADER_SIZE + SEQUENCE_NUMBER_SIZE + 2 + 12 + 18 + 12);
+
+        // Read the avatar data back in as if it were in a BulkAvatarData packet.
+        const avatarData = packet.getMessageData().buffer.slice(HEADER_SIZE + SEQUENCE_NUMBER_SIZE, packetSize);
+        const bulkData = new Uint8Array(16 + avatarData.length);
+        bulkData.set(avatarData, 16);
+        const bulkAvatarDetails = BulkAvatarData.read(new DataView(bulkData.buffer));
+        expect(bulkAvatarDetails).toHaveLength(1);
+        const bulkAvatarDetail = bulkAvatarDetails[0];
+        expect(bulkAvatarDetail.globalPosition).toStrictEqual({ x: 1, y: 2, z: 3 });
+        expect(bulkAvatarDetail.parentInfo).toStrictEqual({ parentID, parentJointIndex: 7 });
+        expect(bulkAvatarDetail.localPosition).toStrictEqual({ x: 0.5, y: -1.25, z: 2 });
+    });
+
 });
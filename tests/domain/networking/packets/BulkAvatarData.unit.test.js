@@ -9,7 +9,13 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import { webcrypto } from "crypto";
+globalThis.crypto = webcrypto;
+
 import BulkAvatarData from "../../../../src/domain/networking/packets/BulkAvatarData";
+import AvatarDataPacket from "../../../../src/domain/avatars/AvatarDataPacket";
+import GLMHelpers from "../../../../src/domain/shared/GLMHelpers";
+import Uuid from "../../../../src/domain/shared/Uuid";
 
 
 describe("BulkAvatarData - unit tests", () => {
@@ -111,6 +117,102 @@ describe("BulkAvatarData - unit tests", () => {
         const bulkAvatarDetail = bulkAvatarDetails[0];
         expect(bulkAvatarDetail.sessionUUID.stringify()).toBe("5cd7b12c-15bb-44bb-9604-8d7dcf3828e7");
         expect(bulkAvatarDetail.avatarScale).toBeCloseTo(1.48717, 5);
+
+        expect(bulkAvatarDetail.avatarBoundingBox.dimensions.x).toBeCloseTo(0.287418, 5);
+        expect(bulkAvatarDetail.avatarBoundingBox.dimensions.y).toBeCloseTo(1.055962, 5);
+        expect(bulkAvatarDetail.avatarBoundingBox.dimensions.z).toBeCloseTo(0.287418, 5);
+        expect(bulkAvatarDetail.avatarBoundingBox.offset.x).toBeCloseTo(0.007682, 5);
+        expect(bulkAvatarDetail.avatarBoundingBox.offset.y).toBeCloseTo(-0.104399, 5);
+        expect(bulkAvatarDetail.avatarBoundingBox.offset.z).toBeCloseTo(0.029318, 5);
+
+        expect(bulkAvatarDetail.lookAtPosition.x).toBeCloseTo(902.7119, 3);
+        expect(bulkAvatarDetail.lookAtPosition.y).toBeCloseTo(0.887576, 5);
+
+        expect(bulkAvatarDetail.sensorToWorldMatrix.scale).toBeCloseTo(1.47559, 5);
+        expect(bulkAvatarDetail.sensorToWorldMatrix.translation.y).toBeCloseTo(-0.196678, 5);
+        expect(bulkAvatarDetail.sensorToWorldMatrix.translation.z).toBeCloseTo(-0.766758, 5);
+
+        expect(bulkAvatarDetail.additionalFlags).toStrictEqual({
+            keyState: 0,
+            handState: 4,
+            hasScriptedBlendshapes: true,
+            hasProceduralEyeMovement: true,
+            audioEnabledFaceMovement: false,
+            proceduralEyeFaceMovement: false,
+            proceduralBlinkFaceMovement: true,
+            collideWithOtherAvatars: false,
+            hasPriority: false
+        });
+
+        expect(bulkAvatarDetail.parentInfo.parentID).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(bulkAvatarDetail.parentInfo.parentJointIndex).toBe(65535);
+
+        expect(bulkAvatarDetail.localPosition).toBeUndefined();
+        expect(bulkAvatarDetail.handControllers).toBeUndefined();
+        expect(bulkAvatarDetail.faceTrackerInfo).toBeUndefined();
+    });
+
+    test("Can read a BulkAvatarData message that has hand controllers and face tracker info", () => {
+        const NUM_BLENDSHAPE_COEFFICIENTS = 3;
+        const dataView = new DataView(new ArrayBuffer(16 + 2 + 24 + 17 + NUM_BLENDSHAPE_COEFFICIENTS * 4));
+        let dataPosition = 0;
+        dataView.setBigUint128(dataPosition, new Uuid(0x1234n).value(), false);
+        dataPosition += 16;
+        dataView.setUint16(dataPosition, AvatarDataPacket.PACKET_HAS_HAND_CONTROLLERS
+            | AvatarDataPacket.PACKET_HAS_FACE_TRACKER_INFO, true);
+        dataPosition += 2;
+
+        const writeHandController = (rotation, position) => {
+            GLMHelpers.packOrientationQuatToSixBytes(dataView, dataPosition, rotation);
+            dataPosition += 6;
+            for (const value of position) {
+                GLMHelpers.packFloatScalarToSignedTwoByteFixed(dataView, dataPosition, value,
+                    AvatarDataPacket.HAND_CONTROLLER_COMPRESSION_RADIX);
+                dataPosition += 2;
+            }
+        };
+        writeHandController({ x: 0, y: 0, z: 0, w: 1 }, [-0.25, 1.5, 0.125]);
+        writeHandController({ x: 0, y: 0.6, z: 0, w: 0.8 }, [0.25, 1.25, -0.5]);
+
+        for (const value of [0.5, 0.75, 12.5, 0.25]) {
+            dataView.setFloat32(dataPosition, value, true);
+            dataPosition += 4;
+        }
+        dataView.setUint8(dataPosition, NUM_BLENDSHAPE_COEFFICIENTS);
+        dataPosition += 1;
+        for (const value of [0.1, 0.2, 0.3]) {
+            dataView.setFloat32(dataPosition, value, true);
+            dataPosition += 4;
+        }
+
+        const bulkAvatarDetails = BulkAvatarData.read(dataView);
+        expect(bulkAvatarDetails).toHaveLength(1);
+        const bulkAvatarDetail = bulkAvatarDetails[0];
+        expect(bulkAvatarDetail.sessionUUID).toStrictEqual(new Uuid(0x1234n));
+
+        const left = bulkAvatarDetail.handControllers.left;
+        expect(left.rotation.x).toBeCloseTo(0, 4);
+        expect(left.rotation.y).toBeCloseTo(0, 4);
+        expect(left.rotation.z).toBeCloseTo(0, 4);
+        expect(Math.abs(left.rotation.w)).toBeCloseTo(1, 4);
+        expect(left.position).toStrictEqual({ x: -0.25, y: 1.5, z: 0.125 });
+        const right = bulkAvatarDetail.handControllers.right;
+        expect(Math.abs(right.rotation.y)).toBeCloseTo(0.6, 4);
+        expect(Math.abs(right.rotation.w)).toBeCloseTo(0.8, 4);
+        expect(right.position).toStrictEqual({ x: 0.25, y: 1.25, z: -0.5 });
+
+        const faceTrackerInfo = bulkAvatarDetail.faceTrackerInfo;
+        expect(faceTrackerInfo.leftEyeBlink).toBe(0.5);
+        expect(faceTrackerInfo.rightEyeBlink).toBe(0.75);
+        expect(faceTrackerInfo.averageLoudness).toBe(12.5);
+        expect(faceTrackerInfo.browAudioLift).toBe(0.25);
+        expect(faceTrackerInfo.blendshapeCoefficients).toHaveLength(NUM_BLENDSHAPE_COEFFICIENTS);
+        expect(faceTrackerInfo.blendshapeCoefficients[0]).toBeCloseTo(0.1, 5);
+        expect(faceTrackerInfo.blendshapeCoefficients[1]).toBeCloseTo(0.2, 5);
+        expect(faceTrackerInfo.blendshapeCoefficients[2]).toBeCloseTo(0.3, 5);
+
+        expect(bulkAvatarDetail.globalPosition).toBeUndefined();
+        expect(bulkAvatarDetail.parentInfo).toBeUndefined();
     });
 
     test("Can read a BulkAvatarData message that has audio loudness", () => {
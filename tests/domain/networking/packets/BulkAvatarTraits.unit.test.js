@@ -12,8 +12,13 @@
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
 
-import { TraitType } from "../../../../src/domain/avatars/AvatarTraits";
+import AvatarTraits, { TraitType } from "../../../../src/domain/avatars/AvatarTraits";
+import EntityItemProperties from "../../../../src/domain/entities/EntityItemProperties";
+import { EntityType } from "../../../../src/domain/entities/EntityTypes";
 import BulkAvatarTraits from "../../../../src/domain/networking/packets/BulkAvatarTraits";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils.js";
 
 
 describe("BulkAvatarTraits - unit tests", () => {
@@ -179,9 +184,7 @@ describe("BulkAvatarTraits - unit tests", () => {
         /* eslint-enable @typescript-eslint/no-unsafe-assignment */
     });
 
-    test("Can skip over grab and ungrab complex traits data in a BulkAvatarTraits message", () => {
-        const warn = jest.spyOn(console, "warn").mockImplementation(() => { /* no-op */ });
-
+    test("Can read grab and ungrab traits in BulkAvatarTraits messages", () => {
         // eslint-disable-next-line max-len
         const RECEIVED_MESSAGE_GRAB = "e0f78661090000000000000064300f5e52f16f5ed0ae1601585e0aa017790681040000000000000072c0c01d8cfc443faabf4a8738efeff80303000000cfd633fa8d0b493fb04bdc2298fb99426c000000000172c0c01d8cfc443faabf4a8738efeff8852461da20504cd0b9e1619af13dc65f0000fff600000008006e006f006e00650000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000003ff0000000000000ff";
         // eslint-disable-next-line max-len
@@ -198,7 +201,21 @@ describe("BulkAvatarTraits - unit tests", () => {
 
         let bulkAvatarTraitsDetails = BulkAvatarTraits.read(dataView);
         expect(bulkAvatarTraitsDetails.traitsSequenceNumber).toBe(4n);
-        expect(bulkAvatarTraitsDetails.avatarTraitsList).toHaveLength(0);
+        expect(bulkAvatarTraitsDetails.avatarTraitsList).toHaveLength(1);
+        let avatarTraits = bulkAvatarTraitsDetails.avatarTraitsList[0].avatarTraits;
+        expect(avatarTraits).toHaveLength(1);
+        expect(avatarTraits[0].type).toBe(TraitType.Grab);
+        expect(avatarTraits[0].version).toBe(3);
+        expect(avatarTraits[0].instanceID).toStrictEqual(new Uuid(0xcfd633fa8d0b493fb04bdc2298fb9942n));
+        expect(avatarTraits[0].value).toStrictEqual({
+            grabID: new Uuid(0xcfd633fa8d0b493fb04bdc2298fb9942n),
+            ownerID: new Uuid(0x72c0c01d8cfc443faabf4a8738efeff8n),
+            targetID: new Uuid(0x852461da20504cd0b9e1619af13dc65fn),
+            parentJointIndex: 65526,
+            hand: "none",
+            positionalOffset: { x: 0, y: 0, z: 0 },
+            rotationalOffset: { x: 0, y: 0, z: 0, w: 1 }
+        });
 
         // Message 2.
         arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE_UNGRAB.length / 2);
@@ -210,9 +227,94 @@ describe("BulkAvatarTraits - unit tests", () => {
 
         bulkAvatarTraitsDetails = BulkAvatarTraits.read(dataView);
         expect(bulkAvatarTraitsDetails.traitsSequenceNumber).toBe(5n);
-        expect(bulkAvatarTraitsDetails.avatarTraitsList).toHaveLength(0);
+        expect(bulkAvatarTraitsDetails.avatarTraitsList).toHaveLength(1);
+        avatarTraits = bulkAvatarTraitsDetails.avatarTraitsList[0].avatarTraits;
+        expect(avatarTraits).toHaveLength(1);
+        expect(avatarTraits[0].type).toBe(TraitType.Grab);
+        expect(avatarTraits[0].version).toBe(4);
+        expect(avatarTraits[0].instanceID).toStrictEqual(new Uuid(0xcfd633fa8d0b493fb04bdc2298fb9942n));
+        expect(avatarTraits[0].value).toBeNull();
+    });
+
+    test("Can read avatar entity traits in a BulkAvatarTraits message", () => {
+        const entityID = new Uuid(0xed7acf04adea40c5b32bf50a5f1eae31n);
+        const entityData = EntityItemProperties.encodeEntityData(entityID, EntityType.Box, { name: "Hat" }, 1000n, 2000n,
+            AvatarTraits.MAXIMUM_TRAIT_SIZE);
+
+        const SEQUENCE_NUMBER = "0300000000000000";
+        const AVATAR_ID = "e2a1a56103734cce9000c9df970124f3";
+        const AVATAR_ENTITY_TRAIT = "0205000000ed7acf04adea40c5b32bf50a5f1eae31"
+            + buffer2hex(new Uint16Array([entityData.length]).buffer) + buffer2hex(entityData);
+        const DELETED_AVATAR_ENTITY_TRAIT = "02060000001a1b1c1d1e1f40208021222324252627ffff";
+        const NULL_TRAIT = "ff";
+        const RECEIVED_MESSAGE = SEQUENCE_NUMBER + AVATAR_ID + AVATAR_ENTITY_TRAIT + DELETED_AVATAR_ENTITY_TRAIT + NULL_TRAIT;
+
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer);
+
+        const bulkAvatarTraitsDetails = BulkAvatarTraits.read(dataView);
+        expect(bulkAvatarTraitsDetails.traitsSequenceNumber).toBe(3n);
+        const avatarTraits = bulkAvatarTraitsDetails.avatarTraitsList[0].avatarTraits;
+        expect(avatarTraits).toHaveLength(2);
+
+        expect(avatarTraits[0].type).toBe(TraitType.AvatarEntity);
+        expect(avatarTraits[0].version).toBe(5);
+        expect(avatarTraits[0].instanceID.value()).toBe(entityID.value());
+        expect(avatarTraits[0].isDeleted).toBe(false);
+        expect(avatarTraits[0].value.entityItemID).toStrictEqual(entityID);
+        expect(avatarTraits[0].value.entityType).toBe(EntityType.Box);
+        expect(avatarTraits[0].value.name).toBe("Hat");
+
+        expect(avatarTraits[1].type).toBe(TraitType.AvatarEntity);
+        expect(avatarTraits[1].version).toBe(6);
+        expect(avatarTraits[1].instanceID.value()).toBe(0x1a1b1c1d1e1f40208021222324252627n);
+        expect(avatarTraits[1].isDeleted).toBe(true);
+        expect(avatarTraits[1].value).toBeNull();
+    });
+
+    test("Doesn't read a malformed avatar entity trait as deleted and reads subsequent traits", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+
+        const entityID = new Uuid(0xed7acf04adea40c5b32bf50a5f1eae31n);
+        const entityData = EntityItemProperties.encodeEntityData(entityID, EntityType.Box, { name: "Hat" }, 1000n, 2000n,
+            AvatarTraits.MAXIMUM_TRAIT_SIZE);
+        const truncatedData = entityData.slice(0, entityData.length - 4);
+
+        const SEQUENCE_NUMBER = "0300000000000000";
+        const AVATAR_ID = "e2a1a56103734cce9000c9df970124f3";
+        const MALFORMED_AVATAR_ENTITY_TRAIT = "0205000000ed7acf04adea40c5b32bf50a5f1eae31"
+            + buffer2hex(new Uint16Array([truncatedData.length]).buffer) + buffer2hex(truncatedData);
+        const DELETED_AVATAR_ENTITY_TRAIT = "02060000001a1b1c1d1e1f40208021222324252627ffff";
+        const NULL_TRAIT = "ff";
+        const RECEIVED_MESSAGE = SEQUENCE_NUMBER + AVATAR_ID + MALFORMED_AVATAR_ENTITY_TRAIT + DELETED_AVATAR_ENTITY_TRAIT
+            + NULL_TRAIT;
+
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer);
+
+        const bulkAvatarTraitsDetails = BulkAvatarTraits.read(dataView);
+        const avatarTraits = bulkAvatarTraitsDetails.avatarTraitsList[0].avatarTraits;
+        expect(avatarTraits).toHaveLength(2);
+
+        expect(avatarTraits[0].type).toBe(TraitType.AvatarEntity);
+        expect(avatarTraits[0].version).toBe(5);
+        expect(avatarTraits[0].isDeleted).toBe(false);
+        expect(avatarTraits[0].value).toBeNull();
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(error.mock.calls[0][0]).toBe("[EntityData] Could not read entity data:");
+
+        expect(avatarTraits[1].version).toBe(6);
+        expect(avatarTraits[1].isDeleted).toBe(true);
 
-        warn.mockReset();
+        error.mockRestore();
     });
 
     /* eslint-enable @typescript-eslint/no-magic-numbers */
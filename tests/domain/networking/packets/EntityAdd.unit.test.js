@@ -0,0 +1,42 @@
+//
+//  EntityAdd.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityAdd from "../../../../src/domain/networking/packets/EntityAdd";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import UDT from "../../../../src/domain/networking/udt/UDT";
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+
+import { buffer2hex } from "../../../testUtils";
+
+
+describe("EntityAdd - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can write an EntityAdd packet", () => {
+        const EXPECTED_PACKET = "000000002b85000000000000000000000000000000000000050008070605040302010100aabbcc";
+
+        const packet = EntityAdd.write({
+            sequenceNumber: 5,
+            sentTime: 0x0102030405060708n,
+            editMessage: new Uint8Array([0x01, 0x00, 0xaa, 0xbb, 0xcc])
+        });
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.EntityAdd);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+        expect(packetSize).toBeLessThan(UDT.MAX_PACKET_SIZE);
+
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+    });
+
+});
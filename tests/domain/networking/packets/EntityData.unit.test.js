@@ -9,9 +9,12 @@
 //  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
 //
 
+import { inflate } from "pako";
+
 import EntityData from "../../../../src/domain/networking/packets/EntityData";
 import AvatarPriorityMode from "../../../../src/domain/shared/AvatarPriorityMode";
 import ComponentMode from "../../../../src/domain/shared/ComponentMode";
+import GizmoType from "../../../../src/domain/shared/GizmoType";
 import ShapeType from "../../../../src/domain/shared/ShapeType";
 import Uuid from "../../../../src/domain/shared/Uuid";
 
@@ -872,10 +875,8 @@ describe("EntityData - unit tests", () => {
 
     });
 
-    test("Can skip over Line entity types", () => {
-        const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
-
-        // Packet data containing an Line entity, a Material entity and a Shape entity.
+    test("Can read a Line entity", () => {
+        // Packet data containing a Line entity, a Material entity and a Shape entity.
         // eslint-disable-next-line max-len
         const bufferHex = "c00000aeef465048e4050008020000057f78da636060626066d8f6e8fb1cbd3ad737dbaac4764f71957de2e110c5ede7f1849501463330fcfff1ffbff97f3078a0a020c88005fcffcf88cc3dec60bf2034e9408051a03d90e700c10df6ffeb851ffdafb7bd04e4dbc330cc1a0106d6abb1eb98e7392deae05155487e72e32383adfdfe0b5a0b0f6c38abb71f688003239a9d8c8c401114c1fff560f81f9758833d0223832a170612c1b3929376208cf0c916670679b8f43467fcda414189459401181f40d7ed477521888fec7a06863bbd1b121e5aba77b4cc98d15e775f6e268bd09cb7eaa040646c5ee9048eb3a68eff7feaffcf8644da0706f90f58624d80c147765bc72e56eff02d81935d3db22bf280b1c8c3909b58925a949998a39b9f970a577bf68ccf3e04fb8c2d0c23852e3c46618e1160f855354fe06a8b7ff98e334fdaac75963d38d1676c1f30a9fa40c01f9e3d2fb25fdb0dee1805863ba5318a084d97c49244b01781d00064feac9992286e3761a85682290e4b2d2acecccf53b232d4818b152b59552b25e624a5a6e42b59451bea18ea18c4d6d632a2476102d0a88c598f5919f89816d88293c26413e4fc6bbf0057fee56428ce482c484589f6896f6bec5b6b0a0e3cefd1b003260138c616ed308b05181e7359551f79eafb6577defbd71fbb96cf3afbc70c1eed0ffa9f60443bc300463b12a05eb4336c798f701baa3b39184280b199979e930a005f7a3ffa";
 
@@ -885,24 +886,26 @@ describe("EntityData - unit tests", () => {
         const data = new DataView(bufferArray.buffer);
 
         const info = EntityData.read(data);
-        expect(info).toHaveLength(2);
+        expect(info).toHaveLength(3);
 
-        // Material entity.
-        expect(info[0].entityItemID instanceof Uuid).toBe(true);
-        expect(info[0].entityItemID.stringify()).toBe("dc8db060-e139-4788-8498-98877edf1e99");
-        expect(info[0].entityType).toBe(16);
+        // Line entity.
+        expect(info[0].entityItemID.stringify()).toBe("b6e2f79c-2e7e-45ec-b67a-16bb94451de4");
+        expect(info[0].entityType).toBe(9);
+        expect(info[0].color).toStrictEqual({ red: 255, green: 0, blue: 0 });
+        expect(info[0].linePoints).toStrictEqual([{ x: -1, y: 1, z: 0 }, { x: 0, y: -1, z: 0 }, { x: 1, y: 1, z: 0 }]);
 
-        // Shape entity.
+        // Material entity.
         expect(info[1].entityItemID instanceof Uuid).toBe(true);
-        expect(info[1].entityItemID.stringify()).toBe("4c1db688-ba05-4b57-b451-9345486b786e");
-        expect(info[1].entityType).toBe(3);
+        expect(info[1].entityItemID.stringify()).toBe("dc8db060-e139-4788-8498-98877edf1e99");
+        expect(info[1].entityType).toBe(16);
 
-        log.mockReset();
+        // Shape entity.
+        expect(info[2].entityItemID instanceof Uuid).toBe(true);
+        expect(info[2].entityItemID.stringify()).toBe("4c1db688-ba05-4b57-b451-9345486b786e");
+        expect(info[2].entityType).toBe(3);
     });
 
-    test("Can skip over PolyVox entity type", () => {
-        const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
-
+    test("Can read a PolyVox entity", () => {
         // Packet data containing a PolyVox entity and a Model entity.
         // eslint-disable-next-line max-len
         const bufferHex = "c001004968ee534ae4050021030000043c78da63606002c2df893b3ebdaef769dc57a155a13a2b592cc3c8543bc8eb092bc3f515109a81e1ff0f06041038cbc8a000860c8c8719187a122b6ebdbdeb3de9b001876be0fbfacb25f90b9a2f1d329a747eee33df475aeb18ffafe386e8abe8f9a1faf367b20ab78b4a276be3cffa89f21a09e75fc96b74ef5712f4540289ea327d3e9ee89214be4ae3019b2dcf9c8afc55ef3a543e4e3a20e4ce5bea68203b652bfbe6a7f2135596310b7a2639261cbcaf1318e03b39f99cd5fada1fcbe5979d9f6d1df25db291ebf0132e2d239e7333f4f3f2f997bd5652f2dca3726131f72ac31ecd9567eb3ebdfcf9e8e7a77e0fa168962a8d1567a7a45cde9dc170f31e7ffa94ff8a5c59c912ce0157db8a371daca8d997111009b646f8f09a9b8745b66a7cdbc26b26f157ba87ef697d47d3b7ccc09cc0552c976a9d2addff7f982697b65cb2dd216c8dc52f7f8d3f1b42bb830c1f474c12e06844461c021daaab54b50e472c8a5ab4ab67b56ba1e4f5d43b5bb924250aef786cdbd874c7e35b6cb3a18280f9a4d288493ba6fe9dd3107df3e3c3887b571655cc78f7c9e06e917d8f89c4978f7dba5dc77ffe9e52df289f63f021d7dc2253425f244bf88393a2cd86e55fbd9cd79bacf9ce5cbd20cbeb53d0d34d9bff7f9968129f70d877fd79ab90d072cf6a07fe8abb739e1e0e5ac60c8a8f03e17f18ccf22c7f6e799370df7c87e7abeed9920c5c9677260b00e532663d666558201bfac81314ff7b0efcff67ffffec7f30f86121ffff9f200316f0ff3f230743726276aa6e7e5e2a5c34f6c0f57d3db79b0e88ace37638747d9b1dd35361bb4db3b7d9fdaf07c3ff4025f648186cb30043da5ff9b7aae61e355b5b19181f3ed4e2cf13d2df7fc5b1fb00c7e1aff6f5296cf68ce896330245500491ccc72ad6608fc0c8a0ca85817c00f545c37e0679b8d83467fc7a40818a478e81218121a3a4a4a0d84a5f3f39254fd750af2cb32839312533512f393f57bfb4583755d750df29b12a31b148dfb1b838b5a458df373f2535a758df2d3f3f453f29b3a8242325b1321e1433fae9392569a8427ae93949d8438385a19aab960b12a81f1c21a10c26030ebb3300009ee2669a";
@@ -913,19 +916,20 @@ describe("EntityData - unit tests", () => {
         const data = new DataView(bufferArray.buffer);
 
         const info = EntityData.read(data);
-        expect(info).toHaveLength(1);
+        expect(info).toHaveLength(2);
 
-        // Model Entity.
-        expect(info[0].entityItemID instanceof Uuid).toBe(true);
-        expect(info[0].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
-        expect(info[0].entityType).toBe(4);
+        // PolyVox entity.
+        expect(info[0].entityItemID.stringify()).toBe("fb61b8f2-eb7f-4c81-be78-2a78259a6316");
+        expect(info[0].entityType).toBe(11);
+        expect(info[0].voxelData.byteLength).toBe(461);
 
-        log.mockReset();
+        // Model Entity.
+        expect(info[1].entityItemID instanceof Uuid).toBe(true);
+        expect(info[1].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
+        expect(info[1].entityType).toBe(4);
     });
 
-    test("Can skip over PolyLine entity type", () => {
-        const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
-
+    test("Can read a PolyLine entity", () => {
         // Packet data containing a PolyLine entity and a Model entity.
         // eslint-disable-next-line max-len
         const bufferHex = "c00000b67cb7664ae4050013020000047678da6360600242fe8a1bad7fa43c27af7f10b8b6c6af6fa146f1a2bb295e4f5819603403c3ff3ff5ff67ff07830f02f6070419b080ffff1991787e82d6076e6d987de08682a8435a9a9ac3d93367ec4d8c8dedffd73f7cfbbf7ec941a0127b1886d923c0a0a5617ce2f16d3793c92f0fe7997607bddfbcb4ffc0b3b3670ffc9be56c6f58e2e1c08866272323500445f07f3d18fec725d6608fc0c8a0ca858144f0ace4a41d08237c32cd99411e2e0de4e005a0b0c422cac0e0c590515252506ca5af9f9c92a76ba8579659949c989299a8979c9fab5f5aac9baa6ba8ef929f9b9899e79c9f57929a57a21f925f99945fa19f96935fee585452ac5f5294989953ac579097ce0cf2f17ea80bd140032cfc19981980b1633b6be64cbbb3677cec98114afed5dbe36603837dcb9b84fbe63b3c5f75cf9664e0b2bc335900289731eb312bc302d9d0479ea094b3e7c0ff7ff6ffcf4292ce0f0bf9ffff70a51d0e86e4c4ec54ddfcbc54b868ec81ebfb7a6e371d1059c7ed70e8fa363ba6a7c2769b666fb3438a4f7b240cb6598021edaffc5b55738f9aadad0c8c0f1f6af1e709e9efbfe2d87d80e3f057fbfa14367bf434c43080690809407d018c2d4ad3105c8e81218188b4e49458959858a4ef585c9c0a4c3bbef929a939c5fa6ef9f929fa4999452519298995f1a098d14fcf29494315d24bcf49c21e1a2c0cd55cb55c9040fde0080965301970d89d01005b2410c7";
@@ -936,19 +940,30 @@ describe("EntityData - unit tests", () => {
         const data = new DataView(bufferArray.buffer);
 
         const info = EntityData.read(data);
-        expect(info).toHaveLength(1);
+        expect(info).toHaveLength(2);
 
-        // Model Entity.
-        expect(info[0].entityItemID instanceof Uuid).toBe(true);
-        expect(info[0].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
-        expect(info[0].entityType).toBe(4);
+        // PolyLine entity.
+        expect(info[0].entityItemID.stringify()).toBe("0f78d885-fc1a-4993-afe0-51ad7c4e8ea1");
+        expect(info[0].entityType).toBe(10);
+        expect(info[0].color).toStrictEqual({ red: 255, green: 0, blue: 0 });
+        expect(info[0].textures).toBe("https://cdn-1.vircadia.com/us-e-1/DomainContent/Toybox/flowArts/trails.png");
+        expect(info[0].linePoints).toStrictEqual([{ x: -1, y: 0.5, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 1, y: 0.5, z: 0 }]);
+        expect(info[0].strokeWidths).toHaveLength(3);
+        expect(info[0].strokeWidths[1]).toBeCloseTo(0.3, 5);
+        expect(info[0].normals).toHaveLength(3);
+        expect(info[0].normals[0].z).toBeCloseTo(1.0, 4);
+        expect(info[0].strokeColors).toStrictEqual([]);
+        expect(info[0].isUVModeStretch).toBe(true);
+        expect(info[0].glow).toBe(false);
+        expect(info[0].faceCamera).toBe(false);
 
-        log.mockReset();
+        // Model Entity.
+        expect(info[1].entityItemID instanceof Uuid).toBe(true);
+        expect(info[1].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
+        expect(info[1].entityType).toBe(4);
     });
 
-    test("Can skip over Grid entity type", () => {
-        const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
-
+    test("Can read a Grid entity", () => {
         // Packet data containing a Grid entity and a Model entity.
         // eslint-disable-next-line max-len
         const bufferHex = "c0000022fcece84ae40500b801000003eb78da63606002c2580397e28b1afe9bf74e897970ebfb2b4d89ed52a1f7bc9eb032c0680686ff3ffeff37ff0f060fec7708326001ffff3322731f2bee6317fe7c40677a9a0303c3092710e6baae6cf3bf1e0cff0355d8c330cc1a01868c92a4a81337bd7317e4a43f8ecf72b5b8b0a7f710dfdc398754cddb0eddcbe6756644b393911128822288643e56b1067b044606552e0c2482672527ed4018e19369ce0cf2706920072f000525565184dbd0dcc902a1ecb7bc49b86fbec3f355f76c49062ecb3b9305808219b31eb3322c900d7de4098aae3d07feffb3ff7f16125f3f2ce4ffffc315631c0cc989d9a9baf979a970d1d803d7f7f5dc6e3a20b28edbe1d0f56d764c4f85ed36cdde66872de660360b30a4fd957fab6aee51b3b59581f1e1432dfe3c21fdfd571cbb0f701cfe6a5f9fc2668f1e730c0318734800ea8b86fd14c71c52fc2500d3714941b195be7e724a9eaea15e59665172624a66a25e727eae7e69b16eaaaea1be536255626291be6371716a49b1be6f7e4a6a4eb1be5b7e7e8a7e52665149464a62653c2866f4d3734ad25085f4d27392b087060b4335572d1724503f384242194c061c76670000a482e73d";
@@ -959,19 +974,24 @@ describe("EntityData - unit tests", () => {
         const data = new DataView(bufferArray.buffer);
 
         const info = EntityData.read(data);
-        expect(info).toHaveLength(1);
+        expect(info).toHaveLength(2);
 
-        // Model Entity.
-        expect(info[0].entityItemID instanceof Uuid).toBe(true);
-        expect(info[0].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
-        expect(info[0].entityType).toBe(4);
+        // Grid entity.
+        expect(info[0].entityItemID.stringify()).toBe("5d304473-d128-4fb3-bd94-5ce0daf7ea29");
+        expect(info[0].entityType).toBe(12);
+        expect(info[0].color).toStrictEqual({ red: 255, green: 255, blue: 255 });
+        expect(info[0].alpha).toBe(1);
+        expect(info[0].followCamera).toBe(false);
+        expect(info[0].majorGridEvery).toBe(4);
+        expect(info[0].minorGridEvery).toBe(0.5);
 
-        log.mockReset();
+        // Model Entity.
+        expect(info[1].entityItemID instanceof Uuid).toBe(true);
+        expect(info[1].entityItemID.stringify()).toBe("b4ec60df-37b8-49ea-8b9b-19000a39dc93");
+        expect(info[1].entityType).toBe(4);
     });
 
-    test("Can skip over Gizmo entity type", () => {
-        const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
-
+    test("Can read a Gizmo entity", () => {
         // Packet data containing a Gizmo entity and a Model entity.
         // eslint-disable-next-line max-len
         const bufferHex = "c00000eb0ae37e5be40500bb010000040b78da6360600242cd1b6247233fb8d5cf57319ec35f76d12a42c490373ffa092b038c6660f8ffcffeffd9ff60f08381ffff3f41062ce0ff7f4624de2769de031127180e9648b239323034d8e70b355b81e8fff560f81fa8c41e8661160930a89de673f7d8e9fb637371ce19f6fb45cb0d62ad0e2c97e039e839e9abc33796adf68c687632320245500491ccc72ad6608fc0c8a0ca858144f0ace4a41d08237c32cd99411e2e0de4e005a0c0c42567e2c4c0b005acff3f44e17f886a64c7a37b8001a6f297b7c88b33f2feb59b6bee5eba5ebcbc490028d3e10b0cdef250ad34707c8620c7a7853ceef8e460484ecc4ed5cdcf4b858b1eb40cde7f79cff503d2fab71d0e5ddf66c7f454d86ed3ec6d76d8e21566b10083f22b2b3b7e0107a7198bdecfca7be3f084c1ac7bbfb4f28303974f5c72a84f61c3885786018c572400f545c37e2ac52b582a8121a3a4a4a0d84a5f3f39254fd750af2cb32839312533512f393f57bfb4583755d750df29b12a31b148dfb1b838b5a458df373f2535a758df2d3f3f453f29b3a8242325b1321e1433fae9392569a8427ae93949d8438385a19aab960b12a81f1c21a10c26030ebb3300003de3f0d3";
@@ -982,14 +1002,73 @@ describe("EntityData - unit tests", () => {
         const data = new DataView(bufferArray.buffer);
 
         const info = EntityData.read(data);
-        expect(info).toHaveLength(1);
+        expect(info).toHaveLength(2);
+
+        // Gizmo entity.
+        expect(info[0].entityItemID.stringify()).toBe("29d816c5-59f0-467f-9f24-339c0f76d13a");
+        expect(info[0].entityType).toBe(13);
+        expect(info[0].gizmoType).toBe(GizmoType.RING);
+        expect(info[0].ring.startAngle).toBe(45);
+        expect(info[0].ring.endAngle).toBe(360);
+        expect(info[0].ring.innerStartColor).toStrictEqual({ red: 255, green: 0, blue: 0 });
+        expect(info[0].ring.outerEndAlpha).toBe(1);
+        expect(info[0].ring.hasTickMarks).toBe(false);
 
         // Model Entity.
-        expect(info[0].entityItemID instanceof Uuid).toBe(true);
-        expect(info[0].entityItemID.stringify()).toBe("fa4b14e8-cc1f-4f7d-b37c-ddd2d773a782");
-        expect(info[0].entityType).toBe(4);
+        expect(info[1].entityItemID instanceof Uuid).toBe(true);
+        expect(info[1].entityItemID.stringify()).toBe("fa4b14e8-cc1f-4f7d-b37c-ddd2d773a782");
+        expect(info[1].entityType).toBe(4);
+    });
+
+    test("Can skip over an unsupported entity type", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+
+        // Packet data containing a Grid entity and an entity of Unknown type.
+        // eslint-disable-next-line max-len
+        const bufferHex = "c0000022fcece84ae40500b701000003eb78da63606002c2580397e28b1afe9bf74e897970ebfb2b4d89ed52a1f7bc9eb032c0680686ff3ffeff37ff0f060fec7708326001ffff3322731f2bee6317fe7c40677a9a0303c3092710e6baae6cf3bf1e0cff0355d8c330cc1a01868c92a4a81337bd7317e4a43f8ecf72b5b8b0a7f710dfdc398754cddb0eddcbe6756644b393911128822288643e56b1067b044606552e0c2482672527ed4018e19369ce0cf2706920072f000525565184dbd0dcc902a1ecb7bc49b86fbec3f355f76c49062ecb3b93418219b31eb3322c900d7de4098aae3d07feffb3ff7f16125f3f2ce4ffffc315631c0cc989d9a9baf979a970d1d803d7f7f5dc6e3a20b28edbe1d0f56d764c4f85ed36cdde66872de660360b30a4fd957fab6aee51b3b59581f1e1432dfe3c21fdfd571cbb0f701cfe6a5f9fc2668f1e730c0318734800ea8b86fd14c71c52fc2500d3714941b195be7e724a9eaea15e59665172624a66a25e727eae7e69b16eaaaea1be536255626291be6371716a49b1be6f7e4a6a4eb1be5b7e7e8a7e52665149464a62653c2866f4d3734ad25085f4d27392b087060b4335572d1724503f384242194c061c766700008222e72d";
+
+        const bufferArray = new Uint8Array(bufferHex.match(/[\da-f]{2}/giu).map(function (hex) {
+            return parseInt(hex, 16);
+        }));
+        const data = new DataView(bufferArray.buffer);
+
+        const info = EntityData.read(data);
+        expect(info).toHaveLength(1);
 
-        log.mockReset();
+        // Grid entity.
+        expect(info[0].entityItemID.stringify()).toBe("5d304473-d128-4fb3-bd94-5ce0daf7ea29");
+        expect(info[0].entityType).toBe(12);
+
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(error).toHaveBeenCalledWith("[EntityData] Entity type not supported:", 0);
+        error.mockReset();
+    });
+
+    test("Discards a packet with a truncated entity data section", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+
+        // The Model entity packet above, uncompressed and with the entity data truncated.
+        // eslint-disable-next-line max-len
+        const bufferHex = "c030005f878ad79fe105001a010000023378da636030666064c85cb6c2caff93d3df6969e6756d5c5ab7041666755d9fff909501462b28fcff67ffffec7f30f86121ffff9f200316f0ff3f324f6d8783bd898afbc18dab2d1cce9e39630bc3ffebc110a4d61e86611609303c58b88a79238b4bd94a758d152c2faf784de8d1b27fdbe671f08c82b1c39a18433b46744b198122288248e663156bb047606450e5c2403e80faa4613f833c5c6c9a337e3da0c0c423c7c090c090515252506ca5af9f9c92a76ba8579659949c989299a8979c9fab5f5aac9baa6ba8ef9458959858a4ef585c9c5a52acef9b9f929a53acef969f9fa29f94595492919258199f9c989daa9f9e5392862aa4979e93843d345818aab96ab92081fac11112ca6032e0b03b03002d4487fd";
+        const compressedPacket = new Uint8Array(bufferHex.match(/[\da-f]{2}/giu).map(function (hex) {
+            return parseInt(hex, 16);
+        }));
+        const HEADER_SIZE = 11;
+        const SECTION_HEADER_SIZE = 2 + 4;
+        const entityData = inflate(compressedPacket.subarray(HEADER_SIZE + SECTION_HEADER_SIZE));
+        const truncatedLength = 100;
+        expect(entityData.length).toBeGreaterThan(truncatedLength);
+
+        const packet = new Uint8Array(HEADER_SIZE + truncatedLength);
+        packet.set(compressedPacket.subarray(0, HEADER_SIZE));
+        packet[0] &= ~0x40;  // Uncompressed.
+        packet.set(entityData.subarray(0, truncatedLength), HEADER_SIZE);
+
+        const info = EntityData.read(new DataView(packet.buffer));
+        expect(info).toStrictEqual([]);
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(error.mock.calls[0][0]).toBe("[EntityData] Could not read entity data:");
+        error.mockReset();
     });
 
 });
@@ -0,0 +1,35 @@
+//
+//  EntityEditNack.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityEditNack from "../../../../src/domain/networking/packets/EntityEditNack";
+
+
+describe("EntityEditNack - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read an EntityEditNack packet", () => {
+        const RECEIVED_MESSAGE = "00000000251600000500070000ffff";
+        const MESSAGE_START = 8;
+
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer, MESSAGE_START);
+
+        const info = EntityEditNack.read(dataView);
+
+        expect(info.sequenceNumbers).toStrictEqual([5, 7, 0xff00]);
+    });
+
+});
@@ -0,0 +1,64 @@
+//
+//  EntityErase.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityErase from "../../../../src/domain/networking/packets/EntityErase";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import UDT from "../../../../src/domain/networking/udt/UDT";
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils";
+
+
+describe("EntityErase - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+
+    test("Can read an EntityErase packet", () => {
+        // eslint-disable-next-line max-len
+        const RECEIVED_MESSAGE = "000000002c16000000000000000000000000000000000000000300a0b1c2d3e4f506000200ed7acf04adea40c5b32bf50a5f1eae315b0d2c1e8a3f4b6c9d7e0f1a2b3c4d5e";
+        const MESSAGE_START = 24;
+
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer, MESSAGE_START);
+
+        const info = EntityErase.read(dataView);
+
+        expect(info.entityIDs).toHaveLength(2);
+        expect(info.entityIDs[0].stringify()).toBe("ed7acf04-adea-40c5-b32b-f50a5f1eae31");
+        expect(info.entityIDs[1].stringify()).toBe("5b0d2c1e-8a3f-4b6c-9d7e-0f1a2b3c4d5e");
+    });
+
+    test("Can write an EntityErase packet", () => {
+        // eslint-disable-next-line max-len
+        const EXPECTED_PACKET = "000000002c16000000000000000000000000000000000000010008070605040302010100ed7acf04adea40c5b32bf50a5f1eae31";
+
+        const packet = EntityErase.write({
+            sequenceNumber: 1,
+            sentTime: 0x0102030405060708n,
+            entityIDs: [new Uuid(0xed7acf04adea40c5b32bf50a5f1eae31n)]
+        });
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.EntityErase);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+        expect(packetSize).toBeLessThan(UDT.MAX_PACKET_SIZE);
+
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+    });
+
+});
@@ -0,0 +1,36 @@
+//
+//  EntityQueryInitialResultsComplete.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityQueryInitialResultsComplete
+    from "../../../../src/domain/networking/packets/EntityQueryInitialResultsComplete";
+
+
+describe("EntityQueryInitialResultsComplete - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read an EntityQueryInitialResultsComplete packet", () => {
+        const RECEIVED_MESSAGE = "0000000063160000e803";
+        const MESSAGE_START = 8;
+
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+        const dataView = new DataView(arrayBuffer, MESSAGE_START);
+
+        const info = EntityQueryInitialResultsComplete.read(dataView);
+
+        expect(info.exclusiveSequenceNumber).toBe(1000);
+    });
+
+});
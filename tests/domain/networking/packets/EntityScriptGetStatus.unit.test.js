@@ -0,0 +1,42 @@
+//
+//  EntityScriptGetStatus.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityScriptGetStatus from "../../../../src/domain/networking/packets/EntityScriptGetStatus";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import NLPacketList from "../../../../src/domain/networking/NLPacketList";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils";
+
+
+describe("EntityScriptGetStatus - unit tests", () => {
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can write an EntityScriptGetStatus packet list", () => {
+        const EXPECTED_PACKET = "000000404b1600000000000000000000000000000000000007000000a3eda01ec4de456dbf07858a26c5a648";
+        const packetList = EntityScriptGetStatus.write({
+            messageID: 7,
+            entityID: new Uuid(217897985291723272451165858623432009288n)
+        });
+        packetList.closeCurrentPacket();
+
+        expect(packetList instanceof NLPacketList).toBe(true);
+        expect(packetList.getType()).toBe(PacketType.EntityScriptGetStatus);
+        const packets = packetList.getPackets();
+        expect(packets).toHaveLength(1);
+
+        const packet = packets[0];
+        expect(packet.getMessageData().packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, EXPECTED_PACKET.length / 2))).toBe(EXPECTED_PACKET);
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+});
@@ -0,0 +1,51 @@
+//
+//  EntityScriptGetStatusReply.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityScriptGetStatusReply from "../../../../src/domain/networking/packets/EntityScriptGetStatusReply";
+
+
+describe("EntityScriptGetStatusReply - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    function hexToDataView(hex) {
+        /* eslint-disable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call */
+        const arrayBuffer = new ArrayBuffer(hex.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(hex.substr(i * 2, 2), 16);
+        }
+        return new DataView(arrayBuffer);
+        /* eslint-enable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call */
+    }
+
+    test("Can read an EntityScriptGetStatusReply message for a known script", () => {
+        // Error running script, with error info "Oops".
+        const RECEIVED_MESSAGE = "070000000103000000040000004f6f7073";
+        const info = EntityScriptGetStatusReply.read(hexToDataView(RECEIVED_MESSAGE));
+        expect(info.messageID).toBe(7);
+        expect(info.isKnown).toBe(true);
+        expect(info.status).toBe(3);
+        expect(info.errorInfo).toBe("Oops");
+    });
+
+    test("Can read an EntityScriptGetStatusReply message for an unknown script", () => {
+        const RECEIVED_MESSAGE = "0800000000";
+        const info = EntityScriptGetStatusReply.read(hexToDataView(RECEIVED_MESSAGE));
+        expect(info.messageID).toBe(8);
+        expect(info.isKnown).toBe(false);
+        expect(info.status).toBe(2);
+        expect(info.errorInfo).toBe("");
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+});
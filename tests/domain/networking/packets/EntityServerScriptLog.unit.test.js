@@ -0,0 +1,48 @@
+//
+//  EntityServerScriptLog.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import EntityServerScriptLog from "../../../../src/domain/networking/packets/EntityServerScriptLog";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+
+import { buffer2hex } from "../../../testUtils";
+
+
+describe("EntityServerScriptLog - unit tests", () => {
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read an EntityServerScriptLog packet", () => {
+        const RECEIVED_MESSAGE = "48656c6c6f0a576f726c64";
+        const arrayBuffer = new ArrayBuffer(RECEIVED_MESSAGE.length / 2);
+        const uint8Array = new Uint8Array(arrayBuffer);
+        for (let i = 0, length = arrayBuffer.byteLength; i < length; i++) {
+            uint8Array[i] = Number.parseInt(RECEIVED_MESSAGE.substr(i * 2, 2), 16);
+        }
+
+        const info = EntityServerScriptLog.read(new DataView(arrayBuffer));
+        expect(info.logLines).toBe("Hello\nWorld");
+    });
+
+    test("Can write an EntityServerScriptLog packet", () => {
+        const EXPECTED_PACKET = "000000404f1600000000000000000000000000000000000001";
+        const packet = EntityServerScriptLog.write({
+            enable: true
+        });
+
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.EntityServerScriptLog);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+});
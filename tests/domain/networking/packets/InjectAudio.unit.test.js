@@ -0,0 +1,51 @@
+//
+//  InjectAudio.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+import InjectAudio from "../../../../src/domain/networking/packets/InjectAudio";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import UDT from "../../../../src/domain/networking/udt/UDT";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils.js";
+
+
+describe("InjectAudio - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can write an InjectAudio packet", () => {
+        // eslint-disable-next-line max-len
+        const EXPECTED_PACKET = "00000000071800000000000000000000000000000000000017000000000000112233445566778899aabbccddeeff00019a99993f9a9959403333b340cdcc4c3e9a99993e0000003fcdcccc3d9a99993f9a9959403333b3400000000000000000000000000000000080010100feff2c01";
+
+        const packet = InjectAudio.write({
+            sequenceNumber: 23,
+            streamIdentifier: new Uuid(0x00112233445566778899aabbccddeeffn),
+            isStereo: false,
+            loopback: true,
+            position: { x: 1.2, y: 3.4, z: 5.6 },
+            orientation: { x: 0.2, y: 0.3, z: 0.5, w: 0.1 },
+            volume: 0.5,
+            ignorePenumbra: true,
+            audioBuffer: new Int16Array([1, -2, 300])
+        });
+
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.InjectAudio);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+        expect(packetSize).toBeLessThan(UDT.MAX_PACKET_SIZE);
+
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+    });
+
+});
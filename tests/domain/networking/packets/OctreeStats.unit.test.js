@@ -0,0 +1,73 @@
+//
+//  OctreeStats.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import OctreeStats from "../../../../src/domain/networking/packets/OctreeStats";
+
+
+describe("OctreeStats - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can read an OctreeStats packet", () => {
+        const STATS_MESSAGE_LENGTH = 222;
+        const PIGGYBACK_LENGTH = 10;
+        const NUM_ELEMENT_COUNTS = 22;
+
+        // Write a stats message followed by piggybacked data that should be ignored.
+        const dataView = new DataView(new ArrayBuffer(STATS_MESSAGE_LENGTH + PIGGYBACK_LENGTH));
+        let dataPosition = 0;
+        dataView.setBigUint64(dataPosition, 1697600000000000n, true);
+        dataPosition += 8;
+        dataView.setBigUint64(dataPosition, 1697600000012345n, true);
+        dataPosition += 8;
+        dataView.setBigUint64(dataPosition, 12345n, true);
+        dataPosition += 8;
+        dataView.setBigUint64(dataPosition, 2345n, true);
+        dataPosition += 8;
+        dataView.setUint8(dataPosition, 1);
+        dataPosition += 1;
+        dataView.setUint8(dataPosition, 0);
+        dataPosition += 1;
+        dataView.setUint32(dataPosition, 7, true);
+        dataPosition += 4;
+        dataView.setBigUint64(dataPosition, 8765n, true);
+        dataPosition += 8;
+        for (let i = 0; i < NUM_ELEMENT_COUNTS; i++) {
+            dataView.setBigUint64(dataPosition, BigInt(i + 1), true);
+            dataPosition += 8;
+        }
+        expect(dataPosition).toBe(STATS_MESSAGE_LENGTH);
+        dataView.setUint8(dataPosition, 0xff);
+
+        const info = OctreeStats.read(dataView);
+
+        expect(info.start).toBe(1697600000000000);
+        expect(info.end).toBe(1697600000012345);
+        expect(info.elapsed).toBe(12345);
+        expect(info.totalEncodeTime).toBe(2345);
+        expect(info.isFullScene).toBe(true);
+        expect(info.isMoving).toBe(false);
+        expect(info.packets).toBe(7);
+        expect(info.bytes).toBe(8765);
+        expect(info.totalElements).toBe(3);
+        expect(info.totalInternal).toBe(1);
+        expect(info.totalLeaves).toBe(2);
+        expect(info.internal).toBe(3);
+        expect(info.leaves).toBe(4);
+        expect(info.internalSkippedDistance).toBe(5);
+        expect(info.leavesSkippedOccluded).toBe(14);
+        expect(info.internalColorSent).toBe(15);
+        expect(info.leavesDidntFit).toBe(18);
+        expect(info.colorBitsWritten).toBe(19);
+        expect(info.treesRemoved).toBe(22);
+    });
+
+});
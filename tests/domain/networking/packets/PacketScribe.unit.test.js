@@ -29,10 +29,14 @@ describe("Packets - unit tests", () => {
         expect(typeof PacketScribe.KillAvatar.read).toBe("function");
         expect(typeof PacketScribe.AvatarData).toBe("object");
         expect(typeof PacketScribe.AvatarData.write).toBe("function");
+        expect(typeof PacketScribe.InjectAudio).toBe("object");
+        expect(typeof PacketScribe.InjectAudio.write).toBe("function");
         expect(typeof PacketScribe.MixedAudio).toBe("object");
         expect(typeof PacketScribe.MixedAudio.read).toBe("function");
         expect(typeof PacketScribe.MicrophoneAudioNoEcho).toBe("object");
         expect(typeof PacketScribe.MicrophoneAudioNoEcho.write).toBe("function");
+        expect(typeof PacketScribe.MicrophoneAudioWithEcho).toBe("object");
+        expect(typeof PacketScribe.MicrophoneAudioWithEcho.write).toBe("function");
         expect(typeof PacketScribe.BulkAvatarData).toBe("object");
         expect(typeof PacketScribe.BulkAvatarData.read).toBe("function");
         expect(typeof PacketScribe.SilentAudioFrame).toBe("object");
@@ -42,12 +46,17 @@ describe("Packets - unit tests", () => {
         expect(typeof PacketScribe.DomainListRequest.write).toBe("function");
         expect(typeof PacketScribe.DomainConnectionDenied).toBe("object");
         expect(typeof PacketScribe.DomainConnectionDenied.read).toBe("function");
+        expect(typeof PacketScribe.AudioStreamStats).toBe("object");
+        expect(typeof PacketScribe.AudioStreamStats.read).toBe("function");
+        expect(typeof PacketScribe.AudioStreamStats.write).toBe("function");
         expect(typeof PacketScribe.DomainServerPathQuery).toBe("object");
         expect(typeof PacketScribe.DomainServerPathQuery.write).toBe("function");
         expect(typeof PacketScribe.DomainServerPathResponse).toBe("object");
         expect(typeof PacketScribe.DomainServerPathResponse.read).toBe("function");
         expect(typeof PacketScribe.DomainServerAddedNode).toBe("object");
         expect(typeof PacketScribe.DomainServerAddedNode.read).toBe("function");
+        expect(typeof PacketScribe.OctreeStats).toBe("object");
+        expect(typeof PacketScribe.OctreeStats.read).toBe("function");
         expect(typeof PacketScribe.SetAvatarTraits).toBe("object");
         expect(typeof PacketScribe.SetAvatarTraits.write).toBe("function");
         expect(typeof PacketScribe.AvatarIdentity).toBe("object");
@@ -56,10 +65,21 @@ describe("Packets - unit tests", () => {
         expect(typeof PacketScribe.NodeIgnoreRequest.write).toBe("function");
         expect(typeof PacketScribe.DomainConnectRequest).toBe("object");
         expect(typeof PacketScribe.DomainConnectRequest.write).toBe("function");
+        expect(typeof PacketScribe.AudioEnvironment).toBe("object");
+        expect(typeof PacketScribe.AudioEnvironment.read).toBe("function");
+        expect(typeof PacketScribe.EntityEditNack).toBe("object");
+        expect(typeof PacketScribe.EntityEditNack.read).toBe("function");
         expect(typeof PacketScribe.EntityData).toBe("object");
         expect(typeof PacketScribe.EntityData.read).toBe("function");
         expect(typeof PacketScribe.EntityQuery).toBe("object");
         expect(typeof PacketScribe.EntityQuery.write).toBe("function");
+        expect(typeof PacketScribe.EntityAdd).toBe("object");
+        expect(typeof PacketScribe.EntityAdd.write).toBe("function");
+        expect(typeof PacketScribe.EntityErase).toBe("object");
+        expect(typeof PacketScribe.EntityErase.read).toBe("function");
+        expect(typeof PacketScribe.EntityErase.write).toBe("function");
+        expect(typeof PacketScribe.EntityEdit).toBe("object");
+        expect(typeof PacketScribe.EntityEdit.write).toBe("function");
         expect(typeof PacketScribe.DomainServerConnectionToken).toBe("object");
         expect(typeof PacketScribe.DomainServerConnectionToken.read).toBe("function");
         expect(typeof PacketScribe.DomainDisconnectRequest).toBe("object");
@@ -85,8 +105,21 @@ describe("Packets - unit tests", () => {
         expect(typeof PacketScribe.AvatarQuery.write).toBe("function");
         expect(typeof PacketScribe.RequestsDomainListData).toBe("object");
         expect(typeof PacketScribe.RequestsDomainListData.write).toBe("function");
+        expect(typeof PacketScribe.EntityScriptGetStatus).toBe("object");
+        expect(typeof PacketScribe.EntityScriptGetStatus.write).toBe("function");
+        expect(typeof PacketScribe.EntityScriptGetStatusReply).toBe("object");
+        expect(typeof PacketScribe.EntityScriptGetStatusReply.read).toBe("function");
+        expect(typeof PacketScribe.ReloadEntityServerScript).toBe("object");
+        expect(typeof PacketScribe.ReloadEntityServerScript.write).toBe("function");
+        expect(typeof PacketScribe.EntityServerScriptLog).toBe("object");
+        expect(typeof PacketScribe.EntityServerScriptLog.read).toBe("function");
+        expect(typeof PacketScribe.EntityServerScriptLog.write).toBe("function");
+        expect(typeof PacketScribe.EntityQueryInitialResultsComplete).toBe("object");
+        expect(typeof PacketScribe.EntityQueryInitialResultsComplete.read).toBe("function");
         expect(typeof PacketScribe.BulkAvatarTraits).toBe("object");
         expect(typeof PacketScribe.BulkAvatarTraits.read).toBe("function");
+        expect(typeof PacketScribe.StopInjector).toBe("object");
+        expect(typeof PacketScribe.StopInjector.write).toBe("function");
     });
 
 });
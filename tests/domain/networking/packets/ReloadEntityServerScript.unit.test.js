@@ -0,0 +1,39 @@
+//
+//  ReloadEntityServerScript.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import ReloadEntityServerScript from "../../../../src/domain/networking/packets/ReloadEntityServerScript";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils";
+
+
+describe("ReloadEntityServerScript - unit tests", () => {
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can write a ReloadEntityServerScript packet", () => {
+        const EXPECTED_PACKET = "000000404d16000000000000000000000000000000000000a3eda01ec4de456dbf07858a26c5a648";
+        const packet = ReloadEntityServerScript.write({
+            entityID: new Uuid(217897985291723272451165858623432009288n)
+        });
+
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.ReloadEntityServerScript);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+        expect(packet.getMessageData().dataPosition).toBe(packetSize);
+        expect(packet.getMessageData().packetSize).toBe(packetSize);
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+});
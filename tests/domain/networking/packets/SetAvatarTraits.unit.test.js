@@ -12,6 +12,7 @@
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
 
+import AvatarTraits from "../../../../src/domain/avatars/AvatarTraits";
 import { ClientTraitStatus } from "../../../../src/domain/avatars/ClientTraitsHandler";
 import SetAvatarTraits from "../../../../src/domain/networking/packets/SetAvatarTraits";
 import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
@@ -32,6 +33,9 @@ describe("SetAvatarTraits - unit tests", () => {
             currentTraitVersion: 1,
             skeletonModelURL: "https://cdn-1.vircadia.com/us-e-1/Bazaar/Avatars/Sean/fbx/Sean.fst",
             traitStatuses,
+            instancedTraitStatuses: new Map(),
+            avatarEntityData: new Map(),
+            avatarGrabData: new Map(),
             initialSend: true
         });
         packetList.closeCurrentPacket();
@@ -58,6 +62,9 @@ describe("SetAvatarTraits - unit tests", () => {
             currentTraitVersion: 1,
             skeletonModelURL: "https://cdn-1.vircadia.com/us-e-1/Bazaar/Avatars/Sean/fbx/Sean.fst",
             traitStatuses,
+            instancedTraitStatuses: new Map(),
+            avatarEntityData: new Map(),
+            avatarGrabData: new Map(),
             initialSend: false
         });
         packetList.closeCurrentPacket();
@@ -96,6 +103,9 @@ describe("SetAvatarTraits - unit tests", () => {
             ],
             /* eslint-enable max-len, array-element-newline, @typescript-eslint/no-loss-of-precision */
             traitStatuses,
+            instancedTraitStatuses: new Map(),
+            avatarEntityData: new Map(),
+            avatarGrabData: new Map(),
             initialSend: false
         });
         packetList.closeCurrentPacket();
@@ -133,4 +143,60 @@ describe("SetAvatarTraits - unit tests", () => {
         expect(packet.getMessageData().dataPosition).toBe(EXPECTED_PACKET_2.length / 2);
     });
 
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    test("Can write a SetAvatarTraits packet that includes avatar entity traits", () => {
+        const HEADER_HEX_LENGTH = 64;
+        const updatedEntityID = 0x0a0b0c0d0e0f40108011121314151617n;
+        const deletedEntityID = 0x1a1b1c1d1e1f40208021222324252627n;
+        const packetList = SetAvatarTraits.write({
+            currentTraitVersion: 2,
+            skeletonModelURL: "",
+            skeletonData: [],
+            traitStatuses: [ClientTraitStatus.Unchanged, ClientTraitStatus.Unchanged],
+            instancedTraitStatuses: new Map([
+                [
+                    AvatarTraits.AvatarEntity,
+                    new Map([
+                        [updatedEntityID, ClientTraitStatus.Updated],
+                        [deletedEntityID, ClientTraitStatus.Deleted]
+                    ])
+                ]
+            ]),
+            avatarEntityData: new Map([[updatedEntityID, new Uint8Array([1, 2, 3])]]),
+            avatarGrabData: new Map(),
+            initialSend: false
+        });
+        packetList.closeCurrentPacket();
+
+        const packets = packetList.getPackets();
+        expect(packets).toHaveLength(1);
+        const packet = packets[0];
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packet.getMessageData().dataPosition))
+            .slice(HEADER_HEX_LENGTH))
+            .toBe("02000000020a0b0c0d0e0f401080111213141516170300010203021a1b1c1d1e1f40208021222324252627ffff");
+    });
+
+    test("Doesn't write deleted avatar entity traits in an initial send", () => {
+        const HEADER_HEX_LENGTH = 64;
+        const deletedEntityID = 0x1a1b1c1d1e1f40208021222324252627n;
+        const avatarEntityStatuses = new Map([[deletedEntityID, ClientTraitStatus.Deleted]]);
+        const packetList = SetAvatarTraits.write({
+            currentTraitVersion: 1,
+            skeletonModelURL: "",
+            skeletonData: [],
+            traitStatuses: [],
+            instancedTraitStatuses: new Map([[AvatarTraits.AvatarEntity, avatarEntityStatuses]]),
+            avatarEntityData: new Map(),
+            avatarGrabData: new Map(),
+            initialSend: true
+        });
+        packetList.closeCurrentPacket();
+
+        const packet = packetList.getPackets()[0];
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packet.getMessageData().dataPosition))
+            .slice(HEADER_HEX_LENGTH)).toBe("01000000");
+    });
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
 });
@@ -0,0 +1,39 @@
+//
+//  StopInjector.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import NLPacket from "../../../../src/domain/networking/NLPacket";
+import StopInjector from "../../../../src/domain/networking/packets/StopInjector";
+import PacketType from "../../../../src/domain/networking/udt/PacketHeaders";
+import Uuid from "../../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../../testUtils.js";
+
+
+describe("StopInjector - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can write a StopInjector packet", () => {
+        const EXPECTED_PACKET = "00000000671800000000000000000000000000000000000000112233445566778899aabbccddeeff";
+
+        const packet = StopInjector.write({
+            streamIdentifier: new Uuid(0x00112233445566778899aabbccddeeffn)
+        });
+
+        expect(packet instanceof NLPacket).toBe(true);
+        expect(packet.getType()).toBe(PacketType.StopInjector);
+        const packetSize = packet.getDataSize();
+        expect(packetSize).toBe(packet.getMessageData().dataPosition);
+        expect(packetSize).toBe(EXPECTED_PACKET.length / 2);
+        expect(buffer2hex(packet.getMessageData().buffer.slice(0, packetSize))).toBe(EXPECTED_PACKET);
+    });
+
+});
@@ -0,0 +1,60 @@
+//
+//  OctreePacketData.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import OctreePacketData from "../../../src/domain/octree/OctreePacketData";
+import Uuid from "../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../testUtils";
+
+
+describe("OctreePacketData - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Can append values", () => {
+        const packetData = new OctreePacketData(100);
+        expect(packetData.getBytesAvailable()).toBe(100);
+
+        expect(packetData.appendBoolean(true)).toBe(true);
+        expect(packetData.appendUint16(0x0102)).toBe(true);
+        expect(packetData.appendUint32(0x01020304)).toBe(true);
+        expect(packetData.appendUint64(0x0102030405060708n)).toBe(true);
+        expect(packetData.appendFloat(1.0)).toBe(true);
+        expect(packetData.appendVec3({ x: 1, y: 2, z: -1 })).toBe(true);
+        expect(packetData.appendColor({ red: 10, green: 20, blue: 30 })).toBe(true);
+        expect(packetData.appendString("Hi")).toBe(true);
+        expect(packetData.appendUuid(null)).toBe(true);
+        expect(packetData.appendUuid(new Uuid(0xed7acf04adea40c5b32bf50a5f1eae31n))).toBe(true);
+
+        expect(packetData.getUncompressedSize()).toBe(1 + 2 + 4 + 8 + 4 + 12 + 3 + 4 + 2 + 18);
+        expect(packetData.getBytesAvailable()).toBe(100 - packetData.getUncompressedSize());
+        // eslint-disable-next-line max-len
+        expect(buffer2hex(packetData.getFinalizedData())).toBe("0102010403020108070605040302010000803f0000803f00000040000080bf0a141e0200486900001000ed7acf04adea40c5b32bf50a5f1eae31");
+    });
+
+    test("Values that don't fit are not appended", () => {
+        const packetData = new OctreePacketData(5);
+        expect(packetData.appendUint32(1)).toBe(true);
+        expect(packetData.appendUint16(1)).toBe(false);
+        expect(packetData.appendString("A")).toBe(false);
+        expect(packetData.getUncompressedSize()).toBe(4);
+        expect(packetData.appendBoolean(false)).toBe(true);
+        expect(packetData.getBytesAvailable()).toBe(0);
+    });
+
+    test("Can append vectors", () => {
+        const packetData = new OctreePacketData(100);
+        expect(packetData.appendBooleanVector([true, false, true, true, false, false, false, false, true])).toBe(true);
+        expect(packetData.appendVec3Vector([{ x: 0, y: 0, z: 1 }])).toBe(true);
+        expect(buffer2hex(packetData.getFinalizedData())).toBe("09000d01010000000000000000000000803f");
+    });
+
+});
@@ -0,0 +1,69 @@
+//
+//  SafeLanding.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import SafeLanding from "../../../src/domain/octree/SafeLanding";
+
+
+describe("SafeLanding - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Load sequence is complete when not tracking", () => {
+        const safeLanding = new SafeLanding();
+        expect(safeLanding.isTracking()).toBe(false);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(true);
+    });
+
+    test("Load sequence is complete when all packets up to the exclusive end have been received", () => {
+        const safeLanding = new SafeLanding();
+        safeLanding.startTracking();
+        expect(safeLanding.isTracking()).toBe(true);
+
+        safeLanding.noteReceivedSequenceNumber(0);
+        safeLanding.noteReceivedSequenceNumber(2);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(false);
+
+        safeLanding.finishSequence(0, 3);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(false);
+
+        safeLanding.noteReceivedSequenceNumber(1);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(true);
+        expect(safeLanding.isTracking()).toBe(false);
+    });
+
+    test("Load sequence is complete immediately if there are no packets", () => {
+        const safeLanding = new SafeLanding();
+        safeLanding.startTracking();
+        safeLanding.finishSequence(0, 0);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(true);
+    });
+
+    test("Load sequence handles sequence number wrap-around", () => {
+        const safeLanding = new SafeLanding();
+        safeLanding.startTracking();
+        safeLanding.finishSequence(0xfffe, 1);
+        safeLanding.noteReceivedSequenceNumber(0xfffe);
+        safeLanding.noteReceivedSequenceNumber(0);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(false);
+        safeLanding.noteReceivedSequenceNumber(0xffff);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(true);
+    });
+
+    test("Restarting tracking discards previous packets", () => {
+        const safeLanding = new SafeLanding();
+        safeLanding.startTracking();
+        safeLanding.noteReceivedSequenceNumber(0);
+        safeLanding.startTracking();
+        safeLanding.finishSequence(0, 1);
+        expect(safeLanding.isLoadSequenceComplete()).toBe(false);
+    });
+
+});
@@ -0,0 +1,319 @@
+//
+//  OpusCodec.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+/* eslint-disable @typescript-eslint/no-magic-numbers, class-methods-use-this */
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access */
+/* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/restrict-plus-operands */
+
+import AudioConstants from "../../../../src/domain/audio/AudioConstants";
+import OpusCodec from "../../../../src/domain/plugins/opus-codec/OpusCodec";
+import LibopusWasmMock from "../../../../mocks/libopus-wasm.mock.js";
+import WebCodecsMock from "../../../../mocks/WebCodecs.mock.js";
+
+
+describe("OpusCodec - unit tests", () => {
+
+    afterEach(() => {
+        WebCodecsMock.uninstall();
+        LibopusWasmMock.failLoading(false);
+    });
+
+
+    test("Has the Opus codec name", () => {
+        const codec = new OpusCodec();
+        expect(codec.getName()).toBe("opus");
+    });
+
+    test("Is supported using WebAssembly if WebCodecs isn't available", async () => {
+        const codec = new OpusCodec();
+        expect(codec.isSupported()).toBe(false);
+        await codec.ready();
+        expect(codec.isSupported()).toBe(true);
+    });
+
+    test("Is not supported if neither WebCodecs nor WebAssembly is available", async () => {
+        LibopusWasmMock.failLoading(true);
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => { /* no-op */ });
+        const codec = new OpusCodec();
+        await codec.ready();
+        expect(codec.isSupported()).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+
+    test("Is supported if WebCodecs supports Opus", async () => {
+        WebCodecsMock.install();
+        const codec = new OpusCodec();
+        expect(codec.isSupported()).toBe(false);
+        await new Promise((resolve) => {
+            setTimeout(resolve, 0);
+        });
+        expect(codec.isSupported()).toBe(true);
+    });
+
+    test("Reports its support once ready", async () => {
+        WebCodecsMock.install();
+        const codec = new OpusCodec();
+        await codec.ready();
+        expect(codec.isSupported()).toBe(true);
+    });
+
+    test("Can encode PCM audio frames", async () => {
+        WebCodecsMock.install();
+        const codec = new OpusCodec();
+        await codec.ready();
+        const encodedFrames = [];
+        const encoder = codec.createEncoder(AudioConstants.SAMPLE_RATE, 1, (encodedBuffer) => {
+            encodedFrames.push(encodedBuffer);
+        });
+
+        const pcmData = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL);
+        pcmData[0] = 0x0201;
+        encoder.encode(pcmData);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toHaveLength(2);
+        expect(encodedFrames[0] instanceof Uint8Array).toBe(true);
+        expect([...encodedFrames[0]]).toStrictEqual([1, 2]);
+
+        codec.releaseEncoder(encoder);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toHaveLength(2);
+    });
+
+    test("Can decode Opus frames to PCM audio at the requested sample rate", async () => {
+        WebCodecsMock.install();
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            decodedFrames.push(decodedBuffer);
+        });
+
+        decoder.decode(new Uint8Array([25, 0]));
+        expect(decodedFrames).toHaveLength(1);
+        const decodedBuffer = decodedFrames[0];
+        expect(decodedBuffer instanceof Int16Array).toBe(true);
+        expect(decodedBuffer).toHaveLength(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+        expect(decodedBuffer[0]).toBe(8192);
+        expect(decodedBuffer[1]).toBe(-8192);
+
+        decoder.lostFrame();
+        expect(decodedFrames).toHaveLength(2);
+        expect(decodedFrames[1]).toHaveLength(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+
+        codec.releaseDecoder(decoder);
+        decoder.decode(new Uint8Array([50, 0]));
+        expect(decodedFrames).toHaveLength(2);
+    });
+
+    test("Delivers a lost frame after frames that are still being decoded", async () => {
+        WebCodecsMock.install();
+        WebCodecsMock.deferDecoding();
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            decodedFrames.push(decodedBuffer[0]);
+        });
+
+        decoder.decode(new Uint8Array([25, 0]));
+        decoder.lostFrame();
+        expect(decodedFrames).toStrictEqual([]);
+        WebCodecsMock.completeDecoding();
+        expect(decodedFrames).toStrictEqual([8192, 0]);
+    });
+
+    test("Replaces a frame that isn't decoded with silence when a later frame is decoded", async () => {
+        WebCodecsMock.install();
+        WebCodecsMock.deferDecoding();
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            decodedFrames.push(decodedBuffer[0]);
+        });
+
+        decoder.decode(new Uint8Array([25, 0]));
+        WebCodecsMock.dropDecoding();
+        decoder.decode(new Uint8Array([50, 0]));
+        expect(decodedFrames).toStrictEqual([]);
+        WebCodecsMock.completeDecoding();
+        expect(decodedFrames).toStrictEqual([0, 16384]);
+
+        codec.releaseDecoder(decoder);
+    });
+
+    test("Replaces frames that aren't decoded with silence when too many frames are waiting", async () => {
+        WebCodecsMock.install();
+        WebCodecsMock.deferDecoding();
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            decodedFrames.push(decodedBuffer[0]);
+        });
+
+        for (let i = 0; i < 100; i++) {
+            decoder.decode(new Uint8Array([25, 0]));
+        }
+        WebCodecsMock.dropDecoding();
+        expect(decodedFrames.length).toBeGreaterThan(0);
+        expect(decodedFrames.length).toBeLessThan(100);
+        expect(decodedFrames.every((sample) => {
+            return sample === 0;
+        })).toBe(true);
+
+        codec.releaseDecoder(decoder);
+    });
+
+    test("Replaces the encoder if it fails", async () => {
+        WebCodecsMock.install();
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const codec = new OpusCodec();
+        await codec.ready();
+        const encodedFrames = [];
+        const encoder = codec.createEncoder(AudioConstants.SAMPLE_RATE, 1, (encodedBuffer) => {
+            encodedFrames.push(encodedBuffer);
+        });
+
+        const pcmData = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL);
+        encoder.encode(pcmData);
+        WebCodecsMock.failCodecs();
+        expect(error).toHaveBeenCalledTimes(1);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toHaveLength(2);
+
+        codec.releaseEncoder(encoder);
+        error.mockRestore();
+    });
+
+    test("Reports frames that can't be encoded if the encoder fails before encoding anything", async () => {
+        WebCodecsMock.install();
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const codec = new OpusCodec();
+        await codec.ready();
+        const encodedFrames = [];
+        const encoder = codec.createEncoder(AudioConstants.SAMPLE_RATE, 1, (encodedBuffer) => {
+            encodedFrames.push(encodedBuffer);
+        });
+
+        WebCodecsMock.failCodecs();
+        expect(error).toHaveBeenCalledTimes(1);
+        const pcmData = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL);
+        encoder.encode(pcmData);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toStrictEqual([null, null]);
+
+        codec.releaseEncoder(encoder);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toHaveLength(2);
+        error.mockRestore();
+    });
+
+    test("Replaces the decoder if it fails, replacing the frames being decoded with silence", async () => {
+        WebCodecsMock.install();
+        WebCodecsMock.deferDecoding();
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            decodedFrames.push(decodedBuffer[0]);
+        });
+
+        decoder.decode(new Uint8Array([25, 0]));
+        WebCodecsMock.completeDecoding();
+        decoder.decode(new Uint8Array([25, 0]));
+        WebCodecsMock.failCodecs();
+        expect(error).toHaveBeenCalledTimes(1);
+        expect(decodedFrames).toStrictEqual([8192, 0]);
+        decoder.decode(new Uint8Array([50, 0]));
+        WebCodecsMock.completeDecoding();
+        expect(decodedFrames).toStrictEqual([8192, 0, 16384]);
+
+        codec.releaseDecoder(decoder);
+        error.mockRestore();
+    });
+
+    test("Clips decoded audio to the 16-bit range", async () => {
+        WebCodecsMock.install();
+        const codec = new OpusCodec();
+        await codec.ready();
+        let decodedBuffer = null;
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (buffer) => {
+            decodedBuffer = buffer;
+        });
+        decoder.decode(new Uint8Array([200, 0]));
+        expect(decodedBuffer[0]).toBe(32767);
+        expect(decodedBuffer[1]).toBe(-32768);
+    });
+
+
+    test("Can encode PCM audio frames using WebAssembly, in order", async () => {
+        const codec = new OpusCodec();
+        await codec.ready();
+        const encodedFrames = [];
+        const encoder = codec.createEncoder(AudioConstants.SAMPLE_RATE, 1, (encodedBuffer) => {
+            encodedFrames.push([...encodedBuffer]);
+        });
+
+        // Frames encoded before the WebAssembly encoder has been created are copied and encoded once it has been.
+        const pcmData = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_PER_CHANNEL);
+        pcmData[0] = 0x0201;
+        encoder.encode(pcmData);
+        pcmData[0] = 0x0403;
+        encoder.encode(pcmData);
+        expect(encodedFrames).toStrictEqual([]);
+        await encoder.flush();
+        expect(encodedFrames).toStrictEqual([[1, 2], [3, 4]]);
+        expect(encoder.getPreSkip()).toBe(312);
+
+        // Thereafter, frames are encoded immediately.
+        pcmData[0] = 0x0605;
+        encoder.encode(pcmData);
+        expect(encodedFrames).toStrictEqual([[1, 2], [3, 4], [5, 6]]);
+
+        codec.releaseEncoder(encoder);
+        encoder.encode(pcmData);
+        expect(encodedFrames).toHaveLength(3);
+    });
+
+    test("Can decode Opus frames using WebAssembly, concealing lost frames and silencing corrupt frames", async () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const codec = new OpusCodec();
+        await codec.ready();
+        const decodedFrames = [];
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (decodedBuffer) => {
+            expect(decodedBuffer).toHaveLength(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+            decodedFrames.push(decodedBuffer[0]);
+        });
+
+        // Frames decoded before the WebAssembly decoder has been created are decoded once it has been.
+        decoder.decode(new Uint8Array([25, 0]));
+        decoder.lostFrame();
+        expect(decodedFrames).toStrictEqual([]);
+        await new Promise((resolve) => {
+            setTimeout(resolve, 0);
+        });
+        expect(decodedFrames).toStrictEqual([2500, 1]);
+
+        decoder.decode(new Uint8Array([255, 0]));
+        expect(error).toHaveBeenCalledTimes(1);
+        decoder.decode(new Uint8Array([50, 0]));
+        expect(decodedFrames).toStrictEqual([2500, 1, 0, 5000]);
+
+        codec.releaseDecoder(decoder);
+        decoder.decode(new Uint8Array([50, 0]));
+        expect(decodedFrames).toHaveLength(4);
+        error.mockRestore();
+    });
+
+});
@@ -0,0 +1,77 @@
+//
+//  ZLibCodec.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioConstants from "../../../../src/domain/audio/AudioConstants";
+import ZLibCodec from "../../../../src/domain/plugins/pcm-codec/ZLibCodec";
+
+
+describe("ZLibCodec - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Has the zlib codec name and is supported", () => {
+        const codec = new ZLibCodec();
+        expect(codec.getName()).toBe("zlib");
+        expect(codec.isSupported()).toBe(true);
+    });
+
+    test("Can compress and decompress PCM audio frames", () => {
+        const codec = new ZLibCodec();
+        let encodedBuffer = null;
+        const encoder = codec.createEncoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (buffer) => {
+            encodedBuffer = buffer;
+        });
+        let decodedBuffer = null;
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (buffer) => {
+            decodedBuffer = buffer;
+        });
+
+        const pcmData = new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+        for (let i = 0; i < pcmData.length; i++) {
+            pcmData[i] = i % 2 === 0 ? i : -i;
+        }
+        encoder.encode(pcmData);
+        expect(encodedBuffer instanceof Uint8Array).toBe(true);
+        expect(encodedBuffer.byteLength).toBeLessThan(pcmData.byteLength);
+        // qCompress() header: uncompressed length as big-endian uint32, then the zlib stream header.
+        expect(new Uint8Array(encodedBuffer.buffer, 0, 5)).toStrictEqual(new Uint8Array([0x00, 0x00, 0x03, 0xc0, 0x78]));
+
+        decoder.decode(encodedBuffer);
+        expect(decodedBuffer).toStrictEqual(pcmData);
+
+        codec.releaseEncoder(encoder);
+        codec.releaseDecoder(decoder);
+    });
+
+    test("Replaces frames that can't be decompressed with silence", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+
+        const codec = new ZLibCodec();
+        let decodedBuffer = null;
+        const decoder = codec.createDecoder(AudioConstants.SAMPLE_RATE, AudioConstants.STEREO, (buffer) => {
+            decodedBuffer = buffer;
+        });
+
+        decoder.decode(new Uint8Array([0x00, 0x00, 0x03, 0xc0, 0x01, 0x02, 0x03]));
+        expect(decodedBuffer).toHaveLength(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+        expect(decodedBuffer).toStrictEqual(new Int16Array(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO));
+        expect(error).toHaveBeenCalledTimes(1);
+
+        decodedBuffer = null;
+        decoder.lostFrame();
+        expect(decodedBuffer).toHaveLength(AudioConstants.NETWORK_FRAME_SAMPLES_STEREO);
+
+        error.mockReset();
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+
+});
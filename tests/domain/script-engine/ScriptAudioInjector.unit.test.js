@@ -0,0 +1,60 @@
+//
+//  ScriptAudioInjector.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AudioWorkletsMock from "../../../mocks/domain/audio/AudioWorklets.mock.js";
+AudioWorkletsMock.mock();
+
+import { webcrypto } from "crypto";
+globalThis.crypto = webcrypto;
+
+import AudioInjector from "../../../src/domain/audio/AudioInjector";
+import AudioOutput from "../../../src/domain/audio/AudioOutput";
+import Sound from "../../../src/domain/audio/Sound";
+import AudioClient from "../../../src/domain/audio-client/AudioClient";
+import AccountManager from "../../../src/domain/networking/AccountManager";
+import AddressManager from "../../../src/domain/networking/AddressManager";
+import NodeList from "../../../src/domain/networking/NodeList";
+import ScriptAudioInjector from "../../../src/domain/script-engine/ScriptAudioInjector";
+import ContextManager from "../../../src/domain/shared/ContextManager";
+
+
+describe("ScriptAudioInjector - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const log = jest.spyOn(console, "log").mockImplementation(() => { /* no-op */ });
+
+    test("Can control an audio injector", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, AccountManager, contextID);
+        ContextManager.set(contextID, AddressManager);
+        ContextManager.set(contextID, NodeList, contextID);
+        ContextManager.set(contextID, AudioOutput);
+        ContextManager.set(contextID, AudioClient, contextID);
+
+        const injector = new ScriptAudioInjector(new AudioInjector(contextID, new Sound(new Int16Array(10)), {}));
+        expect(injector.isPlaying).toBe(true);
+        expect(typeof injector.finished.connect).toBe("function");
+
+        injector.setOptions({ volume: 0.25 });
+        expect(injector.options.volume).toBe(0.25);
+        injector.setOptions(null);
+        expect(injector.options.volume).toBe(0.25);
+        expect(error).toHaveBeenCalledTimes(1);
+
+        injector.stop();
+        expect(injector.isPlaying).toBe(false);
+        error.mockReset();
+    });
+
+    log.mockReset();
+});
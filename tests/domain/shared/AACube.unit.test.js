@@ -0,0 +1,44 @@
+//
+//  AACube.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import AACube from "../../../src/domain/shared/AACube";
+
+
+describe("AACube - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+
+    test("Can create an AACube", () => {
+        const cube = new AACube({ x: 1, y: 2, z: 3 }, 4);
+        expect(cube.corner).toStrictEqual({ x: 1, y: 2, z: 3 });
+        expect(cube.scale).toBe(4);
+        expect(cube.calcCenter()).toStrictEqual({ x: 3, y: 4, z: 5 });
+    });
+
+    test("Can test whether an AACube touches a sphere", () => {
+        const cube = new AACube({ x: 0, y: 0, z: 0 }, 2);
+        expect(cube.touchesSphere({ x: 1, y: 1, z: 1 }, 0.1)).toBe(true);
+        expect(cube.touchesSphere({ x: 3, y: 1, z: 1 }, 1.1)).toBe(true);
+        expect(cube.touchesSphere({ x: 3, y: 1, z: 1 }, 0.9)).toBe(false);
+        expect(cube.touchesSphere({ x: 3, y: 3, z: 3 }, 1.7)).toBe(false);
+        expect(cube.touchesSphere({ x: 3, y: 3, z: 3 }, 1.8)).toBe(true);
+    });
+
+    test("Can test whether an AACube touches an axis-aligned box", () => {
+        const cube = new AACube({ x: 0, y: 0, z: 0 }, 2);
+        expect(cube.touchesAABox({ x: 1, y: 1, z: 1 }, { x: 5, y: 5, z: 5 })).toBe(true);
+        expect(cube.touchesAABox({ x: -5, y: -5, z: -5 }, { x: 10, y: 10, z: 10 })).toBe(true);
+        expect(cube.touchesAABox({ x: 3, y: 0, z: 0 }, { x: 1, y: 1, z: 1 })).toBe(false);
+        expect(cube.touchesAABox({ x: 0, y: -3, z: 0 }, { x: 1, y: 1, z: 1 })).toBe(false);
+    });
+
+});
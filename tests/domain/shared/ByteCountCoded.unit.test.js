@@ -55,4 +55,20 @@ describe("ByteCountCoded - unit tests", () => {
         expect(codec.data).toBe(11785);
     });
 
+    test("Can encode byte count coded data", () => {
+        const codec = new ByteCountCoded();
+
+        expect(Array.from(codec.encode(0))).toStrictEqual([0x00]);
+        expect(Array.from(codec.encode(4))).toStrictEqual([0x10]);
+        expect(Array.from(codec.encode(6))).toStrictEqual([0x30]);
+
+        for (const value of [0, 1, 4, 6, 127, 128, 6132, 11785, 1000000]) {
+            const encoded = codec.encode(value);
+            const decoder = new ByteCountCoded();
+            const bytesConsumed = decoder.decode(new DataView(encoded.buffer), encoded.length);
+            expect(bytesConsumed).toBe(encoded.length);
+            expect(decoder.data).toBe(value);
+        }
+    });
+
 });
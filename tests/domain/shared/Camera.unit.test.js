@@ -11,7 +11,6 @@
 
 import Quat from "../../../src/domain/shared/Quat";
 import Vec3 from "../../../src/domain/shared/Vec3";
-import ContextManager from "../../../src/domain/shared/ContextManager";
 import Camera from "../../../src/domain/shared/Camera";
 
 
@@ -21,17 +20,13 @@ describe("Camera - unit tests", () => {
     /* eslint-disable @typescript-eslint/no-unsafe-call */
 
 
-    test("The Camera can be obtained from the ContextManager", () => {
-        const contextID = ContextManager.createContext();
-        ContextManager.set(contextID, Camera);
-        const camera = ContextManager.get(contextID, Camera);
+    test("Can create a Camera", () => {
+        const camera = new Camera();
         expect(camera instanceof Camera).toBe(true);
     });
 
     test("Default property values are as expected", () => {
-        const contextID = ContextManager.createContext();
-        ContextManager.set(contextID, Camera);
-        const camera = ContextManager.get(contextID, Camera);
+        const camera = new Camera();
 
         expect(camera.position).toEqual(Vec3.ZERO);
         expect(camera.orientation).toEqual(Quat.IDENTITY);
@@ -44,9 +39,7 @@ describe("Camera - unit tests", () => {
     });
 
     test("Can change property values", () => {
-        const contextID = ContextManager.createContext();
-        ContextManager.set(contextID, Camera);
-        const camera = ContextManager.get(contextID, Camera);
+        const camera = new Camera();
 
         camera.position = { x: 1, y: 2, z: 3 };
         expect(camera.position).toEqual({ x: 1, y: 2, z: 3 });
@@ -63,9 +56,7 @@ describe("Camera - unit tests", () => {
     });
 
     test("The camera's conical view is calculated", () => {
-        const contextID = ContextManager.createContext();
-        ContextManager.set(contextID, Camera);
-        const camera = ContextManager.get(contextID, Camera);
+        const camera = new Camera();
 
         camera.position = { x: 1, y: 2, z: 3 };
         camera.orientation = Quat.IDENTITY;
@@ -87,9 +78,7 @@ describe("Camera - unit tests", () => {
     });
 
     test("The camera's view is considered to have changed only if it has changed sufficiently", () => {
-        const contextID = ContextManager.createContext();
-        ContextManager.set(contextID, Camera);
-        const camera = ContextManager.get(contextID, Camera);
+        const camera = new Camera();
 
         // Position.
         camera.update();
@@ -172,6 +161,17 @@ describe("Camera - unit tests", () => {
         camera.update();
     });
 
+    test("The camera's view is considered to have changed after the last queried view is invalidated", () => {
+        const camera = new Camera();
+        camera.update();
+        expect(camera.hasViewChanged).toBe(false);
+        camera.invalidateLastQueriedView();
+        camera.update();
+        expect(camera.hasViewChanged).toBe(true);
+        camera.update();
+        expect(camera.hasViewChanged).toBe(false);
+    });
+
 
     /* eslint-enable @typescript-eslint/no-unsafe-call */
     /* eslint-enable @typescript-eslint/no-magic-numbers */
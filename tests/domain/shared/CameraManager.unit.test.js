@@ -0,0 +1,94 @@
+//
+//  CameraManager.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Camera from "../../../src/domain/shared/Camera";
+import CameraManager from "../../../src/domain/shared/CameraManager";
+import ContextManager from "../../../src/domain/shared/ContextManager";
+
+
+describe("CameraManager - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+    /* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access */
+
+    test("The CameraManager can be obtained from the ContextManager", () => {
+        const contextID = ContextManager.createContext();
+        ContextManager.set(contextID, CameraManager);
+        const cameraManager = ContextManager.get(contextID, CameraManager);
+        expect(cameraManager instanceof CameraManager).toBe(true);
+        expect(cameraManager.cameras).toStrictEqual([]);
+        expect(cameraManager.conicalViews).toStrictEqual([]);
+        expect(cameraManager.hasViewChanged).toBe(false);
+    });
+
+    test("Conical views include all cameras' views", () => {
+        const cameraManager = new CameraManager();
+        const cameraA = cameraManager.addCamera();
+        const cameraB = cameraManager.addCamera();
+        expect(cameraA instanceof Camera).toBe(true);
+        expect(cameraManager.cameras).toStrictEqual([cameraA, cameraB]);
+
+        cameraA.position = { x: 1, y: 2, z: 3 };
+        cameraB.position = { x: 4, y: 5, z: 6 };
+        const conicalViews = cameraManager.conicalViews;
+        expect(conicalViews).toHaveLength(2);
+        expect(conicalViews[0].position).toStrictEqual({ x: 1, y: 2, z: 3 });
+        expect(conicalViews[1].position).toStrictEqual({ x: 4, y: 5, z: 6 });
+
+        expect(cameraManager.removeCamera(cameraA)).toBe(true);
+        expect(cameraManager.cameras).toStrictEqual([cameraB]);
+        expect(cameraManager.conicalViews).toHaveLength(1);
+        expect(cameraManager.conicalViews[0].position).toStrictEqual({ x: 4, y: 5, z: 6 });
+    });
+
+    test("Can't remove the last camera", () => {
+        const cameraManager = new CameraManager();
+        const cameraA = cameraManager.addCamera();
+        const cameraB = cameraManager.addCamera();
+        expect(cameraManager.removeCamera(cameraA)).toBe(true);
+        expect(cameraManager.removeCamera(cameraA)).toBe(false);
+        expect(cameraManager.removeCamera(cameraB)).toBe(false);
+        expect(cameraManager.cameras).toStrictEqual([cameraB]);
+        expect(cameraManager.conicalViews).toHaveLength(1);
+    });
+
+    test("The view has changed if any camera's view has changed or the set of cameras has changed", () => {
+        const cameraManager = new CameraManager();
+        const cameraA = cameraManager.addCamera();
+        cameraA.update();
+        expect(cameraManager.hasViewChanged).toBe(true);  // New camera.
+        cameraA.update();
+        expect(cameraManager.hasViewChanged).toBe(false);
+
+        const cameraB = cameraManager.addCamera();
+        cameraA.update();
+        cameraB.update();
+        expect(cameraManager.hasViewChanged).toBe(true);  // New camera.
+        cameraA.update();
+        cameraB.update();
+        expect(cameraManager.hasViewChanged).toBe(false);
+
+        cameraB.position = { x: 10, y: 0, z: 0 };
+        cameraA.update();
+        cameraB.update();
+        expect(cameraManager.hasViewChanged).toBe(true);  // Camera moved.
+        cameraA.update();
+        cameraB.update();
+        expect(cameraManager.hasViewChanged).toBe(false);
+
+        cameraManager.removeCamera(cameraB);
+        cameraA.update();
+        expect(cameraManager.hasViewChanged).toBe(true);  // Camera removed.
+        cameraA.update();
+        expect(cameraManager.hasViewChanged).toBe(false);
+    });
+
+});
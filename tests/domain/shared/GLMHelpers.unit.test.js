@@ -30,6 +30,17 @@ describe("GLMHelpers - unit tests", () => {
         expect(quat.w).toBeCloseTo(1, 2);
     });
 
+    test("Can write a quaternion into 8 bytes of packet data", () => {
+        const data = new DataView(new ArrayBuffer(10));
+        const q = { x: 0, y: 0.258819, z: 0, w: 0.965926 };  // 30 deg yaw.
+        GLMHelpers.packOrientationQuatToBytes(data, 2, q);
+        const result = GLMHelpers.unpackOrientationQuatFromBytes(data, 2);
+        expect(result.x).toBeCloseTo(q.x, 4);
+        expect(result.y).toBeCloseTo(q.y, 4);
+        expect(result.z).toBeCloseTo(q.z, 4);
+        expect(result.w).toBeCloseTo(q.w, 4);
+    });
+
     test("Can read a quaternion from 6 bytes of packet data", () => {
 
         // 30 deg yaw.
@@ -202,6 +213,20 @@ describe("GLMHelpers - unit tests", () => {
         expect(vector.z).toBeCloseTo(0.2640, 4);
     });
 
+    test("Can create a transform matrix from a scale, rotation, and translation", () => {
+        const matrix = GLMHelpers.createMatFromScaleQuatAndPos({ x: 2, y: 2, z: 2 }, { x: 0, y: 0, z: 0.707107, w: 0.707107 },
+            { x: 1, y: 2, z: 3 });
+        const expected = {
+            r0c0: 0, r1c0: 2, r2c0: 0, r3c0: 0,
+            r0c1: -2, r1c1: 0, r2c1: 0, r3c1: 0,
+            r0c2: 0, r1c2: 0, r2c2: 2, r3c2: 0,
+            r0c3: 1, r1c3: 2, r2c3: 3, r3c3: 1
+        };
+        for (const key of Object.keys(expected)) {
+            expect(matrix[key]).toBeCloseTo(expected[key], 5);
+        }
+    });
+
     test("Can test that two values are close enough", () => {
         expect(GLMHelpers.closeEnough(0, 0, 0)).toBe(true);
         expect(GLMHelpers.closeEnough(0, 0, 0.001)).toBe(true);
@@ -0,0 +1,67 @@
+//
+//  Grab.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import Grab from "../../../src/domain/shared/Grab";
+import Uuid from "../../../src/domain/shared/Uuid";
+
+import { buffer2hex } from "../../testUtils.js";
+
+
+describe("Grab - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    const GRAB_ID = new Uuid(0xcfd633fa8d0b493fb04bdc2298fb9942n);
+    const GRAB = {
+        grabID: GRAB_ID,
+        ownerID: new Uuid(0x72c0c01d8cfc443faabf4a8738efeff8n),
+        targetID: new Uuid(0x852461da20504cd0b9e1619af13dc65fn),
+        parentJointIndex: 65526,
+        hand: "none",
+        positionalOffset: { x: 0, y: 0, z: 0 },
+        rotationalOffset: { x: 0, y: 0, z: 0, w: 1 }
+    };
+    // eslint-disable-next-line max-len
+    const GRAB_DATA = "0000000172c0c01d8cfc443faabf4a8738efeff8852461da20504cd0b9e1619af13dc65f0000fff600000008006e006f006e00650000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000003ff0000000000000";
+
+    test("Can pack grab data", () => {
+        expect(buffer2hex(Grab.toByteArray(GRAB).buffer)).toBe(GRAB_DATA);
+    });
+
+    test("Can unpack grab data", () => {
+        const data = new Uint8Array(GRAB_DATA.length / 2);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = Number.parseInt(GRAB_DATA.substr(i * 2, 2), 16);
+        }
+        expect(Grab.fromByteArray(GRAB_ID, new DataView(data.buffer))).toStrictEqual(GRAB);
+    });
+
+    test("Can round-trip grab data with non-zero offsets", () => {
+        const grab = {
+            ...GRAB,
+            hand: "right",
+            positionalOffset: { x: 0.1, y: -2.5, z: 3 },
+            rotationalOffset: { x: 0.5, y: 0.5, z: -0.5, w: 0.5 }
+        };
+        expect(Grab.fromByteArray(GRAB_ID, new DataView(Grab.toByteArray(grab).buffer))).toStrictEqual(grab);
+    });
+
+    test("Returns null if grab data can't be read", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        expect(Grab.fromByteArray(GRAB_ID, new DataView(new ArrayBuffer(10)))).toBeNull();
+        const data = Grab.toByteArray(GRAB);
+        expect(Grab.fromByteArray(GRAB_ID, new DataView(data.buffer, 0, data.length - 1))).toBeNull();
+        expect(error).toHaveBeenCalledTimes(2);
+        error.mockReset();
+    });
+
+    /* eslint-enable @typescript-eslint/no-magic-numbers */
+});
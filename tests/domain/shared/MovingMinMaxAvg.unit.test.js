@@ -0,0 +1,69 @@
+//
+//  MovingMinMaxAvg.unit.test.js
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+import MovingMinMaxAvg from "../../../src/domain/shared/MovingMinMaxAvg";
+
+
+describe("MovingMinMaxAvg - unit tests", () => {
+
+    /* eslint-disable @typescript-eslint/no-magic-numbers */
+
+    test("Reports zeros if there are no values", () => {
+        const stats = new MovingMinMaxAvg(2);
+        expect(stats.getMin()).toBe(0);
+        expect(stats.getMax()).toBe(0);
+        expect(stats.getAverage()).toBe(0);
+        expect(stats.getWindowMin()).toBe(0);
+        expect(stats.getWindowMax()).toBe(0);
+        expect(stats.getWindowAverage()).toBe(0);
+        expect(stats.isWindowFilled()).toBe(false);
+        expect(stats.getNewStatsAvailableFlag()).toBe(false);
+    });
+
+    test("Can track overall and window statistics", () => {
+        const stats = new MovingMinMaxAvg(2);
+
+        stats.update(10);
+        stats.update(20);
+        expect(stats.getMax()).toBe(0);  // Interval not completed.
+        stats.currentIntervalComplete();
+        expect(stats.getNewStatsAvailableFlag()).toBe(true);
+        stats.clearNewStatsAvailableFlag();
+        expect(stats.getNewStatsAvailableFlag()).toBe(false);
+        expect(stats.isWindowFilled()).toBe(false);
+
+        stats.update(30);
+        stats.currentIntervalComplete();
+        expect(stats.isWindowFilled()).toBe(true);
+        expect(stats.getWindowMin()).toBe(10);
+        expect(stats.getWindowMax()).toBe(30);
+        expect(stats.getWindowAverage()).toBe(20);
+
+        stats.update(4);
+        stats.update(6);
+        stats.currentIntervalComplete();
+        expect(stats.getWindowMin()).toBe(4);
+        expect(stats.getWindowMax()).toBe(30);
+        expect(stats.getWindowAverage()).toBeCloseTo(40 / 3, 5);
+        expect(stats.getMin()).toBe(4);
+        expect(stats.getMax()).toBe(30);
+        expect(stats.getAverage()).toBe(14);
+
+        stats.currentIntervalComplete();
+        expect(stats.getWindowMax()).toBe(6);
+        expect(stats.getMax()).toBe(30);
+
+        stats.reset();
+        expect(stats.getMax()).toBe(0);
+        expect(stats.isWindowFilled()).toBe(false);
+    });
+
+});
@@ -169,4 +169,27 @@ describe("EntityData - unit tests", () => {
         expect(propertyFlags.getHasProperty(110)).toBe(true);
         expect(propertyFlags.getHasProperty(111)).toBe(false);
     });
+
+    test("Can encode property flags", () => {
+        let propertyFlags = new PropertyFlags();
+        expect(Array.from(propertyFlags.encode())).toStrictEqual([0x00]);
+
+        propertyFlags.setHasProperty(0, true);
+        expect(Array.from(propertyFlags.encode())).toStrictEqual([0x40]);
+
+        propertyFlags = new PropertyFlags();
+        const flags = [2, 3, 17, 20, 64, 110];
+        for (const flag of flags) {
+            propertyFlags.setHasProperty(flag, true);
+        }
+        const encoded = propertyFlags.encode();
+        expect(encoded).toHaveLength(16);
+
+        const decoded = new PropertyFlags();
+        const bytesConsumed = decoded.decode(new DataView(encoded.buffer), encoded.length);
+        expect(bytesConsumed).toBe(16);
+        for (let flag = 0; flag < 120; flag++) {
+            expect(decoded.getHasProperty(flag)).toBe(flags.includes(flag));
+        }
+    });
 });
@@ -71,4 +71,28 @@ describe("Quat - unit tests", () => {
         expect(Quat.dot(q1, q2)).toBeCloseTo(0.33, 6);  // eslint-disable-line @typescript-eslint/no-magic-numbers
     });
 
+    test("Quat.multiply() combines two rotations", () => {
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        const q90y = { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 };
+        const q180y = Quat.multiply(q90y, q90y);
+        expect(q180y.x).toBeCloseTo(0, 6);
+        expect(Math.abs(q180y.y)).toBeCloseTo(1, 6);
+        expect(q180y.z).toBeCloseTo(0, 6);
+        expect(q180y.w).toBeCloseTo(0, 6);
+        expect(Quat.multiply(Quat.IDENTITY, q90y)).toEqual(q90y);
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    });
+
+    test("Quat.conjugate() reverses a rotation", () => {
+        /* eslint-disable @typescript-eslint/no-magic-numbers */
+        const q = { x: 0.5, y: -0.5, z: 0.5, w: 0.5 };
+        expect(Quat.conjugate(q)).toEqual({ x: -0.5, y: 0.5, z: -0.5, w: 0.5 });
+        const identity = Quat.multiply(q, Quat.conjugate(q));
+        expect(identity.x).toBeCloseTo(0, 6);
+        expect(identity.y).toBeCloseTo(0, 6);
+        expect(identity.z).toBeCloseTo(0, 6);
+        expect(identity.w).toBeCloseTo(1, 6);
+        /* eslint-enable @typescript-eslint/no-magic-numbers */
+    });
+
 });
@@ -15,6 +15,7 @@ AudioWorkletsMock.mock();
 import { webcrypto } from "crypto";
 globalThis.crypto = webcrypto;
 
+import SpatialParentFinder from "../../../src/domain/shared/SpatialParentFinder";
 import SpatiallyNestable, { NestableType } from "../../../src/domain/shared/SpatiallyNestable";
 import { Uuid } from "../../../src/Vircadia";
 
@@ -46,6 +47,18 @@ describe("SpatiallyNestable - unit tests", () => {
         expect(spatiallyNestable.getID().value()).toBe(newUUID.value());
     });
 
+    test("Can set and get the parent ID and parent joint index of a SpatiallyNestable object", () => {
+        const spatiallyNestable = new SpatiallyNestable(NestableType.Avatar, new Uuid(1234n));
+        expect(spatiallyNestable.getParentID()).toStrictEqual(new Uuid(Uuid.NULL));
+        expect(spatiallyNestable.getParentJointIndex()).toBe(SpatiallyNestable.INVALID_JOINT_INDEX);
+        expect(SpatiallyNestable.INVALID_JOINT_INDEX).toBe(65535);
+        const parentID = new Uuid(5678n);
+        spatiallyNestable.setParentID(parentID);
+        spatiallyNestable.setParentJointIndex(7);
+        expect(spatiallyNestable.getParentID()).toStrictEqual(parentID);
+        expect(spatiallyNestable.getParentJointIndex()).toBe(7);
+    });
+
     test("Can get and set world position", (done) => {
         const initialUUID = new Uuid(1234n);
         const spatiallyNestable = new SpatiallyNestable(NestableType.Avatar, initialUUID);
@@ -110,4 +123,67 @@ describe("SpatiallyNestable - unit tests", () => {
         }, 20);
     });
 
+    test("Can convert between local and world transforms of a parented object", () => {
+        const parentID = new Uuid(5678n);
+        const parentTransform = {
+            position: { x: 10, y: 0, z: 0 },
+            rotation: { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 }  // 90 degrees about the y-axis.
+        };
+        const parentFinder = new SpatialParentFinder();
+        parentFinder.addParentTree({
+            findNestableTransform: (id) => {
+                return id.value() === parentID.value() ? parentTransform : null;
+            }
+        });
+        const spatiallyNestable = new SpatiallyNestable(NestableType.Avatar, new Uuid(1234n), parentFinder);
+        spatiallyNestable.setLocalPosition({ x: 1, y: 2, z: 0 });
+        expect(spatiallyNestable.hasParent()).toBe(false);
+        expect(spatiallyNestable.getWorldPosition()).toStrictEqual({ x: 1, y: 2, z: 0 });
+
+        spatiallyNestable.setParentID(parentID);
+        expect(spatiallyNestable.hasParent()).toBe(true);
+        let position = spatiallyNestable.getWorldPosition();
+        expect(position.x).toBeCloseTo(10, 5);
+        expect(position.y).toBeCloseTo(2, 5);
+        expect(position.z).toBeCloseTo(-1, 5);
+        let orientation = spatiallyNestable.getWorldOrientation();
+        expect(orientation.y).toBeCloseTo(Math.SQRT1_2, 5);
+        expect(orientation.w).toBeCloseTo(Math.SQRT1_2, 5);
+
+        // The world position and orientation move with the parent.
+        parentTransform.position = { x: 20, y: 0, z: 0 };
+        position = spatiallyNestable.getWorldPosition();
+        expect(position.x).toBeCloseTo(20, 5);
+
+        spatiallyNestable.setWorldPosition({ x: 20, y: 0, z: 3 });
+        position = spatiallyNestable.getLocalPosition();
+        expect(position.x).toBeCloseTo(-3, 5);
+        expect(position.y).toBeCloseTo(0, 5);
+        expect(position.z).toBeCloseTo(0, 5);
+        spatiallyNestable.setWorldOrientation({ x: 0, y: 0, z: 0, w: 1 });
+        orientation = spatiallyNestable.getLocalOrientation();
+        expect(orientation.y).toBeCloseTo(-Math.SQRT1_2, 5);
+        expect(orientation.w).toBeCloseTo(Math.SQRT1_2, 5);
+
+        // If the parent isn't found, the local transform is used as the world transform.
+        spatiallyNestable.setParentID(new Uuid(9999n));
+        expect(spatiallyNestable.getTransform()).toBeNull();
+        expect(spatiallyNestable.getWorldPosition()).toStrictEqual(spatiallyNestable.getLocalPosition());
+    });
+
+    test("Parenting loops are detected", () => {
+        const error = jest.spyOn(console, "error").mockImplementation(() => { /* no-op */ });
+        const parentFinder = new SpatialParentFinder();
+        const spatiallyNestable = new SpatiallyNestable(NestableType.Avatar, new Uuid(1234n), parentFinder);
+        parentFinder.addParentTree({
+            findNestableTransform: (id, depth) => {
+                return id.value() === 1234n ? spatiallyNestable.getTransform(depth) : null;
+            }
+        });
+        spatiallyNestable.setParentID(new Uuid(1234n));
+        expect(spatiallyNestable.getTransform()).toBeNull();
+        expect(error).toHaveBeenCalledTimes(1);
+        error.mockReset();
+    });
+
 });
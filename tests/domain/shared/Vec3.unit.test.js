@@ -85,6 +85,11 @@ describe("Vec3 - unit tests", () => {
 
     });
 
+    test("Vec3.subtract() subtracts one vector from another", () => {
+        expect(Vec3.subtract({ x: 1, y: 2, z: 3 }, { x: 0, y: 0, z: 0 })).toEqual({ x: 1, y: 2, z: 3 });
+        expect(Vec3.subtract({ x: 1, y: 2, z: 3 }, { x: 3, y: 2, z: 1 })).toEqual({ x: -2, y: 0, z: 2 });
+    });
+
     test("Vec3.distance() calculates the distance between two points", () => {
         expect(Vec3.distance({ x: 1, y: 2, z: 3 }, { x: 1, y: 2, z: 3 })).toBe(0);
         expect(Vec3.distance({ x: 1, y: 2, z: 3 }, { x: 2, y: 2, z: 3 })).toBe(1);
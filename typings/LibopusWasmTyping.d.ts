@@ -0,0 +1,58 @@
+//
+//  LibopusWasmTyping.d.ts
+//
+//  libopus-wasm typings for TypeScript's "Node" module resolution, which doesn't use the package's "exports" field.
+//  https://libopus-wasm.dev/api-reference.html
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+// WEBRTC TODO: Remove when the SDK uses "Node16" or later module resolution and can use the package's own typings.
+
+declare module "libopus-wasm" {
+
+    export type SampleRate = 8000 | 12000 | 16000 | 24000 | 48000;
+    export type ChannelCount = 1 | 2;
+
+    export type EncoderOptions = {
+        channels?: ChannelCount;
+        sampleRate?: SampleRate;
+        application?: number;
+        bitrate?: number | "auto" | "max";
+        complexity?: number;
+        frameSize?: number;
+        vbr?: boolean;
+    };
+
+    export type DecoderOptions = {
+        channels?: ChannelCount;
+        sampleRate?: SampleRate;
+    };
+
+    export type OpusEncoderHandle = {
+        readonly channels: ChannelCount;
+        readonly frameSize: number;
+        readonly sampleRate: SampleRate;
+        encode(pcm: Int16Array): Uint8Array;
+        getLookahead(): number;
+        free(): void;
+    };
+
+    export type OpusDecoderHandle = {
+        readonly channels: ChannelCount;
+        readonly sampleRate: SampleRate;
+        decode(packet: Uint8Array | null): Int16Array;
+        decodePacketLoss(frameSize?: number): Int16Array;
+        free(): void;
+    };
+
+    export function loadLibopus(): Promise<{ version: string }>;
+    export function createEncoder(options?: EncoderOptions): Promise<OpusEncoderHandle>;
+    export function createDecoder(options?: DecoderOptions): Promise<OpusDecoderHandle>;
+
+}
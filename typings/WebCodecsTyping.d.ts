@@ -0,0 +1,159 @@
+//
+//  WebCodecsTyping.d.ts
+//
+//  WebCodecs audio typings missing from default typings.
+//  https://www.w3.org/TR/webcodecs/
+//
+//  Created by David Rowe on 18 Oct 2026.
+//  Copyright 2026 Vircadia contributors.
+//  Copyright 2026 DigiSomni LLC.
+//
+//  Distributed under the Apache License, Version 2.0.
+//  See the accompanying file LICENSE or http://www.apache.org/licenses/LICENSE-2.0.html
+//
+
+// WEBRTC TODO: Remove when the TypeScript DOM library includes WebCodecs.
+
+/* eslint-disable @typescript-eslint/no-redeclare */
+
+type AudioSampleFormat = "u8" | "s16" | "s32" | "f32" | "u8-planar" | "s16-planar" | "s32-planar" | "f32-planar";
+type CodecState = "unconfigured" | "configured" | "closed";
+type EncodedAudioChunkType = "key" | "delta";
+
+
+interface AudioDataInit {
+    format: AudioSampleFormat;
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: BufferSource;
+}
+
+interface AudioDataCopyToOptions {
+    planeIndex: number;
+    frameOffset?: number;
+    frameCount?: number;
+    format?: AudioSampleFormat;
+}
+
+interface AudioData {
+    readonly format: AudioSampleFormat | null;
+    readonly sampleRate: number;
+    readonly numberOfFrames: number;
+    readonly numberOfChannels: number;
+    readonly duration: number;
+    readonly timestamp: number;
+    allocationSize(options: AudioDataCopyToOptions): number;
+    copyTo(destination: BufferSource, options: AudioDataCopyToOptions): void;
+    close(): void;
+}
+
+declare const AudioData: {
+    prototype: AudioData;
+    new(init: AudioDataInit): AudioData;
+};
+
+
+interface EncodedAudioChunkInit {
+    type: EncodedAudioChunkType;
+    timestamp: number;
+    duration?: number;
+    data: BufferSource;
+}
+
+interface EncodedAudioChunk {
+    readonly type: EncodedAudioChunkType;
+    readonly timestamp: number;
+    readonly duration: number | null;
+    readonly byteLength: number;
+    copyTo(destination: BufferSource): void;
+}
+
+declare const EncodedAudioChunk: {
+    prototype: EncodedAudioChunk;
+    new(init: EncodedAudioChunkInit): EncodedAudioChunk;
+};
+
+
+interface OpusEncoderConfig {
+    format?: "opus" | "ogg";
+    frameDuration?: number;
+    complexity?: number;
+    packetlossperc?: number;
+    useinbandfec?: boolean;
+    usedtx?: boolean;
+}
+
+interface AudioEncoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    bitrate?: number;
+    bitrateMode?: "constant" | "variable";
+    opus?: OpusEncoderConfig;
+}
+
+interface AudioEncoderSupport {
+    supported?: boolean;
+    config?: AudioEncoderConfig;
+}
+
+interface EncodedAudioChunkMetadata {
+    decoderConfig?: AudioDecoderConfig;
+}
+
+interface AudioEncoderInit {
+    output: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+    error: (error: DOMException) => void;
+}
+
+interface AudioEncoder {
+    readonly state: CodecState;
+    readonly encodeQueueSize: number;
+    configure(config: AudioEncoderConfig): void;
+    encode(data: AudioData): void;
+    flush(): Promise<void>;
+    reset(): void;
+    close(): void;
+}
+
+declare const AudioEncoder: {
+    prototype: AudioEncoder;
+    new(init: AudioEncoderInit): AudioEncoder;
+    isConfigSupported(config: AudioEncoderConfig): Promise<AudioEncoderSupport>;
+};
+
+
+interface AudioDecoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    description?: BufferSource;
+}
+
+interface AudioDecoderSupport {
+    supported?: boolean;
+    config?: AudioDecoderConfig;
+}
+
+interface AudioDecoderInit {
+    output: (output: AudioData) => void;
+    error: (error: DOMException) => void;
+}
+
+interface AudioDecoder {
+    readonly state: CodecState;
+    readonly decodeQueueSize: number;
+    configure(config: AudioDecoderConfig): void;
+    decode(chunk: EncodedAudioChunk): void;
+    flush(): Promise<void>;
+    reset(): void;
+    close(): void;
+}
+
+declare const AudioDecoder: {
+    prototype: AudioDecoder;
+    new(init: AudioDecoderInit): AudioDecoder;
+    isConfigSupported(config: AudioDecoderConfig): Promise<AudioDecoderSupport>;
+};
@@ -10,6 +10,11 @@ module.exports = {
         extensions: [".webpack.js", ".web.js", ".ts", ".tsx", ".js"]
     },
 
+    externals: {
+        // libopus-wasm imports this only when running in Node.
+        "node:module": "import node:module"
+    },
+
     experiments: {
         outputModule: true
     },